@@ -0,0 +1,39 @@
+/**
+ * POST /api/generate
+ *
+ * GenerationPackage + AIModelId → 모델별 프롬프트로 provider API 호출 → SSE 스트리밍
+ * API 키는 서버 환경 변수에만 있음 (lib/ai-providers/provider-factory.ts 참고)
+ *
+ * GET /api/generate
+ *
+ * MODEL_REGISTRY_FILE에 정의된 모델 ID 목록 (내장 모델 외에 서버가 호출할 수 있는 모델)
+ */
+
+import { getConfiguredModelIds, handleGenerationRequest, loadModelRegistryFile } from "@/lib/ai-providers"
+
+// 스트리밍 응답은 캐시하지 않음
+export const dynamic = "force-dynamic"
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  // 사용자 정의 모델 (MODEL_REGISTRY_FILE)
+  const registry = await loadModelRegistryFile()
+  if (registry && !registry.valid) {
+    return Response.json(
+      { error: "MODEL_REGISTRY_FILE is invalid", details: registry.errors },
+      { status: 500 }
+    )
+  }
+
+  return handleGenerationRequest(body, { signal: request.signal })
+}
+
+export async function GET() {
+  return Response.json({ models: await getConfiguredModelIds() })
+}
@@ -1,24 +1,29 @@
 "use client"
 
-import { useRef } from "react"
+import { useEffect, useRef, useState } from "react"
 import Image from "next/image"
 import { BreakpointSwitcher} from "@/components/breakpoint-panel"
 import { LibraryPanel} from "@/components/library-panel"
 import { LayersTree} from "@/components/layers-tree"
-import { KonvaCanvas} from "@/components/canvas"
+import { KonvaCanvas, ResponsivePreview } from "@/components/canvas"
 import { PropertiesPanel} from "@/components/properties-panel"
 import { ExportModal} from "@/components/export-modal"
 import { InitialBreakpointModal } from "@/components/initial-breakpoint-modal"
+import { ProjectPickerModal } from "@/components/project-picker"
 import { ComponentLinkingPanel } from "@/components/component-linking-panel/ComponentLinkingPanel"
+import { CodePreviewPane } from "@/components/code-preview"
+import { MarkupImportDialog } from "@/components/markup-import"
 import { Button } from "@/components/ui/button"
 import { useLayoutStore } from "@/store/layout-store"
+import { useProjectStore } from "@/store/project-store"
+import { useModelRegistryStore } from "@/store/model-registry-store"
 import {
   Panel,
   PanelGroup,
   PanelResizeHandle,
   ImperativePanelGroupHandle,
 } from "react-resizable-panels"
-import { RotateCcw, Link } from "lucide-react"
+import { RotateCcw, Link, Undo2, Redo2, FolderOpen, Eye, PencilRuler, FileCode } from "lucide-react"
 
 /**
  * Visual Layout Builder
@@ -26,13 +31,21 @@ import { RotateCcw, Link } from "lucide-react"
  * Component Independence 아키텍처 + Resizable Panels (Phase 2)
  * - Library Panel: 컴포넌트 템플릿 추가 (리사이징 가능, Collapsible)
  * - Layers Tree: 드래그로 순서 변경 (수직 분할)
- * - Canvas: 실시간 프리뷰
+ * - Canvas: 실시간 프리뷰 (Preview 모드: 실제 너비 기준 반응형 미리보기)
+ * - Code Preview: 붙여넣은 AI 응답 코드를 canvas 옆 sandbox iframe에서 렌더링
+ * - Import Markup: 기존 JSX / HTML markup을 레이아웃으로 가져오기
  * - Properties Panel: 속성 편집 (수직 분할)
  * - Breakpoint Switcher: 반응형 전환
  * - Reset Layout: 레이아웃 초기화 기능
+ * - Projects: 이름 있는 레이아웃 전환 (저장된 프로젝트가 있으면 진입 시 프로젝트 선택)
  */
 export default function Home() {
   const panelGroupRef = useRef<ImperativePanelGroupHandle>(null)
+  const [hasHydrated, setHasHydrated] = useState(false)
+  const [isProjectPickerOpen, setIsProjectPickerOpen] = useState(false)
+  const [isCreatingProject, setIsCreatingProject] = useState(false)
+  const [isPreviewMode, setIsPreviewMode] = useState(false)
+  const [isCodePreviewOpen, setIsCodePreviewOpen] = useState(false)
 
   const breakpoints = useLayoutStore((state) => state.schema.breakpoints)
   const componentCount = useLayoutStore(
@@ -43,12 +56,54 @@ export default function Home() {
   const showLinkingPanel = useLayoutStore((state) => state.showLinkingPanel)
   const openLinkingPanel = useLayoutStore((state) => state.openLinkingPanel)
   const closeLinkingPanel = useLayoutStore((state) => state.closeLinkingPanel)
+  const undo = useLayoutStore((state) => state.undo)
+  const redo = useLayoutStore((state) => state.redo)
+  const canUndo = useLayoutStore((state) => state.history.past.length > 0)
+  const canRedo = useLayoutStore((state) => state.history.future.length > 0)
 
-  // 브레이크포인트가 없으면 모달 표시
-  const showInitialModal = breakpoints.length === 0
+  const projectCount = useProjectStore((state) => state.projects.length)
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+  const activeProjectName = useProjectStore(
+    (state) => state.projects.find((p) => p.id === state.activeProjectId)?.name
+  )
+  const createProject = useProjectStore((state) => state.createProject)
+
+  // 저장된 프로젝트 목록 복원 후 마지막 프로젝트 열기 (SSR hydration 이후 클라이언트에서만)
+  useEffect(() => {
+    // 사용자 정의 모델 설정 (Export 모달의 모델 목록)
+    useModelRegistryStore.persist.rehydrate()
+    Promise.resolve(useProjectStore.persist.rehydrate())
+      .then(() => useProjectStore.getState().restoreSession())
+      .finally(() => setHasHydrated(true))
+  }, [])
+
+  const hasActiveProject = activeProjectId !== null
+
+  // 열린 프로젝트가 없고 저장된 프로젝트가 있으면 프로젝트 선택 모달 표시
+  const showProjectPicker =
+    hasHydrated &&
+    !isCreatingProject &&
+    (isProjectPickerOpen || (!hasActiveProject && projectCount > 0))
+
+  // 브레이크포인트 선택 모달: 첫 프로젝트 생성, 새 프로젝트 생성, 현재 프로젝트 초기화(Reset 이후)
+  const showInitialModal =
+    hasHydrated &&
+    (isCreatingProject ||
+      (!hasActiveProject && projectCount === 0) ||
+      (hasActiveProject && breakpoints.length === 0))
 
   const handleBreakpointSelect = (breakpoint: "mobile" | "tablet" | "desktop") => {
-    initializeSchema(breakpoint)
+    if (hasActiveProject && !isCreatingProject) {
+      initializeSchema(breakpoint)
+    } else {
+      createProject(breakpoint)
+    }
+    setIsCreatingProject(false)
+  }
+
+  const handleCreateProject = () => {
+    setIsProjectPickerOpen(false)
+    setIsCreatingProject(true)
   }
 
   const resetLayout = () => {
@@ -82,9 +137,59 @@ export default function Home() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsProjectPickerOpen(true)}
+              title="Switch project"
+            >
+              <FolderOpen className="w-4 h-4 mr-1" />
+              {activeProjectName ?? "Projects"}
+            </Button>
             <span className="text-sm text-muted-foreground">
               {componentCount} components
             </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={undo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={redo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={isPreviewMode ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsPreviewMode((prev) => !prev)}
+              title={isPreviewMode ? "Back to the editing canvas" : "Preview at real device widths"}
+            >
+              {isPreviewMode ? (
+                <PencilRuler className="w-4 h-4 mr-1" />
+              ) : (
+                <Eye className="w-4 h-4 mr-1" />
+              )}
+              {isPreviewMode ? "Edit" : "Preview"}
+            </Button>
+            <Button
+              variant={isCodePreviewOpen ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsCodePreviewOpen((prev) => !prev)}
+              title="Paste a generated response and preview it next to the canvas"
+            >
+              <FileCode className="w-4 h-4 mr-1" />
+              Paste Response
+            </Button>
+            <MarkupImportDialog />
             <Button
               variant="outline"
               size="sm"
@@ -141,9 +246,24 @@ export default function Home() {
               <BreakpointSwitcher />
             </div>
 
-            {/* Konva Canvas - 브레이크포인트별 동적 그리드 */}
+            {/* Konva Canvas - 브레이크포인트별 동적 그리드 (Preview 모드: 실제 너비 미리보기) */}
+            {/* Code Preview가 열려 있으면 canvas와 나란히 */}
             <div className="flex-1 overflow-hidden">
-              <KonvaCanvas />
+              {isCodePreviewOpen ? (
+                <PanelGroup direction="horizontal">
+                  <Panel minSize={25}>
+                    {isPreviewMode ? <ResponsivePreview /> : <KonvaCanvas />}
+                  </Panel>
+                  <PanelResizeHandle className="w-1 bg-gray-200 hover:bg-blue-500 transition-colors" />
+                  <Panel defaultSize={45} minSize={25} className="border-l">
+                    <CodePreviewPane onClose={() => setIsCodePreviewOpen(false)} />
+                  </Panel>
+                </PanelGroup>
+              ) : isPreviewMode ? (
+                <ResponsivePreview />
+              ) : (
+                <KonvaCanvas />
+              )}
             </div>
           </div>
         </Panel>
@@ -191,6 +311,15 @@ export default function Home() {
       <InitialBreakpointModal
         open={showInitialModal}
         onSelect={handleBreakpointSelect}
+        onCancel={isCreatingProject ? () => setIsCreatingProject(false) : undefined}
+      />
+
+      {/* Project Picker Modal */}
+      <ProjectPickerModal
+        open={showProjectPicker}
+        dismissible={hasActiveProject}
+        onOpenChange={setIsProjectPickerOpen}
+        onCreateProject={handleCreateProject}
       />
 
       {/* Component Linking Panel */}
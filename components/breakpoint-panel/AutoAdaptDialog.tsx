@@ -0,0 +1,180 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Wand2 } from "lucide-react"
+import { useLayoutStore } from "@/store/layout-store"
+import { useToast } from "@/store/toast-store"
+import { adaptLayout, type AutoAdaptOptions } from "@/lib/auto-adapt"
+
+/**
+ * Auto-Adapt Dialog - 다른 breakpoint 배치에서 현재 breakpoint 배치 제안
+ *
+ * 미리보기에서 source breakpoint와 규칙(열 쌓기, sidebar 내리기)을 조정한 뒤 적용
+ * 적용 후 Canvas에서 자유롭게 수정 가능 (undo 한 단계로 되돌리기)
+ */
+export function AutoAdaptDialog() {
+  const [open, setOpen] = useState(false)
+  const [sourceBreakpoint, setSourceBreakpoint] = useState<string | null>(null)
+  const [stackColumns, setStackColumns] = useState<NonNullable<AutoAdaptOptions["stackColumns"]>>("auto")
+  const [collapseSidebars, setCollapseSidebars] = useState(true)
+
+  const schema = useLayoutStore((state) => state.schema)
+  const currentBreakpoint = useLayoutStore((state) => state.currentBreakpoint)
+  const applyAdaptedLayout = useLayoutStore((state) => state.applyAdaptedLayout)
+  const { success } = useToast()
+
+  // source 후보: 배치된 컴포넌트가 있는 다른 breakpoint (넓은 것부터)
+  const sources = useMemo(
+    () =>
+      [...schema.breakpoints]
+        .filter(
+          (bp) =>
+            bp.name !== currentBreakpoint && (schema.layouts[bp.name]?.components.length ?? 0) > 0
+        )
+        .sort((a, b) => b.minWidth - a.minWidth),
+    [schema.breakpoints, schema.layouts, currentBreakpoint]
+  )
+  const source = sources.find((bp) => bp.name === sourceBreakpoint) ?? sources[0]
+
+  const proposal = useMemo(
+    () =>
+      source
+        ? adaptLayout(schema, source.name, currentBreakpoint, { stackColumns, collapseSidebars })
+        : null,
+    [schema, source, currentBreakpoint, stackColumns, collapseSidebars]
+  )
+
+  const existingCount = schema.layouts[currentBreakpoint]?.components.length ?? 0
+
+  const handleApply = () => {
+    if (!proposal) return
+    applyAdaptedLayout(proposal)
+    setOpen(false)
+    success(`Adapted ${currentBreakpoint} from ${proposal.sourceBreakpoint}. Tweak it on the canvas or undo.`)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          disabled={sources.length === 0}
+          title={`Generate a ${currentBreakpoint} layout from another breakpoint`}
+        >
+          <Wand2 className="w-4 h-4" />
+          <span>Auto-adapt</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Auto-adapt {currentBreakpoint} layout</DialogTitle>
+          <DialogDescription>
+            Headers stay full-width, sidebars move below main and narrow columns stack.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Source breakpoint</Label>
+            <Select value={source?.name} onValueChange={setSourceBreakpoint}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((bp) => (
+                  <SelectItem key={bp.name} value={bp.name}>
+                    <span className="capitalize">{bp.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <Select
+              value={stackColumns}
+              onValueChange={(value) => setStackColumns(value as typeof stackColumns)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Stack when too narrow</SelectItem>
+                <SelectItem value="always">Always stack</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm pt-7">
+            <input
+              type="checkbox"
+              checked={collapseSidebars}
+              onChange={(e) => setCollapseSidebars(e.target.checked)}
+            />
+            Sidebars below main
+          </label>
+        </div>
+
+        {/* Preview: 제안된 배치를 grid 비율로 표시 */}
+        {proposal ? (
+          <div
+            className="relative w-full bg-slate-50 border rounded-md overflow-hidden"
+            style={{ aspectRatio: `${proposal.gridCols} / ${proposal.gridRows}`, maxHeight: 360 }}
+          >
+            {schema.components
+              .filter((component) => proposal.canvasLayouts[component.id])
+              .map((component) => {
+                const layout = proposal.canvasLayouts[component.id]
+                return (
+                  <div
+                    key={component.id}
+                    className="absolute border border-blue-400 bg-blue-50/70 rounded-sm text-[10px] text-blue-900 p-1 truncate"
+                    style={{
+                      left: `${(layout.x / proposal.gridCols) * 100}%`,
+                      top: `${(layout.y / proposal.gridRows) * 100}%`,
+                      width: `${(layout.width / proposal.gridCols) * 100}%`,
+                      height: `${(layout.height / proposal.gridRows) * 100}%`,
+                    }}
+                  >
+                    {component.name}
+                  </div>
+                )
+              })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No components to adapt.</p>
+        )}
+
+        {proposal && (
+          <p className="text-xs text-muted-foreground">
+            {proposal.gridCols} × {proposal.gridRows} grid
+            {existingCount > 0 &&
+              ` · replaces the current ${currentBreakpoint} layout (${existingCount} component(s))`}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!proposal}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,12 +8,15 @@ import {
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Smartphone, Tablet, Monitor, Plus, X } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { DEFAULT_GRID_CONFIG } from "@/lib/schema-utils"
-import type { Breakpoint } from "@/types/schema"
+import { getInheritanceMode } from "@/lib/breakpoint-inheritance"
+import type { Breakpoint, BreakpointInheritanceMode } from "@/types/schema"
 import { useToast } from "@/store/toast-store"
 import { useConfirm } from "@/store/alert-dialog-store"
+import { AutoAdaptDialog } from "./AutoAdaptDialog"
 
 /**
  * BreakpointSwitcher - Breakpoint 전환 UI (Schema)
@@ -32,6 +35,10 @@ export function BreakpointSwitcher() {
   )
   const addBreakpoint = useLayoutStore((state) => state.addBreakpoint)
   const deleteBreakpoint = useLayoutStore((state) => state.deleteBreakpoint)
+  const inheritanceMode = useLayoutStore((state) => getInheritanceMode(state.schema))
+  const setBreakpointInheritance = useLayoutStore(
+    (state) => state.setBreakpointInheritance
+  )
   const currentBreakpointConfig = useCurrentBreakpointConfig()
 
   const { warning, error } = useToast()
@@ -112,6 +119,22 @@ export function BreakpointSwitcher() {
               ≥ {currentBreakpointConfig.minWidth}px
             </Badge>
           )}
+          <AutoAdaptDialog />
+          <Select
+            value={inheritanceMode}
+            onValueChange={(value) =>
+              setBreakpointInheritance(value as BreakpointInheritanceMode)
+            }
+          >
+            <SelectTrigger className="h-8 w-[170px] text-xs" title="Breakpoint inheritance">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No inheritance</SelectItem>
+              <SelectItem value="mobile-first">Inherit mobile-first</SelectItem>
+              <SelectItem value="desktop-first">Inherit desktop-first</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Breakpoint Buttons */}
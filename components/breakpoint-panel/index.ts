@@ -1 +1,2 @@
 export { BreakpointSwitcher } from "./BreakpointSwitcher"
+export { AutoAdaptDialog } from "./AutoAdaptDialog"
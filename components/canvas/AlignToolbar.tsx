@@ -0,0 +1,126 @@
+"use client"
+
+import {
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalSpaceBetween,
+  AlignVerticalSpaceBetween,
+} from "lucide-react"
+import {
+  useLayoutStore,
+  useComponentsInCurrentLayout,
+  useCurrentBreakpointConfig,
+} from "@/store/layout-store"
+import {
+  alignSelection,
+  distributeSelection,
+  type AlignMode,
+  type ComponentUpdates,
+  type DistributeAxis,
+} from "@/lib/canvas-selection"
+import { useToast } from "@/store/toast-store"
+
+const ALIGN_ACTIONS: Array<{ mode: AlignMode; label: string; Icon: typeof AlignStartVertical }> = [
+  { mode: "left", label: "Align Left", Icon: AlignStartVertical },
+  { mode: "center", label: "Align Center", Icon: AlignCenterVertical },
+  { mode: "right", label: "Align Right", Icon: AlignEndVertical },
+  { mode: "top", label: "Align Top", Icon: AlignStartHorizontal },
+  { mode: "middle", label: "Align Middle", Icon: AlignCenterHorizontal },
+  { mode: "bottom", label: "Align Bottom", Icon: AlignEndHorizontal },
+]
+
+const DISTRIBUTE_ACTIONS: Array<{
+  axis: DistributeAxis
+  label: string
+  Icon: typeof AlignStartVertical
+}> = [
+  { axis: "horizontal", label: "Distribute Horizontally", Icon: AlignHorizontalSpaceBetween },
+  { axis: "vertical", label: "Distribute Vertically", Icon: AlignVerticalSpaceBetween },
+]
+
+const BUTTON_CLASS =
+  "p-1 text-gray-600 hover:bg-gray-200 disabled:text-gray-300 disabled:hover:bg-transparent rounded transition-colors"
+
+/**
+ * Align Toolbar - 선택된 컴포넌트 정렬/균등 분배
+ *
+ * 현재 breakpoint의 canvas layout(grid 단위) 기준
+ * 경계 초과 또는 겹침이 생기면 적용하지 않고 경고
+ */
+export function AlignToolbar() {
+  const selectedComponentIds = useLayoutStore((state) => state.selectedComponentIds)
+  const currentBreakpoint = useLayoutStore((state) => state.currentBreakpoint)
+  const updateComponents = useLayoutStore((state) => state.updateComponents)
+  const breakpointConfig = useCurrentBreakpointConfig()
+  const componentsInCurrentLayout = useComponentsInCurrentLayout()
+  const { warning } = useToast()
+
+  if (selectedComponentIds.length < 2) return null
+
+  const grid = {
+    cols: breakpointConfig?.gridCols ?? 12,
+    rows: breakpointConfig?.gridRows ?? 20,
+  }
+
+  const apply = (updates: ComponentUpdates | null, label: string) => {
+    if (!updates) {
+      warning(`Cannot ${label.toLowerCase()}: components would overlap or leave the grid`)
+      return
+    }
+    updateComponents(updates)
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <span className="text-xs font-medium text-muted-foreground mr-1">Align:</span>
+      {ALIGN_ACTIONS.map(({ mode, label, Icon }) => (
+        <button
+          key={mode}
+          onClick={() =>
+            apply(
+              alignSelection(
+                componentsInCurrentLayout,
+                currentBreakpoint,
+                selectedComponentIds,
+                mode,
+                grid
+              ),
+              label
+            )
+          }
+          className={BUTTON_CLASS}
+          title={label}
+        >
+          <Icon className="h-4 w-4" />
+        </button>
+      ))}
+      <span className="mx-1 h-4 w-px bg-gray-200" />
+      {DISTRIBUTE_ACTIONS.map(({ axis, label, Icon }) => (
+        <button
+          key={axis}
+          onClick={() =>
+            apply(
+              distributeSelection(
+                componentsInCurrentLayout,
+                currentBreakpoint,
+                selectedComponentIds,
+                axis,
+                grid
+              ),
+              label
+            )
+          }
+          disabled={selectedComponentIds.length < 3}
+          className={BUTTON_CLASS}
+          title={`${label} (3+ components)`}
+        >
+          <Icon className="h-4 w-4" />
+        </button>
+      ))}
+    </div>
+  )
+}
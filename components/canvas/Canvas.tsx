@@ -1,7 +1,7 @@
 "use client"
 
 import { useRef, useState, useEffect } from "react"
-import { useLayoutStore } from "@/store/layout-store"
+import { useLayoutStore, useResolvedSchema } from "@/store/layout-store"
 import { ComponentPreview } from "./ComponentPreview"
 import { generateComponentClasses } from "@/lib/code-generator"
 
@@ -15,7 +15,7 @@ export function Canvas() {
   const containerRef = useRef<HTMLDivElement>(null)
   const [scale, setScale] = useState(0.5) // 50% zoom for preview
 
-  const schema = useLayoutStore((state) => state.schema)
+  const schema = useResolvedSchema()
   const currentBreakpoint = useLayoutStore((state) => state.currentBreakpoint)
   const selectedComponentId = useLayoutStore((state) => state.selectedComponentId)
   const setSelectedComponentId = useLayoutStore((state) => state.setSelectedComponentId)
@@ -2,7 +2,7 @@
 
 import { useState, useRef, useEffect } from "react"
 import { Group, Rect, Text, Circle } from "react-konva"
-import type { Component } from "@/types/schema"
+import type { CanvasLayout, Component } from "@/types/schema"
 
 const CELL_SIZE = 100
 const HANDLE_SIZE = 12
@@ -11,12 +11,12 @@ interface ComponentNodeProps {
   component: Component
   /** Selection state */
   isSelected: boolean
-  /** Click handler */
-  onClick: () => void
+  /** Click handler - shiftKey: 다중 선택 토글 */
+  onClick: (event: { shiftKey: boolean }) => void
   /** Delete handler */
   onDelete?: () => void
-  /** Drag move handler - for snap guide updates */
-  onDragMove?: (pixelX: number, pixelY: number) => void
+  /** Drag move handler - for snap guide updates, returns the snapped pixel position (smart guides) */
+  onDragMove?: (pixelX: number, pixelY: number) => { x: number; y: number } | void
   /** Drag end handler - returns true if successful, false if blocked */
   onDragEnd?: (newX: number, newY: number) => boolean
   /** Resize end handler - returns true if successful, false if blocked */
@@ -24,6 +24,10 @@ interface ComponentNodeProps {
   /** Grid bounds for validation */
   gridRows: number
   gridCols: number
+  /** Group drag: 같이 선택된 다른 컴포넌트가 드래그 중일 때 따라 움직일 픽셀 offset */
+  dragOffset?: { x: number; y: number }
+  /** Group drag: 선택 전체의 bounding box (grid 단위) - 드래그 시 그룹 전체가 grid 안에 머물도록 제한 */
+  selectionBounds?: CanvasLayout | null
 }
 
 /**
@@ -49,6 +53,8 @@ export function ComponentNode({
   onResizeEnd,
   gridRows,
   gridCols,
+  dragOffset,
+  selectionBounds,
 }: ComponentNodeProps) {
   const { x: gridX = 0, y: gridY = 0, width: gridWidth = 1, height: gridHeight = 1 } = component.canvasLayout || {}
 
@@ -67,8 +73,8 @@ export function ComponentNode({
   // Always use latest size (resizeSize is updated during resize, baseWidth/baseHeight for non-resize)
   const width = isResizing ? resizeSize.width : baseWidth
   const height = isResizing ? resizeSize.height : baseHeight
-  const groupX = isResizing ? resizePosition.x : x
-  const groupY = isResizing ? resizePosition.y : y
+  const groupX = (isResizing ? resizePosition.x : x) + (dragOffset?.x ?? 0)
+  const groupY = (isResizing ? resizePosition.y : y) + (dragOffset?.y ?? 0)
 
   // Ref to track latest width/height/position for use in closures
   const widthRef = useRef(width)
@@ -116,19 +122,32 @@ export function ComponentNode({
     e.cancelBubble = true
 
     const node = e.target
-    const maxX = (gridCols - currentGridWidth) * CELL_SIZE
-    const maxY = (gridRows - currentGridHeight) * CELL_SIZE
+
+    // Group drag: bounding box 기준으로 이동 범위 계산
+    const bounds = selectionBounds ?? {
+      x: gridX,
+      y: gridY,
+      width: currentGridWidth,
+      height: currentGridHeight,
+    }
+    const minX = (gridX - bounds.x) * CELL_SIZE
+    const minY = (gridY - bounds.y) * CELL_SIZE
+    const maxX = (gridCols - bounds.width - bounds.x + gridX) * CELL_SIZE
+    const maxY = (gridRows - bounds.height - bounds.y + gridY) * CELL_SIZE
 
     // Clamp position
-    const clampedX = Math.max(0, Math.min(node.x(), maxX))
-    const clampedY = Math.max(0, Math.min(node.y(), maxY))
+    const clampedX = Math.max(minX, Math.min(node.x(), maxX))
+    const clampedY = Math.max(minY, Math.min(node.y(), maxY))
 
     node.x(clampedX)
     node.y(clampedY)
 
     // Notify parent for snap guide calculation (2025 modern UX pattern)
-    if (onDragMove) {
-      onDragMove(clampedX, clampedY)
+    // 다른 컴포넌트 가장자리/중심에 snap된 위치가 반환되면 적용
+    const snapped = onDragMove?.(clampedX, clampedY)
+    if (snapped) {
+      node.x(Math.max(minX, Math.min(snapped.x, maxX)))
+      node.y(Math.max(minY, Math.min(snapped.y, maxY)))
     }
   }
 
@@ -229,8 +248,8 @@ export function ComponentNode({
       x={groupX}
       y={groupY}
       draggable
-      onClick={onClick}
-      onTap={onClick}
+      onClick={(e) => onClick({ shiftKey: e.evt.shiftKey })}
+      onTap={() => onClick({ shiftKey: false })}
       onDragStart={handleDragStart}
       onDragMove={handleDragMove}
       onDragEnd={handleDragEnd}
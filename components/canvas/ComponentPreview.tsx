@@ -1,6 +1,6 @@
 "use client"
 
-import React from "react"
+import React, { type CSSProperties, type ReactNode } from "react"
 import { generateComponentClasses } from "@/lib/code-generator"
 import type { Component } from "@/types/schema"
 
@@ -8,6 +8,10 @@ interface ComponentPreviewProps {
   component: Component
   isSelected: boolean
   onClick: () => void
+  /** 추가 inline style (예: 반응형 미리보기의 grid-area) */
+  style?: CSSProperties
+  /** 중첩 자식 미리보기 (있으면 content placeholder 대신 렌더링) */
+  children?: ReactNode
 }
 
 /**
@@ -19,6 +23,8 @@ export function ComponentPreview({
   component,
   isSelected,
   onClick,
+  style,
+  children,
 }: ComponentPreviewProps) {
   const Tag = component.semanticTag as React.ElementType
 
@@ -45,13 +51,21 @@ export function ComponentPreview({
         </div>
       </div>
 
-      {/* Component content placeholder */}
-      <div className="p-8 text-gray-400 text-sm">
-        {component.props?.children as string || `[${component.name} Content]`}
-      </div>
+      {/* Nested components or content placeholder */}
+      {children ?? (
+        <div className="p-8 text-gray-400 text-sm">
+          {component.props?.children as string || `[${component.name} Content]`}
+        </div>
+      )}
     </>
   )
 
+  // 중첩된 미리보기에서 부모까지 클릭이 전파되지 않도록
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    onClick()
+  }
+
   // If container layout, wrap with container div
   if (component.layout.type === "container" && component.layout.container) {
     const { maxWidth, padding, centered } = component.layout.container
@@ -65,14 +79,14 @@ export function ComponentPreview({
       .join(" ")
 
     return (
-      <Tag className={interactionClasses} onClick={onClick}>
+      <Tag className={interactionClasses} style={style} onClick={handleClick}>
         <div className={containerClasses}>{content}</div>
       </Tag>
     )
   }
 
   return (
-    <Tag className={interactionClasses} onClick={onClick}>
+    <Tag className={interactionClasses} style={style} onClick={handleClick}>
       {content}
     </Tag>
   )
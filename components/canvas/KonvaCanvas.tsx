@@ -1,21 +1,44 @@
 "use client"
 
 import { useRef, useState, useEffect, useMemo } from "react"
-import { Stage, Layer, Rect, Line } from "react-konva"
+import { Stage, Layer, Group, Rect, Line, Text } from "react-konva"
 import Konva from "konva"
-import { useLayoutStore, useComponentsInCurrentLayout } from "@/store/layout-store"
+import { useLayoutStore, useComponentsInCurrentLayout, selectResolvedSchema } from "@/store/layout-store"
 import { ComponentNode } from "./ComponentNode"
+import { AlignToolbar } from "./AlignToolbar"
 import { createComponentFromTemplate } from "@/lib/component-library"
-import { calculateSmartPosition } from "@/lib/smart-layout"
+import { calculateSmartPosition, getRecommendedSize } from "@/lib/smart-layout"
 import { calculateMinimumGridSize } from "@/lib/grid-constraints"
-import { calculateSnapGuides, type SnapConfig, type SnapGuide } from "@/lib/snap-to-grid"
+import {
+  calculateSmartGuides,
+  type SnapConfig,
+  type SnapGuide,
+  type SpacingGuide,
+} from "@/lib/snap-to-grid"
+import {
+  getMarqueeSelection,
+  getSelectionBounds,
+  moveSelection,
+  resizeSelection,
+  toMarqueeRect,
+} from "@/lib/canvas-selection"
+import { moveWithReflow, resizeWithReflow } from "@/lib/canvas-reflow"
+import {
+  findDropParent,
+  findSlotInParent,
+  getAncestorIds,
+  getComponentsWithDescendants,
+  getDescendantIds,
+} from "@/lib/component-tree"
 import { useToast } from "@/store/toast-store"
-import type { Component } from "@/types/schema"
+import type { CanvasLayout, Component } from "@/types/schema"
 import type { ComponentTemplate } from "@/lib/component-library"
 
 // Grid constants
 const CELL_SIZE = 100
 const GRID_COLOR = "rgba(128, 128, 128, 0.2)"
+// Reflow mode: 밀어낸 뒤 위로 압축 (gridstack float: false)
+const REFLOW_OPTIONS = { compact: true }
 
 interface KonvaCanvasProps {
   width?: number
@@ -34,22 +57,47 @@ export function KonvaCanvas({
   const [isSpacePressed, setIsSpacePressed] = useState(false)
   const [isShiftPressed, setIsShiftPressed] = useState(false)
 
-  // Snap-to-Grid configuration (always enabled)
+  // Snap-to-Grid configuration (always enabled) + smart guides (컴포넌트 정렬 / 같은 간격 표시)
   const [activeSnapGuides, setActiveSnapGuides] = useState<SnapGuide[]>([])
+  const [activeSpacingGuides, setActiveSpacingGuides] = useState<SpacingGuide[]>([])
+
+  // Multi-select: marquee 드래그 영역 (stage 좌표), group drag/자식 컴포넌트가 따라 움직일 offset (픽셀)
+  const [marquee, setMarquee] = useState<{
+    start: { x: number; y: number }
+    end: { x: number; y: number }
+    additive: boolean
+  } | null>(null)
+  const [groupDrag, setGroupDrag] = useState<{
+    componentId: string
+    offset: { x: number; y: number }
+  } | null>(null)
+
+  // Reflow mode (gridstack 스타일): 드래그/리사이즈 시 겹치는 컴포넌트를 밀어내고 위로 압축
+  // reflowPreview: 드래그 중 밀려날 컴포넌트의 미리보기 위치 (grid 단위)
+  const [reflowEnabled, setReflowEnabled] = useState(false)
+  const [reflowPreview, setReflowPreview] = useState<Record<string, CanvasLayout> | null>(null)
+  const reflowCellRef = useRef<string | null>(null)
 
   // Get store data
   const schema = useLayoutStore((state) => state.schema)
-  const selectedComponentId = useLayoutStore((state) => state.selectedComponentId)
+  const selectedComponentIds = useLayoutStore((state) => state.selectedComponentIds)
   const setSelectedComponentId = useLayoutStore((state) => state.setSelectedComponentId)
-  const updateComponent = useLayoutStore((state) => state.updateComponent)
+  const setSelectedComponentIds = useLayoutStore((state) => state.setSelectedComponentIds)
+  const toggleComponentSelection = useLayoutStore((state) => state.toggleComponentSelection)
+  const clearSelection = useLayoutStore((state) => state.clearSelection)
+  const updateComponents = useLayoutStore((state) => state.updateComponents)
   const addComponent = useLayoutStore((state) => state.addComponent)
+  const setComponentParent = useLayoutStore((state) => state.setComponentParent)
   const currentBreakpoint = useLayoutStore((state) => state.currentBreakpoint)
   const addComponentToLayout = useLayoutStore((state) => state.addComponentToLayout)
   const deleteComponent = useLayoutStore((state) => state.deleteComponent)
+  const deleteComponents = useLayoutStore((state) => state.deleteComponents)
   const addGridRow = useLayoutStore((state) => state.addGridRow)
   const addGridColumn = useLayoutStore((state) => state.addGridColumn)
   const removeGridRow = useLayoutStore((state) => state.removeGridRow)
   const removeGridColumn = useLayoutStore((state) => state.removeGridColumn)
+  const undo = useLayoutStore((state) => state.undo)
+  const redo = useLayoutStore((state) => state.redo)
 
   // Toast for user feedback
   const { warning } = useToast()
@@ -99,9 +147,27 @@ export function KonvaCanvas({
     }
   }, [])
 
-  // Handle Space key for canvas panning, Shift for free positioning, and Delete key for component deletion
+  // Handle Space key for canvas panning, Shift for free positioning, Delete key for selection deletion,
+  // Escape for clearing selection, and Ctrl/Cmd+Z (Shift) for undo/redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Undo/Redo - input/textarea 안에서는 브라우저 기본 undo 유지
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        const target = e.target as HTMLElement | null
+        const isEditable =
+          target?.isContentEditable ||
+          target?.tagName === "INPUT" ||
+          target?.tagName === "TEXTAREA"
+        if (!isEditable) {
+          e.preventDefault()
+          if (e.shiftKey) {
+            redo()
+          } else {
+            undo()
+          }
+        }
+        return
+      }
       if (e.code === "Space" && !e.repeat) {
         e.preventDefault()
         setIsSpacePressed(true)
@@ -110,10 +176,13 @@ export function KonvaCanvas({
       if (e.key === "Shift" && !e.repeat) {
         setIsShiftPressed(true)
       }
-      // Delete or Backspace key to delete selected component
-      if ((e.key === "Delete" || e.key === "Backspace") && selectedComponentId) {
+      // Delete or Backspace key to delete selected components
+      if ((e.key === "Delete" || e.key === "Backspace") && selectedComponentIds.length > 0) {
         e.preventDefault()
-        deleteComponent(selectedComponentId)
+        deleteComponents(selectedComponentIds)
+      }
+      if (e.key === "Escape") {
+        clearSelection()
       }
     }
 
@@ -134,7 +203,7 @@ export function KonvaCanvas({
       window.removeEventListener("keydown", handleKeyDown)
       window.removeEventListener("keyup", handleKeyUp)
     }
-  }, [selectedComponentId, deleteComponent])
+  }, [selectedComponentIds, deleteComponents, clearSelection, undo, redo])
 
   // Use provided dimensions or container size
   const canvasWidth = width ?? containerSize.width
@@ -157,22 +226,210 @@ export function KonvaCanvas({
     })
     .filter((c): c is NonNullable<typeof c> => c !== null)
 
-  // Handle component drag move - update snap guides
-  const handleComponentDragMove = (pixelX: number, pixelY: number) => {
-    // Calculate snap guides during drag
-    const guides = calculateSnapGuides(pixelX, pixelY, snapConfig)
-    setActiveSnapGuides(guides)
+  // Group transform 대상: 2개 이상 선택된 상태에서 선택된 컴포넌트를 드래그/리사이즈
+  const isGroupMember = (componentId: string) =>
+    selectedComponentIds.length > 1 && selectedComponentIds.includes(componentId)
+
+  const selectionBounds = getSelectionBounds(
+    componentsInCurrentLayout,
+    currentBreakpoint,
+    selectedComponentIds
+  )
+
+  // 드래그 중 함께 움직이는 컴포넌트: group 멤버 + 이동하는 컴포넌트들의 자손
+  const getDragFollowerIds = (componentId: string): Set<string> => {
+    const movingIds = isGroupMember(componentId) ? selectedComponentIds : [componentId]
+    const followerIds = new Set(
+      movingIds.flatMap((id) => [id, ...getDescendantIds(componentsInCurrentLayout, id)])
+    )
+    followerIds.delete(componentId)
+    return followerIds
+  }
+
+  const dragFollowerIds = groupDrag ? getDragFollowerIds(groupDrag.componentId) : new Set<string>()
+
+  // 렌더링 순서: 얕은 깊이 먼저 (자식이 부모 위), 같은 깊이에서는 선택된 컴포넌트가 위
+  const renderOrder = [...componentsWithCanvas].sort(
+    (a, b) =>
+      getAncestorIds(componentsInCurrentLayout, a.id).length -
+        getAncestorIds(componentsInCurrentLayout, b.id).length ||
+      Number(selectedComponentIds.includes(a.id)) - Number(selectedComponentIds.includes(b.id))
+  )
+
+  // 현재 breakpoint에 렌더링되는 컴포넌트 (fresh state, layout 최상위 + 자손)
+  const getFreshRenderedComponents = () => {
+    const freshSchema = selectResolvedSchema(useLayoutStore.getState())
+    return getComponentsWithDescendants(
+      freshSchema.components,
+      freshSchema.layouts[currentBreakpoint]?.components ?? []
+    )
+  }
+
+  // Handle component drag move - smart guides + snap (group/자식 컴포넌트도 같이 이동)
+  // 함께 움직이는 컴포넌트를 제외한 나머지 컴포넌트의 가장자리/중심, 간격에 snap
+  const handleComponentDragMove = (componentId: string, pixelX: number, pixelY: number) => {
+    const layout = componentsWithCanvas.find((c) => c.id === componentId)?.currentCanvasLayout
+    if (!layout) return
+
+    const followerIds = getDragFollowerIds(componentId)
+    const targets = componentsWithCanvas
+      .filter((c) => c.id !== componentId && !followerIds.has(c.id))
+      .map(({ currentCanvasLayout: target }) => ({
+        x: target.x * CELL_SIZE,
+        y: target.y * CELL_SIZE,
+        width: target.width * CELL_SIZE,
+        height: target.height * CELL_SIZE,
+      }))
+
+    const result = calculateSmartGuides(
+      { x: pixelX, y: pixelY, width: layout.width * CELL_SIZE, height: layout.height * CELL_SIZE },
+      targets,
+      snapConfig
+    )
+    setActiveSnapGuides(result.guides)
+    setActiveSpacingGuides(result.spacing)
+
+    if (reflowEnabled) {
+      updateReflowPreview(
+        componentId,
+        Math.round(result.x / CELL_SIZE) - layout.x,
+        Math.round(result.y / CELL_SIZE) - layout.y
+      )
+    }
+
+    if (followerIds.size > 0) {
+      setGroupDrag({
+        componentId,
+        offset: { x: result.x - layout.x * CELL_SIZE, y: result.y - layout.y * CELL_SIZE },
+      })
+    }
+
+    return { x: result.x, y: result.y }
+  }
+
+  // Reflow 미리보기: 드래그가 새 셀에 들어갈 때만 다시 계산, 함께 움직이는 컴포넌트는 drag offset으로 표시
+  const updateReflowPreview = (componentId: string, dx: number, dy: number) => {
+    const cellKey = `${componentId}:${dx}:${dy}`
+    if (reflowCellRef.current === cellKey) return
+    reflowCellRef.current = cellKey
+
+    const movingIds = isGroupMember(componentId) ? selectedComponentIds : [componentId]
+    const updates = moveWithReflow(
+      componentsInCurrentLayout,
+      currentBreakpoint,
+      movingIds,
+      dx,
+      dy,
+      { cols: gridCols, rows: gridRows },
+      REFLOW_OPTIONS
+    )
+    const followerIds = getDragFollowerIds(componentId)
+
+    const preview: Record<string, CanvasLayout> = {}
+    for (const component of componentsInCurrentLayout) {
+      const update = updates?.[component.id]
+      if (!update || component.id === componentId || followerIds.has(component.id)) continue
+      const layout = update.responsiveCanvasLayout?.[currentBreakpoint] ?? update.canvasLayout
+      if (layout) preview[component.id] = layout
+    }
+    setReflowPreview(preview)
+  }
+
+  // Handle group drag end - 선택 전체를 같은 grid delta만큼 이동
+  const handleGroupDragEnd = (componentId: string, newX: number, newY: number): boolean => {
+    const freshComponents = getFreshRenderedComponents()
+
+    const component = freshComponents.find((c) => c.id === componentId)
+    const currentLayout =
+      component?.responsiveCanvasLayout?.[currentBreakpoint] || component?.canvasLayout
+    if (!currentLayout) return false
+
+    const updates = reflowEnabled
+      ? moveWithReflow(
+          freshComponents,
+          currentBreakpoint,
+          useLayoutStore.getState().selectedComponentIds,
+          newX - currentLayout.x,
+          newY - currentLayout.y,
+          { cols: gridCols, rows: gridRows },
+          REFLOW_OPTIONS
+        )
+      : moveSelection(
+          freshComponents,
+          currentBreakpoint,
+          useLayoutStore.getState().selectedComponentIds,
+          newX - currentLayout.x,
+          newY - currentLayout.y,
+          { cols: gridCols, rows: gridRows }
+        )
+
+    if (!updates) {
+      console.warn("❌ Group move blocked (out of bounds or collision), reverting")
+      return false
+    }
+
+    updateComponents(updates)
+    return true
+  }
+
+  // Handle group resize end - 선택 전체에 같은 크기 변화량 적용
+  const handleGroupResize = (componentId: string, newWidth: number, newHeight: number): boolean => {
+    const freshComponents = getFreshRenderedComponents()
+
+    const component = freshComponents.find((c) => c.id === componentId)
+    const currentLayout =
+      component?.responsiveCanvasLayout?.[currentBreakpoint] || component?.canvasLayout
+    if (!currentLayout) return false
+
+    const updates = reflowEnabled
+      ? resizeWithReflow(
+          freshComponents,
+          currentBreakpoint,
+          useLayoutStore.getState().selectedComponentIds,
+          newWidth - currentLayout.width,
+          newHeight - currentLayout.height,
+          { cols: gridCols, rows: gridRows },
+          REFLOW_OPTIONS
+        )
+      : resizeSelection(
+          freshComponents,
+          currentBreakpoint,
+          useLayoutStore.getState().selectedComponentIds,
+          newWidth - currentLayout.width,
+          newHeight - currentLayout.height,
+          { cols: gridCols, rows: gridRows }
+        )
+
+    if (!updates) {
+      console.warn("❌ Group resize blocked (out of bounds or collision), reverting")
+      return false
+    }
+
+    updateComponents(updates)
+    return true
   }
 
   // Handle component drag end - update canvasLayout
+  // 드롭 영역을 완전히 포함하는 가장 깊은 컴포넌트가 새 부모 (없으면 최상위), 자손은 함께 이동
   const handleComponentDragEnd = (
     componentId: string,
     newX: number,
     newY: number
   ): boolean => {
-    // Get fresh state
-    const freshState = useLayoutStore.getState()
-    const component = freshState.schema.components.find((c) => c.id === componentId)
+    // Clear snap guides / follower offset after drag end
+    setActiveSnapGuides([])
+    setActiveSpacingGuides([])
+    setGroupDrag(null)
+    setReflowPreview(null)
+    reflowCellRef.current = null
+
+    if (isGroupMember(componentId)) {
+      return handleGroupDragEnd(componentId, newX, newY)
+    }
+
+    // Get fresh components rendered in current breakpoint
+    const freshComponents = getFreshRenderedComponents()
+    const component = freshComponents.find((c) => c.id === componentId)
     if (!component) return false
 
     // Get current layout
@@ -182,96 +439,67 @@ export function KonvaCanvas({
 
     if (!currentLayout) return false
 
-    const { width: w, height: h } = currentLayout
-
-    // Clear snap guides after drag end
-    setActiveSnapGuides([])
-
-    // Validate bounds
-    if (
-      newX < 0 ||
-      newY < 0 ||
-      newX + w > gridCols ||
-      newY + h > gridRows
-    ) {
-      console.warn("❌ Component position out of bounds, reverting")
-      return false
-    }
-
-    // Get fresh components in current layout (동기화: currentLayout.components 기준)
-    const freshCurrentLayout = freshState.schema.layouts[currentBreakpoint]
-    const freshComponentIds = new Set(freshCurrentLayout.components)
-    const freshComponentsInLayout = freshState.schema.components.filter((c) => freshComponentIds.has(c.id))
-
-    const freshComponentsWithCanvas = freshComponentsInLayout
-      .map((c) => {
-        const layout =
-          c.responsiveCanvasLayout?.[currentBreakpoint] ||
-          c.canvasLayout
-        if (!layout) return null
-        return { ...c, currentCanvasLayout: layout }
-      })
-      .filter((c): c is NonNullable<typeof c> => c !== null)
-
-    // Check for collision with other components (STRICT)
-    const hasCollision = freshComponentsWithCanvas.some((other) => {
-      if (other.id === componentId) return false
-
-      const otherLayout = other.currentCanvasLayout
-      const otherRight = otherLayout.x + otherLayout.width
-      const otherBottom = otherLayout.y + otherLayout.height
-      const newRight = newX + w
-      const newBottom = newY + h
-
-      // STRICT: Even touching is considered collision
-      return !(
-        newX >= otherRight ||
-        newRight <= otherLayout.x ||
-        newY >= otherBottom ||
-        newBottom <= otherLayout.y
-      )
-    })
+    const parentId = findDropParent(
+      freshComponents,
+      currentBreakpoint,
+      { ...currentLayout, x: newX, y: newY },
+      component
+    )
+    const isReparent = parentId !== (component.parentId ?? null)
+
+    // 부모가 바뀌면 새 형제 기준으로 bounds/collision/containment 검증
+    const candidates = isReparent
+      ? freshComponents.map((c) =>
+          c.id === componentId ? { ...c, parentId: parentId ?? undefined } : c
+        )
+      : freshComponents
+
+    // Reflow mode: 같은 부모 안에서의 이동은 겹치는 형제를 밀어냄 (부모가 바뀌면 기존 검증)
+    const updates = reflowEnabled && !isReparent
+      ? moveWithReflow(
+          candidates,
+          currentBreakpoint,
+          [componentId],
+          newX - currentLayout.x,
+          newY - currentLayout.y,
+          { cols: gridCols, rows: gridRows },
+          REFLOW_OPTIONS
+        )
+      : moveSelection(
+          candidates,
+          currentBreakpoint,
+          [componentId],
+          newX - currentLayout.x,
+          newY - currentLayout.y,
+          { cols: gridCols, rows: gridRows }
+        )
 
-    if (hasCollision) {
-      console.warn("❌ Collision detected - position blocked")
+    if (!updates) {
+      console.warn("❌ Collision or out of bounds - position blocked")
       return false
     }
 
-    // Update component with responsive layout support
-    const updatedComponent = { ...component }
-
-    if (component.responsiveCanvasLayout) {
-      // Update responsive layout for current breakpoint
-      updatedComponent.responsiveCanvasLayout = {
-        ...component.responsiveCanvasLayout,
-        [currentBreakpoint]: {
-          ...currentLayout,
-          x: newX,
-          y: newY,
-        },
-      }
+    if (isReparent) {
+      setComponentParent(componentId, parentId, updates)
     } else {
-      // Fallback: update canvasLayout (backwards compatibility)
-      updatedComponent.canvasLayout = {
-        ...currentLayout,
-        x: newX,
-        y: newY,
-      }
+      updateComponents(updates)
     }
-
-    updateComponent(componentId, updatedComponent)
     return true
   }
 
-  // Handle component resize - update canvasLayout
+  // Handle component resize - update canvasLayout (자식 컴포넌트는 계속 포함되어야 함)
   const handleComponentResize = (
     componentId: string,
     newWidth: number,
     newHeight: number
   ): boolean => {
-    // Get fresh state
-    const freshState = useLayoutStore.getState()
-    const component = freshState.schema.components.find((c) => c.id === componentId)
+    if (isGroupMember(componentId)) {
+      return handleGroupResize(componentId, newWidth, newHeight)
+    }
+
+    // Get fresh components rendered in current breakpoint
+    const freshComponents = getFreshRenderedComponents()
+    const component = freshComponents.find((c) => c.id === componentId)
     if (!component) return false
 
     // Get current layout
@@ -281,81 +509,31 @@ export function KonvaCanvas({
 
     if (!currentLayout) return false
 
-    const { x, y } = currentLayout
-
-    // Validate bounds
-    if (
-      x < 0 ||
-      y < 0 ||
-      x + newWidth > gridCols ||
-      y + newHeight > gridRows
-    ) {
-      console.warn("❌ Component size out of bounds, reverting")
-      return false
-    }
-
-    // Get fresh components in current layout (동기화: currentLayout.components 기준)
-    const freshCurrentLayout = freshState.schema.layouts[currentBreakpoint]
-    const freshComponentIds = new Set(freshCurrentLayout.components)
-    const freshComponentsInLayout = freshState.schema.components.filter((c) => freshComponentIds.has(c.id))
-
-    const freshComponentsWithCanvas = freshComponentsInLayout
-      .map((c) => {
-        const layout =
-          c.responsiveCanvasLayout?.[currentBreakpoint] ||
-          c.canvasLayout
-        if (!layout) return null
-        return { ...c, currentCanvasLayout: layout }
-      })
-      .filter((c): c is NonNullable<typeof c> => c !== null)
-
-    // Check for collision with other components (STRICT)
-    const hasCollision = freshComponentsWithCanvas.some((other) => {
-      if (other.id === componentId) return false
-
-      const otherLayout = other.currentCanvasLayout
-      const otherRight = otherLayout.x + otherLayout.width
-      const otherBottom = otherLayout.y + otherLayout.height
-      const newRight = x + newWidth
-      const newBottom = y + newHeight
-
-      // STRICT: Even touching is considered collision
-      return !(
-        x >= otherRight ||
-        newRight <= otherLayout.x ||
-        y >= otherBottom ||
-        newBottom <= otherLayout.y
-      )
-    })
+    const updates = reflowEnabled
+      ? resizeWithReflow(
+          freshComponents,
+          currentBreakpoint,
+          [componentId],
+          newWidth - currentLayout.width,
+          newHeight - currentLayout.height,
+          { cols: gridCols, rows: gridRows },
+          REFLOW_OPTIONS
+        )
+      : resizeSelection(
+          freshComponents,
+          currentBreakpoint,
+          [componentId],
+          newWidth - currentLayout.width,
+          newHeight - currentLayout.height,
+          { cols: gridCols, rows: gridRows }
+        )
 
-    if (hasCollision) {
-      console.warn("❌ Collision detected during resize - size blocked")
+    if (!updates) {
+      console.warn("❌ Collision or out of bounds during resize - size blocked")
       return false
     }
 
-    // Update component with responsive layout support
-    const updatedComponent = { ...component }
-
-    if (component.responsiveCanvasLayout) {
-      // Update responsive layout for current breakpoint
-      updatedComponent.responsiveCanvasLayout = {
-        ...component.responsiveCanvasLayout,
-        [currentBreakpoint]: {
-          ...currentLayout,
-          width: newWidth,
-          height: newHeight,
-        },
-      }
-    } else {
-      // Fallback: update canvasLayout (backwards compatibility)
-      updatedComponent.canvasLayout = {
-        ...currentLayout,
-        width: newWidth,
-        height: newHeight,
-      }
-    }
-
-    updateComponent(componentId, updatedComponent)
+    updateComponents(updates)
     return true
   }
 
@@ -377,11 +555,53 @@ export function KonvaCanvas({
       const stage = stageRef.current
       if (!stage) return
 
+      // 컴포넌트 위에 드롭하면 그 안에 중첩 (포인터 위치의 가장 깊은 컴포넌트)
+      stage.setPointersPositions(e)
+      const pointer = stage.getRelativePointerPosition()
+      if (pointer) {
+        const freshComponents = getFreshRenderedComponents()
+        const pointerCell = {
+          x: Math.floor(pointer.x / CELL_SIZE),
+          y: Math.floor(pointer.y / CELL_SIZE),
+          width: 1,
+          height: 1,
+        }
+        const parentId = findDropParent(freshComponents, currentBreakpoint, pointerCell, {
+          id: "",
+          semanticTag: template.template.semanticTag,
+        })
+
+        if (parentId) {
+          const parent = freshComponents.find((c) => c.id === parentId)!
+          const size = getRecommendedSize(template.template.semanticTag, gridCols, gridRows)
+          const slot = findSlotInParent(
+            freshComponents,
+            currentBreakpoint,
+            parentId,
+            size.width,
+            size.height
+          )
+
+          if (!slot) {
+            warning(`No free space inside ${parent.name}`)
+            return
+          }
+
+          const nestedComponent = createComponentFromTemplate(template)
+          nestedComponent.parentId = parentId
+          nestedComponent.responsiveCanvasLayout = { [currentBreakpoint]: slot }
+
+          addComponent(nestedComponent)
+          setSelectedComponentId(nestedComponent.id)
+          return
+        }
+      }
+
       // Get fresh components in current layout for smart positioning (동기화)
-      const freshState = useLayoutStore.getState()
-      const freshCurrentLayout = freshState.schema.layouts[currentBreakpoint]
+      const freshSchema = selectResolvedSchema(useLayoutStore.getState())
+      const freshCurrentLayout = freshSchema.layouts[currentBreakpoint]
       const freshComponentIds = new Set(freshCurrentLayout.components)
-      const freshComponentsInLayout = freshState.schema.components.filter((c) => freshComponentIds.has(c.id))
+      const freshComponentsInLayout = freshSchema.components.filter((c) => freshComponentIds.has(c.id))
 
       // Calculate smart position based on semantic tag and positioning (2025 layout patterns)
       const smartPosition = calculateSmartPosition(
@@ -479,6 +699,46 @@ export function KonvaCanvas({
     removeGridColumn(currentBreakpoint)
   }
 
+  // Component click: Shift+click은 선택 토글, 일반 click은 단일 선택
+  const handleComponentClick = (componentId: string, shiftKey: boolean) => {
+    if (shiftKey) {
+      toggleComponentSelection(componentId)
+    } else {
+      setSelectedComponentId(componentId)
+    }
+  }
+
+  // Marquee selection - 빈 캔버스에서 드래그 (Shift: 기존 선택에 추가)
+  const handleStageMouseDown = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    const stage = stageRef.current
+    if (!stage || isSpacePressed || e.target !== stage) return
+
+    const pointer = stage.getRelativePointerPosition()
+    if (!pointer) return
+
+    setMarquee({ start: pointer, end: pointer, additive: e.evt.shiftKey })
+  }
+
+  const handleStageMouseMove = () => {
+    const pointer = stageRef.current?.getRelativePointerPosition()
+    if (!marquee || !pointer) return
+
+    setMarquee({ ...marquee, end: pointer })
+  }
+
+  const handleStageMouseUp = () => {
+    if (!marquee) return
+
+    // 드래그 없이 빈 곳 click → 빈 사각형 → 선택 해제
+    const ids = getMarqueeSelection(
+      componentsWithCanvas,
+      currentBreakpoint,
+      toMarqueeRect(marquee.start, marquee.end, CELL_SIZE)
+    )
+    setSelectedComponentIds(marquee.additive ? [...selectedComponentIds, ...ids] : ids)
+    setMarquee(null)
+  }
+
   // Handle wheel for Pan & Zoom
   const handleWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
     e.evt.preventDefault()
@@ -572,6 +832,17 @@ export function KonvaCanvas({
                 </button>
               </div>
             </div>
+            <button
+              onClick={() => setReflowEnabled((enabled) => !enabled)}
+              aria-pressed={reflowEnabled}
+              className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                reflowEnabled ? "bg-blue-100 text-blue-700 hover:bg-blue-200" : "bg-gray-100 hover:bg-gray-200"
+              }`}
+              title="Reflow: push overlapping components aside and compact the layout while dragging"
+            >
+              Reflow
+            </button>
+            <AlignToolbar />
           </div>
           <div className="relative group">
             <button className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-muted-foreground hover:text-foreground hover:bg-muted/50 rounded-md transition-colors">
@@ -617,6 +888,19 @@ export function KonvaCanvas({
                     <span className="text-gray-500 text-sm">+ Wheel</span>
                   </div>
                 </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-600 w-28 flex-shrink-0">Multi-select</span>
+                  <div className="flex items-center gap-2">
+                    <kbd className="px-3 py-1.5 bg-gray-100 border border-gray-300 rounded-md text-gray-900 font-mono text-sm shadow-sm min-w-[80px] text-center">Shift</kbd>
+                    <span className="text-gray-500 text-sm">+ Click</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-600 w-28 flex-shrink-0">Marquee Select</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-500 text-sm">Drag on empty canvas</span>
+                  </div>
+                </div>
                 <div className="flex items-center gap-3">
                   <span className="text-sm text-gray-600 w-28 flex-shrink-0">Delete Component</span>
                   <div className="flex items-center gap-2">
@@ -625,6 +909,20 @@ export function KonvaCanvas({
                     <kbd className="px-3 py-1.5 bg-gray-100 border border-gray-300 rounded-md text-gray-900 font-mono text-sm shadow-sm">⌫</kbd>
                   </div>
                 </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-600 w-28 flex-shrink-0">Undo</span>
+                  <div className="flex items-center gap-2">
+                    <kbd className="px-3 py-1.5 bg-gray-100 border border-gray-300 rounded-md text-gray-900 font-mono text-sm shadow-sm min-w-[80px] text-center">Ctrl</kbd>
+                    <span className="text-gray-500 text-sm">+ Z</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-600 w-28 flex-shrink-0">Redo</span>
+                  <div className="flex items-center gap-2">
+                    <kbd className="px-3 py-1.5 bg-gray-100 border border-gray-300 rounded-md text-gray-900 font-mono text-sm shadow-sm min-w-[80px] text-center">Ctrl</kbd>
+                    <span className="text-gray-500 text-sm">+ Shift + Z</span>
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -646,6 +944,10 @@ export function KonvaCanvas({
           x={stagePosition.x}
           y={stagePosition.y}
           onWheel={handleWheel}
+          onMouseDown={handleStageMouseDown}
+          onMouseMove={handleStageMouseMove}
+          onMouseUp={handleStageMouseUp}
+          onMouseLeave={handleStageMouseUp}
           draggable={isSpacePressed}
           onDragEnd={(e) => {
             setStagePosition({
@@ -654,8 +956,8 @@ export function KonvaCanvas({
             })
           }}
         >
-          {/* Grid Layer */}
-          <Layer>
+          {/* Grid Layer (listening 끔: 빈 캔버스 click/drag는 Stage가 받아 marquee 선택) */}
+          <Layer listening={false}>
             {/* Main grid cells */}
             {Array.from({ length: gridRows }).map((_, row) =>
               Array.from({ length: gridCols }).map((_, col) => (
@@ -674,68 +976,70 @@ export function KonvaCanvas({
 
           {/* Component Layer */}
           <Layer>
-            {/* Render non-selected components first */}
-            {componentsWithCanvas
-              .filter((c) => selectedComponentId !== c.id)
-              .map((componentWithLayout) => {
-                return (
-                  <ComponentNode
-                    key={componentWithLayout.id}
-                    component={{
-                      ...componentWithLayout,
-                      canvasLayout: componentWithLayout.currentCanvasLayout,
-                    }}
-                    gridCols={gridCols}
-                    gridRows={gridRows}
-                    isSelected={false}
-                    onClick={() => setSelectedComponentId(componentWithLayout.id)}
-                    onDelete={() => deleteComponent(componentWithLayout.id)}
-                    onDragMove={handleComponentDragMove}
-                    onDragEnd={(newX, newY) =>
-                      handleComponentDragEnd(componentWithLayout.id, newX, newY)
-                    }
-                    onResizeEnd={(newWidth, newHeight) =>
-                      handleComponentResize(componentWithLayout.id, newWidth, newHeight)
-                    }
-                  />
-                )
-              })}
-
-            {/* Render selected component last (on top) */}
-            {selectedComponentId &&
-              componentsWithCanvas
-                .filter((c) => selectedComponentId === c.id)
-                .map((componentWithLayout) => {
-                  return (
-                    <ComponentNode
-                      key={componentWithLayout.id}
-                      component={{
-                        ...componentWithLayout,
-                        canvasLayout: componentWithLayout.currentCanvasLayout,
-                      }}
-                      gridCols={gridCols}
-                      gridRows={gridRows}
-                      isSelected={true}
-                      onClick={() => setSelectedComponentId(componentWithLayout.id)}
-                      onDelete={() => deleteComponent(componentWithLayout.id)}
-                      onDragMove={handleComponentDragMove}
-                      onDragEnd={(newX, newY) =>
-                        handleComponentDragEnd(componentWithLayout.id, newX, newY)
-                      }
-                      onResizeEnd={(newWidth, newHeight) =>
-                        handleComponentResize(componentWithLayout.id, newWidth, newHeight)
-                      }
-                    />
-                  )
-                })}
+            {/* Render parents before children; within the same depth, selected components last (on top) */}
+            {renderOrder.map((componentWithLayout) => {
+              const isSelected = selectedComponentIds.includes(componentWithLayout.id)
+              const isGroup = isGroupMember(componentWithLayout.id)
+
+              return (
+                <ComponentNode
+                  key={componentWithLayout.id}
+                  component={{
+                    ...componentWithLayout,
+                    canvasLayout:
+                      reflowPreview?.[componentWithLayout.id] ?? componentWithLayout.currentCanvasLayout,
+                  }}
+                  gridCols={gridCols}
+                  gridRows={gridRows}
+                  isSelected={isSelected}
+                  dragOffset={
+                    groupDrag && dragFollowerIds.has(componentWithLayout.id)
+                      ? groupDrag.offset
+                      : undefined
+                  }
+                  selectionBounds={isGroup ? selectionBounds : undefined}
+                  onClick={({ shiftKey }) => handleComponentClick(componentWithLayout.id, shiftKey)}
+                  onDelete={() =>
+                    isGroup
+                      ? deleteComponents(selectedComponentIds)
+                      : deleteComponent(componentWithLayout.id)
+                  }
+                  onDragMove={(pixelX, pixelY) =>
+                    handleComponentDragMove(componentWithLayout.id, pixelX, pixelY)
+                  }
+                  onDragEnd={(newX, newY) =>
+                    handleComponentDragEnd(componentWithLayout.id, newX, newY)
+                  }
+                  onResizeEnd={(newWidth, newHeight) =>
+                    handleComponentResize(componentWithLayout.id, newWidth, newHeight)
+                  }
+                />
+              )
+            })}
           </Layer>
 
-          {/* Snap Guide Layer (2025 modern layout builder pattern) */}
+          {/* Snap Guide + Marquee Layer (2025 modern layout builder pattern) */}
           <Layer listening={false}>
             {activeSnapGuides.map((guide, index) => {
               const canvasWidth = gridCols * CELL_SIZE
               const canvasHeight = gridRows * CELL_SIZE
 
+              // Smart guide (컴포넌트 가장자리/중심): 정렬된 컴포넌트 구간만 실선으로 표시
+              if (guide.start !== undefined && guide.end !== undefined) {
+                return (
+                  <Line
+                    key={`smart-guide-${guide.type}-${index}`}
+                    points={
+                      guide.type === "vertical"
+                        ? [guide.position, guide.start, guide.position, guide.end]
+                        : [guide.start, guide.position, guide.end, guide.position]
+                    }
+                    stroke="#ec4899"
+                    strokeWidth={1.5}
+                  />
+                )
+              }
+
               // Vertical guide (수직선)
               if (guide.type === "vertical") {
                 return (
@@ -766,6 +1070,51 @@ export function KonvaCanvas({
 
               return null
             })}
+
+            {/* Matching gap indicators: 이웃과 같은 간격 (grid 칸 단위 라벨) */}
+            {activeSpacingGuides.map((spacing, index) => {
+              const isHorizontal = spacing.type === "horizontal"
+              const middle = (spacing.start + spacing.end) / 2
+              const label = `${Math.round((spacing.distance / CELL_SIZE) * 10) / 10}`
+
+              return (
+                <Group key={`spacing-guide-${index}`}>
+                  <Line
+                    points={
+                      isHorizontal
+                        ? [spacing.start, spacing.position, spacing.end, spacing.position]
+                        : [spacing.position, spacing.start, spacing.position, spacing.end]
+                    }
+                    stroke="#ec4899"
+                    strokeWidth={1}
+                    dash={[4, 2]}
+                  />
+                  <Text
+                    x={isHorizontal ? middle - 20 : spacing.position + 4}
+                    y={isHorizontal ? spacing.position + 4 : middle - 6}
+                    width={isHorizontal ? 40 : undefined}
+                    align="center"
+                    text={label}
+                    fontSize={12}
+                    fill="#ec4899"
+                  />
+                </Group>
+              )
+            })}
+
+            {/* Marquee selection rectangle */}
+            {marquee && (
+              <Rect
+                x={Math.min(marquee.start.x, marquee.end.x)}
+                y={Math.min(marquee.start.y, marquee.end.y)}
+                width={Math.abs(marquee.end.x - marquee.start.x)}
+                height={Math.abs(marquee.end.y - marquee.start.y)}
+                fill="rgba(59, 130, 246, 0.1)"
+                stroke="#3b82f6"
+                strokeWidth={1}
+                dash={[4, 4]}
+              />
+            )}
           </Layer>
         </Stage>
       </div>
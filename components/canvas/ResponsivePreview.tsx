@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useLayoutStore, useCurrentBreakpointConfig } from "@/store/layout-store"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  buildPreviewItems,
+  DEVICE_PRESETS,
+  getBreakpointForWidth,
+  PREVIEW_ROW_HEIGHT,
+  PREVIEW_WIDTH_RANGE,
+  type PreviewItem,
+} from "@/lib/responsive-preview"
+import { ComponentPreview } from "./ComponentPreview"
+
+// 프리셋을 고르지 않았을 때의 frame 높이 (px)
+const DEFAULT_FRAME_HEIGHT = 900
+const FRAME_PADDING = 32
+
+/**
+ * ResponsivePreview - 실제 너비 기준 반응형 미리보기
+ *
+ * 너비 슬라이더/디바이스 프리셋으로 frame 너비를 바꾸면 minWidth 기준으로 breakpoint layout이 전환됨
+ * Frame은 실제 px 크기로 렌더링하고, 화면보다 크면 비율을 유지한 채 축소해서 보여줌
+ */
+export function ResponsivePreview() {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [containerWidth, setContainerWidth] = useState(0)
+
+  const schema = useLayoutStore((state) => state.schema)
+  const selectedComponentIds = useLayoutStore((state) => state.selectedComponentIds)
+  const setSelectedComponentId = useLayoutStore((state) => state.setSelectedComponentId)
+  const setCurrentBreakpoint = useLayoutStore((state) => state.setCurrentBreakpoint)
+  const currentBreakpointConfig = useCurrentBreakpointConfig()
+
+  // 처음에는 편집 중인 breakpoint가 보이는 너비로 시작
+  const [width, setWidth] = useState(() =>
+    Math.min(
+      Math.max(currentBreakpointConfig?.minWidth ?? 0, DEVICE_PRESETS[0].width),
+      PREVIEW_WIDTH_RANGE.max
+    )
+  )
+  const [presetId, setPresetId] = useState<string | null>(null)
+
+  const preset = DEVICE_PRESETS.find((p) => p.id === presetId)
+  const frameHeight = preset?.height ?? DEFAULT_FRAME_HEIGHT
+
+  const activeBreakpoint = getBreakpointForWidth(schema.breakpoints, width)
+  const items = useMemo(
+    () => (activeBreakpoint ? buildPreviewItems(schema, activeBreakpoint.name) : []),
+    [schema, activeBreakpoint]
+  )
+
+  // Frame이 화면보다 크면 축소 (확대는 하지 않음)
+  const scale =
+    containerWidth > 0
+      ? Math.max(0.1, Math.min(1, (containerWidth - FRAME_PADDING * 2) / width))
+      : 1
+
+  // Measure container width
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) {
+        setContainerWidth(containerRef.current.clientWidth)
+      }
+    }
+
+    updateWidth()
+
+    const resizeObserver = new ResizeObserver(updateWidth)
+    if (containerRef.current) {
+      resizeObserver.observe(containerRef.current)
+    }
+
+    return () => {
+      resizeObserver.disconnect()
+    }
+  }, [])
+
+  const handleSelect = (componentId: string) => {
+    // 미리보기에서 고른 컴포넌트를 해당 breakpoint에서 편집할 수 있도록
+    if (activeBreakpoint) setCurrentBreakpoint(activeBreakpoint.name)
+    setSelectedComponentId(componentId)
+  }
+
+  const renderItems = (previewItems: PreviewItem[]) =>
+    previewItems.map((item) => (
+      <ComponentPreview
+        key={item.component.id}
+        component={item.component}
+        isSelected={selectedComponentIds.includes(item.component.id)}
+        onClick={() => handleSelect(item.component.id)}
+        style={{ gridArea: item.gridArea }}
+      >
+        {item.grid && (
+          <div
+            className="grid"
+            style={{
+              gridTemplateColumns: `repeat(${item.grid.cols}, minmax(0, 1fr))`,
+              gridAutoRows: `minmax(${PREVIEW_ROW_HEIGHT}px, auto)`,
+            }}
+          >
+            {renderItems(item.children)}
+          </div>
+        )}
+      </ComponentPreview>
+    ))
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Toolbar: 프리셋 + 너비 슬라이더 */}
+      <div className="flex-shrink-0 flex flex-wrap items-center gap-3 px-4 py-3 border-b bg-white">
+        <div className="flex flex-wrap gap-1">
+          {DEVICE_PRESETS.map((device) => (
+            <Button
+              key={device.id}
+              variant={presetId === device.id ? "default" : "outline"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => {
+                setPresetId(device.id)
+                setWidth(device.width)
+              }}
+              title={`${device.width} × ${device.height}`}
+            >
+              {device.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-1 min-w-[200px] items-center gap-2">
+          <input
+            type="range"
+            min={PREVIEW_WIDTH_RANGE.min}
+            max={PREVIEW_WIDTH_RANGE.max}
+            value={width}
+            list="preview-breakpoint-widths"
+            onChange={(e) => {
+              setPresetId(null)
+              setWidth(Number(e.target.value))
+            }}
+            className="flex-1"
+            aria-label="Preview width"
+          />
+          {/* Breakpoint minWidth 눈금 */}
+          <datalist id="preview-breakpoint-widths">
+            {schema.breakpoints.map((bp) => (
+              <option key={bp.name} value={bp.minWidth} label={bp.name} />
+            ))}
+          </datalist>
+          <span className="w-16 text-right text-xs font-mono">{width}px</span>
+        </div>
+
+        {activeBreakpoint && (
+          <Badge variant="outline" className="font-mono capitalize">
+            {activeBreakpoint.name} ≥ {activeBreakpoint.minWidth}px
+          </Badge>
+        )}
+      </div>
+
+      {/* Frame (실제 px 크기, 필요하면 축소) */}
+      <div ref={containerRef} className="flex-1 overflow-auto" style={{ padding: FRAME_PADDING }}>
+        <div
+          className="mx-auto"
+          style={{ width: width * scale, height: frameHeight * scale }}
+        >
+          <div
+            className="relative bg-white shadow-2xl overflow-y-auto overflow-x-hidden"
+            style={{
+              width,
+              height: frameHeight,
+              transform: `scale(${scale})`, // fixed positioning의 containing block 역할도 함
+              transformOrigin: "top left",
+            }}
+          >
+            {items.length > 0 && activeBreakpoint ? (
+              <div
+                className="grid"
+                style={{
+                  gridTemplateColumns: `repeat(${activeBreakpoint.gridCols}, minmax(0, 1fr))`,
+                  gridTemplateRows: `repeat(${activeBreakpoint.gridRows}, minmax(${PREVIEW_ROW_HEIGHT}px, auto))`,
+                }}
+              >
+                {renderItems(items)}
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center text-center text-gray-400">
+                <div>
+                  <div className="text-lg font-semibold mb-2">No components</div>
+                  <div className="text-sm">
+                    Nothing is rendered at {activeBreakpoint?.name ?? "this width"}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,6 @@
 export { KonvaCanvas } from "./KonvaCanvas"
 export { ComponentNode } from "./ComponentNode"
+export { AlignToolbar } from "./AlignToolbar"
 export { Canvas } from "./Canvas"
 export { ComponentPreview } from "./ComponentPreview"
+export { ResponsivePreview } from "./ResponsivePreview"
@@ -0,0 +1,299 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useLayoutStore } from "@/store/layout-store"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Play, ShieldCheck, Trash2, X } from "lucide-react"
+import { DEVICE_PRESETS } from "@/lib/responsive-preview"
+import {
+  buildPreviewDocument,
+  findStaticPreviewHooks,
+  generateLayoutUtilityCss,
+  PREVIEW_MESSAGE_TYPES,
+  splitGeneratedResponse,
+  transpileGeneratedFiles,
+  type TranspileResult,
+} from "@/lib/code-preview"
+import { recordRepairIteration, validateResponse, type RepairIteration } from "@/lib/code-repair"
+import type { BPValidationResult } from "@/lib/prompt-bp-validator"
+import { RepairPanel } from "./RepairPanel"
+
+const FRAME_HEIGHT = 900
+const FRAME_PADDING = 16
+
+interface CodePreviewPaneProps {
+  onClose: () => void
+}
+
+interface RenderedPreview {
+  result: TranspileResult
+  srcDoc: string
+}
+
+/**
+ * Builder에 로드된 CSS 전체 (Tailwind 포함) - iframe은 부모 스타일을 상속하지 않음
+ */
+function collectDocumentCss(): string {
+  return Array.from(document.styleSheets)
+    .flatMap((sheet) => {
+      try {
+        return Array.from(sheet.cssRules, (rule) => rule.cssText)
+      } catch {
+        // cross-origin stylesheet은 읽을 수 없음
+        return []
+      }
+    })
+    .join("\n")
+}
+
+/**
+ * CodePreviewPane - AI 응답 코드 미리보기
+ *
+ * 모델에서 받은 응답을 붙여넣으면 파일로 분리 → TSX transpile → sandbox iframe에서 렌더링
+ * iframe 너비는 현재 breakpoint를 따라가므로 canvas wireframe과 나란히 비교 가능
+ * Validate는 schema 기준으로 검증하고, 통과할 때까지 repair 프롬프트와 반복 점수를 보여줌
+ * 한 번만 정적으로 렌더링하므로 state 변경 / effect는 동작하지 않음 (레이아웃 확인용)
+ */
+export function CodePreviewPane({ onClose }: CodePreviewPaneProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const iframeRef = useRef<HTMLIFrameElement>(null)
+  const [containerWidth, setContainerWidth] = useState(0)
+
+  const [response, setResponse] = useState("")
+  const [preview, setPreview] = useState<RenderedPreview | null>(null)
+  const [isRendering, setIsRendering] = useState(false)
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [runtimeErrors, setRuntimeErrors] = useState<string[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [validation, setValidation] = useState<BPValidationResult | null>(null)
+  const [repairIterations, setRepairIterations] = useState<RepairIteration[]>([])
+
+  const schema = useLayoutStore((state) => state.schema)
+
+  const breakpoints = schema.breakpoints
+  const currentBreakpoint = useLayoutStore((state) => state.currentBreakpoint)
+  const setCurrentBreakpoint = useLayoutStore((state) => state.setCurrentBreakpoint)
+
+  const sortedBreakpoints = useMemo(
+    () => [...breakpoints].sort((a, b) => a.minWidth - b.minWidth),
+    [breakpoints]
+  )
+  const activeBreakpoint = breakpoints.find((bp) => bp.name === currentBreakpoint)
+  // minWidth 0 (mobile)은 가장 작은 디바이스 너비로
+  const frameWidth = Math.max(activeBreakpoint?.minWidth ?? 0, DEVICE_PRESETS[0].width)
+  const scale =
+    containerWidth > 0
+      ? Math.max(0.1, Math.min(1, (containerWidth - FRAME_PADDING * 2) / frameWidth))
+      : 1
+
+  // Measure container width
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) {
+        setContainerWidth(containerRef.current.clientWidth)
+      }
+    }
+
+    updateWidth()
+
+    const resizeObserver = new ResizeObserver(updateWidth)
+    if (containerRef.current) {
+      resizeObserver.observe(containerRef.current)
+    }
+
+    return () => {
+      resizeObserver.disconnect()
+    }
+  }, [])
+
+  // iframe runtime 메시지 (에러/경고)
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return
+      const { type, message } = event.data ?? {}
+      if (type === PREVIEW_MESSAGE_TYPES.error) {
+        setRuntimeErrors((prev) => [...prev, String(message)])
+      } else if (type === PREVIEW_MESSAGE_TYPES.warning) {
+        setWarnings((prev) => (prev.includes(message) ? prev : [...prev, String(message)]))
+      }
+    }
+
+    window.addEventListener("message", handleMessage)
+    return () => window.removeEventListener("message", handleMessage)
+  }, [])
+
+  const handleRender = async () => {
+    const { files, css } = splitGeneratedResponse(response)
+    setRuntimeErrors([])
+    setWarnings([])
+
+    if (files.length === 0) {
+      setPreview(null)
+      setParseError(
+        "No code files found. Each file needs a fenced block with its path, e.g. ```tsx components/Header.tsx"
+      )
+      return
+    }
+
+    setParseError(null)
+    setIsRendering(true)
+    try {
+      const result = await transpileGeneratedFiles(files)
+      const source = files.map((file) => file.content).join("\n")
+      const srcDoc = buildPreviewDocument(
+        result,
+        [collectDocumentCss(), css, generateLayoutUtilityCss(source)].join("\n")
+      )
+      // 정적 렌더링이라 state 변경/effect가 반영되지 않음을 알림
+      const staticHooks = findStaticPreviewHooks(source)
+      if (staticHooks.length > 0) {
+        setWarnings([
+          `Static preview ignores ${staticHooks.join(", ")}: components render once with their initial state, ` +
+            "state setters do nothing and effects never run",
+        ])
+      }
+      setPreview({ result, srcDoc })
+    } catch (error) {
+      setPreview(null)
+      setParseError(error instanceof Error ? error.message : "Failed to transpile the response")
+    } finally {
+      setIsRendering(false)
+    }
+  }
+
+  const handleValidate = () => {
+    const result = validateResponse(response, schema)
+    setValidation(result)
+    setRepairIterations((prev) => recordRepairIteration(prev, result, response))
+  }
+
+  const handleClear = () => {
+    setResponse("")
+    setPreview(null)
+    setParseError(null)
+    setRuntimeErrors([])
+    setWarnings([])
+    setValidation(null)
+    setRepairIterations([])
+  }
+
+  const errors = [...(parseError ? [parseError] : []), ...(preview?.result.errors ?? []), ...runtimeErrors]
+  const entryPath = preview?.result.modules.find((m) => m.key === preview.result.entry)?.path
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      {/* Header */}
+      <div className="flex-shrink-0 flex items-center justify-between px-4 py-2 border-b bg-gray-50">
+        <h2 className="text-sm font-semibold">Generated Code Preview</h2>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose} title="Close">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* Paste response */}
+      <div className="flex-shrink-0 p-3 space-y-2 border-b">
+        <Textarea
+          value={response}
+          onChange={(e) => setResponse(e.target.value)}
+          placeholder="Paste the model's response here (code blocks like ```tsx components/Header.tsx)"
+          className="h-28 font-mono text-xs"
+        />
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={handleRender} disabled={!response.trim() || isRendering}>
+            <Play className="w-4 h-4 mr-1" />
+            {isRendering ? "Rendering..." : "Render"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleValidate} disabled={!response.trim()}>
+            <ShieldCheck className="w-4 h-4 mr-1" />
+            Validate
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleClear} disabled={!response && !preview && !validation}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+          {preview && (
+            <span className="text-xs text-gray-500 truncate">
+              {preview.result.modules.length} file{preview.result.modules.length !== 1 ? "s" : ""}
+              {entryPath && <> · rendering {entryPath}</>}
+            </span>
+          )}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="max-h-24 overflow-y-auto rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700 space-y-1">
+            {errors.map((error, index) => (
+              <li key={index} className="whitespace-pre-wrap">{error}</li>
+            ))}
+          </ul>
+        )}
+        {warnings.length > 0 && (
+          <ul className="max-h-20 overflow-y-auto rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800 space-y-1">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+        {validation && (
+          <RepairPanel result={validation} iterations={repairIterations} schema={schema} />
+        )}
+      </div>
+
+      {/* Breakpoint width (canvas와 같은 breakpoint) */}
+      <div className="flex-shrink-0 flex items-center gap-1 px-3 py-2 border-b">
+        {sortedBreakpoints.map((bp) => (
+          <Button
+            key={bp.name}
+            variant={bp.name === currentBreakpoint ? "default" : "outline"}
+            size="sm"
+            className="h-7 px-2 text-xs capitalize"
+            onClick={() => setCurrentBreakpoint(bp.name)}
+          >
+            {bp.name}
+          </Button>
+        ))}
+        <Badge variant="outline" className="ml-auto font-mono">
+          {frameWidth}px{scale < 1 && ` · ${Math.round(scale * 100)}%`}
+        </Badge>
+      </div>
+
+      {/* Sandboxed frame */}
+      <div
+        ref={containerRef}
+        className="flex-1 overflow-auto bg-gray-50"
+        style={{ padding: FRAME_PADDING }}
+      >
+        {preview ? (
+          <div
+            className="mx-auto"
+            style={{ width: frameWidth * scale, height: FRAME_HEIGHT * scale }}
+          >
+            <iframe
+              ref={iframeRef}
+              title="Generated code preview"
+              // allow-same-origin 없음: 생성된 코드는 builder(부모)에 접근할 수 없음
+              sandbox="allow-scripts"
+              srcDoc={preview.srcDoc}
+              className="bg-white shadow-xl border-0"
+              style={{
+                width: frameWidth,
+                height: FRAME_HEIGHT,
+                transform: `scale(${scale})`,
+                transformOrigin: "top left",
+              }}
+            />
+          </div>
+        ) : (
+          <div className="h-full flex items-center justify-center text-center text-gray-400">
+            <div>
+              <div className="text-sm font-semibold mb-1">No preview yet</div>
+              <div className="text-xs">Paste a response and press Render</div>
+              <div className="text-xs mt-2">Static render for checking layout: state updates and effects don&apos;t run</div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Check, Copy } from "lucide-react"
+import type { LaydlerSchema } from "@/types/schema"
+import type { BPValidationResult } from "@/lib/prompt-bp-validator"
+import {
+  buildRepairPrompt,
+  getRepairStatus,
+  REPAIR_STALL_ITERATIONS,
+  type RepairIteration,
+} from "@/lib/code-repair"
+
+interface RepairPanelProps {
+  result: BPValidationResult
+  iterations: RepairIteration[]
+  schema: LaydlerSchema
+}
+
+const SEVERITY_STYLES = {
+  error: "text-red-700",
+  warning: "text-amber-800",
+  info: "text-gray-500",
+} as const
+
+/**
+ * RepairPanel - 붙여넣은 응답의 검증 결과와 repair 프롬프트
+ *
+ * 점수가 통과할 때까지: 프롬프트 복사 → 모델에 전송 → 새 응답 붙여넣기 → Validate
+ */
+export function RepairPanel({ result, iterations, schema }: RepairPanelProps) {
+  const [copied, setCopied] = useState(false)
+
+  const repairPrompt = useMemo(() => buildRepairPrompt(result, schema), [result, schema])
+  const status = getRepairStatus(iterations)
+  const visibleIssues = result.issues.filter((issue) => issue.severity !== "info")
+
+  const handleCopy = async () => {
+    if (!repairPrompt) return
+    await navigator.clipboard.writeText(repairPrompt)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="space-y-2 rounded border p-2 text-xs">
+      <div className="flex items-center gap-2">
+        <Badge variant={result.valid ? "default" : "destructive"} className="font-mono">
+          {result.score}/100
+        </Badge>
+        <span className="text-gray-600">
+          {result.valid ? "Passed" : `${result.summary.errors} error${result.summary.errors !== 1 ? "s" : ""}`}
+          {result.summary.warnings > 0 &&
+            ` · ${result.summary.warnings} warning${result.summary.warnings !== 1 ? "s" : ""}`}
+        </span>
+        {repairPrompt && (
+          <Button size="sm" variant="outline" className="ml-auto h-7" onClick={handleCopy}>
+            {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+            {copied ? "Copied" : "Copy repair prompt"}
+          </Button>
+        )}
+      </div>
+
+      {/* 반복 기록: #1 54 → #2 78 ✓ */}
+      {iterations.length > 1 && (
+        <div className="font-mono text-gray-500">
+          {iterations.map((iteration, index) => (
+            <span key={iteration.iteration}>
+              {index > 0 && " → "}#{iteration.iteration} {iteration.score}
+              {iteration.valid && " ✓"}
+            </span>
+          ))}
+          {status.scoreDelta !== null && (
+            <span className={status.scoreDelta >= 0 ? "text-green-600" : "text-red-600"}>
+              {" "}({status.scoreDelta >= 0 ? "+" : ""}{status.scoreDelta})
+            </span>
+          )}
+        </div>
+      )}
+      {status.stalled && (
+        <div className="text-amber-800">
+          The score hasn&apos;t improved in the last {REPAIR_STALL_ITERATIONS} rounds — the remaining
+          issues may need a manual fix.
+        </div>
+      )}
+
+      {visibleIssues.length > 0 && (
+        <ul className="max-h-28 overflow-y-auto space-y-1">
+          {visibleIssues.map((issue, index) => (
+            <li key={index} className={SEVERITY_STYLES[issue.severity]}>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
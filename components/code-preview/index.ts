@@ -0,0 +1 @@
+export { CodePreviewPane } from "./CodePreviewPane"
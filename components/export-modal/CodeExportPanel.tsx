@@ -0,0 +1,151 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download } from "lucide-react"
+import type { GenerationPackage } from "@/types/schema"
+import { exportNextProject, exportToFiles, exportToZip, type ExportPreset } from "@/lib/file-exporter"
+import { useToast } from "@/store/toast-store"
+
+type LayoutMode = NonNullable<GenerationPackage["options"]["layoutMode"]>
+
+// Layout 파일 구성 방식 선택지
+const LAYOUT_MODE_OPTIONS: Array<{ value: LayoutMode; label: string; description: string }> = [
+  {
+    value: "structure",
+    label: "Structure",
+    description: "Composes components with the layout structure (vertical / horizontal / sidebar).",
+  },
+  {
+    value: "canvas-grid",
+    label: "Canvas grid",
+    description: "Reproduces the Canvas placement of each breakpoint with CSS Grid.",
+  },
+]
+
+// Export preset 선택지 (Next.js 프로젝트는 React 전용)
+const PRESET_OPTIONS: Array<{ value: ExportPreset; label: string }> = [
+  { value: "files", label: "Component files" },
+  { value: "nextjs", label: "Next.js project" },
+]
+
+interface CodeExportPanelProps {
+  /** layoutMode / preset은 패널에서 선택 */
+  pkg: GenerationPackage
+}
+
+/**
+ * CodeExportPanel - 모델 없이 schema에서 바로 component / layout 파일 생성
+ *
+ * 파일 목록과 내용을 미리 보고 ZIP으로 다운로드 (component 파일만, 또는 바로 실행 가능한 Next.js 프로젝트)
+ */
+export function CodeExportPanel({ pkg }: CodeExportPanelProps) {
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>("structure")
+  const [preset, setPreset] = useState<ExportPreset>("files")
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const { error: showError } = useToast()
+
+  const exportPackage = useMemo<GenerationPackage>(
+    () => ({ ...pkg, options: { ...pkg.options, layoutMode } }),
+    [pkg, layoutMode]
+  )
+  // React가 아니면 Next.js preset 선택을 유지하되 component 파일로 export
+  const nextjsAvailable = pkg.options.framework === "react"
+  const activePreset = nextjsAvailable ? preset : "files"
+  const files = useMemo(
+    () => (activePreset === "nextjs" ? exportNextProject(exportPackage) : exportToFiles(exportPackage)),
+    [exportPackage, activePreset]
+  )
+  const selectedFile = files.find((file) => file.path === selectedPath) ?? files[0]
+
+  const handleDownload = async () => {
+    setIsDownloading(true)
+    try {
+      await exportToZip(
+        exportPackage,
+        activePreset === "nextjs" ? "vlb-next-app.zip" : "vlb-export.zip",
+        activePreset
+      )
+    } catch (err) {
+      showError(String(err), "Export Failed")
+    }
+    setIsDownloading(false)
+  }
+
+  return (
+    <>
+      <div className="flex items-end justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="export-preset">Output</Label>
+          <Select value={activePreset} onValueChange={(value) => setPreset(value as ExportPreset)}>
+            <SelectTrigger id="export-preset" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRESET_OPTIONS.map((option) => (
+                <SelectItem
+                  key={option.value}
+                  value={option.value}
+                  disabled={option.value === "nextjs" && !nextjsAvailable}
+                >
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {nextjsAvailable
+              ? activePreset === "nextjs"
+                ? "Adds package.json, configs and app/layout.tsx - run with npm install && npm run dev."
+                : "Component and layout files to drop into an existing project."
+              : "Next.js project export is available for React only."}
+          </p>
+        </div>
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="layout-mode">Layout</Label>
+          <Select value={layoutMode} onValueChange={(value) => setLayoutMode(value as LayoutMode)}>
+            <SelectTrigger id="layout-mode" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LAYOUT_MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {LAYOUT_MODE_OPTIONS.find((option) => option.value === layoutMode)?.description}
+          </p>
+        </div>
+        <Button size="sm" onClick={handleDownload} disabled={isDownloading} className="gap-2">
+          <Download className="w-4 h-4" />
+          Download ZIP
+        </Button>
+      </div>
+      <div className="flex flex-1 gap-3 min-h-0">
+        <ul className="w-56 shrink-0 overflow-auto rounded-lg border text-xs">
+          {files.map((file) => (
+            <li key={file.path}>
+              <button
+                onClick={() => setSelectedPath(file.path)}
+                className={`w-full text-left px-3 py-1.5 font-mono truncate ${
+                  file === selectedFile ? "bg-blue-50 text-blue-700" : "hover:bg-gray-50"
+                }`}
+              >
+                {file.path}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <pre className="flex-1 bg-gray-900 text-gray-100 p-4 rounded-lg text-xs overflow-auto font-mono">
+          {selectedFile?.content}
+        </pre>
+      </div>
+    </>
+  )
+}
@@ -10,20 +10,42 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { FileCode, Sparkles, Check, Copy, Zap, DollarSign, Award, Info } from "lucide-react"
 import { useToast } from "@/store/toast-store"
+import { useModelRegistryStore } from "@/store/model-registry-store"
 import { ComponentLinkingPromptModal } from "./ComponentLinkingPromptModal"
+import { ModelGenerationPanel } from "./ModelGenerationPanel"
+import { CodeExportPanel } from "./CodeExportPanel"
+import { ModelRegistryDialog } from "./ModelRegistryDialog"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
 // New AI Model System
-import type { AIModelId } from "@/types/ai-models"
+import type { AIModelId, PromptCompaction, TokenUsage } from "@/types/ai-models"
+import type { GenerationPackage } from "@/types/schema"
 import { createPromptStrategy } from "@/lib/prompt-strategies/strategy-factory"
+import { isConfiguredModel } from "@/lib/model-registry-config"
+import { TOKENIZER_DEFINITIONS, estimateInputCost, loadModelTokenizer } from "@/lib/tokenizers"
+import { getPromptTokenBudget } from "@/lib/prompt-budget"
+import { getTemplate } from "@/lib/prompt-templates"
 import {
-  getActiveModels,
   getModelMetadata,
   recommendModels,
   calculateSchemaComplexity,
   calculateResponsiveComplexity,
 } from "@/lib/ai-model-registry"
 
+type TargetFramework = GenerationPackage["options"]["framework"]
+type CSSSolution = GenerationPackage["options"]["cssSolution"]
+
+// CSS solution 선택지 (프레임워크별 prompt template이 있는 것만 표시)
+const CSS_SOLUTION_OPTIONS: Array<{ value: CSSSolution; label: string }> = [
+  { value: "tailwind", label: "Tailwind CSS" },
+  { value: "css-modules", label: "CSS Modules" },
+  { value: "styled-components", label: "styled-components" },
+  { value: "emotion", label: "Emotion" },
+]
+
+// 입력 토큰 예산 선택지 (기본: 모델 컨텍스트)
+const TOKEN_BUDGET_OPTIONS = [4000, 8000, 16000, 32000]
+
 /**
  * Export Modal - Multi-Model AI Prompt Generation UI
  *
@@ -39,17 +61,20 @@ export function ExportModal() {
   const [showLinkingPromptModal, setShowLinkingPromptModal] = useState(false)
 
   // Basic Config
-  const [framework, setFramework] = useState<"react">("react")
-  const [cssSolution, setCssSolution] = useState<"tailwind">("tailwind")
+  const [framework, setFramework] = useState<TargetFramework>("react")
+  const [cssSolution, setCssSolution] = useState<CSSSolution>("tailwind")
+  const cssSolutionOptions = CSS_SOLUTION_OPTIONS.filter((option) => getTemplate(framework, option.value))
 
   // AI Model Config (NEW)
   const [selectedModelId, setSelectedModelId] = useState<AIModelId>("claude-sonnet-4.5")
   const [verbosity, setVerbosity] = useState<"minimal" | "normal" | "detailed">("normal")
+  const [tokenBudget, setTokenBudget] = useState<number | undefined>(undefined)
 
   // Results
   const [generatedPrompt, setGeneratedPrompt] = useState("")
   const [generatedJson, setGeneratedJson] = useState("")
-  const [tokenCount, setTokenCount] = useState(0)
+  const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null)
+  const [compaction, setCompaction] = useState<PromptCompaction | null>(null)
   const [copiedPrompt, setCopiedPrompt] = useState(false)
   const [copiedJson, setCopiedJson] = useState(false)
 
@@ -57,9 +82,14 @@ export function ExportModal() {
   const componentLinks = useLayoutStore((state) => state.componentLinks)
   const openLinkingPanel = useLayoutStore((state) => state.openLinkingPanel)
   const { error: showError } = useToast()
+  // 사용자 정의 모델 포함 (설정이 바뀌면 모델 목록/추천 다시 계산)
+  const availableModels = useModelRegistryStore((state) => state.activeModels)
 
-  // Get available models and recommendations (memoized for performance)
-  const availableModels = useMemo(() => getActiveModels(), [])
+  // 서버 생성 / 코드 export 공통 package
+  const generationPackage = useMemo<GenerationPackage>(
+    () => ({ schema, options: { framework, cssSolution } }),
+    [schema, framework, cssSolution]
+  )
 
   const { schemaComplexity, responsiveComponentCount, responsiveComplexity } = useMemo(() => {
     const complexity = calculateSchemaComplexity(schema.components.length)
@@ -75,15 +105,18 @@ export function ExportModal() {
 
   const recommendations = useMemo(
     () =>
-      recommendModels({
-        schemaComplexity,
-        responsiveComplexity,
-        needsFrameworkSpecialization: framework === "react", // React 프레임워크 특화 필요
-        costSensitivity: "medium",
-        qualityRequirement: "production", // 기본값: 프로덕션 품질
-        speedPriority: "medium", // 기본값: 중간 속도
-      }),
-    [schemaComplexity, responsiveComplexity, framework]
+      recommendModels(
+        {
+          schemaComplexity,
+          responsiveComplexity,
+          needsFrameworkSpecialization: framework === "react", // React 프레임워크 특화 필요
+          costSensitivity: "medium",
+          qualityRequirement: "production", // 기본값: 프로덕션 품질
+          speedPriority: "medium", // 기본값: 중간 속도
+        },
+        availableModels
+      ),
+    [schemaComplexity, responsiveComplexity, framework, availableModels]
   )
 
   // Group models by provider (memoized)
@@ -119,8 +152,11 @@ export function ExportModal() {
     generatePrompt()
   }
 
-  const generatePrompt = () => {
+  const generatePrompt = async () => {
     try {
+      // 모델 계열 토크나이저 vocab 로드 (정확한 토큰 수)
+      await loadModelTokenizer(selectedModelId)
+
       // Create strategy for selected model
       const strategy = createPromptStrategy(selectedModelId)
 
@@ -128,6 +164,7 @@ export function ExportModal() {
       const result = strategy.generatePrompt(schema, framework, cssSolution, {
         targetModel: selectedModelId,
         verbosity,
+        tokenBudget,
         componentLinks, // Pass component links to prompt generation
       })
 
@@ -138,7 +175,8 @@ export function ExportModal() {
 
       setGeneratedPrompt(result.prompt!)
       setGeneratedJson(JSON.stringify(schema, null, 2))
-      setTokenCount(result.estimatedTokens || 0)
+      setTokenUsage(result.tokenUsage ?? null)
+      setCompaction(result.compaction ?? null)
 
       // Move to result step
       setStep("result")
@@ -181,6 +219,7 @@ export function ExportModal() {
 
   // Get selected model metadata
   const selectedModel = availableModels.find((m) => m.id === selectedModelId)
+  const inputCost = tokenUsage && selectedModel ? estimateInputCost(tokenUsage.total, selectedModel.cost) : null
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -266,7 +305,10 @@ export function ExportModal() {
 
             {/* AI Model Selection */}
             <div className="space-y-2">
-              <Label htmlFor="ai-model">AI Model</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="ai-model">AI Model</Label>
+                <ModelRegistryDialog />
+              </div>
               <Select value={selectedModelId} onValueChange={(value) => setSelectedModelId(value as AIModelId)}>
                 <SelectTrigger id="ai-model">
                   <SelectValue />
@@ -281,6 +323,11 @@ export function ExportModal() {
                         <SelectItem key={model.id} value={model.id}>
                           <div className="flex items-center justify-between w-full gap-2">
                             <span>{model.name}</span>
+                            {isConfiguredModel(model.id) && (
+                              <Badge variant="outline" className="text-xs">
+                                Custom
+                              </Badge>
+                            )}
                             {model.cost.level === "very-low" && (
                               <Badge variant="outline" className="text-xs">
                                 Low Cost
@@ -347,15 +394,52 @@ export function ExportModal() {
               </Select>
             </div>
 
+            {/* Token Budget */}
+            <div className="space-y-2">
+              <Label htmlFor="token-budget">Token Budget</Label>
+              <Select
+                value={tokenBudget === undefined ? "auto" : String(tokenBudget)}
+                onValueChange={(value) => setTokenBudget(value === "auto" ? undefined : Number(value))}
+              >
+                <SelectTrigger id="token-budget">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">
+                    Model context
+                    {selectedModel && ` (${getPromptTokenBudget(selectedModel).toLocaleString()} tokens)`}
+                  </SelectItem>
+                  {TOKEN_BUDGET_OPTIONS.map((budget) => (
+                    <SelectItem key={budget} value={String(budget)}>
+                      {budget.toLocaleString()} tokens
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Over budget, lower-priority sections are shortened first, then optional ones are left out.
+              </p>
+            </div>
+
             {/* Framework Selection */}
             <div className="space-y-2">
               <Label htmlFor="framework">Framework</Label>
-              <Select value={framework} onValueChange={(value) => setFramework(value as "react")}>
+              <Select
+                value={framework}
+                onValueChange={(value) => {
+                  setFramework(value as TargetFramework)
+                  // 새 프레임워크가 지원하지 않는 CSS solution이면 Tailwind로
+                  if (!getTemplate(value, cssSolution)) setCssSolution("tailwind")
+                }}
+              >
                 <SelectTrigger id="framework">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="react">React</SelectItem>
+                  <SelectItem value="vue">Vue 3</SelectItem>
+                  <SelectItem value="svelte">Svelte 5</SelectItem>
+                  <SelectItem value="solid">SolidJS</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -363,14 +447,23 @@ export function ExportModal() {
             {/* CSS Solution Selection */}
             <div className="space-y-2">
               <Label htmlFor="css">CSS Solution</Label>
-              <Select value={cssSolution} onValueChange={(value) => setCssSolution(value as "tailwind")}>
+              <Select value={cssSolution} onValueChange={(value) => setCssSolution(value as CSSSolution)}>
                 <SelectTrigger id="css">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="tailwind">Tailwind CSS</SelectItem>
+                  {cssSolutionOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {cssSolutionOptions.length < CSS_SOLUTION_OPTIONS.length && (
+                <p className="text-xs text-gray-500">
+                  Other CSS solutions are available for React only.
+                </p>
+              )}
             </div>
 
             {/* Generate Button */}
@@ -398,10 +491,26 @@ export function ExportModal() {
               <div className="flex flex-col gap-1">
                 <div className="flex items-center gap-2">
                   <Badge variant="secondary" className="text-sm font-semibold">
-                    {tokenCount.toLocaleString()} tokens
+                    {(tokenUsage?.total ?? 0).toLocaleString()} tokens
                   </Badge>
-                  <span className="text-xs text-gray-500">estimated</span>
+                  {inputCost !== null && (
+                    <Badge variant="outline" className="text-xs gap-1">
+                      <DollarSign className="w-3 h-3" />
+                      {inputCost < 0.01 ? inputCost.toFixed(4) : inputCost.toFixed(2)} input
+                    </Badge>
+                  )}
+                  {tokenUsage && (
+                    <span className="text-xs text-gray-500">
+                      {tokenUsage.exact ? "" : "estimated · "}
+                      {TOKENIZER_DEFINITIONS[tokenUsage.tokenizer].name}
+                    </span>
+                  )}
                 </div>
+                {tokenUsage && (
+                  <p className="text-xs text-gray-500">
+                    System {tokenUsage.system.toLocaleString()} · User {tokenUsage.user.toLocaleString()}
+                  </p>
+                )}
                 <p className="text-sm font-medium text-gray-700">
                   Model: <span className="text-blue-700">{selectedModel?.name || selectedModelId}</span>
                 </p>
@@ -414,11 +523,30 @@ export function ExportModal() {
               </Button>
             </div>
 
-            {/* Tabs: AI Prompt / JSON Schema */}
+            {/* Compaction notice (예산에 맞추려고 줄인 섹션) */}
+            {compaction && (
+              <div className="rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800 space-y-1">
+                <p className="font-medium">
+                  {compaction.fits
+                    ? `Compacted from ${compaction.originalTokens.toLocaleString()} tokens to fit the ${compaction.budget.toLocaleString()}-token budget`
+                    : `Still over the ${compaction.budget.toLocaleString()}-token budget with minimal detail`}
+                </p>
+                {compaction.dropped.length > 0 && <p>Left out: {compaction.dropped.join(", ")}</p>}
+                {compaction.degraded.length > 0 && (
+                  <p>
+                    Shortened: {compaction.degraded.map(({ title, to }) => `${title} (${to})`).join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Tabs: AI Prompt / JSON Schema / Generate / Code */}
             <Tabs defaultValue="prompt" className="flex flex-col flex-1 min-h-0">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="prompt">AI Prompt</TabsTrigger>
                 <TabsTrigger value="json">JSON Schema</TabsTrigger>
+                <TabsTrigger value="generate">Generate</TabsTrigger>
+                <TabsTrigger value="code">Code</TabsTrigger>
               </TabsList>
 
               <TabsContent value="prompt" className="flex-1 flex flex-col gap-3 mt-4 min-h-0">
@@ -464,6 +592,24 @@ export function ExportModal() {
                   {generatedJson}
                 </pre>
               </TabsContent>
+
+              {/* forceMount: 탭을 바꿔도 진행 중인 생성이 취소되지 않도록 */}
+              <TabsContent
+                value="generate"
+                forceMount
+                className="flex-1 flex flex-col gap-3 mt-4 min-h-0 data-[state=inactive]:hidden"
+              >
+                <ModelGenerationPanel
+                  pkg={generationPackage}
+                  modelId={selectedModelId}
+                  modelName={selectedModel?.name || selectedModelId}
+                  options={{ verbosity, componentLinks, tokenBudget }}
+                />
+              </TabsContent>
+
+              <TabsContent value="code" className="flex-1 flex flex-col gap-3 mt-4 min-h-0">
+                <CodeExportPanel pkg={generationPackage} />
+              </TabsContent>
             </Tabs>
           </div>
         )}
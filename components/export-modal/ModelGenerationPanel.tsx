@@ -0,0 +1,123 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Check, Copy, Play, Square } from "lucide-react"
+import type { AIModelId, PromptGenerationOptions } from "@/types/ai-models"
+import type { GenerationPackage } from "@/types/schema"
+import { fetchServerModelIds, streamGeneration } from "@/lib/generation-client"
+import { isBuiltInModelId } from "@/lib/ai-model-registry"
+
+interface ModelGenerationPanelProps {
+  pkg: GenerationPackage
+  modelId: AIModelId
+  modelName: string
+  options: Omit<PromptGenerationOptions, "targetModel">
+}
+
+/**
+ * ModelGenerationPanel - 서버를 통해 모델을 직접 호출하고 응답을 스트리밍
+ *
+ * 호스팅 API는 서버 환경 변수의 키, local-* 모델은 LOCAL_LLM_BASE_URL endpoint 사용
+ * UI에서만 정의한 모델은 서버가 모르므로 (MODEL_REGISTRY_FILE에 없으면) 생성 비활성화
+ */
+export function ModelGenerationPanel({ pkg, modelId, modelName, options }: ModelGenerationPanelProps) {
+  const [output, setOutput] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+  // 서버 설정 파일의 모델 ID (내장 모델이 아닐 때만 조회, 조회 전에는 null)
+  const [serverModelIds, setServerModelIds] = useState<string[] | null>(null)
+
+  const builtIn = isBuiltInModelId(modelId)
+  const browserOnly = !builtIn && serverModelIds !== null && !serverModelIds.includes(modelId)
+  const canGenerate = builtIn || serverModelIds?.includes(modelId) === true
+
+  useEffect(() => {
+    if (builtIn || serverModelIds !== null) return
+    let cancelled = false
+    fetchServerModelIds().then((ids) => {
+      if (!cancelled) setServerModelIds(ids)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [builtIn, serverModelIds])
+
+  // 모달을 닫으면 진행 중인 생성 취소
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const handleGenerate = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setOutput("")
+    setError(null)
+    setIsGenerating(true)
+
+    const result = await streamGeneration(
+      { pkg, modelId, options },
+      { signal: controller.signal, onToken: (_text, code) => setOutput(code) }
+    )
+
+    if (result.success) {
+      setOutput(result.code)
+    } else {
+      setError(result.error)
+    }
+    setIsGenerating(false)
+    abortRef.current = null
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(output)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-gray-600">Send the prompt to {modelName} from the server</p>
+        <div className="flex gap-2">
+          {isGenerating ? (
+            <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()} className="gap-2">
+              <Square className="w-4 h-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button size="sm" onClick={handleGenerate} disabled={!canGenerate} className="gap-2">
+              <Play className="w-4 h-4" />
+              {output ? "Regenerate" : "Generate"}
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={!output || isGenerating} className="gap-2">
+            {copied ? (
+              <>
+                <Check className="w-4 h-4" />
+                Copied!
+              </>
+            ) : (
+              <>
+                <Copy className="w-4 h-4" />
+                Copy
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+      {browserOnly && (
+        <p className="rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+          {modelName} is defined in this browser only, so the server cannot call it. Add it to the server&apos;s
+          MODEL_REGISTRY_FILE, or copy the prompt from the AI Prompt tab.
+        </p>
+      )}
+      {error && (
+        <p className="rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700 whitespace-pre-wrap">{error}</p>
+      )}
+      <pre className="flex-1 bg-gray-900 text-gray-100 p-4 rounded-lg text-xs overflow-auto font-mono">
+        {output || (isGenerating ? "Waiting for the model..." : "")}
+      </pre>
+    </>
+  )
+}
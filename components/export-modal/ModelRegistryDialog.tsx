@@ -0,0 +1,150 @@
+"use client"
+
+import { useRef, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Settings2, Upload } from "lucide-react"
+import { useModelRegistryStore } from "@/store/model-registry-store"
+import { useToast } from "@/store/toast-store"
+import { parseModelRegistryConfig } from "@/lib/model-registry-config"
+
+const CONFIG_PLACEHOLDER = `{
+  "models": [
+    { "id": "gpt-4.1", "cost": { "inputCostPer1M": 1.8 } },
+    {
+      "id": "qwen-coder-14b",
+      "extends": "local-qwen-2.5-coder",
+      "name": "Qwen 2.5 Coder 14B (Local)",
+      "provider": "custom",
+      "providerModel": "qwen2.5-coder:14b",
+      "performance": { "contextWindow": 32000 }
+    }
+  ]
+}`
+
+/**
+ * ModelRegistryDialog - 사용자 정의 모델 / 내장 모델 override 편집
+ *
+ * JSON을 붙여넣거나 파일로 가져와서 적용 → 모델 목록, 추천, 프롬프트 전략에 바로 반영
+ */
+export function ModelRegistryDialog() {
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState("")
+  const [errors, setErrors] = useState<string[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const configText = useModelRegistryStore((state) => state.configText)
+  const applyConfig = useModelRegistryStore((state) => state.applyConfig)
+  const resetConfig = useModelRegistryStore((state) => state.resetConfig)
+  const { success } = useToast()
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setText(configText)
+      setErrors([])
+    }
+    setOpen(isOpen)
+  }
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return
+    setText(await file.text())
+    setErrors([])
+  }
+
+  const handleApply = () => {
+    const result = applyConfig(text)
+    if (!result.valid) {
+      setErrors(result.errors)
+      return
+    }
+    success(`${result.added} new, ${result.overrides} overridden`, "Models updated")
+    setOpen(false)
+  }
+
+  const handleReset = () => {
+    resetConfig()
+    success("Using built-in models only", "Models reset")
+    setOpen(false)
+  }
+
+  // 입력 중 미리 검증 (적용은 Apply에서)
+  const preview = text.trim() ? parseModelRegistryConfig(text) : null
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs">
+          <Settings2 className="w-3.5 h-3.5" />
+          Manage models
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Custom Models</DialogTitle>
+          <DialogDescription>
+            Add models or override built-in ones (context window, costs, capabilities, prompt strategy). Models
+            used with server-side generation must also be listed in the server&apos;s MODEL_REGISTRY_FILE.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value)
+              setErrors([])
+            }}
+            placeholder={CONFIG_PLACEHOLDER}
+            className="h-64 font-mono text-xs"
+          />
+          {preview?.valid && (
+            <p className="text-xs text-gray-500">
+              {preview.added} new model{preview.added !== 1 ? "s" : ""}, {preview.overrides} override
+              {preview.overrides !== 1 ? "s" : ""}
+            </p>
+          )}
+          {(errors.length > 0 ? errors : preview && !preview.valid ? preview.errors : []).length > 0 && (
+            <ul className="max-h-32 overflow-y-auto rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700 space-y-1">
+              {(errors.length > 0 ? errors : preview!.errors).map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              handleImportFile(e.target.files?.[0])
+              e.target.value = ""
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="gap-2">
+            <Upload className="w-4 h-4" />
+            Import JSON
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleReset} disabled={!configText}>
+            Reset to built-in
+          </Button>
+          <Button size="sm" className="ml-auto" onClick={handleApply} disabled={preview !== null && !preview.valid}>
+            Apply
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -15,6 +15,8 @@ import { cn } from "@/lib/utils"
 interface InitialBreakpointModalProps {
   open: boolean
   onSelect: (breakpoint: "mobile" | "tablet" | "desktop") => void
+  /** 취소 (새 프로젝트 생성 흐름에서만 제공) */
+  onCancel?: () => void
 }
 
 /**
@@ -22,7 +24,7 @@ interface InitialBreakpointModalProps {
  *
  * 사용자가 프로젝트를 시작할 때 하나의 브레이크포인트를 선택하도록 함
  */
-export function InitialBreakpointModal({ open, onSelect }: InitialBreakpointModalProps) {
+export function InitialBreakpointModal({ open, onSelect, onCancel }: InitialBreakpointModalProps) {
   const [selectedBreakpoint, setSelectedBreakpoint] = useState<"mobile" | "tablet" | "desktop" | null>(null)
 
   const breakpoints = [
@@ -104,6 +106,11 @@ export function InitialBreakpointModal({ open, onSelect }: InitialBreakpointModa
         </div>
 
         <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
           <Button
             onClick={handleConfirm}
             disabled={!selectedBreakpoint}
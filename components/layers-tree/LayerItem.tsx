@@ -1,9 +1,11 @@
+import type { ReactNode } from "react"
 import { Badge } from "@/components/ui/badge"
 import {
   ChevronDown,
   ChevronRight,
   Trash2,
   Copy,
+  RotateCcw,
 } from "lucide-react"
 import type { Component } from "@/types/schema"
 
@@ -11,10 +13,17 @@ interface LayerItemProps {
   component: Component
   isSelected: boolean
   isCollapsed: boolean
-  onSelect: () => void
+  /** shiftKey: 다중 선택 토글 */
+  onSelect: (event: { shiftKey: boolean }) => void
   onToggleCollapse: () => void
   onDuplicate: () => void
   onDelete: () => void
+  /** Breakpoint 상속: 위치를 상속받은 breakpoint */
+  inheritedFrom?: string
+  /** Breakpoint 상속: 위치 override 제거 (override된 경우에만 전달) */
+  onResetOverride?: () => void
+  /** 중첩된 자식 컴포넌트 LayerItem */
+  children?: ReactNode
 }
 
 export function LayerItem({
@@ -25,6 +34,9 @@ export function LayerItem({
   onToggleCollapse,
   onDuplicate,
   onDelete,
+  inheritedFrom,
+  onResetOverride,
+  children,
 }: LayerItemProps) {
   return (
     <div
@@ -38,7 +50,7 @@ export function LayerItem({
       `}
     >
       {/* Main Row */}
-      <div className="flex items-center gap-2 p-2 cursor-pointer" onClick={onSelect}>
+      <div className="flex items-center gap-2 p-2 cursor-pointer" onClick={(e) => onSelect({ shiftKey: e.shiftKey })}>
         {/* Collapse Toggle */}
         <button
           onClick={(e) => {
@@ -63,6 +75,24 @@ export function LayerItem({
             <Badge variant="secondary" className="text-xs">
               {component.semanticTag}
             </Badge>
+            {inheritedFrom && (
+              <Badge
+                variant="outline"
+                className="text-xs text-gray-500"
+                title={`Position inherited from ${inheritedFrom}`}
+              >
+                ↳ {inheritedFrom}
+              </Badge>
+            )}
+            {onResetOverride && (
+              <Badge
+                variant="outline"
+                className="text-xs border-amber-300 text-amber-700"
+                title="Position overrides the inherited breakpoint"
+              >
+                override
+              </Badge>
+            )}
           </div>
           {!isCollapsed && (
             <div className="text-xs text-gray-500 mt-0.5">
@@ -73,6 +103,18 @@ export function LayerItem({
 
         {/* Actions */}
         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {onResetOverride && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onResetOverride()
+              }}
+              className="p-1 hover:bg-gray-200 rounded"
+              title="Reset to inherited position"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+          )}
           <button
             onClick={(e) => {
               e.stopPropagation()
@@ -117,6 +159,13 @@ export function LayerItem({
           )}
         </div>
       )}
+
+      {/* Nested Components */}
+      {children && (
+        <div className="ml-4 mr-1 mb-1 pl-2 border-l border-gray-200 space-y-1">
+          {children}
+        </div>
+      )}
     </div>
   )
 }
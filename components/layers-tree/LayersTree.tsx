@@ -1,43 +1,69 @@
 "use client"
 
-import { useLayoutStore } from "@/store/layout-store"
+import { useLayoutStore, useResolvedSchema } from "@/store/layout-store"
 import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
 import { useState } from "react"
 import { LayerItem } from "./LayerItem"
 import { useConfirm } from "@/store/alert-dialog-store"
+import {
+  buildComponentTree,
+  getComponentsWithDescendants,
+  getDescendantIds,
+  type ComponentTreeNode,
+} from "@/lib/component-tree"
+import {
+  getCanvasLayoutSource,
+  getInheritanceChain,
+  getInheritanceMode,
+  getLayoutSource,
+} from "@/lib/breakpoint-inheritance"
 
 /**
  * Layers Tree - 컴포넌트 계층 구조
  *
- * 현재 breakpoint의 컴포넌트 목록을 트리 형태로 표시
+ * 현재 breakpoint의 컴포넌트 목록을 트리 형태로 표시 (중첩 컴포넌트는 부모 아래 들여쓰기)
+ * Breakpoint 상속 모드에서는 layout/위치가 상속된 것인지 override인지 표시
  */
 export function LayersTree() {
   const schema = useLayoutStore((state) => state.schema)
+  const resolvedSchema = useResolvedSchema()
   const currentBreakpoint = useLayoutStore((state) => state.currentBreakpoint)
-  const selectedComponentId = useLayoutStore(
-    (state) => state.selectedComponentId
+  const selectedComponentIds = useLayoutStore(
+    (state) => state.selectedComponentIds
   )
   const setSelectedComponentId = useLayoutStore(
     (state) => state.setSelectedComponentId
   )
+  const toggleComponentSelection = useLayoutStore(
+    (state) => state.toggleComponentSelection
+  )
   const deleteComponent = useLayoutStore((state) => state.deleteComponent)
   const duplicateComponent = useLayoutStore((state) => state.duplicateComponent)
+  const resetCanvasOverride = useLayoutStore((state) => state.resetCanvasOverride)
+  const resetLayoutOverride = useLayoutStore((state) => state.resetLayoutOverride)
 
   const confirm = useConfirm()
 
-  const currentLayout =
-    schema.layouts[currentBreakpoint]
+  const currentLayout = resolvedSchema.layouts[currentBreakpoint]
+
+  // Breakpoint 상속: layout 출처와 상속 가능 여부
+  const inheritanceMode = getInheritanceMode(schema)
+  const inheritanceChain = getInheritanceChain(schema, currentBreakpoint)
+  const layoutSource = getLayoutSource(schema, currentBreakpoint)
+  const canInheritLayout = inheritanceChain.some((name) => getLayoutSource(schema, name) !== null)
 
   // 기본값: 모든 컴포넌트를 접힌 상태로 시작
   const [collapsedComponents, setCollapsedComponents] = useState<Set<string>>(
     () => new Set(currentLayout.components)
   )
 
-  // 현재 레이아웃의 컴포넌트를 순서대로 가져오기
-  const componentIds = currentLayout.components
-  const componentsInLayout = componentIds
-    .map((id) => schema.components.find((c) => c.id === id))
-    .filter((c) => c !== undefined)
+  // 현재 레이아웃의 컴포넌트를 순서대로 가져오기 (최상위 + 자손)
+  const componentsInLayout = getComponentsWithDescendants(
+    resolvedSchema.components,
+    currentLayout.components
+  )
+  const componentTree = buildComponentTree(componentsInLayout)
 
   // Collapse/Expand 토글
   const toggleCollapse = (componentId: string) => {
@@ -57,9 +83,13 @@ export function LayersTree() {
 
   // 컴포넌트 삭제
   const handleDelete = async (componentId: string) => {
+    const nestedCount = getDescendantIds(schema.components, componentId).length
     const confirmed = await confirm({
       title: "Delete Component",
-      description: `Are you sure you want to delete component "${componentId}"?`,
+      description:
+        nestedCount > 0
+          ? `Are you sure you want to delete component "${componentId}" and its ${nestedCount} nested component${nestedCount !== 1 ? "s" : ""}?`
+          : `Are you sure you want to delete component "${componentId}"?`,
       confirmText: "Delete",
       cancelText: "Cancel",
       variant: "destructive",
@@ -70,6 +100,42 @@ export function LayersTree() {
     }
   }
 
+  // 위치 상속 상태: 상속된 breakpoint 또는 (상속할 위치가 있는데) override
+  const getPositionInheritance = (componentId: string) => {
+    const stored = schema.components.find((c) => c.id === componentId)
+    if (inheritanceMode === "none" || !stored) return {}
+
+    const source = getCanvasLayoutSource(schema, stored, currentBreakpoint)
+    if (source && source !== currentBreakpoint) return { inheritedFrom: source }
+
+    const overridden =
+      source === currentBreakpoint &&
+      inheritanceChain.some((name) => stored.responsiveCanvasLayout?.[name])
+    return overridden
+      ? { onResetOverride: () => resetCanvasOverride(componentId, currentBreakpoint) }
+      : {}
+  }
+
+  const renderNode = ({ component, children }: ComponentTreeNode) => (
+    <LayerItem
+      key={component.id}
+      component={component}
+      {...getPositionInheritance(component.id)}
+      isSelected={selectedComponentIds.includes(component.id)}
+      isCollapsed={collapsedComponents.has(component.id)}
+      onSelect={({ shiftKey }) =>
+        shiftKey
+          ? toggleComponentSelection(component.id)
+          : setSelectedComponentId(component.id)
+      }
+      onToggleCollapse={() => toggleCollapse(component.id)}
+      onDuplicate={() => handleDuplicate(component.id)}
+      onDelete={() => handleDelete(component.id)}
+    >
+      {children.length > 0 ? children.map(renderNode) : undefined}
+    </LayerItem>
+  )
+
   return (
     <Card className="p-4 h-full flex flex-col space-y-4">
       {/* Header */}
@@ -80,6 +146,27 @@ export function LayersTree() {
             currentBreakpoint.slice(1)}{" "}
           Layout
         </p>
+        {inheritanceMode !== "none" && (
+          <div className="flex items-center justify-between gap-2 mt-2 text-xs">
+            {layoutSource && layoutSource !== currentBreakpoint ? (
+              <span className="text-gray-500">Inherited from {layoutSource}</span>
+            ) : layoutSource && canInheritLayout ? (
+              <>
+                <span className="text-amber-700">Overrides inherited layout</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => resetLayoutOverride(currentBreakpoint)}
+                >
+                  Reset
+                </Button>
+              </>
+            ) : (
+              <span className="text-gray-500">Not inherited ({inheritanceMode})</span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Component List */}
@@ -92,18 +179,7 @@ export function LayersTree() {
             </div>
           </div>
         ) : (
-          componentsInLayout.map((component) => (
-            <LayerItem
-              key={component.id}
-              component={component}
-              isSelected={selectedComponentId === component.id}
-              isCollapsed={collapsedComponents.has(component.id)}
-              onSelect={() => setSelectedComponentId(component.id)}
-              onToggleCollapse={() => toggleCollapse(component.id)}
-              onDuplicate={() => handleDuplicate(component.id)}
-              onDelete={() => handleDelete(component.id)}
-            />
-          ))
+          componentTree.map(renderNode)
         )}
       </div>
 
@@ -0,0 +1,104 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { FileInput } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { useLayoutStore } from "@/store/layout-store"
+import { importMarkup } from "@/lib/markup-importer"
+
+/**
+ * MarkupImportDialog - 기존 JSX / HTML + Tailwind markup을 붙여넣어 레이아웃으로 가져오기
+ *
+ * 현재 breakpoint 구성 그대로 변환하고, 가져오기 전에 component 목록과 경고를 보여줌
+ * 현재 레이아웃을 대체하지만 history에 남으므로 Undo로 되돌릴 수 있음
+ */
+export function MarkupImportDialog() {
+  const [open, setOpen] = useState(false)
+  const [source, setSource] = useState("")
+
+  const breakpoints = useLayoutStore((state) => state.schema.breakpoints)
+  const importSchema = useLayoutStore((state) => state.importSchema)
+
+  const result = useMemo(
+    () => (source.trim() ? importMarkup(source, { breakpoints }) : null),
+    [source, breakpoints]
+  )
+  const components = result?.schema.components ?? []
+
+  const handleImport = () => {
+    if (!result) return
+    importSchema(result.schema)
+    setOpen(false)
+    setSource("")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Turn existing JSX / HTML markup into a layout">
+          <FileInput className="w-4 h-4 mr-1" />
+          Import Markup
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Markup</DialogTitle>
+          <DialogDescription>
+            Paste a JSX return block or an HTML fragment with Tailwind classes. Semantic elements (header, nav, main,
+            aside, footer, section, article, form) become components.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder={'<header className="sticky top-0 z-50 border-b">...</header>\n<main className="flex-1">...</main>'}
+          className="min-h-[200px] font-mono text-xs"
+          spellCheck={false}
+        />
+
+        {result && (
+          <div className="space-y-2 overflow-y-auto text-sm">
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-gray-600">{components.length} components:</span>
+              {components.map((component) => (
+                <Badge key={component.id} variant="secondary" className="text-xs">
+                  {component.name}
+                </Badge>
+              ))}
+            </div>
+            {result.warnings.length > 0 && (
+              <ul className="rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800 space-y-1">
+                {result.warnings.map((warning, index) => (
+                  <li key={index}>{warning.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          <p className="mr-auto text-xs text-gray-500">Replaces the current layout (undo with Ctrl+Z).</p>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={components.length === 0}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1 @@
+export { MarkupImportDialog } from "./MarkupImportDialog"
@@ -0,0 +1,198 @@
+"use client"
+
+import { useState } from "react"
+import { FolderOpen, Pencil, Copy, Trash2, Plus, Check, X } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { useProjectStore } from "@/store/project-store"
+import { useConfirm } from "@/store/alert-dialog-store"
+import { cn } from "@/lib/utils"
+
+interface ProjectPickerModalProps {
+  open: boolean
+  /** 닫기 가능 여부 (열린 프로젝트가 없으면 반드시 선택해야 함) */
+  dismissible: boolean
+  onOpenChange: (open: boolean) => void
+  /** 새 프로젝트 생성 요청 (브레이크포인트 선택 흐름으로 연결) */
+  onCreateProject: () => void
+}
+
+/**
+ * ProjectPickerModal - 프로젝트 선택/관리 모달
+ *
+ * 저장된 프로젝트가 있을 때 InitialBreakpointModal 대신 진입 화면으로 사용
+ * - 열기, 이름 변경, 복제, 삭제
+ */
+export function ProjectPickerModal({
+  open,
+  dismissible,
+  onOpenChange,
+  onCreateProject,
+}: ProjectPickerModalProps) {
+  const projects = useProjectStore((state) => state.projects)
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+  const openProject = useProjectStore((state) => state.openProject)
+  const renameProject = useProjectStore((state) => state.renameProject)
+  const duplicateProject = useProjectStore((state) => state.duplicateProject)
+  const deleteProject = useProjectStore((state) => state.deleteProject)
+
+  const confirm = useConfirm()
+
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState("")
+
+  // 최근 수정 순
+  const sortedProjects = [...projects].sort((a, b) => b.updatedAt - a.updatedAt)
+
+  const handleOpen = (id: string) => {
+    if (editingId) return
+    openProject(id)
+    onOpenChange(false)
+  }
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id)
+    setEditingName(name)
+  }
+
+  const commitRename = () => {
+    if (editingId) {
+      renameProject(editingId, editingName)
+    }
+    setEditingId(null)
+  }
+
+  const handleDelete = async (id: string, name: string) => {
+    const confirmed = await confirm({
+      title: "Delete Project",
+      description: `Are you sure you want to delete project "${name}"? This cannot be undone.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      variant: "destructive",
+    })
+
+    if (confirmed) {
+      deleteProject(id)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={dismissible ? onOpenChange : () => {}}>
+      <DialogContent className={cn("sm:max-w-[560px]", !dismissible && "[&>button]:hidden")}>
+        <DialogHeader>
+          <DialogTitle>Projects</DialogTitle>
+          <DialogDescription>
+            Open a saved layout or start a new one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[400px] overflow-y-auto space-y-2 py-2">
+          {sortedProjects.map((project) => {
+            const isActive = project.id === activeProjectId
+            const isEditing = project.id === editingId
+
+            return (
+              <div
+                key={project.id}
+                className={cn(
+                  "group flex items-center gap-3 p-3 rounded-lg border transition-all",
+                  isActive
+                    ? "border-blue-500 bg-blue-50"
+                    : "border-gray-200 hover:border-blue-300 hover:bg-blue-50 cursor-pointer"
+                )}
+                onClick={() => !isEditing && handleOpen(project.id)}
+              >
+                <FolderOpen className="w-5 h-5 text-gray-500 flex-shrink-0" />
+
+                <div className="flex-1 min-w-0">
+                  {isEditing ? (
+                    <Input
+                      value={editingName}
+                      autoFocus
+                      className="h-8"
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename()
+                        if (e.key === "Escape") setEditingId(null)
+                      }}
+                    />
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-sm truncate">{project.name}</span>
+                      {isActive && <Badge variant="secondary">Open</Badge>}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500 mt-0.5">
+                    Updated {new Date(project.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+
+                <div
+                  className="flex items-center gap-1"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {isEditing ? (
+                    <>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={commitRename} title="Save name">
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)} title="Cancel">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => startRename(project.id, project.name)}
+                        title="Rename"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => duplicateProject(project.id)}
+                        title="Duplicate"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-red-600 hover:text-red-700"
+                        onClick={() => handleDelete(project.id, project.name)}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button onClick={onCreateProject} className="min-w-[100px]">
+            <Plus className="w-4 h-4 mr-1" />
+            New Project
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
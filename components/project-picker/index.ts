@@ -0,0 +1 @@
+export { ProjectPickerModal } from "./ProjectPickerModal"
@@ -1,25 +1,25 @@
 "use client"
 
-import { useLayoutStore, useSelectedComponent } from "@/store/layout-store"
+import { useLayoutStore, useSelectedComponents } from "@/store/layout-store"
 import { Card } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
-import type { ComponentPositioning, ComponentLayout, ComponentStyling } from "@/types/schema"
+import { getSharedValue } from "@/lib/canvas-selection"
+import type { Component, ComponentPositioning, ComponentLayout } from "@/types/schema"
 
 /**
  * Properties Panel - Schema 컴포넌트 속성 편집
  *
  * Positioning, Layout, Styling, Responsive 편집 UI
+ * 다중 선택 시 공통 필드를 한 번에 편집 (값이 다르면 "Mixed" 표시)
  */
 export function PropertiesPanel() {
-  const selectedComponent = useSelectedComponent()
-  const updateComponentPositioning = useLayoutStore((state) => state.updateComponentPositioning)
-  const updateComponentLayout = useLayoutStore((state) => state.updateComponentLayout)
-  const updateComponentStyling = useLayoutStore((state) => state.updateComponentStyling)
+  const selectedComponents = useSelectedComponents()
+  const updateComponents = useLayoutStore((state) => state.updateComponents)
 
-  if (!selectedComponent) {
+  if (selectedComponents.length === 0) {
     return (
       <Card className="p-6">
         <div className="text-center text-gray-400">
@@ -30,16 +30,54 @@ export function PropertiesPanel() {
     )
   }
 
+  const [primary] = selectedComponents
+  const isMultiple = selectedComponents.length > 1
+
+  // 선택된 컴포넌트 전체에 적용 (하나의 undo 단계)
+  const editSelection = (edit: (component: Component) => Partial<Omit<Component, "id">>) => {
+    updateComponents(
+      Object.fromEntries(selectedComponents.map((component) => [component.id, edit(component)]))
+    )
+  }
+
+  const semanticTag = getSharedValue(selectedComponents, (c) => c.semanticTag)
+  const positioningType = getSharedValue(selectedComponents, (c) => c.positioning.type)
+  const top = getSharedValue(selectedComponents, (c) => c.positioning.position?.top)
+  const zIndex = getSharedValue(selectedComponents, (c) => c.positioning.position?.zIndex)
+  const layoutType = getSharedValue(selectedComponents, (c) => c.layout.type)
+  const flexDirection = getSharedValue(selectedComponents, (c) => c.layout.flex?.direction)
+  const maxWidth = getSharedValue(selectedComponents, (c) => c.layout.container?.maxWidth)
+  const background = getSharedValue(selectedComponents, (c) => c.styling?.background)
+  const border = getSharedValue(selectedComponents, (c) => c.styling?.border)
+
+  // 타입별 옵션은 모든 선택 컴포넌트가 해당 타입일 때만 표시
+  const allPositioned = selectedComponents.every((c) => c.positioning.type !== "static")
+  const allFlex = selectedComponents.every((c) => c.layout.type === "flex" && c.layout.flex)
+  const allContainer = selectedComponents.every(
+    (c) => c.layout.type === "container" && c.layout.container
+  )
+
   return (
     <Card className="p-6 space-y-6">
       {/* Component Info */}
       <div>
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-semibold">{selectedComponent.name}</h3>
-          <Badge variant="outline">{selectedComponent.id}</Badge>
+          <h3 className="text-lg font-semibold">
+            {isMultiple ? `${selectedComponents.length} components` : primary.name}
+          </h3>
+          {!isMultiple && <Badge variant="outline">{primary.id}</Badge>}
         </div>
+        {isMultiple && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {selectedComponents.map((component) => (
+              <Badge key={component.id} variant="outline">
+                {component.id}
+              </Badge>
+            ))}
+          </div>
+        )}
         <div className="text-sm text-gray-600">
-          &lt;{selectedComponent.semanticTag}&gt;
+          {semanticTag.mixed ? "Mixed tags" : <>&lt;{semanticTag.value}&gt;</>}
         </div>
       </div>
 
@@ -50,16 +88,15 @@ export function PropertiesPanel() {
         <div className="space-y-2">
           <Label className="text-sm">Type</Label>
           <Select
-            value={selectedComponent.positioning.type}
+            value={positioningType.value ?? ""}
             onValueChange={(value: ComponentPositioning["type"]) => {
-              updateComponentPositioning(selectedComponent.id, {
-                ...selectedComponent.positioning,
-                type: value,
-              })
+              editSelection((component) => ({
+                positioning: { ...component.positioning, type: value },
+              }))
             }}
           >
             <SelectTrigger>
-              <SelectValue />
+              <SelectValue placeholder="Mixed" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="static">Static</SelectItem>
@@ -71,23 +108,25 @@ export function PropertiesPanel() {
           </Select>
         </div>
 
-        {selectedComponent.positioning.type !== "static" && (
+        {allPositioned && (
           <div className="grid grid-cols-2 gap-2">
             <div>
               <Label className="text-sm">Top</Label>
               <Input
                 type="text"
-                placeholder="0, 4rem, etc"
-                value={selectedComponent.positioning.position?.top ?? ""}
+                placeholder={top.mixed ? "Mixed" : "0, 4rem, etc"}
+                value={top.value ?? ""}
                 onChange={(e) => {
                   const value = e.target.value
-                  updateComponentPositioning(selectedComponent.id, {
-                    ...selectedComponent.positioning,
-                    position: {
-                      ...selectedComponent.positioning.position,
-                      top: value === "" ? undefined : (isNaN(Number(value)) ? value : Number(value)),
+                  editSelection((component) => ({
+                    positioning: {
+                      ...component.positioning,
+                      position: {
+                        ...component.positioning.position,
+                        top: value === "" ? undefined : (isNaN(Number(value)) ? value : Number(value)),
+                      },
                     },
-                  })
+                  }))
                 }}
               />
             </div>
@@ -95,17 +134,19 @@ export function PropertiesPanel() {
               <Label className="text-sm">Z-Index</Label>
               <Input
                 type="number"
-                placeholder="50"
-                value={selectedComponent.positioning.position?.zIndex ?? ""}
+                placeholder={zIndex.mixed ? "Mixed" : "50"}
+                value={zIndex.value ?? ""}
                 onChange={(e) => {
                   const value = e.target.value
-                  updateComponentPositioning(selectedComponent.id, {
-                    ...selectedComponent.positioning,
-                    position: {
-                      ...selectedComponent.positioning.position,
-                      zIndex: value === "" ? undefined : Number(value),
+                  editSelection((component) => ({
+                    positioning: {
+                      ...component.positioning,
+                      position: {
+                        ...component.positioning.position,
+                        zIndex: value === "" ? undefined : Number(value),
+                      },
                     },
-                  })
+                  }))
                 }}
               />
             </div>
@@ -120,7 +161,7 @@ export function PropertiesPanel() {
         <div className="space-y-2">
           <Label className="text-sm">Type</Label>
           <Select
-            value={selectedComponent.layout.type}
+            value={layoutType.value ?? ""}
             onValueChange={(value: ComponentLayout["type"]) => {
               let newLayout: ComponentLayout
 
@@ -138,11 +179,11 @@ export function PropertiesPanel() {
                   newLayout = { type: "none" }
               }
 
-              updateComponentLayout(selectedComponent.id, newLayout)
+              editSelection(() => ({ layout: newLayout }))
             }}
           >
             <SelectTrigger>
-              <SelectValue />
+              <SelectValue placeholder="Mixed" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="flex">Flex</SelectItem>
@@ -154,23 +195,25 @@ export function PropertiesPanel() {
         </div>
 
         {/* Flex options */}
-        {selectedComponent.layout.type === "flex" && selectedComponent.layout.flex && (
+        {allFlex && (
           <div className="space-y-2">
             <Label className="text-sm">Direction</Label>
             <Select
-              value={selectedComponent.layout.flex.direction}
+              value={flexDirection.value ?? ""}
               onValueChange={(value) => {
-                updateComponentLayout(selectedComponent.id, {
-                  type: "flex",
-                  flex: {
-                    ...selectedComponent.layout.flex,
-                    direction: value as "row" | "column",
+                editSelection((component) => ({
+                  layout: {
+                    type: "flex",
+                    flex: {
+                      ...component.layout.flex,
+                      direction: value as "row" | "column",
+                    },
                   },
-                })
+                }))
               }}
             >
               <SelectTrigger>
-                <SelectValue />
+                <SelectValue placeholder="Mixed" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="row">Row</SelectItem>
@@ -181,23 +224,25 @@ export function PropertiesPanel() {
         )}
 
         {/* Container options */}
-        {selectedComponent.layout.type === "container" && selectedComponent.layout.container && (
+        {allContainer && (
           <div className="space-y-2">
             <Label className="text-sm">Max Width</Label>
             <Select
-              value={selectedComponent.layout.container.maxWidth}
+              value={maxWidth.value ?? ""}
               onValueChange={(value) => {
-                updateComponentLayout(selectedComponent.id, {
-                  type: "container",
-                  container: {
-                    ...selectedComponent.layout.container,
-                    maxWidth: value as any,
+                editSelection((component) => ({
+                  layout: {
+                    type: "container",
+                    container: {
+                      ...component.layout.container,
+                      maxWidth: value as any,
+                    },
                   },
-                })
+                }))
               }}
             >
               <SelectTrigger>
-                <SelectValue />
+                <SelectValue placeholder="Mixed" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="full">Full</SelectItem>
@@ -219,13 +264,13 @@ export function PropertiesPanel() {
           <Label className="text-sm">Background</Label>
           <Input
             type="text"
-            placeholder="white, gray-100, etc"
-            value={selectedComponent.styling?.background ?? ""}
+            placeholder={background.mixed ? "Mixed" : "white, gray-100, etc"}
+            value={background.value ?? ""}
             onChange={(e) => {
-              updateComponentStyling(selectedComponent.id, {
-                ...selectedComponent.styling,
-                background: e.target.value || undefined,
-              })
+              const value = e.target.value
+              editSelection((component) => ({
+                styling: { ...component.styling, background: value || undefined },
+              }))
             }}
           />
         </div>
@@ -233,16 +278,18 @@ export function PropertiesPanel() {
         <div className="space-y-2">
           <Label className="text-sm">Border</Label>
           <Select
-            value={selectedComponent.styling?.border ?? "none"}
+            value={border.mixed ? "" : (border.value ?? "none")}
             onValueChange={(value) => {
-              updateComponentStyling(selectedComponent.id, {
-                ...selectedComponent.styling,
-                border: value === "none" ? undefined : (value as any),
-              })
+              editSelection((component) => ({
+                styling: {
+                  ...component.styling,
+                  border: value === "none" ? undefined : (value as any),
+                },
+              }))
             }}
           >
             <SelectTrigger>
-              <SelectValue />
+              <SelectValue placeholder="Mixed" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="none">None</SelectItem>
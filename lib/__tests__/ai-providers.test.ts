@@ -0,0 +1,449 @@
+// @vitest-environment node
+/**
+ * AI Providers Tests
+ *
+ * Provider adapter와 /api/generate 스트리밍을 로컬 mock 서버에 대해 검증
+ * (실제 provider API 호출 없음)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest"
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+  AnthropicAdapter,
+  GeminiAdapter,
+  OpenAICompatibleAdapter,
+  createProviderAdapter,
+  getConfiguredModelIds,
+  getProviderModelName,
+  handleGenerationRequest,
+  loadModelRegistryFile,
+  parseSSEStream,
+  type SSEMessage,
+} from "../ai-providers"
+import { defaultGenerationPackage } from "../sample-data"
+import { fetchServerModelIds, streamGeneration } from "../generation-client"
+import { createPromptStrategy } from "../prompt-strategies"
+import { setRuntimeModels } from "../ai-model-registry"
+
+interface RecordedRequest {
+  url: string
+  headers: IncomingMessage["headers"]
+  body: Record<string, unknown>
+}
+
+type MockHandler = (req: RecordedRequest, res: ServerResponse) => void
+
+let server: Server
+let baseUrl: string
+let handler: MockHandler
+const requests: RecordedRequest[] = []
+
+/**
+ * SSE 이벤트를 청크별로 나눠서 전송 (청크 경계가 이벤트 중간에 걸치도록)
+ */
+function sendSSE(res: ServerResponse, events: string[]) {
+  res.writeHead(200, { "Content-Type": "text/event-stream" })
+  const payload = events.join("")
+  const mid = Math.floor(payload.length / 2)
+  res.write(payload.slice(0, mid))
+  res.end(payload.slice(mid))
+}
+
+const data = (value: unknown, event?: string) =>
+  `${event ? `event: ${event}\n` : ""}data: ${typeof value === "string" ? value : JSON.stringify(value)}\n\n`
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+async function readEvents(response: Response): Promise<{ event: string; data: Record<string, unknown> }[]> {
+  const events: SSEMessage[] = []
+  for await (const message of parseSSEStream(response.body!)) events.push(message)
+  return events.map((message) => ({ event: message.event, data: JSON.parse(message.data) }))
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = ""
+    req.on("data", (chunk) => (raw += chunk))
+    req.on("end", () => {
+      const recorded = { url: req.url ?? "", headers: req.headers, body: raw ? JSON.parse(raw) : {} }
+      requests.push(recorded)
+      handler(recorded, res)
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+})
+
+beforeEach(() => {
+  requests.length = 0
+})
+
+describe("parseSSEStream", () => {
+  it("parses events split across chunks, multi-line data and comments", async () => {
+    const encoder = new TextEncoder()
+    const chunks = [": keep-alive\n\nevent: tok", "en\ndata: a\ndata: b\n\n", "data: last"]
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+        controller.close()
+      },
+    })
+
+    const events: SSEMessage[] = []
+    for await (const message of parseSSEStream(body)) events.push(message)
+
+    expect(events).toEqual([
+      { event: "token", data: "a\nb" },
+      { event: "message", data: "last" },
+    ])
+  })
+})
+
+describe("provider adapters", () => {
+  it("streams Anthropic text deltas with the key in headers", async () => {
+    handler = (_req, res) =>
+      sendSSE(res, [
+        data({ type: "message_start" }, "message_start"),
+        data({ type: "content_block_delta", delta: { type: "text_delta", text: "<header>" } }, "content_block_delta"),
+        data({ type: "content_block_delta", delta: { type: "text_delta", text: "</header>" } }, "content_block_delta"),
+        data({ type: "message_stop" }, "message_stop"),
+      ])
+
+    const adapter = new AnthropicAdapter({ apiKey: "test-key", baseUrl })
+    const chunks = await collect(adapter.streamCompletion({ model: "claude-sonnet-4-5", prompt: "Build it" }))
+
+    expect(chunks).toEqual(["<header>", "</header>"])
+    expect(requests[0].url).toBe("/v1/messages")
+    expect(requests[0].headers["x-api-key"]).toBe("test-key")
+    expect(requests[0].body).toMatchObject({ model: "claude-sonnet-4-5", stream: true, max_tokens: 8192 })
+  })
+
+  it("streams OpenAI-compatible chunks until [DONE]", async () => {
+    handler = (_req, res) =>
+      sendSSE(res, [
+        data({ choices: [{ delta: { role: "assistant" } }] }),
+        data({ choices: [{ delta: { content: "export " } }] }),
+        data({ choices: [{ delta: { content: "function" } }] }),
+        data("[DONE]"),
+      ])
+
+    const adapter = new OpenAICompatibleAdapter("deepseek", { apiKey: "ds-key", baseUrl })
+    const chunks = await collect(adapter.streamCompletion({ model: "deepseek-chat", prompt: "p", temperature: 0.2 }))
+
+    expect(chunks).toEqual(["export ", "function"])
+    expect(requests[0].url).toBe("/chat/completions")
+    expect(requests[0].headers.authorization).toBe("Bearer ds-key")
+    expect(requests[0].body).toMatchObject({ temperature: 0.2, stream: true })
+  })
+
+  it("omits temperature for reasoning models", async () => {
+    handler = (_req, res) => sendSSE(res, [data("[DONE]")])
+
+    const adapter = new OpenAICompatibleAdapter("openai", { apiKey: "k", baseUrl })
+    await collect(adapter.streamCompletion({ model: "o3", prompt: "p", temperature: 0.2 }))
+
+    expect(requests[0].body).not.toHaveProperty("temperature")
+  })
+
+  it("streams Gemini candidate parts", async () => {
+    handler = (_req, res) =>
+      sendSSE(res, [
+        data({ candidates: [{ content: { parts: [{ text: "<main" }, { text: ">" }] } }] }),
+        data({ candidates: [{ content: { parts: [{ text: "</main>" }] } }] }),
+      ])
+
+    const adapter = new GeminiAdapter({ apiKey: "g-key", baseUrl })
+    const chunks = await collect(adapter.streamCompletion({ model: "gemini-2.5-pro", prompt: "p" }))
+
+    expect(chunks).toEqual(["<main>", "</main>"])
+    expect(requests[0].url).toBe("/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse")
+    expect(requests[0].headers["x-goog-api-key"]).toBe("g-key")
+  })
+
+  it("throws the provider error message for failed requests", async () => {
+    handler = (_req, res) => {
+      res.writeHead(401, { "Content-Type": "application/json" })
+      res.end(JSON.stringify({ error: { message: "invalid x-api-key" } }))
+    }
+
+    const adapter = new AnthropicAdapter({ apiKey: "bad", baseUrl })
+    await expect(collect(adapter.streamCompletion({ model: "m", prompt: "p" }))).rejects.toThrow(
+      /anthropic API request failed \(401.*invalid x-api-key/
+    )
+  })
+})
+
+describe("createProviderAdapter", () => {
+  it("reads keys and base URLs from server env only", () => {
+    const result = createProviderAdapter("anthropic", { NEXT_PUBLIC_ANTHROPIC_API_KEY: "leaked" })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toContain("ANTHROPIC_API_KEY")
+      expect(result.error).not.toContain("leaked")
+    }
+
+    expect(createProviderAdapter("openai", { OPENAI_API_KEY: "k" }).success).toBe(true)
+  })
+
+  it("rejects providers without a hosted API", () => {
+    expect(createProviderAdapter("meta", {}).success).toBe(false)
+  })
+
+  it("maps registry IDs to provider model names", () => {
+    expect(getProviderModelName("claude-sonnet-4.5")).toBe("claude-sonnet-4-5")
+    expect(getProviderModelName("gpt-4.1")).toBe("gpt-4.1")
+  })
+})
+
+describe("handleGenerationRequest", () => {
+  const body = { pkg: defaultGenerationPackage, modelId: "claude-sonnet-4.5" }
+  const env = { ANTHROPIC_API_KEY: "server-key", ANTHROPIC_BASE_URL: "" }
+
+  it("builds the prompt with the model strategy and streams tokens as SSE", async () => {
+    handler = (_req, res) =>
+      sendSSE(res, [
+        data({ type: "content_block_delta", delta: { type: "text_delta", text: "```tsx " } }),
+        data({ type: "content_block_delta", delta: { type: "text_delta", text: "components/Header.tsx" } }),
+        data({ type: "message_stop" }),
+      ])
+
+    const response = await handleGenerationRequest(body, { env: { ...env, ANTHROPIC_BASE_URL: baseUrl } })
+    expect(response.status).toBe(200)
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream")
+
+    const events = await readEvents(response)
+    expect(events.map((e) => e.event)).toEqual(["start", "token", "token", "done"])
+    expect(events[0].data).toMatchObject({ modelId: "claude-sonnet-4.5", provider: "anthropic" })
+    expect(events[3].data).toEqual({ code: "```tsx components/Header.tsx" })
+
+    // Claude 전략 프롬프트가 provider로 전달됨
+    const sent = requests[0].body as { model: string; messages: { content: string }[] }
+    expect(sent.model).toBe("claude-sonnet-4-5")
+    expect(sent.messages[0].content).toContain("You are a senior")
+  })
+
+  it("emits an error event when the provider fails mid-stream", async () => {
+    handler = (_req, res) =>
+      sendSSE(res, [
+        data({ type: "content_block_delta", delta: { type: "text_delta", text: "partial" } }),
+        data({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }),
+      ])
+
+    const response = await handleGenerationRequest(body, { env: { ...env, ANTHROPIC_BASE_URL: baseUrl } })
+    const events = await readEvents(response)
+
+    expect(events.map((e) => e.event)).toEqual(["start", "token", "error"])
+    expect(events[2].data.message).toContain("Overloaded")
+  })
+
+  it("returns JSON errors before streaming", async () => {
+    const badModel = await handleGenerationRequest({ ...body, modelId: "gpt-99" }, { env })
+    expect(badModel.status).toBe(400)
+
+    const badPackage = await handleGenerationRequest(
+      { ...body, pkg: { ...defaultGenerationPackage, options: { framework: "angular", cssSolution: "tailwind" } } },
+      { env }
+    )
+    expect(badPackage.status).toBe(400)
+
+    const badBudget = await handleGenerationRequest({ ...body, options: { tokenBudget: -1 } }, { env })
+    expect(badBudget.status).toBe(400)
+    expect((await badBudget.json()).error).toBe("options.tokenBudget must be a positive integer")
+
+    const invalidSchema = await handleGenerationRequest(
+      { ...body, pkg: { ...defaultGenerationPackage, schema: { ...defaultGenerationPackage.schema, breakpoints: [] } } },
+      { env }
+    )
+    expect(invalidSchema.status).toBe(422)
+
+    const notConfigured = await handleGenerationRequest(body, { env: {} })
+    expect(notConfigured.status).toBe(503)
+    expect(await notConfigured.json()).toEqual({
+      error: 'Provider "anthropic" is not configured on the server. Set ANTHROPIC_API_KEY.',
+    })
+    expect(requests).toHaveLength(0)
+  })
+})
+
+describe("local endpoint provider", () => {
+  const localEnv = () => ({ LOCAL_LLM_BASE_URL: `${baseUrl}/v1` })
+
+  beforeEach(() => {
+    handler = (_req, res) =>
+      sendSSE(res, [data({ choices: [{ delta: { content: "<main>" } }] }), data("[DONE]")])
+  })
+
+  it("sends local models to the OpenAI-compatible endpoint without a key", async () => {
+    const response = await handleGenerationRequest(
+      { pkg: defaultGenerationPackage, modelId: "local-qwen-2.5-coder" },
+      { env: localEnv() }
+    )
+    const events = await readEvents(response)
+
+    expect(events.at(-1)).toEqual({ event: "done", data: { code: "<main>" } })
+    expect(requests[0].url).toBe("/v1/chat/completions")
+    expect(requests[0].headers.authorization).toBeUndefined()
+    expect(requests[0].body.model).toBe("qwen2.5-coder:32b")
+  })
+
+  it("uses the original model family's prompt strategy", async () => {
+    await readEvents(
+      await handleGenerationRequest(
+        { pkg: defaultGenerationPackage, modelId: "local-llama-4" },
+        { env: localEnv() }
+      )
+    )
+
+    const expected = createPromptStrategy("llama-4").generatePrompt(
+      defaultGenerationPackage.schema,
+      defaultGenerationPackage.options.framework,
+      defaultGenerationPackage.options.cssSolution,
+      { targetModel: "llama-4" }
+    )
+    const sent = requests[0].body as { messages: { content: string }[] }
+    expect(sent.messages[0].content).toBe(expected.prompt)
+  })
+
+  it("requires LOCAL_LLM_BASE_URL, and LOCAL_LLM_MODEL for the custom model", async () => {
+    const noEndpoint = await handleGenerationRequest(
+      { pkg: defaultGenerationPackage, modelId: "local-llama-4" },
+      { env: {} }
+    )
+    expect(noEndpoint.status).toBe(503)
+    expect((await noEndpoint.json()).error).toContain("LOCAL_LLM_BASE_URL")
+
+    const noModel = await handleGenerationRequest(
+      { pkg: defaultGenerationPackage, modelId: "custom" },
+      { env: localEnv() }
+    )
+    expect(noModel.status).toBe(503)
+    expect((await noModel.json()).error).toContain("LOCAL_LLM_MODEL")
+
+    await readEvents(
+      await handleGenerationRequest(
+        { pkg: defaultGenerationPackage, modelId: "custom" },
+        { env: { ...localEnv(), LOCAL_LLM_MODEL: "codestral", LOCAL_LLM_API_KEY: "local-key" } }
+      )
+    )
+    expect(requests[0].body.model).toBe("codestral")
+    expect(requests[0].headers.authorization).toBe("Bearer local-key")
+  })
+
+  it("streams through the browser client end to end", async () => {
+    const tokens: string[] = []
+    const result = await streamGeneration(
+      { pkg: defaultGenerationPackage, modelId: "local-qwen-2.5-coder" },
+      {
+        onToken: (text) => tokens.push(text),
+        fetch: async (_url, init) =>
+          handleGenerationRequest(JSON.parse(String(init?.body)), { env: localEnv() }),
+      }
+    )
+
+    expect(result).toEqual({ success: true, code: "<main>" })
+    expect(tokens).toEqual(["<main>"])
+
+    const failed = await streamGeneration(
+      { pkg: defaultGenerationPackage, modelId: "custom" },
+      { fetch: async (_url, init) => handleGenerationRequest(JSON.parse(String(init?.body)), { env: {} }) }
+    )
+    expect(failed.success).toBe(false)
+    if (!failed.success) expect(failed.error).toContain("LOCAL_LLM_BASE_URL")
+  })
+})
+
+describe("model registry file", () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "vlb-models-"))
+  })
+
+  afterAll(async () => {
+    setRuntimeModels([])
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("registers configured models and sends their ID as the API model name", async () => {
+    const path = join(dir, "models.json")
+    await writeFile(
+      path,
+      JSON.stringify({
+        models: [
+          {
+            id: "qwen2.5-coder:14b",
+            extends: "local-qwen-2.5-coder",
+            name: "Qwen 2.5 Coder 14B (Local)",
+            provider: "custom",
+          },
+        ],
+      })
+    )
+
+    expect(loadModelRegistryFile({})).toBeNull()
+    expect(await loadModelRegistryFile({ MODEL_REGISTRY_FILE: path })).toMatchObject({ valid: true, added: 1 })
+
+    handler = (_req, res) =>
+      sendSSE(res, [data({ choices: [{ delta: { content: "<main>" } }] }), data("[DONE]")])
+    await readEvents(
+      await handleGenerationRequest(
+        { pkg: defaultGenerationPackage, modelId: "qwen2.5-coder:14b" },
+        { env: { LOCAL_LLM_BASE_URL: `${baseUrl}/v1` } }
+      )
+    )
+    expect(requests[0].body.model).toBe("qwen2.5-coder:14b")
+  })
+
+  it("sends providerModel as the API model name", async () => {
+    const path = join(dir, "provider-model.json")
+    await writeFile(
+      path,
+      JSON.stringify([{ id: "acme-coder", name: "Acme Coder", provider: "custom", providerModel: "acme/coder:7b" }])
+    )
+    await loadModelRegistryFile({ MODEL_REGISTRY_FILE: path })
+
+    handler = (_req, res) =>
+      sendSSE(res, [data({ choices: [{ delta: { content: "<main>" } }] }), data("[DONE]")])
+    await readEvents(
+      await handleGenerationRequest(
+        { pkg: defaultGenerationPackage, modelId: "acme-coder" },
+        { env: { LOCAL_LLM_BASE_URL: `${baseUrl}/v1`, LOCAL_LLM_MODEL: "codestral" } }
+      )
+    )
+    expect(requests[0].body.model).toBe("acme/coder:7b")
+  })
+
+  it("lists configured models for the browser", async () => {
+    const path = join(dir, "provider-model.json")
+
+    expect(await getConfiguredModelIds({})).toEqual([])
+    expect(await getConfiguredModelIds({ MODEL_REGISTRY_FILE: path })).toEqual(["acme-coder"])
+    expect(await fetchServerModelIds({ fetch: async () => Response.json({ models: ["acme-coder"] }) })).toEqual([
+      "acme-coder",
+    ])
+    expect(await fetchServerModelIds({ fetch: async () => new Response("oops", { status: 500 }) })).toEqual([])
+  })
+
+  it("reports unreadable and invalid files", async () => {
+    const missing = await loadModelRegistryFile({ MODEL_REGISTRY_FILE: join(dir, "missing.json") })
+    expect(missing?.valid).toBe(false)
+    expect(missing?.errors[0]).toContain("Cannot read")
+
+    const invalidPath = join(dir, "invalid.json")
+    await writeFile(invalidPath, '[{ "id": "gpt-4.1", "cost": { "level": "free" } }]')
+    const invalid = await loadModelRegistryFile({ MODEL_REGISTRY_FILE: invalidPath })
+    expect(invalid?.errors[0]).toContain("models[0].cost.level")
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Auto-Adapt Tests
+ *
+ * desktop 배치 → tablet/mobile 제안: 전체 너비 유지, sidebar 내리기, 열 쌓기, 중첩 컴포넌트, store 적용/undo
+ */
+
+import { describe, it, expect, beforeEach } from "vitest"
+import { adaptLayout } from "../auto-adapt"
+import { useLayoutStore } from "@/store/layout-store"
+import { createEmptyHistory } from "../history-utils"
+import { createCanvasComponent } from "./fixtures/test-schemas"
+import type { LaydlerSchema } from "@/types/schema"
+
+// desktop 12열: header / sidebar + main(카드 3개) / (빈 행) / footer
+const createSchema = (): LaydlerSchema => ({
+  schemaVersion: "2.0",
+  components: [
+    createCanvasComponent("header", { desktop: { x: 0, y: 0, width: 12, height: 1 } }, { semanticTag: "header" }),
+    createCanvasComponent("sidebar", { desktop: { x: 0, y: 1, width: 3, height: 5 } }, { semanticTag: "aside" }),
+    createCanvasComponent("main", { desktop: { x: 3, y: 1, width: 9, height: 5 } }, { semanticTag: "main" }),
+    createCanvasComponent(
+      "card1",
+      { desktop: { x: 4, y: 2, width: 2, height: 2 } },
+      { semanticTag: "article", parentId: "main" }
+    ),
+    createCanvasComponent(
+      "card2",
+      { desktop: { x: 7, y: 2, width: 2, height: 2 } },
+      { semanticTag: "article", parentId: "main" }
+    ),
+    createCanvasComponent(
+      "card3",
+      { desktop: { x: 10, y: 2, width: 2, height: 2 } },
+      { semanticTag: "article", parentId: "main" }
+    ),
+    createCanvasComponent("footer", { desktop: { x: 0, y: 7, width: 12, height: 1 } }, { semanticTag: "footer" }),
+  ],
+  breakpoints: [
+    { name: "mobile", minWidth: 0, gridCols: 4, gridRows: 8 },
+    { name: "tablet", minWidth: 768, gridCols: 8, gridRows: 8 },
+    { name: "desktop", minWidth: 1024, gridCols: 12, gridRows: 8 },
+  ],
+  layouts: {
+    mobile: { structure: "vertical", components: [] },
+    tablet: { structure: "vertical", components: [] },
+    desktop: {
+      structure: "sidebar-main",
+      components: ["header", "sidebar", "main", "footer"],
+      roles: { header: "header", sidebar: "sidebar", main: "main", footer: "footer" },
+    },
+  },
+})
+
+describe("adaptLayout", () => {
+  it("should stack a desktop layout for mobile", () => {
+    const proposal = adaptLayout(createSchema(), "desktop", "mobile")
+
+    expect(proposal?.canvasLayouts).toEqual({
+      header: { x: 0, y: 0, width: 4, height: 1 },
+      // 카드는 main 안에서 세로로 쌓이고 main이 늘어남
+      card1: { x: 0, y: 2, width: 4, height: 2 },
+      card2: { x: 0, y: 4, width: 4, height: 2 },
+      card3: { x: 0, y: 6, width: 4, height: 2 },
+      main: { x: 0, y: 1, width: 4, height: 7 },
+      sidebar: { x: 0, y: 8, width: 4, height: 5 },
+      // 빈 행(간격) 유지
+      footer: { x: 0, y: 14, width: 4, height: 1 },
+    })
+    expect(proposal?.layout.components).toEqual(["header", "main", "sidebar", "footer"])
+    expect(proposal?.layout.structure).toBe("vertical")
+    expect(proposal?.layout.roles?.sidebar).toBe("sidebar")
+    expect(proposal?.gridCols).toBe(4)
+    expect(proposal?.gridRows).toBe(15)
+  })
+
+  it("should keep wide enough columns side by side", () => {
+    const schema = createSchema()
+    schema.components.push(
+      createCanvasComponent("left", { desktop: { x: 0, y: 8, width: 6, height: 2 } }),
+      createCanvasComponent("right", { desktop: { x: 6, y: 8, width: 6, height: 2 } })
+    )
+    schema.layouts.desktop.components.push("left", "right")
+
+    const proposal = adaptLayout(schema, "desktop", "tablet")
+    expect(proposal?.canvasLayouts.left).toEqual({ x: 0, y: 15, width: 4, height: 2 })
+    expect(proposal?.canvasLayouts.right).toEqual({ x: 4, y: 15, width: 4, height: 2 })
+
+    const stacked = adaptLayout(schema, "desktop", "tablet", { stackColumns: "always" })
+    expect(stacked?.canvasLayouts.right).toEqual({ x: 0, y: 17, width: 8, height: 2 })
+  })
+
+  it("should keep sidebars beside main when collapsing is turned off", () => {
+    const proposal = adaptLayout(createSchema(), "desktop", "tablet", { collapseSidebars: false })
+
+    expect(proposal?.canvasLayouts.sidebar).toEqual({ x: 0, y: 1, width: 2, height: 5 })
+    expect(proposal?.canvasLayouts.main).toMatchObject({ x: 2, y: 1, width: 6 })
+    expect(proposal?.layout.structure).toBe("sidebar-main")
+  })
+
+  it("should scale up to a wider grid", () => {
+    const schema = createSchema()
+    schema.breakpoints.push({ name: "wide", minWidth: 1920, gridCols: 24, gridRows: 8 })
+
+    const proposal = adaptLayout(schema, "desktop", "wide")
+    expect(proposal?.canvasLayouts.sidebar).toEqual({ x: 0, y: 1, width: 6, height: 5 })
+    expect(proposal?.canvasLayouts.card2).toEqual({ x: 14, y: 2, width: 4, height: 2 })
+    expect(proposal?.gridRows).toBe(8)
+  })
+
+  it("should return null without a source layout", () => {
+    expect(adaptLayout(createSchema(), "mobile", "tablet")).toBeNull()
+    expect(adaptLayout(createSchema(), "desktop", "missing")).toBeNull()
+    expect(adaptLayout(createSchema(), "desktop", "desktop")).toBeNull()
+  })
+})
+
+describe("Layout Store applyAdaptedLayout", () => {
+  beforeEach(() => {
+    useLayoutStore.setState({
+      schema: createSchema(),
+      currentBreakpoint: "mobile",
+      selectedComponentId: null,
+      selectedComponentIds: [],
+      componentLinks: [],
+      history: createEmptyHistory(),
+    })
+  })
+
+  it("should apply the proposal and grow the grid as a single undo step", () => {
+    const store = useLayoutStore.getState()
+    store.applyAdaptedLayout(adaptLayout(store.schema, "desktop", "mobile")!)
+
+    let state = useLayoutStore.getState()
+    expect(state.schema.layouts.mobile.components).toEqual(["header", "main", "sidebar", "footer"])
+    expect(state.schema.components[2].responsiveCanvasLayout?.mobile).toEqual({ x: 0, y: 1, width: 4, height: 7 })
+    expect(state.schema.components[2].responsiveCanvasLayout?.desktop).toEqual({ x: 3, y: 1, width: 9, height: 5 })
+    expect(state.schema.breakpoints[0].gridRows).toBe(15)
+    expect(state.history.past).toHaveLength(1)
+
+    store.undo()
+    state = useLayoutStore.getState()
+    expect(state.schema.layouts.mobile.components).toEqual([])
+    expect(state.schema.components[2].responsiveCanvasLayout?.mobile).toBeUndefined()
+    expect(state.schema.breakpoints[0].gridRows).toBe(8)
+  })
+})
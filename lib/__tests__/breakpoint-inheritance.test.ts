@@ -0,0 +1,190 @@
+/**
+ * Breakpoint Inheritance Tests
+ *
+ * Opt-in 상속 모드: 상속 체인, 해석 (layout/위치), override 우선, prompt 차이 설명, store override/reset/단일 undo
+ */
+
+import { describe, it, expect, beforeEach } from "vitest"
+import {
+  getBreakpointChanges,
+  getInheritanceChain,
+  resolveBreakpoint,
+  resolveInheritance,
+} from "../breakpoint-inheritance"
+import { generatePrompt } from "../prompt-generator"
+import { validateSchema } from "../schema-validation"
+import { createEmptyHistory } from "../history-utils"
+import { useLayoutStore } from "@/store/layout-store"
+import { createCanvasComponent } from "./fixtures/test-schemas"
+import type { BreakpointInheritanceMode, LaydlerSchema } from "@/types/schema"
+
+// mobile에만 layout/위치가 있고 tablet/desktop은 비어 있음
+const createSchema = (mode?: BreakpointInheritanceMode): LaydlerSchema => ({
+  schemaVersion: "2.0",
+  components: [
+    createCanvasComponent(
+      "c1",
+      { mobile: { x: 0, y: 0, width: 4, height: 1 } },
+      { name: "SectionC1", semanticTag: "header" }
+    ),
+    createCanvasComponent(
+      "c2",
+      { mobile: { x: 0, y: 1, width: 4, height: 3 } },
+      { name: "SectionC2", semanticTag: "main" }
+    ),
+  ],
+  breakpoints: [
+    { name: "mobile", minWidth: 0, gridCols: 4, gridRows: 8 },
+    { name: "tablet", minWidth: 768, gridCols: 8, gridRows: 8 },
+    { name: "desktop", minWidth: 1024, gridCols: 12, gridRows: 8 },
+  ],
+  layouts: {
+    mobile: { structure: "vertical", components: ["c1", "c2"] },
+    tablet: { structure: "vertical", components: [] },
+    desktop: { structure: "vertical", components: [] },
+  },
+  ...(mode ? { breakpointInheritance: mode } : {}),
+})
+
+describe("getInheritanceChain", () => {
+  it("should list nearer breakpoints first in each direction", () => {
+    expect(getInheritanceChain(createSchema("mobile-first"), "desktop")).toEqual(["tablet", "mobile"])
+    expect(getInheritanceChain(createSchema("desktop-first"), "mobile")).toEqual(["tablet", "desktop"])
+    expect(getInheritanceChain(createSchema("mobile-first"), "mobile")).toEqual([])
+  })
+
+  it("should not inherit when the mode is off", () => {
+    expect(getInheritanceChain(createSchema(), "desktop")).toEqual([])
+    expect(resolveInheritance(createSchema())).toEqual(createSchema())
+  })
+})
+
+describe("resolveBreakpoint", () => {
+  it("should fill unset layout and positions from the nearest breakpoint", () => {
+    const resolved = resolveBreakpoint(createSchema("mobile-first"), "desktop")
+
+    expect(resolved.layouts.desktop.components).toEqual(["c1", "c2"])
+    expect(resolved.components[1].responsiveCanvasLayout?.desktop).toEqual({ x: 0, y: 1, width: 4, height: 3 })
+    // 다른 breakpoint는 건드리지 않음
+    expect(resolved.components[1].responsiveCanvasLayout?.tablet).toBeUndefined()
+  })
+
+  it("should let explicit overrides win over inherited values", () => {
+    const schema = createSchema("mobile-first")
+    schema.components[1].responsiveCanvasLayout!.tablet = { x: 4, y: 0, width: 4, height: 4 }
+
+    const resolved = resolveBreakpoint(schema, "desktop")
+
+    // tablet override가 mobile보다 가까움
+    expect(resolved.components[1].responsiveCanvasLayout?.desktop).toEqual({ x: 4, y: 0, width: 4, height: 4 })
+    expect(resolved.components[0].responsiveCanvasLayout?.desktop).toEqual({ x: 0, y: 0, width: 4, height: 1 })
+  })
+})
+
+describe("getBreakpointChanges", () => {
+  it("should report no changes for a fully inherited breakpoint", () => {
+    const changes = getBreakpointChanges(createSchema("mobile-first"), "tablet")
+
+    expect(changes).toEqual({
+      baseBreakpoint: "mobile",
+      layoutChanged: false,
+      added: [],
+      removed: [],
+      moved: [],
+    })
+  })
+
+  it("should report repositioned and added components", () => {
+    const schema = createSchema("mobile-first")
+    schema.components[1].responsiveCanvasLayout!.tablet = { x: 4, y: 0, width: 4, height: 4 }
+    schema.components.push(
+      createCanvasComponent("c3", { tablet: { x: 0, y: 4, width: 8, height: 1 } }, { name: "SectionC3" })
+    )
+    schema.layouts.tablet = { structure: "vertical", components: ["c1", "c2", "c3"] }
+
+    const changes = getBreakpointChanges(schema, "tablet")
+
+    expect(changes?.moved).toEqual(["c2"])
+    expect(changes?.added).toEqual(["c3"])
+    expect(changes?.layoutChanged).toBe(false)
+  })
+})
+
+describe("prompt generation", () => {
+  it("should describe inherited breakpoints instead of repeating them", () => {
+    const result = generatePrompt(createSchema("mobile-first"), "react", "tailwind")
+
+    expect(result.success).toBe(true)
+    expect(result.prompt).toContain("Same as mobile (inherited)")
+    // JSON에는 명시적인 override만 포함
+    expect(result.schema?.layouts.desktop.components).toEqual([])
+  })
+
+  it("should reject an unknown inheritance mode", () => {
+    const schema = { ...createSchema(), breakpointInheritance: "sideways" as BreakpointInheritanceMode }
+
+    expect(validateSchema(schema).errors.map((e) => e.code)).toContain("INVALID_BREAKPOINT_INHERITANCE")
+  })
+})
+
+describe("store", () => {
+  beforeEach(() => {
+    useLayoutStore.setState({
+      schema: createSchema("mobile-first"),
+      currentBreakpoint: "desktop",
+      selectedComponentId: null,
+      selectedComponentIds: [],
+      componentLinks: [],
+      history: createEmptyHistory(),
+    })
+  })
+
+  it("should create a layout override when adding to an inherited breakpoint", () => {
+    useLayoutStore.getState().addComponent({
+      name: "Footer",
+      semanticTag: "footer",
+      positioning: { type: "static" },
+      layout: { type: "none" },
+      responsiveCanvasLayout: { desktop: { x: 0, y: 4, width: 12, height: 1 } },
+    })
+
+    const { schema } = useLayoutStore.getState()
+    const newId = schema.components[2].id
+    expect(schema.layouts.desktop.components).toEqual(["c1", "c2", newId])
+    expect(schema.layouts.mobile.components).toEqual(["c1", "c2"])
+    // tablet은 계속 mobile에서 상속
+    expect(schema.layouts.tablet.components).toEqual([])
+  })
+
+  it("should reset a position override back to the inherited position", () => {
+    const { updateComponent, resetCanvasOverride } = useLayoutStore.getState()
+    updateComponent("c2", {
+      responsiveCanvasLayout: {
+        mobile: { x: 0, y: 1, width: 4, height: 3 },
+        desktop: { x: 6, y: 0, width: 6, height: 3 },
+      },
+    })
+
+    resetCanvasOverride("c2", "desktop")
+
+    const state = useLayoutStore.getState()
+    expect(state.schema.components[1].responsiveCanvasLayout?.desktop).toBeUndefined()
+    expect(
+      resolveBreakpoint(state.schema, "desktop").components[1].responsiveCanvasLayout?.desktop
+    ).toEqual({ x: 0, y: 1, width: 4, height: 3 })
+  })
+
+  it("should bake inherited values when turning inheritance off in one undo step", () => {
+    const { setBreakpointInheritance, undo } = useLayoutStore.getState()
+
+    setBreakpointInheritance("none")
+
+    const { schema } = useLayoutStore.getState()
+    expect(schema.breakpointInheritance).toBeUndefined()
+    expect(schema.layouts.desktop.components).toEqual(["c1", "c2"])
+    expect(schema.components[0].responsiveCanvasLayout?.tablet).toEqual({ x: 0, y: 0, width: 4, height: 1 })
+
+    undo()
+    expect(useLayoutStore.getState().schema).toEqual(createSchema("mobile-first"))
+  })
+})
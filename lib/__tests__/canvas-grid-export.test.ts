@@ -0,0 +1,124 @@
+/**
+ * Canvas Grid Page Export Tests
+ *
+ * generateResponsiveGridLayout, exportToFiles({ layoutMode: "canvas-grid" })
+ */
+
+import { describe, it, expect } from 'vitest'
+import { generateResponsiveGridLayout } from '../canvas-to-grid'
+import { exportToFiles } from '../file-exporter'
+import { githubStyleSchema, multiBreakpointSchema } from './fixtures/test-schemas'
+
+describe('generateResponsiveGridLayout', () => {
+  const grid = generateResponsiveGridLayout(
+    multiBreakpointSchema.components,
+    multiBreakpointSchema.breakpoints
+  )
+
+  it('should switch grid templates at each Breakpoint.minWidth', () => {
+    expect(grid.container.base).toEqual([
+      ['display', 'grid'],
+      ['grid-template-columns', 'repeat(4, minmax(0, 1fr))'],
+      ['grid-template-rows', 'repeat(8, auto)'],
+      ['gap', '1rem'],
+    ])
+    expect(grid.container.responsive).toEqual([
+      {
+        breakpoint: 'tablet',
+        minWidth: 768,
+        declarations: [['grid-template-columns', 'repeat(8, minmax(0, 1fr))']],
+      },
+      {
+        breakpoint: 'desktop',
+        minWidth: 1024,
+        declarations: [['grid-template-columns', 'repeat(12, minmax(0, 1fr))']],
+      },
+    ])
+  })
+
+  it('should place cells at the exact canvas grid area per breakpoint', () => {
+    const header = grid.cells.find((cell) => cell.component.id === 'header')!
+
+    expect(header.base).toEqual([['grid-area', '1 / 1 / 2 / 5']])
+    expect(header.responsive.map((rule) => rule.declarations)).toEqual([
+      [['grid-area', '1 / 1 / 2 / 9']],
+      [['grid-area', '1 / 1 / 2 / 13']],
+    ])
+  })
+
+  it('should hide cells on breakpoints without a canvas layout', () => {
+    const sidebar = grid.cells.find((cell) => cell.component.id === 'sidebar')!
+
+    expect(sidebar.base).toEqual([['display', 'none']])
+    expect(sidebar.responsive[0].declarations).toEqual([
+      ['display', 'block'],
+      ['grid-area', '2 / 1 / 9 / 3'],
+    ])
+  })
+
+  it('should only emit changed declarations', () => {
+    const layout = generateResponsiveGridLayout(
+      githubStyleSchema.components,
+      githubStyleSchema.breakpoints
+    )
+
+    // canvasLayout fallback: 모든 breakpoint에서 같은 위치
+    layout.cells.forEach((cell) => {
+      expect(cell.responsive).toEqual([])
+    })
+  })
+})
+
+describe('exportToFiles canvas-grid layout', () => {
+  it('should compose a Tailwind grid page with min-width variants', () => {
+    const files = exportToFiles({
+      schema: multiBreakpointSchema,
+      options: { framework: 'react', cssSolution: 'tailwind', layoutMode: 'canvas-grid' },
+    })
+    const page = files.find((f) => f.path === 'app/page.tsx')!
+
+    expect(page.content).toContain(
+      '<div className="grid grid-cols-4 grid-rows-[repeat(8,auto)] gap-4 min-[768px]:grid-cols-8 min-[1024px]:grid-cols-12">'
+    )
+    expect(page.content).toContain(
+      '<div className="hidden min-[768px]:block min-[768px]:[grid-area:2/1/9/3] min-[1024px]:[grid-area:2/1/9/4]">\n        <Sidebar />'
+    )
+  })
+
+  it('should emit a grid stylesheet for CSS Modules', () => {
+    const files = exportToFiles({
+      schema: multiBreakpointSchema,
+      options: { framework: 'vue', cssSolution: 'css-modules', layoutMode: 'canvas-grid' },
+    })
+    const app = files.find((f) => f.path === 'App.vue')!
+    const css = files.find((f) => f.path === 'App.module.css')!
+
+    expect(app.content).toContain('<div :class="styles.sidebarCell">')
+    expect(css.content).toContain('.sidebarCell {\n  display: none;\n}')
+    expect(css.content).toContain(
+      '@media (min-width: 768px) {\n  .grid {\n    grid-template-columns: repeat(8, minmax(0, 1fr));\n  }'
+    )
+  })
+
+  it('should define styled grid cells for CSS-in-JS', () => {
+    const files = exportToFiles({
+      schema: multiBreakpointSchema,
+      options: { framework: 'react', cssSolution: 'styled-components', layoutMode: 'canvas-grid' },
+    })
+    const page = files.find((f) => f.path === 'app/page.tsx')!
+
+    expect(page.content).toContain('const Grid = styled.div`')
+    expect(page.content).toContain('const HeaderCell = styled.div`')
+    expect(page.content).toContain('<SidebarCell>\n        <Sidebar />\n      </SidebarCell>')
+  })
+
+  it('should keep the structure layout by default', () => {
+    const files = exportToFiles({
+      schema: multiBreakpointSchema,
+      options: { framework: 'react', cssSolution: 'tailwind' },
+    })
+    const page = files.find((f) => f.path === 'app/page.tsx')!
+
+    expect(page.content).not.toContain('grid-area')
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Canvas Reflow Tests
+ *
+ * Push-aside reflow: 겹치는 형제 밀어내기 (연쇄), 압축, 빈 자리 fallback, 중첩 컴포넌트, store 단일 undo
+ */
+
+import { describe, it, expect, beforeEach } from "vitest"
+import { moveWithReflow, reflowLayout, resizeWithReflow } from "../canvas-reflow"
+import { useLayoutStore } from "@/store/layout-store"
+import { createEmptyHistory } from "../history-utils"
+import { createCanvasComponent } from "./fixtures/test-schemas"
+
+const grid = { cols: 12, rows: 8 }
+
+// a b 나란히 (row 0), c 아래 (row 2), d 맨 아래 (row 6)
+const components = [
+  createCanvasComponent("a", { desktop: { x: 0, y: 0, width: 6, height: 2 } }),
+  createCanvasComponent("b", { desktop: { x: 6, y: 0, width: 6, height: 2 } }),
+  createCanvasComponent("c", { desktop: { x: 0, y: 2, width: 12, height: 2 } }),
+  createCanvasComponent("d", { desktop: { x: 0, y: 6, width: 12, height: 1 } }),
+]
+
+const layoutsOf = (updates: ReturnType<typeof reflowLayout>) =>
+  Object.fromEntries(
+    Object.entries(updates ?? {}).map(([id, update]) => [id, update.responsiveCanvasLayout?.desktop])
+  )
+
+describe("reflowLayout", () => {
+  it("should push colliding components down and cascade", () => {
+    // a를 c 자리로 → c가 a 아래로, 그 아래 d와 겹치지 않으므로 d는 그대로
+    const updates = moveWithReflow(components, "desktop", ["a"], 0, 2, grid)
+
+    expect(layoutsOf(updates)).toEqual({
+      a: { x: 0, y: 2, width: 6, height: 2 },
+      c: { x: 0, y: 4, width: 12, height: 2 },
+    })
+  })
+
+  it("should cascade pushes through the components below", () => {
+    const updates = moveWithReflow(components, "desktop", ["a"], 0, 3, grid)
+
+    expect(layoutsOf(updates)).toEqual({
+      a: { x: 0, y: 3, width: 6, height: 2 },
+      c: { x: 0, y: 5, width: 12, height: 2 },
+      d: { x: 0, y: 7, width: 12, height: 1 },
+    })
+  })
+
+  it("should compact the remaining components upward", () => {
+    // c를 1칸 내리면: 압축 없이는 d가 그대로, 압축하면 d가 c 바로 아래로 올라감
+    expect(layoutsOf(moveWithReflow(components, "desktop", ["c"], 0, 1, grid))).toEqual({
+      c: { x: 0, y: 3, width: 12, height: 2 },
+    })
+    expect(layoutsOf(moveWithReflow(components, "desktop", ["c"], 0, 1, grid, { compact: true }))).toEqual({
+      c: { x: 0, y: 3, width: 12, height: 2 },
+      d: { x: 0, y: 5, width: 12, height: 1 },
+    })
+  })
+
+  it("should place components pushed past the grid into a free slot", () => {
+    const crowded = [
+      createCanvasComponent("a", { desktop: { x: 0, y: 0, width: 6, height: 4 } }),
+      createCanvasComponent("b", { desktop: { x: 0, y: 4, width: 6, height: 4 } }),
+    ]
+
+    // a가 4칸 내려가면 b는 아래로 밀릴 곳이 없어 비워진 a 자리로
+    expect(layoutsOf(moveWithReflow(crowded, "desktop", ["a"], 0, 4, grid))).toEqual({
+      a: { x: 0, y: 4, width: 6, height: 4 },
+      b: { x: 0, y: 0, width: 6, height: 4 },
+    })
+
+    // a가 grid 높이만큼 커지면 b는 옆 빈 자리로
+    expect(layoutsOf(resizeWithReflow(crowded, "desktop", ["a"], 0, 4, grid)).b).toEqual({
+      x: 6,
+      y: 0,
+      width: 6,
+      height: 4,
+    })
+  })
+
+  it("should return null when there is no room left", () => {
+    const full = [
+      createCanvasComponent("a", { desktop: { x: 0, y: 0, width: 12, height: 4 } }),
+      createCanvasComponent("b", { desktop: { x: 0, y: 4, width: 12, height: 4 } }),
+    ]
+
+    expect(moveWithReflow(full, "desktop", ["a"], 0, 1, grid)).toBeNull()
+    expect(moveWithReflow(components, "desktop", ["a"], 7, 0, grid)).toBeNull()
+  })
+
+  it("should push aside when resizing", () => {
+    const updates = resizeWithReflow(components, "desktop", ["a"], 0, 1, grid)
+
+    expect(layoutsOf(updates)).toEqual({
+      a: { x: 0, y: 0, width: 6, height: 3 },
+      c: { x: 0, y: 3, width: 12, height: 2 },
+    })
+  })
+
+  it("should move descendants with pushed components and reflow only siblings", () => {
+    const nested = [
+      ...components.slice(0, 3),
+      createCanvasComponent("child", { desktop: { x: 1, y: 2, width: 2, height: 1 } }, { parentId: "c" }),
+      createCanvasComponent("other", { desktop: { x: 4, y: 2, width: 2, height: 1 } }, { parentId: "c" }),
+    ]
+
+    const updates = moveWithReflow(nested, "desktop", ["a"], 0, 2, grid)
+    expect(layoutsOf(updates).child).toEqual({ x: 1, y: 4, width: 2, height: 1 })
+
+    // 부모 안에서 자식끼리 reflow
+    const inner = moveWithReflow(nested, "desktop", ["child"], 3, 0, grid)
+    expect(layoutsOf(inner)).toEqual({
+      child: { x: 4, y: 2, width: 2, height: 1 },
+      other: { x: 4, y: 3, width: 2, height: 1 },
+    })
+  })
+
+  it("should refuse targets with different parents", () => {
+    const nested = [...components, createCanvasComponent(
+      "child",
+      { desktop: { x: 1, y: 2, width: 1, height: 1 } },
+      { parentId: "c" }
+    )]
+
+    expect(
+      reflowLayout(nested, "desktop", {
+        a: { x: 0, y: 0, width: 6, height: 2 },
+        child: { x: 2, y: 2, width: 1, height: 1 },
+      }, grid)
+    ).toBeNull()
+  })
+})
+
+describe("Layout Store reflow commit", () => {
+  beforeEach(() => {
+    useLayoutStore.setState({
+      schema: {
+        schemaVersion: "2.0",
+        components,
+        breakpoints: [{ name: "desktop", minWidth: 0, gridCols: 12, gridRows: 8 }],
+        layouts: {
+          desktop: { structure: "vertical", components: ["a", "b", "c", "d"] },
+        },
+      },
+      currentBreakpoint: "desktop",
+      selectedComponentId: null,
+      selectedComponentIds: [],
+      componentLinks: [],
+      history: createEmptyHistory(),
+    })
+  })
+
+  it("should commit the overlap-free result as a single undo step", () => {
+    const store = useLayoutStore.getState()
+    store.updateComponents(moveWithReflow(components, "desktop", ["a"], 0, 3, grid)!)
+
+    let state = useLayoutStore.getState()
+    expect(state.schema.components.map((c) => c.responsiveCanvasLayout?.desktop?.y)).toEqual([3, 0, 5, 7])
+    expect(state.history.past).toHaveLength(1)
+
+    store.undo()
+    state = useLayoutStore.getState()
+    expect(state.schema.components.map((c) => c.responsiveCanvasLayout?.desktop?.y)).toEqual([0, 0, 2, 6])
+  })
+})
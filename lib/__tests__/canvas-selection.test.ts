@@ -0,0 +1,279 @@
+/**
+ * Canvas Selection Tests
+ *
+ * Marquee 선택, 그룹 이동/리사이즈, 정렬/분배, batch 편집 공통 값, store 다중 선택 액션
+ */
+
+import { describe, it, expect, beforeEach } from "vitest"
+import {
+  alignSelection,
+  distributeSelection,
+  getMarqueeSelection,
+  getSelectionBounds,
+  getSharedValue,
+  moveSelection,
+  resizeSelection,
+  toMarqueeRect,
+} from "../canvas-selection"
+import { useLayoutStore } from "@/store/layout-store"
+import { createEmptyHistory } from "../history-utils"
+import { createCanvasComponent } from "./fixtures/test-schemas"
+import type { Component } from "@/types/schema"
+
+const grid = { cols: 12, rows: 8 }
+
+// c1 c2 나란히 (row 0), c3 아래 (row 2)
+const components = [
+  createCanvasComponent("c1", { desktop: { x: 0, y: 0, width: 3, height: 2 } }),
+  createCanvasComponent("c2", { desktop: { x: 3, y: 0, width: 3, height: 2 } }),
+  createCanvasComponent("c3", { desktop: { x: 0, y: 2, width: 6, height: 2 } }),
+]
+
+describe("getMarqueeSelection", () => {
+  it("should select components intersecting the marquee", () => {
+    const rect = toMarqueeRect({ x: 550, y: 150 }, { x: 250, y: 50 }, 100)
+
+    expect(rect).toEqual({ x: 2.5, y: 0.5, width: 3, height: 1 })
+    expect(getMarqueeSelection(components, "desktop", rect)).toEqual(["c1", "c2"])
+  })
+
+  it("should select nothing for an empty marquee (plain click)", () => {
+    const rect = toMarqueeRect({ x: 150, y: 150 }, { x: 150, y: 150 }, 100)
+
+    expect(getMarqueeSelection(components, "desktop", rect)).toEqual([])
+  })
+
+  it("should fall back to canvasLayout", () => {
+    const legacy: Component = {
+      ...components[0],
+      responsiveCanvasLayout: undefined,
+      canvasLayout: { x: 8, y: 6, width: 2, height: 2 },
+    }
+
+    expect(getMarqueeSelection([legacy], "desktop", { x: 9, y: 7, width: 1, height: 1 })).toEqual(["c1"])
+  })
+})
+
+describe("moveSelection", () => {
+  it("should move every selected component by the same grid delta", () => {
+    const updates = moveSelection(components, "desktop", ["c1", "c2"], 2, 4, grid)
+
+    expect(updates).toEqual({
+      c1: { responsiveCanvasLayout: { desktop: { x: 2, y: 4, width: 3, height: 2 } } },
+      c2: { responsiveCanvasLayout: { desktop: { x: 5, y: 4, width: 3, height: 2 } } },
+    })
+  })
+
+  it("should reject moves that leave the grid", () => {
+    expect(moveSelection(components, "desktop", ["c1", "c2"], 7, 0, grid)).toBeNull()
+    expect(moveSelection(components, "desktop", ["c1", "c2"], -1, 0, grid)).toBeNull()
+  })
+
+  it("should reject moves that collide with unselected components", () => {
+    expect(moveSelection(components, "desktop", ["c1", "c2"], 0, 1, grid)).toBeNull()
+  })
+
+  it("should allow moving into space vacated by the selection", () => {
+    expect(moveSelection(components, "desktop", ["c1", "c2", "c3"], 0, 1, grid)).not.toBeNull()
+  })
+
+  it("should update canvasLayout when there is no responsive layout", () => {
+    const legacy: Component = {
+      ...components[0],
+      responsiveCanvasLayout: undefined,
+      canvasLayout: { x: 0, y: 0, width: 3, height: 2 },
+    }
+
+    expect(moveSelection([legacy], "desktop", ["c1"], 1, 1, grid)).toEqual({
+      c1: { canvasLayout: { x: 1, y: 1, width: 3, height: 2 } },
+    })
+  })
+})
+
+describe("resizeSelection", () => {
+  it("should apply the size delta to every selected component", () => {
+    const updates = resizeSelection(components, "desktop", ["c2", "c3"], 1, 0, grid)
+
+    expect(updates?.c2).toEqual({ responsiveCanvasLayout: { desktop: { x: 3, y: 0, width: 4, height: 2 } } })
+    expect(updates?.c3).toEqual({ responsiveCanvasLayout: { desktop: { x: 0, y: 2, width: 7, height: 2 } } })
+  })
+
+  it("should reject resizes that overlap selected siblings or shrink below one cell", () => {
+    // c1이 커지면 c2와 겹침
+    expect(resizeSelection(components, "desktop", ["c1", "c2"], 1, 0, grid)).toBeNull()
+    expect(resizeSelection(components, "desktop", ["c1", "c2"], -3, 0, grid)).toBeNull()
+  })
+})
+
+describe("alignSelection", () => {
+  // 세로로 쌓인 카드: 너비가 다르고 x가 제각각
+  const cards = [
+    createCanvasComponent("a", { desktop: { x: 1, y: 0, width: 3, height: 1 } }),
+    createCanvasComponent("b", { desktop: { x: 4, y: 1, width: 2, height: 1 } }),
+    createCanvasComponent("c", { desktop: { x: 0, y: 2, width: 4, height: 1 } }),
+  ]
+  const ids = ["a", "b", "c"]
+  const xs = (updates: ReturnType<typeof alignSelection>) =>
+    ids.map((id) => updates?.[id]?.responsiveCanvasLayout?.desktop?.x)
+
+  it("should align edges to the selection bounding box", () => {
+    expect(xs(alignSelection(cards, "desktop", ids, "left", grid))).toEqual([0, 0, 0])
+    expect(xs(alignSelection(cards, "desktop", ids, "right", grid))).toEqual([3, 4, 2])
+  })
+
+  it("should center in whole grid cells", () => {
+    // bounds: x 0..6 → (6 - 3) / 2 = 1.5 → 1
+    expect(xs(alignSelection(cards, "desktop", ids, "center", grid))).toEqual([1, 2, 1])
+  })
+
+  it("should refuse alignments that create overlaps", () => {
+    // 같은 row의 c1, c2를 left 정렬하면 겹침
+    expect(alignSelection(components, "desktop", ["c1", "c2"], "left", grid)).toBeNull()
+    expect(alignSelection(components, "desktop", ["c1", "c2"], "top", grid)).not.toBeNull()
+  })
+
+  it("should need at least two components", () => {
+    expect(alignSelection(cards, "desktop", ["a"], "left", grid)).toBeNull()
+  })
+})
+
+describe("distributeSelection", () => {
+  const row = [
+    createCanvasComponent("a", { desktop: { x: 0, y: 0, width: 2, height: 1 } }),
+    createCanvasComponent("b", { desktop: { x: 3, y: 0, width: 2, height: 1 } }),
+    createCanvasComponent("c", { desktop: { x: 9, y: 0, width: 2, height: 1 } }),
+  ]
+
+  it("should space components evenly and keep the outer ones fixed", () => {
+    const updates = distributeSelection(row, "desktop", ["a", "b", "c"], "horizontal", grid)
+
+    expect(updates?.a?.responsiveCanvasLayout?.desktop?.x).toBe(0)
+    expect(updates?.b?.responsiveCanvasLayout?.desktop?.x).toBe(5)
+    expect(updates?.c?.responsiveCanvasLayout?.desktop?.x).toBe(9)
+  })
+
+  it("should distribute vertically", () => {
+    const column = row.map((component, index) =>
+      createCanvasComponent(component.id, { desktop: { x: 0, y: [0, 1, 6][index], width: 2, height: 1 } })
+    )
+    const updates = distributeSelection(column, "desktop", ["a", "b", "c"], "vertical", grid)
+
+    expect(updates?.b?.responsiveCanvasLayout?.desktop?.y).toBe(3)
+  })
+
+  it("should refuse when components already overlap along the axis", () => {
+    expect(distributeSelection(components, "desktop", ["c1", "c2", "c3"], "horizontal", grid)).toBeNull()
+    expect(distributeSelection(row, "desktop", ["a", "b"], "horizontal", grid)).toBeNull()
+  })
+})
+
+describe("getSelectionBounds / getSharedValue", () => {
+  it("should compute the selection bounding box", () => {
+    expect(getSelectionBounds(components, "desktop", ["c2", "c3"])).toEqual({ x: 0, y: 0, width: 6, height: 4 })
+    expect(getSelectionBounds(components, "desktop", [])).toBeNull()
+  })
+
+  it("should report shared and mixed values", () => {
+    const sticky = createCanvasComponent(
+      "c4",
+      { desktop: { x: 6, y: 0, width: 1, height: 1 } },
+      { positioning: { type: "sticky" } }
+    )
+
+    expect(getSharedValue(components, (c) => c.positioning.type)).toEqual({ value: "static", mixed: false })
+    expect(getSharedValue([...components, sticky], (c) => c.positioning.type)).toEqual({ value: undefined, mixed: true })
+  })
+})
+
+describe("Layout Store multi-selection", () => {
+  beforeEach(() => {
+    useLayoutStore.setState({
+      schema: {
+        schemaVersion: "2.0",
+        components,
+        breakpoints: [{ name: "desktop", minWidth: 0, gridCols: 12, gridRows: 8 }],
+        layouts: {
+          desktop: { structure: "vertical", components: ["c1", "c2", "c3"] },
+        },
+      },
+      currentBreakpoint: "desktop",
+      selectedComponentId: null,
+      selectedComponentIds: [],
+      componentLinks: [{ source: "c1", target: "c3" }],
+      history: createEmptyHistory(),
+    })
+  })
+
+  it("should toggle components with shift-click semantics", () => {
+    const store = useLayoutStore.getState()
+    store.setSelectedComponentId("c1")
+    store.toggleComponentSelection("c2")
+
+    let state = useLayoutStore.getState()
+    expect(state.selectedComponentIds).toEqual(["c1", "c2"])
+    expect(state.selectedComponentId).toBe("c2")
+
+    store.toggleComponentSelection("c2")
+    state = useLayoutStore.getState()
+    expect(state.selectedComponentIds).toEqual(["c1"])
+    expect(state.selectedComponentId).toBe("c1")
+  })
+
+  it("should replace the selection and keep the primary when still selected", () => {
+    const store = useLayoutStore.getState()
+    store.setSelectedComponentId("c2")
+    store.setSelectedComponentIds(["c1", "c2", "c2"])
+
+    const state = useLayoutStore.getState()
+    expect(state.selectedComponentIds).toEqual(["c1", "c2"])
+    expect(state.selectedComponentId).toBe("c2")
+
+    store.clearSelection()
+    expect(useLayoutStore.getState().selectedComponentIds).toEqual([])
+  })
+
+  it("should batch update components as a single undo step", () => {
+    const store = useLayoutStore.getState()
+    store.updateComponents(moveSelection(components, "desktop", ["c1", "c2"], 0, 4, grid)!)
+
+    let state = useLayoutStore.getState()
+    expect(state.schema.components[1].responsiveCanvasLayout?.desktop?.y).toBe(4)
+    expect(state.history.past).toHaveLength(1)
+
+    store.undo()
+    state = useLayoutStore.getState()
+    expect(state.schema.components.map((c) => c.responsiveCanvasLayout?.desktop?.y)).toEqual([0, 0, 2])
+  })
+
+  it("should delete the whole selection and its links", () => {
+    const store = useLayoutStore.getState()
+    store.setSelectedComponentIds(["c1", "c2"])
+    store.deleteComponents(["c1", "c2"])
+
+    let state = useLayoutStore.getState()
+    expect(state.schema.components.map((c) => c.id)).toEqual(["c3"])
+    expect(state.schema.layouts.desktop.components).toEqual(["c3"])
+    expect(state.componentLinks).toEqual([])
+    expect(state.selectedComponentIds).toEqual([])
+    expect(state.selectedComponentId).toBeNull()
+
+    // undo는 컴포넌트를 복원하지만 선택은 복원하지 않음
+    store.undo()
+    state = useLayoutStore.getState()
+    expect(state.schema.components).toHaveLength(3)
+    expect(state.selectedComponentIds).toEqual([])
+  })
+
+  it("should drop components missing after undo from the selection", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent(createCanvasComponent("new", { desktop: { x: 6, y: 0, width: 2, height: 2 } }))
+    const newId = useLayoutStore.getState().schema.components[3].id
+    store.setSelectedComponentIds(["c1", newId])
+
+    store.undo()
+
+    const state = useLayoutStore.getState()
+    expect(state.selectedComponentIds).toEqual(["c1"])
+    expect(state.selectedComponentId).toBe("c1")
+  })
+})
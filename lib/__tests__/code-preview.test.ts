@@ -0,0 +1,188 @@
+/**
+ * Code Preview Tests
+ *
+ * 응답 분리, import 해석, entry 선택, TSX transpile, layout utility CSS, iframe runtime 정적 렌더링
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import {
+  buildPreviewDocument,
+  findStaticPreviewHooks,
+  generateLayoutUtilityCss,
+  pickEntryModule,
+  resolveImport,
+  splitGeneratedResponse,
+  transpileGeneratedFiles,
+  type PreviewModule,
+} from "../code-preview"
+
+const response = [
+  "Here is the layout:",
+  "```tsx components/Header.tsx",
+  "export function Header({ title }: { title: string }) {",
+  "  return <header className=\"sticky top-0 col-span-full\">{title}</header>",
+  "}",
+  "```",
+  "```tsx app/page.tsx",
+  "import { useState } from \"react\"",
+  "import { Header } from \"@/components/Header\"",
+  "import Link from \"next/link\"",
+  "",
+  "export default function Page() {",
+  "  const [items] = useState<string[]>([\"a\", \"b\"])",
+  "  return (",
+  "    <div className=\"grid grid-cols-4 lg:grid-cols-12 grid-rows-[repeat(2,auto)] gap-4\">",
+  "      <Header title=\"Hello\" />",
+  "      {items.map((item) => <section key={item} onClick={() => {}} style={{ gridColumn: \"span 2\", minHeight: 40 }}>{item}</section>)}",
+  "      <Link href=\"/about\">About</Link>",
+  "    </div>",
+  "  )",
+  "}",
+  "```",
+  "```css",
+  ".custom { color: red; }",
+  "```",
+].join("\n")
+
+const createModule = (key: string, dependencies: Record<string, string> = {}): PreviewModule => ({
+  key,
+  path: `${key}.tsx`,
+  code: "",
+  dependencies,
+})
+
+describe("splitGeneratedResponse", () => {
+  it("should split script files and collect css blocks", () => {
+    const { files, css } = splitGeneratedResponse(response)
+
+    expect(files.map((f) => f.path)).toEqual(["components/Header.tsx", "app/page.tsx"])
+    expect(css).toBe(".custom { color: red; }")
+  })
+})
+
+describe("resolveImport", () => {
+  const keys = ["components/Header", "components/ui/index", "app/page"]
+
+  it("should resolve alias, relative and index imports", () => {
+    expect(resolveImport("@/components/Header", "app/page", keys)).toBe("components/Header")
+    expect(resolveImport("../components/Header", "app/page", keys)).toBe("components/Header")
+    expect(resolveImport("@/components/ui", "app/page", keys)).toBe("components/ui/index")
+  })
+
+  it("should fall back to a unique file name and leave packages to the shims", () => {
+    expect(resolveImport("@/src/widgets/Header", "app/page", keys)).toBe("components/Header")
+    expect(resolveImport("react", "app/page", keys)).toBeNull()
+    expect(resolveImport("./Missing", "app/page", keys)).toBeNull()
+  })
+})
+
+describe("pickEntryModule", () => {
+  it("should prefer a page, then a module nobody imports", () => {
+    expect(pickEntryModule([createModule("components/Header"), createModule("app/page")])).toBe("app/page")
+    expect(
+      pickEntryModule([
+        createModule("components/Header"),
+        createModule("app/layout"),
+        createModule("components/Shell", { "./Header": "components/Header" }),
+      ])
+    ).toBe("components/Shell")
+    expect(pickEntryModule([])).toBeNull()
+  })
+})
+
+describe("transpileGeneratedFiles", () => {
+  it("should transpile TSX to CommonJS with resolved dependencies", async () => {
+    const result = await transpileGeneratedFiles(splitGeneratedResponse(response).files)
+
+    expect(result.errors).toEqual([])
+    expect(result.entry).toBe("app/page")
+    const page = result.modules.find((m) => m.key === "app/page")!
+    expect(page.code).toContain("React.createElement")
+    expect(page.code).not.toContain("useState<string[]>")
+    expect(page.dependencies).toEqual({ "@/components/Header": "components/Header" })
+  })
+
+  it("should report syntax errors with the file path", async () => {
+    const result = await transpileGeneratedFiles([{ path: "Broken.tsx", content: "export const A = () => <div>" }])
+
+    expect(result.errors.length).toBeGreaterThan(0)
+    expect(result.errors[0]).toMatch(/^Broken\.tsx: /)
+  })
+})
+
+describe("generateLayoutUtilityCss", () => {
+  it("should generate layout utilities including arbitrary values and screens", () => {
+    const css = generateLayoutUtilityCss(
+      '<div className="grid grid-cols-4 lg:grid-cols-12 grid-rows-[repeat(2,auto)] col-span-2 gap-4 2xl:hidden bg-red-500">'
+    )
+
+    expect(css).toContain(".grid { display: grid }")
+    expect(css).toContain(".grid-cols-4 { grid-template-columns: repeat(4, minmax(0, 1fr)) }")
+    expect(css).toContain(".grid-rows-\\[repeat\\(2\\,auto\\)\\] { grid-template-rows: repeat(2,auto) }")
+    expect(css).toContain(".col-span-2 { grid-column: span 2 / span 2 }")
+    expect(css).toContain(".gap-4 { gap: 1rem }")
+    expect(css).toMatch(/@media \(min-width: 1024px\) \{\n {2}\.lg\\:grid-cols-12 \{/)
+    expect(css).toContain("\\32 xl\\:hidden { display: none }")
+    // 색상 등 layout 외 utility는 builder CSS에 맡김
+    expect(css).not.toContain("bg-red-500")
+  })
+})
+
+describe("findStaticPreviewHooks", () => {
+  it("should report state and effect hooks the static render ignores", () => {
+    const source = [
+      "const [open, setOpen] = React.useState<boolean>(false)",
+      "useEffect(() => setOpen(true), [])",
+      "const ref = useRef(null)",
+      "// useReducer is not called here",
+    ].join("\n")
+
+    expect(findStaticPreviewHooks(source)).toEqual(["useState", "useEffect"])
+    expect(findStaticPreviewHooks("const id = useId()")).toEqual([])
+  })
+})
+
+describe("preview runtime", () => {
+  afterEach(() => {
+    document.body.innerHTML = ""
+  })
+
+  // srcdoc의 body를 현재 document에 넣고 runtime script 실행
+  const runDocument = (html: string) => {
+    const body = html.match(/<body>([\s\S]*)<\/body>/)![1]
+    const script = body.match(/<script>([\s\S]*)<\/script>/)![1]
+    document.body.innerHTML = body.replace(/<script>[\s\S]*<\/script>/, "")
+    new Function(script)()
+  }
+
+  it("should render the entry component statically", async () => {
+    const result = await transpileGeneratedFiles(splitGeneratedResponse(response).files)
+    runDocument(buildPreviewDocument(result, ""))
+
+    const root = document.getElementById("root")!
+    expect(root.querySelector("header")?.className).toBe("sticky top-0 col-span-full")
+    expect(root.querySelector("header")?.textContent).toBe("Hello")
+    expect(root.querySelectorAll("section")).toHaveLength(2)
+    expect(root.querySelector("section")?.getAttribute("style")).toContain("min-height: 40px")
+    expect(root.querySelector("a")?.getAttribute("href")).toBe("/about")
+    expect(document.getElementById("preview-error")?.style.display).toBe("none")
+  })
+
+  it("should show runtime errors inside the frame", async () => {
+    const result = await transpileGeneratedFiles([
+      { path: "App.tsx", content: "export default function App() { throw new Error(\"boom\") }" },
+    ])
+    runDocument(buildPreviewDocument(result, ""))
+
+    expect(document.getElementById("preview-error")?.textContent).toBe("boom")
+  })
+
+  it("should not let module code close the script tag", async () => {
+    const result = await transpileGeneratedFiles([
+      { path: "App.tsx", content: "export default function App() { return <p>{\"</script><b>x</b>\"}</p> }" },
+    ])
+    const html = buildPreviewDocument(result, "")
+
+    expect(html.match(/<\/script>/g)).toHaveLength(2)
+  })
+})
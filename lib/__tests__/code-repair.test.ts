@@ -0,0 +1,182 @@
+/**
+ * Code Repair Tests
+ *
+ * Generate → Validate → Repair 루프: 후속 프롬프트 생성과 반복 점수 추적
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  buildRepairPrompt,
+  extractGeneratedCode,
+  getRepairStatus,
+  recordRepairIteration,
+  validateResponse,
+  type RepairIteration,
+} from "../code-repair"
+import { generateComponentClasses } from "../code-generator"
+import type { BPValidationResult } from "../prompt-bp-validator"
+import type { LaydlerSchema } from "@/types/schema"
+
+const testSchema: LaydlerSchema = {
+  schemaVersion: "2.0",
+  components: [
+    {
+      id: "c1",
+      name: "Header",
+      semanticTag: "header",
+      positioning: {
+        type: "fixed",
+        position: { top: 0, left: 0, right: 0, zIndex: 50 },
+      },
+      layout: {
+        type: "flex",
+        flex: { direction: "row", justify: "between", items: "center" },
+      },
+    },
+    {
+      id: "c2",
+      name: "Main",
+      semanticTag: "main",
+      positioning: { type: "static" },
+      layout: {
+        type: "container",
+        container: { maxWidth: "7xl", padding: "2rem", centered: true },
+      },
+    },
+  ],
+  breakpoints: [{ name: "mobile", minWidth: 0, gridCols: 6, gridRows: 24 }],
+  layouts: {
+    mobile: { structure: "vertical", components: ["c1", "c2"] },
+  },
+}
+
+const headerCode = (className: string) => `
+function Header({ children }: { children?: React.ReactNode }) {
+  return <header className="${className}">{children || "Header (c1)"}</header>
+}
+`
+
+const mainCode = `
+function Main({ children }: { children?: React.ReactNode }) {
+  return <main className="flex-1 container mx-auto max-w-7xl px-8">{children}</main>
+}
+`
+
+const asResponse = (...blocks: [string, string][]) =>
+  blocks.map(([path, code]) => "```tsx " + path + "\n" + code.trim() + "\n```").join("\n\n")
+
+const goodResponse = asResponse(
+  ["components/Header.tsx", headerCode(generateComponentClasses(testSchema.components[0]))],
+  ["components/Main.tsx", mainCode]
+)
+
+// Header가 <div>를 쓰고 positioning class가 없음
+const badResponse = asResponse(
+  ["components/Header.tsx", headerCode("flex").replace(/header/g, "div")],
+  ["components/Main.tsx", mainCode]
+)
+
+function resultWith(score: number, valid: boolean): BPValidationResult {
+  return {
+    valid,
+    score,
+    issues: [],
+    summary: { errors: valid ? 0 : 1, warnings: 0, infos: 0, totalChecks: 1, passedChecks: 0 },
+  }
+}
+
+describe("extractGeneratedCode", () => {
+  it("joins fenced file blocks and falls back to the raw response", () => {
+    const code = extractGeneratedCode(goodResponse)
+    expect(code).toContain("function Header")
+    expect(code).toContain("function Main")
+    expect(code).not.toContain("```")
+
+    expect(extractGeneratedCode(mainCode)).toBe(mainCode)
+  })
+})
+
+describe("buildRepairPrompt", () => {
+  it("returns null when there is nothing to fix", () => {
+    const result = validateResponse(goodResponse, testSchema)
+    expect(result.valid).toBe(true)
+    expect(buildRepairPrompt(result, testSchema)).toBeNull()
+  })
+
+  it("groups issues by component with the expected Tailwind classes", () => {
+    const result = validateResponse(badResponse, testSchema)
+    expect(result.valid).toBe(false)
+
+    const prompt = buildRepairPrompt(result, testSchema)!
+    expect(prompt).toContain(`scored ${result.score}/100`)
+    expect(prompt).toContain("### Header (c1) — `<header>`")
+    expect(prompt).toContain(generateComponentClasses(testSchema.components[0]))
+    expect(prompt).toContain("Use semantic tag: <header>")
+    // Main은 이슈가 없으므로 섹션 없음
+    expect(prompt).not.toContain("### Main (c2)")
+    expect(prompt).toContain("## Response Format")
+  })
+
+  it("lists errors before warnings and puts non-component issues under General", () => {
+    const result: BPValidationResult = {
+      valid: false,
+      score: 40,
+      issues: [
+        { severity: "info", category: "code-style", message: "Consider a comment" },
+        { severity: "warning", category: "layout-only", message: "Remove onClick handler" },
+        { severity: "error", category: "code-style", message: "React.FC is deprecated", suggestion: "Use function declarations" },
+      ],
+      summary: { errors: 1, warnings: 1, infos: 1, totalChecks: 3, passedChecks: 0 },
+    }
+
+    const prompt = buildRepairPrompt(result, testSchema)!
+    expect(prompt).toContain("## General Issues")
+    expect(prompt).not.toContain("## Component Issues")
+    expect(prompt).not.toContain("Consider a comment")
+    expect(prompt.indexOf("React.FC is deprecated")).toBeLessThan(prompt.indexOf("Remove onClick handler"))
+    expect(prompt).toContain("  - Fix: Use function declarations")
+
+    expect(buildRepairPrompt(result, testSchema, { includeInfo: true })).toContain("Consider a comment")
+  })
+})
+
+describe("repair iterations", () => {
+  it("records iterations and replaces the last one when the same response is re-validated", () => {
+    let history: RepairIteration[] = []
+    history = recordRepairIteration(history, validateResponse(badResponse, testSchema), badResponse)
+    history = recordRepairIteration(history, validateResponse(badResponse, testSchema), badResponse)
+    expect(history).toHaveLength(1)
+
+    history = recordRepairIteration(history, validateResponse(goodResponse, testSchema), goodResponse)
+    expect(history.map((i) => i.iteration)).toEqual([1, 2])
+
+    const status = getRepairStatus(history)
+    expect(status.passed).toBe(true)
+    expect(status.scoreDelta).toBeGreaterThan(0)
+    expect(status.bestScore).toBe(history[1].score)
+  })
+
+  it("reports an empty history", () => {
+    expect(getRepairStatus([])).toEqual({
+      passed: false,
+      latestScore: null,
+      bestScore: null,
+      scoreDelta: null,
+      stalled: false,
+    })
+  })
+
+  it("detects a stalled loop when the score stops improving", () => {
+    let history: RepairIteration[] = []
+    history = recordRepairIteration(history, resultWith(50, false), "a")
+    history = recordRepairIteration(history, resultWith(60, false), "b")
+    expect(getRepairStatus(history).stalled).toBe(false)
+
+    history = recordRepairIteration(history, resultWith(60, false), "c")
+    history = recordRepairIteration(history, resultWith(55, false), "d")
+    expect(getRepairStatus(history).stalled).toBe(true)
+
+    history = recordRepairIteration(history, resultWith(90, true), "e")
+    expect(getRepairStatus(history).stalled).toBe(false)
+  })
+})
@@ -0,0 +1,415 @@
+/**
+ * Component Tree Tests
+ *
+ * 부모/자식 중첩: tree helpers, 중첩 규칙, 계층 인식 그룹 변환, 검증, 코드 생성/export, prompt, store 액션
+ */
+
+import { describe, it, expect, beforeEach } from "vitest"
+import {
+  buildComponentTree,
+  canNestComponent,
+  findDropParent,
+  findNestingCycles,
+  findSlotInParent,
+  getAncestorIds,
+  getComponentsWithDescendants,
+  getDescendantIds,
+  getRootComponents,
+} from "../component-tree"
+import { moveSelection, resizeSelection } from "../canvas-selection"
+import { validateSchema } from "../schema-validation"
+import { generateComponentCode } from "../code-generator"
+import { exportToFiles } from "../file-exporter"
+import { generatePrompt } from "../prompt-generator"
+import { createClaudeSonnet45Strategy } from "../prompt-strategies"
+import { useLayoutStore } from "@/store/layout-store"
+import { createEmptyHistory } from "../history-utils"
+import { createCanvasComponent } from "./fixtures/test-schemas"
+import type { Component, LaydlerSchema } from "@/types/schema"
+
+const grid = { cols: 12, rows: 8 }
+
+// header(row 0) > nav, main(row 1-5) > section > article, footer(row 7)
+const components = [
+  createCanvasComponent(
+    "c1",
+    { desktop: { x: 0, y: 0, width: 12, height: 1 } },
+    { name: "Header", semanticTag: "header" }
+  ),
+  createCanvasComponent(
+    "c2",
+    { desktop: { x: 8, y: 0, width: 4, height: 1 } },
+    { name: "Nav", semanticTag: "nav", parentId: "c1" }
+  ),
+  createCanvasComponent("c3", { desktop: { x: 0, y: 1, width: 12, height: 5 } }, { name: "Main", semanticTag: "main" }),
+  createCanvasComponent(
+    "c4",
+    { desktop: { x: 1, y: 2, width: 6, height: 3 } },
+    { name: "Cards", semanticTag: "section", parentId: "c3" }
+  ),
+  createCanvasComponent(
+    "c5",
+    { desktop: { x: 2, y: 3, width: 2, height: 1 } },
+    { name: "Card", semanticTag: "article", parentId: "c4" }
+  ),
+  createCanvasComponent(
+    "c6",
+    { desktop: { x: 0, y: 7, width: 12, height: 1 } },
+    { name: "Footer", semanticTag: "footer" }
+  ),
+]
+
+const createSchema = (schemaComponents: Component[] = components): LaydlerSchema => ({
+  schemaVersion: "2.0",
+  components: schemaComponents,
+  breakpoints: [{ name: "desktop", minWidth: 0, gridCols: 12, gridRows: 8 }],
+  layouts: {
+    desktop: {
+      structure: "vertical",
+      components: getRootComponents(schemaComponents).map((c) => c.id),
+    },
+  },
+})
+
+describe("tree helpers", () => {
+  it("should derive roots, ancestors and descendants from parentId", () => {
+    expect(getRootComponents(components).map((c) => c.id)).toEqual(["c1", "c3", "c6"])
+    expect(getAncestorIds(components, "c5")).toEqual(["c4", "c3"])
+    expect(getDescendantIds(components, "c3")).toEqual(["c4", "c5"])
+  })
+
+  it("should build a nested tree in schema order", () => {
+    const tree = buildComponentTree(components)
+
+    expect(tree.map((node) => node.component.id)).toEqual(["c1", "c3", "c6"])
+    expect(tree[1].children[0].component.id).toBe("c4")
+    expect(tree[1].children[0].children[0].component.id).toBe("c5")
+  })
+
+  it("should list layout roots with their descendants, parents first", () => {
+    // 자식이 부모보다 앞에 있어도 부모 먼저
+    const reordered = [components[4], ...components.slice(0, 4), components[5]]
+
+    expect(getComponentsWithDescendants(reordered, ["c3", "c1"]).map((c) => c.id)).toEqual([
+      "c3",
+      "c4",
+      "c5",
+      "c1",
+      "c2",
+    ])
+  })
+
+  it("should keep cyclic components reachable and detect the cycle", () => {
+    const cyclic = [
+      createCanvasComponent(
+        "a",
+        { desktop: { x: 0, y: 0, width: 1, height: 1 } },
+        { name: "A", semanticTag: "div", parentId: "b" }
+      ),
+      createCanvasComponent(
+        "b",
+        { desktop: { x: 0, y: 0, width: 1, height: 1 } },
+        { name: "B", semanticTag: "div", parentId: "a" }
+      ),
+      createCanvasComponent(
+        "s",
+        { desktop: { x: 1, y: 0, width: 1, height: 1 } },
+        { name: "Self", semanticTag: "div", parentId: "s" }
+      ),
+    ]
+
+    expect(findNestingCycles(cyclic)).toEqual(["a", "b", "s"])
+    expect(buildComponentTree(cyclic).map((node) => node.component.id)).toEqual(["a", "s"])
+    expect(getAncestorIds(cyclic, "a")).toEqual(["b"])
+  })
+})
+
+describe("canNestComponent", () => {
+  it("should reject cycles", () => {
+    expect(canNestComponent(components, components[2], "c5")).toBe(false)
+    expect(canNestComponent(components, components[2], "c3")).toBe(false)
+  })
+
+  it("should enforce HTML containment rules", () => {
+    const newMain = { id: "", semanticTag: "main" as const }
+    const newHeader = { id: "", semanticTag: "header" as const }
+
+    expect(canNestComponent(components, newMain, "c1")).toBe(false) // main in header
+    expect(canNestComponent(components, newHeader, "c5")).toBe(true) // header in article
+    expect(canNestComponent(components, newHeader, "c6")).toBe(false) // header in footer
+    expect(canNestComponent(components, { id: "", semanticTag: "div" }, "c2")).toBe(true)
+  })
+
+  it("should check the moved component's descendants against the new ancestors", () => {
+    const wrapper = createCanvasComponent(
+      "w",
+      { desktop: { x: 0, y: 0, width: 4, height: 4 } },
+      { name: "Wrapper", semanticTag: "section" }
+    )
+    const inner = createCanvasComponent(
+      "i",
+      { desktop: { x: 0, y: 0, width: 2, height: 2 } },
+      { name: "Inner", semanticTag: "header", parentId: "w" }
+    )
+
+    // section 자체는 header에 들어갈 수 있지만 안의 header는 불가
+    expect(canNestComponent([...components, wrapper, inner], wrapper, "c1")).toBe(false)
+    expect(canNestComponent([...components, wrapper, inner], wrapper, "c4")).toBe(true)
+  })
+})
+
+describe("canvas drop targets", () => {
+  it("should pick the deepest component fully containing the rect", () => {
+    const rect = { x: 5, y: 3, width: 1, height: 1 }
+
+    expect(findDropParent(components, "desktop", rect, { id: "", semanticTag: "div" })).toBe("c4")
+    expect(
+      findDropParent(components, "desktop", { x: 0, y: 6, width: 1, height: 1 }, { id: "", semanticTag: "div" })
+    ).toBeNull()
+  })
+
+  it("should skip itself, its descendants and forbidden parents", () => {
+    const cards = components[3]
+
+    expect(findDropParent(components, "desktop", { x: 1, y: 2, width: 6, height: 3 }, cards)).toBe("c3")
+    expect(
+      findDropParent(components, "desktop", { x: 2, y: 3, width: 1, height: 1 }, { id: "", semanticTag: "main" })
+    ).toBeNull()
+  })
+
+  it("should find a free slot inside the parent, shrinking to fit", () => {
+    expect(findSlotInParent(components, "desktop", "c4", 2, 1)).toEqual({ x: 1, y: 2, width: 2, height: 1 })
+    expect(findSlotInParent(components, "desktop", "c2", 6, 1)).toEqual({ x: 8, y: 0, width: 4, height: 1 })
+    expect(findSlotInParent(components, "desktop", "c5", 1, 1)).toEqual({ x: 2, y: 3, width: 1, height: 1 })
+  })
+})
+
+describe("hierarchy-aware group transforms", () => {
+  const desktop = (updates: ReturnType<typeof moveSelection>, id: string) =>
+    updates?.[id]?.responsiveCanvasLayout?.desktop
+
+  it("should move descendants together with their parent", () => {
+    const updates = moveSelection(components, "desktop", ["c4"], 4, 1, grid)
+
+    expect(desktop(updates, "c4")).toEqual({ x: 5, y: 3, width: 6, height: 3 })
+    expect(desktop(updates, "c5")).toEqual({ x: 6, y: 4, width: 2, height: 1 })
+  })
+
+  it("should only check collisions among siblings", () => {
+    // nav는 header와 겹치지만 형제가 아니므로 이동 가능
+    expect(moveSelection(components, "desktop", ["c2"], -2, 0, grid)).not.toBeNull()
+  })
+
+  it("should keep children inside their parent", () => {
+    expect(moveSelection(components, "desktop", ["c5"], 3, 0, grid)).not.toBeNull()
+    expect(moveSelection(components, "desktop", ["c5"], 4, 0, grid)).toBeNull()
+    // 부모를 줄이면 자식이 밖으로 나감
+    expect(resizeSelection(components, "desktop", ["c4"], -4, 0, grid)).toBeNull()
+    expect(resizeSelection(components, "desktop", ["c4"], -3, 0, grid)).not.toBeNull()
+  })
+})
+
+describe("validateSchema hierarchy checks", () => {
+  const codes = (schema: LaydlerSchema) => {
+    const result = validateSchema(schema)
+    return {
+      errors: result.errors.map((e) => e.code),
+      warnings: result.warnings.map((w) => w.code),
+    }
+  }
+
+  it("should accept a valid nested schema", () => {
+    const result = codes(createSchema())
+
+    expect(result.errors).toEqual([])
+    expect(result.warnings).not.toContain("CANVAS_COMPONENT_NOT_IN_LAYOUT")
+    expect(result.warnings).not.toContain("CHILD_OUTSIDE_PARENT")
+  })
+
+  it("should report missing parents, cycles and invalid nesting", () => {
+    const broken = [
+      ...components,
+      createCanvasComponent(
+        "c7",
+        { desktop: { x: 0, y: 6, width: 1, height: 1 } },
+        { name: "Orphan", semanticTag: "div", parentId: "missing" }
+      ),
+      createCanvasComponent(
+        "c8",
+        { desktop: { x: 1, y: 6, width: 1, height: 1 } },
+        { name: "Loop", semanticTag: "div", parentId: "c8" }
+      ),
+      createCanvasComponent(
+        "c9",
+        { desktop: { x: 0, y: 0, width: 2, height: 1 } },
+        { name: "InnerMain", semanticTag: "main", parentId: "c1" }
+      ),
+    ]
+
+    expect(codes(createSchema(broken)).errors).toEqual([
+      "PARENT_NOT_FOUND",
+      "NESTING_CYCLE",
+      "INVALID_NESTING",
+    ])
+  })
+
+  it("should warn about children outside their parent and nested ids in layouts", () => {
+    const outside = components.map((c) =>
+      c.id === "c5" ? { ...c, responsiveCanvasLayout: { desktop: { x: 6, y: 3, width: 2, height: 1 } } } : c
+    )
+    const schema = createSchema(outside)
+    schema.layouts.desktop.components.push("c2")
+
+    const { warnings } = codes(schema)
+    expect(warnings).toContain("CHILD_OUTSIDE_PARENT")
+    expect(warnings).toContain("NESTED_COMPONENT_IN_LAYOUT")
+  })
+})
+
+describe("nested code generation", () => {
+  const header = components[0]
+  const nav = components[1]
+
+  it("should import and render children for React and Solid", () => {
+    const react = generateComponentCode(header, "react", "tailwind", undefined, [nav])
+
+    expect(react).toContain(`import { Nav } from "./Nav"`)
+    expect(react).toMatch(/<Nav \/>\n\s+\{children\}/)
+
+    const solid = generateComponentCode(header, "solid", "tailwind", undefined, [nav])
+    expect(solid).toContain(`import { Nav } from "./Nav"`)
+    expect(solid).toMatch(/<Nav \/>\n\s+\{props\.children\}/)
+  })
+
+  it("should import SFC children for Vue and Svelte", () => {
+    const vue = generateComponentCode(header, "vue", "tailwind", undefined, [nav])
+    expect(vue).toContain(`import Nav from "./Nav.vue"`)
+    expect(vue).toMatch(/<Nav \/>\n\s+<slot \/>/)
+
+    const svelte = generateComponentCode(header, "svelte", "tailwind", undefined, [nav])
+    expect(svelte).toContain(`  import Nav from "./Nav.svelte"`)
+    expect(svelte).toMatch(/<Nav \/>\n\s+\{@render children\?\.\(\)\}/)
+  })
+
+  it("should render children with CSS-in-JS output", () => {
+    const styled = generateComponentCode(header, "react", "styled-components", undefined, [nav])
+
+    expect(styled).toContain(`import { Nav } from "./Nav"`)
+    expect(styled).toContain("<Nav />")
+  })
+
+  it("should leave components without children unchanged", () => {
+    expect(generateComponentCode(header, "react", "tailwind", undefined, [])).toBe(
+      generateComponentCode(header, "react", "tailwind")
+    )
+  })
+
+  it("should export nested components through their parent only", () => {
+    const files = exportToFiles({
+      schema: createSchema(),
+      options: { framework: "react", cssSolution: "tailwind" },
+    })
+    const page = files.find((f) => f.path === "app/page.tsx")?.content ?? ""
+    const headerFile = files.find((f) => f.path === "components/Header.tsx")?.content ?? ""
+
+    expect(files.some((f) => f.path === "components/Card.tsx")).toBe(true)
+    expect(headerFile).toContain("<Nav />")
+    expect(page).toContain("<Header />")
+    expect(page).not.toContain("Nav")
+    expect(page).not.toContain("Card")
+  })
+})
+
+describe("nested prompts", () => {
+  it("should describe parents and children in template prompts", () => {
+    const result = generatePrompt(createSchema(), "react", "tailwind")
+
+    expect(result.success).toBe(true)
+    expect(result.prompt).toContain("- **Parent:** `Main` (c3)")
+    expect(result.prompt).toContain("- **Children:** `Card` (c5)")
+  })
+
+  it("should describe nesting in strategy component sections", () => {
+    const section = createClaudeSonnet45Strategy().generateComponentSection(components)
+
+    expect(section).toContain("- **Parent:** `Header` (c1)")
+    expect(section).toContain("- **Children:** `Cards`")
+  })
+})
+
+describe("Layout Store nesting", () => {
+  beforeEach(() => {
+    useLayoutStore.setState({
+      schema: createSchema(),
+      currentBreakpoint: "desktop",
+      selectedComponentId: null,
+      selectedComponentIds: [],
+      componentLinks: [{ source: "c5", target: "c6" }],
+      history: createEmptyHistory(),
+    })
+  })
+
+  it("should delete a component together with its subtree", () => {
+    useLayoutStore.getState().deleteComponent("c3")
+
+    const state = useLayoutStore.getState()
+    expect(state.schema.components.map((c) => c.id)).toEqual(["c1", "c2", "c6"])
+    expect(state.schema.layouts.desktop.components).toEqual(["c1", "c6"])
+    expect(state.componentLinks).toEqual([])
+  })
+
+  it("should keep nested components out of the page layout when adding or duplicating", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent({ ...components[4], parentId: "c4" })
+    store.duplicateComponent("c2")
+
+    const state = useLayoutStore.getState()
+    expect(state.schema.components).toHaveLength(8)
+    expect(state.schema.components[7].parentId).toBe("c1")
+    expect(state.schema.layouts.desktop.components).toEqual(["c1", "c3", "c6"])
+  })
+
+  it("should reparent with position updates as a single undo step", () => {
+    const store = useLayoutStore.getState()
+    const updates = moveSelection(
+      components.map((c) => (c.id === "c6" ? { ...c, parentId: "c3" } : c)),
+      "desktop",
+      ["c6"],
+      0,
+      -2,
+      grid
+    )
+    expect(updates).not.toBeNull()
+
+    store.setComponentParent("c6", "c3", updates!)
+
+    let state = useLayoutStore.getState()
+    expect(state.schema.components[5].parentId).toBe("c3")
+    expect(state.schema.components[5].responsiveCanvasLayout?.desktop?.y).toBe(5)
+    expect(state.schema.layouts.desktop.components).toEqual(["c1", "c3"])
+    expect(state.history.past).toHaveLength(1)
+
+    store.undo()
+    state = useLayoutStore.getState()
+    expect(state.schema.components[5].parentId).toBeUndefined()
+    expect(state.schema.layouts.desktop.components).toEqual(["c1", "c3", "c6"])
+  })
+
+  it("should move un-nested components into the layouts of their former root", () => {
+    useLayoutStore.getState().setComponentParent("c5", null)
+
+    const state = useLayoutStore.getState()
+    expect(state.schema.components[4]).not.toHaveProperty("parentId")
+    expect(state.schema.layouts.desktop.components).toEqual(["c1", "c3", "c6", "c5"])
+  })
+
+  it("should refuse invalid parents", () => {
+    const store = useLayoutStore.getState()
+    store.setComponentParent("c3", "c5") // cycle
+    store.setComponentParent("c3", "c1") // main inside header
+
+    const state = useLayoutStore.getState()
+    expect(state.schema.components[2].parentId).toBeUndefined()
+    expect(state.history.past).toHaveLength(0)
+  })
+})
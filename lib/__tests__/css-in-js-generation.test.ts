@@ -0,0 +1,180 @@
+/**
+ * styled-components / Emotion Output Tests
+ *
+ * formatStyledCSS, generateComponentCode(CSS-in-JS), exportToFiles layout, prompt templates, prompt strategies
+ */
+
+import { describe, it, expect } from 'vitest'
+import { formatStyledCSS } from '../css-generator'
+import { generateComponentCode } from '../code-generator'
+import { exportToFiles } from '../file-exporter'
+import { getTemplate } from '../prompt-templates'
+import { generatePrompt } from '../prompt-generator'
+import { createPromptStrategy } from '../prompt-strategies/strategy-factory'
+import { createEmptySchema } from '../schema-utils'
+import { githubStyleSchema, simpleVerticalSchema } from './fixtures/test-schemas'
+import type { Component } from '@/types/schema'
+import type { AIModelId } from '@/types/ai-models'
+
+const breakpoints = createEmptySchema().breakpoints
+
+const nav: Component = {
+  id: 'c2',
+  name: 'Sidebar',
+  semanticTag: 'nav',
+  positioning: { type: 'sticky', position: { top: 0, zIndex: 40 } },
+  layout: { type: 'flex', flex: { direction: 'column' } },
+  styling: { className: 'shrink-0' },
+  responsive: {
+    mobile: { hidden: true },
+    tablet: { width: '12rem' },
+    desktop: { hidden: false },
+  },
+}
+
+const main: Component = {
+  id: 'c3',
+  name: 'Main',
+  semanticTag: 'main',
+  positioning: { type: 'static' },
+  layout: { type: 'container', container: { maxWidth: '7xl', padding: '2rem' } },
+}
+
+describe('formatStyledCSS', () => {
+  it('should format declarations with nested media queries', () => {
+    const css = formatStyledCSS(
+      [['display', 'flex']],
+      [
+        { breakpoint: 'mobile', minWidth: 0, declarations: [['order', '2']] },
+        { breakpoint: 'desktop', minWidth: 1024, declarations: [['order', '1']] },
+      ]
+    )
+
+    expect(css).toBe(
+      '  display: flex;\n  order: 2;\n\n  @media (min-width: 1024px) {\n    order: 1;\n  }'
+    )
+  })
+})
+
+describe('CSS-in-JS code generation', () => {
+  it('should define a styled root with breakpoint media queries', () => {
+    const code = generateComponentCode(nav, 'react', 'styled-components', breakpoints)
+
+    expect(code).toContain('import styled from "styled-components"')
+    expect(code).toContain('const Root = styled.nav`')
+    expect(code).toContain('  @media (min-width: 768px) {\n    width: 12rem;\n  }')
+    expect(code).toContain('  @media (min-width: 1024px) {\n    display: flex;\n  }')
+    expect(code).toContain('<Root className="shrink-0">')
+  })
+
+  it('should import styled from @emotion/styled for emotion', () => {
+    const code = generateComponentCode(nav, 'react', 'emotion', breakpoints)
+
+    expect(code).toContain('import styled from "@emotion/styled"')
+    expect(code).not.toContain('"styled-components"')
+  })
+
+  it('should use a styled Container and plain root tag when root has no styles', () => {
+    const code = generateComponentCode(main, 'react', 'emotion', breakpoints)
+
+    expect(code).not.toContain('const Root')
+    expect(code).toContain('const Container = styled.div`')
+    expect(code).toContain('<main>\n      <Container>')
+  })
+
+  it('should reject non-React frameworks', () => {
+    expect(() => generateComponentCode(nav, 'vue', 'styled-components')).toThrow(
+      'styled-components output is only supported for React'
+    )
+  })
+})
+
+describe('CSS-in-JS export', () => {
+  it('should emit components without stylesheets and a styled layout', () => {
+    const files = exportToFiles({
+      schema: simpleVerticalSchema,
+      options: { framework: 'react', cssSolution: 'styled-components' },
+    })
+    const page = files.find((f) => f.path === 'app/page.tsx')!
+
+    expect(files.some((f) => f.path.endsWith('.css'))).toBe(false)
+    expect(page.content.startsWith('"use client"')).toBe(true)
+    expect(page.content).toContain('const Stack = styled.div`')
+    expect(page.content).toContain('<Stack>')
+    expect(page.content).not.toContain('min-h-screen')
+  })
+
+  it('should only define wrappers the layout uses', () => {
+    const files = exportToFiles({
+      schema: githubStyleSchema,
+      options: { framework: 'react', cssSolution: 'emotion' },
+    })
+    const page = files.find((f) => f.path === 'app/page.tsx')!
+
+    expect(page.content).toContain('const Row = styled.div`')
+    expect(page.content).not.toContain('const Stack')
+  })
+
+  it('should reject non-React frameworks', () => {
+    expect(() =>
+      exportToFiles({
+        schema: githubStyleSchema,
+        options: { framework: 'solid', cssSolution: 'emotion' },
+      })
+    ).toThrow('emotion output is only supported for React')
+  })
+})
+
+describe('CSS-in-JS prompt templates', () => {
+  it.each([
+    ['styled-components', "import styled from 'styled-components'"],
+    ['emotion', "import styled from '@emotion/styled'"],
+  ])('should register react + %s', (cssSolution, importLine) => {
+    const template = getTemplate('react', cssSolution)
+
+    expect(template?.cssSolution).toBe(cssSolution)
+    expect(template?.systemPrompt).toContain(importLine)
+  })
+
+  it('should omit Tailwind classes from the layout section', () => {
+    const result = generatePrompt(githubStyleSchema, 'react', 'emotion')
+
+    expect(result.success).toBe(true)
+    expect(result.prompt).toContain('@media (min-width: 1024px)')
+    expect(result.prompt).not.toContain('Or with Tailwind CSS')
+  })
+})
+
+describe('CSS-in-JS prompt strategies', () => {
+  const models: AIModelId[] = ['claude-sonnet-4.5', 'gpt-4.1', 'gemini-2.5-pro', 'deepseek-v3', 'grok-3']
+
+  it.each(models)('should give %s styled element guidance instead of Tailwind classes', (modelId) => {
+    const result = createPromptStrategy(modelId).generatePrompt(githubStyleSchema, 'react', 'styled-components', {
+      targetModel: modelId,
+      verbosity: 'detailed',
+      chainOfThought: true,
+    })
+    const prompt = result.sections!
+      .filter((s) => s.title !== 'Full Schema')
+      .map((s) => s.content)
+      .join('\n')
+
+    expect(result.success).toBe(true)
+    expect(prompt).toContain('styled-components')
+    expect(prompt).toContain('@media (min-width:')
+    expect(prompt).not.toContain('Or with Tailwind CSS')
+    expect(prompt).not.toMatch(/\b(md|lg):/)
+    expect(prompt).not.toMatch(/className=|module\.css/)
+  })
+
+  it.each([
+    ['styled-components', "import styled from 'styled-components'"],
+    ['emotion', "import styled from '@emotion/styled'"],
+  ])('should render the %s example with a styled Root element', (cssSolution, importLine) => {
+    const result = createPromptStrategy('gpt-4.1').generatePrompt(githubStyleSchema, 'react', cssSolution)
+
+    expect(result.prompt).toContain(importLine)
+    expect(result.prompt).toContain('const Root = styled.header`')
+    expect(result.prompt).toContain('    <Root>\n')
+  })
+})
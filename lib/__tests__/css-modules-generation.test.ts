@@ -0,0 +1,208 @@
+/**
+ * CSS Modules Output Tests
+ *
+ * css-generator declarations, generateComponentCode(css-modules), exportToFiles paired stylesheets, prompt template, prompt strategies
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  toCSSLength,
+  generateLayoutDeclarations,
+  generateStylingDeclarations,
+  generateCSSModule,
+  toCSSColor,
+} from '../css-generator'
+import { generateComponentCode } from '../code-generator'
+import { exportToFiles } from '../file-exporter'
+import { getTemplate } from '../prompt-templates'
+import { generatePrompt } from '../prompt-generator'
+import { createPromptStrategy } from '../prompt-strategies/strategy-factory'
+import { createEmptySchema } from '../schema-utils'
+import { githubStyleSchema } from './fixtures/test-schemas'
+import type { Component } from '@/types/schema'
+import type { AIModelId } from '@/types/ai-models'
+
+const breakpoints = createEmptySchema().breakpoints
+
+const nav: Component = {
+  id: 'c2',
+  name: 'Sidebar',
+  semanticTag: 'nav',
+  positioning: { type: 'sticky', position: { top: 0, zIndex: 40 } },
+  layout: { type: 'flex', flex: { direction: 'column', gap: 4 } },
+  styling: { width: '16rem', border: 'r' },
+  responsive: {
+    mobile: { hidden: true },
+    desktop: { hidden: false },
+  },
+}
+
+const main: Component = {
+  id: 'c3',
+  name: 'Main',
+  semanticTag: 'main',
+  positioning: { type: 'static' },
+  layout: { type: 'container', container: { maxWidth: '7xl', padding: '2rem' } },
+}
+
+describe('css-generator', () => {
+  it('should convert Tailwind spacing numbers to rem', () => {
+    expect(toCSSLength(4)).toBe('1rem')
+    expect(toCSSLength(0)).toBe('0')
+    expect(toCSSLength('2rem')).toBe('2rem')
+  })
+
+  it('should convert flex and grid layouts to declarations', () => {
+    expect(generateLayoutDeclarations(nav.layout)).toEqual([
+      ['display', 'flex'],
+      ['flex-direction', 'column'],
+      ['gap', '1rem'],
+    ])
+    expect(generateLayoutDeclarations({ type: 'grid', grid: { cols: 3 } })).toContainEqual([
+      'grid-template-columns',
+      'repeat(3, minmax(0, 1fr))',
+    ])
+  })
+
+  it('should render side borders as real CSS', () => {
+    expect(generateStylingDeclarations({ border: 'r' })).toContainEqual([
+      'border-right',
+      '1px solid #d1d5db',
+    ])
+  })
+
+  it('should map Tailwind palette backgrounds to real colors', () => {
+    expect(generateStylingDeclarations({ background: 'gray-50' })).toEqual([['background', '#f9fafb']])
+    expect(generateStylingDeclarations({ background: 'bg-slate-900' })).toEqual([['background', '#0f172a']])
+    expect(toCSSColor('white')).toBe('white')
+    expect(toCSSColor('#fff')).toBe('#fff')
+  })
+
+  it('should skip backgrounds that are not CSS or palette colors', () => {
+    expect(toCSSColor('brand-500')).toBeNull()
+    expect(toCSSColor('gray-150')).toBeNull()
+    expect(generateStylingDeclarations({ background: 'brand-500', border: 'b' })).toEqual([
+      ['border-bottom', '1px solid #d1d5db'],
+    ])
+  })
+
+  it('should derive media queries from Breakpoint.minWidth', () => {
+    const css = generateCSSModule(nav, breakpoints)
+
+    expect(css).toContain('.root {\n  position: sticky;\n  top: 0;\n  z-index: 40;')
+    expect(css).toContain('@media (min-width: 1024px) {\n  .root {\n    display: flex;\n  }\n}')
+    expect(css).not.toContain('@media (min-width: 0px)')
+  })
+
+  it('should merge minWidth 0 overrides into the base .root rule', () => {
+    const css = generateCSSModule(nav, breakpoints)
+    const root = css.slice(0, css.indexOf('}'))
+
+    expect(root).toContain('display: none;')
+  })
+
+  it('should emit a .container rule for container layouts', () => {
+    const css = generateCSSModule(main, breakpoints)
+
+    expect(css).toContain('.container {')
+    expect(css).toContain('margin-inline: auto;')
+    expect(css).toContain('padding-inline: 2rem;')
+    expect(css).not.toMatch(/\b(mx-auto|max-w-7xl)\b/)
+  })
+})
+
+describe('CSS Modules code generation', () => {
+  it('should import styles and bind styles.root in React', () => {
+    const code = generateComponentCode(nav, 'react', 'css-modules', breakpoints)
+
+    expect(code).toContain('import styles from "./Sidebar.module.css"')
+    expect(code).toContain('<nav className={styles.root}>')
+  })
+
+  it('should bind styles.container for container layouts', () => {
+    const code = generateComponentCode(main, 'react', 'css-modules', breakpoints)
+
+    expect(code).toContain('<div className={styles.container}>')
+    expect(code).not.toContain('max-w-7xl')
+  })
+
+  it('should support Vue, Svelte and Solid templates', () => {
+    expect(generateComponentCode(nav, 'vue', 'css-modules', breakpoints)).toContain(':class="styles.root"')
+    expect(generateComponentCode(nav, 'svelte', 'css-modules', breakpoints)).toContain('class={styles.root}')
+    expect(generateComponentCode(nav, 'solid', 'css-modules', breakpoints)).toContain('class={styles.root}')
+  })
+})
+
+describe('CSS Modules export', () => {
+  it('should emit a paired .module.css per component', () => {
+    const files = exportToFiles({
+      schema: githubStyleSchema,
+      options: { framework: 'react', cssSolution: 'css-modules' },
+    })
+    const paths = files.map((f) => f.path)
+
+    githubStyleSchema.components.forEach((component) => {
+      expect(paths).toContain(`components/${component.name}.tsx`)
+      expect(paths).toContain(`components/${component.name}.module.css`)
+    })
+    expect(paths).toContain('app/page.module.css')
+  })
+
+  it('should not use Tailwind classes in the layout file', () => {
+    const files = exportToFiles({
+      schema: githubStyleSchema,
+      options: { framework: 'vue', cssSolution: 'css-modules' },
+    })
+    const app = files.find((f) => f.path === 'App.vue')!
+
+    expect(files.map((f) => f.path)).toContain('App.module.css')
+    expect(app.content).not.toContain('min-h-screen')
+  })
+})
+
+describe('CSS Modules prompt template', () => {
+  it('should register react + css-modules', () => {
+    expect(getTemplate('react', 'css-modules')).not.toBeNull()
+  })
+
+  it('should omit Tailwind classes from the layout section', () => {
+    const result = generatePrompt(githubStyleSchema, 'react', 'css-modules')
+
+    expect(result.success).toBe(true)
+    expect(result.prompt).toContain('@media (min-width:')
+    expect(result.prompt).not.toContain('Or with Tailwind CSS')
+  })
+})
+
+describe('CSS Modules prompt strategies', () => {
+  const models: AIModelId[] = ['claude-sonnet-4.5', 'gpt-4.1', 'gemini-2.5-pro', 'deepseek-v3', 'grok-3']
+
+  it.each(models)('should give %s CSS Modules guidance instead of Tailwind classes', (modelId) => {
+    const result = createPromptStrategy(modelId).generatePrompt(githubStyleSchema, 'react', 'css-modules', {
+      targetModel: modelId,
+      verbosity: 'detailed',
+      chainOfThought: true,
+    })
+    const prompt = result.sections!
+      .filter((s) => s.title !== 'Full Schema')
+      .map((s) => s.content)
+      .join('\n')
+
+    expect(result.success).toBe(true)
+    expect(prompt).toContain('CSS Modules')
+    expect(prompt).toContain('@media (min-width:')
+    expect(prompt).not.toContain('Or with Tailwind CSS')
+    expect(prompt).not.toMatch(/\b(md|lg):/)
+    expect(prompt).not.toContain('grid-rows-[')
+  })
+
+  it('should bind styles.root in the example and show its stylesheet', () => {
+    const strategy = createPromptStrategy('gpt-4.1')
+    const react = strategy.generatePrompt(githubStyleSchema, 'react', 'css-modules')
+    const vue = strategy.generatePrompt(githubStyleSchema, 'vue', 'css-modules')
+
+    expect(react.prompt).toContain('<header className={styles.root}>')
+    expect(react.prompt).toContain('/* SiteHeader.module.css')
+    expect(vue.prompt).toContain('<header :class="styles.root">')
+  })
+})
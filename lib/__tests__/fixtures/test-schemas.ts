@@ -4,7 +4,7 @@
  * 공통으로 사용되는 테스트 Schema를 재사용 가능한 fixture로 추출
  */
 
-import type { LaydlerSchema, Component } from '@/types/schema'
+import type { LaydlerSchema, Component, ResponsiveCanvasLayout } from '@/types/schema'
 
 /**
  * GitHub-style Layout Schema
@@ -232,6 +232,30 @@ export function createComponent(
   return component
 }
 
+/**
+ * Component Factory: Create component placed on the canvas per breakpoint (responsiveCanvasLayout)
+ *
+ * 기본값: section / static / layout none, canvasLayout 없음 (canvas 편집·reflow·preview 테스트용)
+ *
+ * @example
+ * createCanvasComponent('c1', { mobile: { x: 0, y: 0, width: 4, height: 1 } }, { semanticTag: 'header' })
+ */
+export function createCanvasComponent(
+  id: string,
+  canvasLayouts: ResponsiveCanvasLayout = {},
+  overrides: Partial<Component> = {}
+): Component {
+  return {
+    id,
+    name: id,
+    semanticTag: 'section',
+    positioning: { type: 'static' },
+    layout: { type: 'none' },
+    ...(Object.keys(canvasLayouts).length > 0 ? { responsiveCanvasLayout: canvasLayouts } : {}),
+    ...overrides,
+  }
+}
+
 /**
  * Schema Factory: Create schema with N components
  */
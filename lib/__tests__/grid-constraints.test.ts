@@ -487,6 +487,40 @@ describe('Grid Constraints', () => {
       expect(suggestion.canReduceRows).toBe(0)
       expect(suggestion.canReduceCols).toBe(0)
     })
+
+    it('should count empty rows between components when compacting', () => {
+      const components: Component[] = [
+        {
+          id: 'c1',
+          name: 'Header',
+          semanticTag: 'header',
+          positioning: { type: 'static' },
+          layout: { type: 'none' },
+          canvasLayout: { x: 0, y: 0, width: 12, height: 1 },
+        },
+        {
+          id: 'c2',
+          name: 'Main',
+          semanticTag: 'main',
+          positioning: { type: 'static' },
+          layout: { type: 'none' },
+          canvasLayout: { x: 0, y: 4, width: 12, height: 3 },
+        },
+        {
+          id: 'c3',
+          name: 'Card',
+          semanticTag: 'article',
+          positioning: { type: 'static' },
+          layout: { type: 'none' },
+          parentId: 'c2',
+          canvasLayout: { x: 1, y: 5, width: 4, height: 1 },
+        },
+      ]
+
+      // 기본: 맨 아래 빈 행만 (20 - 7), compact: Main을 y=1로 당긴 뒤 (20 - 4)
+      expect(suggestGridCompaction(components, 20, 12, 'desktop').canReduceRows).toBe(13)
+      expect(suggestGridCompaction(components, 20, 12, 'desktop', { compact: true }).canReduceRows).toBe(16)
+    })
   })
 
   describe('isComponentOutOfBounds', () => {
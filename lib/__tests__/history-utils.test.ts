@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest"
+import {
+  createEmptyHistory,
+  pushHistoryEntry,
+  undoHistory,
+  redoHistory,
+  HISTORY_LIMIT,
+  HISTORY_COALESCE_WINDOW_MS,
+  isSameSnapshot,
+  type HistorySnapshot,
+} from "../history-utils"
+import { createSchemaWithBreakpoint } from "../schema-utils"
+
+function snapshot(label: string): HistorySnapshot {
+  const schema = createSchemaWithBreakpoint("mobile")
+  return {
+    schema: { ...schema, layouts: { ...schema.layouts, [label]: { structure: "vertical", components: [] } } },
+    componentLinks: [],
+  }
+}
+
+describe("history-utils", () => {
+  describe("pushHistoryEntry", () => {
+    it("should append entry and clear future", () => {
+      const a = snapshot("a")
+      const history = { past: [], future: [{ snapshot: a, label: "x", timestamp: 0 }] }
+
+      const next = pushHistoryEntry(history, a, "addComponent", { now: 1000 })
+
+      expect(next.past).toHaveLength(1)
+      expect(next.past[0].snapshot).toBe(a)
+      expect(next.past[0].label).toBe("addComponent")
+      expect(next.future).toHaveLength(0)
+    })
+
+    it("should coalesce entries with same key within window", () => {
+      const a = snapshot("a")
+      const b = snapshot("b")
+
+      let history = pushHistoryEntry(createEmptyHistory(), a, "updateComponent", {
+        coalesceKey: "updateComponent:c1",
+        now: 1000,
+      })
+      history = pushHistoryEntry(history, b, "updateComponent", {
+        coalesceKey: "updateComponent:c1",
+        now: 1000 + HISTORY_COALESCE_WINDOW_MS,
+      })
+
+      expect(history.past).toHaveLength(1)
+      // burst 시작 전 스냅샷 유지
+      expect(history.past[0].snapshot).toBe(a)
+      expect(history.past[0].timestamp).toBe(1000 + HISTORY_COALESCE_WINDOW_MS)
+    })
+
+    it("should not coalesce different keys or entries outside window", () => {
+      const a = snapshot("a")
+
+      let history = pushHistoryEntry(createEmptyHistory(), a, "updateComponent", {
+        coalesceKey: "updateComponent:c1",
+        now: 1000,
+      })
+      history = pushHistoryEntry(history, a, "updateComponent", {
+        coalesceKey: "updateComponent:c2",
+        now: 1100,
+      })
+      history = pushHistoryEntry(history, a, "updateComponent", {
+        coalesceKey: "updateComponent:c2",
+        now: 1100 + HISTORY_COALESCE_WINDOW_MS + 1,
+      })
+
+      expect(history.past).toHaveLength(3)
+    })
+
+    it("should not coalesce entries without key", () => {
+      const a = snapshot("a")
+
+      let history = pushHistoryEntry(createEmptyHistory(), a, "addComponent", { now: 1000 })
+      history = pushHistoryEntry(history, a, "addComponent", { now: 1000 })
+
+      expect(history.past).toHaveLength(2)
+    })
+
+    it("should drop oldest entries beyond limit", () => {
+      let history = createEmptyHistory()
+      const snapshots = Array.from({ length: 5 }, (_, i) => snapshot(`s${i}`))
+
+      snapshots.forEach((s, i) => {
+        history = pushHistoryEntry(history, s, "addComponent", { now: i, limit: 3 })
+      })
+
+      expect(history.past).toHaveLength(3)
+      expect(history.past[0].snapshot).toBe(snapshots[2])
+      expect(history.past[2].snapshot).toBe(snapshots[4])
+    })
+
+    it("should use HISTORY_LIMIT by default", () => {
+      let history = createEmptyHistory()
+      const a = snapshot("a")
+
+      for (let i = 0; i < HISTORY_LIMIT + 10; i++) {
+        history = pushHistoryEntry(history, a, "addGridRow", { now: i })
+      }
+
+      expect(history.past).toHaveLength(HISTORY_LIMIT)
+    })
+  })
+
+  describe("undoHistory / redoHistory", () => {
+    it("should return null when stacks are empty", () => {
+      const current = snapshot("current")
+
+      expect(undoHistory(createEmptyHistory(), current)).toBeNull()
+      expect(redoHistory(createEmptyHistory(), current)).toBeNull()
+    })
+
+    it("should move snapshots between past and future", () => {
+      const before = snapshot("before")
+      const after = snapshot("after")
+      const history = pushHistoryEntry(createEmptyHistory(), before, "addComponent", { now: 0 })
+
+      const undone = undoHistory(history, after)
+      expect(undone).not.toBeNull()
+      expect(undone!.snapshot).toBe(before)
+      expect(undone!.history.past).toHaveLength(0)
+      expect(undone!.history.future).toHaveLength(1)
+
+      const redone = redoHistory(undone!.history, before)
+      expect(redone).not.toBeNull()
+      expect(redone!.snapshot).toBe(after)
+      expect(redone!.history.past).toHaveLength(1)
+      expect(redone!.history.past[0].snapshot).toBe(before)
+      expect(redone!.history.future).toHaveLength(0)
+    })
+
+    it("should not coalesce a new action into an entry restored by redo", () => {
+      const before = snapshot("before")
+      const after = snapshot("after")
+      const history = pushHistoryEntry(createEmptyHistory(), before, "updateComponent", {
+        coalesceKey: "updateComponent:c1",
+        now: 0,
+      })
+
+      const undone = undoHistory(history, after)!
+      const redone = redoHistory(undone.history, before)!
+      const next = pushHistoryEntry(redone.history, after, "updateComponent", {
+        coalesceKey: "updateComponent:c1",
+        now: 1,
+      })
+
+      expect(next.past).toHaveLength(2)
+    })
+  })
+  describe("isSameSnapshot", () => {
+    it("should compare snapshots by value", () => {
+      const a = snapshot("a")
+      const copy: HistorySnapshot = JSON.parse(JSON.stringify(a))
+
+      expect(isSameSnapshot(a, copy)).toBe(true)
+      expect(isSameSnapshot(a, snapshot("b"))).toBe(false)
+      expect(isSameSnapshot(a, { ...a, componentLinks: [{ source: "c1", target: "c2" }] })).toBe(false)
+    })
+
+    it("should treat undefined properties as missing", () => {
+      const a = snapshot("a")
+      const layouts = { ...a.schema.layouts, a: { ...a.schema.layouts.a, roles: undefined } }
+      const withUndefined = { ...a, schema: { ...a.schema, layouts } }
+
+      expect(isSameSnapshot(a, withUndefined)).toBe(true)
+    })
+  })
+})
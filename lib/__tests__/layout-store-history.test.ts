@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest"
+import { useLayoutStore } from "@/store/layout-store"
+import { createEmptyHistory, HISTORY_COALESCE_WINDOW_MS } from "@/lib/history-utils"
+import type { Component } from "@/types/schema"
+
+const header: Omit<Component, "id"> = {
+  name: "Header",
+  semanticTag: "header",
+  positioning: { type: "sticky", position: { top: 0 } },
+  layout: { type: "flex" },
+  canvasLayout: { x: 0, y: 0, width: 12, height: 1 },
+}
+
+describe("Layout Store Undo/Redo", () => {
+  beforeEach(() => {
+    useLayoutStore.setState({
+      schema: {
+        schemaVersion: "2.0",
+        components: [],
+        breakpoints: [
+          { name: "mobile", minWidth: 0, gridCols: 12, gridRows: 8 },
+          { name: "desktop", minWidth: 1024, gridCols: 12, gridRows: 8 },
+        ],
+        layouts: {
+          mobile: { structure: "vertical", components: [] },
+          desktop: { structure: "vertical", components: [] },
+        },
+      },
+      currentBreakpoint: "mobile",
+      selectedComponentId: null,
+      componentLinks: [],
+      history: createEmptyHistory(),
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("should start with nothing to undo or redo", () => {
+    const store = useLayoutStore.getState()
+
+    expect(store.canUndo()).toBe(false)
+    expect(store.canRedo()).toBe(false)
+  })
+
+  it("should undo and redo addComponent", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent(header)
+
+    expect(store.canUndo()).toBe(true)
+
+    store.undo()
+    let state = useLayoutStore.getState()
+    expect(state.schema.components).toHaveLength(0)
+    expect(state.schema.layouts.mobile.components).toHaveLength(0)
+    expect(state.canRedo()).toBe(true)
+
+    store.redo()
+    state = useLayoutStore.getState()
+    expect(state.schema.components).toHaveLength(1)
+    expect(state.schema.layouts.mobile.components).toEqual(["c1"])
+    expect(state.canRedo()).toBe(false)
+  })
+
+  it("should restore component links removed by deleteComponent", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent(header)
+    store.addComponent(header)
+    store.addComponentLink("c1", "c2")
+
+    store.deleteComponent("c2")
+    expect(useLayoutStore.getState().componentLinks).toHaveLength(0)
+
+    store.undo()
+    const state = useLayoutStore.getState()
+    expect(state.schema.components.map((c) => c.id)).toEqual(["c1", "c2"])
+    expect(state.componentLinks).toEqual([{ source: "c1", target: "c2" }])
+  })
+
+  it("should clear redo stack on new action", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent(header)
+    store.undo()
+    expect(store.canRedo()).toBe(true)
+
+    store.addGridRow("mobile")
+    expect(store.canRedo()).toBe(false)
+  })
+
+  it("should not record rejected actions", () => {
+    const store = useLayoutStore.getState()
+    store.duplicateComponent("missing")
+    store.addBreakpoint({ name: "mobile", minWidth: 0, gridCols: 4, gridRows: 8 })
+
+    expect(store.canUndo()).toBe(false)
+  })
+
+  it("should not record selection or UI changes", () => {
+    const store = useLayoutStore.getState()
+    store.setCurrentBreakpoint("desktop")
+    store.setSelectedComponentId("c1")
+    store.openLinkingPanel()
+
+    expect(store.canUndo()).toBe(false)
+  })
+
+  it("should not record updates that leave the state unchanged", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent(header)
+    const { history, schema } = useLayoutStore.getState()
+
+    store.updateComponent("c1", { name: "Header" })
+    store.updateComponentPositioning("c1", { type: "sticky", position: { top: 0 } })
+    store.updateLayout("mobile", { structure: "vertical", components: ["c1"] })
+    store.clearAllLinks()
+
+    const state = useLayoutStore.getState()
+    expect(state.history).toBe(history)
+    expect(state.schema).toBe(schema)
+
+    // 실제 변경은 그대로 기록
+    store.updateComponent("c1", { name: "Top Bar" })
+    expect(useLayoutStore.getState().history.past).toHaveLength(history.past.length + 1)
+  })
+
+  it("should coalesce rapid updates of the same component into one step", () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+
+    const store = useLayoutStore.getState()
+    store.addComponent(header)
+
+    // drag end → resize end
+    vi.setSystemTime(HISTORY_COALESCE_WINDOW_MS * 2)
+    store.updateComponent("c1", { canvasLayout: { x: 0, y: 2, width: 12, height: 1 } })
+    vi.setSystemTime(HISTORY_COALESCE_WINDOW_MS * 2 + 10)
+    store.updateComponent("c1", { canvasLayout: { x: 0, y: 2, width: 6, height: 2 } })
+
+    expect(useLayoutStore.getState().history.past).toHaveLength(2)
+
+    store.undo()
+    expect(useLayoutStore.getState().schema.components[0].canvasLayout).toEqual({
+      x: 0,
+      y: 0,
+      width: 12,
+      height: 1,
+    })
+  })
+
+  it("should clear selection when undo removes the selected component", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent(header)
+    store.setSelectedComponentId("c1")
+
+    store.undo()
+    expect(useLayoutStore.getState().selectedComponentId).toBeNull()
+  })
+
+  it("should switch current breakpoint when undo removes it", () => {
+    const store = useLayoutStore.getState()
+    store.addBreakpoint({ name: "tablet", minWidth: 768, gridCols: 8, gridRows: 8 })
+    store.setCurrentBreakpoint("tablet")
+
+    store.undo()
+    const state = useLayoutStore.getState()
+    expect(state.schema.breakpoints.map((bp) => bp.name)).toEqual(["mobile", "desktop"])
+    expect(state.currentBreakpoint).toBe("mobile")
+  })
+
+  it("should reset history on initializeSchema and clearHistory", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent(header)
+    store.clearHistory()
+    expect(store.canUndo()).toBe(false)
+
+    store.addComponent(header)
+    store.initializeSchema("desktop")
+    expect(store.canUndo()).toBe(false)
+  })
+
+  it("should undo importSchema", () => {
+    const store = useLayoutStore.getState()
+    store.addComponent(header)
+    const before = useLayoutStore.getState().schema
+
+    store.importSchema({
+      schemaVersion: "2.0",
+      components: [],
+      breakpoints: [{ name: "desktop", minWidth: 1024, gridCols: 12, gridRows: 8 }],
+      layouts: { desktop: { structure: "vertical", components: [] } },
+    })
+
+    store.undo()
+    expect(useLayoutStore.getState().schema).toBe(before)
+  })
+})
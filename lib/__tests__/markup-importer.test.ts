@@ -0,0 +1,175 @@
+/**
+ * Markup Importer Tests
+ *
+ * parseComponentClasses (Tailwind → Schema), importMarkup (JSX/HTML → LaydlerSchema)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { importMarkup, parseComponentClasses } from '../markup-importer'
+import { generateComponentClasses, generateComponentCode } from '../code-generator'
+import { createEmptySchema, getDefaultComponentData } from '../schema-utils'
+import { validateSchema } from '../schema-validation'
+import type { Component } from '@/types/schema'
+
+const breakpoints = createEmptySchema().breakpoints
+
+describe('parseComponentClasses', () => {
+  it('should reverse positioning, layout and responsive classes', () => {
+    const parsed = parseComponentClasses(
+      'sticky top-0 z-50 flex flex-col justify-between items-center gap-4 hidden lg:block',
+      breakpoints
+    )
+
+    expect(parsed.positioning).toEqual({ type: 'sticky', position: { top: 0, zIndex: 50 } })
+    expect(parsed.layout).toEqual({
+      type: 'flex',
+      flex: { direction: 'column', justify: 'between', items: 'center', gap: '1rem' },
+    })
+    expect(parsed.responsive).toEqual({ mobile: { hidden: true }, desktop: { hidden: false } })
+    expect(parsed.unmapped).toEqual([])
+  })
+
+  it('should reverse styling classes', () => {
+    const parsed = parseComponentClasses('w-64 h-full bg-gray-50 border-r shadow-sm', breakpoints)
+
+    expect(parsed.styling).toEqual({
+      width: '16rem',
+      height: 'full',
+      background: 'gray-50',
+      border: 'r',
+      shadow: 'sm',
+    })
+  })
+
+  it('should map md:/lg: and min-[Npx]: to breakpoints by minWidth', () => {
+    const parsed = parseComponentClasses('md:hidden min-[1024px]:flex md:w-48 lg:order-2', breakpoints)
+
+    expect(parsed.responsive).toEqual({
+      tablet: { hidden: true, width: '12rem' },
+      desktop: { hidden: false, order: 2 },
+    })
+  })
+
+  it('should report classes and variants it cannot map', () => {
+    const parsed = parseComponentClasses('flex-1 rounded-lg xl:hidden sm:flex', breakpoints)
+
+    expect(parsed.unmapped).toEqual(['flex-1', 'rounded-lg'])
+    expect(parsed.unsupportedVariants).toEqual(['xl:hidden', 'sm:flex'])
+  })
+
+  it('should round-trip generateComponentClasses output', () => {
+    ;(['header', 'nav', 'footer'] as const).forEach((tag) => {
+      const data = getDefaultComponentData(tag)
+      const parsed = parseComponentClasses(generateComponentClasses({ id: 'c1', ...data }), breakpoints)
+
+      expect(parsed.positioning.type).toBe(data.positioning.type)
+      expect(parsed.styling.border).toBe(data.styling?.border)
+    })
+  })
+})
+
+describe('importMarkup', () => {
+  const page = `
+    <>
+      <header id="site-header" className="sticky top-0 z-50 border-b">
+        <nav className="flex gap-4">Links</nav>
+      </header>
+      <div className="flex">
+        <aside className="hidden lg:block w-64 border-r">Filters</aside>
+        <main className={cn("flex-1", isWide && "px-8")}>
+          <div className="container max-w-7xl mx-auto px-8">{children}</div>
+        </main>
+      </div>
+      <footer class="border-t">Footer</footer>
+    </>
+  `
+
+  it('should convert outermost semantic elements into components', () => {
+    const { schema } = importMarkup(page)
+
+    expect(schema.components.map((c) => [c.id, c.name, c.semanticTag])).toEqual([
+      ['c1', 'SiteHeader', 'header'],
+      ['c2', 'Aside', 'aside'],
+      ['c3', 'Main', 'main'],
+      ['c4', 'Footer', 'footer'],
+    ])
+    expect(schema.components[1].responsive).toEqual({ mobile: { hidden: true }, desktop: { hidden: false } })
+  })
+
+  it('should detect container wrappers', () => {
+    const { schema } = importMarkup(page)
+
+    expect(schema.components[2].layout).toEqual({
+      type: 'container',
+      container: { maxWidth: '7xl', centered: true, padding: '2rem' },
+    })
+  })
+
+  it('should infer a responsive canvas layout', () => {
+    const { schema } = importMarkup(page)
+    const [header, aside, main, footer] = schema.components
+
+    // mobile: 세로로 쌓음, aside는 숨김
+    expect(header.responsiveCanvasLayout?.mobile).toEqual({ x: 0, y: 0, width: 4, height: 1 })
+    expect(aside.responsiveCanvasLayout?.mobile).toBeUndefined()
+    expect(main.responsiveCanvasLayout?.mobile).toEqual({ x: 0, y: 1, width: 4, height: 4 })
+
+    // desktop: aside + main 나란히
+    expect(aside.responsiveCanvasLayout?.desktop).toEqual({ x: 0, y: 1, width: 3, height: 4 })
+    expect(main.responsiveCanvasLayout?.desktop).toEqual({ x: 3, y: 1, width: 9, height: 4 })
+    expect(footer.responsiveCanvasLayout?.desktop).toEqual({ x: 0, y: 5, width: 12, height: 1 })
+
+    expect(schema.layouts.mobile.components).toEqual(['c1', 'c3', 'c4'])
+    expect(schema.layouts.desktop.components).toEqual(['c1', 'c2', 'c3', 'c4'])
+  })
+
+  it('should report everything it could not map', () => {
+    const { schema, warnings } = importMarkup(page)
+    const codes = warnings.map((w) => [w.code, w.componentId])
+
+    expect(codes).toContainEqual(['NESTED_SEMANTIC_TAG', 'c1'])
+    expect(codes).toContainEqual(['DYNAMIC_CLASS', 'c3'])
+    expect(codes).toContainEqual(['UNMAPPED_CLASS', 'c3'])
+    expect(schema.components[2].styling?.className).toBe('flex-1 px-8')
+  })
+
+  it('should produce a valid schema', () => {
+    const { schema } = importMarkup(page)
+
+    expect(validateSchema(schema).errors).toEqual([])
+  })
+
+  it('should round-trip generated React components', () => {
+    const original: Component = {
+      id: 'c1',
+      name: 'Sidebar',
+      semanticTag: 'nav',
+      positioning: { type: 'sticky', position: { top: '4rem', zIndex: 40 } },
+      layout: { type: 'flex', flex: { direction: 'column', gap: '1rem' } },
+      styling: { width: '16rem', background: 'gray-50', border: 'r' },
+      responsive: { mobile: { hidden: true }, desktop: { hidden: false } },
+    }
+    const { schema, warnings } = importMarkup(generateComponentCode(original))
+    const imported = schema.components[0]
+
+    expect(warnings).toEqual([])
+    expect(imported.positioning).toEqual(original.positioning)
+    expect(imported.layout).toEqual(original.layout)
+    expect(imported.styling).toEqual(original.styling)
+    expect(imported.responsive).toEqual(original.responsive)
+  })
+
+  it('should fall back to top-level divs when there are no semantic tags', () => {
+    const { schema } = importMarkup('<div class="flex"><div class="w-64"></div><div></div></div>')
+
+    expect(schema.components.map((c) => c.semanticTag)).toEqual(['div', 'div'])
+    expect(schema.components[0].responsiveCanvasLayout?.desktop?.width).toBe(6)
+  })
+
+  it('should warn when nothing can be imported', () => {
+    const { schema, warnings } = importMarkup('<p>Hello</p>')
+
+    expect(schema.components).toEqual([])
+    expect(warnings[0].code).toBe('NO_COMPONENTS')
+  })
+})
@@ -0,0 +1,178 @@
+/**
+ * Model Registry Config Tests
+ *
+ * 사용자 정의 모델 / 내장 모델 override: 검증, 병합, 추천/전략 반영
+ */
+
+import { afterEach, describe, expect, it } from "vitest"
+import {
+  applyModelRegistryConfig,
+  isConfiguredModel,
+  parseModelRegistryConfig,
+  resolveModelRegistryConfig,
+} from "../model-registry-config"
+import {
+  AI_MODEL_REGISTRY,
+  getActiveModels,
+  getModelMetadata,
+  recommendModels,
+  setRuntimeModels,
+} from "../ai-model-registry"
+import { createPromptStrategy, getModelsByCategory } from "../prompt-strategies/strategy-factory"
+import { ClaudeStrategy } from "../prompt-strategies/claude-strategy"
+import { DeepSeekStrategy } from "../prompt-strategies/deepseek-strategy"
+
+const newModel = {
+  id: "acme-coder",
+  extends: "qwen-2.5-coder-32b",
+  name: "Acme Coder",
+  provider: "custom",
+  promptStrategy: "alibaba",
+  performance: { contextWindow: 32000 },
+}
+
+afterEach(() => {
+  setRuntimeModels([])
+})
+
+describe("resolveModelRegistryConfig", () => {
+  it("reports field errors with their path", () => {
+    const result = resolveModelRegistryConfig({
+      models: [
+        { id: "bad id!", name: "x", provider: "nope" },
+        { id: "gpt-4.1", capabilities: { codeQuality: 11 }, cost: { inputCostPer1M: -1 }, color: "red" },
+        { id: "o3", tokenizer: "sentencepiece", providerModel: " " },
+      ],
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.models).toEqual([])
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining("models[0].id:"),
+        expect.stringContaining("models[0].provider: must be one of"),
+        "models[1].capabilities.codeQuality: must be a number between 1 and 10",
+        "models[1].cost.inputCostPer1M: must be a non-negative number",
+        "models[1].color: unknown field",
+        expect.stringContaining("models[2].tokenizer: must be one of: o200k_base, cl100k_base"),
+        "models[2].providerModel: must be a non-empty string",
+      ])
+    )
+  })
+
+  it("rejects duplicate ids, unknown bases and incomplete new models", () => {
+    const result = resolveModelRegistryConfig([
+      { id: "gpt-4.1", active: false },
+      { id: "gpt-4.1", active: true },
+      { id: "a-model", extends: "missing", name: "A", provider: "custom" },
+      { id: "b-model", provider: "custom" },
+      { id: "claude-sonnet-4.5", extends: "gpt-4.1" },
+    ])
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      'models[1].id: "gpt-4.1" is defined more than once',
+      'models[2].extends: unknown model "missing"',
+      'models[3]: new model "b-model" needs "name" and "provider"',
+      'models[4].extends: built-in model "claude-sonnet-4.5" cannot extend another model',
+    ])
+  })
+
+  it("deep merges overrides onto the built-in model", () => {
+    const result = resolveModelRegistryConfig({
+      models: [{ id: "gpt-4.1", cost: { inputCostPer1M: 1.8 }, performance: { contextWindow: 500000 } }],
+    })
+
+    expect(result).toMatchObject({ valid: true, overrides: 1, added: 0 })
+    const [model] = result.models
+    expect(model.name).toBe(AI_MODEL_REGISTRY["gpt-4.1"].name)
+    expect(model.cost).toEqual({ ...AI_MODEL_REGISTRY["gpt-4.1"].cost, inputCostPer1M: 1.8 })
+    expect(model.performance.contextWindow).toBe(500000)
+    expect(model.performance.speed).toBe(AI_MODEL_REGISTRY["gpt-4.1"].performance.speed)
+  })
+
+  it("builds new models from their base without inheriting its description", () => {
+    const result = resolveModelRegistryConfig({
+      models: [newModel, { id: "acme-coder-mini", extends: "acme-coder", name: "Acme Mini", provider: "custom" }],
+    })
+
+    expect(result).toMatchObject({ valid: true, overrides: 0, added: 2 })
+    const [acme, mini] = result.models
+    expect(acme.capabilities).toEqual(AI_MODEL_REGISTRY["qwen-2.5-coder-32b"].capabilities)
+    expect(acme.performance.contextWindow).toBe(32000)
+    expect(acme.description).toBe("")
+    expect(acme.bestFor).toEqual([])
+    expect(mini.promptStrategy).toBe("alibaba")
+    expect(mini.performance.contextWindow).toBe(32000)
+  })
+
+  it("does not pass providerModel on to models that extend the model", () => {
+    const result = resolveModelRegistryConfig([
+      { ...newModel, providerModel: "acme/coder:14b" },
+      { id: "acme-coder-mini", extends: "acme-coder", name: "Acme Mini", provider: "custom" },
+    ])
+
+    expect(result.models.map((model) => model.providerModel)).toEqual(["acme/coder:14b", undefined])
+  })
+})
+
+describe("parseModelRegistryConfig", () => {
+  it("treats empty text as no config and reports invalid JSON", () => {
+    expect(parseModelRegistryConfig("  ")).toMatchObject({ valid: true, models: [] })
+
+    const result = parseModelRegistryConfig("{ models: ")
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]).toMatch(/^Invalid JSON: /)
+  })
+})
+
+describe("applyModelRegistryConfig", () => {
+  it("makes new models available to the registry and recommendations", () => {
+    applyModelRegistryConfig(JSON.stringify({ models: [newModel] }))
+
+    expect(getModelMetadata("acme-coder")?.name).toBe("Acme Coder")
+    expect(getActiveModels().map((m) => m.id)).toContain("acme-coder")
+    expect(getModelsByCategory().custom).toContain("acme-coder")
+    expect(isConfiguredModel("acme-coder")).toBe(true)
+    expect(isConfiguredModel("gpt-4.1")).toBe(false)
+
+    const recommendations = recommendModels({
+      schemaComplexity: "simple",
+      responsiveComplexity: "simple",
+      needsFrameworkSpecialization: false,
+      costSensitivity: "high",
+      qualityRequirement: "draft",
+      speedPriority: "high",
+    })
+    expect(recommendations.map((r) => r.modelId)).toContain("acme-coder")
+  })
+
+  it("hides built-in models deactivated by an override", () => {
+    applyModelRegistryConfig('[{ "id": "gpt-4.1", "active": false }]')
+
+    expect(getActiveModels().map((m) => m.id)).not.toContain("gpt-4.1")
+    expect(isConfiguredModel("gpt-4.1")).toBe(true)
+  })
+
+  it("keeps the previous registry when the config is invalid", () => {
+    applyModelRegistryConfig(JSON.stringify([newModel]))
+    const result = applyModelRegistryConfig('[{ "id": "gpt-4.1", "active": "no" }]')
+
+    expect(result.valid).toBe(false)
+    expect(getModelMetadata("acme-coder")).not.toBeNull()
+  })
+
+  it("uses promptStrategy and refreshes cached strategies after an override", () => {
+    applyModelRegistryConfig(JSON.stringify([newModel]))
+    expect(createPromptStrategy("acme-coder")).toBeInstanceOf(DeepSeekStrategy)
+
+    applyModelRegistryConfig(JSON.stringify([{ ...newModel, promptStrategy: "anthropic" }]))
+    const strategy = createPromptStrategy("acme-coder")
+    expect(strategy).toBeInstanceOf(ClaudeStrategy)
+    expect(strategy.metadata.promptStrategy).toBe("anthropic")
+
+    setRuntimeModels([])
+    expect(getModelMetadata("acme-coder")).toBeNull()
+    expect(() => createPromptStrategy("acme-coder")).toThrow("Model metadata not found")
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Next.js Project Export Tests
+ *
+ * generateTailwindConfig, generatePackageJson, exportNextProject
+ */
+
+import { describe, it, expect } from 'vitest'
+import { generatePackageJson, generateTailwindConfig, toPackageName } from '../nextjs-project'
+import { exportNextProject } from '../file-exporter'
+import { githubStyleSchema, multiBreakpointSchema } from './fixtures/test-schemas'
+
+describe('Next.js project config', () => {
+  it('should map schema breakpoints to custom Tailwind screens', () => {
+    const config = generateTailwindConfig([
+      { name: 'desktop', minWidth: 1280, gridCols: 12, gridRows: 8 },
+      { name: 'mobile', minWidth: 0, gridCols: 4, gridRows: 8 },
+      { name: 'wide-screen', minWidth: 1920, gridCols: 16, gridRows: 8 },
+    ])
+
+    expect(config).toContain('        desktop: "1280px",\n        "wide-screen": "1920px",\n')
+    expect(config).not.toContain('mobile')
+    expect(config).toContain('content: ["./app/**/*.{ts,tsx}", "./components/**/*.{ts,tsx}"]')
+  })
+
+  it('should include dependencies for the CSS solution', () => {
+    const tailwind = JSON.parse(generatePackageJson('Landing', 'tailwind'))
+    const emotion = JSON.parse(generatePackageJson('Landing', 'emotion'))
+
+    expect(tailwind.name).toBe('landing')
+    expect(tailwind.scripts.dev).toBe('next dev')
+    expect(tailwind.devDependencies).toHaveProperty('tailwindcss')
+    expect(emotion.dependencies).toHaveProperty('@emotion/styled')
+    expect(emotion.devDependencies).not.toHaveProperty('tailwindcss')
+  })
+
+  it('should convert project names to npm package names', () => {
+    expect(toPackageName('My Landing Page!')).toBe('my-landing-page')
+    expect(toPackageName('???')).toBe('vlb-layout')
+  })
+})
+
+describe('exportNextProject', () => {
+  it('should produce a complete App Router project', () => {
+    const files = exportNextProject(
+      { schema: multiBreakpointSchema, options: { framework: 'react', cssSolution: 'tailwind' } },
+      { projectName: 'Landing' }
+    )
+    const paths = files.map((f) => f.path)
+
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        'package.json',
+        'tsconfig.json',
+        'next.config.ts',
+        'tailwind.config.ts',
+        'postcss.config.mjs',
+        'app/layout.tsx',
+        'app/globals.css',
+        'app/page.tsx',
+        'components/Header.tsx',
+        'components/Sidebar.tsx',
+      ])
+    )
+    expect(files.find((f) => f.path === 'app/globals.css')!.content).toContain('@tailwind utilities;')
+    expect(files.find((f) => f.path === 'app/layout.tsx')!.content).toContain('title: "Landing"')
+  })
+
+  it('should skip Tailwind setup for other CSS solutions', () => {
+    const files = exportNextProject({
+      schema: githubStyleSchema,
+      options: { framework: 'react', cssSolution: 'styled-components' },
+    })
+    const paths = files.map((f) => f.path)
+
+    expect(paths).not.toContain('tailwind.config.ts')
+    expect(files.find((f) => f.path === 'next.config.ts')!.content).toContain('styledComponents: true')
+  })
+
+  it('should reject non-React frameworks', () => {
+    expect(() =>
+      exportNextProject({
+        schema: githubStyleSchema,
+        options: { framework: 'vue', cssSolution: 'tailwind' },
+      })
+    ).toThrow('Next.js project export requires the React framework')
+  })
+})
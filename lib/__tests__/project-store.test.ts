@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import { useProjectStore, getUniqueProjectName, DEFAULT_PROJECT_NAME } from "@/store/project-store"
+import { useLayoutStore, createInitialWorkspace } from "@/store/layout-store"
+import { createEmptyHistory } from "@/lib/history-utils"
+import { createSchemaWithBreakpoint } from "@/lib/schema-utils"
+import { getWorkspaceStorageKey, getWorkspaceBackupKey, DEFAULT_PROJECT_ID } from "@/lib/workspace-storage"
+
+const header = {
+  name: "Header",
+  semanticTag: "header" as const,
+  positioning: { type: "static" as const },
+  layout: { type: "flex" as const },
+}
+
+describe("Project Store", () => {
+  beforeEach(() => {
+    localStorage.clear()
+    useLayoutStore.persist.setOptions({ name: getWorkspaceStorageKey(DEFAULT_PROJECT_ID) })
+    useLayoutStore.setState({
+      ...createInitialWorkspace(),
+      selectedComponentId: null,
+      history: createEmptyHistory(),
+    })
+    useProjectStore.setState({ projects: [], activeProjectId: null })
+    localStorage.clear()
+  })
+
+  describe("getUniqueProjectName", () => {
+    it("should append a number to duplicate names", () => {
+      expect(getUniqueProjectName("Home", [])).toBe("Home")
+      expect(getUniqueProjectName("Home", ["Home"])).toBe("Home 2")
+      expect(getUniqueProjectName("Home", ["Home", "Home 2"])).toBe("Home 3")
+    })
+  })
+
+  describe("createProject", () => {
+    it("should create and open a project with the chosen breakpoint", () => {
+      const id = useProjectStore.getState().createProject("tablet")
+
+      const { projects, activeProjectId } = useProjectStore.getState()
+      expect(activeProjectId).toBe(id)
+      expect(projects).toHaveLength(1)
+      expect(projects[0].name).toBe(DEFAULT_PROJECT_NAME)
+
+      const layout = useLayoutStore.getState()
+      expect(layout.schema.breakpoints.map((bp) => bp.name)).toEqual(["tablet"])
+      expect(layout.currentBreakpoint).toBe("tablet")
+      expect(localStorage.getItem(getWorkspaceStorageKey(id))).not.toBeNull()
+    })
+
+    it("should keep project names unique", () => {
+      useProjectStore.getState().createProject("mobile", "Landing")
+      useProjectStore.getState().createProject("mobile", "Landing")
+
+      expect(useProjectStore.getState().projects.map((p) => p.name)).toEqual(["Landing", "Landing 2"])
+    })
+  })
+
+  describe("switching projects", () => {
+    it("should keep each project's schema, links and breakpoint separate", () => {
+      const first = useProjectStore.getState().createProject("mobile", "First")
+      useLayoutStore.getState().addComponent(header)
+      useLayoutStore.getState().addComponent(header)
+      useLayoutStore.getState().addComponentLink("c1", "c2")
+
+      const second = useProjectStore.getState().createProject("desktop", "Second")
+      expect(useLayoutStore.getState().schema.components).toHaveLength(0)
+      expect(useLayoutStore.getState().componentLinks).toHaveLength(0)
+
+      useProjectStore.getState().openProject(first)
+      let layout = useLayoutStore.getState()
+      expect(layout.schema.components).toHaveLength(2)
+      expect(layout.componentLinks).toEqual([{ source: "c1", target: "c2" }])
+      expect(layout.currentBreakpoint).toBe("mobile")
+
+      useProjectStore.getState().openProject(second)
+      layout = useLayoutStore.getState()
+      expect(layout.schema.breakpoints[0].name).toBe("desktop")
+    })
+
+    it("should reset undo history when switching", () => {
+      const first = useProjectStore.getState().createProject("mobile")
+      useLayoutStore.getState().addComponent(header)
+      useProjectStore.getState().createProject("mobile")
+
+      useProjectStore.getState().openProject(first)
+      expect(useLayoutStore.getState().canUndo()).toBe(false)
+    })
+
+    it("should back up an unrestorable project instead of discarding it", () => {
+      useProjectStore.setState({ projects: [{ id: "p1", name: "Broken", createdAt: 0, updatedAt: 0 }] })
+      localStorage.setItem(getWorkspaceStorageKey("p1"), "{broken")
+
+      useProjectStore.getState().openProject("p1")
+
+      expect(useLayoutStore.getState().schema.breakpoints).toHaveLength(0)
+      expect(localStorage.getItem(getWorkspaceBackupKey("p1"))).toBe("{broken")
+    })
+
+    it("should ignore unknown project ids", () => {
+      const id = useProjectStore.getState().createProject("mobile")
+      useProjectStore.getState().openProject("missing")
+
+      expect(useProjectStore.getState().activeProjectId).toBe(id)
+    })
+  })
+
+  describe("renameProject", () => {
+    it("should rename and ignore blank names", () => {
+      const id = useProjectStore.getState().createProject("mobile")
+
+      useProjectStore.getState().renameProject(id, "  Dashboard  ")
+      expect(useProjectStore.getState().projects[0].name).toBe("Dashboard")
+
+      useProjectStore.getState().renameProject(id, "   ")
+      expect(useProjectStore.getState().projects[0].name).toBe("Dashboard")
+    })
+  })
+
+  describe("duplicateProject", () => {
+    it("should copy the stored workspace under a new project", () => {
+      const id = useProjectStore.getState().createProject("mobile", "Blog")
+      useLayoutStore.getState().addComponent(header)
+
+      const copyId = useProjectStore.getState().duplicateProject(id)
+      expect(copyId).not.toBeNull()
+      expect(useProjectStore.getState().projects.map((p) => p.name)).toEqual(["Blog", "Blog Copy"])
+      // 복제 후에도 원본이 열려 있음
+      expect(useProjectStore.getState().activeProjectId).toBe(id)
+
+      useProjectStore.getState().openProject(copyId!)
+      expect(useLayoutStore.getState().schema.components).toHaveLength(1)
+    })
+
+    it("should return null for unknown project", () => {
+      expect(useProjectStore.getState().duplicateProject("missing")).toBeNull()
+    })
+  })
+
+  describe("deleteProject", () => {
+    it("should delete the active project and clear the workspace", () => {
+      const id = useProjectStore.getState().createProject("mobile")
+      useLayoutStore.getState().addComponent(header)
+
+      useProjectStore.getState().deleteProject(id)
+
+      expect(useProjectStore.getState().projects).toHaveLength(0)
+      expect(useProjectStore.getState().activeProjectId).toBeNull()
+      expect(useLayoutStore.getState().schema.breakpoints).toHaveLength(0)
+      expect(localStorage.getItem(getWorkspaceStorageKey(id))).toBeNull()
+    })
+
+    it("should stop autosaving to the deleted project", () => {
+      const id = useProjectStore.getState().createProject("mobile")
+      useProjectStore.getState().deleteProject(id)
+
+      useLayoutStore.getState().initializeSchema("desktop")
+
+      expect(useLayoutStore.getState().projectId).toBeNull()
+      expect(localStorage.getItem(getWorkspaceStorageKey(id))).toBeNull()
+
+      // 새 프로젝트를 열면 autosave 재개
+      const next = useProjectStore.getState().createProject("tablet")
+      expect(localStorage.getItem(getWorkspaceStorageKey(next))).not.toBeNull()
+    })
+
+    it("should keep the active project when deleting another", () => {
+      const first = useProjectStore.getState().createProject("mobile")
+      const second = useProjectStore.getState().createProject("desktop")
+
+      useProjectStore.getState().deleteProject(first)
+
+      expect(useProjectStore.getState().activeProjectId).toBe(second)
+      expect(useLayoutStore.getState().schema.breakpoints[0].name).toBe("desktop")
+    })
+  })
+
+  describe("restoreSession", () => {
+    it("should reopen the last active project", () => {
+      const id = useProjectStore.getState().createProject("tablet")
+      useLayoutStore.getState().addComponent(header)
+
+      // 페이지 새로고침 시뮬레이션: layout store는 초기 상태 + 기본 키
+      useLayoutStore.persist.setOptions({ name: getWorkspaceStorageKey(DEFAULT_PROJECT_ID) })
+      useLayoutStore.setState({ ...createInitialWorkspace() })
+
+      useProjectStore.getState().restoreSession()
+
+      expect(useProjectStore.getState().activeProjectId).toBe(id)
+      expect(useLayoutStore.getState().schema.breakpoints[0].name).toBe("tablet")
+      expect(useLayoutStore.getState().schema.components).toHaveLength(1)
+    })
+
+    it("should adopt the pre-project default workspace", () => {
+      const schema = createSchemaWithBreakpoint("desktop")
+      localStorage.setItem(
+        getWorkspaceStorageKey(DEFAULT_PROJECT_ID),
+        JSON.stringify({ version: 1, state: { schema, componentLinks: [], currentBreakpoint: "desktop" } })
+      )
+
+      useProjectStore.getState().restoreSession()
+
+      const { projects, activeProjectId } = useProjectStore.getState()
+      expect(projects.map((p) => p.id)).toEqual([DEFAULT_PROJECT_ID])
+      expect(activeProjectId).toBe(DEFAULT_PROJECT_ID)
+      expect(useLayoutStore.getState().schema).toEqual(schema)
+    })
+
+    it("should require a project choice when nothing can be reopened", () => {
+      useProjectStore.setState({
+        projects: [{ id: "p1", name: "A", createdAt: 0, updatedAt: 0 }],
+        activeProjectId: "deleted",
+      })
+
+      useProjectStore.getState().restoreSession()
+
+      expect(useProjectStore.getState().activeProjectId).toBeNull()
+    })
+  })
+})
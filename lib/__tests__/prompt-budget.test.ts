@@ -0,0 +1,195 @@
+/**
+ * Prompt Budget Tests
+ *
+ * 컨텍스트 예산에 맞춘 섹션 조립: 상세 수준 낮추기, 선택 섹션 제외, 압축 결과 보고
+ */
+
+import { describe, it, expect, beforeAll } from "vitest"
+import {
+  compactPromptSections,
+  describePromptCompaction,
+  getPromptTokenBudget,
+  PROMPT_SECTION_SEPARATOR,
+  type PromptSectionBuilder,
+} from "../prompt-budget"
+import { getModelMetadata } from "../ai-model-registry"
+import { createPromptStrategy } from "../prompt-strategies/strategy-factory"
+import { loadModelTokenizer } from "../tokenizers"
+import { sampleSchemas } from "../sample-data"
+import { normalizeSchema } from "../schema-utils"
+import { getInheritanceMode, resolveInheritance } from "../breakpoint-inheritance"
+import { createSchemaWithComponents } from "./fixtures/test-schemas"
+import type { AIModelId, PromptVerbosity } from "@/types/ai-models"
+
+// 1 character = 1 token
+const countTokens = (text: string) => text.length
+
+const sizes: Record<PromptVerbosity, number> = { detailed: 40, normal: 20, minimal: 10 }
+// verbosity를 지정하지 않으면 섹션 기본 수준 (30)
+const sizeOf = (v: PromptVerbosity | undefined) => (v ? sizes[v] : 30)
+
+const builders: PromptSectionBuilder[] = [
+  { title: "Schema", priority: 50, required: false, build: (v) => (v === "minimal" ? null : "S".repeat(sizeOf(v))) },
+  { title: "System", priority: 100, required: true, build: () => "P".repeat(10) },
+  { title: "Links", priority: 75, required: false, build: (v) => "L".repeat(sizeOf(v)) },
+  { title: "Components", priority: 90, required: true, build: (v) => "C".repeat(sizeOf(v)) },
+]
+
+describe("compactPromptSections", () => {
+  it("keeps every section at the requested verbosity when it fits", () => {
+    const result = compactPromptSections(builders, { verbosity: "detailed", budget: 1000, countTokens })
+
+    expect(result.sections.map((s) => s.title)).toEqual(["System", "Components", "Links", "Schema"])
+    expect(result.sections.every((s) => s.verbosity === "detailed")).toBe(true)
+    expect(result.prompt).toBe(result.sections.map((s) => s.content).join("\n---\n\n"))
+    expect(result.compaction).toMatchObject({ fits: true, degraded: [], dropped: [] })
+    expect(result.compaction.tokens).toBe(result.compaction.originalTokens)
+    expect(result.compaction.tokens).toBe(result.prompt.length)
+  })
+
+  it("degrades the lowest-priority sections first", () => {
+    // detailed: 10 + 40 + 40 + 40 + 3 separators(6) = 148
+    const result = compactPromptSections(builders, { verbosity: "detailed", budget: 128, countTokens })
+
+    expect(result.compaction).toMatchObject({
+      originalTokens: 148,
+      tokens: 128,
+      fits: true,
+      degraded: [{ title: "Schema", from: "detailed", to: "normal" }],
+      dropped: [],
+    })
+    expect(result.sections.find((s) => s.title === "Links")?.verbosity).toBe("detailed")
+  })
+
+  it("drops optional sections before touching higher-priority ones, and reports them", () => {
+    const result = compactPromptSections(builders, { verbosity: "detailed", budget: 50, countTokens })
+
+    expect(result.sections.map((s) => `${s.title}:${s.verbosity}`)).toEqual([
+      "System:detailed",
+      "Components:normal",
+    ])
+    expect(result.compaction).toMatchObject({
+      tokens: 36,
+      fits: true,
+      dropped: ["Links", "Schema"],
+      degraded: [{ title: "Components", from: "detailed", to: "normal" }],
+    })
+  })
+
+  it("starts from each section's default level when no verbosity is requested", () => {
+    // 기본 수준: 10 + 30 + 30 + 30 + 3 separators(6) = 118
+    const fitting = compactPromptSections(builders, { budget: 118, countTokens })
+    const result = compactPromptSections(builders, { budget: 110, countTokens })
+
+    expect(fitting.sections.every((s) => s.verbosity === undefined)).toBe(true)
+    expect(fitting.compaction).toMatchObject({ tokens: 118, degraded: [], dropped: [] })
+    expect(result.compaction).toMatchObject({
+      tokens: 108,
+      fits: true,
+      degraded: [{ title: "Schema", to: "normal" }],
+    })
+    expect(result.compaction.degraded[0].from).toBeUndefined()
+  })
+
+  it("never drops required sections", () => {
+    const result = compactPromptSections(builders, { verbosity: "normal", budget: 1, countTokens })
+
+    expect(result.sections.map((s) => s.title)).toEqual(["System", "Components"])
+    expect(result.compaction.fits).toBe(false)
+    expect(result.compaction.dropped).toEqual(["Links", "Schema"])
+    expect(describePromptCompaction(result.compaction)).toEqual([
+      "Prompt compacted from 88 to 26 tokens for the 1-token budget: dropped Links, dropped Schema, Components → minimal",
+      "Prompt (26 tokens) exceeds the 1-token budget even with minimal detail",
+    ])
+  })
+})
+
+describe("getPromptTokenBudget", () => {
+  it("reserves output tokens from the context window", () => {
+    const gpt41 = getModelMetadata("gpt-4.1")!
+
+    expect(getPromptTokenBudget(gpt41)).toBe(16000 - 4096)
+    expect(getPromptTokenBudget(gpt41, 3000)).toBe(3000)
+    expect(getPromptTokenBudget({ ...gpt41, performance: { speed: "fast", contextWindow: 32000 } })).toBe(
+      32000 - 4096
+    )
+    // 출력 예약은 컨텍스트의 절반까지
+    expect(
+      getPromptTokenBudget({ ...gpt41, performance: { speed: "fast", contextWindow: 8000, maxOutputTokens: 8000 } })
+    ).toBe(4000)
+  })
+})
+
+describe("strategy prompt compaction", () => {
+  beforeAll(async () => {
+    await loadModelTokenizer("gpt-4.1")
+  })
+
+  it("fits a 100-component schema into a small-context model", () => {
+    const schema = createSchemaWithComponents(100, 12, 60)
+    const result = createPromptStrategy("gpt-4.1").generatePrompt(schema, "react", "tailwind", {
+      targetModel: "gpt-4.1",
+      verbosity: "detailed",
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.compaction).toMatchObject({ budget: 11904, fits: true })
+    expect(result.compaction!.originalTokens).toBeGreaterThan(11904)
+    expect(result.compaction!.dropped).toContain("Full Schema")
+    expect(result.tokenUsage!.total).toBeLessThanOrEqual(11904)
+    expect(result.prompt).toContain("You need to implement 100 components")
+    expect(result.prompt).not.toContain("## Full Schema (JSON)")
+    expect(result.warnings!.some((w) => w.startsWith("Prompt compacted from"))).toBe(true)
+  })
+
+  it("applies a user budget and leaves prompts within budget untouched", () => {
+    const strategy = createPromptStrategy("gpt-4.1")
+    const options = { targetModel: "gpt-4.1", verbosity: "normal" } as const
+    const full = strategy.generatePrompt(sampleSchemas.github, "react", "tailwind", options)
+    const budgeted = strategy.generatePrompt(sampleSchemas.github, "react", "tailwind", {
+      ...options,
+      tokenBudget: 2000,
+    })
+
+    expect(full.compaction).toBeUndefined()
+    expect(full.sections!.every((s) => s.verbosity === "normal")).toBe(true)
+    expect(budgeted.compaction).toMatchObject({ budget: 2000, fits: true })
+    expect(budgeted.tokenUsage!.total).toBeLessThan(full.tokenUsage!.total)
+    expect(budgeted.sections!.map((s) => s.title)).toEqual(
+      expect.arrayContaining(["System Prompt", "Components", "Layouts", "Instructions"])
+    )
+  })
+
+  it.each<AIModelId>(["deepseek-v3", "claude-sonnet-4.5"])(
+    "keeps the strategy's default verbosity for an in-budget %s prompt",
+    (modelId) => {
+      const strategy = createPromptStrategy(modelId)
+      const schema = sampleSchemas.github
+      const result = strategy.generatePrompt(schema, "react", "tailwind", { targetModel: modelId })
+
+      // 압축 전과 같은 조립: verbosity 없이 각 섹션을 전략 기본 수준으로 생성
+      const normalized = normalizeSchema(schema)
+      const resolved = resolveInheritance(normalized)
+      const options = { targetModel: modelId, framework: "react", cssSolution: "tailwind" } as const
+      const expected = [
+        strategy.generateSystemPrompt("react", "tailwind"),
+        strategy.generateComponentSection(resolved.components, options),
+        strategy.generateLayoutSection(
+          resolved.components,
+          resolved.breakpoints,
+          resolved.layouts,
+          options,
+          getInheritanceMode(normalized)
+        ),
+        strategy.generateInstructionsSection(options),
+        `## Full Schema (JSON)\n\n` +
+          `For reference, here is the complete Schema:\n\n` +
+          `\`\`\`json\n${JSON.stringify(normalized, null, 2)}\n\`\`\`\n`,
+      ].join(PROMPT_SECTION_SEPARATOR)
+
+      expect(result.compaction).toBeUndefined()
+      expect(result.prompt).toBe(expected)
+      expect(result.sections!.every((s) => s.verbosity === undefined)).toBe(true)
+    }
+  )
+})
@@ -9,6 +9,7 @@ import {
   estimateTokenCount,
   getRecommendedModel,
 } from '../prompt-generator'
+import { loadTokenizer } from '../tokenizers'
 import type { LaydlerSchema } from '@/types/schema'
 
 describe('Prompt Generator', () => {
@@ -188,6 +189,13 @@ describe('Prompt Generator', () => {
 
       expect(count).toBe(1000) // 4000 / 4 = 1000
     })
+
+    it('should count with an opt-in tokenizer and keep the default estimate', async () => {
+      await loadTokenizer('o200k_base')
+
+      expect(estimateTokenCount('Hello world', 'o200k_base')).toBe(2)
+      expect(estimateTokenCount('Hello world')).toBe(3) // 11 / 4 → 3
+    })
   })
 
   describe('getRecommendedModel', () => {
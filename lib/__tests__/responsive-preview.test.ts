@@ -0,0 +1,89 @@
+/**
+ * Responsive Preview Tests
+ *
+ * 너비 → breakpoint 전환 (minWidth 경계), grid 배치, 중첩 자식 상대 위치, responsive override (숨김/positioning)
+ */
+
+import { describe, it, expect } from "vitest"
+import { buildPreviewItems, getBreakpointForWidth } from "../responsive-preview"
+import { createCanvasComponent } from "./fixtures/test-schemas"
+import type { LaydlerSchema } from "@/types/schema"
+
+const breakpoints = [
+  { name: "desktop", minWidth: 1024, gridCols: 12, gridRows: 8 },
+  { name: "mobile", minWidth: 0, gridCols: 4, gridRows: 8 },
+  { name: "tablet", minWidth: 768, gridCols: 8, gridRows: 8 },
+]
+
+describe("getBreakpointForWidth", () => {
+  it("should switch layouts when crossing each minWidth", () => {
+    expect(getBreakpointForWidth(breakpoints, 375)?.name).toBe("mobile")
+    expect(getBreakpointForWidth(breakpoints, 767)?.name).toBe("mobile")
+    expect(getBreakpointForWidth(breakpoints, 768)?.name).toBe("tablet")
+    expect(getBreakpointForWidth(breakpoints, 1440)?.name).toBe("desktop")
+  })
+
+  it("should fall back to the smallest breakpoint below every minWidth", () => {
+    expect(getBreakpointForWidth([{ name: "tablet", minWidth: 768, gridCols: 8, gridRows: 8 }], 375)?.name).toBe(
+      "tablet"
+    )
+    expect(getBreakpointForWidth([], 375)).toBeUndefined()
+  })
+})
+
+describe("buildPreviewItems", () => {
+  const schema: LaydlerSchema = {
+    schemaVersion: "2.0",
+    components: [
+      createCanvasComponent(
+        "header",
+        { desktop: { x: 0, y: 0, width: 12, height: 1 } },
+        {
+          semanticTag: "header",
+          responsive: { desktop: { positioning: { type: "sticky", position: { top: 0 } } } },
+        }
+      ),
+      createCanvasComponent("main", { desktop: { x: 2, y: 1, width: 10, height: 6 } }, { semanticTag: "main" }),
+      createCanvasComponent("card", { desktop: { x: 4, y: 2, width: 4, height: 2 } }, { parentId: "main" }),
+      createCanvasComponent(
+        "promo",
+        { desktop: { x: 0, y: 7, width: 12, height: 1 } },
+        { responsive: { desktop: { hidden: true } } }
+      ),
+    ],
+    breakpoints,
+    layouts: {
+      mobile: { structure: "vertical", components: [] },
+      tablet: { structure: "vertical", components: [] },
+      desktop: { structure: "vertical", components: ["header", "main", "promo"] },
+    },
+  }
+
+  it("should place components on the breakpoint grid", () => {
+    const items = buildPreviewItems(schema, "desktop")
+
+    expect(items.map((item) => [item.component.id, item.gridArea])).toEqual([
+      ["header", "1 / 1 / 2 / 13"],
+      ["main", "2 / 3 / 8 / 13"],
+    ])
+  })
+
+  it("should place nested components relative to their parent", () => {
+    const main = buildPreviewItems(schema, "desktop")[1]
+
+    expect(main.grid).toEqual({ cols: 10, rows: 6 })
+    expect(main.children.map((item) => [item.component.id, item.gridArea])).toEqual([["card", "2 / 3 / 4 / 7"]])
+  })
+
+  it("should apply responsive overrides for the breakpoint", () => {
+    const header = buildPreviewItems(schema, "desktop")[0]
+
+    expect(header.component.positioning).toEqual({ type: "sticky", position: { top: 0 } })
+    // Tailwind responsive prefix가 frame 대신 viewport를 따르지 않도록 제거
+    expect(header.component.responsive).toBeUndefined()
+  })
+
+  it("should render nothing for an empty breakpoint", () => {
+    expect(buildPreviewItems(schema, "mobile")).toEqual([])
+  })
+})
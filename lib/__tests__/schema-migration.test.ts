@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest"
+import {
+  migrateSchema,
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_MIGRATIONS,
+  type SchemaMigration,
+} from "../schema-migration"
+import { createSchemaWithBreakpoint } from "../schema-utils"
+
+describe("migrateSchema", () => {
+  it("should pass through current version schema unchanged", () => {
+    const schema = createSchemaWithBreakpoint("desktop")
+    const result = migrateSchema(schema)
+
+    expect(result.success).toBe(true)
+    expect(result.schema).toEqual(schema)
+    expect(result.fromVersion).toBe(CURRENT_SCHEMA_VERSION)
+    expect(result.appliedMigrations).toEqual([])
+  })
+
+  it("should reject non-object payloads", () => {
+    expect(migrateSchema(null).success).toBe(false)
+    expect(migrateSchema("2.0").success).toBe(false)
+    expect(migrateSchema([]).success).toBe(false)
+  })
+
+  it("should upgrade 1.0 payload to 2.0", () => {
+    const legacy = {
+      schemaVersion: "1.0",
+      components: [
+        { id: "c1", name: "Header", semanticTag: "header" },
+      ],
+      breakpoints: [
+        { name: "mobile", minWidth: 0 },
+        { name: "laptop", minWidth: 1280 },
+      ],
+      layouts: {
+        mobile: { structure: "vertical", components: ["c1"] },
+      },
+    }
+
+    const result = migrateSchema(legacy)
+
+    expect(result.success).toBe(true)
+    expect(result.appliedMigrations).toEqual(["1.0 → 2.0"])
+    expect(result.schema!.schemaVersion).toBe("2.0")
+    expect(result.schema!.breakpoints).toEqual([
+      { name: "mobile", minWidth: 0, gridCols: 4, gridRows: 8 },
+      { name: "laptop", minWidth: 1280, gridCols: 12, gridRows: 8 },
+    ])
+    expect(result.schema!.layouts.mobile.components).toEqual(["c1"])
+    expect(result.schema!.layouts.laptop).toEqual({ structure: "vertical", components: [] })
+    expect(result.schema!.components[0].positioning).toEqual({ type: "static" })
+    expect(result.schema!.components[0].layout).toEqual({ type: "none" })
+  })
+
+  it("should treat payload without schemaVersion as legacy", () => {
+    const result = migrateSchema({ components: [], breakpoints: [], layouts: {} })
+
+    expect(result.success).toBe(true)
+    expect(result.fromVersion).toBe("1.0")
+    expect(result.schema!.schemaVersion).toBe("2.0")
+  })
+
+  it("should not mutate the input payload", () => {
+    const legacy = {
+      schemaVersion: "1.0",
+      components: [],
+      breakpoints: [{ name: "mobile", minWidth: 0 }],
+      layouts: {},
+    }
+    const copy = JSON.parse(JSON.stringify(legacy))
+
+    migrateSchema(legacy)
+
+    expect(legacy).toEqual(copy)
+  })
+
+  it("should report unknown versions instead of discarding", () => {
+    const result = migrateSchema({ schemaVersion: "0.3", components: [], breakpoints: [], layouts: {} })
+
+    expect(result.success).toBe(false)
+    expect(result.fromVersion).toBe("0.3")
+    expect(result.errors[0]).toContain('"0.3"')
+  })
+
+  it("should chain migrations across multiple versions", () => {
+    const migrations: SchemaMigration[] = [
+      ...SCHEMA_MIGRATIONS,
+      {
+        from: "0.9",
+        to: "1.0",
+        description: "Rename screens to breakpoints",
+        migrate: ({ screens, ...rest }) => ({ ...rest, breakpoints: screens }),
+      },
+    ]
+
+    const result = migrateSchema(
+      { schemaVersion: "0.9", components: [], screens: [{ name: "tablet", minWidth: 768 }], layouts: {} },
+      migrations
+    )
+
+    expect(result.success).toBe(true)
+    expect(result.appliedMigrations).toEqual(["0.9 → 1.0", "1.0 → 2.0"])
+    expect(result.schema!.breakpoints[0]).toEqual({ name: "tablet", minWidth: 768, gridCols: 8, gridRows: 8 })
+  })
+
+  it("should detect migration cycles", () => {
+    const migrations: SchemaMigration[] = [
+      { from: "a", to: "b", description: "", migrate: (s) => s },
+      { from: "b", to: "a", description: "", migrate: (s) => s },
+    ]
+
+    const result = migrateSchema({ schemaVersion: "a" }, migrations)
+
+    expect(result.success).toBe(false)
+    expect(result.errors[0]).toContain("cycle")
+  })
+
+  it("should fail when migrated payload is structurally invalid", () => {
+    const migrations: SchemaMigration[] = [
+      { from: "1.0", to: "2.0", description: "", migrate: ({ components: _c, ...rest }) => rest },
+    ]
+
+    const result = migrateSchema({ schemaVersion: "1.0", components: [], breakpoints: [], layouts: {} }, migrations)
+
+    expect(result.success).toBe(false)
+    expect(result.appliedMigrations).toEqual(["1.0 → 2.0"])
+  })
+})
@@ -7,6 +7,7 @@ import {
   snapToGrid,
   gridToPixel,
   calculateSnapGuides,
+  calculateSmartGuides,
   toggleSnap,
   getSnapConfigWithModifier,
   DEFAULT_SNAP_CONFIG,
@@ -162,6 +163,96 @@ describe('Snap-to-Grid', () => {
     })
   })
 
+  describe('calculateSmartGuides', () => {
+    const config: SnapConfig = {
+      enabled: true,
+      threshold: 10,
+      gridCellWidth: 100,
+      gridCellHeight: 100,
+    }
+
+    it('should snap to another component edge and span the guide across both', () => {
+      const result = calculateSmartGuides(
+        { x: 305, y: 0, width: 100, height: 100 },
+        [{ x: 0, y: 200, width: 300, height: 100 }],
+        config
+      )
+
+      expect(result.x).toBe(300)
+      expect(result.y).toBe(0)
+      expect(result.guides).toEqual([
+        { type: 'vertical', position: 300, active: true, start: 0, end: 300 },
+        // y축은 정렬된 컴포넌트가 없으므로 grid 가이드
+        { type: 'horizontal', position: 0, active: true },
+      ])
+    })
+
+    it('should snap centers', () => {
+      // moving center 158 → target center 150
+      const result = calculateSmartGuides(
+        { x: 108, y: 300, width: 100, height: 100 },
+        [{ x: 0, y: 0, width: 300, height: 100 }],
+        config
+      )
+
+      expect(result.x).toBe(100)
+      expect(result.guides).toContainEqual({ type: 'vertical', position: 150, active: true, start: 0, end: 400 })
+    })
+
+    it('should not snap beyond the threshold', () => {
+      const result = calculateSmartGuides(
+        { x: 330, y: 30, width: 100, height: 100 },
+        [{ x: 0, y: 200, width: 300, height: 100 }],
+        config
+      )
+
+      expect(result.x).toBe(330)
+      expect(result.y).toBe(30)
+      expect(result.guides).toEqual([])
+    })
+
+    it('should snap to a matching gap and show both gaps', () => {
+      const result = calculateSmartGuides(
+        { x: 395, y: 0, width: 100, height: 100 },
+        [
+          { x: 0, y: 0, width: 100, height: 100 },
+          { x: 200, y: 0, width: 100, height: 100 },
+        ],
+        config
+      )
+
+      expect(result.x).toBe(400)
+      expect(result.spacing).toEqual([
+        { type: 'horizontal', start: 300, end: 400, position: 50, distance: 100 },
+        { type: 'horizontal', start: 100, end: 200, position: 50, distance: 100 },
+      ])
+    })
+
+    it('should snap to the center between two neighbors', () => {
+      const result = calculateSmartGuides(
+        { x: 192, y: 0, width: 100, height: 100 },
+        [
+          { x: 0, y: 0, width: 100, height: 100 },
+          { x: 400, y: 0, width: 100, height: 100 },
+        ],
+        config
+      )
+
+      expect(result.x).toBe(200)
+      expect(result.spacing.map((spacing) => spacing.distance)).toEqual([100, 100])
+    })
+
+    it('should return the original position when snap is disabled', () => {
+      const result = calculateSmartGuides(
+        { x: 305, y: 0, width: 100, height: 100 },
+        [{ x: 0, y: 200, width: 300, height: 100 }],
+        { ...config, enabled: false }
+      )
+
+      expect(result).toEqual({ x: 305, y: 0, guides: [], spacing: [] })
+    })
+  })
+
   describe('toggleSnap', () => {
     it('should toggle snap from enabled to disabled', () => {
       const config: SnapConfig = { ...DEFAULT_SNAP_CONFIG, enabled: true }
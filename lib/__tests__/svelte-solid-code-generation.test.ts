@@ -0,0 +1,175 @@
+/**
+ * Svelte 5 / SolidJS + Tailwind Output Tests
+ *
+ * generateComponentCode(svelte | solid), exportToFiles entry files, prompt templates
+ */
+
+import { describe, it, expect } from 'vitest'
+import { generateComponentCode } from '../code-generator'
+import { exportToFiles } from '../file-exporter'
+import { getTemplate } from '../prompt-templates'
+import { generatePrompt } from '../prompt-generator'
+import { createPromptStrategy } from '../prompt-strategies/strategy-factory'
+import { githubStyleSchema, simpleVerticalSchema } from './fixtures/test-schemas'
+import type { Component } from '@/types/schema'
+import type { AIModelId } from '@/types/ai-models'
+
+const header: Component = {
+  id: 'c1',
+  name: 'SiteHeader',
+  semanticTag: 'header',
+  positioning: { type: 'sticky', position: { top: 0, zIndex: 50 } },
+  layout: { type: 'flex', flex: { direction: 'row' } },
+}
+
+const container: Component = {
+  ...header,
+  layout: { type: 'container', container: { maxWidth: 'xl', padding: '1rem' } },
+}
+
+describe('Svelte code generation', () => {
+  it('should generate a Svelte 5 component with a children snippet', () => {
+    const code = generateComponentCode(header, 'svelte', 'tailwind')
+
+    expect(code).toContain('<script lang="ts">')
+    expect(code).toContain('let { children }: { children?: Snippet } = $props()')
+    expect(code).toContain('<header class="sticky top-0 z-50 flex flex-row">')
+    expect(code).toContain('{@render children?.()}')
+    expect(code).not.toContain('<slot')
+    expect(code).not.toContain('export let')
+  })
+
+  it('should render props.children as fallback content', () => {
+    const code = generateComponentCode({ ...header, props: { children: 'Welcome' } }, 'svelte')
+
+    expect(code).toContain('{#if children}')
+    expect(code).toContain('{:else}')
+    expect(code).toContain('Welcome')
+  })
+
+  it('should wrap content in a container div', () => {
+    const code = generateComponentCode(container, 'svelte')
+
+    expect(code).toContain('  <div class="container max-w-xl mx-auto px-4">\n    {@render children?.()}\n  </div>')
+  })
+
+  it('should export .svelte components and App.svelte', () => {
+    const files = exportToFiles({
+      schema: githubStyleSchema,
+      options: { framework: 'svelte', cssSolution: 'tailwind' },
+    })
+
+    expect(files.map((f) => f.path)).toEqual([
+      'components/SiteHeader.svelte',
+      'components/Sidebar.svelte',
+      'components/MainContent.svelte',
+      'App.svelte',
+      'schema.json',
+    ])
+
+    const app = files.find((f) => f.path === 'App.svelte')!.content
+    expect(app).toContain('  import SiteHeader from "./components/SiteHeader.svelte"')
+    expect(app).not.toContain('<template>')
+    expect(app).toContain('\n<SiteHeader />\n<div class="flex">')
+    expect(app).toContain('  <MainContent>')
+  })
+})
+
+describe('Solid code generation', () => {
+  it('should generate a Solid component using props.children and class', () => {
+    const code = generateComponentCode(header, 'solid', 'tailwind')
+
+    expect(code).toContain('import type { ParentProps } from "solid-js"')
+    expect(code).toContain('export function SiteHeader(props: ParentProps)')
+    expect(code).toContain('<header class="sticky top-0 z-50 flex flex-row">')
+    expect(code).toContain('{props.children}')
+    expect(code).not.toContain('className')
+  })
+
+  it('should use props.children fallback and container wrapper', () => {
+    expect(generateComponentCode({ ...header, props: { children: 'Welcome' } }, 'solid')).toContain(
+      '{props.children ?? "Welcome"}'
+    )
+    expect(generateComponentCode(container, 'solid')).toContain(
+      '<div class="container max-w-xl mx-auto px-4">'
+    )
+  })
+
+  it('should export .tsx components and App.tsx', () => {
+    const files = exportToFiles({
+      schema: simpleVerticalSchema,
+      options: { framework: 'solid', cssSolution: 'tailwind' },
+    })
+    const app = files.find((f) => f.path === 'App.tsx')!.content
+
+    expect(files.some((f) => f.path === 'app/page.tsx')).toBe(false)
+    expect(app).toContain('export default function App()')
+    expect(app).toContain('<div class="flex flex-col min-h-screen">')
+    expect(app).not.toContain('className')
+    simpleVerticalSchema.components.forEach((comp) => {
+      expect(app).toContain(`import { ${comp.name} } from "./components/${comp.name}"`)
+    })
+  })
+})
+
+describe('Svelte / Solid prompts', () => {
+  it.each([
+    ['svelte', 'senior Svelte developer', '{@render children?.()}'],
+    ['solid', 'senior SolidJS developer', 'splitProps'],
+  ])('should register %s + tailwind template', (framework, role, idiom) => {
+    const template = getTemplate(framework, 'tailwind')
+
+    expect(template?.framework).toBe(framework)
+    expect(template?.systemPrompt).toContain(role)
+    expect(template?.systemPrompt).toContain(idiom)
+
+    const result = generatePrompt(githubStyleSchema, framework, 'tailwind')
+    expect(result.success).toBe(true)
+    expect(result.prompt).toContain('Visual Layout (Canvas Grid)')
+  })
+
+  it('should name the framework in model strategy prompts', () => {
+    const result = createPromptStrategy('claude-sonnet-4.5').generatePrompt(
+      githubStyleSchema,
+      'solid',
+      'tailwind'
+    )
+
+    expect(result.prompt).toContain('You are a senior SolidJS developer')
+  })
+
+  it.each<AIModelId>(['claude-sonnet-4.5', 'gpt-4.1', 'gemini-2.5-pro', 'deepseek-v3', 'grok-4'])(
+    'should keep React syntax out of %s prompts for non-React frameworks',
+    (modelId) => {
+      for (const framework of ['vue', 'svelte', 'solid']) {
+        const result = createPromptStrategy(modelId).generatePrompt(githubStyleSchema, framework, 'tailwind', {
+          targetModel: modelId,
+          verbosity: 'detailed',
+          chainOfThought: true,
+        })
+        // Full Schema JSON은 schema 필드명(styling.className)을 그대로 포함
+        const guidance = result.sections!
+          .filter((section) => section.title !== 'Full Schema')
+          .map((section) => section.content)
+          .join('\n')
+
+        expect(guidance).not.toContain('className')
+        expect(guidance).not.toContain('React')
+      }
+    }
+  )
+
+  it('should use the framework syntax in example code', () => {
+    const options = { targetModel: 'gpt-4.1', includeExamples: true } as const
+    const svelte = createPromptStrategy('gpt-4.1').generatePrompt(githubStyleSchema, 'svelte', 'tailwind', options)
+    const solid = createPromptStrategy('gpt-4.1').generatePrompt(githubStyleSchema, 'solid', 'tailwind', options)
+    const react = createPromptStrategy('gpt-4.1').generatePrompt(githubStyleSchema, 'react', 'tailwind', options)
+
+    expect(svelte.prompt).toContain('```svelte')
+    expect(svelte.prompt).toContain('{@render children?.()}')
+    expect(svelte.prompt).toMatch(/<header class="/)
+    expect(solid.prompt).toContain('createSignal')
+    expect(solid.prompt).toMatch(/<header class="/)
+    expect(react.prompt).toMatch(/<header className="/)
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Tokenizers Tests
+ *
+ * 모델 계열별 토크나이저: BPE 정확도, 근사 비율, fallback, System/User 분리, 입력 비용
+ */
+
+import { describe, it, expect, beforeAll, afterEach } from "vitest"
+import {
+  HeuristicTokenizer,
+  countPromptTokens,
+  estimateInputCost,
+  estimateTokensByCharacters,
+  getModelTokenizerId,
+  getTokenizer,
+  loadModelTokenizer,
+  loadTokenizer,
+  registerTokenizer,
+  unregisterTokenizer,
+} from "../tokenizers"
+import { getModelMetadata } from "../ai-model-registry"
+import { createPromptStrategy } from "../prompt-strategies/strategy-factory"
+import { sampleSchemas } from "../sample-data"
+import type { ITokenizer } from "@/types/ai-models"
+
+const gpt41 = getModelMetadata("gpt-4.1")!
+const claude = getModelMetadata("claude-sonnet-4.5")!
+
+describe("before vocab is loaded", () => {
+  // 다른 describe의 beforeAll보다 먼저 실행되도록 파일 맨 앞에 위치
+  it("falls back to the character estimate", () => {
+    const tokenizer = getTokenizer("o200k_base")
+
+    expect(tokenizer.id).toBe("heuristic")
+    expect(tokenizer.exact).toBe(false)
+    expect(tokenizer.countTokens("a".repeat(4000))).toBe(1000)
+  })
+})
+
+describe("estimateTokensByCharacters", () => {
+  it("counts CJK text and code blocks with their own ratios", () => {
+    expect(estimateTokensByCharacters("")).toBe(0)
+    expect(estimateTokensByCharacters("Hello world")).toBe(3)
+    expect(estimateTokensByCharacters("안녕하세요")).toBe(3)
+    expect(estimateTokensByCharacters("```\nconst a = 1\n```")).toBe(Math.ceil(21 / 3.5))
+  })
+})
+
+describe("BPE tokenizers", () => {
+  beforeAll(async () => {
+    await Promise.all([loadTokenizer("o200k_base"), loadTokenizer("cl100k_base")])
+  })
+
+  it("counts o200k_base and cl100k_base tokens exactly", () => {
+    const o200k = getTokenizer("o200k_base")
+    const cl100k = getTokenizer("cl100k_base")
+
+    expect(o200k).toMatchObject({ id: "o200k_base", exact: true })
+    expect(o200k.countTokens("Hello world")).toBe(2)
+    expect(o200k.countTokens("")).toBe(0)
+    expect(cl100k.countTokens("Hello world")).toBe(2)
+    expect(cl100k.countTokens('<div className="flex-1">')).toBeGreaterThan(o200k.countTokens("Hello world"))
+  })
+
+  it("treats special token text as plain text", () => {
+    expect(() => getTokenizer("o200k_base").countTokens("before <|endoftext|> after")).not.toThrow()
+  })
+
+  it("scales a base vocabulary for families without a public one", async () => {
+    const text = "Create a responsive header with navigation links and a search input."
+    const claudeTokenizer = await loadTokenizer("claude")
+
+    expect(claudeTokenizer).toMatchObject({ id: "claude", exact: false })
+    expect(claudeTokenizer.countTokens(text)).toBe(Math.ceil(getTokenizer("cl100k_base").countTokens(text) * 1.15))
+    expect(getTokenizer("qwen").countTokens(text)).toBe(getTokenizer("cl100k_base").countTokens(text))
+  })
+
+  it("lets a registered tokenizer replace the built-in definition", () => {
+    const exactLlama: ITokenizer = { id: "llama", name: "Llama 4 (exact)", exact: true, countTokens: (t) => t.length }
+    registerTokenizer(exactLlama)
+    expect(getTokenizer("llama")).toBe(exactLlama)
+
+    unregisterTokenizer("llama")
+    expect(getTokenizer("llama").name).toBe("Llama (≈ o200k_base)")
+  })
+})
+
+describe("getModelTokenizerId", () => {
+  it("maps models to their family tokenizer", () => {
+    expect(getModelTokenizerId(gpt41)).toBe("o200k_base")
+    expect(getModelTokenizerId(claude)).toBe("claude")
+    expect(getModelTokenizerId(getModelMetadata("gemini-2.5-pro")!)).toBe("gemini")
+    expect(getModelTokenizerId(getModelMetadata("custom")!)).toBe("heuristic")
+    // 로컬 endpoint 모델은 원래 모델 계열
+    expect(getModelTokenizerId(getModelMetadata("local-qwen-2.5-coder")!)).toBe("qwen")
+  })
+
+  it("prefers the tokenizer set on the model", () => {
+    expect(getModelTokenizerId({ ...gpt41, tokenizer: "cl100k_base" })).toBe("cl100k_base")
+  })
+
+  it("uses the character estimate for unknown models", async () => {
+    expect(await loadModelTokenizer("not-a-model")).toBeInstanceOf(HeuristicTokenizer)
+  })
+})
+
+describe("prompt token usage", () => {
+  beforeAll(async () => {
+    await loadModelTokenizer("gpt-4.1")
+  })
+
+  it("splits system and user prompt tokens", () => {
+    const usage = countPromptTokens(gpt41, "You are an expert.", "Build a header.")
+    const o200k = getTokenizer("o200k_base")
+
+    expect(usage).toEqual({
+      system: o200k.countTokens("You are an expert."),
+      user: o200k.countTokens("Build a header."),
+      total: o200k.countTokens("You are an expert.") + o200k.countTokens("Build a header."),
+      tokenizer: "o200k_base",
+      exact: true,
+    })
+  })
+
+  it("reports token usage from the prompt strategy", () => {
+    const strategy = createPromptStrategy("gpt-4.1")
+    const result = strategy.generatePrompt(sampleSchemas.github, "react", "tailwind")
+    const systemPrompt = strategy.generateSystemPrompt("react", "tailwind")
+    const o200k = getTokenizer("o200k_base")
+
+    expect(result.success).toBe(true)
+    expect(result.tokenUsage).toMatchObject({ tokenizer: "o200k_base", exact: true })
+    expect(result.tokenUsage!.system).toBe(o200k.countTokens(systemPrompt))
+    expect(result.tokenUsage!.user).toBe(o200k.countTokens(result.prompt!.slice(systemPrompt.length)))
+    expect(result.estimatedTokens).toBe(result.tokenUsage!.total)
+  })
+})
+
+describe("estimateInputCost", () => {
+  it("prices input tokens with inputCostPer1M", () => {
+    expect(estimateInputCost(500_000, { level: "medium", inputCostPer1M: 2, description: "" })).toBe(1)
+    expect(estimateInputCost(1000, { level: "medium", description: "" })).toBeNull()
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Vue 3 + Tailwind Output Tests
+ *
+ * generateComponentCode(vue) → SFC, exportToFiles → App.vue, vue prompt template
+ */
+
+import { describe, it, expect } from 'vitest'
+import { generateComponentCode } from '../code-generator'
+import { exportToFiles } from '../file-exporter'
+import { getTemplate } from '../prompt-templates'
+import { generatePrompt } from '../prompt-generator'
+import { githubStyleSchema, simpleVerticalSchema } from './fixtures/test-schemas'
+import type { Component } from '@/types/schema'
+
+const header: Component = {
+  id: 'c1',
+  name: 'SiteHeader',
+  semanticTag: 'header',
+  positioning: { type: 'sticky', position: { top: 0, zIndex: 50 } },
+  layout: { type: 'flex', flex: { direction: 'row' } },
+}
+
+describe('Vue code generation', () => {
+  describe('generateComponentCode', () => {
+    it('should generate a script setup SFC with a default slot', () => {
+      const code = generateComponentCode(header, 'vue', 'tailwind')
+
+      expect(code).toContain('<script setup lang="ts">')
+      expect(code).toContain('defineSlots<{ default?: () => unknown }>()')
+      expect(code).toContain('<header class="sticky top-0 z-50 flex flex-row">')
+      expect(code).toContain('<slot />')
+      expect(code).not.toContain('children')
+      expect(code).not.toContain('className')
+    })
+
+    it('should use props.children as slot fallback content', () => {
+      const code = generateComponentCode(
+        { ...header, props: { children: 'Welcome' } },
+        'vue',
+        'tailwind'
+      )
+
+      expect(code).toContain('<slot>Welcome</slot>')
+    })
+
+    it('should wrap the slot in a container div', () => {
+      const code = generateComponentCode(
+        {
+          ...header,
+          layout: { type: 'container', container: { maxWidth: 'xl', padding: '1rem' } },
+        },
+        'vue',
+        'tailwind'
+      )
+
+      expect(code).toContain('<div class="container max-w-xl mx-auto px-4">')
+      expect(code.indexOf('<div class="container')).toBeLessThan(code.indexOf('<slot />'))
+    })
+
+    it('should keep React output unchanged by default', () => {
+      const code = generateComponentCode(header)
+
+      expect(code).toContain('export function SiteHeader({ children }')
+      expect(code).toContain('className="sticky top-0 z-50 flex flex-row"')
+    })
+
+    it('should reject unsupported CSS solutions', () => {
+      expect(() => generateComponentCode(header, 'vue', 'sass' as 'tailwind')).toThrow(
+        'Unsupported CSS solution'
+      )
+    })
+  })
+
+  describe('exportToFiles', () => {
+    it('should emit .vue components and App.vue', () => {
+      const files = exportToFiles({
+        schema: githubStyleSchema,
+        options: { framework: 'vue', cssSolution: 'tailwind' },
+      })
+
+      expect(files.map((f) => f.path)).toEqual([
+        'components/SiteHeader.vue',
+        'components/Sidebar.vue',
+        'components/MainContent.vue',
+        'App.vue',
+        'schema.json',
+      ])
+    })
+
+    it('should compose sidebar-main layout in App.vue', () => {
+      const files = exportToFiles({
+        schema: githubStyleSchema,
+        options: { framework: 'vue', cssSolution: 'tailwind' },
+      })
+      const app = files.find((f) => f.path === 'App.vue')!.content
+
+      expect(app).toContain('import SiteHeader from "./components/SiteHeader.vue"')
+      expect(app).toContain('<template>')
+      expect(app).toContain('  <SiteHeader />')
+      expect(app).toContain('<div class="flex">')
+      expect(app).toContain('    <MainContent>')
+      expect(app).toContain('<!-- Page content goes here -->')
+    })
+
+    it('should compose vertical layout in App.vue', () => {
+      const files = exportToFiles({
+        schema: simpleVerticalSchema,
+        options: { framework: 'vue', cssSolution: 'tailwind' },
+      })
+      const app = files.find((f) => f.path === 'App.vue')!.content
+
+      expect(app).toContain('<div class="flex flex-col min-h-screen">')
+      simpleVerticalSchema.components.forEach((comp) => {
+        expect(app).toContain(`    <${comp.name} />`)
+      })
+    })
+
+    it('should keep React export paths', () => {
+      const files = exportToFiles({
+        schema: githubStyleSchema,
+        options: { framework: 'react', cssSolution: 'tailwind' },
+      })
+
+      expect(files.map((f) => f.path)).toContain('components/SiteHeader.tsx')
+      expect(files.map((f) => f.path)).toContain('app/page.tsx')
+    })
+  })
+
+  describe('prompt template', () => {
+    it('should register vue + tailwind template', () => {
+      const template = getTemplate('vue', 'tailwind')
+
+      expect(template?.framework).toBe('vue')
+      expect(template?.systemPrompt).toContain('<script setup lang="ts">')
+      expect(template?.systemPrompt).toContain('<slot />')
+      expect(template?.systemPrompt).not.toContain('React.FC')
+      expect(template?.instructionsSection()).toContain('App.vue')
+    })
+
+    it('should generate a Vue prompt from schema', () => {
+      const result = generatePrompt(githubStyleSchema, 'vue', 'tailwind')
+
+      expect(result.success).toBe(true)
+      expect(result.prompt).toContain('senior Vue developer')
+      expect(result.prompt).toContain('SiteHeader (header)')
+      expect(result.prompt).toContain('Visual Layout (Canvas Grid)')
+    })
+  })
+})
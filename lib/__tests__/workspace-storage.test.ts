@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import {
+  restoreWorkspace,
+  readStoredWorkspace,
+  backupStoredWorkspace,
+  copyStoredWorkspace,
+  removeStoredWorkspace,
+  getWorkspaceStorageKey,
+  getWorkspaceBackupKey,
+  DEFAULT_PROJECT_ID,
+  WORKSPACE_STORAGE_VERSION,
+} from "../workspace-storage"
+import { createSchemaWithBreakpoint } from "../schema-utils"
+import { createEmptyHistory } from "../history-utils"
+import { useLayoutStore, createInitialWorkspace } from "@/store/layout-store"
+import type { LaydlerSchema } from "@/types/schema"
+
+function schemaWithComponents(): LaydlerSchema {
+  const schema = createSchemaWithBreakpoint("mobile")
+  return {
+    ...schema,
+    components: [
+      {
+        id: "c1",
+        name: "Header",
+        semanticTag: "header",
+        positioning: { type: "static" },
+        layout: { type: "flex" },
+        canvasLayout: { x: 0, y: 0, width: 4, height: 1 },
+      },
+      {
+        id: "c2",
+        name: "Footer",
+        semanticTag: "footer",
+        positioning: { type: "static" },
+        layout: { type: "flex" },
+        canvasLayout: { x: 0, y: 1, width: 4, height: 1 },
+      },
+    ],
+    layouts: { mobile: { structure: "vertical", components: ["c1", "c2"] } },
+  }
+}
+
+describe("workspace-storage", () => {
+  describe("getWorkspaceStorageKey", () => {
+    it("should key storage by project", () => {
+      expect(getWorkspaceStorageKey("default")).toBe("vlb-workspace:default")
+      expect(getWorkspaceBackupKey("p1")).toBe("vlb-workspace:p1:backup")
+    })
+  })
+
+  describe("restoreWorkspace", () => {
+    it("should restore a valid workspace", () => {
+      const schema = schemaWithComponents()
+      const result = restoreWorkspace({
+        schema,
+        componentLinks: [{ source: "c1", target: "c2" }],
+        currentBreakpoint: "mobile",
+      })
+
+      expect(result.errors).toEqual([])
+      expect(result.workspace).toEqual({
+        schema,
+        componentLinks: [{ source: "c1", target: "c2" }],
+        currentBreakpoint: "mobile",
+      })
+    })
+
+    it("should restore an empty workspace without validation warnings", () => {
+      const schema = createSchemaWithBreakpoint("desktop")
+      const result = restoreWorkspace({ schema, componentLinks: [], currentBreakpoint: "desktop" })
+
+      expect(result.workspace?.schema).toEqual(schema)
+      expect(result.warnings).toEqual([])
+    })
+
+    it("should reject non-object payloads and invalid schemas", () => {
+      expect(restoreWorkspace(null).workspace).toBeNull()
+      expect(restoreWorkspace({ schema: { schemaVersion: "9.9" } }).workspace).toBeNull()
+      expect(restoreWorkspace({}).errors.length).toBeGreaterThan(0)
+    })
+
+    it("should migrate legacy schema payloads", () => {
+      const result = restoreWorkspace({
+        schema: {
+          schemaVersion: "1.0",
+          components: [],
+          breakpoints: [{ name: "tablet", minWidth: 768 }],
+          layouts: {},
+        },
+        componentLinks: [],
+        currentBreakpoint: "tablet",
+      })
+
+      expect(result.appliedMigrations).toEqual(["1.0 → 2.0"])
+      expect(result.workspace?.schema.breakpoints[0]).toEqual({
+        name: "tablet",
+        minWidth: 768,
+        gridCols: 8,
+        gridRows: 8,
+      })
+    })
+
+    it("should drop orphaned links and fix unknown breakpoint", () => {
+      const result = restoreWorkspace({
+        schema: schemaWithComponents(),
+        componentLinks: [{ source: "c1", target: "c9" }, "broken"],
+        currentBreakpoint: "desktop",
+      })
+
+      expect(result.workspace?.componentLinks).toEqual([])
+      expect(result.workspace?.currentBreakpoint).toBe("mobile")
+      expect(result.warnings).toContain("Dropped 2 orphaned component link(s)")
+    })
+
+    it("should report validateSchema errors as warnings", () => {
+      const schema = schemaWithComponents()
+      schema.components[1].id = "c1"
+
+      const result = restoreWorkspace({ schema, componentLinks: [], currentBreakpoint: "mobile" })
+
+      expect(result.workspace).not.toBeNull()
+      expect(result.warnings.some((w) => w.includes("DUPLICATE_COMPONENT_ID"))).toBe(true)
+    })
+  })
+
+  describe("stored workspace helpers", () => {
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it("should return null when project has no stored workspace", () => {
+      expect(readStoredWorkspace("missing")).toBeNull()
+    })
+
+    it("should read workspace from persist envelope", () => {
+      const schema = createSchemaWithBreakpoint("tablet")
+      localStorage.setItem(
+        getWorkspaceStorageKey("p1"),
+        JSON.stringify({ version: 1, state: { schema, componentLinks: [], currentBreakpoint: "tablet" } })
+      )
+
+      expect(readStoredWorkspace("p1")?.workspace?.schema).toEqual(schema)
+    })
+
+    it("should report invalid JSON", () => {
+      localStorage.setItem(getWorkspaceStorageKey("p1"), "{not json")
+
+      const result = readStoredWorkspace("p1")
+      expect(result?.workspace).toBeNull()
+      expect(result?.errors).toEqual(["Stored workspace is not valid JSON"])
+    })
+
+    it("should copy, back up and remove stored workspaces", () => {
+      localStorage.setItem(getWorkspaceStorageKey("p1"), "payload")
+
+      expect(copyStoredWorkspace("p1", "p2")).toBe(true)
+      expect(copyStoredWorkspace("missing", "p3")).toBe(false)
+      expect(localStorage.getItem(getWorkspaceStorageKey("p2"))).toBe("payload")
+
+      backupStoredWorkspace("p1")
+      expect(localStorage.getItem(getWorkspaceBackupKey("p1"))).toBe("payload")
+
+      removeStoredWorkspace("p1")
+      expect(localStorage.getItem(getWorkspaceStorageKey("p1"))).toBeNull()
+      expect(localStorage.getItem(getWorkspaceBackupKey("p1"))).toBeNull()
+      expect(localStorage.getItem(getWorkspaceStorageKey("p2"))).toBe("payload")
+    })
+  })
+
+  describe("layout store persistence", () => {
+    const storageKey = getWorkspaceStorageKey(DEFAULT_PROJECT_ID)
+
+    beforeEach(() => {
+      localStorage.clear()
+      useLayoutStore.setState({
+        schema: createSchemaWithBreakpoint("mobile"),
+        currentBreakpoint: "mobile",
+        selectedComponentId: null,
+        componentLinks: [],
+        history: createEmptyHistory(),
+      })
+    })
+
+    it("should autosave schema, links and breakpoint only", () => {
+      useLayoutStore.getState().setSelectedComponentId("c1")
+
+      const stored = JSON.parse(localStorage.getItem(storageKey)!)
+      expect(stored.version).toBe(WORKSPACE_STORAGE_VERSION)
+      expect(Object.keys(stored.state).sort()).toEqual(["componentLinks", "currentBreakpoint", "schema"])
+    })
+
+    it("should keep current state when nothing is stored", async () => {
+      const before = useLayoutStore.getState().schema
+      localStorage.clear() // setState()의 autosave 제거
+
+      await useLayoutStore.persist.rehydrate()
+
+      expect(useLayoutStore.getState().schema).toBe(before)
+      expect(localStorage.getItem(getWorkspaceBackupKey(DEFAULT_PROJECT_ID))).toBeNull()
+    })
+
+    it("should rehydrate and migrate stored workspace", async () => {
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify({
+          version: WORKSPACE_STORAGE_VERSION,
+          state: {
+            schema: {
+              schemaVersion: "1.0",
+              components: [],
+              breakpoints: [{ name: "desktop", minWidth: 1024 }],
+              layouts: {},
+            },
+            componentLinks: [],
+            currentBreakpoint: "desktop",
+          },
+        })
+      )
+
+      await useLayoutStore.persist.rehydrate()
+
+      const state = useLayoutStore.getState()
+      expect(state.schema.schemaVersion).toBe("2.0")
+      expect(state.schema.breakpoints[0].gridCols).toBe(12)
+      expect(state.currentBreakpoint).toBe("desktop")
+    })
+
+    it("should keep current state and back up unrestorable payload", async () => {
+      const payload = { version: WORKSPACE_STORAGE_VERSION, state: { schema: { schemaVersion: "0.1" } } }
+      localStorage.setItem(storageKey, JSON.stringify(payload))
+
+      await useLayoutStore.persist.rehydrate()
+
+      expect(useLayoutStore.getState().schema.breakpoints[0].name).toBe("mobile")
+      expect(JSON.parse(localStorage.getItem(getWorkspaceBackupKey(DEFAULT_PROJECT_ID))!)).toEqual(
+        payload.state
+      )
+    })
+
+    it("should back up under the active project's id", async () => {
+      const payload = { version: WORKSPACE_STORAGE_VERSION, state: { schema: { schemaVersion: "0.1" } } }
+      useLayoutStore.getState().switchWorkspace("p1", createInitialWorkspace())
+      localStorage.setItem(getWorkspaceStorageKey("p1"), JSON.stringify(payload))
+
+      await useLayoutStore.persist.rehydrate()
+
+      expect(JSON.parse(localStorage.getItem(getWorkspaceBackupKey("p1"))!)).toEqual(payload.state)
+      expect(localStorage.getItem(getWorkspaceBackupKey(DEFAULT_PROJECT_ID))).toBeNull()
+    })
+  })
+})
@@ -23,6 +23,7 @@
 import type {
   AIModelId,
   AIModelMetadata,
+  BuiltInModelId,
   ModelRecommendationCriteria,
   ModelRecommendation,
 } from "@/types/ai-models"
@@ -959,12 +960,47 @@ const qwen25Coder32B: AIModelMetadata = {
   releaseDate: "2025-08",
 }
 
+/**
+ * Local Endpoint 모델 (OpenAI 호환 chat endpoint - Ollama, llama.cpp)
+ *
+ * provider는 custom (LOCAL_LLM_BASE_URL로 호출), 프롬프트는 원래 모델 계열의 전략 사용
+ */
+const localModelCost: AIModelMetadata["cost"] = {
+  level: "very-low",
+  inputCostPer1M: 0,
+  outputCostPer1M: 0,
+  description: "Self-hosted - 로컬 하드웨어에서 실행",
+}
+
+const localLlama4: AIModelMetadata = {
+  ...llama4,
+  id: "local-llama-4",
+  name: "Llama 4 (Local)",
+  provider: "custom",
+  promptStrategy: "meta",
+  description: "로컬 OpenAI 호환 endpoint에서 실행하는 Llama 4 (Ollama, llama.cpp). 외부 네트워크 불필요",
+  limitations: [...llama4.limitations, "LOCAL_LLM_BASE_URL 설정 필요"],
+  cost: localModelCost,
+}
+
+const localQwen25Coder: AIModelMetadata = {
+  ...qwen25Coder32B,
+  id: "local-qwen-2.5-coder",
+  name: "Qwen 2.5 Coder 32B (Local)",
+  provider: "custom",
+  promptStrategy: "alibaba",
+  description: "로컬 OpenAI 호환 endpoint에서 실행하는 Qwen 2.5 Coder 32B. 외부 네트워크 불필요",
+  limitations: [...qwen25Coder32B.limitations, "LOCAL_LLM_BASE_URL 설정 필요"],
+  cost: localModelCost,
+}
+
 /**
  * AI 모델 레지스트리
  *
- * 모든 AI 모델의 메타데이터 중앙 관리
+ * 내장 AI 모델의 메타데이터 중앙 관리
+ * 사용자 정의 모델/override는 runtime registry (setRuntimeModels)
  */
-export const AI_MODEL_REGISTRY: Record<AIModelId, AIModelMetadata> = {
+export const AI_MODEL_REGISTRY: Record<BuiltInModelId, AIModelMetadata> = {
   // Anthropic Claude
   "claude-sonnet-4.5": claudeSonnet45,
   "claude-sonnet-4": { ...claudeSonnet45, id: "claude-sonnet-4", name: "Claude Sonnet 4" },
@@ -1038,14 +1074,18 @@ export const AI_MODEL_REGISTRY: Record<AIModelId, AIModelMetadata> = {
   "qwen-2.5-coder": qwen25Coder,
   "qwen-2.5-coder-32b": qwen25Coder32B,
 
+  // Local Endpoint (OpenAI 호환)
+  "local-llama-4": localLlama4,
+  "local-qwen-2.5-coder": localQwen25Coder,
+
   // Custom
   "custom": {
     id: "custom",
     name: "Custom Model",
     provider: "custom",
-    description: "사용자 정의 모델",
+    description: "사용자 정의 모델 (로컬 OpenAI 호환 endpoint의 LOCAL_LLM_MODEL)",
     bestFor: ["사용자 정의 요구사항"],
-    limitations: ["설정 필요"],
+    limitations: ["LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL 설정 필요"],
     capabilities: {
       codeQuality: 5,
       algorithmSolving: 5,
@@ -1062,25 +1102,63 @@ export const AI_MODEL_REGISTRY: Record<AIModelId, AIModelMetadata> = {
   },
 }
 
+/**
+ * Runtime registry - 설정(JSON 파일, UI)에서 불러온 모델
+ *
+ * 내장 모델과 ID가 같으면 override, 다르면 새 모델
+ * 검증은 lib/model-registry-config.ts에서 마친 뒤 등록
+ */
+let runtimeModels = new Map<AIModelId, AIModelMetadata>()
+
+/**
+ * 내장 모델 ID 여부
+ */
+export function isBuiltInModelId(modelId: string): modelId is BuiltInModelId {
+  return Object.prototype.hasOwnProperty.call(AI_MODEL_REGISTRY, modelId)
+}
+
+/**
+ * Runtime 모델 교체 (빈 배열이면 내장 모델만 사용)
+ */
+export function setRuntimeModels(models: AIModelMetadata[]): void {
+  runtimeModels = new Map(models.map((model) => [model.id, model]))
+}
+
+/**
+ * Runtime 모델 목록
+ */
+export function getRuntimeModels(): AIModelMetadata[] {
+  return Array.from(runtimeModels.values())
+}
+
+/**
+ * 전체 모델 목록 (내장 모델 순서 유지, override 적용, 새 모델은 뒤에)
+ */
+export function getAllModels(): AIModelMetadata[] {
+  const builtIn = Object.values(AI_MODEL_REGISTRY).map((model) => runtimeModels.get(model.id) ?? model)
+  const added = getRuntimeModels().filter((model) => !isBuiltInModelId(model.id))
+  return [...builtIn, ...added]
+}
+
 /**
  * 모델 ID로 메타데이터 가져오기
  */
 export function getModelMetadata(modelId: AIModelId): AIModelMetadata | null {
-  return AI_MODEL_REGISTRY[modelId] || null
+  return runtimeModels.get(modelId) ?? (isBuiltInModelId(modelId) ? AI_MODEL_REGISTRY[modelId] : null)
 }
 
 /**
  * 활성화된 모델 목록 가져오기
  */
 export function getActiveModels(): AIModelMetadata[] {
-  return Object.values(AI_MODEL_REGISTRY).filter((model) => model.active)
+  return getAllModels().filter((model) => model.active)
 }
 
 /**
  * 프로바이더별 모델 목록 가져오기
  */
 export function getModelsByProvider(provider: string): AIModelMetadata[] {
-  return Object.values(AI_MODEL_REGISTRY).filter(
+  return getAllModels().filter(
     (model) => model.provider === provider && model.active
   )
 }
@@ -1089,11 +1167,13 @@ export function getModelsByProvider(provider: string): AIModelMetadata[] {
  * 모델 추천 알고리즘
  *
  * 주어진 기준에 따라 최적의 AI 모델 추천
+ *
+ * @param activeModels - 추천 대상 모델 (기본: 활성 모델 전체)
  */
 export function recommendModels(
-  criteria: ModelRecommendationCriteria
+  criteria: ModelRecommendationCriteria,
+  activeModels: AIModelMetadata[] = getActiveModels()
 ): ModelRecommendation[] {
-  const activeModels = getActiveModels()
   const recommendations: ModelRecommendation[] = []
 
   for (const model of activeModels) {
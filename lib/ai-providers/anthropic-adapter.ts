@@ -0,0 +1,57 @@
+/**
+ * Anthropic Provider Adapter
+ *
+ * Messages API (stream: true)
+ * - content_block_delta(text_delta) → 텍스트 조각
+ * - error 이벤트 → throw
+ */
+
+import type { ProviderCompletionRequest } from "@/types/ai-models"
+import { BaseProviderAdapter } from "./base-adapter"
+
+const ANTHROPIC_VERSION = "2023-06-01"
+
+/**
+ * Messages API는 max_tokens가 필수
+ */
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192
+
+interface AnthropicStreamEvent {
+  type: string
+  delta?: { type: string; text?: string }
+  error?: { type: string; message: string }
+}
+
+export class AnthropicAdapter extends BaseProviderAdapter {
+  readonly provider = "anthropic" as const
+
+  async *streamCompletion(request: ProviderCompletionRequest): AsyncGenerator<string> {
+    const events = this.postEvents(
+      "/v1/messages",
+      {
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      {
+        model: request.model,
+        max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        temperature: request.temperature,
+        stream: true,
+        messages: [{ role: "user", content: request.prompt }],
+      },
+      request.signal
+    )
+
+    for await (const message of events) {
+      const event = this.parseData<AnthropicStreamEvent>(message)
+
+      if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+        yield event.delta.text
+      } else if (event.type === "error") {
+        throw new Error(`anthropic stream error: ${event.error?.message ?? "unknown error"}`)
+      } else if (event.type === "message_stop") {
+        return
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Base Provider Adapter
+ *
+ * Provider adapter 공통 로직 (HTTP 요청, 에러 메시지, SSE 파싱)
+ * 각 adapter는 요청 body와 스트리밍 이벤트 해석만 구현
+ */
+
+import type { AIProvider, IProviderAdapter, ProviderCompletionRequest } from "@/types/ai-models"
+import { parseSSEStream, type SSEMessage } from "./sse"
+
+/**
+ * Adapter 설정 (서버 환경 변수에서 생성)
+ */
+export interface ProviderAdapterConfig {
+  /** API 키 */
+  apiKey: string
+  /** API base URL (테스트/프록시용으로 교체 가능) */
+  baseUrl: string
+  /** fetch 구현 (기본: global fetch) */
+  fetch?: typeof fetch
+}
+
+/**
+ * 추상 Provider Adapter
+ */
+export abstract class BaseProviderAdapter implements IProviderAdapter {
+  abstract readonly provider: AIProvider
+
+  protected readonly apiKey: string
+  protected readonly baseUrl: string
+  private readonly fetchImpl: typeof fetch
+
+  constructor(config: ProviderAdapterConfig) {
+    this.apiKey = config.apiKey
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "")
+    this.fetchImpl = config.fetch ?? fetch
+  }
+
+  abstract streamCompletion(request: ProviderCompletionRequest): AsyncIterable<string>
+
+  /**
+   * 스트리밍 요청 후 SSE 이벤트 반환 (HTTP 에러는 provider 메시지로 throw)
+   */
+  protected async *postEvents(
+    path: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal
+  ): AsyncGenerator<SSEMessage> {
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    })
+
+    if (!response.ok) {
+      throw new Error(await this.readErrorMessage(response))
+    }
+    if (!response.body) {
+      throw new Error(`${this.provider} returned an empty response`)
+    }
+
+    yield* parseSSEStream(response.body)
+  }
+
+  /**
+   * 스트림 이벤트 data(JSON) 파싱 - 형식이 다르면 provider 이름과 함께 throw
+   */
+  protected parseData<T>(message: SSEMessage): T {
+    try {
+      return JSON.parse(message.data) as T
+    } catch {
+      throw new Error(`${this.provider} sent an invalid stream event: ${message.data.slice(0, 200)}`)
+    }
+  }
+
+  /**
+   * 에러 응답 메시지 ({ error: { message } } 형식 우선)
+   */
+  private async readErrorMessage(response: Response): Promise<string> {
+    const fallback = `${this.provider} API request failed (${response.status}${response.statusText ? ` ${response.statusText}` : ""})`
+    try {
+      const data = await response.json()
+      const message = data?.error?.message ?? data?.[0]?.error?.message
+      return typeof message === "string" ? `${fallback}: ${message}` : fallback
+    } catch {
+      return fallback
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Google Gemini Provider Adapter
+ *
+ * streamGenerateContent (alt=sse)
+ * - candidates[0].content.parts[].text → 텍스트 조각
+ */
+
+import type { ProviderCompletionRequest } from "@/types/ai-models"
+import { BaseProviderAdapter } from "./base-adapter"
+
+interface GeminiStreamChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[]
+  error?: { message: string }
+}
+
+export class GeminiAdapter extends BaseProviderAdapter {
+  readonly provider = "google" as const
+
+  async *streamCompletion(request: ProviderCompletionRequest): AsyncGenerator<string> {
+    const events = this.postEvents(
+      `/v1beta/models/${encodeURIComponent(request.model)}:streamGenerateContent?alt=sse`,
+      { "x-goog-api-key": this.apiKey },
+      {
+        contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+        },
+      },
+      request.signal
+    )
+
+    for await (const message of events) {
+      const chunk = this.parseData<GeminiStreamChunk>(message)
+      if (chunk.error) {
+        throw new Error(`google stream error: ${chunk.error.message}`)
+      }
+
+      const text = chunk.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("")
+      if (text) yield text
+    }
+  }
+}
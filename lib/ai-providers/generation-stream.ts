@@ -0,0 +1,205 @@
+/**
+ * Generation Stream - /api/generate route 로직
+ *
+ * GenerationPackage + AIModelId → createPromptStrategy로 프롬프트 생성 → provider adapter 호출
+ * → 생성된 텍스트를 SSE로 스트리밍
+ *
+ * 이벤트:
+ * - start: { modelId, provider, estimatedTokens, tokenUsage }
+ * - token: { text }        (텍스트 조각)
+ * - done:  { code }        (전체 응답)
+ * - error: { message }     (스트리밍 중 실패, 이후 스트림 종료)
+ */
+
+import type { GenerationPackage } from "@/types/schema"
+import type { AIModelId, PromptGenerationOptions } from "@/types/ai-models"
+import { getModelMetadata } from "@/lib/ai-model-registry"
+import { createPromptStrategy } from "@/lib/prompt-strategies/strategy-factory"
+import { loadModelTokenizer } from "@/lib/tokenizers"
+import { createProviderAdapter, getProviderModelName, type ProviderEnv } from "./provider-factory"
+import { encodeSSE } from "./sse"
+
+/**
+ * SSE 이벤트 이름
+ */
+export const GENERATION_EVENTS = {
+  start: "start",
+  token: "token",
+  done: "done",
+  error: "error",
+} as const
+
+/**
+ * 기본 temperature (코드 생성은 낮게)
+ */
+const DEFAULT_TEMPERATURE = 0.2
+
+const FRAMEWORKS: GenerationPackage["options"]["framework"][] = ["react", "vue", "svelte", "solid"]
+const CSS_SOLUTIONS: GenerationPackage["options"]["cssSolution"][] = [
+  "tailwind",
+  "css-modules",
+  "styled-components",
+  "emotion",
+]
+
+/**
+ * POST /api/generate body
+ */
+export interface GenerationRequestBody {
+  pkg: GenerationPackage
+  modelId: AIModelId
+  /** 프롬프트 옵션 (targetModel은 modelId 사용) */
+  options?: Omit<PromptGenerationOptions, "targetModel" | "customSystemPrompt">
+}
+
+/**
+ * Route 실행 환경 (테스트에서 env/fetch 주입)
+ */
+export interface GenerationContext {
+  env?: ProviderEnv
+  fetch?: typeof fetch
+  /** 클라이언트 연결 종료 시 provider 요청도 취소 */
+  signal?: AbortSignal
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Request body 구조 검증 (schema 내용 검증은 strategy.generatePrompt가 담당)
+ */
+export function parseGenerationRequest(
+  body: unknown
+): { success: true; request: GenerationRequestBody } | { success: false; error: string } {
+  if (!isRecord(body)) {
+    return { success: false, error: "Request body must be a JSON object" }
+  }
+
+  const { pkg, modelId, options } = body
+  if (typeof modelId !== "string" || !getModelMetadata(modelId as AIModelId)?.active) {
+    return { success: false, error: `Unknown or inactive model: ${String(modelId)}` }
+  }
+  if (!isRecord(pkg) || !isRecord(pkg.schema) || !isRecord(pkg.options)) {
+    return { success: false, error: "pkg must be a GenerationPackage ({ schema, options })" }
+  }
+  if (!FRAMEWORKS.includes(pkg.options.framework as never)) {
+    return { success: false, error: `pkg.options.framework must be one of: ${FRAMEWORKS.join(", ")}` }
+  }
+  if (!CSS_SOLUTIONS.includes(pkg.options.cssSolution as never)) {
+    return { success: false, error: `pkg.options.cssSolution must be one of: ${CSS_SOLUTIONS.join(", ")}` }
+  }
+  if (options !== undefined && !isRecord(options)) {
+    return { success: false, error: "options must be an object" }
+  }
+  if (
+    options?.tokenBudget !== undefined &&
+    !(typeof options.tokenBudget === "number" && Number.isInteger(options.tokenBudget) && options.tokenBudget > 0)
+  ) {
+    return { success: false, error: "options.tokenBudget must be a positive integer" }
+  }
+
+  return {
+    success: true,
+    request: {
+      pkg: pkg as unknown as GenerationPackage,
+      modelId: modelId as AIModelId,
+      options: options as GenerationRequestBody["options"],
+    },
+  }
+}
+
+/**
+ * POST /api/generate 처리
+ *
+ * 스트림 시작 전 실패는 JSON 에러 응답 (400 잘못된 요청, 422 schema 오류, 503 provider 미설정)
+ */
+export async function handleGenerationRequest(
+  body: unknown,
+  context: GenerationContext = {}
+): Promise<Response> {
+  const parsed = parseGenerationRequest(body)
+  if (!parsed.success) {
+    return Response.json({ error: parsed.error }, { status: 400 })
+  }
+
+  const { pkg, modelId, options } = parsed.request
+  const metadata = getModelMetadata(modelId)!
+
+  // 정확한 토큰 수를 위해 모델 계열 vocab 로드 (프로세스당 한 번)
+  await loadModelTokenizer(modelId)
+
+  const strategy = createPromptStrategy(modelId)
+  const result = strategy.generatePrompt(pkg.schema, pkg.options.framework, pkg.options.cssSolution, {
+    ...options,
+    targetModel: modelId,
+  })
+  if (!result.success || !result.prompt) {
+    return Response.json(
+      { error: "Prompt generation failed", details: result.errors ?? [] },
+      { status: 422 }
+    )
+  }
+
+  const adapterResult = createProviderAdapter(metadata.provider, context.env, context.fetch)
+  if (!adapterResult.success) {
+    return Response.json({ error: adapterResult.error }, { status: 503 })
+  }
+  const model = getProviderModelName(modelId, context.env)
+  if (!model) {
+    return Response.json(
+      { error: `Model "${modelId}" is not configured on the server. Set LOCAL_LLM_MODEL.` },
+      { status: 503 }
+    )
+  }
+
+  const { adapter } = adapterResult
+  const prompt = result.prompt
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(encodeSSE(event, data)))
+
+      send(GENERATION_EVENTS.start, {
+        modelId,
+        provider: metadata.provider,
+        estimatedTokens: result.estimatedTokens,
+        tokenUsage: result.tokenUsage,
+      })
+
+      let code = ""
+      try {
+        for await (const text of adapter.streamCompletion({
+          model,
+          prompt,
+          temperature: options?.temperature ?? DEFAULT_TEMPERATURE,
+          maxOutputTokens: metadata.performance.maxOutputTokens,
+          signal: context.signal,
+        })) {
+          code += text
+          send(GENERATION_EVENTS.token, { text })
+        }
+        send(GENERATION_EVENTS.done, { code })
+      } catch (error) {
+        // 클라이언트가 연결을 끊었으면 보낼 곳이 없음
+        if (!context.signal?.aborted) {
+          send(GENERATION_EVENTS.error, {
+            message: error instanceof Error ? error.message : "Generation failed",
+          })
+        }
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
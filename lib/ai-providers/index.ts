@@ -0,0 +1,49 @@
+/**
+ * AI Providers Module (서버 전용)
+ *
+ * Provider API를 직접 호출하는 adapter 모음 - route handler에서만 import
+ * 브라우저는 /api/generate (SSE)를 사용하고 API 키를 알 수 없음
+ *
+ * @example
+ * const result = createProviderAdapter("anthropic")
+ * if (result.success) {
+ *   for await (const text of result.adapter.streamCompletion({ model: "claude-sonnet-4-5", prompt })) {
+ *     process.stdout.write(text)
+ *   }
+ * }
+ */
+
+// Base Adapter
+export { BaseProviderAdapter, type ProviderAdapterConfig } from "./base-adapter"
+
+// Provider-Specific Adapters
+export { AnthropicAdapter } from "./anthropic-adapter"
+export { OpenAICompatibleAdapter } from "./openai-adapter"
+export { GeminiAdapter } from "./gemini-adapter"
+
+// Factory
+export {
+  createProviderAdapter,
+  getProviderModelName,
+  getSupportedProviders,
+  type ProviderAdapterResult,
+  type ProviderEnv,
+} from "./provider-factory"
+
+// Route logic
+export {
+  GENERATION_EVENTS,
+  handleGenerationRequest,
+  parseGenerationRequest,
+  type GenerationContext,
+  type GenerationRequestBody,
+} from "./generation-stream"
+
+// Model registry file (MODEL_REGISTRY_FILE)
+export { getConfiguredModelIds, loadModelRegistryFile } from "./model-config-file"
+
+// SSE
+export { encodeSSE, parseSSEStream, type SSEMessage } from "./sse"
+
+// Re-export types for convenience
+export type { IProviderAdapter, ProviderCompletionRequest } from "@/types/ai-models"
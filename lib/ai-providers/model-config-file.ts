@@ -0,0 +1,58 @@
+/**
+ * Model Registry File - 서버의 사용자 정의 모델 설정 (서버 전용)
+ *
+ * MODEL_REGISTRY_FILE 환경 변수의 JSON 파일을 읽어 runtime registry에 적용
+ * 형식은 lib/model-registry-config.ts 참고 (UI 설정과 동일)
+ * 프로세스당 한 번만 읽으므로 파일을 바꾸면 서버를 재시작
+ */
+
+import { readFile } from "node:fs/promises"
+import {
+  applyModelRegistryConfig,
+  type ModelRegistryConfigResult,
+} from "@/lib/model-registry-config"
+import type { ProviderEnv } from "./provider-factory"
+
+let loaded: { path: string; result: Promise<ModelRegistryConfigResult> } | null = null
+
+/**
+ * 설정 파일 로드 + 적용
+ *
+ * @returns MODEL_REGISTRY_FILE이 없으면 null
+ */
+export function loadModelRegistryFile(
+  env: ProviderEnv = process.env
+): Promise<ModelRegistryConfigResult> | null {
+  const path = env.MODEL_REGISTRY_FILE
+  if (!path) return null
+
+  if (loaded?.path !== path) {
+    loaded = {
+      path,
+      result: readFile(path, "utf8").then(
+        (text) => applyModelRegistryConfig(text),
+        (error: Error) => ({
+          valid: false,
+          models: [],
+          errors: [`Cannot read ${path}: ${error.message}`],
+          overrides: 0,
+          added: 0,
+        })
+      ),
+    }
+  }
+
+  return loaded.result
+}
+
+/**
+ * 설정 파일에 정의된 활성 모델 ID
+ *
+ * UI에서만 정의한 모델은 서버가 모르므로, 브라우저가 서버 생성 가능 여부를 판단할 때 사용
+ *
+ * @returns MODEL_REGISTRY_FILE이 없거나 유효하지 않으면 빈 배열
+ */
+export async function getConfiguredModelIds(env: ProviderEnv = process.env): Promise<string[]> {
+  const result = await loadModelRegistryFile(env)
+  return result?.valid ? result.models.filter((model) => model.active).map((model) => model.id) : []
+}
@@ -0,0 +1,58 @@
+/**
+ * OpenAI-Compatible Provider Adapter
+ *
+ * Chat Completions API (stream: true) - OpenAI, DeepSeek, xAI가 같은 형식을 사용
+ * - choices[0].delta.content → 텍스트 조각
+ * - "data: [DONE]" → 종료
+ */
+
+import type { AIProvider, ProviderCompletionRequest } from "@/types/ai-models"
+import { BaseProviderAdapter, type ProviderAdapterConfig } from "./base-adapter"
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[]
+  error?: { message: string }
+}
+
+/**
+ * o1/o3 계열 추론 모델은 temperature를 지원하지 않음
+ */
+function isReasoningModel(model: string): boolean {
+  return /^o\d/.test(model)
+}
+
+export class OpenAICompatibleAdapter extends BaseProviderAdapter {
+  readonly provider: AIProvider
+
+  constructor(provider: AIProvider, config: ProviderAdapterConfig) {
+    super(config)
+    this.provider = provider
+  }
+
+  async *streamCompletion(request: ProviderCompletionRequest): AsyncGenerator<string> {
+    const events = this.postEvents(
+      "/chat/completions",
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      {
+        model: request.model,
+        messages: [{ role: "user", content: request.prompt }],
+        ...(isReasoningModel(request.model) ? {} : { temperature: request.temperature }),
+        ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+        stream: true,
+      },
+      request.signal
+    )
+
+    for await (const message of events) {
+      if (message.data === "[DONE]") return
+
+      const chunk = this.parseData<ChatCompletionChunk>(message)
+      if (chunk.error) {
+        throw new Error(`${this.provider} stream error: ${chunk.error.message}`)
+      }
+
+      const text = chunk.choices?.[0]?.delta?.content
+      if (text) yield text
+    }
+  }
+}
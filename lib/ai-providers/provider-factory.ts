@@ -0,0 +1,175 @@
+/**
+ * Provider Adapter Factory
+ *
+ * AIProvider → adapter 생성 (서버 전용)
+ *
+ * API 키는 서버 환경 변수(NEXT_PUBLIC_ 없음)에서만 읽으므로 브라우저 번들에 포함되지 않음
+ * base URL도 환경 변수로 교체 가능 (프록시, 로컬 mock 서버)
+ *
+ * custom provider는 로컬 OpenAI 호환 endpoint (Ollama, llama.cpp 등)
+ * - LOCAL_LLM_BASE_URL: 예) http://localhost:11434/v1 (Ollama), http://localhost:8080/v1 (llama.cpp)
+ * - LOCAL_LLM_MODEL: "custom" 모델이 사용할 모델 이름 (사용자 정의 모델은 providerModel로 지정)
+ * - LOCAL_LLM_API_KEY: 선택 (llama.cpp --api-key 등)
+ */
+
+import type { AIModelId, AIProvider, IProviderAdapter } from "@/types/ai-models"
+import type { ProviderAdapterConfig } from "./base-adapter"
+import { getModelMetadata } from "../ai-model-registry"
+import { AnthropicAdapter } from "./anthropic-adapter"
+import { OpenAICompatibleAdapter } from "./openai-adapter"
+import { GeminiAdapter } from "./gemini-adapter"
+
+/**
+ * 서버 환경 변수 (테스트에서 주입 가능)
+ */
+export type ProviderEnv = Record<string, string | undefined>
+
+interface ProviderDefinition {
+  /** API 키 환경 변수 */
+  apiKeyEnv: string
+  /** 키 없이 호출 가능 (로컬 endpoint) */
+  apiKeyOptional?: boolean
+  /** base URL 환경 변수 */
+  baseUrlEnv: string
+  /** 없으면 baseUrlEnv 설정 필수 */
+  defaultBaseUrl?: string
+  create: (config: ProviderAdapterConfig) => IProviderAdapter
+}
+
+/**
+ * Provider to Adapter Mapping
+ *
+ * 호스팅 API가 있는 provider + 로컬 endpoint(custom)
+ * meta, alibaba는 open-weight라 호스팅 API가 없음 → local-* 모델(custom)로 로컬 실행
+ * 새로운 provider 추가 시 여기만 수정하면 됨
+ */
+const PROVIDER_ADAPTER_MAP: Partial<Record<AIProvider, ProviderDefinition>> = {
+  anthropic: {
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    baseUrlEnv: "ANTHROPIC_BASE_URL",
+    defaultBaseUrl: "https://api.anthropic.com",
+    create: (config) => new AnthropicAdapter(config),
+  },
+  openai: {
+    apiKeyEnv: "OPENAI_API_KEY",
+    baseUrlEnv: "OPENAI_BASE_URL",
+    defaultBaseUrl: "https://api.openai.com/v1",
+    create: (config) => new OpenAICompatibleAdapter("openai", config),
+  },
+  google: {
+    apiKeyEnv: "GOOGLE_API_KEY",
+    baseUrlEnv: "GOOGLE_BASE_URL",
+    defaultBaseUrl: "https://generativelanguage.googleapis.com",
+    create: (config) => new GeminiAdapter(config),
+  },
+  deepseek: {
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    baseUrlEnv: "DEEPSEEK_BASE_URL",
+    defaultBaseUrl: "https://api.deepseek.com/v1",
+    create: (config) => new OpenAICompatibleAdapter("deepseek", config),
+  },
+  xai: {
+    apiKeyEnv: "XAI_API_KEY",
+    baseUrlEnv: "XAI_BASE_URL",
+    defaultBaseUrl: "https://api.x.ai/v1",
+    create: (config) => new OpenAICompatibleAdapter("xai", config),
+  },
+  custom: {
+    apiKeyEnv: "LOCAL_LLM_API_KEY",
+    apiKeyOptional: true,
+    baseUrlEnv: "LOCAL_LLM_BASE_URL",
+    create: (config) => new OpenAICompatibleAdapter("custom", config),
+  },
+}
+
+/**
+ * Provider API의 모델 이름이 registry ID와 다른 경우
+ */
+const PROVIDER_MODEL_NAMES: Partial<Record<AIModelId, string>> = {
+  "claude-sonnet-4": "claude-sonnet-4-0",
+  "claude-sonnet-4.5": "claude-sonnet-4-5",
+  "claude-opus-4": "claude-opus-4-0",
+  "claude-opus-4.5": "claude-opus-4-5",
+  "claude-haiku-3.5": "claude-3-5-haiku-latest",
+  "gemini-3-pro": "gemini-3-pro-preview",
+  "gemini-3-flash": "gemini-3-flash-preview",
+  "deepseek-r1": "deepseek-reasoner",
+  "deepseek-v3": "deepseek-chat",
+  "deepseek-coder-v2": "deepseek-chat",
+  // 로컬 endpoint 기본값은 Ollama 태그 (llama.cpp 서버는 모델 이름을 무시)
+  "local-llama-4": "llama4",
+  "local-qwen-2.5-coder": "qwen2.5-coder:32b",
+}
+
+/**
+ * Adapter 생성 결과
+ */
+export type ProviderAdapterResult =
+  | { success: true; adapter: IProviderAdapter }
+  | { success: false; error: string }
+
+/**
+ * Provider API 모델 이름
+ *
+ * registry의 providerModel이 있으면 우선 사용
+ * "custom" 모델은 LOCAL_LLM_MODEL을 사용하고, 설정되지 않았으면 null
+ *
+ * @example
+ * getProviderModelName("claude-sonnet-4.5")  // "claude-sonnet-4-5"
+ * getProviderModelName("gpt-4.1")            // "gpt-4.1"
+ * getProviderModelName("custom", { LOCAL_LLM_MODEL: "codestral" })  // "codestral"
+ * getProviderModelName("acme-coder")  // providerModel: "qwen2.5-coder:14b" → "qwen2.5-coder:14b"
+ */
+export function getProviderModelName(
+  modelId: AIModelId,
+  env: ProviderEnv = process.env
+): string | null {
+  const providerModel = getModelMetadata(modelId)?.providerModel
+  if (providerModel) return providerModel
+  if (modelId === "custom") return env.LOCAL_LLM_MODEL || null
+  return PROVIDER_MODEL_NAMES[modelId] ?? modelId
+}
+
+/**
+ * 서버 API 호출이 가능한 provider 목록
+ */
+export function getSupportedProviders(): AIProvider[] {
+  return Object.keys(PROVIDER_ADAPTER_MAP) as AIProvider[]
+}
+
+/**
+ * Provider adapter 생성
+ *
+ * 키가 없으면 어떤 환경 변수가 필요한지만 알려줌 (키 값은 응답에 포함하지 않음)
+ */
+export function createProviderAdapter(
+  provider: AIProvider,
+  env: ProviderEnv = process.env,
+  fetchImpl?: typeof fetch
+): ProviderAdapterResult {
+  const definition = PROVIDER_ADAPTER_MAP[provider]
+  if (!definition) {
+    return {
+      success: false,
+      error: `Provider "${provider}" has no hosted API. Use a local endpoint model or copy the prompt instead.`,
+    }
+  }
+
+  const apiKey = env[definition.apiKeyEnv] ?? ""
+  const baseUrl = env[definition.baseUrlEnv] || definition.defaultBaseUrl
+  const missing = [
+    ...(!apiKey && !definition.apiKeyOptional ? [definition.apiKeyEnv] : []),
+    ...(!baseUrl ? [definition.baseUrlEnv] : []),
+  ]
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `Provider "${provider}" is not configured on the server. Set ${missing.join(", ")}.`,
+    }
+  }
+
+  return {
+    success: true,
+    adapter: definition.create({ apiKey, baseUrl: baseUrl!, fetch: fetchImpl }),
+  }
+}
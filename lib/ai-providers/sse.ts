@@ -0,0 +1,84 @@
+/**
+ * Server-Sent Events 유틸리티
+ *
+ * - parseSSEStream: Provider 응답(SSE)을 이벤트 단위로 읽음
+ * - encodeSSE: route handler가 클라이언트로 보낼 이벤트를 직렬화
+ */
+
+/**
+ * SSE 이벤트 하나
+ */
+export interface SSEMessage {
+  /** event: 필드 (없으면 "message") */
+  event: string
+  /** data: 필드 (여러 줄이면 "\n"으로 연결) */
+  data: string
+}
+
+/**
+ * SSE 응답 body를 이벤트 단위로 파싱
+ *
+ * 이벤트는 빈 줄로 구분되고, 청크 경계가 줄 중간에 걸쳐도 버퍼링해서 처리
+ * 주석(":"로 시작)과 id/retry 필드는 무시
+ */
+export async function* parseSSEStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let event = "message"
+  let dataLines: string[] = []
+
+  const flush = (): SSEMessage | null => {
+    const message = dataLines.length > 0 ? { event, data: dataLines.join("\n") } : null
+    event = "message"
+    dataLines = []
+    return message
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      const lines = buffer.split(/\r\n|\r|\n/)
+      // 마지막 줄은 아직 끝나지 않았을 수 있음
+      buffer = done ? "" : lines.pop() ?? ""
+
+      for (const line of lines) {
+        if (line === "") {
+          const message = flush()
+          if (message) yield message
+          continue
+        }
+        if (line.startsWith(":")) continue
+
+        const separator = line.indexOf(":")
+        const field = separator === -1 ? line : line.slice(0, separator)
+        const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "")
+
+        if (field === "event") event = value
+        else if (field === "data") dataLines.push(value)
+      }
+
+      if (done) {
+        const message = flush()
+        if (message) yield message
+        return
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * SSE 이벤트 직렬화 (data는 JSON)
+ *
+ * @example
+ * encodeSSE("token", { text: "<header" })  // 'event: token\ndata: {"text":"<header"}\n\n'
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
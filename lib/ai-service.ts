@@ -10,6 +10,8 @@ import { generatePrompt } from "./prompt-generator"
 // Note: ai-service-v2.ts는 더 이상 사용하지 않음
 // Laylder는 AI API를 직접 호출하지 않고, 사용자가 복붙할 프롬프트만 제공
 // 이 파일은 이전 버전의 유산이며, 실제로는 generatePrompt()만 사용
+// 서버에서 모델을 직접 호출하려면 /api/generate (lib/ai-providers) 사용
+// API 키는 서버 환경 변수만 읽음 - NEXT_PUBLIC_ 변수는 브라우저 번들에 포함되므로 사용하지 않음
 
 export interface AIGenerationRequest {
   pkg: GenerationPackage
@@ -58,7 +60,7 @@ export async function generateCodeWithAI(
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.NEXT_PUBLIC_OPENAI_API_KEY || process.env.OPENAI_API_KEY}`,
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
       },
       body: JSON.stringify({
         model,
@@ -131,7 +133,7 @@ export async function generateCodeWithClaude(
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "x-api-key": process.env.NEXT_PUBLIC_ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY || "",
+        "x-api-key": process.env.ANTHROPIC_API_KEY || "",
         "anthropic-version": "2023-06-01",
       },
       body: JSON.stringify({
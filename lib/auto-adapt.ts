@@ -0,0 +1,276 @@
+/**
+ * Auto-Adapt - source breakpoint의 Canvas 배치에서 target breakpoint 배치 제안
+ *
+ * normalizeSchema는 breakpoint 상속을 하지 않으므로 (완전 독립),
+ * 사용자가 명시적으로 실행하는 "auto-adapt" 명령으로 초안을 만들고 미리보기 후 적용
+ *
+ * 시맨틱 규칙:
+ * - header/nav/footer, source에서 전체 너비였던 컴포넌트: 전체 너비 유지
+ * - 좁아질 때 sidebar(aside)는 같은 행의 main 아래로 내려감
+ * - 다중 열 행: 열이 최소 너비(MIN_COLUMN_WIDTH)보다 좁아지면 세로로 쌓음
+ * - 높이(행 수)와 행 사이 간격은 유지, 중첩 컴포넌트는 부모 영역 안에서 같은 규칙으로 재배치
+ */
+
+import type { CanvasLayout, Component, LaydlerSchema, LayoutConfig } from "@/types/schema"
+import { getCanvasLayoutForBreakpoint } from "./canvas-utils"
+import { getChildComponents } from "./component-tree"
+
+/**
+ * 다중 열 행을 유지할 최소 열 너비 (grid 칸)
+ */
+export const MIN_COLUMN_WIDTH = 2
+
+/**
+ * Auto-adapt 옵션 (미리보기에서 조정)
+ */
+export interface AutoAdaptOptions {
+  /** 다중 열 행 처리: auto = 너무 좁아질 때만 쌓기, always = 항상 쌓기 */
+  stackColumns?: "auto" | "always"
+  /** 좁아질 때 sidebar를 main 아래로 (기본: true) */
+  collapseSidebars?: boolean
+}
+
+/**
+ * Auto-adapt 제안
+ */
+export interface AdaptedLayout {
+  sourceBreakpoint: string
+  targetBreakpoint: string
+  /** 컴포넌트별 target breakpoint canvas layout (최상위 + 자손) */
+  canvasLayouts: Record<string, CanvasLayout>
+  /** target breakpoint LayoutConfig (최상위 컴포넌트 순서) */
+  layout: LayoutConfig
+  /** 제안 배치에 필요한 grid 크기 (rows는 target grid보다 클 수 있음) */
+  gridCols: number
+  gridRows: number
+}
+
+const FULL_WIDTH_TAGS = new Set(["header", "nav", "footer"])
+
+interface Item {
+  component: Component
+  source: CanvasLayout
+}
+
+/**
+ * 세로 범위가 겹치는 컴포넌트끼리 한 행(band)으로 묶기 (위→아래, 행 안에서는 왼쪽→오른쪽)
+ */
+function groupIntoBands(items: Item[]): Item[][] {
+  const sorted = [...items].sort((a, b) => a.source.y - b.source.y || a.source.x - b.source.x)
+  const bands: Array<{ bottom: number; items: Item[] }> = []
+
+  for (const item of sorted) {
+    const band = bands[bands.length - 1]
+    if (band && item.source.y < band.bottom) {
+      band.items.push(item)
+      band.bottom = Math.max(band.bottom, item.source.y + item.source.height)
+    } else {
+      bands.push({ bottom: item.source.y + item.source.height, items: [item] })
+    }
+  }
+
+  return bands.map((band) => band.items.sort((a, b) => a.source.x - b.source.x))
+}
+
+/**
+ * 가로 구간 [start, end)를 target 너비로 비례 변환 (경계를 반올림해 겹침 방지)
+ */
+function scaleColumns(items: Item[], sourceStart: number, sourceWidth: number, width: number) {
+  const scale = width / sourceWidth
+  return items.map((item) => {
+    const start = Math.round((item.source.x - sourceStart) * scale)
+    const end = Math.round((item.source.x + item.source.width - sourceStart) * scale)
+    return { item, x: start, width: end - start }
+  })
+}
+
+interface AdaptContext {
+  components: Component[]
+  sourceBreakpoint: string
+  options: Required<AutoAdaptOptions>
+  /** 결과: 컴포넌트별 target canvas layout */
+  layouts: Record<string, CanvasLayout>
+}
+
+/**
+ * 형제 컴포넌트를 area(x, width) 안에 area.y부터 배치
+ *
+ * @returns 배치된 컴포넌트의 가장 아래 행 (배치할 컴포넌트가 없으면 area.y)
+ */
+function placeGroup(
+  ctx: AdaptContext,
+  siblings: Component[],
+  sourceArea: { x: number; y: number; width: number },
+  area: { x: number; y: number; width: number }
+): number {
+  const items = siblings
+    .map((component) => ({
+      component,
+      source: getCanvasLayoutForBreakpoint(component, ctx.sourceBreakpoint),
+    }))
+    .filter((item): item is Item => item.source !== undefined)
+
+  let bottom = area.y
+  let previousSourceBottom = sourceArea.y
+
+  for (const band of groupIntoBands(items)) {
+    const bandTop = Math.min(...band.map((item) => item.source.y))
+    // 행 사이 간격 유지 (첫 행은 부모 안쪽 여백)
+    const y = bottom + Math.max(0, bandTop - previousSourceBottom)
+    previousSourceBottom = Math.max(...band.map((item) => item.source.y + item.source.height))
+    bottom = placeBand(ctx, band, bandTop, sourceArea, { ...area, y })
+  }
+
+  return bottom
+}
+
+/**
+ * 한 행 배치: 열 유지(비례 축소) 또는 세로로 쌓기, sidebar는 행 아래로
+ */
+function placeBand(
+  ctx: AdaptContext,
+  band: Item[],
+  bandTop: number,
+  sourceArea: { x: number; width: number },
+  area: { x: number; y: number; width: number }
+): number {
+  const narrower = area.width < sourceArea.width
+  const sidebars =
+    narrower && ctx.options.collapseSidebars && band.some((item) => item.component.semanticTag !== "aside")
+      ? band.filter((item) => item.component.semanticTag === "aside")
+      : []
+  const row = band.filter((item) => !sidebars.includes(item))
+
+  // sidebar를 뺀 나머지는 남은 구간을 전체 너비로 채움
+  const rowStart = sidebars.length > 0 ? Math.min(...row.map((item) => item.source.x)) : sourceArea.x
+  const rowWidth =
+    sidebars.length > 0
+      ? Math.max(...row.map((item) => item.source.x + item.source.width)) - rowStart
+      : sourceArea.width
+  const columns = scaleColumns(row, rowStart, rowWidth, area.width)
+
+  const stack =
+    row.length > 1 &&
+    (ctx.options.stackColumns === "always" ||
+      (narrower && columns.some((column) => column.width < MIN_COLUMN_WIDTH)))
+
+  let bottom = area.y
+  if (stack) {
+    for (const item of row) {
+      bottom = placeItem(ctx, item, { x: area.x, y: bottom, width: area.width })
+    }
+  } else {
+    for (const { item, x, width } of columns) {
+      const fullWidth =
+        row.length === 1 &&
+        (FULL_WIDTH_TAGS.has(item.component.semanticTag) || item.source.width >= sourceArea.width)
+      const placed = fullWidth
+        ? { x: area.x, width: area.width }
+        : { x: area.x + x, width: Math.max(1, width) }
+      bottom = Math.max(
+        bottom,
+        placeItem(ctx, item, { ...placed, y: area.y + item.source.y - bandTop })
+      )
+    }
+  }
+
+  for (const item of sidebars) {
+    bottom = placeItem(ctx, item, { x: area.x, y: bottom, width: area.width })
+  }
+
+  return bottom
+}
+
+/**
+ * 컴포넌트 하나 배치 (자식은 부모 영역 안에서 재배치, 자식이 넘치면 부모 높이 증가)
+ *
+ * @returns 컴포넌트의 아래쪽 행
+ */
+function placeItem(
+  ctx: AdaptContext,
+  item: Item,
+  position: { x: number; y: number; width: number }
+): number {
+  const children = getChildComponents(ctx.components, item.component.id)
+  const contentBottom = placeGroup(ctx, children, item.source, position)
+  const height = Math.max(item.source.height, contentBottom - position.y)
+
+  ctx.layouts[item.component.id] = { ...position, height }
+  return position.y + height
+}
+
+/**
+ * source breakpoint 배치에서 target breakpoint 배치 제안 생성
+ *
+ * @param schema - 현재 schema
+ * @param sourceBreakpoint - 기준 breakpoint (보통 desktop)
+ * @param targetBreakpoint - 제안을 만들 breakpoint
+ * @param options - 미리보기에서 조정한 옵션
+ * @returns 제안, source에 배치된 컴포넌트가 없거나 breakpoint가 없으면 null
+ *
+ * @example
+ * const proposal = adaptLayout(schema, "desktop", "mobile")
+ * // Sidebar + Main 행 → Main 아래에 Sidebar, 카드 3열 → 세로로 쌓기
+ * if (proposal) applyAdaptedLayout(proposal)
+ */
+export function adaptLayout(
+  schema: LaydlerSchema,
+  sourceBreakpoint: string,
+  targetBreakpoint: string,
+  options: AutoAdaptOptions = {}
+): AdaptedLayout | null {
+  const source = schema.breakpoints.find((bp) => bp.name === sourceBreakpoint)
+  const target = schema.breakpoints.find((bp) => bp.name === targetBreakpoint)
+  const sourceLayout = schema.layouts[sourceBreakpoint]
+  if (!source || !target || !sourceLayout || sourceBreakpoint === targetBreakpoint) return null
+
+  const roots = sourceLayout.components
+    .map((id) => schema.components.find((c) => c.id === id))
+    .filter((c): c is Component => c !== undefined)
+  if (roots.length === 0) return null
+
+  const ctx: AdaptContext = {
+    components: schema.components,
+    sourceBreakpoint,
+    options: {
+      stackColumns: options.stackColumns ?? "auto",
+      collapseSidebars: options.collapseSidebars ?? true,
+    },
+    layouts: {},
+  }
+  const bottom = placeGroup(
+    ctx,
+    roots,
+    { x: 0, y: 0, width: source.gridCols },
+    { x: 0, y: 0, width: target.gridCols }
+  )
+  const layouts = ctx.layouts
+
+  // 최상위 순서: 위→아래, 왼쪽→오른쪽 (source에 배치되지 않은 컴포넌트는 뒤에 유지)
+  const placed = roots
+    .filter((c) => layouts[c.id])
+    .sort((a, b) => layouts[a.id].y - layouts[b.id].y || layouts[a.id].x - layouts[b.id].x)
+  const ordered = [...placed, ...roots.filter((c) => !layouts[c.id])]
+
+  // 모든 최상위 컴포넌트가 세로로 쌓였으면 vertical, 아니면 source 구조 유지
+  const isStacked = placed.every((c, index) => {
+    const previous = placed[index - 1]
+    return !previous || layouts[c.id].y >= layouts[previous.id].y + layouts[previous.id].height
+  })
+
+  return {
+    sourceBreakpoint,
+    targetBreakpoint,
+    canvasLayouts: layouts,
+    layout: {
+      ...sourceLayout,
+      structure: isStacked ? "vertical" : sourceLayout.structure,
+      components: ordered.map((c) => c.id),
+      ...(isStacked && sourceLayout.containerLayout
+        ? { containerLayout: { type: "flex", flex: { direction: "column" } } }
+        : {}),
+    },
+    gridCols: target.gridCols,
+    gridRows: Math.max(target.gridRows, bottom),
+  }
+}
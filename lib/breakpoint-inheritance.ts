@@ -0,0 +1,291 @@
+/**
+ * Breakpoint Inheritance - opt-in breakpoint 상속 (schema.breakpointInheritance)
+ *
+ * 기본("none")은 breakpoint별 완전 독립 (normalizeSchema는 상속하지 않음)
+ * 상속 모드에서는 schema에 명시적인 override만 저장하고, 비어 있는 값은 읽을 때 해석:
+ * - LayoutConfig: components가 빈 breakpoint → 상속 방향으로 가장 가까운, components가 있는 breakpoint
+ * - Canvas 위치: responsiveCanvasLayout[bp]가 없는 컴포넌트 → 위치가 있는 가장 가까운 breakpoint
+ *
+ * Override는 해당 breakpoint에 값을 쓸 때 생김 (드래그/리사이즈, 컴포넌트 추가/순서 변경)
+ * store.resetCanvasOverride / resetLayoutOverride로 다시 상속 상태로 되돌림
+ */
+
+import type {
+  BreakpointInheritanceMode,
+  CanvasLayout,
+  Component,
+  LaydlerSchema,
+  LayoutConfig,
+} from "@/types/schema"
+import { getCanvasLayoutForBreakpoint } from "./canvas-utils"
+import { getComponentsWithDescendants } from "./component-tree"
+
+/**
+ * 지원하는 상속 모드
+ */
+export const BREAKPOINT_INHERITANCE_MODES: BreakpointInheritanceMode[] = [
+  "none",
+  "mobile-first",
+  "desktop-first",
+]
+
+/**
+ * Schema의 상속 모드 (없으면 "none")
+ */
+export function getInheritanceMode(
+  schema: Pick<LaydlerSchema, "breakpointInheritance">
+): BreakpointInheritanceMode {
+  return schema.breakpointInheritance ?? "none"
+}
+
+/**
+ * breakpoint가 상속받는 breakpoint 목록 (가까운 것부터)
+ *
+ * @example
+ * // mobile-first: desktop → ["tablet", "mobile"]
+ * // desktop-first: mobile → ["tablet", "desktop"]
+ */
+export function getInheritanceChain(schema: LaydlerSchema, breakpoint: string): string[] {
+  const mode = getInheritanceMode(schema)
+  if (mode === "none") return []
+
+  const names = [...schema.breakpoints]
+    .sort((a, b) => a.minWidth - b.minWidth || a.name.localeCompare(b.name))
+    .map((bp) => bp.name)
+  const index = names.indexOf(breakpoint)
+  if (index === -1) return []
+
+  return mode === "mobile-first" ? names.slice(0, index).reverse() : names.slice(index + 1)
+}
+
+/**
+ * LayoutConfig를 제공하는 breakpoint (자신 또는 상속 대상, 모두 비어 있으면 null)
+ */
+export function getLayoutSource(schema: LaydlerSchema, breakpoint: string): string | null {
+  return (
+    [breakpoint, ...getInheritanceChain(schema, breakpoint)].find(
+      (name) => (schema.layouts[name]?.components.length ?? 0) > 0
+    ) ?? null
+  )
+}
+
+/**
+ * breakpoint에 명시적인 LayoutConfig가 있는지 (상속 모드가 아니면 항상 true)
+ */
+export function isLayoutOverridden(schema: LaydlerSchema, breakpoint: string): boolean {
+  return getInheritanceMode(schema) === "none" || getLayoutSource(schema, breakpoint) === breakpoint
+}
+
+/**
+ * 상속을 반영한 breakpoint의 LayoutConfig
+ */
+export function getEffectiveLayout(schema: LaydlerSchema, breakpoint: string): LayoutConfig {
+  const source = getLayoutSource(schema, breakpoint)
+  return source ? schema.layouts[source] : schema.layouts[breakpoint]
+}
+
+/**
+ * 컴포넌트의 canvas 위치를 제공하는 breakpoint (자신 또는 상속 대상, 없으면 null)
+ */
+export function getCanvasLayoutSource(
+  schema: LaydlerSchema,
+  component: Component,
+  breakpoint: string
+): string | null {
+  return (
+    [breakpoint, ...getInheritanceChain(schema, breakpoint)].find(
+      (name) => component.responsiveCanvasLayout?.[name] !== undefined
+    ) ?? null
+  )
+}
+
+/**
+ * 상속을 반영한 컴포넌트의 canvas 위치 (레거시 canvasLayout fallback 포함)
+ */
+export function getEffectiveCanvasLayout(
+  schema: LaydlerSchema,
+  component: Component,
+  breakpoint: string
+): CanvasLayout | undefined {
+  const source = getCanvasLayoutSource(schema, component, breakpoint)
+  return source ? component.responsiveCanvasLayout![source] : component.canvasLayout
+}
+
+/**
+ * 한 breakpoint의 상속을 해석한 schema (에디터용)
+ *
+ * - layouts[breakpoint]: 상속된 LayoutConfig
+ * - 렌더링되는 컴포넌트의 responsiveCanvasLayout[breakpoint]: 상속된 위치
+ * - 다른 breakpoint 값은 그대로 → 해석된 컴포넌트로 만든 업데이트도 이 breakpoint만 override
+ *
+ * 상속 모드가 아니면 schema를 그대로 반환
+ */
+export function resolveBreakpoint(schema: LaydlerSchema, breakpoint: string): LaydlerSchema {
+  if (getInheritanceMode(schema) === "none") return schema
+
+  const layout = getEffectiveLayout(schema, breakpoint)
+  const renderedIds = new Set(
+    getComponentsWithDescendants(schema.components, layout?.components ?? []).map((c) => c.id)
+  )
+
+  const components = schema.components.map((component) => {
+    if (!renderedIds.has(component.id) || component.responsiveCanvasLayout?.[breakpoint]) {
+      return component
+    }
+    const source = getCanvasLayoutSource(schema, component, breakpoint)
+    if (!source) return component
+
+    return {
+      ...component,
+      responsiveCanvasLayout: {
+        ...component.responsiveCanvasLayout,
+        [breakpoint]: component.responsiveCanvasLayout![source],
+      },
+    }
+  })
+
+  return {
+    ...schema,
+    components,
+    layouts: layout ? { ...schema.layouts, [breakpoint]: layout } : schema.layouts,
+  }
+}
+
+/**
+ * 모든 breakpoint의 상속을 해석한 schema (prompt/export용)
+ *
+ * 상속 모드가 아니면 schema를 그대로 반환
+ */
+export function resolveInheritance(schema: LaydlerSchema): LaydlerSchema {
+  if (getInheritanceMode(schema) === "none") return schema
+
+  const resolved = schema.breakpoints.map((bp) => resolveBreakpoint(schema, bp.name))
+
+  return {
+    ...schema,
+    // resolveBreakpoint는 컴포넌트 순서를 유지하므로 index로 breakpoint별 결과를 합침
+    components: schema.components.map((component, index) => {
+      const responsiveCanvasLayout = resolved.reduce(
+        (acc, result, bpIndex) => {
+          const name = schema.breakpoints[bpIndex].name
+          const layout = result.components[index].responsiveCanvasLayout?.[name]
+          return layout ? { ...acc, [name]: layout } : acc
+        },
+        component.responsiveCanvasLayout
+      )
+      return responsiveCanvasLayout === component.responsiveCanvasLayout
+        ? component
+        : { ...component, responsiveCanvasLayout }
+    }),
+    layouts: schema.breakpoints.reduce(
+      (acc, bp, index) => ({ ...acc, [bp.name]: resolved[index].layouts[bp.name] }),
+      schema.layouts
+    ),
+  }
+}
+
+/**
+ * 상속 대상 breakpoint와 비교한 실제 차이
+ */
+export interface BreakpointChanges {
+  /** 비교 기준 (상속 방향으로 가장 가까운 breakpoint) */
+  baseBreakpoint: string
+  /** structure, roles, containerLayout 또는 최상위 순서가 다름 */
+  layoutChanged: boolean
+  /** base에는 없고 이 breakpoint에만 렌더링되는 컴포넌트 */
+  added: string[]
+  /** base에는 있지만 이 breakpoint에는 렌더링되지 않는 컴포넌트 */
+  removed: string[]
+  /** 두 breakpoint 모두에 있지만 위치/크기가 다른 컴포넌트 */
+  moved: string[]
+}
+
+/**
+ * breakpoint와 상속 대상 breakpoint의 차이 (상속 모드가 아니거나 상속 대상이 없으면 null)
+ */
+export function getBreakpointChanges(
+  schema: LaydlerSchema,
+  breakpoint: string
+): BreakpointChanges | null {
+  const baseBreakpoint = getInheritanceChain(schema, breakpoint)[0]
+  if (!baseBreakpoint) return null
+
+  const current = resolveBreakpoint(schema, breakpoint)
+  const base = resolveBreakpoint(schema, baseBreakpoint)
+  const layout = current.layouts[breakpoint]
+  const baseLayout = base.layouts[baseBreakpoint]
+
+  const rendered = getComponentsWithDescendants(current.components, layout?.components ?? [])
+  const baseRendered = getComponentsWithDescendants(base.components, baseLayout?.components ?? [])
+  const ids = new Set(rendered.map((c) => c.id))
+  const baseIds = new Set(baseRendered.map((c) => c.id))
+
+  const moved = rendered
+    .filter((component) => {
+      if (!baseIds.has(component.id)) return false
+      const position = getCanvasLayoutForBreakpoint(component, breakpoint)
+      const basePosition = getCanvasLayoutForBreakpoint(
+        base.components.find((c) => c.id === component.id)!,
+        baseBreakpoint
+      )
+      return JSON.stringify(position) !== JSON.stringify(basePosition)
+    })
+    .map((c) => c.id)
+
+  const order = (layout?.components ?? []).filter((id) => baseIds.has(id))
+  const baseOrder = (baseLayout?.components ?? []).filter((id) => ids.has(id))
+  const layoutChanged =
+    layout?.structure !== baseLayout?.structure ||
+    JSON.stringify(layout?.roles) !== JSON.stringify(baseLayout?.roles) ||
+    JSON.stringify(layout?.containerLayout) !== JSON.stringify(baseLayout?.containerLayout) ||
+    order.join() !== baseOrder.join()
+
+  return {
+    baseBreakpoint,
+    layoutChanged,
+    added: rendered.filter((c) => !baseIds.has(c.id)).map((c) => c.id),
+    removed: baseRendered.filter((c) => !ids.has(c.id)).map((c) => c.id),
+    moved,
+  }
+}
+
+/**
+ * 실제 차이가 있는지
+ */
+export function hasBreakpointChanges(changes: BreakpointChanges): boolean {
+  return (
+    changes.layoutChanged ||
+    changes.added.length > 0 ||
+    changes.removed.length > 0 ||
+    changes.moved.length > 0
+  )
+}
+
+/**
+ * 차이를 prompt용 문장으로 (차이가 없으면 빈 배열)
+ *
+ * @example
+ * describeBreakpointChanges(changes, components)
+ * // ["Repositioned: Sidebar (c2)", "Only at this breakpoint: Banner (c5)"]
+ */
+export function describeBreakpointChanges(
+  changes: BreakpointChanges,
+  components: Component[]
+): string[] {
+  const names = (ids: string[]) =>
+    ids
+      .map((id) => {
+        const component = components.find((c) => c.id === id)
+        return component ? `${component.name} (${id})` : id
+      })
+      .join(", ")
+
+  const lines: string[] = []
+  if (changes.layoutChanged) {
+    lines.push("Page structure, roles or component order differ")
+  }
+  if (changes.moved.length > 0) lines.push(`Repositioned: ${names(changes.moved)}`)
+  if (changes.added.length > 0) lines.push(`Only at this breakpoint: ${names(changes.added)}`)
+  if (changes.removed.length > 0) lines.push(`Not rendered at this breakpoint: ${names(changes.removed)}`)
+  return lines
+}
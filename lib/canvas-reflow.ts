@@ -0,0 +1,270 @@
+/**
+ * Canvas Reflow - gridstack 스타일 push-aside 배치
+ *
+ * - 드래그/리사이즈한 컴포넌트를 목표 위치에 고정하고, 겹치는 형제는 아래로 밀어냄 (연쇄)
+ * - 아래로 밀려 영역을 벗어나면 findEmptySlot으로 남은 빈 자리(옆)에 배치
+ * - compact: 나머지 형제를 막히기 전까지 위로 당겨 빈 행을 없앰 (suggestGridCompaction과 같은 pullLayoutUp)
+ * - 같은 부모를 가진 형제끼리만 reflow (최상위: grid 전체, 중첩: 부모 영역 안)
+ * - 자손은 부모와 같은 만큼 이동
+ *
+ * 결과는 겹침 없는 레이아웃 → store.updateComponents로 한 번에 적용 (undo 한 단계)
+ */
+
+import type { CanvasLayout, Component } from "@/types/schema"
+import { getCanvasLayoutForBreakpoint } from "./canvas-utils"
+import { findEmptySlot } from "./smart-layout"
+import { getAncestorIds, isLayoutInside } from "./component-tree"
+import { pullLayoutUp } from "./grid-constraints"
+import { withCanvasLayout, type ComponentUpdates, type GridBounds } from "./canvas-selection"
+
+/**
+ * Reflow 옵션
+ */
+export interface ReflowOptions {
+  /** 밀어낸 뒤 형제를 위로 당겨 빈 공간 제거 (기본: false) */
+  compact?: boolean
+}
+
+/**
+ * 두 사각형이 겹치는지 확인 (모서리만 닿는 경우는 겹침 아님)
+ */
+function overlaps(a: CanvasLayout, b: CanvasLayout): boolean {
+  return !(
+    a.x >= b.x + b.width ||
+    a.x + a.width <= b.x ||
+    a.y >= b.y + b.height ||
+    a.y + a.height <= b.y
+  )
+}
+
+/**
+ * 영역 안의 빈 자리 (findEmptySlot을 영역 기준 좌표로 변환해서 사용)
+ */
+function findSlotInArea(
+  placed: CanvasLayout[],
+  area: CanvasLayout,
+  breakpoint: string,
+  width: number,
+  height: number
+): CanvasLayout | null {
+  const local = placed.map((layout, index) => ({
+    id: `placed-${index}`,
+    name: "Placed",
+    semanticTag: "div" as const,
+    positioning: { type: "static" as const },
+    layout: { type: "none" as const },
+    responsiveCanvasLayout: {
+      [breakpoint]: { ...layout, x: layout.x - area.x, y: layout.y - area.y },
+    },
+  }))
+  const slot = findEmptySlot(local, area.width, area.height, breakpoint, width, height)
+  const layout = { x: slot.x + area.x, y: slot.y + area.y, width, height }
+
+  // findEmptySlot은 빈 자리가 없으면 맨 아래를 반환 → 겹침/경계 재확인
+  if (!isLayoutInside(layout, area) || placed.some((other) => overlaps(layout, other))) {
+    return null
+  }
+  return layout
+}
+
+/**
+ * 목표 레이아웃에 컴포넌트를 배치하고 겹치는 형제를 밀어내는 reflow
+ *
+ * @param components - 현재 breakpoint에 렌더링되는 컴포넌트 (root + 자손)
+ * @param breakpoint - 현재 breakpoint
+ * @param targets - 이동/리사이즈한 컴포넌트의 새 레이아웃 (모두 같은 부모여야 함)
+ * @param grid - 현재 grid 크기
+ * @param options - reflow 옵션
+ * @returns 컴포넌트별 업데이트, 배치할 수 없으면 null
+ *
+ * @example
+ * // c1을 c2 자리로 드래그 → c2(와 그 아래 컴포넌트)가 아래로 밀림
+ * const updates = reflowLayout(components, "desktop", { c1: { x: 0, y: 2, width: 6, height: 2 } }, grid)
+ * if (updates) updateComponents(updates)
+ */
+export function reflowLayout(
+  components: Component[],
+  breakpoint: string,
+  targets: Record<string, CanvasLayout>,
+  grid: GridBounds,
+  options: ReflowOptions = {}
+): ComponentUpdates | null {
+  const byId = new Map(components.map((c) => [c.id, c]))
+  const current = new Map<string, CanvasLayout>()
+  for (const component of components) {
+    const layout = getCanvasLayoutForBreakpoint(component, breakpoint)
+    if (layout) current.set(component.id, layout)
+  }
+
+  const parentOf = (component: Component) =>
+    component.parentId && byId.has(component.parentId) ? component.parentId : null
+
+  const movedIds = Object.keys(targets)
+  const moved = movedIds.map((id) => byId.get(id))
+  if (moved.length === 0 || moved.some((c) => !c || !current.has(c.id))) return null
+
+  const parentId = parentOf(moved[0]!)
+  if (moved.some((c) => parentOf(c!) !== parentId)) return null
+
+  const area = parentId
+    ? current.get(parentId)
+    : { x: 0, y: 0, width: grid.cols, height: grid.rows }
+  if (!area) return null
+
+  // 이동한 컴포넌트: 크기/영역/서로 겹침 검증
+  const placed: CanvasLayout[] = []
+  for (const id of movedIds) {
+    const layout = targets[id]
+    if (layout.width < 1 || layout.height < 1 || !isLayoutInside(layout, area)) return null
+    if (placed.some((other) => overlaps(layout, other))) return null
+    placed.push(layout)
+  }
+
+  const next = new Map(current)
+  movedIds.forEach((id) => next.set(id, targets[id]))
+
+  // 나머지 형제: 위→아래, 왼쪽→오른쪽 순서로 (compact 시 위로 당긴 뒤) 겹치면 아래로 밀어냄
+  const siblings = components
+    .filter((c) => parentOf(c) === parentId && !targets[c.id] && current.has(c.id))
+    .sort((a, b) => current.get(a.id)!.y - current.get(b.id)!.y || current.get(a.id)!.x - current.get(b.id)!.x)
+
+  for (const sibling of siblings) {
+    let layout = current.get(sibling.id)!
+
+    if (options.compact) {
+      layout = pullLayoutUp(layout, placed, area.y)
+    }
+
+    let colliding = placed.filter((other) => overlaps(layout, other))
+    while (colliding.length > 0) {
+      layout = { ...layout, y: Math.max(...colliding.map((other) => other.y + other.height)) }
+      colliding = placed.filter((other) => overlaps(layout, other))
+    }
+
+    if (!isLayoutInside(layout, area)) {
+      const slot = findSlotInArea(placed, area, breakpoint, layout.width, layout.height)
+      if (!slot) return null
+      layout = slot
+    }
+
+    placed.push(layout)
+    next.set(sibling.id, layout)
+  }
+
+  // 자손은 가장 가까운 이동한 조상과 같은 만큼 이동 (리사이즈된 부모 안에 남아 있어야 함)
+  const reflowedIds = new Set([...movedIds, ...siblings.map((c) => c.id)])
+  for (const component of components) {
+    const layout = current.get(component.id)
+    if (!layout || reflowedIds.has(component.id)) continue
+    const anchorId = getAncestorIds(components, component.id).find((id) => reflowedIds.has(id))
+    if (!anchorId) continue
+
+    const before = current.get(anchorId)!
+    const after = next.get(anchorId)!
+    next.set(component.id, {
+      ...layout,
+      x: layout.x + after.x - before.x,
+      y: layout.y + after.y - before.y,
+    })
+  }
+
+  const updates: ComponentUpdates = {}
+  for (const component of components) {
+    const layout = next.get(component.id)
+    if (!layout) continue
+
+    // 위치/크기가 바뀐 컴포넌트 또는 부모가 바뀐 컴포넌트는 부모 영역 안에 있어야 함
+    const before = current.get(component.id)!
+    const parentLayout = component.parentId ? next.get(component.parentId) : undefined
+    const parentChanged = parentLayout !== undefined && parentLayout !== current.get(component.parentId!)
+    if (layout === before && !parentChanged) continue
+    if (parentLayout && !isLayoutInside(layout, parentLayout)) return null
+
+    if (
+      layout.x !== before.x ||
+      layout.y !== before.y ||
+      layout.width !== before.width ||
+      layout.height !== before.height
+    ) {
+      updates[component.id] = withCanvasLayout(component, breakpoint, layout)
+    }
+  }
+
+  return updates
+}
+
+/**
+ * 선택 전체를 (dx, dy) 셀만큼 이동하면서 reflow
+ *
+ * @returns 컴포넌트별 업데이트, 배치할 수 없으면 null
+ */
+export function moveWithReflow(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[],
+  dx: number,
+  dy: number,
+  grid: GridBounds,
+  options: ReflowOptions = {}
+): ComponentUpdates | null {
+  return reflowLayout(
+    components,
+    breakpoint,
+    toTargets(components, breakpoint, selectedIds, (layout) => ({
+      ...layout,
+      x: layout.x + dx,
+      y: layout.y + dy,
+    })),
+    grid,
+    options
+  )
+}
+
+/**
+ * 선택 전체의 크기를 (dWidth, dHeight) 셀만큼 변경하면서 reflow (좌상단 고정)
+ *
+ * @returns 컴포넌트별 업데이트, 배치할 수 없으면 null
+ */
+export function resizeWithReflow(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[],
+  dWidth: number,
+  dHeight: number,
+  grid: GridBounds,
+  options: ReflowOptions = {}
+): ComponentUpdates | null {
+  return reflowLayout(
+    components,
+    breakpoint,
+    toTargets(components, breakpoint, selectedIds, (layout) => ({
+      ...layout,
+      width: layout.width + dWidth,
+      height: layout.height + dHeight,
+    })),
+    grid,
+    options
+  )
+}
+
+/**
+ * 선택된 컴포넌트 중 다른 선택된 컴포넌트의 자손이 아닌 것만 변환 (자손은 조상을 따라 이동)
+ */
+function toTargets(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[],
+  transform: (layout: CanvasLayout) => CanvasLayout
+): Record<string, CanvasLayout> {
+  const selected = new Set(selectedIds)
+  const targets: Record<string, CanvasLayout> = {}
+
+  for (const component of components) {
+    const layout = getCanvasLayoutForBreakpoint(component, breakpoint)
+    if (!layout || !selected.has(component.id)) continue
+    if (getAncestorIds(components, component.id).some((id) => selected.has(id))) continue
+    targets[component.id] = transform(layout)
+  }
+
+  return targets
+}
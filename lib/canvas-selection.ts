@@ -0,0 +1,384 @@
+/**
+ * Canvas Selection - 다중 선택 및 그룹 변환
+ *
+ * - Marquee(rubber-band) 선택: 드래그 사각형과 겹치는 컴포넌트 찾기
+ * - 그룹 이동/리사이즈: 선택된 컴포넌트 전체에 같은 grid delta 적용 (bounds + collision 검증)
+ * - 중첩 컴포넌트: 자손은 부모를 따라 이동, 겹침은 형제끼리만, 부모 영역 안에 포함
+ * - 정렬(align) / 균등 분배(distribute): 선택 bounding box 기준, grid 단위
+ * - PropertiesPanel batch 편집용 공통 값 계산
+ */
+
+import type { CanvasLayout, Component } from "@/types/schema"
+import { getCanvasLayoutForBreakpoint } from "./canvas-utils"
+import { isComponentOutOfBounds } from "./grid-constraints"
+import { getAncestorIds, isLayoutInside } from "./component-tree"
+
+/**
+ * 컴포넌트별 업데이트 (store.updateComponents 입력)
+ */
+export type ComponentUpdates = Record<string, Partial<Omit<Component, "id">>>
+
+/**
+ * Grid 크기 (현재 breakpoint)
+ */
+export interface GridBounds {
+  cols: number
+  rows: number
+}
+
+/**
+ * 두 사각형이 겹치는지 확인 (모서리만 닿는 경우는 겹침 아님)
+ */
+function overlaps(a: CanvasLayout, b: CanvasLayout): boolean {
+  return !(
+    a.x >= b.x + b.width ||
+    a.x + a.width <= b.x ||
+    a.y >= b.y + b.height ||
+    a.y + a.height <= b.y
+  )
+}
+
+/**
+ * 드래그 시작/끝 픽셀 좌표 → grid 단위 marquee 사각형
+ *
+ * @example
+ * toMarqueeRect({ x: 250, y: 120 }, { x: 50, y: 320 }, 100)
+ * // { x: 0.5, y: 1.2, width: 2, height: 2 }
+ */
+export function toMarqueeRect(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  cellSize: number
+): CanvasLayout {
+  return {
+    x: Math.min(start.x, end.x) / cellSize,
+    y: Math.min(start.y, end.y) / cellSize,
+    width: Math.abs(end.x - start.x) / cellSize,
+    height: Math.abs(end.y - start.y) / cellSize,
+  }
+}
+
+/**
+ * Marquee 사각형과 겹치는 컴포넌트 ID (components 순서 유지)
+ *
+ * @param components - 현재 breakpoint 레이아웃의 컴포넌트
+ * @param breakpoint - 현재 breakpoint
+ * @param rect - grid 단위 marquee 사각형 (소수 허용)
+ */
+export function getMarqueeSelection(
+  components: Component[],
+  breakpoint: string,
+  rect: CanvasLayout
+): string[] {
+  if (rect.width <= 0 || rect.height <= 0) return []
+
+  return components
+    .filter((component) => {
+      const layout = getCanvasLayoutForBreakpoint(component, breakpoint)
+      return layout !== undefined && overlaps(layout, rect)
+    })
+    .map((component) => component.id)
+}
+
+/**
+ * 현재 breakpoint의 canvas layout 교체 (responsiveCanvasLayout 우선, 없으면 canvasLayout)
+ */
+export function withCanvasLayout(
+  component: Component,
+  breakpoint: string,
+  layout: CanvasLayout
+): Partial<Omit<Component, "id">> {
+  if (component.responsiveCanvasLayout) {
+    return {
+      responsiveCanvasLayout: {
+        ...component.responsiveCanvasLayout,
+        [breakpoint]: layout,
+      },
+    }
+  }
+  return { canvasLayout: layout }
+}
+
+/**
+ * 선택된 컴포넌트 전체에 layout 변환 적용
+ *
+ * - 선택되지 않은 자손은 가장 가까운 선택된 조상과 같은 만큼 이동
+ * - 겹침은 같은 부모를 가진 형제끼리만 검사
+ * - 중첩된 컴포넌트는 부모의 최종 영역 안에 있어야 함 (부모 리사이즈 포함)
+ *
+ * 하나라도 grid 밖으로 나가거나, 최소 크기(1) 미만이거나,
+ * 형제(선택된 컴포넌트끼리 포함)와 겹치거나, 부모 밖으로 나가면 null (전체 취소)
+ */
+function transformSelection(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[],
+  grid: GridBounds,
+  transform: (layout: CanvasLayout, component: Component) => CanvasLayout
+): ComponentUpdates | null {
+  const selected = new Set(selectedIds)
+  const byId = new Map(components.map((c) => [c.id, c]))
+  const current = new Map<string, CanvasLayout>()
+  for (const component of components) {
+    const layout = getCanvasLayoutForBreakpoint(component, breakpoint)
+    if (layout) current.set(component.id, layout)
+  }
+
+  // 선택된 컴포넌트 변환 후, 자손은 가장 가까운 선택된 조상의 이동량을 따름
+  const next = new Map(current)
+  for (const component of components) {
+    const layout = current.get(component.id)
+    if (layout && selected.has(component.id)) {
+      next.set(component.id, transform(layout, component))
+    }
+  }
+  if (!selectedIds.some((id) => current.has(id))) return null
+
+  for (const component of components) {
+    const layout = current.get(component.id)
+    if (!layout || selected.has(component.id)) continue
+    const anchorId = getAncestorIds(components, component.id).find(
+      (id) => selected.has(id) && current.has(id)
+    )
+    if (!anchorId) continue
+    const before = current.get(anchorId)!
+    const after = next.get(anchorId)!
+    next.set(component.id, {
+      ...layout,
+      x: layout.x + after.x - before.x,
+      y: layout.y + after.y - before.y,
+    })
+  }
+
+  const changed = components.filter((c) => next.get(c.id) !== current.get(c.id))
+  const changedIds = new Set(changed.map((c) => c.id))
+  const parentOf = (component: Component) =>
+    component.parentId && byId.has(component.parentId) ? component.parentId : null
+
+  const updates: ComponentUpdates = {}
+  for (const component of changed) {
+    const layout = next.get(component.id)!
+    const update = withCanvasLayout(component, breakpoint, layout)
+    const outOfBounds =
+      layout.width < 1 ||
+      layout.height < 1 ||
+      isComponentOutOfBounds({ ...component, ...update }, grid.rows, grid.cols, breakpoint)
+    const collides = components.some(
+      (other) =>
+        other.id !== component.id &&
+        parentOf(other) === parentOf(component) &&
+        next.has(other.id) &&
+        overlaps(layout, next.get(other.id)!)
+    )
+    if (outOfBounds || collides) return null
+
+    updates[component.id] = update
+  }
+
+  // 위치/크기가 바뀐 컴포넌트 또는 부모가 바뀐 컴포넌트는 부모 영역 안에 있어야 함
+  for (const component of components) {
+    const parentId = parentOf(component)
+    const layout = next.get(component.id)
+    const parentLayout = parentId ? next.get(parentId) : undefined
+    if (!layout || !parentLayout) continue
+    if (!changedIds.has(component.id) && !changedIds.has(parentId!)) continue
+    if (!isLayoutInside(layout, parentLayout)) return null
+  }
+
+  return updates
+}
+
+/**
+ * 선택 전체를 (dx, dy) 셀만큼 이동
+ *
+ * @returns 컴포넌트별 업데이트, 이동할 수 없으면 null
+ *
+ * @example
+ * const updates = moveSelection(components, "desktop", ["c1", "c2"], 1, 0, { cols: 12, rows: 8 })
+ * if (updates) updateComponents(updates)
+ */
+export function moveSelection(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[],
+  dx: number,
+  dy: number,
+  grid: GridBounds
+): ComponentUpdates | null {
+  return transformSelection(components, breakpoint, selectedIds, grid, (layout) => ({
+    ...layout,
+    x: layout.x + dx,
+    y: layout.y + dy,
+  }))
+}
+
+/**
+ * 선택 전체의 크기를 (dWidth, dHeight) 셀만큼 변경 (좌상단 고정)
+ *
+ * @returns 컴포넌트별 업데이트, 변경할 수 없으면 null
+ */
+export function resizeSelection(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[],
+  dWidth: number,
+  dHeight: number,
+  grid: GridBounds
+): ComponentUpdates | null {
+  return transformSelection(components, breakpoint, selectedIds, grid, (layout) => ({
+    ...layout,
+    width: layout.width + dWidth,
+    height: layout.height + dHeight,
+  }))
+}
+
+/**
+ * 정렬 기준 (선택 bounding box의 변/중앙)
+ * - left/center/right: 가로 방향 (x)
+ * - top/middle/bottom: 세로 방향 (y)
+ */
+export type AlignMode = "left" | "center" | "right" | "top" | "middle" | "bottom"
+
+/**
+ * 균등 분배 방향
+ */
+export type DistributeAxis = "horizontal" | "vertical"
+
+/**
+ * 선택된 컴포넌트를 bounding box 기준으로 정렬
+ *
+ * center/middle은 grid 단위로 내림 (홀수 차이는 왼쪽/위쪽으로 치우침)
+ *
+ * @returns 컴포넌트별 업데이트, 2개 미만 선택이거나 겹침/경계 초과 시 null
+ *
+ * @example
+ * // c1(x:0, w:3), c2(x:5, w:2) → right 정렬: c1.x = 4
+ * alignSelection(components, "desktop", ["c1", "c2"], "right", { cols: 12, rows: 8 })
+ */
+export function alignSelection(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[],
+  mode: AlignMode,
+  grid: GridBounds
+): ComponentUpdates | null {
+  const bounds = getSelectionBounds(components, breakpoint, selectedIds)
+  if (!bounds || selectedIds.length < 2) return null
+
+  return transformSelection(components, breakpoint, selectedIds, grid, (layout) => {
+    switch (mode) {
+      case "left":
+        return { ...layout, x: bounds.x }
+      case "center":
+        return { ...layout, x: bounds.x + Math.floor((bounds.width - layout.width) / 2) }
+      case "right":
+        return { ...layout, x: bounds.x + bounds.width - layout.width }
+      case "top":
+        return { ...layout, y: bounds.y }
+      case "middle":
+        return { ...layout, y: bounds.y + Math.floor((bounds.height - layout.height) / 2) }
+      case "bottom":
+        return { ...layout, y: bounds.y + bounds.height - layout.height }
+    }
+  })
+}
+
+/**
+ * 선택된 컴포넌트 사이 간격을 균등하게 분배
+ *
+ * 양 끝 컴포넌트는 고정, 나머지를 순서대로 배치
+ * 간격이 나누어떨어지지 않으면 앞쪽 간격부터 1셀씩 더 받음
+ *
+ * @returns 컴포넌트별 업데이트, 3개 미만 선택이거나 겹침/경계 초과 시 null
+ *
+ * @example
+ * // x: 0(w2), 3(w2), 9(w2) → 남는 공간 5 / 간격 2개 (3, 2) → x: 0, 5, 9
+ * distributeSelection(components, "desktop", ["c1", "c2", "c3"], "horizontal", grid)
+ */
+export function distributeSelection(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[],
+  axis: DistributeAxis,
+  grid: GridBounds
+): ComponentUpdates | null {
+  const pos = axis === "horizontal" ? "x" : "y"
+  const size = axis === "horizontal" ? "width" : "height"
+
+  const items = components
+    .filter((component) => selectedIds.includes(component.id))
+    .map((component) => ({
+      id: component.id,
+      layout: getCanvasLayoutForBreakpoint(component, breakpoint),
+    }))
+    .filter((item): item is { id: string; layout: CanvasLayout } => item.layout !== undefined)
+    .sort((a, b) => a.layout[pos] - b.layout[pos])
+
+  if (items.length < 3) return null
+
+  const first = items[0].layout
+  const last = items[items.length - 1].layout
+  const span = last[pos] + last[size] - first[pos]
+  const totalSize = items.reduce((sum, item) => sum + item.layout[size], 0)
+  const gaps = items.length - 1
+  const freeSpace = span - totalSize
+  if (freeSpace < 0) return null
+
+  const baseGap = Math.floor(freeSpace / gaps)
+  const remainder = freeSpace - baseGap * gaps
+
+  const targets = new Map<string, number>()
+  let cursor = first[pos]
+  items.forEach((item, index) => {
+    targets.set(item.id, cursor)
+    cursor += item.layout[size] + baseGap + (index < remainder ? 1 : 0)
+  })
+
+  return transformSelection(components, breakpoint, selectedIds, grid, (layout, component) => ({
+    ...layout,
+    [pos]: targets.get(component.id) ?? layout[pos],
+  }))
+}
+
+/**
+ * 선택된 컴포넌트의 bounding box (grid 단위)
+ */
+export function getSelectionBounds(
+  components: Component[],
+  breakpoint: string,
+  selectedIds: string[]
+): CanvasLayout | null {
+  const layouts = components
+    .filter((component) => selectedIds.includes(component.id))
+    .map((component) => getCanvasLayoutForBreakpoint(component, breakpoint))
+    .filter((layout): layout is CanvasLayout => layout !== undefined)
+
+  if (layouts.length === 0) return null
+
+  const left = Math.min(...layouts.map((l) => l.x))
+  const top = Math.min(...layouts.map((l) => l.y))
+  const right = Math.max(...layouts.map((l) => l.x + l.width))
+  const bottom = Math.max(...layouts.map((l) => l.y + l.height))
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * 선택된 컴포넌트들의 공통 값 (batch 편집 UI용)
+ *
+ * @returns 모두 같으면 { value, mixed: false }, 다르면 { value: undefined, mixed: true }
+ *
+ * @example
+ * getSharedValue(selected, (c) => c.positioning.type)
+ * // { value: "sticky", mixed: false }
+ */
+export function getSharedValue<T>(
+  components: Component[],
+  select: (component: Component) => T
+): { value: T | undefined; mixed: boolean } {
+  if (components.length === 0) return { value: undefined, mixed: false }
+
+  const first = select(components[0])
+  const mixed = components.some((component) => select(component) !== first)
+  return mixed ? { value: undefined, mixed: true } : { value: first, mixed: false }
+}
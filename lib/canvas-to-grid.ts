@@ -9,7 +9,8 @@
  * - AI가 이해할 수 있는 명시적 Grid positioning
  */
 
-import type { Component, CanvasLayout } from "@/types/schema"
+import type { Breakpoint, Component, CanvasLayout } from "@/types/schema"
+import type { CSSDeclarations, ResponsiveStyleRule } from "./css-generator"
 
 /**
  * CSS Grid Position 정보
@@ -307,3 +308,116 @@ export function analyzeGridComplexity(
     recommendedImplementation,
   }
 }
+
+/**
+ * Element 하나의 mobile-first 스타일 (base + min-width override)
+ */
+export interface ResponsiveGridRules {
+  base: CSSDeclarations
+  responsive: ResponsiveStyleRule[]
+}
+
+/**
+ * Canvas 배치를 그대로 재현하는 page grid 규칙
+ */
+export interface ResponsiveGridLayout {
+  /** Grid container (breakpoint별 grid-template 전환) */
+  container: ResponsiveGridRules
+  /** Component wrapper cell (grid-area, 배치 없는 breakpoint에서는 display: none) */
+  cells: Array<{ component: Component } & ResponsiveGridRules>
+}
+
+/**
+ * 모든 breakpoint의 Canvas 배치를 하나의 반응형 CSS Grid로 변환 (AI 없이 page export)
+ *
+ * - 가장 작은 breakpoint가 base, 이후 breakpoint는 Breakpoint.minWidth 기반 override
+ * - 이전 breakpoint와 달라진 declaration만 출력
+ * - cell 순서: breakpoint 순서대로 처음 배치된 위치 (y → x)
+ *
+ * @example
+ * const grid = generateResponsiveGridLayout(schema.components, schema.breakpoints)
+ * // grid.container.base = [["display", "grid"], ["grid-template-columns", "repeat(4, minmax(0, 1fr))"], ...]
+ * // grid.cells[1].base = [["display", "none"]]  (Sidebar: mobile 배치 없음)
+ * // grid.cells[1].responsive[0] = { breakpoint: "tablet", minWidth: 768, declarations: [["display", "block"], ["grid-area", "2 / 1 / 9 / 3"]] }
+ */
+export function generateResponsiveGridLayout(
+  components: Component[],
+  breakpoints: Breakpoint[]
+): ResponsiveGridLayout {
+  const sortedBreakpoints = [...breakpoints].sort((a, b) => a.minWidth - b.minWidth)
+  const layouts = sortedBreakpoints.map((breakpoint) =>
+    canvasToGridPositions(components, breakpoint.name, breakpoint.gridCols, breakpoint.gridRows)
+  )
+
+  // Cell 순서: 처음 배치된 breakpoint의 시각적 순서
+  const orderedIds: string[] = []
+  layouts.forEach((layout) => {
+    layout.positions.forEach((pos) => {
+      if (!orderedIds.includes(pos.componentId)) orderedIds.push(pos.componentId)
+    })
+  })
+
+  const container: ResponsiveGridRules = { base: [], responsive: [] }
+  let previousTemplate: CSSDeclarations = []
+
+  sortedBreakpoints.forEach((breakpoint, index) => {
+    const template: CSSDeclarations = [
+      ["grid-template-columns", `repeat(${breakpoint.gridCols}, minmax(0, 1fr))`],
+      ["grid-template-rows", `repeat(${breakpoint.gridRows}, auto)`],
+    ]
+
+    if (index === 0) {
+      container.base = [["display", "grid"], ...template, ["gap", "1rem"]]
+    } else {
+      const changed = template.filter(
+        ([property, value]) =>
+          previousTemplate.find(([prev]) => prev === property)?.[1] !== value
+      )
+      if (changed.length > 0) {
+        container.responsive.push({
+          breakpoint: breakpoint.name,
+          minWidth: breakpoint.minWidth,
+          declarations: changed,
+        })
+      }
+    }
+    previousTemplate = template
+  })
+
+  const cells = orderedIds.map((id) => {
+    const component = components.find((c) => c.id === id)!
+    const rules: ResponsiveGridRules = { base: [], responsive: [] }
+    let hidden = false
+    let lastArea: string | null = null
+
+    sortedBreakpoints.forEach((breakpoint, index) => {
+      const area =
+        layouts[index].positions.find((pos) => pos.componentId === id)?.gridArea ?? null
+      const declarations: CSSDeclarations = []
+
+      if (area === null) {
+        if (!hidden) declarations.push(["display", "none"])
+        hidden = true
+      } else {
+        if (hidden) declarations.push(["display", "block"])
+        if (area !== lastArea) declarations.push(["grid-area", area])
+        hidden = false
+        lastArea = area
+      }
+
+      if (index === 0) {
+        rules.base = declarations
+      } else if (declarations.length > 0) {
+        rules.responsive.push({
+          breakpoint: breakpoint.name,
+          minWidth: breakpoint.minWidth,
+          declarations,
+        })
+      }
+    })
+
+    return { component, ...rules }
+  })
+
+  return { container, cells }
+}
@@ -1,7 +1,8 @@
 /**
  * Code Generator V2
  *
- * Schema를 실제 React + Tailwind 코드로 변환
+ * Schema를 실제 React / Vue / Svelte / Solid 코드로 변환
+ * (Tailwind, CSS Modules, styled-components / Emotion)
  */
 
 import type {
@@ -10,7 +11,15 @@ import type {
   ComponentStyling,
   ResponsiveBehavior,
   Component,
+  Breakpoint,
+  GenerationPackage,
 } from "@/types/schema"
+import {
+  formatStyledCSS,
+  generateComponentStyleRules,
+  hasRootStyles,
+} from "./css-generator"
+import { createEmptySchema } from "./schema-utils"
 
 /**
  * Positioning을 Tailwind className으로 변환
@@ -474,7 +483,137 @@ function generateContainerWrapperClasses(
 }
 
 /**
- * Component를 React TSX 코드로 생성
+ * Element class 지정 방식
+ *
+ * - static: Tailwind class 문자열
+ * - module: CSS Modules class (`styles.<key>`) + 변환 불가한 추가 class
+ */
+type ClassExpression =
+  | { type: "static"; value: string }
+  | { type: "module"; key: string; extra?: string }
+
+/**
+ * Framework 코드 생성에 필요한 class 정보
+ */
+interface ComponentClassSpec {
+  root: ClassExpression | null
+  /** Container wrapper (layout.type === "container") */
+  container: ClassExpression | null
+  /** CSS Modules import 경로 (e.g. "./Header.module.css") */
+  stylesImport: string | null
+}
+
+/**
+ * CSS solution별 class 정보 생성
+ */
+function createClassSpec(
+  component: Component,
+  cssSolution: "tailwind" | "css-modules",
+  breakpoints: Breakpoint[]
+): ComponentClassSpec {
+  const hasContainer =
+    needsContainerWrapper(component.layout) && !!component.layout.container
+
+  if (cssSolution === "css-modules") {
+    const extra = component.styling?.className
+    return {
+      root:
+        hasRootStyles(component, breakpoints) || extra
+          ? { type: "module", key: "root", extra }
+          : null,
+      container: hasContainer ? { type: "module", key: "container" } : null,
+      stylesImport: `./${component.name}.module.css`,
+    }
+  }
+
+  const className = generateComponentClasses(component)
+  return {
+    root: className ? { type: "static", value: className } : null,
+    container:
+      hasContainer && component.layout.container
+        ? { type: "static", value: generateContainerWrapperClasses(component.layout.container) }
+        : null,
+    stylesImport: null,
+  }
+}
+
+/**
+ * JSX class attribute (React: className, Solid: class)
+ *
+ * @example
+ * { type: "module", key: "root", extra: "shadow" } → ` className={`${styles.root} shadow`}`
+ */
+function formatJsxClassAttribute(
+  attribute: "className" | "class",
+  expression: ClassExpression | null
+): string {
+  if (!expression) return ""
+  if (expression.type === "static") return ` ${attribute}="${expression.value}"`
+  if (expression.extra) {
+    return ` ${attribute}={\`\${styles.${expression.key}} ${expression.extra}\`}`
+  }
+  return ` ${attribute}={styles.${expression.key}}`
+}
+
+/**
+ * Template class attribute (Vue: `:class`, Svelte: `class={}`)
+ */
+function formatTemplateClassAttribute(
+  framework: "vue" | "svelte",
+  expression: ClassExpression | null
+): string {
+  if (!expression) return ""
+  if (expression.type === "static") return ` class="${expression.value}"`
+
+  if (framework === "vue") {
+    return expression.extra
+      ? ` :class="[styles.${expression.key}, '${expression.extra}']"`
+      : ` :class="styles.${expression.key}"`
+  }
+  return expression.extra
+    ? ` class={[styles.${expression.key}, "${expression.extra}"]}`
+    : ` class={styles.${expression.key}}`
+}
+
+type CSSSolution = GenerationPackage["options"]["cssSolution"]
+
+/**
+ * CSS-in-JS solution별 `styled` import 경로
+ *
+ * 두 라이브러리 모두 동일한 `styled.tag\`...\`` API 제공 (React 전용)
+ */
+export const CSS_IN_JS_SOURCES: Record<
+  Extract<CSSSolution, "styled-components" | "emotion">,
+  string
+> = {
+  "styled-components": "styled-components",
+  emotion: "@emotion/styled",
+}
+
+/**
+ * CSS-in-JS solution 여부
+ */
+export function isCSSInJS(
+  cssSolution: string
+): cssSolution is keyof typeof CSS_IN_JS_SOURCES {
+  return Object.prototype.hasOwnProperty.call(CSS_IN_JS_SOURCES, cssSolution)
+}
+
+/**
+ * Component를 프레임워크별 코드로 생성
+ *
+ * - react: TSX function component (`children` prop)
+ * - vue: SFC (`<script setup lang="ts">` + default slot)
+ * - svelte: Svelte 5 component (`$props()` + `{@render children}`)
+ * - solid: SolidJS TSX component (`props.children`, `class` attribute)
+ *
+ * cssSolution이 "css-modules"이면 `styles.root` / `styles.container`를 참조하고
+ * 짝이 되는 `.module.css`는 css-generator의 generateCSSModule로 생성
+ *
+ * cssSolution이 "styled-components" / "emotion"이면 styled component를 같은 파일에 정의 (React 전용)
+ *
+ * @param breakpoints - CSS Modules media query 기준 (기본: mobile/tablet/desktop)
+ * @param children - 중첩된 자식 컴포넌트 (import 후 children 슬롯 앞에 렌더링)
  *
  * @example
  * generateComponentCode(component, "react", "tailwind")
@@ -493,36 +632,99 @@ function generateContainerWrapperClasses(
  */
 export function generateComponentCode(
   component: Component,
-  framework: "react" | "vue" = "react",
-  cssSolution: "tailwind" | "css-modules" = "tailwind"
+  framework: GenerationPackage["options"]["framework"] = "react",
+  cssSolution: CSSSolution = "tailwind",
+  breakpoints: Breakpoint[] = createEmptySchema().breakpoints,
+  children: Component[] = []
 ): string {
-  if (framework !== "react" || cssSolution !== "tailwind") {
-    throw new Error("Currently only React + Tailwind is supported")
+  if (isCSSInJS(cssSolution)) {
+    if (framework !== "react") {
+      throw new Error(`${cssSolution} output is only supported for React, got: ${framework}`)
+    }
+    return generateStyledComponentCode(component, cssSolution, breakpoints, children)
   }
 
-  const className = generateComponentClasses(component)
+  if (cssSolution !== "tailwind" && cssSolution !== "css-modules") {
+    throw new Error(`Unsupported CSS solution for code generation: ${cssSolution}`)
+  }
+
+  const classes = createClassSpec(component, cssSolution, breakpoints)
+
+  switch (framework) {
+    case "react":
+      return generateReactComponentCode(component, classes, children)
+    case "vue":
+      return generateVueComponentCode(component, classes, children)
+    case "svelte":
+      return generateSvelteComponentCode(component, classes, children)
+    case "solid":
+      return generateSolidComponentCode(component, classes, children)
+    default:
+      throw new Error(`Unsupported framework for code generation: ${framework}`)
+  }
+}
+
+/**
+ * 자식 컴포넌트 import 문 (같은 components 디렉토리 기준)
+ *
+ * - react/solid: named export (`import { Nav } from "./Nav"`)
+ * - vue/svelte: SFC default import (`import Nav from "./Nav.vue"`)
+ */
+function formatChildImports(
+  children: Component[],
+  framework: GenerationPackage["options"]["framework"]
+): string[] {
+  return children.map((child) => {
+    switch (framework) {
+      case "vue":
+        return `import ${child.name} from "./${child.name}.vue"`
+      case "svelte":
+        return `import ${child.name} from "./${child.name}.svelte"`
+      default:
+        return `import { ${child.name} } from "./${child.name}"`
+    }
+  })
+}
+
+/**
+ * 자식 컴포넌트 요소 (children 슬롯 앞에 순서대로 렌더링)
+ */
+function formatChildElements(children: Component[]): string[] {
+  return children.map((child) => `<${child.name} />`)
+}
+
+/**
+ * Component를 React TSX 코드로 생성
+ */
+function generateReactComponentCode(
+  component: Component,
+  classes: ComponentClassSpec,
+  children: Component[]
+): string {
   const defaultChildren =
     (component.props?.children as string) || component.name
 
-  const hasContainerWrapper = needsContainerWrapper(component.layout)
-
   let innerContent = "{children"
   if (defaultChildren !== component.name) {
     innerContent += ` || "${defaultChildren}"`
   }
   innerContent += "}"
 
-  // Container wrapper가 필요한 경우
-  if (hasContainerWrapper && component.layout.container) {
-    const wrapperClasses = generateContainerWrapperClasses(
-      component.layout.container
-    )
+  const content = [...formatChildElements(children), innerContent]
+  const importLines = [
+    ...formatChildImports(children, "react"),
+    ...(classes.stylesImport ? [`import styles from "${classes.stylesImport}"`] : []),
+  ]
+  const imports = importLines.length > 0 ? `${importLines.join("\n")}\n\n` : ""
+  const rootAttribute = formatJsxClassAttribute("className", classes.root)
 
-    return `export function ${component.name}({ children }: { children?: React.ReactNode }) {
+  // Container wrapper가 필요한 경우
+  if (classes.container) {
+    return `${imports}export function ${component.name}({ children }: { children?: React.ReactNode }) {
   return (
-    <${component.semanticTag}${className ? ` className="${className}"` : ""}>
-      <div className="${wrapperClasses}">
-        ${innerContent}
+    <${component.semanticTag}${rootAttribute}>
+      <div${formatJsxClassAttribute("className", classes.container)}>
+        ${content.join("\n        ")}
       </div>
     </${component.semanticTag}>
   )
@@ -530,10 +732,279 @@ export function generateComponentCode(
   }
 
   // 일반 컴포넌트
-  return `export function ${component.name}({ children }: { children?: React.ReactNode }) {
+  return `${imports}export function ${component.name}({ children }: { children?: React.ReactNode }) {
+  return (
+    <${component.semanticTag}${rootAttribute}>
+      ${content.join("\n      ")}
+    </${component.semanticTag}>
+  )
+}`
+}
+
+/**
+ * Component를 React + CSS-in-JS 코드로 생성 (styled-components, Emotion)
+ *
+ * - Root: semantic tag 기반 styled component (스타일이 없으면 일반 tag)
+ * - Container: container layout wrapper
+ * - 반응형 override는 schema breakpoint minWidth 기반 nested `@media`
+ *
+ * @example
+ * ```tsx
+ * "use client"
+ *
+ * import styled from "styled-components"
+ *
+ * const Root = styled.header`
+ *   position: sticky;
+ *   top: 0;
+ *   z-index: 50;
+ * `
+ *
+ * export function GlobalHeader({ children }: { children?: React.ReactNode }) {
+ *   return (
+ *     <Root>
+ *       {children}
+ *     </Root>
+ *   )
+ * }
+ * ```
+ */
+function generateStyledComponentCode(
+  component: Component,
+  cssSolution: keyof typeof CSS_IN_JS_SOURCES,
+  breakpoints: Breakpoint[],
+  children: Component[]
+): string {
+  const defaultChildren =
+    (component.props?.children as string) || component.name
+
+  let innerContent = "{children"
+  if (defaultChildren !== component.name) {
+    innerContent += ` || "${defaultChildren}"`
+  }
+  innerContent += "}"
+
+  const rules = generateComponentStyleRules(component, breakpoints)
+  const rootCSS = formatStyledCSS(rules.root, rules.responsive)
+
+  const definitions: string[] = []
+  if (rootCSS) {
+    definitions.push(`const Root = styled.${component.semanticTag}\`\n${rootCSS}\n\``)
+  }
+  if (rules.container) {
+    definitions.push(`const Container = styled.div\`\n${formatStyledCSS(rules.container)}\n\``)
+  }
+
+  // Tailwind class 등 CSS로 변환할 수 없는 className은 그대로 전달
+  const extra = component.styling?.className
+  const rootTag = rootCSS ? "Root" : component.semanticTag
+  const rootAttribute = extra ? ` className="${extra}"` : ""
+
+  const content = [...formatChildElements(children), innerContent]
+  const body = rules.container
+    ? `      <Container>
+        ${content.join("\n        ")}
+      </Container>`
+    : `      ${content.join("\n      ")}`
+
+  const importLines = [
+    ...(definitions.length > 0 ? [`import styled from "${CSS_IN_JS_SOURCES[cssSolution]}"`] : []),
+    ...formatChildImports(children, "react"),
+  ]
+  const headerBlocks = [
+    ...(definitions.length > 0 ? [`"use client"`] : []),
+    ...(importLines.length > 0 ? [importLines.join("\n")] : []),
+    ...(definitions.length > 0 ? [definitions.join("\n\n")] : []),
+  ]
+  const header = headerBlocks.length > 0 ? `${headerBlocks.join("\n\n")}\n\n` : ""
+
+  return `${header}export function ${component.name}({ children }: { children?: React.ReactNode }) {
+  return (
+    <${rootTag}${rootAttribute}>
+${body}
+    </${rootTag}>
+  )
+}`
+}
+
+/**
+ * Component를 Vue SFC 코드로 생성
+ *
+ * React의 `children` 대신 default slot 사용 (props.children은 slot fallback content)
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * defineSlots<{ default?: () => unknown }>()
+ * </script>
+ *
+ * <template>
+ *   <header class="sticky top-0 z-50">
+ *     <slot />
+ *   </header>
+ * </template>
+ * ```
+ */
+function generateVueComponentCode(
+  component: Component,
+  classes: ComponentClassSpec,
+  children: Component[]
+): string {
+  const defaultChildren =
+    (component.props?.children as string) || component.name
+
+  const slot =
+    defaultChildren !== component.name
+      ? `<slot>${defaultChildren}</slot>`
+      : "<slot />"
+
+  const openTag = `<${component.semanticTag}${formatTemplateClassAttribute("vue", classes.root)}>`
+  const closeTag = `</${component.semanticTag}>`
+
+  const content = [...formatChildElements(children), slot]
+  let body = `    ${content.join("\n    ")}`
+
+  // Container wrapper가 필요한 경우
+  if (classes.container) {
+    body = `    <div${formatTemplateClassAttribute("vue", classes.container)}>
+      ${content.join("\n      ")}
+    </div>`
+  }
+
+  const importLines = [
+    ...formatChildImports(children, "vue"),
+    ...(classes.stylesImport ? [`import styles from "${classes.stylesImport}"`] : []),
+  ]
+  const imports = importLines.length > 0 ? `${importLines.join("\n")}\n\n` : ""
+
+  return `<script setup lang="ts">
+${imports}defineSlots<{ default?: () => unknown }>()
+</script>
+
+<template>
+  ${openTag}
+${body}
+  ${closeTag}
+</template>
+`
+}
+
+/**
+ * Component를 Svelte 5 코드로 생성
+ *
+ * `children` snippet을 `$props()`로 받고 `{@render}`로 출력 (props.children은 fallback content)
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   import type { Snippet } from "svelte"
+ *
+ *   let { children }: { children?: Snippet } = $props()
+ * </script>
+ *
+ * <header class="sticky top-0 z-50">
+ *   {@render children?.()}
+ * </header>
+ * ```
+ */
+function generateSvelteComponentCode(
+  component: Component,
+  classes: ComponentClassSpec,
+  children: Component[]
+): string {
+  const defaultChildren =
+    (component.props?.children as string) || component.name
+
+  const render =
+    defaultChildren !== component.name
+      ? ["{#if children}", "  {@render children()}", "{:else}", `  ${defaultChildren}`, "{/if}"]
+      : ["{@render children?.()}"]
+
+  let content = [...formatChildElements(children), ...render].map((line) => `  ${line}`)
+
+  // Container wrapper가 필요한 경우
+  if (classes.container) {
+    content = [
+      `  <div${formatTemplateClassAttribute("svelte", classes.container)}>`,
+      ...content.map((line) => `  ${line}`),
+      "  </div>",
+    ]
+  }
+
+  const imports = [
+    ...formatChildImports(children, "svelte"),
+    ...(classes.stylesImport ? [`import styles from "${classes.stylesImport}"`] : []),
+  ]
+    .map((line) => `\n  ${line}`)
+    .join("")
+
+  return `<script lang="ts">
+  import type { Snippet } from "svelte"${imports}
+
+  let { children }: { children?: Snippet } = $props()
+</script>
+
+<${component.semanticTag}${formatTemplateClassAttribute("svelte", classes.root)}>
+${content.join("\n")}
+</${component.semanticTag}>
+`
+}
+
+/**
+ * Component를 SolidJS TSX 코드로 생성
+ *
+ * Solid는 props destructuring 시 reactivity가 끊기므로 `props.children`으로 접근
+ *
+ * @example
+ * ```tsx
+ * import type { ParentProps } from "solid-js"
+ *
+ * export function GlobalHeader(props: ParentProps) {
+ *   return (
+ *     <header class="fixed top-0 left-0 right-0 z-50">
+ *       {props.children}
+ *     </header>
+ *   )
+ * }
+ * ```
+ */
+function generateSolidComponentCode(
+  component: Component,
+  classes: ComponentClassSpec,
+  children: Component[]
+): string {
+  const defaultChildren =
+    (component.props?.children as string) || component.name
+
+  let innerContent = "{props.children"
+  if (defaultChildren !== component.name) {
+    innerContent += ` ?? "${defaultChildren}"`
+  }
+  innerContent += "}"
+
+  const content = [...formatChildElements(children), innerContent]
+  let body = `      ${content.join("\n      ")}`
+
+  // Container wrapper가 필요한 경우
+  if (classes.container) {
+    body = `      <div${formatJsxClassAttribute("class", classes.container)}>
+        ${content.join("\n        ")}
+      </div>`
+  }
+
+  const imports = [
+    ...formatChildImports(children, "solid"),
+    ...(classes.stylesImport ? [`import styles from "${classes.stylesImport}"`] : []),
+  ]
+    .map((line) => `\n${line}`)
+    .join("")
+
+  return `import type { ParentProps } from "solid-js"${imports}
+
+export function ${component.name}(props: ParentProps) {
   return (
-    <${component.semanticTag}${className ? ` className="${className}"` : ""}>
-      ${innerContent}
+    <${component.semanticTag}${formatJsxClassAttribute("class", classes.root)}>
+${body}
     </${component.semanticTag}>
   )
 }`
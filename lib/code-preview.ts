@@ -0,0 +1,645 @@
+/**
+ * Code Preview - AI가 생성한 코드를 sandbox iframe에서 미리보기
+ *
+ * 1. parseGeneratedCode로 응답을 파일 단위로 분리 (```tsx path/to/File.tsx)
+ * 2. 브라우저에서 TypeScript transpileModule로 TSX → CommonJS (네트워크 없이 동작)
+ * 3. import를 파일 간 모듈 key로 미리 해석
+ * 4. sandbox="allow-scripts" iframe의 srcdoc으로 렌더링
+ *
+ * iframe에서는 React를 불러올 수 없으므로 정적 렌더러(React shim)로 DOM을 만듦
+ * - Hook은 초기값만 반환하고, 이벤트 핸들러는 무시 (layout 확인용)
+ * - Tailwind는 builder에서 컴파일된 CSS만 있으므로, 응답에 쓰인 layout utility
+ *   (grid-cols-*, col-span-*, grid-rows-[...], md:/lg: 등)는 여기서 CSS를 생성
+ */
+
+import { parseGeneratedCode } from "./ai-service"
+
+/**
+ * 응답에서 분리한 파일
+ */
+export type GeneratedFile = ReturnType<typeof parseGeneratedCode>[number]
+
+/**
+ * iframe에서 실행할 모듈
+ */
+export interface PreviewModule {
+  /** 모듈 key (확장자/src 제거 경로, 예: "components/Header") */
+  key: string
+  /** 원본 파일 경로 */
+  path: string
+  /** transpile된 CommonJS 코드 */
+  code: string
+  /** import specifier → 모듈 key (응답 안의 파일로 해석된 것만) */
+  dependencies: Record<string, string>
+}
+
+/**
+ * Transpile 결과
+ */
+export interface TranspileResult {
+  modules: PreviewModule[]
+  /** 렌더링할 모듈 key (모듈이 없으면 null) */
+  entry: string | null
+  /** 문법 오류 등 (파일 경로 포함) */
+  errors: string[]
+}
+
+/**
+ * iframe → 부모 메시지 타입
+ */
+export const PREVIEW_MESSAGE_TYPES = {
+  ready: "laylder-preview-ready",
+  error: "laylder-preview-error",
+  warning: "laylder-preview-warning",
+} as const
+
+const SCRIPT_EXTENSION = /\.(tsx|ts|jsx|js)$/
+const CSS_BLOCK = /```css(?:[^\S\n]+[^\n]*)?\n([\s\S]*?)```/g
+
+/**
+ * 응답을 미리보기용 파일 + CSS로 분리
+ *
+ * @example
+ * splitGeneratedResponse("```tsx components/Header.tsx\n...```\n```css\n.x {}\n```")
+ * // { files: [{ path: "components/Header.tsx", ... }], css: ".x {}" }
+ */
+export function splitGeneratedResponse(response: string): {
+  files: GeneratedFile[]
+  css: string
+} {
+  const files = parseGeneratedCode(response).filter((file) =>
+    SCRIPT_EXTENSION.test(file.path)
+  )
+  const css = Array.from(response.matchAll(CSS_BLOCK), (match) => match[1].trim()).join("\n\n")
+  return { files, css }
+}
+
+/**
+ * 파일 경로 → 모듈 key
+ *
+ * @example
+ * getModuleKey("./src/components/Header.tsx") // "components/Header"
+ */
+export function getModuleKey(path: string): string {
+  return path
+    .trim()
+    .replace(/^\.?\//, "")
+    .replace(/^src\//, "")
+    .replace(SCRIPT_EXTENSION, "")
+}
+
+/**
+ * "a/b/../c" → "a/c"
+ */
+function normalizeSegments(path: string): string {
+  const segments: string[] = []
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") continue
+    if (segment === "..") segments.pop()
+    else segments.push(segment)
+  }
+  return segments.join("/")
+}
+
+/**
+ * import specifier를 응답 안의 모듈 key로 해석 (없으면 null → iframe의 내장 shim 사용)
+ *
+ * - 상대 경로: import한 파일 기준
+ * - "@/", "~/": 프로젝트 루트 기준
+ * - 정확히 일치하지 않으면 파일 이름이 같은 모듈이 하나뿐일 때 그 모듈
+ */
+export function resolveImport(
+  specifier: string,
+  fromKey: string,
+  keys: string[]
+): string | null {
+  let candidate: string
+  if (specifier.startsWith("@/") || specifier.startsWith("~/")) {
+    candidate = specifier.slice(2)
+  } else if (specifier.startsWith(".")) {
+    const dir = fromKey.split("/").slice(0, -1).join("/")
+    candidate = normalizeSegments(`${dir}/${specifier}`)
+  } else {
+    return null
+  }
+  candidate = getModuleKey(candidate)
+
+  if (keys.includes(candidate)) return candidate
+  if (keys.includes(`${candidate}/index`)) return `${candidate}/index`
+
+  const suffixMatches = keys.filter((key) => key.endsWith(`/${candidate}`))
+  if (suffixMatches.length === 1) return suffixMatches[0]
+
+  const name = candidate.split("/").pop()
+  const nameMatches = keys.filter((key) => key.split("/").pop() === name)
+  return nameMatches.length === 1 ? nameMatches[0] : null
+}
+
+/**
+ * 렌더링할 모듈 선택
+ *
+ * page > App > index > 다른 모듈이 import하지 않는 모듈 (layout 제외) > 첫 모듈
+ */
+export function pickEntryModule(modules: PreviewModule[]): string | null {
+  const keys = modules.map((m) => m.key)
+  const byName = (pattern: RegExp) => keys.find((key) => pattern.test(key))
+  const imported = new Set(modules.flatMap((m) => Object.values(m.dependencies)))
+
+  return (
+    byName(/(^|\/)page$/) ??
+    byName(/(^|\/)App$/) ??
+    byName(/(^|\/)index$/) ??
+    keys.find((key) => !imported.has(key) && !/(^|\/)layout$/.test(key)) ??
+    keys[0] ??
+    null
+  )
+}
+
+/**
+ * 파일들을 TypeScript로 transpile (typescript는 처음 사용할 때 동적으로 로드)
+ *
+ * 브라우저에서 실행되므로 typescript는 dependencies에 포함 (별도 chunk, 미리보기를 열기 전에는 로드하지 않음)
+ */
+export async function transpileGeneratedFiles(files: GeneratedFile[]): Promise<TranspileResult> {
+  const ts = (await import("typescript")).default
+  const keys = files.map((file) => getModuleKey(file.path))
+  const errors: string[] = []
+
+  const modules = files.map((file, index): PreviewModule => {
+    const key = keys[index]
+    const output = ts.transpileModule(file.content, {
+      fileName: file.path,
+      reportDiagnostics: true,
+      compilerOptions: {
+        jsx: ts.JsxEmit.React,
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+      },
+    })
+
+    for (const diagnostic of output.diagnostics ?? []) {
+      errors.push(`${file.path}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`)
+    }
+
+    const dependencies: Record<string, string> = {}
+    for (const [, specifier] of output.outputText.matchAll(/require\("([^"]+)"\)/g)) {
+      const resolved = resolveImport(specifier, key, keys)
+      if (resolved && resolved !== key) dependencies[specifier] = resolved
+    }
+
+    return { key, path: file.path, code: output.outputText, dependencies }
+  })
+
+  return { modules, entry: pickEntryModule(modules), errors }
+}
+
+// Tailwind 기본 screen (min-width)
+const SCREENS: Record<string, number> = { sm: 640, md: 768, lg: 1024, xl: 1280, "2xl": 1536 }
+
+const MAX_WIDTHS: Record<string, string> = {
+  sm: "24rem", md: "28rem", lg: "32rem", xl: "36rem", "2xl": "42rem", "3xl": "48rem",
+  "4xl": "56rem", "5xl": "64rem", "6xl": "72rem", "7xl": "80rem", full: "100%", none: "none",
+}
+
+const ALIGN: Record<string, string> = {
+  start: "flex-start", end: "flex-end", center: "center", baseline: "baseline", stretch: "stretch",
+}
+
+const JUSTIFY: Record<string, string> = {
+  start: "flex-start", end: "flex-end", center: "center",
+  between: "space-between", around: "space-around", evenly: "space-evenly",
+}
+
+const DISPLAY: Record<string, string> = {
+  block: "block", "inline-block": "inline-block", inline: "inline", flex: "flex",
+  "inline-flex": "inline-flex", grid: "grid", "inline-grid": "inline-grid",
+  contents: "contents", hidden: "none",
+}
+
+const STATIC_UTILITIES: Record<string, string> = {
+  "flex-row": "flex-direction: row",
+  "flex-row-reverse": "flex-direction: row-reverse",
+  "flex-col": "flex-direction: column",
+  "flex-col-reverse": "flex-direction: column-reverse",
+  "flex-wrap": "flex-wrap: wrap",
+  "flex-nowrap": "flex-wrap: nowrap",
+  "flex-1": "flex: 1 1 0%",
+  "flex-auto": "flex: 1 1 auto",
+  "flex-none": "flex: none",
+  "shrink-0": "flex-shrink: 0",
+  grow: "flex-grow: 1",
+  "col-span-full": "grid-column: 1 / -1",
+  "row-span-full": "grid-row: 1 / -1",
+  "w-full": "width: 100%",
+  "w-screen": "width: 100vw",
+  "h-full": "height: 100%",
+  "h-screen": "height: 100vh",
+  "min-h-full": "min-height: 100%",
+  "min-h-screen": "min-height: 100vh",
+  "mx-auto": "margin-left: auto; margin-right: auto",
+  static: "position: static",
+  relative: "position: relative",
+  absolute: "position: absolute",
+  fixed: "position: fixed",
+  sticky: "position: sticky",
+}
+
+const SPACING_PROPERTIES: Record<string, string[]> = {
+  gap: ["gap"], "gap-x": ["column-gap"], "gap-y": ["row-gap"],
+  p: ["padding"], px: ["padding-left", "padding-right"], py: ["padding-top", "padding-bottom"],
+  pt: ["padding-top"], pb: ["padding-bottom"], pl: ["padding-left"], pr: ["padding-right"],
+  m: ["margin"], mx: ["margin-left", "margin-right"], my: ["margin-top", "margin-bottom"],
+  mt: ["margin-top"], mb: ["margin-bottom"], ml: ["margin-left"], mr: ["margin-right"],
+  top: ["top"], bottom: ["bottom"], left: ["left"], right: ["right"],
+  inset: ["top", "right", "bottom", "left"],
+}
+
+const GRID_LINES: Record<string, string> = {
+  "col-start": "grid-column-start", "col-end": "grid-column-end",
+  "row-start": "grid-row-start", "row-end": "grid-row-end",
+}
+
+/**
+ * Utility 하나의 CSS 선언 (지원하지 않으면 null)
+ */
+function getUtilityDeclarations(utility: string): string | null {
+  if (DISPLAY[utility]) return `display: ${DISPLAY[utility]}`
+  if (STATIC_UTILITIES[utility]) return STATIC_UTILITIES[utility]
+
+  const arbitrary = (value: string) => value.slice(1, -1).replace(/_/g, " ")
+
+  let match = utility.match(/^grid-(cols|rows)-(\d+|none|\[.+\])$/)
+  if (match) {
+    const property = match[1] === "cols" ? "grid-template-columns" : "grid-template-rows"
+    const value = match[2]
+    if (value.startsWith("[")) return `${property}: ${arbitrary(value)}`
+    return `${property}: ${value === "none" ? "none" : `repeat(${value}, minmax(0, 1fr))`}`
+  }
+
+  match = utility.match(/^(col|row)-span-(\d+)$/)
+  if (match) {
+    return `grid-${match[1] === "col" ? "column" : "row"}: span ${match[2]} / span ${match[2]}`
+  }
+
+  match = utility.match(/^(col-start|col-end|row-start|row-end)-(\d+|auto|\[.+\])$/)
+  if (match) {
+    return `${GRID_LINES[match[1]]}: ${match[2].startsWith("[") ? arbitrary(match[2]) : match[2]}`
+  }
+
+  match = utility.match(/^grid-flow-(row|col|dense|row-dense|col-dense)$/)
+  if (match) {
+    return `grid-auto-flow: ${match[1].replace("col", "column").replace("-", " ")}`
+  }
+
+  match = utility.match(/^items-(\w+)$/)
+  if (match && ALIGN[match[1]]) return `align-items: ${ALIGN[match[1]]}`
+
+  match = utility.match(/^justify-(\w+)$/)
+  if (match && JUSTIFY[match[1]]) return `justify-content: ${JUSTIFY[match[1]]}`
+
+  match = utility.match(/^order-(\d+|first|last|none)$/)
+  if (match) {
+    const order = { first: "-9999", last: "9999", none: "0" }[match[1]] ?? match[1]
+    return `order: ${order}`
+  }
+
+  match = utility.match(/^z-(\d+)$/)
+  if (match) return `z-index: ${match[1]}`
+
+  match = utility.match(/^max-w-(.+)$/)
+  if (match && MAX_WIDTHS[match[1]]) return `max-width: ${MAX_WIDTHS[match[1]]}`
+
+  match = utility.match(/^(gap-x|gap-y|gap|px|py|pt|pb|pl|pr|p|mx|my|mt|mb|ml|mr|m|top|bottom|left|right|inset)-(\d+(?:\.5)?|px|\[.+\])$/)
+  if (match) {
+    const value = match[2].startsWith("[")
+      ? arbitrary(match[2])
+      : match[2] === "px"
+        ? "1px"
+        : match[2] === "0"
+          ? "0px"
+          : `${Number(match[2]) * 0.25}rem`
+    return SPACING_PROPERTIES[match[1]].map((property) => `${property}: ${value}`).join("; ")
+  }
+
+  return null
+}
+
+/**
+ * Class 이름을 CSS selector로 escape
+ */
+function escapeClassName(className: string): string {
+  const escaped = className.replace(/[^a-zA-Z0-9_-]/g, (char) => `\\${char}`)
+  return /^\d/.test(escaped) ? `\\3${escaped[0]} ${escaped.slice(1)}` : escaped
+}
+
+/**
+ * 소스에 쓰인 layout utility class의 CSS 생성 (Tailwind처럼 소스 텍스트에서 후보를 찾음)
+ *
+ * 응답은 `grid-rows-[repeat(3,auto)]` 같은 arbitrary value를 쓰는데,
+ * builder의 컴파일된 Tailwind CSS에는 없으므로 미리보기에서 layout이 깨지지 않도록 생성
+ *
+ * @example
+ * generateLayoutUtilityCss('<div className="grid grid-cols-4 lg:grid-cols-12">')
+ * // ".grid { display: grid }\n.grid-cols-4 { ... }\n@media (min-width: 1024px) { .lg\:grid-cols-12 { ... } }"
+ */
+export function generateLayoutUtilityCss(source: string): string {
+  const candidates = new Set(source.match(/[^\s"'`{}<>;=]+/g) ?? [])
+  // 기본 → sm → md → ... 순서 (큰 screen이 나중에 와야 override)
+  const rulesByScreen = new Map<string, string[]>(
+    ["", ...Object.keys(SCREENS)].map((screen) => [screen, []])
+  )
+
+  for (const candidate of candidates) {
+    const match = candidate.match(/^(?:(sm|md|lg|xl|2xl):)?([a-z][\w.-]*(?:-\[[^\]\s]+\])?)$/)
+    if (!match) continue
+    const declarations = getUtilityDeclarations(match[2])
+    if (!declarations) continue
+    rulesByScreen.get(match[1] ?? "")!.push(`.${escapeClassName(candidate)} { ${declarations} }`)
+  }
+
+  return Array.from(rulesByScreen, ([screen, rules]) => {
+    if (rules.length === 0) return ""
+    if (!screen) return rules.join("\n")
+    return `@media (min-width: ${SCREENS[screen]}px) {\n${rules.map((rule) => `  ${rule}`).join("\n")}\n}`
+  })
+    .filter(Boolean)
+    .join("\n")
+}
+
+/**
+ * 미리보기에서 동작하지 않는 hook (runtime은 한 번만 정적으로 렌더링)
+ * - useState / useReducer: 초기값으로 렌더링, setter / dispatch는 no-op
+ * - effect / imperative handle: 실행되지 않음
+ */
+const STATIC_PREVIEW_HOOKS = [
+  "useState",
+  "useReducer",
+  "useEffect",
+  "useLayoutEffect",
+  "useInsertionEffect",
+  "useImperativeHandle",
+]
+
+/**
+ * 소스에 쓰인 hook 중 미리보기에서 동작하지 않는 것
+ *
+ * @example
+ * findStaticPreviewHooks("const [open, setOpen] = useState(false)\nuseEffect(() => {}, [])")
+ * // ["useState", "useEffect"]
+ */
+export function findStaticPreviewHooks(source: string): string[] {
+  return STATIC_PREVIEW_HOOKS.filter((hook) => new RegExp(`\\b${hook}\\s*[(<]`).test(source))
+}
+
+/**
+ * iframe 안에서 실행되는 runtime (React shim + 정적 렌더러 + CommonJS 로더)
+ *
+ * sandbox iframe은 부모에 접근할 수 없으므로 결과는 postMessage로만 전달
+ */
+const PREVIEW_RUNTIME = String.raw`
+(function () {
+  var data = JSON.parse(document.getElementById("preview-data").textContent);
+  var errorEl = document.getElementById("preview-error");
+  var TYPES = data.messageTypes;
+
+  function post(type, message) {
+    parent.postMessage({ type: type, message: message }, "*");
+  }
+  function reportError(error) {
+    var message = error && error.message ? error.message : String(error);
+    errorEl.textContent = message;
+    errorEl.style.display = "block";
+    post(TYPES.error, message);
+  }
+  window.addEventListener("error", function (event) { reportError(event.error || event.message); });
+
+  var FRAGMENT = { fragment: true };
+  var PROVIDER = { provider: true };
+  var noop = function () {};
+  var idCounter = 0;
+
+  function toArray(children) {
+    if (children == null || typeof children === "boolean") return [];
+    return Array.isArray(children) ? children.reduce(function (acc, c) { return acc.concat(toArray(c)); }, []) : [children];
+  }
+
+  function Component(props) { this.props = props; }
+  Component.prototype.isReactComponent = {};
+  Component.prototype.setState = noop;
+  Component.prototype.forceUpdate = noop;
+
+  var React = {
+    createElement: function (type, props) {
+      var children = Array.prototype.slice.call(arguments, 2);
+      var merged = Object.assign({}, props);
+      if (children.length > 0) merged.children = children.length === 1 ? children[0] : children;
+      if (type && type.defaultProps) {
+        Object.keys(type.defaultProps).forEach(function (k) { if (merged[k] === undefined) merged[k] = type.defaultProps[k]; });
+      }
+      return { $$element: true, type: type, props: merged };
+    },
+    cloneElement: function (element, props) {
+      return { $$element: true, type: element.type, props: Object.assign({}, element.props, props) };
+    },
+    isValidElement: function (value) { return !!value && value.$$element === true; },
+    Fragment: FRAGMENT,
+    Component: Component,
+    PureComponent: Component,
+    Children: {
+      toArray: toArray,
+      map: function (children, fn) { return toArray(children).map(fn); },
+      forEach: function (children, fn) { toArray(children).forEach(fn); },
+      count: function (children) { return toArray(children).length; },
+      only: function (children) { return toArray(children)[0]; }
+    },
+    createContext: function (value) {
+      var context = { _currentValue: value };
+      context.Provider = function (props) { return { $$element: true, type: PROVIDER, props: { context: context, value: props.value, children: props.children } }; };
+      context.Consumer = function (props) { return props.children(context._currentValue); };
+      return context;
+    },
+    useContext: function (context) { return context._currentValue; },
+    useState: function (initial) { return [typeof initial === "function" ? initial() : initial, noop]; },
+    useReducer: function (reducer, initial, init) { return [init ? init(initial) : initial, noop]; },
+    useRef: function (initial) { return { current: initial === undefined ? null : initial }; },
+    useMemo: function (fn) { return fn(); },
+    useCallback: function (fn) { return fn; },
+    useId: function () { idCounter += 1; return "preview-id-" + idCounter; },
+    useEffect: noop,
+    useLayoutEffect: noop,
+    useInsertionEffect: noop,
+    useImperativeHandle: noop,
+    useTransition: function () { return [false, function (fn) { fn(); }]; },
+    useDeferredValue: function (value) { return value; },
+    forwardRef: function (render) { return function (props) { return render(props, null); }; },
+    memo: function (component) { return component; },
+    lazy: function () { return function () { return null; }; },
+    Suspense: function (props) { return props.children; },
+    StrictMode: function (props) { return props.children; }
+  };
+  React.default = React;
+  React.__esModule = true;
+
+  var SVG_NS = "http://www.w3.org/2000/svg";
+  var UNITLESS = /^(flex|flexGrow|flexShrink|fontWeight|lineHeight|opacity|order|zIndex|zoom|gridRow|gridColumn|gridRowStart|gridRowEnd|gridColumnStart|gridColumnEnd)$/;
+
+  function setProp(el, name, value, isSvg) {
+    if (name === "children" || name === "key" || name === "ref" || name === "dangerouslySetInnerHTML") return;
+    if (value == null || value === false || /^on[A-Z]/.test(name)) return;
+    if (name === "style" && typeof value === "object") {
+      Object.keys(value).forEach(function (key) {
+        var v = value[key];
+        if (v == null || v === "") return;
+        var cssName = key.indexOf("--") === 0 ? key : key.replace(/[A-Z]/g, function (m) { return "-" + m.toLowerCase(); });
+        el.style.setProperty(cssName, typeof v === "number" && !UNITLESS.test(key) ? v + "px" : String(v));
+      });
+      return;
+    }
+    if (name === "className") name = "class";
+    if (name === "htmlFor") name = "for";
+    if (!isSvg && (name === "value" || name === "checked" || name === "defaultValue" || name === "defaultChecked")) {
+      el[name.replace(/^default(\w)/, function (_, c) { return c.toLowerCase(); })] = value;
+      return;
+    }
+    el.setAttribute(name, value === true ? "" : String(value));
+  }
+
+  function render(node, parentEl, isSvg) {
+    if (node == null || typeof node === "boolean") return;
+    if (Array.isArray(node)) { node.forEach(function (child) { render(child, parentEl, isSvg); }); return; }
+    if (typeof node !== "object") { parentEl.appendChild(document.createTextNode(String(node))); return; }
+    if (!node.$$element) throw new Error("Objects are not valid as a child: " + JSON.stringify(node).slice(0, 80));
+
+    var type = node.type;
+    var props = node.props || {};
+    if (type === FRAGMENT) { render(props.children, parentEl, isSvg); return; }
+    if (type === PROVIDER) {
+      var previous = props.context._currentValue;
+      props.context._currentValue = props.value;
+      try { render(props.children, parentEl, isSvg); } finally { props.context._currentValue = previous; }
+      return;
+    }
+    if (typeof type === "function") {
+      if (type.prototype && type.prototype.isReactComponent) {
+        var instance = new type(props);
+        instance.props = props;
+        render(instance.render(), parentEl, isSvg);
+      } else {
+        render(type(props), parentEl, isSvg);
+      }
+      return;
+    }
+    if (typeof type !== "string") throw new Error("Unsupported element type: " + String(type));
+
+    var svg = isSvg || type === "svg";
+    var el = svg ? document.createElementNS(SVG_NS, type) : document.createElement(type);
+    Object.keys(props).forEach(function (name) { setProp(el, name, props[name], svg); });
+    if (props.dangerouslySetInnerHTML) el.innerHTML = props.dangerouslySetInnerHTML.__html;
+    else render(props.children, el, svg && type !== "foreignObject");
+    parentEl.appendChild(el);
+  }
+
+  // 응답 밖의 모듈 (react, next/*, 유틸) shim
+  function join() {
+    var out = [];
+    toArray(Array.prototype.slice.call(arguments)).forEach(function (value) {
+      if (!value) return;
+      if (typeof value === "object") Object.keys(value).forEach(function (k) { if (value[k]) out.push(k); });
+      else out.push(String(value));
+    });
+    return out.join(" ");
+  }
+  function passthrough(props) { return props.children === undefined ? null : props.children; }
+  var BUILTINS = {
+    "react": React,
+    "react-dom": { __esModule: true, default: {}, createPortal: function (children) { return children; } },
+    "next/link": { __esModule: true, default: function (props) {
+      return React.createElement("a", Object.assign({}, props, { href: typeof props.href === "string" ? props.href : "#" }));
+    } },
+    "next/image": { __esModule: true, default: function (props) {
+      var style = Object.assign({}, props.style, props.fill ? { position: "absolute", inset: 0, width: "100%", height: "100%", objectFit: "cover" } : {});
+      return React.createElement("img", { src: typeof props.src === "string" ? props.src : "", alt: props.alt, width: props.width, height: props.height, className: props.className, style: style });
+    } },
+    "clsx": { __esModule: true, default: join, clsx: join },
+    "classnames": { __esModule: true, default: join },
+    "tailwind-merge": { __esModule: true, twMerge: join },
+    "@/lib/utils": { __esModule: true, cn: join }
+  };
+  function fallbackModule(specifier) {
+    if (/\.module\.(css|scss)$/.test(specifier)) {
+      var styles = new Proxy({}, { get: function (_, name) { return typeof name === "string" ? name : undefined; } });
+      return { __esModule: true, default: styles };
+    }
+    if (/\.(css|scss)$/.test(specifier)) return {};
+    if (/^next\/font/.test(specifier)) {
+      return new Proxy({ __esModule: true }, { get: function (target, name) {
+        return name in target ? target[name] : function () { return { className: "", variable: "", style: {} }; };
+      } });
+    }
+    post(TYPES.warning, "Module \"" + specifier + "\" is not part of the response; its exports render their children only");
+    return new Proxy({ __esModule: true }, { get: function (target, name) { return name in target ? target[name] : passthrough; } });
+  }
+
+  var cache = {};
+  function load(key) {
+    if (cache[key]) return cache[key].exports;
+    var mod = data.modules[key];
+    var module = { exports: {} };
+    cache[key] = module;
+    var require = function (specifier) {
+      if (mod.dependencies[specifier]) return load(mod.dependencies[specifier]);
+      if (BUILTINS[specifier]) return BUILTINS[specifier];
+      return fallbackModule(specifier);
+    };
+    new Function("require", "module", "exports", "React", mod.code)(require, module, module.exports, React);
+    return module.exports;
+  }
+
+  try {
+    var exports = load(data.entry);
+    var Entry = exports.default || Object.keys(exports).map(function (k) { return exports[k]; }).filter(function (v) { return typeof v === "function"; })[0];
+    if (!Entry) throw new Error("The entry file \"" + data.modules[data.entry].path + "\" does not export a component");
+    render(React.createElement(Entry, {}), document.getElementById("root"), false);
+    post(TYPES.ready, data.modules[data.entry].path);
+  } catch (error) {
+    reportError(error);
+  }
+})();
+`
+
+/**
+ * iframe srcdoc 생성
+ *
+ * @param css - 적용할 CSS (builder CSS + 응답 CSS + layout utility CSS)
+ */
+export function buildPreviewDocument(
+  result: Pick<TranspileResult, "modules" | "entry">,
+  css: string
+): string {
+  const data = {
+    entry: result.entry,
+    messageTypes: PREVIEW_MESSAGE_TYPES,
+    modules: Object.fromEntries(result.modules.map((m) => [m.key, m])),
+  }
+  // </script>, </style>가 태그를 닫지 않도록
+  const json = JSON.stringify(data).replace(/</g, "\\u003c")
+  const style = css.replace(/<\/style/gi, "<\\/style")
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+${style}
+</style>
+</head>
+<body>
+<div id="root"></div>
+<pre id="preview-error" style="display:none;margin:16px;padding:12px;border:1px solid #fca5a5;background:#fef2f2;color:#b91c1c;white-space:pre-wrap;font-size:12px"></pre>
+<script type="application/json" id="preview-data">${json}</script>
+<script>${PREVIEW_RUNTIME}</script>
+</body>
+</html>`
+}
@@ -0,0 +1,196 @@
+/**
+ * Code Repair - Generate → Validate → Repair 루프
+ *
+ * validateGeneratedCode의 ValidationIssue로 모델에 보낼 후속 프롬프트를 만들고,
+ * 응답을 다시 붙여넣을 때마다 점수를 기록해 통과(에러 0개)할 때까지 추적
+ */
+
+import type { Component, LaydlerSchema } from "@/types/schema"
+import { parseGeneratedCode } from "./ai-service"
+import { generateComponentClasses } from "./code-generator"
+import {
+  validateGeneratedCode,
+  type BPValidationResult,
+  type ValidationIssue,
+} from "./prompt-bp-validator"
+
+/**
+ * 한 번의 검증 결과 (반복 기록용)
+ */
+export interface RepairIteration {
+  /** 1부터 시작 */
+  iteration: number
+  score: number
+  valid: boolean
+  errors: number
+  warnings: number
+  /** 같은 응답을 다시 검증했는지 확인하기 위한 원문 */
+  response: string
+}
+
+/**
+ * 반복 기록 요약
+ */
+export interface RepairStatus {
+  /** 마지막 응답이 통과했는지 */
+  passed: boolean
+  latestScore: number | null
+  bestScore: number | null
+  /** 직전 반복 대비 점수 변화 (반복이 2개 이상일 때) */
+  scoreDelta: number | null
+  /** 최근 반복들에서 점수가 오르지 않음 → 자동 수정이 막힘, 직접 수정 필요 */
+  stalled: boolean
+}
+
+/**
+ * 점수가 오르지 않은 반복이 이만큼 이어지면 stalled
+ */
+export const REPAIR_STALL_ITERATIONS = 2
+
+const SEVERITY_ORDER: Record<ValidationIssue["severity"], number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+}
+
+const SEVERITY_LABEL: Record<ValidationIssue["severity"], string> = {
+  error: "ERROR",
+  warning: "WARNING",
+  info: "INFO",
+}
+
+/**
+ * 응답에서 검증할 코드 (파일 코드 블록이 없으면 응답 전체)
+ */
+export function extractGeneratedCode(response: string): string {
+  const files = parseGeneratedCode(response)
+  return files.length > 0 ? files.map((file) => file.content).join("\n\n") : response
+}
+
+/**
+ * 응답 검증 (extractGeneratedCode + validateGeneratedCode)
+ */
+export function validateResponse(response: string, schema: LaydlerSchema): BPValidationResult {
+  return validateGeneratedCode(extractGeneratedCode(response), schema)
+}
+
+/**
+ * 검증 결과를 반복 기록에 추가 (같은 응답을 다시 검증하면 마지막 기록을 교체)
+ */
+export function recordRepairIteration(
+  iterations: RepairIteration[],
+  result: BPValidationResult,
+  response: string
+): RepairIteration[] {
+  const last = iterations[iterations.length - 1]
+  const previous = last?.response === response ? iterations.slice(0, -1) : iterations
+
+  return [
+    ...previous,
+    {
+      iteration: previous.length + 1,
+      score: result.score,
+      valid: result.valid,
+      errors: result.summary.errors,
+      warnings: result.summary.warnings,
+      response,
+    },
+  ]
+}
+
+/**
+ * 반복 기록 요약
+ */
+export function getRepairStatus(iterations: RepairIteration[]): RepairStatus {
+  const latest = iterations[iterations.length - 1]
+  const previous = iterations[iterations.length - 2]
+  const recent = iterations.slice(-(REPAIR_STALL_ITERATIONS + 1))
+
+  return {
+    passed: latest?.valid ?? false,
+    latestScore: latest?.score ?? null,
+    bestScore: iterations.length > 0 ? Math.max(...iterations.map((i) => i.score)) : null,
+    scoreDelta: latest && previous ? latest.score - previous.score : null,
+    stalled:
+      !latest?.valid &&
+      recent.length === REPAIR_STALL_ITERATIONS + 1 &&
+      recent.slice(1).every((iteration) => iteration.score <= recent[0].score),
+  }
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  const lines = [`- [${SEVERITY_LABEL[issue.severity]}] ${issue.message}`]
+  if (issue.suggestion) lines.push(`  - Fix: ${issue.suggestion}`)
+  if (issue.codeSnippet) lines.push(`  - Found: \`${issue.codeSnippet}\``)
+  return lines.join("\n")
+}
+
+function formatComponentIssues(component: Component, issues: ValidationIssue[]): string {
+  const expectedClasses = generateComponentClasses(component)
+  return [
+    `### ${component.name} (${component.id}) — \`<${component.semanticTag}>\``,
+    "",
+    expectedClasses
+      ? `Expected Tailwind classes on the \`<${component.semanticTag}>\`: \`${expectedClasses}\``
+      : `Expected element: \`<${component.semanticTag}>\` (no positioning/layout classes required)`,
+    "",
+    ...issues.map(formatIssue),
+  ].join("\n")
+}
+
+/**
+ * ValidationIssue별 후속 프롬프트 생성
+ *
+ * - 컴포넌트 이슈는 컴포넌트별로 묶고 generateComponentClasses의 예상 class를 함께 제공
+ * - 컴포넌트와 무관한 이슈(code style, layout-only)는 General 섹션
+ * - info는 통과 여부와 무관하므로 includeInfo일 때만 포함
+ *
+ * @returns 고칠 이슈가 없으면 null
+ */
+export function buildRepairPrompt(
+  result: BPValidationResult,
+  schema: LaydlerSchema,
+  options: { includeInfo?: boolean } = {}
+): string | null {
+  const issues = result.issues
+    .filter((issue) => options.includeInfo || issue.severity !== "info")
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+  if (issues.length === 0) return null
+
+  const componentSections = schema.components
+    .map((component) => ({
+      component,
+      issues: issues.filter((issue) => issue.componentId === component.id),
+    }))
+    .filter(({ issues }) => issues.length > 0)
+    .map(({ component, issues }) => formatComponentIssues(component, issues))
+
+  const knownIds = new Set(schema.components.map((c) => c.id))
+  const generalIssues = issues.filter((issue) => !issue.componentId || !knownIds.has(issue.componentId))
+
+  const sections = [
+    "# Fix the Generated Layout Code",
+    "",
+    `Your previous response was validated against the layout schema and scored ${result.score}/100 ` +
+      `(${result.summary.errors} error${result.summary.errors !== 1 ? "s" : ""}, ` +
+      `${result.summary.warnings} warning${result.summary.warnings !== 1 ? "s" : ""}).`,
+    "Fix ONLY the issues listed below and keep everything else unchanged.",
+    "",
+  ]
+
+  if (componentSections.length > 0) {
+    sections.push("## Component Issues", "", componentSections.join("\n\n"), "")
+  }
+  if (generalIssues.length > 0) {
+    sections.push("## General Issues", "", ...generalIssues.map(formatIssue), "")
+  }
+
+  sections.push(
+    "## Response Format",
+    "",
+    "Return every file you changed in full, each in its own code block with the file path " +
+      "(e.g. ```tsx components/Header.tsx). Do not include unchanged files or explanations."
+  )
+
+  return sections.join("\n")
+}
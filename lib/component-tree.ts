@@ -0,0 +1,304 @@
+/**
+ * Component Tree - 컴포넌트 부모/자식 계층
+ *
+ * - Component.parentId가 유일한 기준 (children은 schema.components 순서대로 파생)
+ * - 최상위(root) 컴포넌트만 layouts[].components에 포함
+ * - 중첩 가능 여부: 순환 방지 + HTML 시맨틱 포함 규칙
+ * - Canvas drop target: 드롭 영역을 완전히 포함하는 가장 깊은 컴포넌트
+ */
+
+import type { CanvasLayout, Component, SemanticTag } from "@/types/schema"
+import { getCanvasLayoutForBreakpoint } from "./canvas-utils"
+
+/**
+ * 컴포넌트 트리 노드 (LayersTree, 코드 생성용)
+ */
+export interface ComponentTreeNode {
+  component: Component
+  children: ComponentTreeNode[]
+}
+
+/**
+ * 시맨틱 태그별 허용되지 않는 조상 태그 (HTML content model 기준)
+ *
+ * - <main>: header/footer/nav/aside/article 또는 다른 main 안에 둘 수 없음
+ * - <header>/<footer>: header/footer 안에 둘 수 없음
+ * - <form>: form 안에 둘 수 없음
+ */
+const FORBIDDEN_ANCESTORS: Partial<Record<SemanticTag, SemanticTag[]>> = {
+  main: ["header", "footer", "nav", "aside", "article", "main"],
+  header: ["header", "footer"],
+  footer: ["header", "footer"],
+  form: ["form"],
+}
+
+/**
+ * 최상위 컴포넌트 (parentId 없음 또는 부모가 존재하지 않음)
+ */
+export function getRootComponents(components: Component[]): Component[] {
+  const ids = new Set(components.map((c) => c.id))
+  return components.filter((c) => !c.parentId || !ids.has(c.parentId))
+}
+
+/**
+ * 직계 자식 컴포넌트 (schema.components 순서 유지)
+ */
+export function getChildComponents(components: Component[], parentId: string): Component[] {
+  return components.filter((c) => c.parentId === parentId)
+}
+
+/**
+ * 모든 자손 컴포넌트 ID (깊이 우선, 순환 안전)
+ */
+export function getDescendantIds(components: Component[], id: string): string[] {
+  const result: string[] = []
+  const visited = new Set<string>([id])
+  const stack = [id]
+
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    for (const child of getChildComponents(components, current)) {
+      if (visited.has(child.id)) continue
+      visited.add(child.id)
+      result.push(child.id)
+      stack.push(child.id)
+    }
+  }
+
+  return result
+}
+
+/**
+ * 조상 컴포넌트 ID (가까운 부모부터, 순환 안전)
+ */
+export function getAncestorIds(components: Component[], id: string): string[] {
+  const byId = new Map(components.map((c) => [c.id, c]))
+  const result: string[] = []
+  const visited = new Set<string>([id])
+  let parentId = byId.get(id)?.parentId
+
+  while (parentId && byId.has(parentId) && !visited.has(parentId)) {
+    visited.add(parentId)
+    result.push(parentId)
+    parentId = byId.get(parentId)?.parentId
+  }
+
+  return result
+}
+
+/**
+ * rootIds 순서대로 컴포넌트와 그 자손 (부모가 항상 자식보다 먼저, 중복 없음)
+ *
+ * layouts[bp].components(최상위) → Canvas/LayersTree에 실제로 표시되는 컴포넌트 전체
+ */
+export function getComponentsWithDescendants(
+  components: Component[],
+  rootIds: string[]
+): Component[] {
+  const byId = new Map(components.map((c) => [c.id, c]))
+  const ordered = new Set<Component>()
+
+  for (const rootId of rootIds) {
+    const root = byId.get(rootId)
+    if (!root) continue
+    ordered.add(root)
+    getDescendantIds(components, rootId).forEach((id) => ordered.add(byId.get(id)!))
+  }
+
+  return Array.from(ordered)
+}
+
+/**
+ * parentId 관계에 순환이 있는 컴포넌트 ID (자기 자신을 부모로 지정한 경우 포함)
+ */
+export function findNestingCycles(components: Component[]): string[] {
+  const byId = new Map(components.map((c) => [c.id, c]))
+
+  return components
+    .filter((component) => {
+      const visited = new Set<string>()
+      let parentId = component.parentId
+      while (parentId && byId.has(parentId)) {
+        if (parentId === component.id) return true
+        if (visited.has(parentId)) return false // 다른 순환에 진입 (이 컴포넌트는 순환 밖)
+        visited.add(parentId)
+        parentId = byId.get(parentId)?.parentId
+      }
+      return false
+    })
+    .map((c) => c.id)
+}
+
+/**
+ * 컴포넌트 트리 생성
+ *
+ * 순환으로 root에 도달하지 못하는 컴포넌트도 누락되지 않도록 최상위에 추가
+ *
+ * @example
+ * buildComponentTree([header, nav(parentId: header.id), main])
+ * // [{ component: header, children: [{ component: nav, children: [] }] }, { component: main, children: [] }]
+ */
+export function buildComponentTree(components: Component[]): ComponentTreeNode[] {
+  const visited = new Set<string>()
+
+  const build = (component: Component): ComponentTreeNode => {
+    visited.add(component.id)
+    return {
+      component,
+      children: getChildComponents(components, component.id)
+        .filter((child) => !visited.has(child.id))
+        .map(build),
+    }
+  }
+
+  const tree = getRootComponents(components).map(build)
+  for (const component of components) {
+    if (!visited.has(component.id)) tree.push(build(component))
+  }
+  return tree
+}
+
+/**
+ * 시맨틱 포함 규칙 위반 검사
+ *
+ * @param tag - 중첩할 컴포넌트의 태그
+ * @param ancestorTags - 부모부터 최상위까지의 태그
+ * @returns 허용되지 않는 조상 태그, 문제 없으면 undefined
+ *
+ * @example
+ * getForbiddenAncestorTag("main", ["section", "header"]) // "header"
+ */
+export function getForbiddenAncestorTag(
+  tag: SemanticTag,
+  ancestorTags: SemanticTag[]
+): SemanticTag | undefined {
+  const forbidden = FORBIDDEN_ANCESTORS[tag]
+  if (!forbidden) return undefined
+  return ancestorTags.find((ancestorTag) => forbidden.includes(ancestorTag))
+}
+
+/**
+ * child를 parentId 아래에 중첩할 수 있는지 확인
+ *
+ * - 자기 자신 또는 자신의 자손을 부모로 지정할 수 없음 (순환)
+ * - child와 그 자손 모두 새 조상 체인에 대해 시맨틱 규칙을 만족해야 함
+ *
+ * @param components - 전체 컴포넌트 (child가 아직 추가되지 않았어도 됨)
+ * @param child - 중첩할 컴포넌트
+ * @param parentId - 새 부모 ID
+ */
+export function canNestComponent(
+  components: Component[],
+  child: Pick<Component, "id" | "semanticTag">,
+  parentId: string
+): boolean {
+  const byId = new Map(components.map((c) => [c.id, c]))
+  const parent = byId.get(parentId)
+  if (!parent || parentId === child.id) return false
+
+  const parentChain = [parentId, ...getAncestorIds(components, parentId)]
+  if (parentChain.includes(child.id)) return false
+
+  const chainTags = parentChain.map((id) => byId.get(id)!.semanticTag)
+  if (getForbiddenAncestorTag(child.semanticTag, chainTags)) return false
+
+  // 자손은 child 아래 경로 + 새 조상 체인 모두를 조상으로 가짐
+  return getDescendantIds(components, child.id).every((id) => {
+    const ancestors = getAncestorIds(components, id)
+    const innerTags = ancestors
+      .slice(0, ancestors.indexOf(child.id))
+      .map((ancestorId) => byId.get(ancestorId)!.semanticTag)
+    return !getForbiddenAncestorTag(byId.get(id)!.semanticTag, [
+      ...innerTags,
+      child.semanticTag,
+      ...chainTags,
+    ])
+  })
+}
+
+/**
+ * inner가 outer 영역 안에 완전히 포함되는지 확인 (모서리 일치 허용)
+ */
+export function isLayoutInside(inner: CanvasLayout, outer: CanvasLayout): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  )
+}
+
+/**
+ * Canvas drop target 찾기: rect를 완전히 포함하는 가장 깊은 컴포넌트
+ *
+ * @param components - 현재 breakpoint에 렌더링되는 컴포넌트 (root + 자손)
+ * @param breakpoint - 현재 breakpoint
+ * @param rect - 드롭된 영역 (grid 단위)
+ * @param child - 드롭된 컴포넌트 (자신/자손 제외 및 중첩 규칙 검사용)
+ * @returns 부모 ID, 포함하는 컴포넌트가 없으면 null (최상위)
+ */
+export function findDropParent(
+  components: Component[],
+  breakpoint: string,
+  rect: CanvasLayout,
+  child: Pick<Component, "id" | "semanticTag">
+): string | null {
+  const excluded = new Set([child.id, ...getDescendantIds(components, child.id)])
+  let best: { id: string; depth: number } | null = null
+
+  for (const component of components) {
+    if (excluded.has(component.id)) continue
+    const layout = getCanvasLayoutForBreakpoint(component, breakpoint)
+    if (!layout || !isLayoutInside(rect, layout)) continue
+    if (!canNestComponent(components, child, component.id)) continue
+
+    const depth = getAncestorIds(components, component.id).length
+    if (!best || depth > best.depth) {
+      best = { id: component.id, depth }
+    }
+  }
+
+  return best?.id ?? null
+}
+
+/**
+ * 부모 영역 안의 빈 자리 찾기 (Library → 컴포넌트 위로 드롭)
+ *
+ * 크기는 부모 영역에 맞게 줄이고, 형제와 겹치지 않는 첫 위치 (위→아래, 왼쪽→오른쪽)
+ *
+ * @returns 배치할 canvas layout, 빈 자리가 없으면 null
+ */
+export function findSlotInParent(
+  components: Component[],
+  breakpoint: string,
+  parentId: string,
+  width: number,
+  height: number
+): CanvasLayout | null {
+  const parent = components.find((c) => c.id === parentId)
+  const area = parent && getCanvasLayoutForBreakpoint(parent, breakpoint)
+  if (!area) return null
+
+  const w = Math.min(width, area.width)
+  const h = Math.min(height, area.height)
+  const siblings = getChildComponents(components, parentId)
+    .map((c) => getCanvasLayoutForBreakpoint(c, breakpoint))
+    .filter((layout): layout is CanvasLayout => layout !== undefined)
+
+  for (let y = area.y; y <= area.y + area.height - h; y++) {
+    for (let x = area.x; x <= area.x + area.width - w; x++) {
+      const occupied = siblings.some(
+        (other) =>
+          !(
+            x >= other.x + other.width ||
+            x + w <= other.x ||
+            y >= other.y + other.height ||
+            y + h <= other.y
+          )
+      )
+      if (!occupied) return { x, y, width: w, height: h }
+    }
+  }
+
+  return null
+}
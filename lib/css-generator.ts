@@ -0,0 +1,513 @@
+/**
+ * CSS Generator
+ *
+ * Schema를 plain CSS declarations로 변환 (Tailwind 없이 사용하는 CSS Modules, CSS-in-JS)
+ * - 숫자 spacing 값은 Tailwind와 동일한 scale (1 = 0.25rem)
+ * - 반응형 override는 Breakpoint.minWidth 기반 min-width media query로 변환
+ */
+
+import type {
+  Breakpoint,
+  Component,
+  ComponentLayout,
+  ComponentPositioning,
+  ComponentStyling,
+  ResponsiveBehavior,
+} from "@/types/schema"
+
+/**
+ * CSS property → value (선언 순서 유지)
+ */
+export type CSSDeclarations = Array<[property: string, value: string]>
+
+/**
+ * Breakpoint별 override 규칙
+ */
+export interface ResponsiveStyleRule {
+  breakpoint: string
+  minWidth: number
+  declarations: CSSDeclarations
+}
+
+/**
+ * Component 하나의 스타일 규칙 묶음
+ */
+export interface ComponentStyleRules {
+  /** Component root element */
+  root: CSSDeclarations
+  /** Container wrapper (layout.type === "container"일 때만) */
+  container: CSSDeclarations | null
+  /** min-width 오름차순 */
+  responsive: ResponsiveStyleRule[]
+}
+
+/**
+ * Spacing/position 값을 CSS 길이로 변환
+ *
+ * @example
+ * 4 → "1rem"  (Tailwind spacing scale)
+ * 0 → "0"
+ * "4rem" → "4rem"
+ */
+export function toCSSLength(value: number | string): string {
+  if (typeof value === "number") {
+    return value === 0 ? "0" : `${value * 0.25}rem`
+  }
+  return value
+}
+
+/**
+ * Width/height 값을 CSS 길이로 변환
+ *
+ * @example
+ * "full" → "100%"
+ * "screen" (height) → "100vh"
+ */
+function toCSSSize(value: number | string, axis: "width" | "height"): string {
+  const keywords: Record<string, string> = {
+    full: "100%",
+    screen: axis === "width" ? "100vw" : "100vh",
+    auto: "auto",
+    min: "min-content",
+    max: "max-content",
+    fit: "fit-content",
+  }
+  if (typeof value === "string" && keywords[value]) {
+    return keywords[value]
+  }
+  return toCSSLength(value)
+}
+
+/**
+ * Container max-width (Tailwind max-w-* 값과 동일)
+ */
+const CONTAINER_MAX_WIDTHS: Record<string, string> = {
+  sm: "24rem",
+  md: "28rem",
+  lg: "32rem",
+  xl: "36rem",
+  "2xl": "42rem",
+  "7xl": "80rem",
+}
+
+/**
+ * Shadow preset (Tailwind shadow-* 값과 동일)
+ */
+const SHADOWS: Record<string, string> = {
+  sm: "0 1px 2px 0 rgb(0 0 0 / 0.05)",
+  md: "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
+  lg: "0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)",
+  xl: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
+  none: "none",
+}
+
+/**
+ * Tailwind 기본 color palette (shade 50, 100-900, 950 순서)
+ */
+const TAILWIND_SHADES = ["50", "100", "200", "300", "400", "500", "600", "700", "800", "900", "950"]
+const TAILWIND_COLORS: Record<string, string[]> = {
+  slate: ["#f8fafc", "#f1f5f9", "#e2e8f0", "#cbd5e1", "#94a3b8", "#64748b", "#475569", "#334155", "#1e293b", "#0f172a", "#020617"],
+  gray: ["#f9fafb", "#f3f4f6", "#e5e7eb", "#d1d5db", "#9ca3af", "#6b7280", "#4b5563", "#374151", "#1f2937", "#111827", "#030712"],
+  zinc: ["#fafafa", "#f4f4f5", "#e4e4e7", "#d4d4d8", "#a1a1aa", "#71717a", "#52525b", "#3f3f46", "#27272a", "#18181b", "#09090b"],
+  neutral: ["#fafafa", "#f5f5f5", "#e5e5e5", "#d4d4d4", "#a3a3a3", "#737373", "#525252", "#404040", "#262626", "#171717", "#0a0a0a"],
+  stone: ["#fafaf9", "#f5f5f4", "#e7e5e4", "#d6d3d1", "#a8a29e", "#78716c", "#57534e", "#44403c", "#292524", "#1c1917", "#0c0a09"],
+  red: ["#fef2f2", "#fee2e2", "#fecaca", "#fca5a5", "#f87171", "#ef4444", "#dc2626", "#b91c1c", "#991b1b", "#7f1d1d", "#450a0a"],
+  orange: ["#fff7ed", "#ffedd5", "#fed7aa", "#fdba74", "#fb923c", "#f97316", "#ea580c", "#c2410c", "#9a3412", "#7c2d12", "#431407"],
+  amber: ["#fffbeb", "#fef3c7", "#fde68a", "#fcd34d", "#fbbf24", "#f59e0b", "#d97706", "#b45309", "#92400e", "#78350f", "#451a03"],
+  yellow: ["#fefce8", "#fef9c3", "#fef08a", "#fde047", "#facc15", "#eab308", "#ca8a04", "#a16207", "#854d0e", "#713f12", "#422006"],
+  lime: ["#f7fee7", "#ecfccb", "#d9f99d", "#bef264", "#a3e635", "#84cc16", "#65a30d", "#4d7c0f", "#3f6212", "#365314", "#1a2e05"],
+  green: ["#f0fdf4", "#dcfce7", "#bbf7d0", "#86efac", "#4ade80", "#22c55e", "#16a34a", "#15803d", "#166534", "#14532d", "#052e16"],
+  emerald: ["#ecfdf5", "#d1fae5", "#a7f3d0", "#6ee7b7", "#34d399", "#10b981", "#059669", "#047857", "#065f46", "#064e3b", "#022c22"],
+  teal: ["#f0fdfa", "#ccfbf1", "#99f6e4", "#5eead4", "#2dd4bf", "#14b8a6", "#0d9488", "#0f766e", "#115e59", "#134e4a", "#042f2e"],
+  cyan: ["#ecfeff", "#cffafe", "#a5f3fc", "#67e8f9", "#22d3ee", "#06b6d4", "#0891b2", "#0e7490", "#155e75", "#164e63", "#083344"],
+  sky: ["#f0f9ff", "#e0f2fe", "#bae6fd", "#7dd3fc", "#38bdf8", "#0ea5e9", "#0284c7", "#0369a1", "#075985", "#0c4a6e", "#082f49"],
+  blue: ["#eff6ff", "#dbeafe", "#bfdbfe", "#93c5fd", "#60a5fa", "#3b82f6", "#2563eb", "#1d4ed8", "#1e40af", "#1e3a8a", "#172554"],
+  indigo: ["#eef2ff", "#e0e7ff", "#c7d2fe", "#a5b4fc", "#818cf8", "#6366f1", "#4f46e5", "#4338ca", "#3730a3", "#312e81", "#1e1b4b"],
+  violet: ["#f5f3ff", "#ede9fe", "#ddd6fe", "#c4b5fd", "#a78bfa", "#8b5cf6", "#7c3aed", "#6d28d9", "#5b21b6", "#4c1d95", "#2e1065"],
+  purple: ["#faf5ff", "#f3e8ff", "#e9d5ff", "#d8b4fe", "#c084fc", "#a855f7", "#9333ea", "#7e22ce", "#6b21a8", "#581c87", "#3b0764"],
+  fuchsia: ["#fdf4ff", "#fae8ff", "#f5d0fe", "#f0abfc", "#e879f9", "#d946ef", "#c026d3", "#a21caf", "#86198f", "#701a75", "#4a044e"],
+  pink: ["#fdf2f8", "#fce7f3", "#fbcfe8", "#f9a8d4", "#f472b6", "#ec4899", "#db2777", "#be185d", "#9d174d", "#831843", "#500724"],
+  rose: ["#fff1f2", "#ffe4e6", "#fecdd3", "#fda4af", "#fb7185", "#f43f5e", "#e11d48", "#be123c", "#9f1239", "#881337", "#4c0519"],
+}
+
+/**
+ * Background 값을 CSS color로 변환
+ *
+ * - CSS color (#fff, rgb(), var(), white 등)는 그대로
+ * - Tailwind palette 이름 ("gray-100", "bg-slate-900")은 실제 hex 값
+ * - 그 외 (알 수 없는 palette 이름)는 null
+ *
+ * @example
+ * toCSSColor("gray-50") // "#f9fafb"
+ * toCSSColor("brand-500") // null
+ */
+export function toCSSColor(value: string): string | null {
+  if (/^(#|rgb|hsl|var\(|[a-z]+$)/.test(value)) return value
+
+  const match = value.match(/^(?:bg-)?([a-z]+)-(\d+)$/)
+  if (!match) return null
+  const shade = TAILWIND_SHADES.indexOf(match[2])
+  return (shade >= 0 && TAILWIND_COLORS[match[1]]?.[shade]) || null
+}
+
+/**
+ * Wireframe border (border-gray-300)
+ */
+const BORDER_VALUE = "1px solid #d1d5db"
+
+const JUSTIFY_VALUES: Record<string, string> = {
+  start: "flex-start",
+  end: "flex-end",
+  center: "center",
+  between: "space-between",
+  around: "space-around",
+  evenly: "space-evenly",
+}
+
+const ALIGN_VALUES: Record<string, string> = {
+  start: "flex-start",
+  end: "flex-end",
+  center: "center",
+  baseline: "baseline",
+  stretch: "stretch",
+}
+
+/**
+ * Positioning을 CSS declarations로 변환
+ *
+ * @example
+ * { type: "sticky", position: { top: 0, zIndex: 50 } }
+ * → position: sticky; top: 0; z-index: 50
+ */
+export function generatePositioningDeclarations(
+  positioning: ComponentPositioning
+): CSSDeclarations {
+  const declarations: CSSDeclarations = []
+
+  if (positioning.type !== "static") {
+    declarations.push(["position", positioning.type])
+  }
+
+  if (positioning.position) {
+    const { top, right, bottom, left, zIndex } = positioning.position
+    if (top !== undefined) declarations.push(["top", toCSSLength(top)])
+    if (right !== undefined) declarations.push(["right", toCSSLength(right)])
+    if (bottom !== undefined) declarations.push(["bottom", toCSSLength(bottom)])
+    if (left !== undefined) declarations.push(["left", toCSSLength(left)])
+    if (zIndex !== undefined) declarations.push(["z-index", zIndex.toString()])
+  }
+
+  return declarations
+}
+
+/**
+ * Layout을 CSS declarations로 변환 (container는 wrapper에 적용되므로 제외)
+ *
+ * @example
+ * { type: "flex", flex: { direction: "column", gap: "0.5rem" } }
+ * → display: flex; flex-direction: column; gap: 0.5rem
+ */
+export function generateLayoutDeclarations(layout: ComponentLayout): CSSDeclarations {
+  const declarations: CSSDeclarations = []
+
+  switch (layout.type) {
+    case "flex":
+      declarations.push(["display", "flex"])
+      if (layout.flex) {
+        const { direction, justify, items, wrap, gap } = layout.flex
+        if (direction) declarations.push(["flex-direction", direction])
+        if (justify) declarations.push(["justify-content", JUSTIFY_VALUES[justify]])
+        if (items) declarations.push(["align-items", ALIGN_VALUES[items]])
+        if (wrap) declarations.push(["flex-wrap", wrap])
+        if (gap !== undefined) declarations.push(["gap", toCSSLength(gap)])
+      }
+      break
+
+    case "grid":
+      declarations.push(["display", "grid"])
+      if (layout.grid) {
+        const { cols, rows, gap, autoFlow } = layout.grid
+        if (cols !== undefined) {
+          declarations.push([
+            "grid-template-columns",
+            typeof cols === "number" ? `repeat(${cols}, minmax(0, 1fr))` : cols,
+          ])
+        }
+        if (rows !== undefined) {
+          declarations.push([
+            "grid-template-rows",
+            typeof rows === "number" ? `repeat(${rows}, minmax(0, 1fr))` : rows,
+          ])
+        }
+        if (gap !== undefined) declarations.push(["gap", toCSSLength(gap)])
+        if (autoFlow) declarations.push(["grid-auto-flow", autoFlow])
+      }
+      break
+
+    case "container":
+    case "none":
+      break
+  }
+
+  return declarations
+}
+
+/**
+ * Container wrapper CSS declarations
+ *
+ * @example
+ * { maxWidth: "xl", centered: true, padding: "1rem" }
+ * → width: 100%; max-width: 36rem; margin-inline: auto; padding-inline: 1rem
+ */
+export function generateContainerDeclarations(
+  container: NonNullable<ComponentLayout["container"]>
+): CSSDeclarations {
+  const declarations: CSSDeclarations = [["width", "100%"]]
+
+  if (container.maxWidth && container.maxWidth !== "full") {
+    declarations.push(["max-width", CONTAINER_MAX_WIDTHS[container.maxWidth]])
+  }
+
+  // Centered (default true)
+  if (container.centered !== false) {
+    declarations.push(["margin-inline", "auto"])
+  }
+
+  if (container.padding) {
+    declarations.push(["padding-inline", toCSSLength(container.padding)])
+  }
+
+  return declarations
+}
+
+/**
+ * Styling을 CSS declarations로 변환
+ *
+ * - background: Tailwind palette 이름(e.g. "gray-100")은 실제 color로 변환, 알 수 없는 이름은 제외
+ * - border: "t" | "r" | "b" | "l" | "x" | "y" → 해당 방향만, 그 외 전체
+ * - className: CSS로 변환 불가 (code generator에서 class로 그대로 추가)
+ *
+ * @example
+ * { width: "16rem", background: "white", border: "b" }
+ * → width: 16rem; background: white; border-bottom: 1px solid #d1d5db
+ */
+export function generateStylingDeclarations(styling?: ComponentStyling): CSSDeclarations {
+  if (!styling) return []
+
+  const declarations: CSSDeclarations = []
+
+  if (styling.width) declarations.push(["width", toCSSSize(styling.width, "width")])
+  if (styling.height) declarations.push(["height", toCSSSize(styling.height, "height")])
+
+  const background = styling.background ? toCSSColor(styling.background) : null
+  if (background) declarations.push(["background", background])
+
+  if (styling.border) {
+    const sides: Record<string, string[]> = {
+      t: ["border-top"],
+      r: ["border-right"],
+      b: ["border-bottom"],
+      l: ["border-left"],
+      x: ["border-left", "border-right"],
+      y: ["border-top", "border-bottom"],
+    }
+    ;(sides[styling.border] ?? ["border"]).forEach((property) => {
+      declarations.push([property, BORDER_VALUE])
+    })
+  }
+
+  if (styling.shadow && SHADOWS[styling.shadow]) {
+    declarations.push(["box-shadow", SHADOWS[styling.shadow]])
+  }
+
+  return declarations
+}
+
+/**
+ * Responsive behavior를 breakpoint별 CSS override로 변환
+ *
+ * Tailwind 경로(md:/lg: 고정)와 달리 schema의 breakpoint 이름과 minWidth를 그대로 사용
+ *
+ * @param responsive - Component responsive behavior
+ * @param breakpoints - Schema breakpoints (minWidth 기준 정렬)
+ * @param display - 다시 보이게 할 때 사용할 display 값 (flex, grid, block)
+ */
+export function generateResponsiveRules(
+  responsive: ResponsiveBehavior | undefined,
+  breakpoints: Breakpoint[],
+  display: string = "block"
+): ResponsiveStyleRule[] {
+  if (!responsive) return []
+
+  const rules: ResponsiveStyleRule[] = []
+  let hidden = false
+
+  ;[...breakpoints]
+    .sort((a, b) => a.minWidth - b.minWidth)
+    .forEach((breakpoint) => {
+      const config = responsive[breakpoint.name]
+      if (!config) return
+
+      const declarations: CSSDeclarations = []
+
+      if (config.hidden === true && !hidden) {
+        declarations.push(["display", "none"])
+        hidden = true
+      } else if (config.hidden === false && hidden) {
+        declarations.push(["display", display])
+        hidden = false
+      }
+
+      if (config.width) declarations.push(["width", toCSSSize(config.width, "width")])
+      if (config.order !== undefined) declarations.push(["order", config.order.toString()])
+      if (config.positioning) {
+        declarations.push(...generatePositioningDeclarations(config.positioning))
+      }
+
+      if (declarations.length > 0) {
+        rules.push({ breakpoint: breakpoint.name, minWidth: breakpoint.minWidth, declarations })
+      }
+    })
+
+  return rules
+}
+
+/**
+ * Component 전체 스타일 규칙 생성
+ */
+export function generateComponentStyleRules(
+  component: Component,
+  breakpoints: Breakpoint[]
+): ComponentStyleRules {
+  const layoutDeclarations = generateLayoutDeclarations(component.layout)
+  const display = layoutDeclarations.find(([property]) => property === "display")?.[1]
+
+  return {
+    root: [
+      ...generatePositioningDeclarations(component.positioning),
+      ...layoutDeclarations,
+      ...generateStylingDeclarations(component.styling),
+    ],
+    container:
+      component.layout.type === "container" && component.layout.container
+        ? generateContainerDeclarations(component.layout.container)
+        : null,
+    responsive: generateResponsiveRules(component.responsive, breakpoints, display),
+  }
+}
+
+/**
+ * CSS rule 문자열 생성
+ *
+ * @example
+ * formatCSSRule(".root", [["display", "flex"]])
+ * → ".root {\n  display: flex;\n}"
+ */
+export function formatCSSRule(
+  selector: string,
+  declarations: CSSDeclarations,
+  indent: string = ""
+): string {
+  const body = declarations
+    .map(([property, value]) => `${indent}  ${property}: ${value};`)
+    .join("\n")
+  return `${indent}${selector} {\n${body}\n${indent}}`
+}
+
+/**
+ * Component의 `.module.css` 파일 내용 생성
+ *
+ * - `.root`: component root element
+ * - `.container`: container wrapper
+ * - minWidth가 0인 breakpoint는 media query 없이 base rule에 병합
+ *
+ * @example
+ * ```css
+ * .root {
+ *   position: sticky;
+ *   top: 0;
+ * }
+ *
+ * @media (min-width: 768px) {
+ *   .root {
+ *     display: none;
+ *   }
+ * }
+ * ```
+ */
+export function generateCSSModule(component: Component, breakpoints: Breakpoint[]): string {
+  const rules = generateComponentStyleRules(component, breakpoints)
+  const { base, media } = mergeBaseOverrides(rules.root, rules.responsive)
+  const blocks: string[] = []
+
+  if (base.length > 0) {
+    blocks.push(formatCSSRule(".root", base))
+  }
+  if (rules.container) {
+    blocks.push(formatCSSRule(".container", rules.container))
+  }
+
+  media.forEach((rule) => {
+    blocks.push(
+      `@media (min-width: ${rule.minWidth}px) {\n${formatCSSRule(".root", rule.declarations, "  ")}\n}`
+    )
+  })
+
+  return blocks.join("\n\n") + "\n"
+}
+
+/**
+ * CSS-in-JS tagged template 본문 생성 (styled-components, Emotion)
+ *
+ * selector 없이 declarations + nested `@media` block, 각 줄은 2칸 들여쓰기
+ *
+ * @example
+ * formatStyledCSS([["display", "none"]], [{ breakpoint: "desktop", minWidth: 1024, declarations: [["display", "flex"]] }])
+ * → "  display: none;\n\n  @media (min-width: 1024px) {\n    display: flex;\n  }"
+ */
+export function formatStyledCSS(
+  declarations: CSSDeclarations,
+  responsive: ResponsiveStyleRule[] = []
+): string {
+  const { base, media } = mergeBaseOverrides(declarations, responsive)
+  const formatDeclarations = (decls: CSSDeclarations, indent: string) =>
+    decls.map(([property, value]) => `${indent}${property}: ${value};`).join("\n")
+
+  const blocks: string[] = []
+  if (base.length > 0) {
+    blocks.push(formatDeclarations(base, "  "))
+  }
+  media.forEach((rule) => {
+    blocks.push(
+      `  @media (min-width: ${rule.minWidth}px) {\n${formatDeclarations(rule.declarations, "    ")}\n  }`
+    )
+  })
+
+  return blocks.join("\n\n")
+}
+
+/**
+ * minWidth가 0 이하인 breakpoint override는 media query 없이 base declarations에 병합
+ */
+function mergeBaseOverrides(
+  declarations: CSSDeclarations,
+  responsive: ResponsiveStyleRule[]
+): { base: CSSDeclarations; media: ResponsiveStyleRule[] } {
+  return {
+    base: [
+      ...declarations,
+      ...responsive.filter((rule) => rule.minWidth <= 0).flatMap((rule) => rule.declarations),
+    ],
+    media: responsive.filter((rule) => rule.minWidth > 0),
+  }
+}
+
+/**
+ * CSS Module에 `.root` class가 생성되는지 확인
+ *
+ * 빈 rule은 생성하지 않으므로 code generator가 `styles.root` 참조 여부 결정에 사용
+ */
+export function hasRootStyles(component: Component, breakpoints: Breakpoint[]): boolean {
+  const rules = generateComponentStyleRules(component, breakpoints)
+  return rules.root.length > 0 || rules.responsive.length > 0
+}
@@ -5,7 +5,20 @@
  */
 
 import type { GenerationPackage } from "@/types/schema"
-import { generateComponentCode } from "./code-generator"
+import { generateComponentCode, isCSSInJS, CSS_IN_JS_SOURCES } from "./code-generator"
+import { getChildComponents, getRootComponents } from "./component-tree"
+import {
+  generateCSSModule,
+  formatCSSRule,
+  formatStyledCSS,
+  type CSSDeclarations,
+} from "./css-generator"
+import {
+  generateResponsiveGridLayout,
+  type ResponsiveGridLayout,
+  type ResponsiveGridRules,
+} from "./canvas-to-grid"
+import { generateNextProjectFiles, type NextProjectOptions } from "./nextjs-project"
 
 export interface ExportedFile {
   path: string
@@ -13,10 +26,135 @@ export interface ExportedFile {
 }
 
 export interface ExportOptions {
-  framework: "react" | "vue" | "svelte"
-  cssSolution: "tailwind" | "css-modules" | "styled-components"
+  framework: "react" | "vue" | "svelte" | "solid"
+  cssSolution: "tailwind" | "css-modules" | "styled-components" | "emotion"
   includeTypes?: boolean
   includeComments?: boolean
+  layoutMode?: "structure" | "canvas-grid"
+}
+
+type ExportFramework = GenerationPackage["options"]["framework"]
+
+/**
+ * JSX 기반 layout 파일 문법 (React, Solid)
+ */
+interface JsxLayoutSyntax {
+  kind: "jsx"
+  functionName: string
+  classAttribute: "className" | "class"
+  importStatement: (componentName: string) => string
+}
+
+/**
+ * Layout 파일 wrapper class
+ *
+ * Tailwind class와 CSS 변환 결과를 함께 관리
+ * (css-modules: layout stylesheet, CSS-in-JS: layout 파일 내 styled component)
+ */
+const LAYOUT_CLASSES: Record<
+  "stack" | "row" | "rowOffset",
+  { tailwind: string; declarations: CSSDeclarations }
+> = {
+  stack: {
+    tailwind: "flex flex-col min-h-screen",
+    declarations: [["display", "flex"], ["flex-direction", "column"], ["min-height", "100vh"]],
+  },
+  row: {
+    tailwind: "flex",
+    declarations: [["display", "flex"]],
+  },
+  // fixed header 높이만큼 본문 offset
+  rowOffset: {
+    tailwind: "flex pt-16",
+    declarations: [["display", "flex"], ["padding-top", "4rem"]],
+  },
+}
+
+type LayoutClassKey = keyof typeof LAYOUT_CLASSES
+
+/**
+ * CSS-in-JS layout wrapper 이름 (e.g. rowOffset → RowOffset)
+ */
+function toStyledName(key: string): string {
+  return key.charAt(0).toUpperCase() + key.slice(1)
+}
+
+/**
+ * HTML template 기반 layout 파일 문법 (Vue, Svelte)
+ */
+interface TemplateLayoutSyntax {
+  kind: "template"
+  scriptTag: string
+  /** script 내용 들여쓰기 여부 (Svelte 관례) */
+  indentScript: boolean
+  /** Vue: `<template>` 블록으로 감쌈, Svelte: 최상위 markup */
+  wrapInTemplateTag: boolean
+  /** CSS Modules class binding (Vue: `:class`, Svelte: `class={}`) */
+  moduleClassAttribute: (key: string) => string
+  importStatement: (componentName: string) => string
+}
+
+/**
+ * Framework별 출력 파일 규칙
+ */
+const FRAMEWORK_OUTPUTS: Record<
+  ExportFramework,
+  {
+    componentExtension: string
+    layoutPath: string
+    /** CSS Modules export 시 layout 파일과 짝이 되는 stylesheet */
+    layoutStylesPath: string
+    layoutSyntax: JsxLayoutSyntax | TemplateLayoutSyntax
+  }
+> = {
+  react: {
+    componentExtension: "tsx",
+    layoutPath: "app/page.tsx",
+    layoutStylesPath: "app/page.module.css",
+    layoutSyntax: {
+      kind: "jsx",
+      functionName: "Page",
+      classAttribute: "className",
+      importStatement: (name) => `import { ${name} } from "@/components/${name}"`,
+    },
+  },
+  vue: {
+    componentExtension: "vue",
+    layoutPath: "App.vue",
+    layoutStylesPath: "App.module.css",
+    layoutSyntax: {
+      kind: "template",
+      scriptTag: `<script setup lang="ts">`,
+      indentScript: false,
+      wrapInTemplateTag: true,
+      moduleClassAttribute: (key) => `:class="styles.${key}"`,
+      importStatement: (name) => `import ${name} from "./components/${name}.vue"`,
+    },
+  },
+  svelte: {
+    componentExtension: "svelte",
+    layoutPath: "App.svelte",
+    layoutStylesPath: "App.module.css",
+    layoutSyntax: {
+      kind: "template",
+      scriptTag: `<script lang="ts">`,
+      indentScript: true,
+      wrapInTemplateTag: false,
+      moduleClassAttribute: (key) => `class={styles.${key}}`,
+      importStatement: (name) => `import ${name} from "./components/${name}.svelte"`,
+    },
+  },
+  solid: {
+    componentExtension: "tsx",
+    layoutPath: "App.tsx",
+    layoutStylesPath: "App.module.css",
+    layoutSyntax: {
+      kind: "jsx",
+      functionName: "App",
+      classAttribute: "class",
+      importStatement: (name) => `import { ${name} } from "./components/${name}"`,
+    },
+  },
 }
 
 /**
@@ -29,31 +167,89 @@ export interface ExportOptions {
  * //   { path: "components/Sidebar.tsx", content: "..." },
  * //   { path: "app/page.tsx", content: "..." },
  * // ]
+ *
+ * // Vue: components/Header.vue, ..., App.vue
+ * // Svelte: components/Header.svelte, ..., App.svelte
+ * // Solid: components/Header.tsx, ..., App.tsx
+ * // CSS Modules: components/Header.module.css (component마다 추가)
+ * // layoutMode "canvas-grid": layout 파일이 Canvas 배치를 breakpoint별 CSS Grid로 재현
  */
 export function exportToFiles(pkg: GenerationPackage): ExportedFile[] {
   const { schema, options } = pkg
   const files: ExportedFile[] = []
 
-  // 1. Component 파일들
+  const output = FRAMEWORK_OUTPUTS[options.framework]
+  if (!output) {
+    throw new Error(`Unsupported framework for export: ${options.framework}`)
+  }
+
+  if (isCSSInJS(options.cssSolution) && options.framework !== "react") {
+    throw new Error(`${options.cssSolution} output is only supported for React, got: ${options.framework}`)
+  }
+
+  // 1. Component 파일들 (중첩된 자식은 부모 컴포넌트가 import해서 렌더링)
   schema.components.forEach((component) => {
     const code = generateComponentCode(
       component,
-      options.framework as "react",
-      options.cssSolution as "tailwind"
+      options.framework,
+      options.cssSolution,
+      schema.breakpoints,
+      getChildComponents(schema.components, component.id)
     )
 
     files.push({
-      path: `components/${component.name}.tsx`,
+      path: `components/${component.name}.${output.componentExtension}`,
       content: code,
     })
+
+    // CSS Modules: component와 짝이 되는 stylesheet
+    if (options.cssSolution === "css-modules") {
+      files.push({
+        path: `components/${component.name}.module.css`,
+        content: generateCSSModule(component, schema.breakpoints),
+      })
+    }
   })
 
   // 2. Layout 파일
-  const layoutCode = generateLayoutFile(pkg)
-  files.push({
-    path: "app/page.tsx",
-    content: layoutCode,
-  })
+  const layoutStylesImport =
+    options.cssSolution === "css-modules"
+      ? `./${output.layoutStylesPath.split("/").pop()}`
+      : null
+  if (options.layoutMode === "canvas-grid") {
+    const grid = generateResponsiveGridLayout(getRootComponents(schema.components), schema.breakpoints)
+
+    files.push({
+      path: output.layoutPath,
+      content: generateGridLayoutFile(pkg, output.layoutSyntax, grid, layoutStylesImport),
+    })
+
+    if (layoutStylesImport) {
+      files.push({
+        path: output.layoutStylesPath,
+        content: generateGridStylesheet(getGridElements(grid)),
+      })
+    }
+  } else {
+    const layoutCode =
+      output.layoutSyntax.kind === "jsx"
+        ? generateLayoutFile(pkg, output.layoutSyntax, layoutStylesImport)
+        : generateTemplateLayoutFile(pkg, output.layoutSyntax, layoutStylesImport)
+    files.push({
+      path: output.layoutPath,
+      content: layoutCode,
+    })
+
+    if (layoutStylesImport) {
+      files.push({
+        path: output.layoutStylesPath,
+        content:
+          Object.entries(LAYOUT_CLASSES)
+            .map(([key, { declarations }]) => formatCSSRule(`.${key}`, declarations))
+            .join("\n\n") + "\n",
+      })
+    }
+  }
 
   // 3. Schema JSON 파일 (optional, for reference)
   files.push({
@@ -65,42 +261,79 @@ export function exportToFiles(pkg: GenerationPackage): ExportedFile[] {
 }
 
 /**
- * Layout composition 파일 생성
+ * Layout 파일 기준 breakpoint layout
+ *
+ * desktop layout 우선, 없으면 가장 넓은 breakpoint의 layout 사용 (layout이 없으면 최상위 컴포넌트 전체)
+ */
+function getPrimaryLayout(schema: GenerationPackage["schema"]) {
+  if (schema.layouts.desktop) return schema.layouts.desktop
+
+  const widest = [...schema.breakpoints].sort((a, b) => b.minWidth - a.minWidth)
+  for (const breakpoint of widest) {
+    const layout = schema.layouts[breakpoint.name]
+    if (layout) return layout
+  }
+
+  return {
+    structure: "vertical" as const,
+    components: getRootComponents(schema.components).map((c) => c.id),
+  }
+}
+
+/**
+ * Layout composition 파일 생성 (JSX: React page, Solid App)
  */
-function generateLayoutFile(pkg: GenerationPackage): string {
+function generateLayoutFile(
+  pkg: GenerationPackage,
+  syntax: JsxLayoutSyntax = FRAMEWORK_OUTPUTS.react.layoutSyntax as JsxLayoutSyntax,
+  stylesImport: string | null = null
+): string {
   const { schema, options } = pkg
-  const desktopLayout = schema.layouts.desktop
-  const structure = desktopLayout.structure
+  const primaryLayout = getPrimaryLayout(schema)
+  const structure = primaryLayout.structure
 
-  // Imports
-  const imports = schema.components
-    .map((c) => `import { ${c.name} } from "@/components/${c.name}"`)
-    .join("\n")
+  // CSS-in-JS: wrapper div 대신 layout 파일 내 styled component 사용
+  const styledSource = isCSSInJS(options.cssSolution)
+    ? CSS_IN_JS_SOURCES[options.cssSolution]
+    : null
+  const usedKeys = new Set<LayoutClassKey>()
+
+  const classAttribute = (key: LayoutClassKey) =>
+    stylesImport
+      ? `${syntax.classAttribute}={styles.${key}}`
+      : `${syntax.classAttribute}="${LAYOUT_CLASSES[key].tailwind}"`
+
+  const openWrapper = (key: LayoutClassKey) => {
+    usedKeys.add(key)
+    return styledSource ? `<${toStyledName(key)}>` : `<div ${classAttribute(key)}>`
+  }
+  const closeWrapper = (key: LayoutClassKey) =>
+    styledSource ? `</${toStyledName(key)}>` : "</div>"
 
   let layoutCode = ""
 
   switch (structure) {
     case "vertical":
       // Vertical stack: Header → Main → Footer
-      layoutCode = `export default function Page() {
+      layoutCode = `export default function ${syntax.functionName}() {
   return (
-    <div className="flex flex-col min-h-screen">
-${desktopLayout.components
+    ${openWrapper("stack")}
+${primaryLayout.components
         .map((id) => {
           const comp = schema.components.find((c) => c.id === id)
           return `      <${comp?.name} />`
         })
         .join("\n")}
-    </div>
+    ${closeWrapper("stack")}
   )
 }`
       break
 
     case "sidebar-main":
       // Sidebar + Main structure
-      const header = desktopLayout.roles?.header
-      const sidebar = desktopLayout.roles?.sidebar
-      const main = desktopLayout.roles?.main
+      const header = primaryLayout.roles?.header
+      const sidebar = primaryLayout.roles?.sidebar
+      const main = primaryLayout.roles?.main
 
       const headerComp = header
         ? schema.components.find((c) => c.id === header)
@@ -109,17 +342,19 @@ ${desktopLayout.components
         ? schema.components.find((c) => c.id === sidebar)
         : null
       const mainComp = main ? schema.components.find((c) => c.id === main) : null
+      const rowKey: LayoutClassKey =
+        headerComp?.positioning.type === "fixed" ? "rowOffset" : "row"
 
-      layoutCode = `export default function Page() {
+      layoutCode = `export default function ${syntax.functionName}() {
   return (
     <>
 ${headerComp ? `      <${headerComp.name} />` : ""}
-      <div className="flex${headerComp?.positioning.type === "fixed" ? " pt-16" : ""}">
+      ${openWrapper(rowKey)}
 ${sidebarComp ? `        <${sidebarComp.name} />` : ""}
 ${mainComp ? `        <${mainComp.name}>` : ""}
           {/* Page content goes here */}
 ${mainComp ? `        </${mainComp.name}>` : ""}
-      </div>
+      ${closeWrapper(rowKey)}
     </>
   )
 }`
@@ -127,26 +362,26 @@ ${mainComp ? `        </${mainComp.name}>` : ""}
 
     case "horizontal":
       // Horizontal layout
-      layoutCode = `export default function Page() {
+      layoutCode = `export default function ${syntax.functionName}() {
   return (
-    <div className="flex">
-${desktopLayout.components
+    ${openWrapper("row")}
+${primaryLayout.components
         .map((id) => {
           const comp = schema.components.find((c) => c.id === id)
           return `      <${comp?.name} />`
         })
         .join("\n")}
-    </div>
+    ${closeWrapper("row")}
   )
 }`
       break
 
     default:
       // Custom structure
-      layoutCode = `export default function Page() {
+      layoutCode = `export default function ${syntax.functionName}() {
   return (
     <>
-${desktopLayout.components
+${primaryLayout.components
         .map((id) => {
           const comp = schema.components.find((c) => c.id === id)
           return `      <${comp?.name} />`
@@ -157,10 +392,300 @@ ${desktopLayout.components
 }`
   }
 
+  // Imports
+  const imports = [
+    ...(styledSource ? [`"use client"`, ""] : []),
+    ...getRootComponents(schema.components).map((c) => syntax.importStatement(c.name)),
+    ...(stylesImport ? [`import styles from "${stylesImport}"`] : []),
+    ...(styledSource ? [`import styled from "${styledSource}"`] : []),
+  ].join("\n")
+
+  const styledDefinitions = [...(styledSource ? usedKeys : [])]
+    .map(
+      (key) =>
+        `const ${toStyledName(key)} = styled.div\`\n${formatStyledCSS(LAYOUT_CLASSES[key].declarations)}\n\``
+    )
+    .map((definition) => `${definition}\n\n`)
+    .join("")
+
   return `${imports}
 
-${layoutCode}
+${styledDefinitions}${layoutCode}
+`
+}
+
+/**
+ * Layout composition 파일 생성 (HTML template: Vue App.vue, Svelte App.svelte)
+ *
+ * generateLayoutFile과 동일한 structure 분기, 두 프레임워크 모두 multi-root markup 허용
+ */
+function generateTemplateLayoutFile(
+  pkg: GenerationPackage,
+  syntax: TemplateLayoutSyntax,
+  stylesImport: string | null = null
+): string {
+  const { schema } = pkg
+  const primaryLayout = getPrimaryLayout(schema)
+
+  const findComponent = (id?: string) =>
+    id ? schema.components.find((c) => c.id === id) : undefined
+
+  const scriptIndent = syntax.indentScript ? "  " : ""
+  const imports = [
+    ...getRootComponents(schema.components).map((c) => syntax.importStatement(c.name)),
+    ...(stylesImport ? [`import styles from "${stylesImport}"`] : []),
+  ]
+    .map((line) => `${scriptIndent}${line}`)
+    .join("\n")
+
+  const classAttribute = (key: LayoutClassKey) =>
+    stylesImport
+      ? syntax.moduleClassAttribute(key)
+      : `class="${LAYOUT_CLASSES[key].tailwind}"`
+
+  const renderComponents = (indent: string) =>
+    primaryLayout.components
+      .map((id) => findComponent(id))
+      .filter((comp): comp is NonNullable<typeof comp> => !!comp)
+      .map((comp) => `${indent}<${comp.name} />`)
+
+  let lines: string[] = []
+
+  switch (primaryLayout.structure) {
+    case "vertical":
+      lines = [`<div ${classAttribute("stack")}>`, ...renderComponents("  "), `</div>`]
+      break
+
+    case "sidebar-main": {
+      const headerComp = findComponent(primaryLayout.roles?.header)
+      const sidebarComp = findComponent(primaryLayout.roles?.sidebar)
+      const mainComp = findComponent(primaryLayout.roles?.main)
+
+      if (headerComp) lines.push(`<${headerComp.name} />`)
+      lines.push(
+        `<div ${classAttribute(headerComp?.positioning.type === "fixed" ? "rowOffset" : "row")}>`
+      )
+      if (sidebarComp) lines.push(`  <${sidebarComp.name} />`)
+      if (mainComp) {
+        lines.push(`  <${mainComp.name}>`)
+        lines.push(`    <!-- Page content goes here -->`)
+        lines.push(`  </${mainComp.name}>`)
+      }
+      lines.push(`</div>`)
+      break
+    }
+
+    case "horizontal":
+      lines = [`<div ${classAttribute("row")}>`, ...renderComponents("  "), `</div>`]
+      break
+
+    default:
+      // Custom structure
+      lines = renderComponents("")
+  }
+
+  const markup = syntax.wrapInTemplateTag
+    ? `<template>\n${lines.map((line) => `  ${line}`).join("\n")}\n</template>`
+    : lines.join("\n")
+
+  return `${syntax.scriptTag}
+${imports}
+</script>
+
+${markup}
+`
+}
+
+/**
+ * Canvas grid layout element (container + component cell)
+ *
+ * key: CSS Modules class 이름 (`grid`, `siteHeaderCell`), CSS-in-JS에서는 PascalCase로 사용
+ */
+interface GridElement {
+  key: string
+  rules: ResponsiveGridRules
+}
+
+function getGridElements(grid: ResponsiveGridLayout): GridElement[] {
+  return [
+    { key: "grid", rules: grid.container },
+    ...grid.cells.map((cell) => ({
+      key: `${cell.component.name.charAt(0).toLowerCase()}${cell.component.name.slice(1)}Cell`,
+      rules: cell,
+    })),
+  ]
+}
+
+/**
+ * CSS declaration을 Tailwind class로 변환 (canvas grid 전용)
+ *
+ * 대응하는 utility가 없으면 arbitrary property 사용
+ *
+ * @example
+ * ["grid-template-columns", "repeat(12, minmax(0, 1fr))"] → "grid-cols-12"
+ * ["grid-area", "1 / 1 / 2 / 13"] → "[grid-area:1/1/2/13]"
+ */
+function toTailwindClass([property, value]: CSSDeclarations[number]): string {
+  if (property === "display") return value === "none" ? "hidden" : value
+  if (property === "gap" && value === "1rem") return "gap-4"
+
+  const cols = property === "grid-template-columns" && value.match(/^repeat\((\d+), minmax\(0, 1fr\)\)$/)
+  if (cols && Number(cols[1]) <= 12) return `grid-cols-${cols[1]}`
+
+  const rows = property === "grid-template-rows" && value.match(/^repeat\((\d+), auto\)$/)
+  if (rows) return `grid-rows-[repeat(${rows[1]},auto)]`
+
+  return `[${property}:${value.replace(/\s*([/,])\s*/g, "$1").replace(/\s+/g, "_")}]`
+}
+
+/**
+ * Mobile-first 규칙을 Tailwind class 문자열로 변환 (`min-[768px]:` variant)
+ */
+function toTailwindGridClasses(rules: ResponsiveGridRules): string {
+  return [
+    ...rules.base.map(toTailwindClass),
+    ...rules.responsive.flatMap((rule) =>
+      rule.declarations.map((declaration) => `min-[${rule.minWidth}px]:${toTailwindClass(declaration)}`)
+    ),
+  ].join(" ")
+}
+
+/**
+ * Canvas grid layout stylesheet (CSS Modules)
+ *
+ * base rule 다음 breakpoint별 media query 하나로 묶어서 출력
+ */
+function generateGridStylesheet(elements: GridElement[]): string {
+  const blocks = elements
+    .filter(({ rules }) => rules.base.length > 0)
+    .map(({ key, rules }) => formatCSSRule(`.${key}`, rules.base))
+
+  const minWidths = [
+    ...new Set(elements.flatMap(({ rules }) => rules.responsive.map((rule) => rule.minWidth))),
+  ].sort((a, b) => a - b)
+
+  minWidths.forEach((minWidth) => {
+    const rules = elements.flatMap(({ key, rules }) =>
+      rules.responsive
+        .filter((rule) => rule.minWidth === minWidth)
+        .map((rule) => formatCSSRule(`.${key}`, rule.declarations, "  "))
+    )
+    blocks.push(`@media (min-width: ${minWidth}px) {\n${rules.join("\n\n")}\n}`)
+  })
+
+  return blocks.join("\n\n") + "\n"
+}
+
+/**
+ * Canvas grid layout 파일 생성 (layoutMode: "canvas-grid")
+ *
+ * 각 component를 grid cell wrapper로 감싸 Canvas 좌표 그대로 배치
+ * - tailwind: `min-[<minWidth>px]:` variant
+ * - css-modules: layout stylesheet의 `styles.grid` / `styles.<name>Cell`
+ * - CSS-in-JS: layout 파일 내 styled component (`Grid`, `<Name>Cell`)
+ */
+function generateGridLayoutFile(
+  pkg: GenerationPackage,
+  syntax: JsxLayoutSyntax | TemplateLayoutSyntax,
+  grid: ResponsiveGridLayout,
+  stylesImport: string | null
+): string {
+  const { schema, options } = pkg
+  const elements = getGridElements(grid)
+  const styledSource = isCSSInJS(options.cssSolution)
+    ? CSS_IN_JS_SOURCES[options.cssSolution]
+    : null
+
+  const openTag = ({ key, rules }: GridElement) => {
+    if (styledSource) return `<${toStyledName(key)}>`
+    if (stylesImport) {
+      return syntax.kind === "jsx"
+        ? `<div ${syntax.classAttribute}={styles.${key}}>`
+        : `<div ${syntax.moduleClassAttribute(key)}>`
+    }
+    const classAttribute = syntax.kind === "jsx" ? syntax.classAttribute : "class"
+    return `<div ${classAttribute}="${toTailwindGridClasses(rules)}">`
+  }
+  const closeTag = ({ key }: GridElement) =>
+    styledSource ? `</${toStyledName(key)}>` : "</div>"
+
+  const [container, ...cells] = elements
+  const lines = [
+    openTag(container),
+    ...cells.flatMap((cell, index) => [
+      `  ${openTag(cell)}`,
+      `    <${grid.cells[index].component.name} />`,
+      `  ${closeTag(cell)}`,
+    ]),
+    closeTag(container),
+  ]
+
+  const importLines = [
+    ...getRootComponents(schema.components).map((c) => syntax.importStatement(c.name)),
+    ...(stylesImport ? [`import styles from "${stylesImport}"`] : []),
+    ...(styledSource ? [`import styled from "${styledSource}"`] : []),
+  ]
+
+  if (syntax.kind === "template") {
+    const scriptIndent = syntax.indentScript ? "  " : ""
+    const markup = syntax.wrapInTemplateTag
+      ? `<template>\n${lines.map((line) => `  ${line}`).join("\n")}\n</template>`
+      : lines.join("\n")
+
+    return `${syntax.scriptTag}
+${importLines.map((line) => `${scriptIndent}${line}`).join("\n")}
+</script>
+
+${markup}
 `
+  }
+
+  const styledDefinitions = styledSource
+    ? elements
+        .map(
+          ({ key, rules }) =>
+            `const ${toStyledName(key)} = styled.div\`\n${formatStyledCSS(rules.base, rules.responsive)}\n\`\n\n`
+        )
+        .join("")
+    : ""
+
+  return `${styledSource ? `"use client"\n\n` : ""}${importLines.join("\n")}
+
+${styledDefinitions}export default function ${syntax.functionName}() {
+  return (
+${lines.map((line) => `    ${line}`).join("\n")}
+  )
+}
+`
+}
+
+/**
+ * Export preset
+ *
+ * - files: component + layout 파일만 (exportToFiles)
+ * - nextjs: 바로 실행 가능한 Next.js App Router 프로젝트 (exportNextProject)
+ */
+export type ExportPreset = "files" | "nextjs"
+
+/**
+ * Next.js App Router 프로젝트 전체를 파일 배열로 export
+ *
+ * exportToFiles 결과에 package.json, tsconfig, Tailwind 설정, app/layout.tsx 등을 추가
+ *
+ * @example
+ * const files = exportNextProject(pkg, { projectName: "landing" })
+ * // package.json, tsconfig.json, next.config.ts, tailwind.config.ts, app/layout.tsx,
+ * // components/Header.tsx, ..., app/page.tsx, schema.json
+ */
+export function exportNextProject(
+  pkg: GenerationPackage,
+  options: NextProjectOptions = {}
+): ExportedFile[] {
+  if (pkg.options.framework !== "react") {
+    throw new Error(`Next.js project export requires the React framework, got: ${pkg.options.framework}`)
+  }
+
+  return [...generateNextProjectFiles(pkg, options), ...exportToFiles(pkg)]
 }
 
 /**
@@ -171,9 +696,10 @@ ${layoutCode}
  */
 export async function exportToZip(
   pkg: GenerationPackage,
-  filename: string = "vlb-export.zip"
+  filename: string = "vlb-export.zip",
+  preset: ExportPreset = "files"
 ): Promise<void> {
-  const files = exportToFiles(pkg)
+  const files = preset === "nextjs" ? exportNextProject(pkg) : exportToFiles(pkg)
 
   // Dynamic import JSZip (client-side only)
   const JSZip = (await import("jszip")).default
@@ -0,0 +1,99 @@
+/**
+ * Generation Client - /api/generate 호출 (브라우저)
+ *
+ * 서버가 provider를 호출하고 SSE로 스트리밍한 응답을 읽음
+ * API 키는 서버에만 있으므로 클라이언트는 GenerationPackage와 모델 ID만 보냄
+ */
+
+import type { GenerationRequestBody } from "./ai-providers/generation-stream"
+import { parseSSEStream } from "./ai-providers/sse"
+
+export const GENERATION_API_PATH = "/api/generate"
+
+/**
+ * 스트리밍 옵션
+ */
+export interface StreamGenerationOptions {
+  /** 텍스트 조각을 받을 때마다 (누적 코드 포함) */
+  onToken?: (text: string, code: string) => void
+  /** 생성 중단 */
+  signal?: AbortSignal
+  /** fetch 구현 (테스트용) */
+  fetch?: typeof fetch
+}
+
+export type StreamGenerationResult =
+  | { success: true; code: string }
+  | { success: false; error: string; code: string }
+
+/**
+ * 서버 생성 API 스트리밍 호출
+ *
+ * @example
+ * const result = await streamGeneration(
+ *   { pkg, modelId: "local-qwen-2.5-coder" },
+ *   { onToken: (_text, code) => setOutput(code) }
+ * )
+ */
+export async function streamGeneration(
+  body: GenerationRequestBody,
+  options: StreamGenerationOptions = {}
+): Promise<StreamGenerationResult> {
+  const fetchImpl = options.fetch ?? fetch
+  let code = ""
+
+  try {
+    const response = await fetchImpl(GENERATION_API_PATH, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    })
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null)
+      const details: string[] = Array.isArray(data?.details) ? data.details : []
+      return {
+        success: false,
+        error: [data?.error ?? `Generation request failed (${response.status})`, ...details].join("\n"),
+        code,
+      }
+    }
+
+    for await (const message of parseSSEStream(response.body)) {
+      const data = JSON.parse(message.data)
+      if (message.event === "token") {
+        code += data.text
+        options.onToken?.(data.text, code)
+      } else if (message.event === "done") {
+        return { success: true, code: data.code ?? code }
+      } else if (message.event === "error") {
+        return { success: false, error: data.message, code }
+      }
+    }
+
+    return { success: false, error: "The generation stream ended unexpectedly", code }
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return { success: false, error: "Generation stopped", code }
+    }
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error", code }
+  }
+}
+
+/**
+ * 서버 설정 파일(MODEL_REGISTRY_FILE)에 정의된 모델 ID
+ *
+ * @returns 요청이 실패하면 빈 배열
+ */
+export async function fetchServerModelIds(options: Pick<StreamGenerationOptions, "fetch"> = {}): Promise<string[]> {
+  const fetchImpl = options.fetch ?? fetch
+
+  try {
+    const response = await fetchImpl(GENERATION_API_PATH)
+    const data = await response.json()
+    return response.ok && Array.isArray(data?.models) ? data.models : []
+  } catch {
+    return []
+  }
+}
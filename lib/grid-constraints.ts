@@ -191,6 +191,34 @@ export function getAffectedComponentIds(
   return validation.affectedComponents?.map((c) => c.id) || []
 }
 
+/**
+ * 두 레이아웃이 겹치는지 확인 (모서리만 닿는 경우는 겹침 아님)
+ */
+function overlaps(a: CanvasLayout, b: CanvasLayout): boolean {
+  return !(
+    a.x >= b.x + b.width ||
+    a.x + a.width <= b.x ||
+    a.y >= b.y + b.height ||
+    a.y + a.height <= b.y
+  )
+}
+
+/**
+ * 배치된 레이아웃에 막히거나 top에 닿기 전까지 위로 당김 (gridstack float: false)
+ *
+ * @param layout - 당길 레이아웃
+ * @param placed - 이미 배치된 레이아웃
+ * @param top - 당길 수 있는 가장 위 행 (중첩 컴포넌트는 부모 영역의 y)
+ * @returns 위로 당긴 레이아웃 (당길 수 없으면 그대로)
+ */
+export function pullLayoutUp(layout: CanvasLayout, placed: CanvasLayout[], top = 0): CanvasLayout {
+  let pulled = layout
+  while (pulled.y > top && !placed.some((other) => overlaps({ ...pulled, y: pulled.y - 1 }, other))) {
+    pulled = { ...pulled, y: pulled.y - 1 }
+  }
+  return pulled
+}
+
 /**
  * 빈 공간 압축 제안 (Auto-Compact)
  *
@@ -201,6 +229,7 @@ export function getAffectedComponentIds(
  * @param currentGridRows - 현재 row 개수
  * @param currentGridCols - 현재 column 개수
  * @param currentBreakpoint - 현재 breakpoint 이름
+ * @param options - compact: 최상위 컴포넌트를 위로 당겨 중간 빈 행까지 없앤 기준으로 계산
  * @returns 축소 가능한 행/열 개수
  *
  * @example
@@ -213,15 +242,30 @@ export function suggestGridCompaction(
   components: Component[],
   currentGridRows: number,
   currentGridCols: number,
-  currentBreakpoint: string
+  currentBreakpoint: string,
+  options: { compact?: boolean } = {}
 ): { canReduceRows: number; canReduceCols: number } {
   const { minRows, minCols } = calculateMinimumGridSize(
     components,
     currentBreakpoint
   )
 
+  let requiredRows = minRows
+  if (options.compact && components.length > 0) {
+    // 자식은 부모 영역 안에 있으므로 최상위 컴포넌트만 위→아래, 왼쪽→오른쪽 순서로 당김
+    const ids = new Set(components.map((c) => c.id))
+    const placed: CanvasLayout[] = []
+    components
+      .filter((c) => !c.parentId || !ids.has(c.parentId))
+      .map((c) => c.responsiveCanvasLayout?.[currentBreakpoint] || c.canvasLayout)
+      .filter((layout): layout is CanvasLayout => layout !== undefined)
+      .sort((a, b) => a.y - b.y || a.x - b.x)
+      .forEach((layout) => placed.push(pullLayoutUp(layout, placed)))
+    requiredRows = Math.max(...placed.map((layout) => layout.y + layout.height), 0)
+  }
+
   return {
-    canReduceRows: Math.max(0, currentGridRows - minRows),
+    canReduceRows: Math.max(0, currentGridRows - requiredRows),
     canReduceCols: Math.max(0, currentGridCols - minCols),
   }
 }
@@ -0,0 +1,197 @@
+/**
+ * History Utilities
+ *
+ * Undo/Redo 히스토리 관리를 위한 순수 함수 모음
+ * - Schema + Component Links 스냅샷 기반
+ * - Zustand store의 불변 업데이트 덕분에 스냅샷은 구조적 공유(structural sharing)로 저장됨
+ *   → deep clone 없이 참조만 보관하므로 메모리 사용량이 작음
+ * - 연속 동작(드래그, 리사이즈, 타이핑)은 coalesceKey로 하나의 항목으로 병합
+ */
+
+import type { LaydlerSchema } from "@/types/schema"
+import type { ComponentLink } from "./graph-utils"
+
+/**
+ * 히스토리 최대 항목 수 (메모리 상한)
+ */
+export const HISTORY_LIMIT = 100
+
+/**
+ * 같은 coalesceKey를 가진 동작을 하나로 병합하는 시간 창 (ms)
+ *
+ * 드래그 종료 → 리사이즈 종료처럼 연달아 발생하는 업데이트를 하나의 undo 단계로 묶음
+ */
+export const HISTORY_COALESCE_WINDOW_MS = 500
+
+/**
+ * 히스토리 스냅샷 (undo/redo로 복원되는 데이터)
+ */
+export interface HistorySnapshot {
+  schema: LaydlerSchema
+  componentLinks: ComponentLink[]
+}
+
+/**
+ * 히스토리 항목
+ */
+export interface HistoryEntry {
+  /** 동작 이전 상태 */
+  snapshot: HistorySnapshot
+  /** 동작 이름 (devtools action name과 동일) */
+  label: string
+  /** 기록 시각 (ms) - coalescing 판단에 사용 */
+  timestamp: number
+  /** 병합 키 (같은 키의 연속 동작은 하나로 병합) */
+  coalesceKey?: string
+}
+
+/**
+ * Undo/Redo 스택
+ */
+export interface HistoryState {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+/**
+ * 빈 히스토리 생성
+ */
+export function createEmptyHistory(): HistoryState {
+  return { past: [], future: [] }
+}
+
+/**
+ * 두 값의 구조적 비교 (JSON 의미: undefined 속성은 없는 것과 같음)
+ *
+ * 구조적 공유 덕분에 바뀌지 않은 하위 트리는 참조 비교로 끝남
+ */
+function isStructurallyEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isStructurallyEqual(item, b[index]))
+  }
+
+  const aRecord = a as Record<string, unknown>
+  const bRecord = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)])
+  for (const key of keys) {
+    if (!isStructurallyEqual(aRecord[key], bRecord[key])) return false
+  }
+  return true
+}
+
+/**
+ * 두 스냅샷이 같은 상태인지 (no-op 업데이트 판별)
+ *
+ * @example
+ * isSameSnapshot({ schema, componentLinks }, { schema: { ...schema }, componentLinks }) // true
+ */
+export function isSameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  return (
+    isStructurallyEqual(a.schema, b.schema) &&
+    isStructurallyEqual(a.componentLinks, b.componentLinks)
+  )
+}
+
+/**
+ * 변경 이전 스냅샷을 히스토리에 기록
+ *
+ * - 새 동작이 기록되면 redo 스택(future)은 비워짐
+ * - 직전 항목과 coalesceKey가 같고 시간 창 이내면 새 항목을 만들지 않음
+ *   (직전 항목의 스냅샷 = burst 시작 전 상태가 유지됨)
+ * - HISTORY_LIMIT 초과 시 가장 오래된 항목부터 제거
+ *
+ * @param history - 현재 히스토리
+ * @param snapshot - 동작 이전 상태
+ * @param label - 동작 이름
+ * @param options - coalesceKey, 기록 시각, 최대 항목 수
+ * @returns 새 히스토리
+ *
+ * @example
+ * const next = pushHistoryEntry(history, { schema, componentLinks }, "updateComponent", {
+ *   coalesceKey: "canvas:c1",
+ * })
+ */
+export function pushHistoryEntry(
+  history: HistoryState,
+  snapshot: HistorySnapshot,
+  label: string,
+  options: { coalesceKey?: string; now?: number; limit?: number } = {}
+): HistoryState {
+  const { coalesceKey, now = Date.now(), limit = HISTORY_LIMIT } = options
+  const last = history.past[history.past.length - 1]
+
+  // 연속 동작 병합: 시작 시점 스냅샷을 유지하고 timestamp만 갱신
+  if (
+    coalesceKey !== undefined &&
+    last?.coalesceKey === coalesceKey &&
+    now - last.timestamp <= HISTORY_COALESCE_WINDOW_MS
+  ) {
+    return {
+      past: [...history.past.slice(0, -1), { ...last, timestamp: now }],
+      future: [],
+    }
+  }
+
+  const past = [...history.past, { snapshot, label, timestamp: now, coalesceKey }]
+
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    future: [],
+  }
+}
+
+/**
+ * Undo: 직전 스냅샷을 꺼내고 현재 상태를 redo 스택에 보관
+ *
+ * @param history - 현재 히스토리
+ * @param current - 현재 상태 (redo 시 복원됨)
+ * @returns 복원할 스냅샷과 새 히스토리, undo할 항목이 없으면 null
+ */
+export function undoHistory(
+  history: HistoryState,
+  current: HistorySnapshot
+): { snapshot: HistorySnapshot; history: HistoryState } | null {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return null
+
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [
+        ...history.future,
+        { snapshot: current, label: entry.label, timestamp: entry.timestamp },
+      ],
+    },
+  }
+}
+
+/**
+ * Redo: 마지막으로 undo한 스냅샷을 꺼내고 현재 상태를 undo 스택에 보관
+ *
+ * @param history - 현재 히스토리
+ * @param current - 현재 상태 (다시 undo 시 복원됨)
+ * @returns 복원할 스냅샷과 새 히스토리, redo할 항목이 없으면 null
+ */
+export function redoHistory(
+  history: HistoryState,
+  current: HistorySnapshot
+): { snapshot: HistorySnapshot; history: HistoryState } | null {
+  const entry = history.future[history.future.length - 1]
+  if (!entry) return null
+
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      past: [
+        ...history.past,
+        { snapshot: current, label: entry.label, timestamp: entry.timestamp },
+      ],
+      future: history.future.slice(0, -1),
+    },
+  }
+}
@@ -0,0 +1,943 @@
+/**
+ * Markup Importer
+ *
+ * 기존 JSX / HTML + Tailwind markup을 LaydlerSchema로 역변환 (code-generator의 반대 방향)
+ * - 시맨틱 태그(header, nav, main, aside, footer, section, article, form) → Component
+ * - generatePositioningClasses / generateLayoutClasses / generateStylingClasses /
+ *   generateResponsiveClasses 매핑을 역으로 적용
+ * - 문서 순서와 flex row 형제 관계로 breakpoint별 responsiveCanvasLayout 추정
+ * - 변환하지 못한 class, 동적 className 등은 warnings로 보고 (class는 styling.className에 보존)
+ *
+ * 전체 .tsx 파일이 아닌 JSX return block 또는 HTML 조각을 대상으로 함
+ */
+
+import type {
+  Breakpoint,
+  CanvasLayout,
+  Component,
+  ComponentLayout,
+  ComponentPositioning,
+  ComponentStyling,
+  ContainerLayout,
+  LaydlerSchema,
+  ResponsiveBehavior,
+  ResponsiveBehaviorConfig,
+  SemanticTag,
+} from "@/types/schema"
+import { createEmptySchema, GRID_CONSTRAINTS } from "./schema-utils"
+
+/**
+ * Import 경고
+ *
+ * - UNMAPPED_CLASS: schema 필드로 변환할 수 없는 class (styling.className에 보존)
+ * - UNSUPPORTED_VARIANT: schema breakpoint와 일치하지 않는 responsive prefix
+ * - DYNAMIC_CLASS: 표현식 className (문자열 literal만 사용)
+ * - NESTED_SEMANTIC_TAG: component 내부의 시맨틱 태그 (content로 취급)
+ * - NO_COMPONENTS: component로 변환할 element 없음
+ * - CANVAS_OVERFLOW: 추정 배치가 최대 grid row 수 초과
+ */
+export interface ImportWarning {
+  code: string
+  message: string
+  componentId?: string
+}
+
+export interface MarkupImportResult {
+  schema: LaydlerSchema
+  warnings: ImportWarning[]
+}
+
+export interface MarkupImportOptions {
+  /** 대상 breakpoints (기본: mobile/tablet/desktop) */
+  breakpoints?: Breakpoint[]
+}
+
+/**
+ * Class 문자열 역변환 결과
+ */
+export interface ParsedComponentClasses {
+  positioning: ComponentPositioning
+  layout: ComponentLayout
+  styling: ComponentStyling
+  responsive: ResponsiveBehavior
+  /** 변환하지 못한 class (prefix 포함 원본) */
+  unmapped: string[]
+  /** schema breakpoint와 매칭되지 않은 responsive prefix */
+  unsupportedVariants: string[]
+}
+
+// ============================================================================
+// Markup parsing
+// ============================================================================
+
+interface MarkupElement {
+  tag: string
+  attributes: Record<string, string>
+  /** 표현식 attribute (`className={cn(...)}`) 원본 */
+  expressions: Record<string, string>
+  children: MarkupElement[]
+  parent: MarkupElement | null
+}
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "param", "source", "track", "wbr",
+])
+
+const RAW_TEXT_TAGS = new Set(["script", "style"])
+
+/**
+ * `{` 부터 짝이 맞는 `}` 까지 읽기 (문자열 / template literal 내부 brace 무시)
+ *
+ * @returns 닫는 brace 다음 index
+ */
+function readBalancedBraces(source: string, start: number): number {
+  let depth = 0
+  let quote: string | null = null
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i]
+
+    if (quote) {
+      if (char === "\\") i++
+      else if (char === quote) quote = null
+      continue
+    }
+
+    if (char === '"' || char === "'" || char === "`") quote = char
+    else if (char === "{") depth++
+    else if (char === "}") {
+      depth--
+      if (depth === 0) return i + 1
+    }
+  }
+
+  return source.length
+}
+
+/**
+ * JSX / HTML markup을 element tree로 파싱
+ *
+ * 닫히지 않은 tag는 다음 상위 닫는 tag에서 자동으로 닫힘 (HTML 관례)
+ */
+function parseMarkup(source: string): MarkupElement {
+  const root: MarkupElement = {
+    tag: "#root",
+    attributes: {},
+    expressions: {},
+    children: [],
+    parent: null,
+  }
+  const stack: MarkupElement[] = [root]
+  let i = 0
+
+  while (i < source.length) {
+    if (source.startsWith("<!--", i)) {
+      const end = source.indexOf("-->", i + 4)
+      i = end === -1 ? source.length : end + 3
+      continue
+    }
+
+    if (source[i] === "{") {
+      // JSX 표현식 (주석, 조건부 렌더링 등) 내부 markup은 무시
+      const expression = source.slice(i, readBalancedBraces(source, i))
+      if (!/<[A-Za-z]/.test(expression)) {
+        i += expression.length
+        continue
+      }
+      i++
+      continue
+    }
+
+    if (source[i] !== "<") {
+      i++
+      continue
+    }
+
+    // Closing tag (</tag>, </>)
+    const closing = /^<\/\s*([A-Za-z][\w.:-]*)?\s*>/.exec(source.slice(i))
+    if (closing) {
+      const tag = closing[1] ?? "#fragment"
+      const index = stack.map((el) => el.tag).lastIndexOf(tag)
+      if (index > 0) stack.length = index
+      i += closing[0].length
+      continue
+    }
+
+    // Fragment (<>)
+    if (source.startsWith("<>", i)) {
+      const fragment: MarkupElement = {
+        tag: "#fragment",
+        attributes: {},
+        expressions: {},
+        children: [],
+        parent: stack[stack.length - 1],
+      }
+      fragment.parent!.children.push(fragment)
+      stack.push(fragment)
+      i += 2
+      continue
+    }
+
+    const opening = /^<([A-Za-z][\w.:-]*)/.exec(source.slice(i))
+    if (!opening) {
+      // <!DOCTYPE ...>, 비교 연산자 등
+      i++
+      continue
+    }
+
+    const element: MarkupElement = {
+      tag: opening[1],
+      attributes: {},
+      expressions: {},
+      children: [],
+      parent: stack[stack.length - 1],
+    }
+    i += opening[0].length
+
+    let selfClosing = false
+    while (i < source.length) {
+      while (/\s/.test(source[i] ?? "")) i++
+
+      if (source.startsWith("/>", i)) {
+        selfClosing = true
+        i += 2
+        break
+      }
+      if (source[i] === ">") {
+        i++
+        break
+      }
+      if (source[i] === "{") {
+        // {...spread}
+        i = readBalancedBraces(source, i)
+        continue
+      }
+
+      const name = /^[^\s=/>{]+/.exec(source.slice(i))
+      if (!name) {
+        i++
+        continue
+      }
+      i += name[0].length
+
+      while (/\s/.test(source[i] ?? "")) i++
+      if (source[i] !== "=") {
+        element.attributes[name[0]] = ""
+        continue
+      }
+      i++
+      while (/\s/.test(source[i] ?? "")) i++
+
+      const quote = source[i]
+      if (quote === '"' || quote === "'") {
+        const end = source.indexOf(quote, i + 1)
+        element.attributes[name[0]] = source.slice(i + 1, end === -1 ? undefined : end)
+        i = end === -1 ? source.length : end + 1
+      } else if (quote === "{") {
+        const end = readBalancedBraces(source, i)
+        element.expressions[name[0]] = source.slice(i + 1, end - 1).trim()
+        i = end
+      } else {
+        const value = /^[^\s>]+/.exec(source.slice(i))?.[0] ?? ""
+        element.attributes[name[0]] = value
+        i += value.length
+      }
+    }
+
+    element.parent!.children.push(element)
+
+    const tag = element.tag.toLowerCase()
+    if (RAW_TEXT_TAGS.has(tag) && !selfClosing) {
+      const end = source.toLowerCase().indexOf(`</${tag}`, i)
+      i = end === -1 ? source.length : end
+      continue
+    }
+    if (!selfClosing && !VOID_TAGS.has(tag)) {
+      stack.push(element)
+    }
+  }
+
+  return root
+}
+
+/**
+ * Element의 class 문자열 추출
+ *
+ * `className={"..."}`, `className={`...`}` 는 정적 값으로 처리하고
+ * 그 외 표현식(`cn(...)`, 조건부)은 문자열 literal만 모아서 dynamic으로 표시
+ */
+function getElementClasses(element: MarkupElement): { value: string; dynamic: boolean } {
+  const staticValue = element.attributes.className ?? element.attributes.class
+  if (staticValue !== undefined) return { value: staticValue, dynamic: false }
+
+  const expression = element.expressions.className ?? element.expressions.class
+  if (expression === undefined) return { value: "", dynamic: false }
+
+  const literal = /^(["'`])([^"'`$]*)\1$/.exec(expression)
+  if (literal) return { value: literal[2], dynamic: false }
+
+  const strings = [...expression.matchAll(/(["'`])([^"'`$]*)\1/g)].map((match) => match[2])
+  return { value: strings.join(" "), dynamic: true }
+}
+
+// ============================================================================
+// Tailwind class → Schema
+// ============================================================================
+
+/** Tailwind 기본 screen (generateResponsiveClasses는 md: / lg: 사용) */
+const TAILWIND_SCREENS: Record<string, number> = {
+  sm: 640,
+  md: 768,
+  lg: 1024,
+  xl: 1280,
+  "2xl": 1536,
+}
+
+const POSITIONING_TYPES = new Set(["static", "fixed", "sticky", "absolute", "relative"])
+
+const FLEX_DIRECTIONS: Record<string, NonNullable<ComponentLayout["flex"]>["direction"]> = {
+  "flex-row": "row",
+  "flex-col": "column",
+  "flex-row-reverse": "row-reverse",
+  "flex-col-reverse": "column-reverse",
+}
+
+const FLEX_WRAPS: Record<string, NonNullable<ComponentLayout["flex"]>["wrap"]> = {
+  "flex-wrap": "wrap",
+  "flex-nowrap": "nowrap",
+  "flex-wrap-reverse": "wrap-reverse",
+}
+
+const JUSTIFY_VALUES = new Set(["start", "end", "center", "between", "around", "evenly"])
+const ITEMS_VALUES = new Set(["start", "end", "center", "baseline", "stretch"])
+
+const GRID_FLOWS: Record<string, NonNullable<ComponentLayout["grid"]>["autoFlow"]> = {
+  "grid-flow-row": "row",
+  "grid-flow-col": "column",
+  "grid-flow-row-dense": "row dense",
+  "grid-flow-col-dense": "column dense",
+}
+
+const KEYWORD_SIZES = new Set(["full", "screen", "auto", "min", "max", "fit"])
+const CONTAINER_MAX_WIDTHS = new Set<string>(["sm", "md", "lg", "xl", "2xl", "7xl", "full"])
+const BORDER_SIDES = new Set(["t", "r", "b", "l", "x", "y"])
+const SHADOW_SIZES = new Set(["sm", "md", "lg", "xl", "none"])
+const VISIBLE_DISPLAYS = new Set(["block", "flex", "grid", "inline-block", "inline-flex", "inline"])
+
+/**
+ * Tailwind spacing scale → rem 문자열
+ *
+ * @example
+ * "4" → "1rem", "0" → "0", "[4rem]" → "4rem"
+ */
+function fromSpacing(value: string): string | null {
+  const arbitrary = /^\[([^\]]+)\]$/.exec(value)
+  if (arbitrary) return arbitrary[1]
+  if (!/^\d+(\.\d+)?$/.test(value)) return null
+
+  const n = parseFloat(value)
+  return n === 0 ? "0" : `${n / 4}rem`
+}
+
+/**
+ * Width/height class 값 → schema size
+ *
+ * @example
+ * "64" → "16rem", "full" → "full"
+ */
+function fromSize(value: string): string | null {
+  if (KEYWORD_SIZES.has(value)) return value
+  return fromSpacing(value)
+}
+
+/**
+ * Responsive prefix → schema breakpoint 이름
+ *
+ * Tailwind 기본 screen 또는 `min-[Npx]` 중 minWidth가 정확히 일치하는 breakpoint만 허용
+ */
+function resolveVariant(variant: string, breakpoints: Breakpoint[]): string | null {
+  const arbitrary = /^min-\[(\d+)px\]$/.exec(variant)
+  const minWidth = arbitrary ? parseInt(arbitrary[1], 10) : TAILWIND_SCREENS[variant]
+  if (minWidth === undefined) return null
+
+  return breakpoints.find((bp) => bp.minWidth === minWidth)?.name ?? null
+}
+
+/**
+ * Tailwind class 문자열을 Component 필드로 역변환
+ *
+ * generatePositioningClasses / generateLayoutClasses / generateStylingClasses /
+ * generateResponsiveClasses의 역함수
+ *
+ * @example
+ * parseComponentClasses("sticky top-0 z-50 flex flex-col gap-4 hidden lg:block", breakpoints)
+ * → {
+ *   positioning: { type: "sticky", position: { top: 0, zIndex: 50 } },
+ *   layout: { type: "flex", flex: { direction: "column", gap: "1rem" } },
+ *   responsive: { mobile: { hidden: true }, desktop: { hidden: false } },
+ *   ...
+ * }
+ */
+export function parseComponentClasses(
+  className: string,
+  breakpoints: Breakpoint[]
+): ParsedComponentClasses {
+  const sortedBreakpoints = [...breakpoints].sort((a, b) => a.minWidth - b.minWidth)
+  const baseBreakpoint = sortedBreakpoints[0]?.name ?? "mobile"
+
+  const positioning: ComponentPositioning = { type: "static" }
+  const position: NonNullable<ComponentPositioning["position"]> = {}
+  const layout: ComponentLayout = { type: "none" }
+  const flex: NonNullable<ComponentLayout["flex"]> = {}
+  const grid: NonNullable<ComponentLayout["grid"]> = {}
+  const styling: ComponentStyling = {}
+  const responsive: ResponsiveBehavior = {}
+  const unmapped: string[] = []
+  const unsupportedVariants: string[] = []
+
+  const setResponsive = (breakpoint: string, config: ResponsiveBehaviorConfig) => {
+    responsive[breakpoint] = { ...responsive[breakpoint], ...config }
+  }
+
+  className
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      const separator = token.lastIndexOf(":")
+      const variant = separator === -1 ? "" : token.slice(0, separator)
+      const utility = separator === -1 ? token : token.slice(separator + 1)
+
+      // Responsive override (md:, lg:, min-[Npx]:)
+      if (variant) {
+        const breakpoint = resolveVariant(variant, sortedBreakpoints)
+        if (!breakpoint) {
+          unsupportedVariants.push(token)
+          return
+        }
+
+        if (utility === "hidden") return setResponsive(breakpoint, { hidden: true })
+        if (VISIBLE_DISPLAYS.has(utility)) return setResponsive(breakpoint, { hidden: false })
+
+        const width = /^w-(.+)$/.exec(utility)
+        if (width && fromSize(width[1])) {
+          return setResponsive(breakpoint, { width: fromSize(width[1])! })
+        }
+        const order = /^order-(\d+)$/.exec(utility)
+        if (order) return setResponsive(breakpoint, { order: parseInt(order[1], 10) })
+
+        unmapped.push(token)
+        return
+      }
+
+      // Positioning
+      if (POSITIONING_TYPES.has(utility)) {
+        positioning.type = utility as ComponentPositioning["type"]
+        return
+      }
+      const offset = /^(top|right|bottom|left)-(.+)$/.exec(utility)
+      if (offset && fromSpacing(offset[2])) {
+        const value = fromSpacing(offset[2])!
+        position[offset[1] as "top"] = value === "0" ? 0 : value
+        return
+      }
+      const zIndex = /^z-(\d+)$/.exec(utility)
+      if (zIndex) {
+        position.zIndex = parseInt(zIndex[1], 10)
+        return
+      }
+
+      // Visibility (base breakpoint)
+      if (utility === "hidden") return setResponsive(baseBreakpoint, { hidden: true })
+      if (utility === "block") return
+      const order = /^order-(\d+)$/.exec(utility)
+      if (order) return setResponsive(baseBreakpoint, { order: parseInt(order[1], 10) })
+
+      // Layout
+      if (utility === "flex") {
+        layout.type = "flex"
+        return
+      }
+      if (utility === "grid") {
+        layout.type = "grid"
+        return
+      }
+      if (FLEX_DIRECTIONS[utility]) {
+        flex.direction = FLEX_DIRECTIONS[utility]
+        return
+      }
+      if (FLEX_WRAPS[utility]) {
+        flex.wrap = FLEX_WRAPS[utility]
+        return
+      }
+      const justify = /^justify-(.+)$/.exec(utility)
+      if (justify && JUSTIFY_VALUES.has(justify[1])) {
+        flex.justify = justify[1] as typeof flex.justify
+        return
+      }
+      const items = /^items-(.+)$/.exec(utility)
+      if (items && ITEMS_VALUES.has(items[1])) {
+        flex.items = items[1] as typeof flex.items
+        return
+      }
+      const gap = /^gap-(.+)$/.exec(utility)
+      if (gap && fromSpacing(gap[1])) {
+        flex.gap = grid.gap = fromSpacing(gap[1])!
+        return
+      }
+      const gridTemplate = /^grid-(cols|rows)-(\d+|\[[^\]]+\])$/.exec(utility)
+      if (gridTemplate) {
+        const raw = gridTemplate[2]
+        const value = raw.startsWith("[") ? raw.slice(1, -1).replace(/_/g, " ") : parseInt(raw, 10)
+        grid[gridTemplate[1] as "cols" | "rows"] = value
+        return
+      }
+      if (GRID_FLOWS[utility]) {
+        grid.autoFlow = GRID_FLOWS[utility]
+        return
+      }
+
+      // Styling
+      const size = /^(w|h)-(.+)$/.exec(utility)
+      if (size && fromSize(size[2])) {
+        styling[size[1] === "w" ? "width" : "height"] = fromSize(size[2])!
+        return
+      }
+      const border = /^border-(.+)$/.exec(utility)
+      if (border && BORDER_SIDES.has(border[1])) {
+        styling.border = border[1]
+        return
+      }
+      const shadow = /^shadow-(.+)$/.exec(utility)
+      if (shadow && SHADOW_SIZES.has(shadow[1])) {
+        styling.shadow = shadow[1]
+        return
+      }
+      const background = /^bg-([a-z]+(?:-\d+)?)$/.exec(utility)
+      if (background) {
+        styling.background = background[1]
+        return
+      }
+
+      unmapped.push(token)
+    })
+
+  if (Object.keys(position).length > 0) positioning.position = position
+
+  if (layout.type === "flex") {
+    delete grid.gap
+    if (Object.keys(flex).length > 0) layout.flex = flex
+  } else if (layout.type === "grid") {
+    if (Object.keys(grid).length > 0) layout.grid = grid
+  } else {
+    // flex / grid 없이 사용된 layout utility는 변환 불가
+    const orphan = Object.keys(flex).length > 0 || grid.cols !== undefined || grid.rows !== undefined
+    if (orphan) {
+      unmapped.push(
+        ...className
+          .split(/\s+/)
+          .filter((token) => /^(flex-|justify-|items-|gap-|grid-)/.test(token))
+          .filter((token) => !unmapped.includes(token))
+      )
+    }
+  }
+
+  return { positioning, layout, styling, responsive, unmapped, unsupportedVariants }
+}
+
+/**
+ * Container wrapper class 역변환 (generateContainerWrapperClasses의 역함수)
+ *
+ * @example
+ * "container max-w-7xl mx-auto px-8" → { maxWidth: "7xl", centered: true, padding: "2rem" }
+ */
+function parseContainerClasses(className: string): {
+  container: ContainerLayout
+  unmapped: string[]
+} {
+  const container: ContainerLayout = { maxWidth: "full", centered: false }
+  const unmapped: string[] = []
+
+  className
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      if (token === "container") return
+      if (token === "mx-auto") {
+        container.centered = true
+        return
+      }
+      const maxWidth = /^max-w-(.+)$/.exec(token)
+      if (maxWidth && CONTAINER_MAX_WIDTHS.has(maxWidth[1])) {
+        container.maxWidth = maxWidth[1] as ContainerLayout["maxWidth"]
+        return
+      }
+      const padding = /^px-(.+)$/.exec(token)
+      if (padding && fromSpacing(padding[1])) {
+        container.padding = fromSpacing(padding[1])!
+        return
+      }
+      unmapped.push(token)
+    })
+
+  return { container, unmapped }
+}
+
+/**
+ * Component root 바로 아래 container wrapper 찾기
+ */
+function findContainerWrapper(element: MarkupElement): MarkupElement | null {
+  const elementChildren = element.children.filter((child) => !child.tag.startsWith("#"))
+  if (elementChildren.length !== 1 || elementChildren[0].tag !== "div") return null
+
+  const { value } = getElementClasses(elementChildren[0])
+  const tokens = value.split(/\s+/)
+  return tokens.includes("container") || tokens.includes("mx-auto") ? elementChildren[0] : null
+}
+
+// ============================================================================
+// Component extraction
+// ============================================================================
+
+const COMPONENT_TAGS = new Set<SemanticTag>([
+  "header", "nav", "main", "aside", "footer", "section", "article", "form",
+])
+
+const DEFAULT_NAMES: Record<SemanticTag, string> = {
+  header: "Header",
+  nav: "Navigation",
+  main: "Main",
+  aside: "Aside",
+  footer: "Footer",
+  section: "Section",
+  article: "Article",
+  div: "Container",
+  form: "Form",
+}
+
+/**
+ * id attribute → PascalCase component 이름
+ *
+ * @example
+ * "site-header" → "SiteHeader"
+ */
+function toComponentName(id: string): string | null {
+  const name = id
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")
+  return /^[A-Z][A-Za-z0-9]*$/.test(name) ? name : null
+}
+
+/**
+ * Component 후보 element 수집
+ *
+ * 가장 바깥쪽 시맨틱 태그만 component로 사용, 없으면 최상위 wrapper의 자식 div 사용
+ */
+function collectComponentElements(root: MarkupElement): {
+  elements: MarkupElement[]
+  nested: Array<{ element: MarkupElement; owner: MarkupElement }>
+} {
+  const elements: MarkupElement[] = []
+  const nested: Array<{ element: MarkupElement; owner: MarkupElement }> = []
+
+  const visit = (element: MarkupElement, owner: MarkupElement | null) => {
+    const isComponent = COMPONENT_TAGS.has(element.tag as SemanticTag)
+    if (isComponent && owner) nested.push({ element, owner })
+    if (isComponent && !owner) elements.push(element)
+    element.children.forEach((child) => visit(child, owner ?? (isComponent ? element : null)))
+  }
+  visit(root, null)
+
+  if (elements.length > 0) return { elements, nested }
+
+  // Fallback: 단일 wrapper의 자식 div들 (<div><div>..</div><div>..</div></div>)
+  let wrapper = root
+  while (wrapper.children.length === 1 && wrapper.children[0].children.length > 0) {
+    wrapper = wrapper.children[0]
+  }
+  return {
+    elements: wrapper.children.filter((child) => child.tag === "div"),
+    nested,
+  }
+}
+
+/**
+ * 가로 배치 부모인지 (flex row, grid columns)
+ */
+function isHorizontalContainer(element: MarkupElement | null): boolean {
+  if (!element || element.tag.startsWith("#")) return false
+
+  const tokens = getElementClasses(element).value.split(/\s+/)
+  if (tokens.includes("flex")) {
+    return !tokens.some((token) => token === "flex-col" || token === "flex-col-reverse")
+  }
+  return tokens.includes("grid") && tokens.some((token) => /^grid-cols-/.test(token))
+}
+
+// ============================================================================
+// Canvas layout inference
+// ============================================================================
+
+/**
+ * 시맨틱 태그별 기본 row 높이
+ */
+function getDefaultHeight(tag: SemanticTag): number {
+  if (tag === "main") return 4
+  if (tag === "header" || tag === "footer" || tag === "nav") return 1
+  return 2
+}
+
+/**
+ * Breakpoint에서 component가 숨겨졌는지 (mobile-first cascade)
+ */
+function isHiddenAt(component: Component, breakpoints: Breakpoint[], index: number): boolean {
+  let hidden = false
+  for (let i = 0; i <= index; i++) {
+    const config = component.responsive?.[breakpoints[i].name]
+    if (config?.hidden !== undefined) hidden = config.hidden
+  }
+  return hidden
+}
+
+/**
+ * Row group의 열 너비 분배
+ *
+ * nav / aside는 약 1/4, 나머지는 남은 너비를 균등 분배
+ */
+function distributeColumns(tags: SemanticTag[], gridCols: number): number[] {
+  const sideWidth = Math.max(1, Math.round(gridCols / 4))
+  const isSide = tags.map((tag) => tag === "nav" || tag === "aside")
+  const sideCount = isSide.filter(Boolean).length
+  const otherCount = tags.length - sideCount
+  const remainder = gridCols - sideWidth * sideCount
+
+  if (otherCount === 0 || remainder < otherCount) {
+    // 균등 분배 (마지막 열이 나머지 차지)
+    const width = Math.max(1, Math.floor(gridCols / tags.length))
+    return tags.map((_, i) => (i === tags.length - 1 ? gridCols - width * (tags.length - 1) : width))
+  }
+
+  const otherWidth = Math.floor(remainder / otherCount)
+  let lastOther = isSide.lastIndexOf(false)
+  if (lastOther === -1) lastOther = tags.length - 1
+  return isSide.map((side, i) => {
+    if (side) return sideWidth
+    return i === lastOther ? remainder - otherWidth * (otherCount - 1) : otherWidth
+  })
+}
+
+/**
+ * 문서 순서로 breakpoint별 Canvas 배치 추정
+ *
+ * - 가장 작은 breakpoint: 모든 component를 세로로 쌓음
+ * - 그 외: flex row / grid 형제 component는 같은 row에 나란히 배치
+ * - 숨겨진 breakpoint에는 배치하지 않음
+ */
+function inferCanvasLayouts(
+  components: Component[],
+  groups: number[][],
+  breakpoints: Breakpoint[],
+  warnings: ImportWarning[]
+): void {
+  breakpoints.forEach((breakpoint, bpIndex) => {
+    let y = 0
+
+    groups.forEach((group) => {
+      const visible = group.filter((index) => !isHiddenAt(components[index], breakpoints, bpIndex))
+      if (visible.length === 0) return
+
+      const place = (index: number, layout: CanvasLayout) => {
+        const component = components[index]
+        component.responsiveCanvasLayout = {
+          ...component.responsiveCanvasLayout,
+          [breakpoint.name]: layout,
+        }
+      }
+
+      if (bpIndex === 0 || visible.length === 1) {
+        visible.forEach((index) => {
+          const height = getDefaultHeight(components[index].semanticTag)
+          place(index, { x: 0, y, width: breakpoint.gridCols, height })
+          y += height
+        })
+        return
+      }
+
+      const tags = visible.map((index) => components[index].semanticTag)
+      const widths = distributeColumns(tags, breakpoint.gridCols)
+      const height = Math.max(...tags.map((tag) => (tag === "nav" || tag === "aside" ? 2 : getDefaultHeight(tag))))
+      let x = 0
+      visible.forEach((index, i) => {
+        place(index, { x, y, width: widths[i], height })
+        x += widths[i]
+      })
+      y += height
+    })
+
+    if (y > breakpoint.gridRows) {
+      if (y > GRID_CONSTRAINTS.maxRows) {
+        warnings.push({
+          code: "CANVAS_OVERFLOW",
+          message: `${breakpoint.name}: inferred layout needs ${y} rows, more than the maximum of ${GRID_CONSTRAINTS.maxRows}. Adjust the canvas manually.`,
+        })
+      }
+      breakpoint.gridRows = Math.min(y, GRID_CONSTRAINTS.maxRows)
+    }
+  })
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * JSX / HTML + Tailwind markup을 LaydlerSchema로 변환
+ *
+ * @example
+ * const { schema, warnings } = importMarkup(`
+ *   <header className="sticky top-0 z-50 border-b">...</header>
+ *   <div className="flex">
+ *     <aside className="hidden lg:block w-64">...</aside>
+ *     <main className="flex-1">...</main>
+ *   </div>
+ * `)
+ * // schema.components: Header (c1), Aside (c2), Main (c3)
+ * // warnings: [{ code: "UNMAPPED_CLASS", message: "...flex-1...", componentId: "c3" }]
+ */
+export function importMarkup(
+  source: string,
+  options: MarkupImportOptions = {}
+): MarkupImportResult {
+  const schema = createEmptySchema()
+  if (options.breakpoints) {
+    schema.breakpoints = options.breakpoints.map((bp) => ({ ...bp }))
+    schema.layouts = Object.fromEntries(
+      schema.breakpoints.map((bp) => [bp.name, { structure: "vertical" as const, components: [] }])
+    )
+  }
+  const breakpoints = [...schema.breakpoints].sort((a, b) => a.minWidth - b.minWidth)
+
+  const warnings: ImportWarning[] = []
+  const root = parseMarkup(source)
+  const { elements, nested } = collectComponentElements(root)
+
+  if (elements.length === 0) {
+    warnings.push({
+      code: "NO_COMPONENTS",
+      message: "No semantic elements (header, nav, main, aside, footer, section, article, form) found.",
+    })
+    return { schema, warnings }
+  }
+
+  const usedNames = new Set<string>()
+  const components = elements.map((element, index): Component => {
+    const id = `c${index + 1}`
+    const semanticTag = (COMPONENT_TAGS.has(element.tag as SemanticTag) ? element.tag : "div") as SemanticTag
+
+    // Name: id attribute 우선, 중복 시 숫자 suffix
+    const baseName = toComponentName(element.attributes.id ?? "") ?? DEFAULT_NAMES[semanticTag]
+    let name = baseName
+    for (let n = 2; usedNames.has(name); n++) name = `${baseName}${n}`
+    usedNames.add(name)
+
+    const classes = getElementClasses(element)
+    if (classes.dynamic) {
+      warnings.push({
+        code: "DYNAMIC_CLASS",
+        message: `${name}: className is an expression; only its string literals were imported.`,
+        componentId: id,
+      })
+    }
+
+    const parsed = parseComponentClasses(classes.value, breakpoints)
+    const unmapped = [...parsed.unmapped]
+
+    // Container wrapper (<div className="container mx-auto ...">)
+    const wrapper = parsed.layout.type === "none" ? findContainerWrapper(element) : null
+    if (wrapper) {
+      const { container, unmapped: wrapperUnmapped } = parseContainerClasses(getElementClasses(wrapper).value)
+      parsed.layout = { type: "container", container }
+      if (wrapperUnmapped.length > 0) {
+        warnings.push({
+          code: "UNMAPPED_CLASS",
+          message: `${name}: container wrapper classes not imported: ${wrapperUnmapped.join(" ")}`,
+          componentId: id,
+        })
+      }
+    }
+
+    if (parsed.unsupportedVariants.length > 0) {
+      warnings.push({
+        code: "UNSUPPORTED_VARIANT",
+        message: `${name}: responsive classes do not match any breakpoint minWidth: ${parsed.unsupportedVariants.join(" ")}`,
+        componentId: id,
+      })
+      unmapped.push(...parsed.unsupportedVariants)
+    }
+
+    if (unmapped.length > 0) {
+      parsed.styling.className = unmapped.join(" ")
+      if (parsed.unmapped.length > 0) {
+        warnings.push({
+          code: "UNMAPPED_CLASS",
+          message: `${name}: classes kept as styling.className: ${parsed.unmapped.join(" ")}`,
+          componentId: id,
+        })
+      }
+    }
+
+    const component: Component = {
+      id,
+      name,
+      semanticTag,
+      positioning: parsed.positioning,
+      layout: parsed.layout,
+    }
+    if (Object.keys(parsed.styling).length > 0) component.styling = parsed.styling
+    if (Object.keys(parsed.responsive).length > 0) component.responsive = parsed.responsive
+
+    return component
+  })
+
+  nested.forEach(({ element, owner }) => {
+    const index = elements.indexOf(owner)
+    if (index === -1) return
+    warnings.push({
+      code: "NESTED_SEMANTIC_TAG",
+      message: `<${element.tag}> inside ${components[index].name} was kept as content, not a separate component.`,
+      componentId: components[index].id,
+    })
+  })
+
+  // Row groups: 가로 배치 부모를 공유하는 연속 component
+  const groups: number[][] = []
+  elements.forEach((element, index) => {
+    const previous = groups[groups.length - 1]
+    const previousElement = previous ? elements[previous[previous.length - 1]] : null
+    if (
+      previousElement &&
+      previousElement.parent === element.parent &&
+      isHorizontalContainer(element.parent)
+    ) {
+      previous.push(index)
+    } else {
+      groups.push([index])
+    }
+  })
+
+  inferCanvasLayouts(components, groups, breakpoints, warnings)
+
+  schema.components = components
+  breakpoints.forEach((breakpoint) => {
+    schema.layouts[breakpoint.name] = {
+      structure: groups.some((group) => group.length > 1) ? "custom" : "vertical",
+      components: components
+        .filter((component) => component.responsiveCanvasLayout?.[breakpoint.name])
+        .map((component) => component.id),
+    }
+  })
+
+  return { schema, warnings }
+}
@@ -0,0 +1,352 @@
+/**
+ * Model Registry Config - 사용자 정의 모델 / 내장 모델 override
+ *
+ * JSON 파일(서버: MODEL_REGISTRY_FILE) 또는 UI에서 불러온 설정을 검증하고
+ * runtime registry에 등록 → recommendModels, PromptStrategyFactory가 그대로 사용
+ *
+ * @example
+ * {
+ *   "models": [
+ *     { "id": "gpt-4.1", "cost": { "inputCostPer1M": 1.8 } },
+ *     {
+ *       "id": "acme-coder",
+ *       "extends": "qwen-2.5-coder-32b",
+ *       "name": "Acme Coder",
+ *       "provider": "custom",
+ *       "promptStrategy": "alibaba",
+ *       "providerModel": "qwen2.5-coder:14b",
+ *       "performance": { "contextWindow": 32000 }
+ *     }
+ *   ]
+ * }
+ *
+ * - 내장 모델과 같은 ID → 해당 모델에 deep merge (override)
+ * - 새 ID → extends 모델(기본: "custom")에 deep merge, name/provider 필수
+ */
+
+import type { AIModelMetadata, AIProvider, TokenizerId } from "@/types/ai-models"
+import {
+  AI_MODEL_REGISTRY,
+  getModelMetadata,
+  isBuiltInModelId,
+  setRuntimeModels,
+} from "./ai-model-registry"
+import { TOKENIZER_IDS } from "./tokenizers"
+
+/**
+ * 프로바이더 목록 (AIProvider)
+ */
+export const AI_PROVIDERS: AIProvider[] = [
+  "anthropic",
+  "openai",
+  "google",
+  "deepseek",
+  "xai",
+  "meta",
+  "alibaba",
+  "custom",
+]
+
+/**
+ * 설정 항목 (AIModelMetadata의 부분 집합 + extends)
+ */
+export interface ModelConfigEntry {
+  id: string
+  /** 새 모델의 기본값으로 쓸 모델 ID (기본: "custom") */
+  extends?: string
+  name?: string
+  provider?: AIProvider
+  promptStrategy?: AIProvider
+  tokenizer?: TokenizerId
+  providerModel?: string
+  description?: string
+  bestFor?: string[]
+  limitations?: string[]
+  capabilities?: Partial<AIModelMetadata["capabilities"]>
+  cost?: Partial<AIModelMetadata["cost"]>
+  performance?: Partial<AIModelMetadata["performance"]>
+  active?: boolean
+  releaseDate?: string
+}
+
+/**
+ * 설정 파일 형식 ({ models: [...] } 또는 배열)
+ */
+export interface ModelRegistryConfig {
+  models: ModelConfigEntry[]
+}
+
+/**
+ * 설정 검증 결과
+ */
+export interface ModelRegistryConfigResult {
+  valid: boolean
+  /** 병합이 끝난 모델 메타데이터 (valid일 때만) */
+  models: AIModelMetadata[]
+  errors: string[]
+  /** 내장 모델 override 수 */
+  overrides: number
+  /** 새 모델 수 */
+  added: number
+}
+
+const MODEL_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:-]{0,63}$/
+
+const SCORE_FIELDS = [
+  "codeQuality",
+  "algorithmSolving",
+  "frameworkSpecialization",
+  "creativity",
+  "reasoning",
+] as const
+const FLAG_FIELDS = ["multimodal", "largeContext", "realtimeData"] as const
+const COST_LEVELS: AIModelMetadata["cost"]["level"][] = ["very-low", "low", "medium", "high", "premium"]
+const SPEEDS: AIModelMetadata["performance"]["speed"][] = ["very-fast", "fast", "medium", "slow"]
+
+const ENTRY_FIELDS = new Set([
+  "id",
+  "extends",
+  "name",
+  "provider",
+  "promptStrategy",
+  "tokenizer",
+  "providerModel",
+  "description",
+  "bestFor",
+  "limitations",
+  "capabilities",
+  "cost",
+  "performance",
+  "active",
+  "releaseDate",
+])
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string")
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0
+}
+
+/**
+ * 중첩 객체(capabilities/cost/performance) 필드 검증
+ */
+function validateNested(
+  value: unknown,
+  path: string,
+  checks: Record<string, [(v: unknown) => boolean, string]>
+): string[] {
+  if (!isRecord(value)) return [`${path}: must be an object`]
+
+  return Object.entries(value).flatMap(([key, fieldValue]) => {
+    const check = checks[key]
+    if (!check) return [`${path}.${key}: unknown field`]
+    const [isValid, expected] = check
+    return isValid(fieldValue) ? [] : [`${path}.${key}: must be ${expected}`]
+  })
+}
+
+/**
+ * 설정 항목 하나 검증 (필드 형식만, 병합 전)
+ */
+function validateEntry(entry: unknown, path: string): string[] {
+  if (!isRecord(entry)) return [`${path}: must be an object`]
+
+  const errors: string[] = []
+  const check = (field: string, isValid: (v: unknown) => boolean, expected: string) => {
+    if (entry[field] !== undefined && !isValid(entry[field])) {
+      errors.push(`${path}.${field}: must be ${expected}`)
+    }
+  }
+
+  Object.keys(entry)
+    .filter((key) => !ENTRY_FIELDS.has(key))
+    .forEach((key) => errors.push(`${path}.${key}: unknown field`))
+
+  if (typeof entry.id !== "string" || !MODEL_ID_PATTERN.test(entry.id)) {
+    errors.push(`${path}.id: must be 1-64 letters, digits, ".", "_", ":" or "-"`)
+  }
+
+  const isProvider = (v: unknown) => AI_PROVIDERS.includes(v as AIProvider)
+  check("extends", (v) => typeof v === "string", "a model ID")
+  check("name", (v) => typeof v === "string" && v.trim() !== "", "a non-empty string")
+  check("provider", isProvider, `one of: ${AI_PROVIDERS.join(", ")}`)
+  check("promptStrategy", isProvider, `one of: ${AI_PROVIDERS.join(", ")}`)
+  check("tokenizer", (v) => TOKENIZER_IDS.includes(v as TokenizerId), `one of: ${TOKENIZER_IDS.join(", ")}`)
+  check("providerModel", (v) => typeof v === "string" && v.trim() !== "", "a non-empty string")
+  check("description", (v) => typeof v === "string", "a string")
+  check("releaseDate", (v) => typeof v === "string", "a string")
+  check("bestFor", isStringArray, "an array of strings")
+  check("limitations", isStringArray, "an array of strings")
+  check("active", (v) => typeof v === "boolean", "a boolean")
+
+  if (entry.capabilities !== undefined) {
+    errors.push(
+      ...validateNested(entry.capabilities, `${path}.capabilities`, {
+        ...Object.fromEntries(
+          SCORE_FIELDS.map((field) => [
+            field,
+            [(v: unknown) => typeof v === "number" && v >= 1 && v <= 10, "a number between 1 and 10"],
+          ])
+        ),
+        ...Object.fromEntries(
+          FLAG_FIELDS.map((field) => [field, [(v: unknown) => typeof v === "boolean", "a boolean"]])
+        ),
+      })
+    )
+  }
+
+  if (entry.cost !== undefined) {
+    errors.push(
+      ...validateNested(entry.cost, `${path}.cost`, {
+        level: [(v) => COST_LEVELS.includes(v as never), `one of: ${COST_LEVELS.join(", ")}`],
+        inputCostPer1M: [isNonNegativeNumber, "a non-negative number"],
+        outputCostPer1M: [isNonNegativeNumber, "a non-negative number"],
+        description: [(v) => typeof v === "string", "a string"],
+      })
+    )
+  }
+
+  if (entry.performance !== undefined) {
+    errors.push(
+      ...validateNested(entry.performance, `${path}.performance`, {
+        avgResponseTime: [isNonNegativeNumber, "a non-negative number"],
+        speed: [(v) => SPEEDS.includes(v as never), `one of: ${SPEEDS.join(", ")}`],
+        contextWindow: [isPositiveInteger, "a positive integer"],
+        maxOutputTokens: [isPositiveInteger, "a positive integer"],
+      })
+    )
+  }
+
+  return errors
+}
+
+/**
+ * 기본 모델에 설정 항목 병합 (capabilities/cost/performance는 필드 단위)
+ */
+function mergeEntry(base: AIModelMetadata, entry: ModelConfigEntry): AIModelMetadata {
+  const { id, extends: _extends, capabilities, cost, performance, ...fields } = entry
+  return {
+    ...base,
+    ...fields,
+    id,
+    capabilities: { ...base.capabilities, ...capabilities },
+    cost: { ...base.cost, ...cost },
+    performance: { ...base.performance, ...performance },
+  }
+}
+
+/**
+ * 설정 검증 + 병합
+ *
+ * 항목 순서대로 처리하므로 extends는 내장 모델이나 앞서 정의한 모델을 가리킬 수 있음
+ */
+export function resolveModelRegistryConfig(config: unknown): ModelRegistryConfigResult {
+  const entries = Array.isArray(config) ? config : isRecord(config) ? config.models : undefined
+  const empty = { models: [], overrides: 0, added: 0 }
+
+  if (!Array.isArray(entries)) {
+    return { ...empty, valid: false, errors: ['Config must be { "models": [...] } or an array of models'] }
+  }
+
+  const errors = entries.flatMap((entry, index) => validateEntry(entry, `models[${index}]`))
+  if (errors.length > 0) {
+    return { ...empty, valid: false, errors }
+  }
+
+  const resolved = new Map<string, AIModelMetadata>()
+  ;(entries as ModelConfigEntry[]).forEach((entry, index) => {
+    const path = `models[${index}]`
+
+    if (resolved.has(entry.id)) {
+      errors.push(`${path}.id: "${entry.id}" is defined more than once`)
+      return
+    }
+
+    if (isBuiltInModelId(entry.id)) {
+      if (entry.extends !== undefined) {
+        errors.push(`${path}.extends: built-in model "${entry.id}" cannot extend another model`)
+        return
+      }
+      resolved.set(entry.id, mergeEntry(AI_MODEL_REGISTRY[entry.id], entry))
+      return
+    }
+
+    const baseId = entry.extends ?? "custom"
+    const base = resolved.get(baseId) ?? (isBuiltInModelId(baseId) ? AI_MODEL_REGISTRY[baseId] : null)
+    if (!base) {
+      errors.push(`${path}.extends: unknown model "${baseId}"`)
+      return
+    }
+    if (!entry.name || !entry.provider) {
+      errors.push(`${path}: new model "${entry.id}" needs "name" and "provider"`)
+      return
+    }
+
+    // 새 모델은 기본 모델의 설명/강점/API 모델 이름을 물려받지 않음 (다른 모델로 오해하거나 호출하지 않도록)
+    resolved.set(
+      entry.id,
+      mergeEntry(
+        { ...base, description: "", bestFor: [], limitations: [], releaseDate: undefined, providerModel: undefined },
+        entry
+      )
+    )
+  })
+
+  if (errors.length > 0) {
+    return { ...empty, valid: false, errors }
+  }
+
+  const models = Array.from(resolved.values())
+  const overrides = models.filter((model) => isBuiltInModelId(model.id)).length
+  return { valid: true, models, errors: [], overrides, added: models.length - overrides }
+}
+
+/**
+ * JSON 텍스트 파싱 + 검증 (빈 텍스트는 설정 없음)
+ */
+export function parseModelRegistryConfig(text: string): ModelRegistryConfigResult {
+  if (!text.trim()) {
+    return { valid: true, models: [], errors: [], overrides: 0, added: 0 }
+  }
+
+  try {
+    return resolveModelRegistryConfig(JSON.parse(text))
+  } catch (error) {
+    return {
+      valid: false,
+      models: [],
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`],
+      overrides: 0,
+      added: 0,
+    }
+  }
+}
+
+/**
+ * 설정을 runtime registry에 적용 (유효하지 않으면 기존 registry 유지)
+ */
+export function applyModelRegistryConfig(text: string): ModelRegistryConfigResult {
+  const result = parseModelRegistryConfig(text)
+  if (result.valid) {
+    setRuntimeModels(result.models)
+  }
+  return result
+}
+
+/**
+ * 모델이 runtime registry에서 정의/변경되었는지
+ */
+export function isConfiguredModel(modelId: string): boolean {
+  const metadata = getModelMetadata(modelId)
+  return metadata !== null && (!isBuiltInModelId(modelId) || metadata !== AI_MODEL_REGISTRY[modelId])
+}
@@ -0,0 +1,256 @@
+/**
+ * Next.js Project Skeleton
+ *
+ * exportToFiles 결과(components, app/page.tsx)를 바로 실행 가능한 Next.js App Router 프로젝트로 감싸는 설정 파일 생성
+ * - package.json, tsconfig.json, next.config.ts, app/layout.tsx, app/globals.css
+ * - tailwind: tailwind.config.ts (schema breakpoint → custom screens) + postcss.config.mjs
+ *
+ * `npm install && npm run dev`로 바로 실행 가능
+ */
+
+import type { Breakpoint, GenerationPackage } from "@/types/schema"
+import type { ExportedFile } from "./file-exporter"
+
+export interface NextProjectOptions {
+  /** package.json name 및 page title (기본: "vlb-layout") */
+  projectName?: string
+}
+
+/**
+ * 생성 프로젝트 dependency 버전 (Visual Layout Builder 자체 버전과 맞춤)
+ */
+const NEXT_PROJECT_VERSIONS = {
+  next: "^15.5.7",
+  react: "^19.0.0",
+  "react-dom": "^19.0.0",
+  typescript: "^5.6.3",
+  "@types/node": "^22.9.0",
+  "@types/react": "^19.0.1",
+  "@types/react-dom": "^19.0.1",
+  tailwindcss: "^3.4.14",
+  postcss: "^8.4.49",
+  autoprefixer: "^10.4.20",
+  "styled-components": "^6.1.13",
+  "@emotion/react": "^11.13.3",
+  "@emotion/styled": "^11.13.0",
+} as const
+
+type CSSSolution = GenerationPackage["options"]["cssSolution"]
+
+/**
+ * npm package name으로 변환
+ *
+ * @example
+ * "My Landing Page" → "my-landing-page"
+ */
+export function toPackageName(projectName: string): string {
+  const name = projectName
+    .toLowerCase()
+    .replace(/[^a-z0-9-~]+/g, "-")
+    .replace(/^[-~]+|-+$/g, "")
+  return name || "vlb-layout"
+}
+
+/**
+ * package.json 생성 (CSS solution별 dependency 포함)
+ */
+export function generatePackageJson(projectName: string, cssSolution: CSSSolution): string {
+  const pick = <K extends keyof typeof NEXT_PROJECT_VERSIONS>(names: K[]) =>
+    Object.fromEntries(names.map((name) => [name, NEXT_PROJECT_VERSIONS[name]]))
+
+  const styleDependencies: Record<CSSSolution, Array<keyof typeof NEXT_PROJECT_VERSIONS>> = {
+    tailwind: [],
+    "css-modules": [],
+    "styled-components": ["styled-components"],
+    emotion: ["@emotion/react", "@emotion/styled"],
+  }
+
+  const packageJson = {
+    name: toPackageName(projectName),
+    version: "0.1.0",
+    private: true,
+    scripts: {
+      dev: "next dev",
+      build: "next build",
+      start: "next start",
+    },
+    dependencies: pick(["next", "react", "react-dom", ...styleDependencies[cssSolution]]),
+    devDependencies: pick([
+      "@types/node",
+      "@types/react",
+      "@types/react-dom",
+      ...(cssSolution === "tailwind"
+        ? (["autoprefixer", "postcss", "tailwindcss"] as const)
+        : []),
+      "typescript",
+    ]),
+  }
+
+  return JSON.stringify(packageJson, null, 2) + "\n"
+}
+
+/**
+ * tailwind.config.ts 생성
+ *
+ * schema breakpoint를 이름 그대로 custom screen으로 추가 (minWidth 0은 base라 제외)
+ * 기본 screen(md, lg)은 유지하므로 생성된 component class도 그대로 동작
+ *
+ * @example
+ * [{ name: "tablet", minWidth: 768 }, { name: "desktop", minWidth: 1024 }]
+ * → screens: { tablet: "768px", desktop: "1024px" }
+ */
+export function generateTailwindConfig(breakpoints: Breakpoint[]): string {
+  const screens = [...breakpoints]
+    .filter((breakpoint) => breakpoint.minWidth > 0)
+    .sort((a, b) => a.minWidth - b.minWidth)
+    .map((breakpoint) => {
+      const key = /^[A-Za-z_$][\w$]*$/.test(breakpoint.name)
+        ? breakpoint.name
+        : JSON.stringify(breakpoint.name)
+      return `        ${key}: "${breakpoint.minWidth}px",`
+    })
+
+  return `import type { Config } from "tailwindcss"
+
+const config: Config = {
+  content: ["./app/**/*.{ts,tsx}", "./components/**/*.{ts,tsx}"],
+  theme: {
+    extend: {
+      screens: {
+${screens.join("\n")}
+      },
+    },
+  },
+  plugins: [],
+}
+
+export default config
+`
+}
+
+/**
+ * next.config.ts 생성 (CSS-in-JS는 SWC compiler transform 활성화)
+ */
+function generateNextConfig(cssSolution: CSSSolution): string {
+  const compiler: Partial<Record<CSSSolution, string>> = {
+    "styled-components": "styledComponents",
+    emotion: "emotion",
+  }
+  const option = compiler[cssSolution]
+  const body = option ? `{\n  compiler: {\n    ${option}: true,\n  },\n}` : "{}"
+
+  return `import type { NextConfig } from "next"
+
+const nextConfig: NextConfig = ${body}
+
+export default nextConfig
+`
+}
+
+const TSCONFIG = {
+  compilerOptions: {
+    target: "ES2020",
+    lib: ["dom", "dom.iterable", "esnext"],
+    allowJs: true,
+    skipLibCheck: true,
+    strict: true,
+    noEmit: true,
+    esModuleInterop: true,
+    module: "esnext",
+    moduleResolution: "bundler",
+    resolveJsonModule: true,
+    isolatedModules: true,
+    jsx: "preserve",
+    incremental: true,
+    plugins: [{ name: "next" }],
+    paths: { "@/*": ["./*"] },
+  },
+  include: ["next-env.d.ts", "**/*.ts", "**/*.tsx", ".next/types/**/*.ts"],
+  exclude: ["node_modules"],
+}
+
+/**
+ * app/layout.tsx 생성
+ */
+function generateRootLayout(projectName: string): string {
+  return `import type { Metadata } from "next"
+import "./globals.css"
+
+export const metadata: Metadata = {
+  title: ${JSON.stringify(projectName)},
+}
+
+export default function RootLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode
+}>) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  )
+}
+`
+}
+
+/**
+ * app/globals.css 생성 (tailwind: directives, 그 외: 최소 reset)
+ */
+function generateGlobalsCSS(cssSolution: CSSSolution): string {
+  if (cssSolution === "tailwind") {
+    return `@tailwind base;\n@tailwind components;\n@tailwind utilities;\n`
+  }
+  return `*,
+*::before,
+*::after {
+  box-sizing: border-box;
+}
+
+body {
+  margin: 0;
+  font-family: system-ui, sans-serif;
+}
+`
+}
+
+/**
+ * Next.js 프로젝트 설정 파일 생성
+ *
+ * components / app/page.tsx / schema.json은 포함하지 않음 (exportToFiles 결과와 합쳐서 사용)
+ */
+export function generateNextProjectFiles(
+  pkg: GenerationPackage,
+  options: NextProjectOptions = {}
+): ExportedFile[] {
+  const { cssSolution } = pkg.options
+  const projectName = options.projectName?.trim() || "vlb-layout"
+
+  const files: ExportedFile[] = [
+    { path: "package.json", content: generatePackageJson(projectName, cssSolution) },
+    { path: "tsconfig.json", content: JSON.stringify(TSCONFIG, null, 2) + "\n" },
+    {
+      path: "next-env.d.ts",
+      content: `/// <reference types="next" />\n/// <reference types="next/image-types/global" />\n`,
+    },
+    { path: "next.config.ts", content: generateNextConfig(cssSolution) },
+    { path: ".gitignore", content: `node_modules\n.next\nout\n*.tsbuildinfo\n` },
+  ]
+
+  if (cssSolution === "tailwind") {
+    files.push(
+      { path: "tailwind.config.ts", content: generateTailwindConfig(pkg.schema.breakpoints) },
+      {
+        path: "postcss.config.mjs",
+        content: `const config = {\n  plugins: {\n    tailwindcss: {},\n    autoprefixer: {},\n  },\n}\n\nexport default config\n`,
+      }
+    )
+  }
+
+  files.push(
+    { path: "app/layout.tsx", content: generateRootLayout(projectName) },
+    { path: "app/globals.css", content: generateGlobalsCSS(cssSolution) }
+  )
+
+  return files
+}
@@ -0,0 +1,182 @@
+/**
+ * Prompt Budget - 컨텍스트 예산에 맞춘 프롬프트 섹션 조립
+ *
+ * 예산을 넘으면 우선순위가 낮은 섹션부터:
+ * 1. 상세 수준을 한 단계씩 낮춤 (detailed → normal → minimal)
+ * 2. 최소 수준에서도 넘으면 선택(required: false) 섹션 제외
+ *
+ * 필수 섹션은 제외하지 않으므로, 최소 수준으로도 넘으면 fits: false로 그대로 반환
+ */
+
+import type {
+  AIModelMetadata,
+  PromptCompaction,
+  PromptSection,
+  PromptVerbosity,
+} from "@/types/ai-models"
+
+/**
+ * 상세 수준 (높음 → 낮음)
+ */
+export const VERBOSITY_LEVELS: PromptVerbosity[] = ["detailed", "normal", "minimal"]
+
+/**
+ * 섹션 구분자
+ */
+export const PROMPT_SECTION_SEPARATOR = "\n---\n\n"
+
+/** maxOutputTokens가 없는 모델의 출력 토큰 예약 */
+const DEFAULT_OUTPUT_RESERVE = 4096
+
+/**
+ * 상세 수준별로 내용을 만드는 섹션
+ */
+export interface PromptSectionBuilder {
+  title: string
+  priority: number
+  required: boolean
+  /** 해당 상세 수준의 내용 (undefined면 전략의 기본 수준, null이면 그 수준에서는 섹션 없음) */
+  build: (verbosity: PromptVerbosity | undefined) => string | null
+}
+
+export interface CompactPromptOptions {
+  /** 요청한 상세 수준 (압축 시작점, 없으면 각 섹션의 기본 수준에서 시작) */
+  verbosity?: PromptVerbosity
+  /** 입력 토큰 예산 */
+  budget: number
+  /** 토큰 수 계산 (모델 계열 토크나이저) */
+  countTokens: (text: string) => number
+}
+
+export interface CompactPromptResult {
+  /** 포함된 섹션 (우선순위 내림차순) */
+  sections: PromptSection[]
+  /** 최종 프롬프트 */
+  prompt: string
+  compaction: PromptCompaction
+}
+
+/**
+ * 모델의 입력 토큰 예산
+ *
+ * 출력 토큰(maxOutputTokens)을 예약하되 컨텍스트의 절반을 넘지 않게
+ */
+export function getPromptTokenBudget(metadata: AIModelMetadata, tokenBudget?: number): number {
+  if (tokenBudget !== undefined) return tokenBudget
+
+  const { contextWindow, maxOutputTokens } = metadata.performance
+  return contextWindow - Math.min(maxOutputTokens ?? DEFAULT_OUTPUT_RESERVE, Math.floor(contextWindow / 2))
+}
+
+/**
+ * 예산에 맞춰 섹션 조립
+ */
+export function compactPromptSections(
+  builders: PromptSectionBuilder[],
+  { verbosity, budget, countTokens }: CompactPromptOptions
+): CompactPromptResult {
+  const separatorTokens = countTokens(PROMPT_SECTION_SEPARATOR)
+  // -1: 수준을 지정하지 않음 (예산을 넘을 때만 detailed → normal → minimal 순으로 지정)
+  const startLevel = verbosity ? VERBOSITY_LEVELS.indexOf(verbosity) : -1
+  const levelOf = (level: number) => (level < 0 ? undefined : VERBOSITY_LEVELS[level])
+
+  const states = [...builders]
+    .sort((a, b) => b.priority - a.priority)
+    .map((builder) => ({
+      builder,
+      level: startLevel,
+      dropped: false,
+      rendered: new Map<number, { content: string | null; tokens: number }>(),
+    }))
+  type SectionState = (typeof states)[number]
+
+  // 수준별 내용/토큰 수는 한 번만 계산
+  const render = (state: SectionState) => {
+    let rendered = state.rendered.get(state.level)
+    if (!rendered) {
+      const content = state.builder.build(levelOf(state.level))
+      rendered = { content, tokens: content ? countTokens(content) : 0 }
+      state.rendered.set(state.level, rendered)
+    }
+    return rendered
+  }
+  const included = () => states.filter((state) => !state.dropped && render(state).content !== null)
+  const totalTokens = () => {
+    const sections = included()
+    const sectionTokens = sections.reduce((sum, state) => sum + render(state).tokens, 0)
+    return sectionTokens + separatorTokens * Math.max(sections.length - 1, 0)
+  }
+
+  const originalContent = new Map(states.map((state) => [state, render(state).content]))
+  const originalTokens = totalTokens()
+
+  // 우선순위가 낮은 섹션부터 줄임
+  for (const state of [...states].reverse()) {
+    if (totalTokens() <= budget) break
+
+    while (totalTokens() > budget && state.level < VERBOSITY_LEVELS.length - 1) {
+      state.level++
+    }
+    if (totalTokens() > budget && !state.builder.required && render(state).content !== null) {
+      state.dropped = true
+    }
+  }
+
+  const degraded: PromptCompaction["degraded"] = []
+  const dropped: string[] = []
+  states.forEach((state) => {
+    const original = originalContent.get(state)
+    if (original === null || original === undefined) return
+
+    const { content } = render(state)
+    if (state.dropped || content === null) {
+      dropped.push(state.builder.title)
+    } else if (content !== original) {
+      degraded.push({
+        title: state.builder.title,
+        from: verbosity,
+        to: VERBOSITY_LEVELS[state.level],
+      })
+    }
+  })
+
+  const tokens = totalTokens()
+  const sections = included().map((state) => ({
+    title: state.builder.title,
+    content: render(state).content!,
+    priority: state.builder.priority,
+    required: state.builder.required,
+    verbosity: levelOf(state.level),
+  }))
+
+  return {
+    sections,
+    prompt: sections.map((section) => section.content).join(PROMPT_SECTION_SEPARATOR),
+    compaction: { budget, originalTokens, tokens, fits: tokens <= budget, degraded, dropped },
+  }
+}
+
+/**
+ * 압축 결과 설명 (warnings용, 줄인 게 없으면 빈 배열)
+ */
+export function describePromptCompaction(compaction: PromptCompaction): string[] {
+  const messages: string[] = []
+
+  if (compaction.dropped.length > 0 || compaction.degraded.length > 0) {
+    const changes = [
+      ...compaction.dropped.map((title) => `dropped ${title}`),
+      ...compaction.degraded.map(({ title, to }) => `${title} → ${to}`),
+    ]
+    messages.push(
+      `Prompt compacted from ${compaction.originalTokens} to ${compaction.tokens} tokens ` +
+        `for the ${compaction.budget}-token budget: ${changes.join(", ")}`
+    )
+  }
+  if (!compaction.fits) {
+    messages.push(
+      `Prompt (${compaction.tokens} tokens) exceeds the ${compaction.budget}-token budget even with minimal detail`
+    )
+  }
+
+  return messages
+}
@@ -6,10 +6,13 @@
  */
 
 import type { LaydlerSchema } from "@/types/schema"
+import type { TokenizerId } from "@/types/ai-models"
 import { getTemplate } from "./prompt-templates"
 import { validateSchema } from "./schema-validation"
 import { normalizeSchema } from "./schema-utils"
+import { getInheritanceMode, resolveInheritance } from "./breakpoint-inheritance"
 import { calculateLinkGroups, validateComponentLinks } from "./graph-utils"
+import { getTokenizer } from "./tokenizers"
 
 /**
  * Prompt Generation Result for Schema
@@ -49,11 +52,13 @@ export function generatePrompt(
   cssSolution: string,
   componentLinks?: Array<{ source: string; target: string }>
 ): GenerationResult {
-  // 0. Normalize schema with breakpoint inheritance (Mobile → Tablet → Desktop)
+  // 0. Normalize schema + breakpoint 상속 해석 (상속 모드가 아니면 그대로)
+  // JSON에는 명시적인 override만 있는 normalizedSchema를 그대로 포함
   const normalizedSchema = normalizeSchema(schema)
+  const resolvedSchema = resolveInheritance(normalizedSchema)
 
   // 1. Validate schema using validation
-  const validationResult = validateSchema(normalizedSchema)
+  const validationResult = validateSchema(resolvedSchema)
 
   if (!validationResult.valid) {
     return {
@@ -86,11 +91,15 @@ export function generatePrompt(
   sections.push("\n---\n")
 
   // Components section - positioning, layout, styling, responsive 포함
-  sections.push(template.componentSection(normalizedSchema.components))
+  sections.push(template.componentSection(resolvedSchema.components))
   sections.push("---\n")
 
   // Layouts section - structure 기반 + Canvas Grid 정보 (2025 개선)
-  sections.push(template.layoutSection(normalizedSchema.components, normalizedSchema.breakpoints, normalizedSchema.layouts))
+  sections.push(
+    template.layoutSection(resolvedSchema.components, resolvedSchema.breakpoints, resolvedSchema.layouts, {
+      inheritance: getInheritanceMode(normalizedSchema),
+    })
+  )
   sections.push("---\n")
 
   // Component Links section - cross-breakpoint relationships (2025 개선)
@@ -264,10 +273,14 @@ export function generateSchemaSummary(schema: LaydlerSchema): string {
  * V2는 positioning/layout/styling/responsive 정보가 추가되어
  * V1보다 평균적으로 30-50% 더 긴 프롬프트 생성
  *
- * Rough estimate: 1 token ≈ 4 characters
+ * 기본: 1 token ≈ 4 characters (vocab 로드 여부와 무관하게 항상 같은 값)
+ * tokenizerId를 지정하면 해당 토크나이저로 계산 (vocab이 로드되지 않았으면 문자 수 추정, loadTokenizer 참고)
+ *
+ * @param tokenizerId - 토크나이저 (opt-in)
  */
-export function estimateTokenCount(prompt: string): number {
-  return Math.ceil(prompt.length / 4)
+export function estimateTokenCount(prompt: string, tokenizerId?: TokenizerId): number {
+  if (!tokenizerId) return Math.ceil(prompt.length / 4)
+  return getTokenizer(tokenizerId).countTokens(prompt)
 }
 
 /**
@@ -16,15 +16,32 @@ import type {
   IPromptStrategy,
   PromptGenerationOptions,
   PromptStrategyResult,
-  PromptSection,
+  PromptVerbosity,
 } from "@/types/ai-models"
-import type { LaydlerSchema, Component, Breakpoint } from "@/types/schema"
+import type { LaydlerSchema, Component, Breakpoint, BreakpointInheritanceMode } from "@/types/schema"
 import { getModelMetadata } from "@/lib/ai-model-registry"
 import { validateSchema } from "@/lib/schema-validation"
 import { normalizeSchema } from "@/lib/schema-utils"
+import {
+  describeBreakpointChanges,
+  getBreakpointChanges,
+  getInheritanceMode,
+  hasBreakpointChanges,
+  resolveInheritance,
+} from "@/lib/breakpoint-inheritance"
 import { describeVisualLayout } from "@/lib/visual-layout-descriptor"
+import { getChildComponents, getRootComponents } from "@/lib/component-tree"
 import { generateGridCSS, generateTailwindClasses } from "@/lib/canvas-to-grid"
 import { calculateLinkGroups, validateComponentLinks, type ComponentLink } from "@/lib/graph-utils"
+import { countPromptTokens, getModelTokenizerId, getTokenizer } from "@/lib/tokenizers"
+import {
+  compactPromptSections,
+  describePromptCompaction,
+  getPromptTokenBudget,
+  type PromptSectionBuilder,
+} from "@/lib/prompt-budget"
+import { getFrameworkGuide, isGuideFramework, type FrameworkGuide } from "./framework-guide"
+import { getStylingGuide, isGuideCSSSolution, type StylingGuide } from "./styling-guide"
 
 /**
  * Base Prompt Strategy
@@ -51,6 +68,45 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
    */
   abstract generateSystemPrompt(framework: string, cssSolution: string): string
 
+  /**
+   * 프롬프트에 표시할 프레임워크 이름
+   *
+   * @example
+   * getFrameworkDisplayName("solid") // "SolidJS"
+   */
+  protected getFrameworkDisplayName(framework: string): string {
+    const names: Record<string, string> = {
+      react: "React",
+      vue: "Vue",
+      svelte: "Svelte",
+      solid: "SolidJS",
+    }
+    return names[framework] || framework
+  }
+
+  /**
+   * 섹션 옵션의 프레임워크 지침 (예시 문법, 구현 지침)
+   */
+  protected getFrameworkGuide(options?: PromptGenerationOptions): FrameworkGuide {
+    return getFrameworkGuide(options?.framework)
+  }
+
+  /**
+   * 섹션 옵션의 스타일링 지침 (CSS solution별 예시, 구현 지침)
+   */
+  protected getStylingGuide(options?: PromptGenerationOptions): StylingGuide {
+    return getStylingGuide(options?.cssSolution)
+  }
+
+  /**
+   * Tailwind가 아닌 CSS solution의 구현 지침 (제목별 목록)
+   */
+  protected formatStylingGuidelines(styling: StylingGuide): string {
+    return Object.entries(styling.guidelines)
+      .map(([title, items]) => `### ${title}\n\n` + items.map((item) => `- ${item}\n`).join("") + "\n")
+      .join("")
+  }
+
   /**
    * 컴포넌트 섹션 생성 (기본 구현)
    *
@@ -69,7 +125,7 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
       section += `You need to create ${components.length} components:\n\n`
 
       components.forEach((comp, index) => {
-        section += this.formatComponent(comp, index, verbosity, options)
+        section += this.formatComponent(comp, index, verbosity, options, components)
       })
     }
 
@@ -80,16 +136,21 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
    * 단일 컴포넌트 포맷팅 (공통 로직)
    *
    * 하위 클래스에서 override 가능
+   *
+   * @param components - 전체 컴포넌트 (부모/자식 중첩 정보 표시용)
    */
   protected formatComponent(
     comp: Component,
     index: number,
     verbosity: "minimal" | "normal" | "detailed",
-    options?: PromptGenerationOptions
+    options?: PromptGenerationOptions,
+    components: Component[] = []
   ): string {
     let text = `### ${index + 1}. ${comp.name} (${comp.id})\n`
     text += `- **Semantic Tag:** \`<${comp.semanticTag}>\`\n`
-    text += `- **Component Name:** \`${comp.name}\`\n\n`
+    text += `- **Component Name:** \`${comp.name}\`\n`
+    text += this.formatNesting(comp, components)
+    text += "\n"
 
     // Positioning
     text += `**Positioning:**\n`
@@ -141,6 +202,9 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
 
     // Responsive (if present and not minimal)
     if (comp.responsive && verbosity !== "minimal") {
+      const { utilityClasses } = this.getStylingGuide(options)
+      const tabletPrefix = utilityClasses ? " (md:)" : ""
+      const desktopPrefix = utilityClasses ? " (lg:)" : ""
       text += `**Responsive Behavior:**\n`
       if (comp.responsive.mobile) {
         const behaviors: string[] = []
@@ -157,7 +221,7 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
         if (comp.responsive.tablet.width) behaviors.push(`width: ${comp.responsive.tablet.width}`)
         if (comp.responsive.tablet.order !== undefined)
           behaviors.push(`order: ${comp.responsive.tablet.order}`)
-        if (behaviors.length > 0) text += `- Tablet (md:): ${behaviors.join(", ")}\n`
+        if (behaviors.length > 0) text += `- Tablet${tabletPrefix}: ${behaviors.join(", ")}\n`
       }
       if (comp.responsive.desktop) {
         const behaviors: string[] = []
@@ -166,7 +230,7 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
         if (comp.responsive.desktop.width) behaviors.push(`width: ${comp.responsive.desktop.width}`)
         if (comp.responsive.desktop.order !== undefined)
           behaviors.push(`order: ${comp.responsive.desktop.order}`)
-        if (behaviors.length > 0) text += `- Desktop (lg:): ${behaviors.join(", ")}\n`
+        if (behaviors.length > 0) text += `- Desktop${desktopPrefix}: ${behaviors.join(", ")}\n`
       }
       text += "\n"
     }
@@ -174,6 +238,22 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
     return text
   }
 
+  /**
+   * 부모/자식 중첩 정보 (중첩이 없으면 빈 문자열)
+   */
+  protected formatNesting(comp: Component, components: Component[]): string {
+    let text = ""
+    const parent = comp.parentId ? components.find((c) => c.id === comp.parentId) : undefined
+    if (parent) {
+      text += `- **Parent:** \`${parent.name}\` (${parent.id}) - render inside the parent component, not in the page layout\n`
+    }
+    const children = getChildComponents(components, comp.id)
+    if (children.length > 0) {
+      text += `- **Children:** ${children.map((c) => `\`${c.name}\``).join(", ")} - import and render in this order inside \`<${comp.semanticTag}>\`, before \`children\`\n`
+    }
+    return text
+  }
+
   /**
    * 레이아웃 섹션 생성 (기본 구현)
    *
@@ -183,21 +263,28 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
    * - Spatial Relationships 설명
    * - Implementation Strategy 제공
    *
+   * Breakpoint 상속 모드에서는 상속 대상과 같은 breakpoint는 한 줄로, 나머지는 차이 목록 포함
+   *
    * 모델별 최적화 필요 시 override
    */
   generateLayoutSection(
     components: Component[],
     breakpoints: Breakpoint[],
     layouts: LaydlerSchema["layouts"],
-    options?: PromptGenerationOptions
+    options?: PromptGenerationOptions,
+    inheritance: BreakpointInheritanceMode = "none"
   ): string {
     const verbosity = options?.verbosity || "normal"
+    const { utilityClasses } = this.getStylingGuide(options)
     let section = `## Responsive Page Structure\n\n`
 
     if (verbosity === "minimal") {
       section += `${breakpoints.length} breakpoints defined\n`
     } else {
       section += `Implement the following page structures for each breakpoint:\n\n`
+      if (inheritance !== "none") {
+        section += `**Breakpoint Inheritance (${inheritance}):** Breakpoints marked "same as" need no breakpoint-specific layout styles. For the others, only the listed changes differ from the breakpoint they inherit from.\n\n`
+      }
 
       breakpoints.forEach((breakpoint, index) => {
         const layoutKey = breakpoint.name as "mobile" | "tablet" | "desktop"
@@ -206,13 +293,35 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
 
         section += `### ${index + 1}. ${breakpoint.name.charAt(0).toUpperCase() + breakpoint.name.slice(1)} (≥${breakpoint.minWidth}px)\n\n`
 
+        // Breakpoint 상속: 실제 차이만 설명
+        const changes =
+          inheritance !== "none"
+            ? getBreakpointChanges(
+                { schemaVersion: "2.0", components, breakpoints, layouts, breakpointInheritance: inheritance },
+                layoutKey
+              )
+            : null
+        if (changes && !hasBreakpointChanges(changes)) {
+          section += `Same as ${changes.baseBreakpoint} (inherited) - no ${layoutKey}-specific layout styles needed.\n\n`
+          return
+        }
+        if (changes) {
+          section += `**Changes from ${changes.baseBreakpoint}:**\n\n`
+          describeBreakpointChanges(changes, components).forEach((line) => {
+            section += `- ${line}\n`
+          })
+          section += "\n"
+        }
+
         // 🆕 VISUAL LAYOUT DESCRIPTION (Canvas Grid 정보)
         try {
+          // 중첩 컴포넌트는 부모 안에서 렌더링되므로 페이지 grid에는 최상위만
           const layoutDesc = describeVisualLayout(
-            components,
+            getRootComponents(components),
             layoutKey,
             breakpoint.gridCols,
-            breakpoint.gridRows
+            breakpoint.gridRows,
+            utilityClasses
           )
 
           section += `**Visual Layout (Canvas Grid):**\n\n`
@@ -235,7 +344,6 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
 
           // 🆕 CSS GRID POSITIONING (2025 pattern)
           const gridCSS = generateGridCSS(layoutDesc.visualLayout)
-          const tailwindClasses = generateTailwindClasses(layoutDesc.visualLayout)
 
           section += `**CSS Grid Positioning:**\n\n`
           section += `For precise 2D positioning, use CSS Grid:\n\n`
@@ -243,14 +351,18 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
           section += gridCSS
           section += `\`\`\`\n\n`
 
-          section += `Or with Tailwind CSS:\n\n`
-          section += `Container: \`${tailwindClasses.container}\`\n\n`
-          section += `Components:\n`
-          Object.entries(tailwindClasses.components).forEach(([id, classes]) => {
-            const comp = components.find((c) => c.id === id)
-            section += `- **${comp?.name} (${id})**: \`${classes}\`\n`
-          })
-          section += "\n"
+          if (utilityClasses) {
+            const tailwindClasses = generateTailwindClasses(layoutDesc.visualLayout)
+
+            section += `Or with Tailwind CSS:\n\n`
+            section += `Container: \`${tailwindClasses.container}\`\n\n`
+            section += `Components:\n`
+            Object.entries(tailwindClasses.components).forEach(([id, classes]) => {
+              const comp = components.find((c) => c.id === id)
+              section += `- **${comp?.name} (${id})**: \`${classes}\`\n`
+            })
+            section += "\n"
+          }
 
           // 🆕 IMPLEMENTATION STRATEGY (강화)
           section += `**Implementation Strategy:**\n\n`
@@ -313,6 +425,8 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
    */
   generateInstructionsSection(options?: PromptGenerationOptions): string {
     const verbosity = options?.verbosity || "normal"
+    const guide = this.getFrameworkGuide(options)
+    const styling = this.getStylingGuide(options)
 
     if (verbosity === "minimal") {
       return `## Instructions\n\nImplement components with specified positioning, layout, and styling. Use mobile-first responsive design.\n`
@@ -322,16 +436,16 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
       `## Implementation Instructions\n\n` +
       `1. **Main Layout Component:**\n` +
       `   - Create a main container component\n` +
-      `   - Implement responsive structure changes using Tailwind breakpoints\n\n` +
+      `   - Implement responsive structure changes using ${styling.utilityClasses ? "Tailwind breakpoints" : "`min-width` media queries"}\n\n` +
       `2. **Component Implementation:**\n` +
       `   - Use specified semantic tags\n` +
-      `   - Apply positioning classes\n` +
+      `   - Apply positioning ${styling.utilityClasses ? "classes" : "declarations"}\n` +
       `   - Implement layout (flex/grid/container)\n` +
-      `   - Add styling classes\n` +
+      `   - Add styling ${styling.utilityClasses ? "classes" : `with ${styling.stylingStyle}`}\n` +
       `   - Implement responsive behavior\n\n` +
       `3. **Code Quality:**\n` +
       `   - Use TypeScript with proper types\n` +
-      `   - Follow React best practices\n` +
+      guide.bestPractices.map((practice) => `   - ${practice}\n`).join("") +
       `   - Use semantic HTML5 tags\n` +
       `   - Keep code clean and maintainable\n`
     )
@@ -383,11 +497,12 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
     options?: PromptGenerationOptions
   ): PromptStrategyResult {
     try {
-      // 1. Normalize schema
+      // 1. Normalize schema + breakpoint 상속 해석 (JSON에는 명시적인 override만 포함)
       const normalizedSchema = normalizeSchema(schema)
+      const resolvedSchema = resolveInheritance(normalizedSchema)
 
       // 2. Validate schema
-      const validationResult = validateSchema(normalizedSchema)
+      const validationResult = validateSchema(resolvedSchema)
       if (!validationResult.valid) {
         return {
           success: false,
@@ -401,14 +516,22 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
         }
       }
 
-      // 3. Generate sections
-      const sections: PromptSection[] = []
+      // 3. Generate sections (상세 수준별로 만들 수 있게 builder로)
+      const sections: PromptSectionBuilder[] = []
       const linkWarnings: string[] = []
+      const withVerbosity = (verbosity: PromptVerbosity | undefined): PromptGenerationOptions => ({
+        targetModel: this.modelId,
+        ...options,
+        framework: isGuideFramework(framework) ? framework : undefined,
+        cssSolution: isGuideCSSSolution(cssSolution) ? cssSolution : undefined,
+        verbosity,
+      })
 
-      // System prompt
+      // System prompt (상세 수준과 무관)
+      const systemPrompt = this.generateSystemPrompt(framework, cssSolution)
       sections.push({
         title: "System Prompt",
-        content: this.generateSystemPrompt(framework, cssSolution),
+        build: () => systemPrompt,
         priority: 100,
         required: true,
       })
@@ -416,7 +539,7 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
       // Components section
       sections.push({
         title: "Components",
-        content: this.generateComponentSection(normalizedSchema.components, options),
+        build: (verbosity) => this.generateComponentSection(resolvedSchema.components, withVerbosity(verbosity)),
         priority: 90,
         required: true,
       })
@@ -424,12 +547,14 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
       // Layout section
       sections.push({
         title: "Layouts",
-        content: this.generateLayoutSection(
-          normalizedSchema.components,
-          normalizedSchema.breakpoints,
-          normalizedSchema.layouts,
-          options
-        ),
+        build: (verbosity) =>
+          this.generateLayoutSection(
+            resolvedSchema.components,
+            resolvedSchema.breakpoints,
+            resolvedSchema.layouts,
+            withVerbosity(verbosity),
+            getInheritanceMode(normalizedSchema)
+          ),
         priority: 80,
         required: true,
       })
@@ -456,11 +581,12 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
             // Generate section with only valid links
             sections.push({
               title: "Component Links",
-              content: this.generateComponentLinksSection(
-                normalizedSchema.components,
-                validLinks,
-                options
-              ),
+              build: (verbosity) =>
+                this.generateComponentLinksSection(
+                  normalizedSchema.components,
+                  validLinks,
+                  withVerbosity(verbosity)
+                ),
               priority: 75,
               required: false,
             })
@@ -468,13 +594,15 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
           // If no valid links, skip section entirely
         } else {
           // All links are valid
+          const componentLinks = options.componentLinks
           sections.push({
             title: "Component Links",
-            content: this.generateComponentLinksSection(
-              normalizedSchema.components,
-              options.componentLinks,
-              options
-            ),
+            build: (verbosity) =>
+              this.generateComponentLinksSection(
+                normalizedSchema.components,
+                componentLinks,
+                withVerbosity(verbosity)
+              ),
             priority: 75,
             required: false,
           })
@@ -484,38 +612,45 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
       // Instructions section
       sections.push({
         title: "Instructions",
-        content: this.generateInstructionsSection(options),
+        build: (verbosity) => this.generateInstructionsSection(withVerbosity(verbosity)),
         priority: 70,
         required: true,
       })
 
-      // Schema JSON (optional)
-      if (options?.verbosity !== "minimal") {
-        sections.push({
-          title: "Full Schema",
-          content:
-            `## Full Schema (JSON)\n\n` +
-            `For reference, here is the complete Schema:\n\n` +
-            `\`\`\`json\n${JSON.stringify(normalizedSchema, null, 2)}\n\`\`\`\n`,
-          priority: 50,
-          required: false,
-        })
-      }
+      // Schema JSON (optional, minimal에서는 제외)
+      const schemaJson = JSON.stringify(normalizedSchema, null, 2)
+      sections.push({
+        title: "Full Schema",
+        build: (verbosity) =>
+          verbosity === "minimal"
+            ? null
+            : `## Full Schema (JSON)\n\n` +
+              `For reference, here is the complete Schema:\n\n` +
+              `\`\`\`json\n${schemaJson}\n\`\`\`\n`,
+        priority: 50,
+        required: false,
+      })
 
-      // 4. Combine sections
-      const prompt = sections
-        .sort((a, b) => b.priority - a.priority)
-        .map((s) => s.content)
-        .join("\n---\n\n")
+      // 4. Combine sections (컨텍스트 예산을 넘으면 낮은 우선순위부터 줄이거나 제외)
+      //    verbosity를 지정하지 않으면 예산 안에서는 각 전략의 기본 수준 그대로
+      const tokenizer = getTokenizer(getModelTokenizerId(this.metadata))
+      const { prompt, sections: includedSections, compaction } = compactPromptSections(sections, {
+        verbosity: options?.verbosity,
+        budget: getPromptTokenBudget(this.metadata, options?.tokenBudget),
+        countTokens: (text) => tokenizer.countTokens(text),
+      })
+      const compacted = compaction.degraded.length > 0 || compaction.dropped.length > 0
 
-      // 5. Estimate tokens (improved accuracy)
-      const estimatedTokens = this.estimateTokens(prompt)
+      // 5. Count tokens (모델 계열 토크나이저, System Prompt는 항상 맨 앞)
+      const tokenUsage = countPromptTokens(this.metadata, systemPrompt, prompt.slice(systemPrompt.length))
 
       return {
         success: true,
         prompt,
-        sections,
-        estimatedTokens,
+        sections: includedSections,
+        estimatedTokens: tokenUsage.total,
+        tokenUsage,
+        compaction: compacted || !compaction.fits ? compaction : undefined,
         modelId: this.modelId,
         optimizationUsed: options,
         warnings: [
@@ -526,6 +661,7 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
             return `${location}: ${w.message}`
           }),
           ...linkWarnings, // Include component link validation warnings
+          ...describePromptCompaction(compaction),
         ],
       }
     } catch (error) {
@@ -536,51 +672,4 @@ export abstract class BasePromptStrategy implements IPromptStrategy {
       }
     }
   }
-
-  /**
-   * 토큰 수 추정 (개선된 정확도)
-   *
-   * 영어/코드와 한글/CJK를 구분하여 더 정확한 추정
-   *
-   * Rules:
-   * - 영어/숫자/기호: 1 token ≈ 4 characters
-   * - 한글/CJK: 1 token ≈ 2 characters (multibyte)
-   * - 공백/줄바꿈: 별도 처리
-   * - 코드 블록: 더 정확한 카운팅
-   *
-   * @param text - 프롬프트 텍스트
-   * @returns 예상 토큰 수
-   */
-  protected estimateTokens(text: string): number {
-    // 1. 코드 블록 추출 및 별도 처리
-    const codeBlocks: string[] = []
-    let textWithoutCode = text.replace(/```[\s\S]*?```/g, (match) => {
-      codeBlocks.push(match)
-      return "" // 임시 제거
-    })
-
-    // 2. 한글/CJK 문자 카운트 (multibyte characters)
-    const cjkRegex = /[\u3131-\uD79D\u4e00-\u9fff\u3040-\u309f\u30a0-\u30ff]/g
-    const cjkMatches = textWithoutCode.match(cjkRegex) || []
-    const cjkCount = cjkMatches.length
-
-    // CJK 제거한 나머지 텍스트
-    const textWithoutCJK = textWithoutCode.replace(cjkRegex, "")
-
-    // 3. 영어/숫자/기호 카운트
-    const latinCount = textWithoutCJK.length
-
-    // 4. 코드 블록 토큰 추정 (코드는 더 압축적)
-    let codeTokens = 0
-    codeBlocks.forEach((block) => {
-      // 코드는 1 token ≈ 3.5 characters (더 압축적)
-      codeTokens += Math.ceil(block.length / 3.5)
-    })
-
-    // 5. 최종 토큰 계산
-    const latinTokens = Math.ceil(latinCount / 4) // 영어: 1 token ≈ 4 chars
-    const cjkTokens = Math.ceil(cjkCount / 2) // 한글/CJK: 1 token ≈ 2 chars
-
-    return latinTokens + cjkTokens + codeTokens
-  }
 }
@@ -27,6 +27,7 @@
  */
 
 import { BasePromptStrategy } from "./base-strategy"
+import { getStylingGuide } from "./styling-guide"
 import type { AIModelId, PromptGenerationOptions } from "@/types/ai-models"
 import type { Component } from "@/types/schema"
 
@@ -50,7 +51,9 @@ export class ClaudeStrategy extends BasePromptStrategy {
    * - 품질 기준 명시
    */
   generateSystemPrompt(framework: string, cssSolution: string): string {
-    return `You are a senior ${framework === "react" ? "React" : framework} developer with expertise in modern web development, responsive design, and best practices.
+    const styling = getStylingGuide(cssSolution)
+
+    return `You are a senior ${this.getFrameworkDisplayName(framework)} developer with expertise in modern web development, responsive design, and best practices.
 
 **Your Task:**
 Generate a production-quality, responsive layout component based on the provided Visual Layout Builder Schema specifications.
@@ -67,7 +70,7 @@ The Visual Layout Builder Schema follows a **Component-First** approach where ea
 1. **Component Independence**: Each component operates independently with its own positioning and layout
 2. **Flexbox First**: Use Flexbox for page structure, CSS Grid only for card/content layouts
 3. **Semantic HTML First**: Follow HTML5 semantic principles (header, nav, main, aside, footer, section, article)
-4. **Mobile First**: Implement responsive design with mobile-first approach (base styles for mobile, then md: for tablet, lg: for desktop)
+4. **Mobile First**: Implement responsive design with mobile-first approach (base styles for mobile, then ${styling.utilityClasses ? "md: for tablet, lg: for desktop" : "`min-width` media queries for tablet and desktop"})
 5. **Breakpoint Inheritance**: Mobile → Tablet → Desktop cascade (unspecified breakpoints inherit from previous breakpoint)
 
 **Quality Standards:**
@@ -75,7 +78,7 @@ The Visual Layout Builder Schema follows a **Component-First** approach where ea
 - Type-safe TypeScript implementation
 - Accessible semantic HTML
 - Clean, maintainable code structure
-- Proper use of ${cssSolution === "tailwind" ? "Tailwind CSS" : cssSolution} utility classes
+- Proper use of ${styling.utilityClasses ? `${styling.displayName} utility classes` : styling.stylingStyle}
 - Responsive design following mobile-first principles
 
 **Approach:**
@@ -115,7 +118,7 @@ Let's build a high-quality, production-ready layout.`
     section += `---\n\n`
 
     components.forEach((comp, index) => {
-      section += this.formatComponent(comp, index, verbosity, options)
+      section += this.formatComponent(comp, index, verbosity, options, components)
       section += `---\n\n`
     })
 
@@ -131,6 +134,7 @@ Let's build a high-quality, production-ready layout.`
    * - 베스트 프랙티스 강조
    */
   generateInstructionsSection(options?: PromptGenerationOptions): string {
+    const styling = this.getStylingGuide(options)
     let section = `## Implementation Instructions\n\n`
 
     if (options?.chainOfThought) {
@@ -144,17 +148,17 @@ Let's build a high-quality, production-ready layout.`
       section += `   - Create component files with proper naming\n`
       section += `   - Set up the component hierarchy\n\n`
       section += `3. **Implement Positioning & Layout**\n`
-      section += `   - Apply positioning classes (fixed, sticky, static, etc.)\n`
+      section += `   - Apply positioning ${styling.utilityClasses ? "classes" : "styles"} (fixed, sticky, static, etc.)\n`
       section += `   - Implement layout systems (flex, grid, container)\n`
       section += `   - Ensure proper nesting and structure\n\n`
       section += `4. **Apply Styling**\n`
       section += `   - Add visual styles (background, border, shadow)\n`
       section += `   - Implement width/height specifications\n`
-      section += `   - Add custom className if specified\n\n`
+      section += `   - Add custom classes if specified\n\n`
       section += `5. **Implement Responsive Behavior**\n`
       section += `   - Start with mobile base styles\n`
-      section += `   - Add tablet overrides (md: prefix)\n`
-      section += `   - Add desktop overrides (lg: prefix)\n`
+      section += `   - Add tablet overrides (${styling.breakpointSyntax.tablet})\n`
+      section += `   - Add desktop overrides (${styling.breakpointSyntax.desktop})\n`
       section += `   - Test breakpoint transitions\n\n`
       section += `6. **Quality Assurance**\n`
       section += `   - Verify semantic HTML tags\n`
@@ -163,25 +167,29 @@ Let's build a high-quality, production-ready layout.`
       section += `   - Validate responsive behavior\n\n`
     }
 
-    section += `### Positioning Guidelines\n\n`
-    section += `- **static**: Default flow (no position class needed)\n`
-    section += `- **fixed**: Use Tailwind \`fixed\` with position values (e.g., \`fixed top-0 left-0 right-0 z-50\`)\n`
-    section += `- **sticky**: Use Tailwind \`sticky\` with position values (e.g., \`sticky top-0 z-40\`)\n`
-    section += `- **absolute**: Use Tailwind \`absolute\` with position values\n`
-    section += `- **relative**: Use Tailwind \`relative\`\n\n`
-
-    section += `### Layout Guidelines\n\n`
-    section += `- **flex**: Use Tailwind flex utilities (\`flex\`, \`flex-col\`, \`justify-center\`, \`items-center\`, \`gap-4\`, etc.)\n`
-    section += `- **grid**: Use Tailwind grid utilities (\`grid\`, \`grid-cols-3\`, \`gap-4\`, etc.)\n`
-    section += `- **container**: Wrap content in a container div with max-width and centering\n`
-    section += `- **none**: No specific layout - let content flow naturally\n\n`
-
-    section += `### Responsive Design Guidelines\n\n`
-    section += `- **Mobile First**: Base styles apply to mobile, use \`md:\` and \`lg:\` prefixes for larger breakpoints\n`
-    section += `- **Breakpoint Inheritance**: Styles cascade upward (Mobile → Tablet → Desktop)\n`
-    section += `- **Override Strategy**: Use responsive prefixes to override inherited styles\n`
-    section += `  - Example: \`hidden md:block\` = hidden on mobile, visible on tablet+\n`
-    section += `  - Example: \`w-full md:w-1/2 lg:w-1/3\` = full width on mobile, half on tablet, third on desktop\n\n`
+    if (styling.utilityClasses) {
+      section += `### Positioning Guidelines\n\n`
+      section += `- **static**: Default flow (no position class needed)\n`
+      section += `- **fixed**: Use Tailwind \`fixed\` with position values (e.g., \`fixed top-0 left-0 right-0 z-50\`)\n`
+      section += `- **sticky**: Use Tailwind \`sticky\` with position values (e.g., \`sticky top-0 z-40\`)\n`
+      section += `- **absolute**: Use Tailwind \`absolute\` with position values\n`
+      section += `- **relative**: Use Tailwind \`relative\`\n\n`
+
+      section += `### Layout Guidelines\n\n`
+      section += `- **flex**: Use Tailwind flex utilities (\`flex\`, \`flex-col\`, \`justify-center\`, \`items-center\`, \`gap-4\`, etc.)\n`
+      section += `- **grid**: Use Tailwind grid utilities (\`grid\`, \`grid-cols-3\`, \`gap-4\`, etc.)\n`
+      section += `- **container**: Wrap content in a container div with max-width and centering\n`
+      section += `- **none**: No specific layout - let content flow naturally\n\n`
+
+      section += `### Responsive Design Guidelines\n\n`
+      section += `- **Mobile First**: Base styles apply to mobile, use \`md:\` and \`lg:\` prefixes for larger breakpoints\n`
+      section += `- **Breakpoint Inheritance**: Styles cascade upward (Mobile → Tablet → Desktop)\n`
+      section += `- **Override Strategy**: Use responsive prefixes to override inherited styles\n`
+      section += `  - Example: \`hidden md:block\` = hidden on mobile, visible on tablet+\n`
+      section += `  - Example: \`w-full md:w-1/2 lg:w-1/3\` = full width on mobile, half on tablet, third on desktop\n\n`
+    } else {
+      section += this.formatStylingGuidelines(styling)
+    }
 
     section += `### Code Quality Checklist\n\n`
     section += `- [ ] All components use specified semantic tags\n`
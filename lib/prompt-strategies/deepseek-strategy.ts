@@ -31,8 +31,10 @@
  */
 
 import { BasePromptStrategy } from "./base-strategy"
+import { getStylingGuide } from "./styling-guide"
 import type { AIModelId, PromptGenerationOptions } from "@/types/ai-models"
-import type { Component, Breakpoint, LaydlerSchema } from "@/types/schema"
+import type { Component, Breakpoint, BreakpointInheritanceMode, LaydlerSchema } from "@/types/schema"
+import { getBreakpointChanges, hasBreakpointChanges } from "@/lib/breakpoint-inheritance"
 
 /**
  * DeepSeek Prompt Strategy
@@ -53,6 +55,8 @@ export class DeepSeekStrategy extends BasePromptStrategy {
    * - 타입 시스템 강조
    */
   generateSystemPrompt(framework: string, cssSolution: string): string {
+    const styling = getStylingGuide(cssSolution)
+
     return `You are a ${framework} developer. Create a responsive layout component from the Visual Layout Builder Schema.
 
 **Task:**
@@ -62,14 +66,14 @@ Implement a responsive layout with the specified components, following the schem
 - **Components**: Each has positioning (fixed/sticky/static/absolute/relative), layout (flex/grid/container/none), and styling
 - **Responsive**: Mobile-first with breakpoints (mobile → tablet → desktop)
 - **Framework**: ${framework} with TypeScript
-- **Styling**: ${cssSolution === "tailwind" ? "Tailwind CSS" : cssSolution}
+- **Styling**: ${styling.utilityClasses ? styling.displayName : styling.stylingStyle}
 
 **Requirements:**
 1. Use semantic HTML5 tags as specified
 2. Implement positioning and layout per component
-3. Apply responsive behavior (mobile → md: → lg:)
+3. Apply responsive behavior (${styling.utilityClasses ? "mobile → md: → lg:" : "mobile base rules → min-width media queries"})
 4. Use TypeScript with strict types
-5. Follow ${cssSolution === "tailwind" ? "Tailwind CSS" : cssSolution} conventions
+5. Follow ${styling.displayName} conventions
 
 **Output:**
 Clean, type-safe code with specified components and layouts.`
@@ -100,6 +104,19 @@ Clean, type-safe code with specified components and layouts.`
         section += `| ${index + 1} | ${comp.name} | ${comp.semanticTag} | ${comp.positioning.type} | ${comp.layout.type} |\n`
       })
       section += `\n`
+
+      // 중첩 관계 (있을 때만)
+      const nested = components.filter((comp) => comp.parentId)
+      if (nested.length > 0) {
+        section += `Nesting (child → parent): `
+        section += nested
+          .map((comp) => {
+            const parent = components.find((c) => c.id === comp.parentId)
+            return `${comp.name} → ${parent?.name ?? comp.parentId}`
+          })
+          .join(", ")
+        section += `\n\n`
+      }
     } else {
       // 일반 형식
       components.forEach((comp, index) => {
@@ -107,6 +124,7 @@ Clean, type-safe code with specified components and layouts.`
         section += `- Tag: \`<${comp.semanticTag}>\`\n`
         section += `- Positioning: ${comp.positioning.type}\n`
         section += `- Layout: ${comp.layout.type}\n`
+        section += this.formatNesting(comp, components)
 
         // Positioning details
         if (comp.positioning.position) {
@@ -161,13 +179,14 @@ Clean, type-safe code with specified components and layouts.`
     components: Component[],
     breakpoints: Breakpoint[],
     layouts: LaydlerSchema["layouts"],
-    options?: PromptGenerationOptions
+    options?: PromptGenerationOptions,
+    inheritance?: BreakpointInheritanceMode
   ): string {
     const verbosity = options?.verbosity || "minimal"
 
     // verbosity가 "detailed"인 경우 부모 클래스 메서드 사용 (Canvas Grid 포함)
     if (verbosity === "detailed") {
-      return super.generateLayoutSection(components, breakpoints, layouts, options)
+      return super.generateLayoutSection(components, breakpoints, layouts, options, inheritance)
     }
 
     // 그 외에는 간결한 형식 유지
@@ -185,6 +204,20 @@ Clean, type-safe code with specified components and layouts.`
         if (!layout) return
 
         section += `### ${index + 1}. ${bp.name.charAt(0).toUpperCase() + bp.name.slice(1)} (≥${bp.minWidth}px)\n`
+
+        // Breakpoint 상속: 상속 대상과 같으면 한 줄로
+        const changes =
+          inheritance && inheritance !== "none"
+            ? getBreakpointChanges(
+                { schemaVersion: "2.0", components, breakpoints, layouts, breakpointInheritance: inheritance },
+                bp.name
+              )
+            : null
+        if (changes && !hasBreakpointChanges(changes)) {
+          section += `- Same as ${changes.baseBreakpoint} (inherited)\n\n`
+          return
+        }
+
         section += `- Structure: ${layout.structure}\n`
         section += `- Components: ${layout.components.join(", ")}\n\n`
       })
@@ -203,6 +236,8 @@ Clean, type-safe code with specified components and layouts.`
    */
   generateInstructionsSection(options?: PromptGenerationOptions): string {
     const verbosity = options?.verbosity || "minimal"
+    const guide = this.getFrameworkGuide(options)
+    const styling = this.getStylingGuide(options)
 
     if (verbosity === "minimal") {
       return (
@@ -210,11 +245,19 @@ Clean, type-safe code with specified components and layouts.`
         `1. Use semantic tags as specified\n` +
         `2. Apply positioning (fixed/sticky/static/absolute/relative)\n` +
         `3. Implement layout (flex/grid/container)\n` +
-        `4. Add responsive classes (md:, lg:)\n` +
+        `4. Add ${styling.utilityClasses ? "responsive classes (md:, lg:)" : "responsive overrides (min-width media queries)"}\n` +
         `5. Use TypeScript with strict types\n`
       )
     }
 
+    const typescriptExample =
+      `### TypeScript (${guide.displayName})\n` +
+      guide.componentExample("Component", styling.rootTag("div"), styling.rootClassAttribute(guide, "..."))
+
+    if (!styling.utilityClasses) {
+      return `## Implementation Guide\n\n` + this.formatStylingGuidelines(styling) + typescriptExample
+    }
+
     return (
       `## Implementation Guide\n\n` +
       `### Positioning\n` +
@@ -231,15 +274,7 @@ Clean, type-safe code with specified components and layouts.`
       `- Mobile: base styles\n` +
       `- Tablet: \`md:\` prefix (≥768px)\n` +
       `- Desktop: \`lg:\` prefix (≥1024px)\n\n` +
-      `### TypeScript\n` +
-      `\`\`\`tsx\n` +
-      `interface Props {\n` +
-      `  // Define props\n` +
-      `}\n\n` +
-      `export function Component({ }: Props) {\n` +
-      `  return <div>...</div>\n` +
-      `}\n` +
-      `\`\`\`\n`
+      typescriptExample
     )
   }
 
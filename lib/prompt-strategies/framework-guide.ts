@@ -0,0 +1,210 @@
+/**
+ * Framework Guide
+ *
+ * 모델별 전략이 공통으로 쓰는 프레임워크별 문법/지침
+ * - 예시 코드 (클래스 속성, 컴포넌트 형태, children 렌더링)
+ * - 구현 지침 / 프레임워크별 팁
+ *
+ * 프레임워크 선택과 무관하게 React 예시가 들어가지 않도록 전략의 예시/지침은 여기서 가져옴
+ */
+
+import type { GenerationPackage } from "@/types/schema"
+
+type GuideFramework = GenerationPackage["options"]["framework"]
+
+/**
+ * 프레임워크별 프롬프트 지침
+ */
+export interface FrameworkGuide {
+  framework: string
+  displayName: string
+  version: string
+  /** 컴포넌트 작성 방식 (system prompt의 기술 스택 설명) */
+  componentStyle: string
+  /** 마크업의 클래스 속성 이름 */
+  classAttribute: "className" | "class"
+  /** 마크업 예시 코드 블록 언어 */
+  markupLanguage: "tsx" | "html"
+  /**
+   * 컴포넌트 예시 (코드 블록 포함)
+   *
+   * @param classAttr - 루트 요소에 붙일 클래스 속성 (예: `class="flex"`, 없으면 빈 문자열)
+   */
+  componentExample: (name: string, tag: string, classAttr: string) => string
+  /** 코드 품질 지침 */
+  bestPractices: string[]
+  /** 성능 팁 */
+  performanceTip: string
+  /** 프레임워크별 팁 (제목 → 항목) */
+  tips: Record<string, string[]>
+}
+
+const reactGuide: FrameworkGuide = {
+  framework: "react",
+  displayName: "React",
+  version: "19.x",
+  componentStyle: "functional components and hooks",
+  classAttribute: "className",
+  markupLanguage: "tsx",
+  componentExample: (name, tag, classAttr) =>
+    `\`\`\`tsx\n` +
+    `// ${name}.tsx\n` +
+    `interface ${name}Props {\n` +
+    `  // Add props as needed\n` +
+    `}\n\n` +
+    `export function ${name}({ }: ${name}Props) {\n` +
+    `  return (\n` +
+    `    <${tag}${classAttr && ` ${classAttr}`}>\n` +
+    `      {/* Content here */}\n` +
+    `    </${tag}>\n` +
+    `  )\n` +
+    `}\n` +
+    `\`\`\`\n`,
+  bestPractices: ["Follow React best practices"],
+  performanceTip: "Leverage React 19's automatic batching",
+  tips: {
+    "React 19": [
+      "Use `use client` directive for client components (Next.js App Router)",
+      "Leverage automatic batching for state updates",
+      "Use `forwardRef` for ref forwarding when needed",
+    ],
+    "Next.js 15": [
+      "Use App Router structure (`app/` directory)",
+      "Server Components by default, opt into client components",
+      "Use `next/image` for optimized images",
+      "Implement `metadata` for SEO",
+    ],
+  },
+}
+
+const vueGuide: FrameworkGuide = {
+  framework: "vue",
+  displayName: "Vue",
+  version: "3.x",
+  componentStyle: 'Single File Components with `<script setup lang="ts">` and the Composition API',
+  classAttribute: "class",
+  markupLanguage: "html",
+  componentExample: (name, tag, classAttr) =>
+    `\`\`\`vue\n` +
+    `<!-- ${name}.vue -->\n` +
+    `<script setup lang="ts">\n` +
+    `interface ${name}Props {\n` +
+    `  // Add props as needed\n` +
+    `}\n\n` +
+    `defineProps<${name}Props>()\n` +
+    `</script>\n\n` +
+    `<template>\n` +
+    `  <${tag}${classAttr && ` ${classAttr}`}>\n` +
+    `    <slot />\n` +
+    `  </${tag}>\n` +
+    `</template>\n` +
+    `\`\`\`\n`,
+  bestPractices: [
+    "Follow Vue 3 best practices",
+    "Use `<script setup lang=\"ts\">` with `defineProps<T>()` (no Options API)",
+  ],
+  performanceTip: "Use `computed` for derived values instead of watchers",
+  tips: {
+    "Vue 3": [
+      "Render children with `<slot />` (named slots for multiple areas)",
+      "Use `ref`/`computed` for local state",
+      "Bind dynamic classes with `:class`",
+    ],
+  },
+}
+
+const svelteGuide: FrameworkGuide = {
+  framework: "svelte",
+  displayName: "Svelte",
+  version: "5.x",
+  componentStyle: "Svelte 5 components with runes (`$props`, `$state`)",
+  classAttribute: "class",
+  markupLanguage: "html",
+  componentExample: (name, tag, classAttr) =>
+    `\`\`\`svelte\n` +
+    `<!-- ${name}.svelte -->\n` +
+    `<script lang="ts">\n` +
+    `  import type { Snippet } from 'svelte'\n\n` +
+    `  interface ${name}Props {\n` +
+    `    children?: Snippet\n` +
+    `  }\n\n` +
+    `  let { children }: ${name}Props = $props()\n` +
+    `</script>\n\n` +
+    `<${tag}${classAttr && ` ${classAttr}`}>\n` +
+    `  {@render children?.()}\n` +
+    `</${tag}>\n` +
+    `\`\`\`\n`,
+  bestPractices: [
+    "Follow Svelte 5 best practices",
+    "Use runes (`$props`, `$state`, `$derived`) - no `export let`, `<slot />` or `$:`",
+  ],
+  performanceTip: "Use `$derived` for computed values instead of effects",
+  tips: {
+    "Svelte 5": [
+      "Render children with `{@render children?.()}` (snippets replace slots)",
+      "Use `$state` for local state and `$derived` for computed values",
+      "Use `class:` directives for conditional classes",
+    ],
+  },
+}
+
+const solidGuide: FrameworkGuide = {
+  framework: "solid",
+  displayName: "SolidJS",
+  version: "1.x",
+  componentStyle: "function components with signals (`createSignal`)",
+  classAttribute: "class",
+  markupLanguage: "tsx",
+  componentExample: (name, tag, classAttr) =>
+    `\`\`\`tsx\n` +
+    `// ${name}.tsx\n` +
+    `import { createSignal, type ParentProps } from 'solid-js'\n\n` +
+    `export function ${name}(props: ParentProps) {\n` +
+    `  const [open, setOpen] = createSignal(false) // only if the component needs state\n\n` +
+    `  return (\n` +
+    `    <${tag}${classAttr && ` ${classAttr}`}>\n` +
+    `      {props.children}\n` +
+    `    </${tag}>\n` +
+    `  )\n` +
+    `}\n` +
+    `\`\`\`\n`,
+  bestPractices: [
+    "Follow SolidJS best practices",
+    "Do not destructure props (use `splitProps`) - components run once",
+  ],
+  performanceTip: "Use `createMemo` for derived values; components run only once",
+  tips: {
+    SolidJS: [
+      "Use the `class` attribute and `classList` for conditional classes",
+      "Use `createSignal` for local state and read it as a getter (`open()`)",
+      "Use `<Show>` / `<For>` for conditional and list rendering",
+    ],
+  },
+}
+
+/**
+ * 프레임워크별 지침 레지스트리
+ */
+export const FRAMEWORK_GUIDES: Record<GuideFramework, FrameworkGuide> = {
+  react: reactGuide,
+  vue: vueGuide,
+  svelte: svelteGuide,
+  solid: solidGuide,
+}
+
+/**
+ * 지침이 있는 프레임워크인지 확인 (PromptGenerationOptions.framework로 넘길 수 있는 값)
+ */
+export function isGuideFramework(framework: string): framework is GuideFramework {
+  return Object.prototype.hasOwnProperty.call(FRAMEWORK_GUIDES, framework)
+}
+
+/**
+ * 프레임워크 지침 조회 (알 수 없는 프레임워크는 React)
+ *
+ * @example
+ * getFrameworkGuide("svelte").classAttribute // "class"
+ */
+export function getFrameworkGuide(framework: string | undefined): FrameworkGuide {
+  return framework && isGuideFramework(framework) ? FRAMEWORK_GUIDES[framework] : reactGuide
+}
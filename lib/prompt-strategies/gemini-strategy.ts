@@ -29,6 +29,7 @@
  */
 
 import { BasePromptStrategy } from "./base-strategy"
+import { getStylingGuide } from "./styling-guide"
 import type { AIModelId, PromptGenerationOptions } from "@/types/ai-models"
 import type { Component } from "@/types/schema"
 
@@ -53,6 +54,7 @@ export class GeminiStrategy extends BasePromptStrategy {
   generateSystemPrompt(framework: string, cssSolution: string): string {
     const currentYear = new Date().getFullYear()
     const frameworkVersion = this.getFrameworkVersion(framework)
+    const styling = getStylingGuide(cssSolution)
 
     return `You are an expert web developer specializing in ${framework} ${frameworkVersion} and modern web development (${currentYear}).
 
@@ -62,7 +64,7 @@ Build a production-ready, responsive layout component following the Visual Layou
 **Technology Stack:**
 - **Framework:** ${framework} ${frameworkVersion}${framework === "react" ? " (with functional components, hooks, and latest patterns)" : ""}
 - **Language:** TypeScript (strict mode)
-- **Styling:** ${cssSolution === "tailwind" ? "Tailwind CSS 3.x" : cssSolution} (latest ${currentYear} patterns)
+- **Styling:** ${styling.utilityClasses ? "Tailwind CSS 3.x" : styling.stylingStyle} (latest ${currentYear} patterns)
 - **Build Tool:** Modern bundler (Vite/Next.js/etc.)
 - **Best Practices:** ${currentYear} web development standards
 
@@ -78,7 +80,7 @@ The Visual Layout Builder Schema uses a Component Independence model:
 2. **Component Independence**: Each component is self-contained and independently positioned
 3. **Flexbox for Structure**: Use Flexbox for page layout, Grid for content areas
 4. **Semantic HTML5**: Use appropriate semantic tags (header, nav, main, aside, footer, section, article)
-5. **Mobile-First Responsive**: Base styles for mobile, \`md:\` for tablet, \`lg:\` for desktop
+5. **Mobile-First Responsive**: Base styles for mobile, ${styling.utilityClasses ? "\`md:\` for tablet, \`lg:\` for desktop" : "\`min-width\` media queries for tablet and desktop"}
 6. **Type Safety**: Strict TypeScript with proper type definitions
 7. **Performance**: Optimize for fast rendering and minimal bundle size
 
@@ -88,7 +90,7 @@ The Visual Layout Builder Schema uses a Component Independence model:
 - Efficient responsive design implementation
 - Clean, maintainable code structure
 
-Generate clean, modern, production-ready code following ${framework} and ${cssSolution} best practices.`
+Generate clean, modern, production-ready code following ${framework} and ${styling.displayName} best practices.`
   }
 
   /**
@@ -101,6 +103,7 @@ Generate clean, modern, production-ready code following ${framework} and ${cssSo
       vue: "3.x",
       angular: "18.x",
       svelte: "5.x",
+      solid: "1.x",
     }
     return versions[framework.toLowerCase()] || "latest"
   }
@@ -136,7 +139,7 @@ Generate clean, modern, production-ready code following ${framework} and ${cssSo
     for (const [tag, comps] of Object.entries(componentsByTag)) {
       section += `### ${this.getSemanticTagDescription(tag)} Components\n\n`
       comps.forEach((comp, index) => {
-        section += this.formatComponent(comp, components.indexOf(comp), "normal", options)
+        section += this.formatComponent(comp, components.indexOf(comp), "normal", options, components)
         section += `\n`
       })
     }
@@ -188,82 +191,77 @@ Generate clean, modern, production-ready code following ${framework} and ${cssSo
    * - 성능 최적화 팁
    */
   generateInstructionsSection(options?: PromptGenerationOptions): string {
+    const guide = this.getFrameworkGuide(options)
+    const styling = this.getStylingGuide(options)
+    const { classAttribute: cls, markupLanguage } = guide
+    const comment = (text: string) => (markupLanguage === "tsx" ? `// ${text}` : `<!-- ${text} -->`)
     let section = `## Implementation Guidelines\n\n`
 
-    section += `### Modern React/Next.js Patterns (2025)\n\n`
-    section += `**Component Structure:**\n`
-    section += `\`\`\`tsx\n`
-    section += `// Modern React 19 functional component with TypeScript\n`
-    section += `import { type FC } from 'react'\n\n`
-    section += `interface ComponentProps {\n`
-    section += `  // Props definition\n`
-    section += `}\n\n`
-    section += `export const Component: FC<ComponentProps> = ({ }) => {\n`
-    section += `  return (\n`
-    section += `    <element className="...">\n`
-    section += `      {/* Content */}\n`
-    section += `    </element>\n`
-    section += `  )\n`
-    section += `}\n`
-    section += `\`\`\`\n\n`
-
-    section += `### Positioning & Layout (Tailwind CSS 3.x)\n\n`
-    section += `**Positioning Classes:**\n`
-    section += `- **fixed**: \`fixed top-0 inset-x-0 z-50\` (viewport-fixed, often for headers)\n`
-    section += `- **sticky**: \`sticky top-0 z-40\` (scrolls then sticks, for navigation)\n`
-    section += `- **static**: Default flow (no classes needed)\n`
-    section += `- **absolute**: \`absolute top-4 right-4\` (positioned relative to parent)\n`
-    section += `- **relative**: \`relative\` (positioning context)\n\n`
-
-    section += `**Flexbox Layout:**\n`
-    section += `\`\`\`tsx\n`
-    section += `<div className="flex flex-col md:flex-row justify-between items-center gap-4">\n`
-    section += `  {/* Flexbox children */}\n`
-    section += `</div>\n`
-    section += `\`\`\`\n\n`
-
-    section += `**Grid Layout:**\n`
-    section += `\`\`\`tsx\n`
-    section += `<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">\n`
-    section += `  {/* Grid items */}\n`
-    section += `</div>\n`
-    section += `\`\`\`\n\n`
-
-    section += `### Responsive Design (Mobile-First)\n\n`
-    section += `**Breakpoint Strategy:**\n`
-    section += `- **Mobile** (default): Base styles, no prefix\n`
-    section += `- **Tablet** (≥768px): \`md:\` prefix\n`
-    section += `- **Desktop** (≥1024px): \`lg:\` prefix\n\n`
-
-    section += `**Common Responsive Patterns:**\n`
-    section += `\`\`\`tsx\n`
-    section += `// Hide on mobile, show on tablet+\n`
-    section += `<div className="hidden md:block">...</div>\n\n`
-    section += `// Full width on mobile, half on tablet, third on desktop\n`
-    section += `<div className="w-full md:w-1/2 lg:w-1/3">...</div>\n\n`
-    section += `// Stack on mobile, row on tablet+\n`
-    section += `<div className="flex flex-col md:flex-row">...</div>\n`
-    section += `\`\`\`\n\n`
+    section += `### Modern ${guide.displayName} Patterns (2025)\n\n`
+    section += `**Component Structure (${guide.displayName} ${guide.version}, ${guide.componentStyle}):**\n`
+    section += guide.componentExample("Component", styling.rootTag("element"), styling.rootClassAttribute(guide, "..."))
+    section += `\n`
+
+    if (styling.utilityClasses) {
+      section += `### Positioning & Layout (Tailwind CSS 3.x)\n\n`
+      section += `**Positioning Classes:**\n`
+      section += `- **fixed**: \`fixed top-0 inset-x-0 z-50\` (viewport-fixed, often for headers)\n`
+      section += `- **sticky**: \`sticky top-0 z-40\` (scrolls then sticks, for navigation)\n`
+      section += `- **static**: Default flow (no classes needed)\n`
+      section += `- **absolute**: \`absolute top-4 right-4\` (positioned relative to parent)\n`
+      section += `- **relative**: \`relative\` (positioning context)\n\n`
+
+      section += `**Flexbox Layout:**\n`
+      section += `\`\`\`${markupLanguage}\n`
+      section += `<div ${cls}="flex flex-col md:flex-row justify-between items-center gap-4">\n`
+      section += `  {/* Flexbox children */}\n`
+      section += `</div>\n`
+      section += `\`\`\`\n\n`
+
+      section += `**Grid Layout:**\n`
+      section += `\`\`\`${markupLanguage}\n`
+      section += `<div ${cls}="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">\n`
+      section += `  {/* Grid items */}\n`
+      section += `</div>\n`
+      section += `\`\`\`\n\n`
+
+      section += `### Responsive Design (Mobile-First)\n\n`
+      section += `**Breakpoint Strategy:**\n`
+      section += `- **Mobile** (default): Base styles, no prefix\n`
+      section += `- **Tablet** (≥768px): \`md:\` prefix\n`
+      section += `- **Desktop** (≥1024px): \`lg:\` prefix\n\n`
+
+      section += `**Common Responsive Patterns:**\n`
+      section += `\`\`\`${markupLanguage}\n`
+      section += `${comment("Hide on mobile, show on tablet+")}\n`
+      section += `<div ${cls}="hidden md:block">...</div>\n\n`
+      section += `${comment("Full width on mobile, half on tablet, third on desktop")}\n`
+      section += `<div ${cls}="w-full md:w-1/2 lg:w-1/3">...</div>\n\n`
+      section += `${comment("Stack on mobile, row on tablet+")}\n`
+      section += `<div ${cls}="flex flex-col md:flex-row">...</div>\n`
+      section += `\`\`\`\n\n`
+    } else {
+      section += this.formatStylingGuidelines(styling)
+    }
 
     section += `### Performance Best Practices\n\n`
     section += `- Use semantic HTML5 tags for better SEO and accessibility\n`
     section += `- Minimize DOM nesting (keep component tree shallow)\n`
-    section += `- Use Tailwind's \`@apply\` sparingly (prefer utility classes)\n`
-    section += `- Leverage React 19's automatic batching\n`
+    if (styling.utilityClasses) {
+      section += `- Use Tailwind's \`@apply\` sparingly (prefer utility classes)\n`
+    }
+    section += `- ${guide.performanceTip}\n`
     section += `- Add \`key\` props for list items\n`
     section += `- Use TypeScript strict mode for type safety\n\n`
 
     section += `### Framework-Specific Tips\n\n`
-    section += `**React 19:**\n`
-    section += `- Use \`use client\` directive for client components (Next.js App Router)\n`
-    section += `- Leverage automatic batching for state updates\n`
-    section += `- Use \`forwardRef\` for ref forwarding when needed\n\n`
-
-    section += `**Next.js 15:**\n`
-    section += `- Use App Router structure (\`app/\` directory)\n`
-    section += `- Server Components by default, opt into client components\n`
-    section += `- Use \`next/image\` for optimized images\n`
-    section += `- Implement \`metadata\` for SEO\n\n`
+    for (const [title, tips] of Object.entries(guide.tips)) {
+      section += `**${title}:**\n`
+      tips.forEach((tip) => {
+        section += `- ${tip}\n`
+      })
+      section += `\n`
+    }
 
     return section
   }
@@ -30,6 +30,8 @@
  */
 
 import { BasePromptStrategy } from "./base-strategy"
+import { getFrameworkGuide } from "./framework-guide"
+import { getStylingGuide } from "./styling-guide"
 import type { AIModelId, PromptGenerationOptions } from "@/types/ai-models"
 import type { Component } from "@/types/schema"
 
@@ -52,7 +54,10 @@ export class GPTStrategy extends BasePromptStrategy {
    * - Hallucination 방지 지침
    */
   generateSystemPrompt(framework: string, cssSolution: string): string {
-    return `You are an expert ${framework === "react" ? "React" : framework} developer specializing in modern web development and responsive design.
+    const guide = getFrameworkGuide(framework)
+    const styling = getStylingGuide(cssSolution)
+
+    return `You are an expert ${this.getFrameworkDisplayName(framework)} developer specializing in modern web development and responsive design.
 
 **Task:**
 Create a responsive, production-ready layout component based on the Visual Layout Builder Schema specifications provided below.
@@ -68,21 +73,21 @@ The Visual Layout Builder Schema uses a **Component Independence** approach:
 1. **Component Independence**: Each component is self-contained with its own positioning, layout, and styling
 2. **Flexbox for Structure**: Use Flexbox for overall page layout, Grid for content areas (cards, galleries)
 3. **Semantic HTML**: Use appropriate HTML5 semantic tags (header, nav, main, aside, footer, section, article)
-4. **Mobile First**: Base styles for mobile, then tablet (md:) and desktop (lg:) overrides
+4. **Mobile First**: Base styles for mobile, then tablet (${styling.breakpointSyntax.tablet}) and desktop (${styling.breakpointSyntax.desktop}) overrides
 5. **Type Safety**: Use TypeScript with proper type definitions
 
 **Technology Stack:**
-- ${framework === "react" ? "React" : framework} with functional components and hooks
+- ${this.getFrameworkDisplayName(framework)} with ${guide.componentStyle}
 - TypeScript for type safety
-- ${cssSolution === "tailwind" ? "Tailwind CSS" : cssSolution} for styling
+- ${styling.displayName} for styling
 - Mobile-first responsive design
 
 **Output Format:**
 Provide clean, well-structured code with:
 - Proper TypeScript types
 - Semantic HTML tags as specified
-- Tailwind CSS utility classes for styling
-- Responsive behavior using Tailwind breakpoints (md:, lg:)
+- ${styling.stylingStyle} for styling
+- Responsive behavior using ${styling.utilityClasses ? "Tailwind breakpoints (md:, lg:)" : "`min-width` media queries"}
 - Comments explaining complex logic
 
 **Important:**
@@ -108,6 +113,8 @@ Let's create a high-quality, production-ready component.`
     options?: PromptGenerationOptions
   ): string {
     const includeExamples = options?.includeExamples !== false // GPT는 예시 선호
+    const guide = this.getFrameworkGuide(options)
+    const styling = this.getStylingGuide(options)
 
     let section = `## Component Specifications\n\n`
     section += `You need to implement ${components.length} components. Each component has specific requirements:\n\n`
@@ -117,26 +124,20 @@ Let's create a high-quality, production-ready component.`
       const firstComp = components[0]
       section += `**Example Implementation Pattern:**\n\n`
       section += `For a component like "${firstComp.name}" with semantic tag <${firstComp.semanticTag}> and ${firstComp.positioning.type} positioning:\n\n`
-      section += `\`\`\`tsx\n`
-      section += `// ${firstComp.name}.tsx\n`
-      section += `interface ${firstComp.name}Props {\n`
-      section += `  // Add props as needed\n`
-      section += `}\n\n`
-      section += `export function ${firstComp.name}({ }: ${firstComp.name}Props) {\n`
-      section += `  return (\n`
-      section += `    <${firstComp.semanticTag} className="${this.getExampleClasses(firstComp)}">\n`
-      section += `      {/* Content here */}\n`
-      section += `    </${firstComp.semanticTag}>\n`
-      section += `  )\n`
-      section += `}\n`
-      section += `\`\`\`\n\n`
+      section += guide.componentExample(
+        firstComp.name,
+        styling.rootTag(firstComp.semanticTag),
+        styling.rootClassAttribute(guide, this.getExampleClasses(firstComp))
+      )
+      section += styling.componentStyles(firstComp)
+      section += `\n`
       section += `Follow this pattern for all components.\n\n`
       section += `---\n\n`
     }
 
     // 컴포넌트 상세 스펙
     components.forEach((comp, index) => {
-      section += this.formatComponent(comp, index, "normal", options)
+      section += this.formatComponent(comp, index, "normal", options, components)
     })
 
     return section
@@ -184,6 +185,7 @@ Let's create a high-quality, production-ready component.`
    * - Hallucination 방지 지침
    */
   generateInstructionsSection(options?: PromptGenerationOptions): string {
+    const styling = this.getStylingGuide(options)
     let section = `## Implementation Guide\n\n`
 
     // Chain-of-Thought (GPT에 효과적)
@@ -196,37 +198,41 @@ Let's create a high-quality, production-ready component.`
       section += `5. Verify all specifications are met before finalizing\n\n`
     }
 
-    section += `### Positioning Implementation\n\n`
-    section += `| Type | Tailwind Classes | Example |\n`
-    section += `|------|------------------|----------|\n`
-    section += `| static | (none) | Default flow |\n`
-    section += `| fixed | \`fixed top-0 left-0 right-0 z-50\` | Fixed header |\n`
-    section += `| sticky | \`sticky top-0 z-40\` | Sticky nav |\n`
-    section += `| absolute | \`absolute top-4 right-4\` | Floating button |\n`
-    section += `| relative | \`relative\` | Positioned container |\n\n`
-
-    section += `### Layout Implementation\n\n`
-    section += `**Flexbox:**\n`
-    section += `- Direction: \`flex-row\`, \`flex-col\`, \`flex-row-reverse\`, \`flex-col-reverse\`\n`
-    section += `- Justify: \`justify-start\`, \`justify-center\`, \`justify-between\`, \`justify-around\`, \`justify-evenly\`\n`
-    section += `- Align: \`items-start\`, \`items-center\`, \`items-end\`, \`items-stretch\`\n`
-    section += `- Gap: \`gap-2\`, \`gap-4\`, \`gap-8\` (or specific values)\n\n`
-
-    section += `**Grid:**\n`
-    section += `- Columns: \`grid-cols-1\`, \`grid-cols-2\`, \`grid-cols-3\`, etc.\n`
-    section += `- Rows: \`grid-rows-1\`, \`grid-rows-2\`, etc.\n`
-    section += `- Gap: \`gap-4\`, \`gap-6\`, etc.\n\n`
-
-    section += `### Responsive Design\n\n`
-    section += `**Breakpoints:**\n`
-    section += `- Mobile (base): No prefix\n`
-    section += `- Tablet: \`md:\` prefix (≥768px)\n`
-    section += `- Desktop: \`lg:\` prefix (≥1024px)\n\n`
-
-    section += `**Examples:**\n`
-    section += `- \`hidden md:block\` → Hidden on mobile, visible on tablet+\n`
-    section += `- \`w-full md:w-1/2 lg:w-1/3\` → Full width on mobile, half on tablet, third on desktop\n`
-    section += `- \`flex-col md:flex-row\` → Column on mobile, row on tablet+\n\n`
+    if (styling.utilityClasses) {
+      section += `### Positioning Implementation\n\n`
+      section += `| Type | Tailwind Classes | Example |\n`
+      section += `|------|------------------|----------|\n`
+      section += `| static | (none) | Default flow |\n`
+      section += `| fixed | \`fixed top-0 left-0 right-0 z-50\` | Fixed header |\n`
+      section += `| sticky | \`sticky top-0 z-40\` | Sticky nav |\n`
+      section += `| absolute | \`absolute top-4 right-4\` | Floating button |\n`
+      section += `| relative | \`relative\` | Positioned container |\n\n`
+
+      section += `### Layout Implementation\n\n`
+      section += `**Flexbox:**\n`
+      section += `- Direction: \`flex-row\`, \`flex-col\`, \`flex-row-reverse\`, \`flex-col-reverse\`\n`
+      section += `- Justify: \`justify-start\`, \`justify-center\`, \`justify-between\`, \`justify-around\`, \`justify-evenly\`\n`
+      section += `- Align: \`items-start\`, \`items-center\`, \`items-end\`, \`items-stretch\`\n`
+      section += `- Gap: \`gap-2\`, \`gap-4\`, \`gap-8\` (or specific values)\n\n`
+
+      section += `**Grid:**\n`
+      section += `- Columns: \`grid-cols-1\`, \`grid-cols-2\`, \`grid-cols-3\`, etc.\n`
+      section += `- Rows: \`grid-rows-1\`, \`grid-rows-2\`, etc.\n`
+      section += `- Gap: \`gap-4\`, \`gap-6\`, etc.\n\n`
+
+      section += `### Responsive Design\n\n`
+      section += `**Breakpoints:**\n`
+      section += `- Mobile (base): No prefix\n`
+      section += `- Tablet: \`md:\` prefix (≥768px)\n`
+      section += `- Desktop: \`lg:\` prefix (≥1024px)\n\n`
+
+      section += `**Examples:**\n`
+      section += `- \`hidden md:block\` → Hidden on mobile, visible on tablet+\n`
+      section += `- \`w-full md:w-1/2 lg:w-1/3\` → Full width on mobile, half on tablet, third on desktop\n`
+      section += `- \`flex-col md:flex-row\` → Column on mobile, row on tablet+\n\n`
+    } else {
+      section += this.formatStylingGuidelines(styling)
+    }
 
     // Hallucination 방지
     section += `**Verification Checklist:**\n`
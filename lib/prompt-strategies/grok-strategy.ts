@@ -25,6 +25,7 @@
  */
 
 import { BasePromptStrategy } from "./base-strategy"
+import { getStylingGuide } from "./styling-guide"
 import type { AIModelId, PromptGenerationOptions } from "@/types/ai-models"
 import type { Component } from "@/types/schema"
 
@@ -49,6 +50,7 @@ export class GrokStrategy extends BasePromptStrategy {
   generateSystemPrompt(framework: string, cssSolution: string): string {
     const currentYear = new Date().getFullYear()
     const currentDate = new Date().toISOString().split("T")[0]
+    const styling = getStylingGuide(cssSolution)
 
     return `You are an expert ${framework} developer. Today is ${currentDate}.
 
@@ -64,7 +66,7 @@ The Visual Layout Builder Schema follows a Component Independence architecture:
 
 **Technical Stack:**
 - Framework: ${framework} (${currentYear} standards)
-- Styling: ${cssSolution === "tailwind" ? "Tailwind CSS" : cssSolution}
+- Styling: ${styling.utilityClasses ? styling.displayName : styling.stylingStyle}
 - Language: TypeScript with strict types
 - Approach: Component Independence principle
 
@@ -118,7 +120,7 @@ Let's build a high-quality responsive layout.`
       section += `### ${priority.charAt(0).toUpperCase() + priority.slice(1)} Priority Components\n\n`
 
       comps.forEach((comp, index) => {
-        section += this.formatComponent(comp, components.indexOf(comp), verbosity, options)
+        section += this.formatComponent(comp, components.indexOf(comp), verbosity, options, components)
         section += `\n`
       })
     }
@@ -159,6 +161,7 @@ Let's build a high-quality responsive layout.`
    * - 실용적인 예시
    */
   generateInstructionsSection(options?: PromptGenerationOptions): string {
+    const styling = this.getStylingGuide(options)
     let section = `## Implementation Guide\n\n`
 
     // 추론 기반 접근 (Grok의 강점)
@@ -170,36 +173,40 @@ Let's build a high-quality responsive layout.`
       section += `4. **Verify:** Check that all requirements are met\n\n`
     }
 
-    section += `### Positioning Strategy\n\n`
-    section += `**Fixed/Sticky Components (High Priority):**\n`
-    section += `- Implement these first as they affect layout flow\n`
-    section += `- Fixed: \`fixed top-0 left-0 right-0 z-50\` (viewport-locked)\n`
-    section += `- Sticky: \`sticky top-0 z-40\` (scroll-based)\n\n`
-
-    section += `**Static/Relative Components (Medium Priority):**\n`
-    section += `- Implement after structural elements\n`
-    section += `- Static: default flow (no position class)\n`
-    section += `- Relative: \`relative\` (positioning context)\n\n`
-
-    section += `### Layout Implementation\n\n`
-    section += `**Flexbox (Primary):**\n`
-    section += `- Use for page structure and 1D layouts\n`
-    section += `- Example: \`flex flex-col justify-center items-center gap-4\`\n\n`
-
-    section += `**Grid (Secondary):**\n`
-    section += `- Use for card layouts and 2D structures\n`
-    section += `- Example: \`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6\`\n\n`
-
-    section += `### Responsive Design\n\n`
-    section += `**Mobile-First Principle:**\n`
-    section += `- Base styles apply to mobile\n`
-    section += `- Use \`md:\` prefix for tablet (≥768px)\n`
-    section += `- Use \`lg:\` prefix for desktop (≥1024px)\n\n`
-
-    section += `**Common Patterns:**\n`
-    section += `- Hide/Show: \`hidden md:block\` or \`block md:hidden\`\n`
-    section += `- Width: \`w-full md:w-1/2 lg:w-1/3\`\n`
-    section += `- Direction: \`flex-col md:flex-row\`\n\n`
+    if (styling.utilityClasses) {
+      section += `### Positioning Strategy\n\n`
+      section += `**Fixed/Sticky Components (High Priority):**\n`
+      section += `- Implement these first as they affect layout flow\n`
+      section += `- Fixed: \`fixed top-0 left-0 right-0 z-50\` (viewport-locked)\n`
+      section += `- Sticky: \`sticky top-0 z-40\` (scroll-based)\n\n`
+
+      section += `**Static/Relative Components (Medium Priority):**\n`
+      section += `- Implement after structural elements\n`
+      section += `- Static: default flow (no position class)\n`
+      section += `- Relative: \`relative\` (positioning context)\n\n`
+
+      section += `### Layout Implementation\n\n`
+      section += `**Flexbox (Primary):**\n`
+      section += `- Use for page structure and 1D layouts\n`
+      section += `- Example: \`flex flex-col justify-center items-center gap-4\`\n\n`
+
+      section += `**Grid (Secondary):**\n`
+      section += `- Use for card layouts and 2D structures\n`
+      section += `- Example: \`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6\`\n\n`
+
+      section += `### Responsive Design\n\n`
+      section += `**Mobile-First Principle:**\n`
+      section += `- Base styles apply to mobile\n`
+      section += `- Use \`md:\` prefix for tablet (≥768px)\n`
+      section += `- Use \`lg:\` prefix for desktop (≥1024px)\n\n`
+
+      section += `**Common Patterns:**\n`
+      section += `- Hide/Show: \`hidden md:block\` or \`block md:hidden\`\n`
+      section += `- Width: \`w-full md:w-1/2 lg:w-1/3\`\n`
+      section += `- Direction: \`flex-col md:flex-row\`\n\n`
+    } else {
+      section += this.formatStylingGuidelines(styling)
+    }
 
     section += `### Quality Checklist\n\n`
     section += `Before finalizing, verify:\n`
@@ -31,6 +31,12 @@
 // Base Strategy
 export { BasePromptStrategy } from "./base-strategy"
 
+// Framework Guides (프레임워크별 예시/지침)
+export { FRAMEWORK_GUIDES, getFrameworkGuide, type FrameworkGuide } from "./framework-guide"
+
+// Styling Guides (CSS solution별 예시/지침)
+export { STYLING_GUIDES, getStylingGuide, type StylingGuide } from "./styling-guide"
+
 // Model-Specific Strategies
 export { ClaudeStrategy, createClaudeSonnet45Strategy, createClaudeSonnet4Strategy, createClaudeOpus4Strategy, createClaudeHaiku35Strategy } from "./claude-strategy"
 
@@ -85,19 +85,20 @@ export class PromptStrategyFactory implements IPromptStrategyFactory {
    * @throws Error if model is not supported or metadata not found
    */
   createStrategy(modelId: AIModelId): IPromptStrategy {
-    // 캐시 확인
-    if (this.strategyCache.has(modelId)) {
-      return this.strategyCache.get(modelId)!
-    }
-
     // 모델 메타데이터 가져오기
     const metadata = getModelMetadata(modelId)
     if (!metadata) {
       throw new Error(`Model metadata not found for: ${modelId}`)
     }
 
-    // Provider 기반으로 Strategy 클래스 선택
-    const StrategyClass = PROVIDER_STRATEGY_MAP[metadata.provider]
+    // 캐시 확인 (runtime registry에서 메타데이터가 바뀌었으면 새로 생성)
+    const cached = this.strategyCache.get(modelId)
+    if (cached && cached.metadata === metadata) {
+      return cached
+    }
+
+    // Provider 기반으로 Strategy 클래스 선택 (promptStrategy가 있으면 우선)
+    const StrategyClass = PROVIDER_STRATEGY_MAP[metadata.promptStrategy ?? metadata.provider]
     if (!StrategyClass) {
       throw new Error(`No strategy found for provider: ${metadata.provider}`)
     }
@@ -193,20 +194,23 @@ export function getAvailableModelIds(): AIModelId[] {
  * 모델 카테고리별 그룹화
  *
  * 2025년 12월 업데이트: Meta Llama, Alibaba Qwen 추가
+ * Runtime registry 모델도 분류되도록 ID prefix 대신 provider 기준
  */
 export function getModelsByCategory(): Record<string, AIModelId[]> {
-  const models = getAvailableModelIds()
-
-  return {
-    anthropic: models.filter((id) => id.startsWith("claude-")),
-    openai: models.filter((id) => id.startsWith("gpt-") || id.startsWith("o1") || id.startsWith("o3")),
-    google: models.filter((id) => id.startsWith("gemini-")),
-    deepseek: models.filter((id) => id.startsWith("deepseek-")),
-    xai: models.filter((id) => id.startsWith("grok-")),
-    meta: models.filter((id) => id.startsWith("llama-")),
-    alibaba: models.filter((id) => id.startsWith("qwen-")),
-    custom: models.filter((id) => id === "custom"),
+  const categories: Record<AIProvider, AIModelId[]> = {
+    anthropic: [],
+    openai: [],
+    google: [],
+    deepseek: [],
+    xai: [],
+    meta: [],
+    alibaba: [],
+    custom: [],
   }
+
+  getActiveModels().forEach((model) => categories[model.provider].push(model.id))
+
+  return categories
 }
 
 /**
@@ -0,0 +1,180 @@
+/**
+ * Styling Guide
+ *
+ * 모델별 전략이 공통으로 쓰는 CSS solution별 문법/지침
+ * - 예시 루트 요소 (태그, 클래스 속성), 예시 스타일시트 / styled element
+ * - positioning / layout / responsive 구현 지침
+ *
+ * Tailwind 외의 CSS solution에서 utility class 예시가 들어가지 않도록 전략의 스타일 지침은 여기서 가져옴
+ */
+
+import type { Component, GenerationPackage } from "@/types/schema"
+import { formatStyledCSS, generateCSSModule, generateComponentStyleRules } from "@/lib/css-generator"
+import { CSS_IN_JS_SOURCES } from "@/lib/code-generator"
+import { createEmptySchema } from "@/lib/schema-utils"
+import type { FrameworkGuide } from "./framework-guide"
+
+type GuideCSSSolution = GenerationPackage["options"]["cssSolution"]
+
+/**
+ * CSS solution별 프롬프트 지침
+ */
+export interface StylingGuide {
+  cssSolution: string
+  displayName: string
+  /** Tailwind utility class 사용 여부 (false면 전략의 Tailwind 전용 지침 대신 guidelines 사용) */
+  utilityClasses: boolean
+  /** 스타일 작성 방식 (system prompt의 기술 스택 설명) */
+  stylingStyle: string
+  /** 태블릿/데스크톱 override 문법 */
+  breakpointSyntax: { tablet: string; desktop: string }
+  /** 예시 루트 요소의 태그 (CSS-in-JS는 styled element) */
+  rootTag: (tag: string) => string
+  /**
+   * 예시 루트 요소의 클래스 속성
+   *
+   * @param classes - 예시 Tailwind class (utilityClasses일 때만 사용)
+   */
+  rootClassAttribute: (framework: FrameworkGuide, classes: string) => string
+  /** 예시 컴포넌트의 스타일시트 / styled element 정의 (코드 블록, 없으면 빈 문자열) */
+  componentStyles: (component: Component) => string
+  /** 구현 지침 (제목 → 항목, utilityClasses가 false일 때 사용) */
+  guidelines: Record<string, string[]>
+}
+
+const tailwindGuide: StylingGuide = {
+  cssSolution: "tailwind",
+  displayName: "Tailwind CSS",
+  utilityClasses: true,
+  stylingStyle: "Tailwind CSS utility classes",
+  breakpointSyntax: { tablet: "md: prefix", desktop: "lg: prefix" },
+  rootTag: (tag) => tag,
+  rootClassAttribute: (framework, classes) => `${framework.classAttribute}="${classes}"`,
+  componentStyles: () => "",
+  guidelines: {},
+}
+
+/**
+ * Plain CSS 선언을 쓰는 solution 공통 positioning / layout / responsive 지침
+ *
+ * @param containerElement - container layout의 내부 요소 설명
+ * @param mediaQuery - breakpoint override 방식
+ */
+function createCSSGuidelines(containerElement: string, mediaQuery: string): Record<string, string[]> {
+  return {
+    "Positioning Guidelines": [
+      "**static**: Default flow (no declaration needed)",
+      "**fixed / sticky / absolute**: `position` + offsets (`top: 0`) + `z-index` from the schema",
+      "**relative**: `position: relative`",
+    ],
+    "Layout Guidelines": [
+      "**flex**: `display: flex` with `flex-direction`, `justify-content`, `align-items`, `gap`",
+      "**grid**: `display: grid` with `grid-template-columns` / `grid-template-rows`",
+      `**container**: ${containerElement} with \`max-width\`, \`margin-inline: auto\`, \`padding-inline\``,
+      "**none**: No layout declarations",
+    ],
+    "Responsive Design Guidelines": [
+      `**Mobile First**: Base declarations target the smallest breakpoint; larger breakpoints use ${mediaQuery} with the exact \`minWidth\` values from the Responsive Page Structure section`,
+      "**hidden**: `display: none` inside the breakpoint's media query (restore with the original `display` value)",
+      "**width / order**: Override `width` / `order` inside the breakpoint's media query",
+    ],
+  }
+}
+
+const cssModulesGuide: StylingGuide = {
+  cssSolution: "css-modules",
+  displayName: "CSS Modules",
+  utilityClasses: false,
+  stylingStyle: "CSS Modules (a `.module.css` file per component, imported as `styles`)",
+  breakpointSyntax: { tablet: "tablet min-width media query", desktop: "desktop min-width media query" },
+  rootTag: (tag) => tag,
+  rootClassAttribute: (framework) =>
+    framework.framework === "vue" ? `:class="styles.root"` : `${framework.classAttribute}={styles.root}`,
+  componentStyles: (component) => {
+    const css = generateCSSModule(component, createEmptySchema().breakpoints)
+    if (!css.trim()) return ""
+    return (
+      `\`\`\`css\n` +
+      `/* ${component.name}.module.css - import styles from './${component.name}.module.css' */\n` +
+      `${css.trimEnd()}\n` +
+      `\`\`\`\n`
+    )
+  },
+  guidelines: {
+    "Stylesheet Guidelines": [
+      "Every component has a paired `.module.css` file imported as `import styles from './Header.module.css'`",
+      "Name the root class `.root` and sub-elements by role (`.container`); use camelCase class names",
+      "No Tailwind utility classes, `:global` selectors or inline `style` props for layout",
+    ],
+    ...createCSSGuidelines("Inner `.container` element", "`@media (min-width: <minWidth>px)`"),
+  },
+}
+
+/**
+ * CSS-in-JS 지침 (styled-components, Emotion)
+ *
+ * 두 라이브러리 모두 `styled.tag` API를 사용하므로 import 경로와 이름만 다름 (React 전용)
+ */
+function createCssInJsGuide(cssSolution: keyof typeof CSS_IN_JS_SOURCES): StylingGuide {
+  const displayName = cssSolution === "emotion" ? "Emotion" : "styled-components"
+  const importSource = CSS_IN_JS_SOURCES[cssSolution]
+
+  return {
+    cssSolution,
+    displayName,
+    utilityClasses: false,
+    stylingStyle: `${displayName} (\`styled\` elements defined in the component file)`,
+    breakpointSyntax: { tablet: "nested tablet min-width media query", desktop: "nested desktop min-width media query" },
+    rootTag: () => "Root",
+    rootClassAttribute: () => "",
+    componentStyles: (component) => {
+      const rules = generateComponentStyleRules(component, createEmptySchema().breakpoints)
+      const css = formatStyledCSS(rules.root, rules.responsive)
+      return (
+        `\`\`\`tsx\n` +
+        `import styled from '${importSource}'\n\n` +
+        `const Root = styled.${component.semanticTag}\`\n` +
+        (css ? `${css}\n` : "") +
+        `\`\n` +
+        `\`\`\`\n`
+      )
+    },
+    guidelines: {
+      "Styled Element Guidelines": [
+        `Import \`styled\` from \`"${importSource}"\` and define styled elements at module scope, never inside a component body`,
+        "Name the root element `Root` and sub-elements by role (`Container`)",
+        "Use transient `$` props for style-only props (`styled.aside<{ $collapsed?: boolean }>`)",
+        'Add `"use client"` to files that define styled elements (Next.js App Router)',
+        "No Tailwind utility classes, `.css` files, the `css` prop or inline `style` props for layout",
+      ],
+      ...createCSSGuidelines("Inner `Container` styled element", "nested `@media (min-width: <minWidth>px)` blocks"),
+    },
+  }
+}
+
+/**
+ * CSS solution별 지침 레지스트리
+ */
+export const STYLING_GUIDES: Record<GuideCSSSolution, StylingGuide> = {
+  tailwind: tailwindGuide,
+  "css-modules": cssModulesGuide,
+  "styled-components": createCssInJsGuide("styled-components"),
+  emotion: createCssInJsGuide("emotion"),
+}
+
+/**
+ * 지침이 있는 CSS solution인지 확인 (PromptGenerationOptions.cssSolution으로 넘길 수 있는 값)
+ */
+export function isGuideCSSSolution(cssSolution: string): cssSolution is GuideCSSSolution {
+  return Object.prototype.hasOwnProperty.call(STYLING_GUIDES, cssSolution)
+}
+
+/**
+ * 스타일링 지침 조회 (알 수 없는 CSS solution은 Tailwind)
+ *
+ * @example
+ * getStylingGuide("css-modules").utilityClasses // false
+ */
+export function getStylingGuide(cssSolution: string | undefined): StylingGuide {
+  return cssSolution && isGuideCSSSolution(cssSolution) ? STYLING_GUIDES[cssSolution] : tailwindGuide
+}
@@ -2,14 +2,21 @@ import type {
   LaydlerSchema,
   Component,
   Breakpoint,
+  BreakpointInheritanceMode,
   ComponentPositioning,
   ComponentLayout,
   ComponentStyling,
   ResponsiveBehavior,
 } from "@/types/schema"
 import { describeVisualLayout } from "./visual-layout-descriptor"
+import { getChildComponents, getRootComponents } from "./component-tree"
 import { generateGridCSS, generateTailwindClasses } from "./canvas-to-grid"
 import { sortComponentsByCanvasCoordinates, getComponentCanvasLayout } from "./canvas-sort-utils"
+import {
+  describeBreakpointChanges,
+  getBreakpointChanges,
+  hasBreakpointChanges,
+} from "./breakpoint-inheritance"
 
 /**
  * Prompt Template Types for Schema
@@ -28,28 +35,26 @@ export interface PromptTemplate {
   layoutSection: (
     components: Component[],
     breakpoints: Breakpoint[],
-    layouts: LaydlerSchema["layouts"]
+    layouts: LaydlerSchema["layouts"],
+    options?: LayoutSectionOptions
   ) => string
   instructionsSection: () => string
 }
 
 /**
- * React + Tailwind CSS Template for Schema
- *
- * Based on Component Independence architecture
+ * Layout section 옵션
  */
-export const reactTailwindTemplate: PromptTemplate = {
-  framework: "react",
-  cssSolution: "tailwind",
-
-  systemPrompt: `**Note:** This is a specification-based task. Follow the schema exactly without creative deviations.
-
-You are a senior React developer with expertise in modern web development, responsive design, and best practices.
-
-**Your Task:**
-Generate a production-quality, responsive layout component based on the provided Visual Layout Builder Schema specifications.
+export interface LayoutSectionOptions {
+  /** Breakpoint 상속 모드: 설정 시 상속 대상과 같은 breakpoint는 차이만 설명 */
+  inheritance?: BreakpointInheritanceMode
+}
 
-**Schema Architecture (Component Independence):**
+/**
+ * Shared prompt guides (framework-agnostic)
+ *
+ * 프레임워크별 템플릿이 공통으로 사용하는 Schema 설명 및 wireframe 스타일 규칙
+ */
+const SCHEMA_ARCHITECTURE_GUIDE = `**Schema Architecture (Component Independence):**
 
 The Visual Layout Builder Schema follows a **Component-First** approach where each component is independently defined with its own:
 - **Positioning Strategy**: How the component is positioned (fixed, sticky, static, absolute, relative)
@@ -73,7 +78,108 @@ The Visual Layout Builder Schema follows a **Component-First** approach where ea
 - Accessible semantic HTML
 - Clean, maintainable code structure
 - Proper use of Tailwind CSS utility classes
-- Responsive design following mobile-first principles
+- Responsive design following mobile-first principles`
+
+const LAYOUT_ONLY_GUIDE = `**🎨 Layout-Only Code Generation (2025 Philosophy):**
+
+This is a **pure layout builder tool**. We provide ONLY the structural layout - users will add their own themes and styling.
+
+**✅ DO Generate:**
+- Component wrapper with correct semantic tag
+- Positioning classes (sticky, fixed, absolute, relative, static)
+- Layout classes (flex, grid, container)
+- **MANDATORY borders on ALL components** (\`border-gray-300\`) - see Component-Specific Standards below
+- Minimal rounded corners for sections/articles (\`rounded-lg\`, \`rounded-md\`, \`rounded\`)
+- Responsive behavior (hidden, width overrides, responsive utilities)
+- ARIA attributes for accessibility (role, aria-label, etc.)
+- Focus states for keyboard navigation (\`focus-within:ring-2\`)
+- Motion reduce support (\`motion-reduce:transition-none\`)
+- **Content**: Display ONLY component name and ID (e.g., "Header (c1)") - NO additional text
+
+**❌ DO NOT Generate:**
+- Theme colors (\`bg-blue\`, \`bg-purple\`, \`text-white\`, gradients)
+- Shadows (\`shadow-sm\`, \`shadow-md\`, \`shadow-lg\`)
+- Background colors except \`bg-white\` for sticky/fixed headers
+- Typography styles (\`prose\`, \`font-fancy\`, custom font classes)
+- Placeholder content beyond component name + ID
+- Mock text, lorem ipsum, or feature descriptions
+- Navigation links, buttons with text, or interactive elements
+- Icons, images, or decorative elements
+- Any creative additions beyond the schema specifications
+
+**🚨 CRITICAL - User Theme Freedom:**
+The generated layout must be a **blank canvas** for users to apply their own:
+- Brand colors
+- Custom shadows
+- Border radius styles
+- Background patterns
+- Typography systems
+
+Only use gray-scale colors for layout division (e.g., \`border-gray-300\`). All theme colors will be added by the user.`
+
+const STYLING_RULES_GUIDE = `**🎯 Critical Styling Rules:**
+
+1. **EVERY component MUST have a border** (\`border-gray-300\`)
+2. **Content MUST be**: "ComponentName (id)" only (e.g., "Header (c1)")
+3. **No backgrounds** except:
+   - \`bg-white\` for sticky/fixed headers (positioning clarity)
+   - \`bg-gray-50\` for subtle division (optional, rare)
+4. **Consistent padding**: p-4 (mobile), p-6 (tablet), p-8 (desktop)
+5. **Border positions**:
+   - Header: \`border-b\` (bottom only)
+   - Footer: \`border-t\` (top only)
+   - Sidebar Nav/Aside: \`border-r\` or \`border-l\` (side only)
+   - Main/Section/Article/Div: \`border\` (all sides)
+6. **Rounded corners** (minimal):
+   - Section: \`rounded-lg\`
+   - Article: \`rounded-md\`
+   - Generic: \`rounded\`
+   - Header/Footer/Nav: no rounding
+7. **Tailwind Class Order**: positioning → box-model → borders → backgrounds → typography
+
+**Approach:**
+1. Read and understand the complete Schema specification
+2. Plan the component structure and relationships
+3. Implement each component following its specifications exactly
+4. Apply responsive behavior for each breakpoint
+5. Ensure accessibility and semantic HTML compliance
+
+Let's build a high-quality, production-ready layout.`
+
+/**
+ * Component tag별 wireframe 스타일 요약 (JSX 예시가 없는 템플릿용)
+ */
+const TAG_STYLING_GUIDE = `**📐 Component-Specific Styling Standards (2025 Wireframe Philosophy):**
+
+**All components MUST include borders for clear layout visualization.**
+
+- **\`<header>\`**: \`border-b border-gray-300 py-4 px-6 flex items-center justify-between\` (+ \`sticky top-0 z-50 bg-white\` if sticky/fixed)
+- **\`<nav>\` (horizontal)**: \`border-b border-gray-300 py-2 px-4 flex gap-6\`
+- **\`<nav>\` (sidebar)**: \`border-r border-gray-300 py-4 px-4 w-64 flex flex-col gap-2\`
+- **\`<main>\`**: \`border border-gray-300 p-4 md:p-6 lg:p-8 flex-1 flex flex-col gap-6\`
+- **\`<aside>\`**: \`border-l border-gray-300 p-4 w-64 lg:w-80 flex flex-col gap-4\`
+- **\`<footer>\`**: \`border-t border-gray-300 py-6 px-6 flex justify-center\`
+- **\`<section>\`**: \`border border-gray-300 p-4 md:p-6 rounded-lg flex flex-col gap-4\`
+- **\`<article>\`**: \`border border-gray-300 p-4 rounded-md flex flex-col gap-3\`
+- **\`<div>\` / \`<form>\`**: \`border border-gray-300 p-4 rounded\``
+
+/**
+ * React + Tailwind CSS Template for Schema
+ *
+ * Based on Component Independence architecture
+ */
+export const reactTailwindTemplate: PromptTemplate = {
+  framework: "react",
+  cssSolution: "tailwind",
+
+  systemPrompt: `**Note:** This is a specification-based task. Follow the schema exactly without creative deviations.
+
+You are a senior React developer with expertise in modern web development, responsive design, and best practices.
+
+**Your Task:**
+Generate a production-quality, responsive layout component based on the provided Visual Layout Builder Schema specifications.
+
+${SCHEMA_ARCHITECTURE_GUIDE}
 
 **Code Quality Standards (2025):**
 
@@ -201,42 +307,7 @@ If you prefer to reduce duplication, you can extract \`cn()\` to a shared file:
 </div>
 \`\`\`
 
-**🎨 Layout-Only Code Generation (2025 Philosophy):**
-
-This is a **pure layout builder tool**. We provide ONLY the structural layout - users will add their own themes and styling.
-
-**✅ DO Generate:**
-- Component wrapper with correct semantic tag
-- Positioning classes (sticky, fixed, absolute, relative, static)
-- Layout classes (flex, grid, container)
-- **MANDATORY borders on ALL components** (\`border-gray-300\`) - see Component-Specific Standards below
-- Minimal rounded corners for sections/articles (\`rounded-lg\`, \`rounded-md\`, \`rounded\`)
-- Responsive behavior (hidden, width overrides, responsive utilities)
-- ARIA attributes for accessibility (role, aria-label, etc.)
-- Focus states for keyboard navigation (\`focus-within:ring-2\`)
-- Motion reduce support (\`motion-reduce:transition-none\`)
-- **Content**: Display ONLY component name and ID (e.g., "Header (c1)") - NO additional text
-
-**❌ DO NOT Generate:**
-- Theme colors (\`bg-blue\`, \`bg-purple\`, \`text-white\`, gradients)
-- Shadows (\`shadow-sm\`, \`shadow-md\`, \`shadow-lg\`)
-- Background colors except \`bg-white\` for sticky/fixed headers
-- Typography styles (\`prose\`, \`font-fancy\`, custom font classes)
-- Placeholder content beyond component name + ID
-- Mock text, lorem ipsum, or feature descriptions
-- Navigation links, buttons with text, or interactive elements
-- Icons, images, or decorative elements
-- Any creative additions beyond the schema specifications
-
-**🚨 CRITICAL - User Theme Freedom:**
-The generated layout must be a **blank canvas** for users to apply their own:
-- Brand colors
-- Custom shadows
-- Border radius styles
-- Background patterns
-- Typography systems
-
-Only use gray-scale colors for layout division (e.g., \`border-gray-300\`). All theme colors will be added by the user.
+${LAYOUT_ONLY_GUIDE}
 
 **📐 Component-Specific Styling Standards (2025 Wireframe Philosophy):**
 
@@ -348,202 +419,11 @@ Only use gray-scale colors for layout division (e.g., \`border-gray-300\`). All
 </div>
 \`\`\`
 
-**🎯 Critical Styling Rules:**
-
-1. **EVERY component MUST have a border** (\`border-gray-300\`)
-2. **Content MUST be**: "ComponentName (id)" only (e.g., "Header (c1)")
-3. **No backgrounds** except:
-   - \`bg-white\` for sticky/fixed headers (positioning clarity)
-   - \`bg-gray-50\` for subtle division (optional, rare)
-4. **Consistent padding**: p-4 (mobile), p-6 (tablet), p-8 (desktop)
-5. **Border positions**:
-   - Header: \`border-b\` (bottom only)
-   - Footer: \`border-t\` (top only)
-   - Sidebar Nav/Aside: \`border-r\` or \`border-l\` (side only)
-   - Main/Section/Article/Div: \`border\` (all sides)
-6. **Rounded corners** (minimal):
-   - Section: \`rounded-lg\`
-   - Article: \`rounded-md\`
-   - Generic: \`rounded\`
-   - Header/Footer/Nav: no rounding
-7. **Tailwind Class Order**: positioning → box-model → borders → backgrounds → typography
-
-**Approach:**
-1. Read and understand the complete Schema specification
-2. Plan the component structure and relationships
-3. Implement each component following its specifications exactly
-4. Apply responsive behavior for each breakpoint
-5. Ensure accessibility and semantic HTML compliance
-
-Let's build a high-quality, production-ready layout.`,
-
-  componentSection: (components: Component[]) => {
-    let section = `## Components\n\n`
-    section += `You need to create ${components.length} components with the following specifications:\n\n`
-
-    components.forEach((comp, index) => {
-      section += `### ${index + 1}. ${comp.name} (${comp.id})\n`
-      section += `- **Semantic Tag:** \`<${comp.semanticTag}>\`\n`
-      section += `- **Component Name:** \`${comp.name}\`\n\n`
-
-      // Positioning
-      section += formatPositioning(comp.positioning)
-
-      // Layout
-      section += formatLayout(comp.layout)
-
-      // Styling
-      if (comp.styling) {
-        section += formatStyling(comp.styling)
-      }
-
-      // Props (ARIA attributes, accessibility)
-      if (comp.props) {
-        section += formatProps(comp.props)
-      }
-
-      // Responsive
-      if (comp.responsive) {
-        section += formatResponsive(comp.responsive)
-      }
-
-      section += `---\n\n`
-    })
-
-    return section
-  },
-
-  layoutSection: (components: Component[], breakpoints: Breakpoint[], layouts: LaydlerSchema["layouts"]) => {
-    let section = `## Responsive Page Structure\n\n`
-    section += `Implement the following page structures for each breakpoint:\n\n`
-
-    breakpoints.forEach((breakpoint, index) => {
-      const layoutKey = breakpoint.name  // Dynamic breakpoint support
-      const layout = layouts[layoutKey]
-      if (!layout) return
-
-      section += `### ${index + 1}. ${breakpoint.name.charAt(0).toUpperCase() + breakpoint.name.slice(1)} (≥${breakpoint.minWidth}px)\n\n`
-
-      // Visual Layout Description (Canvas Grid information)
-      try {
-        const layoutDesc = describeVisualLayout(
-          components,
-          layoutKey,
-          breakpoint.gridCols,
-          breakpoint.gridRows
-        )
-
-        section += `**Visual Layout (Canvas Grid):**\n\n`
-        section += `${layoutDesc.summary}\n\n`
-
-        // Row-by-row description
-        layoutDesc.rowByRow.forEach((row) => {
-          section += `- ${row}\n`
-        })
-        section += "\n"
-
-        // Spatial relationships
-        if (layoutDesc.spatialRelationships.length > 0) {
-          section += `**Spatial Relationships:**\n\n`
-          layoutDesc.spatialRelationships.forEach((rel) => {
-            section += `- ${rel}\n`
-          })
-          section += "\n"
-        }
-
-        // CSS Grid Positioning
-        const gridCSS = generateGridCSS(layoutDesc.visualLayout)
-        const tailwindClasses = generateTailwindClasses(layoutDesc.visualLayout)
-
-        section += `**CSS Grid Positioning:**\n\n`
-        section += `For precise 2D positioning, use CSS Grid:\n\n`
-        section += `\`\`\`css\n`
-        section += gridCSS
-        section += `\`\`\`\n\n`
-
-        section += `Or with Tailwind CSS (Arbitrary Values):\n\n`
-        section += `Container: \`${tailwindClasses.container}\`\n\n`
-        section += `**Note:** \`grid-rows-[repeat(N,auto)]\` uses Tailwind arbitrary values (v3.0+) for auto-sizing rows.\n\n`
-        section += `Components:\n`
-        Object.entries(tailwindClasses.components).forEach(([id, classes]) => {
-          const comp = components.find(c => c.id === id)
-          section += `- **${comp?.name} (${id})**: \`${classes}\`\n`
-        })
-        section += "\n"
-
-        // Implementation Strategy
-        section += `**Implementation Strategy:**\n\n`
-        layoutDesc.implementationHints.forEach((hint) => {
-          section += `- ${hint}\n`
-        })
-        section += "\n"
-
-      } catch (error) {
-        // Fallback: When Canvas coordinate information is missing (backward compatibility)
-        // Only log in development environment (not production)
-        if (process.env.NODE_ENV !== 'production') {
-          console.warn(`Visual layout description failed for ${layoutKey}:`, error)
-        }
-      }
-
-      // Structure type with dynamic descriptions
-      const flowDescriptions: Record<string, string> = {
-        vertical: "vertical scrolling layout",
-        horizontal: "horizontal scrolling layout",
-        "sidebar-main": "sidebar layout with main content area",
-        "sidebar-main-sidebar": "three-column layout with left and right sidebars",
-        custom: "custom layout structure"
-      }
-      const flowDescription = flowDescriptions[layout.structure] || layout.structure
-      section += `**Page Flow:** \`${layout.structure}\` (${flowDescription})\n\n`
-
-      // IMPORTANT: Layout Priority (shown first)
-      section += `**🚨 IMPORTANT - Layout Priority:**\n\n`
-      section += `1. **PRIMARY**: Use the **Visual Layout (Canvas Grid)** positioning above as your main guide\n`
-      section += `2. **SECONDARY**: The DOM order below is for reference only (accessibility/SEO)\n`
-      section += `3. **RULE**: Components with the same Y-coordinate range MUST be placed side-by-side horizontally\n`
-      section += `4. **DO NOT** stack components vertically if they share the same row in the Canvas Grid\n\n`
-
-      // Component order (DOM order) - Sorted by Canvas coordinates
-      section += `**Component Order (DOM):**\n\n`
-      section += `For screen readers and SEO crawlers, the HTML source order is:\n\n`
-      section += `⚠️ **Note:** Visual positioning may differ from DOM order. Use Canvas Grid coordinates for layout.\n\n`
-
-      // Performance: Use shared utility function with Map-based O(n log n) sorting
-      // Previous implementation: O(n²) due to Array.find() in sort comparator
-      const sortedComponents = sortComponentsByCanvasCoordinates(
-        layout.components,
-        components,
-        layoutKey
-      )
-
+${STYLING_RULES_GUIDE}`,
 
-      sortedComponents.forEach((componentId: string, idx: number) => {
-        const comp = components.find(c => c.id === componentId)
-        if (!comp) return
+  componentSection: formatComponentSection,
 
-        const canvasLayout = getComponentCanvasLayout(comp, layoutKey)
-        section += `${idx + 1}. ${componentId}`
-        if (canvasLayout) {
-          section += ` (Canvas row ${canvasLayout.y})`
-        }
-        section += `\n`
-      })
-      section += `\n**⚠️ WARNING:** This DOM order differs from visual positioning. Always follow Canvas Grid coordinates for layout!\n\n`
-
-      // Roles (if structure is sidebar-main)
-      if (layout.roles && Object.keys(layout.roles).length > 0) {
-        section += `**Layout Roles:**\n`
-        if (layout.roles.header) section += `- **Header:** ${layout.roles.header}\n`
-        if (layout.roles.sidebar) section += `- **Sidebar:** ${layout.roles.sidebar}\n`
-        if (layout.roles.main) section += `- **Main:** ${layout.roles.main}\n`
-        if (layout.roles.footer) section += `- **Footer:** ${layout.roles.footer}\n`
-        section += "\n"
-      }
-    })
-
-    return section
-  },
+  layoutSection: formatLayoutSection,
 
   instructionsSection: () => {
     return `## Implementation Instructions\n\n` +
@@ -755,49 +635,846 @@ Let's build a high-quality, production-ready layout.`,
 }
 
 /**
- * Helper function to format positioning specification for AI prompt
- *
- * Converts ComponentPositioning object to formatted markdown text
- * describing the component's positioning strategy and CSS values.
+ * Vue 3 + Tailwind CSS Template for Schema
  *
- * @param positioning - Component positioning configuration
- * @returns Formatted markdown text describing positioning (strategy, top, right, bottom, left, zIndex)
+ * React 템플릿과 동일한 Schema 설명/스타일 규칙을 사용하고
+ * 컴포넌트 패턴만 Vue SFC (`<script setup lang="ts">` + slots)로 변경
  */
-function formatPositioning(positioning: ComponentPositioning): string {
-  let text = `**Positioning:**\n`
-  text += `- Type: \`${positioning.type}\`\n`
+export const vueTailwindTemplate: PromptTemplate = {
+  framework: "vue",
+  cssSolution: "tailwind",
 
-  if (positioning.position) {
-    const { top, right, bottom, left, zIndex } = positioning.position
-    const posValues: string[] = []
+  systemPrompt: `**Note:** This is a specification-based task. Follow the schema exactly without creative deviations.
 
-    if (top !== undefined) posValues.push(`top: ${top}`)
-    if (right !== undefined) posValues.push(`right: ${right}`)
-    if (bottom !== undefined) posValues.push(`bottom: ${bottom}`)
-    if (left !== undefined) posValues.push(`left: ${left}`)
-    if (zIndex !== undefined) posValues.push(`zIndex: ${zIndex}`)
+You are a senior Vue developer with expertise in Vue 3, the Composition API, responsive design, and best practices.
 
-    if (posValues.length > 0) {
-      text += `- Position values: ${posValues.join(", ")}\n`
-    }
-  }
+**Your Task:**
+Generate production-quality, responsive Vue Single File Components (SFC) based on the provided Visual Layout Builder Schema specifications.
 
-  text += "\n"
-  return text
-}
+${SCHEMA_ARCHITECTURE_GUIDE}
+
+**Code Quality Standards (2025):**
+
+**Vue Component Patterns:**
+- ✅ **DO** write every component as a Single File Component with \`<script setup lang="ts">\`
+- ✅ **DO** declare props with type-based \`defineProps<Props>()\` and \`withDefaults()\`
+- ✅ **DO** declare slots with \`defineSlots()\` and render content through \`<slot />\` (NOT a \`children\` prop)
+- ✅ **DO** use Vue's native \`:class\` array/object binding for conditional classes
+- ✅ **DO** include a JSDoc comment for each component's props
+- ❌ **DO NOT** use the Options API or \`defineComponent({ ... })\` objects
+- ❌ **DO NOT** use render functions or JSX
 
+**Example Component Pattern:**
+\`\`\`vue
+<script setup lang="ts">
 /**
- * Helper function to format layout specification for AI prompt
- *
- * Converts ComponentLayout object to formatted markdown text
- * describing the component's internal layout system (flex, grid, container, or none).
- *
- * @param layout - Component layout configuration
- * @returns Formatted markdown text describing layout type and configuration
+ * Header component for page navigation
  */
-function formatLayout(layout: ComponentLayout): string {
-  let text = `**Layout:**\n`
-  text += `- Type: \`${layout.type}\`\n`
+interface HeaderProps {
+  /** Positioning strategy (default: 'default') */
+  variant?: 'default' | 'sticky' | 'fixed'
+  ariaLabel?: string
+}
+
+const props = withDefaults(defineProps<HeaderProps>(), {
+  variant: 'default',
+})
+
+defineSlots<{ default?: () => unknown }>()
+</script>
+
+<template>
+  <header
+    :class="[
+      'w-full border-b border-gray-300 px-4 py-4',
+      { 'sticky top-0 z-50 bg-white': props.variant === 'sticky' },
+    ]"
+    role="banner"
+    :aria-label="props.ariaLabel"
+  >
+    <slot />
+  </header>
+</template>
+\`\`\`
+
+**Component Structure Best Practices:**
+- ✅ **DO** use one \`.vue\` file per component (\`components/Header.vue\`)
+- ✅ **DO** compose the page in \`App.vue\` by importing components in \`<script setup>\`
+- ✅ **DO** let parent classes merge through Vue's automatic attribute fallthrough (no \`className\` prop needed)
+- ❌ **DO NOT** duplicate components for different breakpoints
+- ❌ **DO NOT** mix demo content with component logic
+- ✅ **DO** only generate layout structure with component name + ID as content
+
+**Responsive Design Without Duplication:**
+\`\`\`vue
+<!-- ❌ DON'T: Duplicate components -->
+<div class="block md:hidden"><Header>Mobile</Header></div>
+<div class="hidden md:block"><Header>Desktop</Header></div>
+
+<!-- ✅ DO: Single component with responsive behavior -->
+<div class="col-span-full">
+  <Header>
+    <nav class="hidden lg:flex gap-6">Desktop Nav</nav>
+    <button class="lg:hidden">Mobile Menu</button>
+  </Header>
+</div>
+\`\`\`
+
+${LAYOUT_ONLY_GUIDE}
+
+${TAG_STYLING_GUIDE}
+
+\`\`\`vue
+<template>
+  <main class="border border-gray-300 p-4 md:p-6 lg:p-8 flex-1 flex flex-col gap-6">
+    <slot>Main (c3)</slot>
+  </main>
+</template>
+\`\`\`
+
+${STYLING_RULES_GUIDE}`,
+
+  componentSection: formatComponentSection,
+
+  layoutSection: formatLayoutSection,
+
+  instructionsSection: () =>
+    formatTailwindInstructions({
+      entryFile: "App.vue",
+      codeLanguage: "vue",
+      layoutExample:
+        `<script setup lang="ts">\n` +
+        `import Header from './components/Header.vue'\n` +
+        `import Sidebar from './components/Sidebar.vue'\n` +
+        `import MainContent from './components/MainContent.vue'\n` +
+        `</script>\n\n` +
+        `<template>\n` +
+        `  <!-- Container: Grid with auto rows (Tailwind arbitrary values) -->\n` +
+        `  <div class="grid grid-cols-12 grid-rows-[repeat(8,auto)] gap-4">\n` +
+        `    <!-- Wrapper: Grid positioning -->\n` +
+        `    <div class="col-span-full row-start-1 row-end-2">\n` +
+        `      <Header>Header (c1)</Header>\n` +
+        `    </div>\n\n` +
+        `    <!-- Side-by-side: Use h-full for equal heights -->\n` +
+        `    <div class="col-start-1 col-end-4 row-start-2 row-end-8 h-full">\n` +
+        `      <Sidebar class="h-full">Sidebar (c2)</Sidebar>\n` +
+        `    </div>\n\n` +
+        `    <div class="col-start-4 col-end-13 row-start-2 row-end-8 h-full">\n` +
+        `      <MainContent class="h-full">Main (c3)</MainContent>\n` +
+        `    </div>\n` +
+        `  </div>\n` +
+        `</template>\n`,
+      sideBySideNote: "class fallthrough",
+      contentOutlet: "the default slot",
+      containerHint: "Wrap the `<slot />` in a container div with max-width and centering",
+      reusabilitySection:
+        `### ♻️ Component Reusability Pattern\n\n` +
+        `**Extract a reusable GridCell wrapper:**\n\n` +
+        `\`\`\`vue\n` +
+        `<!-- components/GridCell.vue -->\n` +
+        `<script setup lang="ts">\n` +
+        `const props = withDefaults(defineProps<{\n` +
+        `  colSpan?: string\n` +
+        `  rowStart?: number\n` +
+        `  rowEnd?: number\n` +
+        `}>(), {\n` +
+        `  colSpan: 'col-span-full',\n` +
+        `})\n` +
+        `</script>\n\n` +
+        `<template>\n` +
+        `  <div :class="[props.colSpan, props.rowStart && \`row-start-\${props.rowStart}\`, props.rowEnd && \`row-end-\${props.rowEnd}\`]">\n` +
+        `    <slot />\n` +
+        `  </div>\n` +
+        `</template>\n` +
+        `\`\`\`\n\n` +
+        `**Note:** Tailwind scans source files for complete class names. When building classes dynamically (e.g., \`row-start-\${n}\`), add them to the \`safelist\` in \`tailwind.config\`.\n\n`,
+      checklistTitle: "Vue & TypeScript",
+      checklist: [
+        "Every component is an SFC using `<script setup lang=\"ts\">`",
+        "Props declared with `defineProps<Props>()` (+ `withDefaults` for defaults)",
+        "Content rendered via `<slot />` - NO `children` prop",
+        "Conditional classes use `:class` array/object binding",
+        "`App.vue` imports and composes all components",
+      ],
+    }),
+}
+
+/**
+ * Svelte 5 + Tailwind CSS Template for Schema
+ *
+ * Svelte 5 runes (`$props()`) + snippets (`{@render children()}`) 기반
+ */
+export const svelteTailwindTemplate: PromptTemplate = {
+  framework: "svelte",
+  cssSolution: "tailwind",
+
+  systemPrompt: `**Note:** This is a specification-based task. Follow the schema exactly without creative deviations.
+
+You are a senior Svelte developer with expertise in Svelte 5 (runes), responsive design, and best practices.
+
+**Your Task:**
+Generate production-quality, responsive Svelte 5 components based on the provided Visual Layout Builder Schema specifications.
+
+${SCHEMA_ARCHITECTURE_GUIDE}
+
+**Code Quality Standards (2025):**
+
+**Svelte 5 Component Patterns:**
+- ✅ **DO** use \`<script lang="ts">\` and Svelte 5 runes (\`$props()\`, \`$state()\`, \`$derived()\`)
+- ✅ **DO** type props with an interface and destructure them from \`$props()\`
+- ✅ **DO** receive content as a \`children\` snippet (\`Snippet\` type) and render it with \`{@render children?.()}\`
+- ✅ **DO** use class arrays/objects (\`class={[...]}\`, Svelte 5.16+) for conditional classes
+- ✅ **DO** forward remaining attributes with \`{...rest}\` so parents can pass \`class\` and ARIA props
+- ❌ **DO NOT** use Svelte 4 syntax (\`export let\`, \`<slot />\`, \`$:\` reactive statements)
+- ❌ **DO NOT** use \`createEventDispatcher\` (use callback props instead)
+
+**Example Component Pattern:**
+\`\`\`svelte
+<script lang="ts">
+  import type { Snippet } from 'svelte'
+  import type { HTMLAttributes } from 'svelte/elements'
+
+  /**
+   * Header component for page navigation
+   */
+  interface HeaderProps extends HTMLAttributes<HTMLElement> {
+    /** Positioning strategy (default: 'default') */
+    variant?: 'default' | 'sticky' | 'fixed'
+    children?: Snippet
+  }
+
+  let { variant = 'default', children, class: className, ...rest }: HeaderProps = $props()
+</script>
+
+<header
+  class={[
+    'w-full border-b border-gray-300 px-4 py-4',
+    variant === 'sticky' && 'sticky top-0 z-50 bg-white',
+    className,
+  ]}
+  role="banner"
+  {...rest}
+>
+  {@render children?.()}
+</header>
+\`\`\`
+
+**Component Structure Best Practices:**
+- ✅ **DO** use one \`.svelte\` file per component (\`components/Header.svelte\`)
+- ✅ **DO** compose the page in \`App.svelte\` by importing components
+- ❌ **DO NOT** duplicate components for different breakpoints
+- ❌ **DO NOT** mix demo content with component logic
+- ✅ **DO** only generate layout structure with component name + ID as content
+
+**Responsive Design Without Duplication:**
+\`\`\`svelte
+<!-- ❌ DON'T: Duplicate components -->
+<div class="block md:hidden"><Header>Mobile</Header></div>
+<div class="hidden md:block"><Header>Desktop</Header></div>
+
+<!-- ✅ DO: Single component with responsive behavior -->
+<div class="col-span-full">
+  <Header>
+    <nav class="hidden lg:flex gap-6">Desktop Nav</nav>
+    <button class="lg:hidden">Mobile Menu</button>
+  </Header>
+</div>
+\`\`\`
+
+${LAYOUT_ONLY_GUIDE}
+
+${TAG_STYLING_GUIDE}
+
+${STYLING_RULES_GUIDE}`,
+
+  componentSection: formatComponentSection,
+
+  layoutSection: formatLayoutSection,
+
+  instructionsSection: () =>
+    formatTailwindInstructions({
+      entryFile: "App.svelte",
+      codeLanguage: "svelte",
+      layoutExample:
+        `<script lang="ts">\n` +
+        `  import Header from './components/Header.svelte'\n` +
+        `  import Sidebar from './components/Sidebar.svelte'\n` +
+        `  import MainContent from './components/MainContent.svelte'\n` +
+        `</script>\n\n` +
+        `<!-- Container: Grid with auto rows (Tailwind arbitrary values) -->\n` +
+        `<div class="grid grid-cols-12 grid-rows-[repeat(8,auto)] gap-4">\n` +
+        `  <!-- Wrapper: Grid positioning -->\n` +
+        `  <div class="col-span-full row-start-1 row-end-2">\n` +
+        `    <Header>Header (c1)</Header>\n` +
+        `  </div>\n\n` +
+        `  <!-- Side-by-side: Use h-full for equal heights -->\n` +
+        `  <div class="col-start-1 col-end-4 row-start-2 row-end-8 h-full">\n` +
+        `    <Sidebar class="h-full">Sidebar (c2)</Sidebar>\n` +
+        `  </div>\n\n` +
+        `  <div class="col-start-4 col-end-13 row-start-2 row-end-8 h-full">\n` +
+        `    <MainContent class="h-full">Main (c3)</MainContent>\n` +
+        `  </div>\n` +
+        `</div>\n`,
+      sideBySideNote: "forwarded `class` prop",
+      contentOutlet: "the `children` snippet",
+      containerHint: "Wrap `{@render children?.()}` in a container div with max-width and centering",
+      checklistTitle: "Svelte 5 & TypeScript",
+      checklist: [
+        "Every component uses `<script lang=\"ts\">` with `$props()`",
+        "Content rendered via `{@render children?.()}` - NO `<slot />`",
+        "NO Svelte 4 syntax (`export let`, `$:`)",
+        "Remaining attributes (including `class`) forwarded with `{...rest}`",
+        "`App.svelte` imports and composes all components",
+      ],
+    }),
+}
+
+/**
+ * SolidJS + Tailwind CSS Template for Schema
+ *
+ * JSX는 React와 유사하지만 `class`, `classList`, props 비구조화 금지 등 Solid 관례 적용
+ */
+export const solidTailwindTemplate: PromptTemplate = {
+  framework: "solid",
+  cssSolution: "tailwind",
+
+  systemPrompt: `**Note:** This is a specification-based task. Follow the schema exactly without creative deviations.
+
+You are a senior SolidJS developer with expertise in fine-grained reactivity, responsive design, and best practices.
+
+**Your Task:**
+Generate production-quality, responsive SolidJS components based on the provided Visual Layout Builder Schema specifications.
+
+${SCHEMA_ARCHITECTURE_GUIDE}
+
+**Code Quality Standards (2025):**
+
+**SolidJS Component Patterns:**
+- ✅ **DO** type props with \`ParentProps<T>\` from \`solid-js\`
+- ✅ **DO** access props as \`props.x\` or split them with \`splitProps()\`
+- ✅ **DO** use the \`class\` attribute (NOT \`className\`) and \`classList\` for conditional classes
+- ✅ **DO** render content with \`{props.children}\`
+- ✅ **DO** use \`<Show>\` and \`<For>\` for control flow
+- ❌ **DO NOT** destructure props in the function signature (breaks reactivity)
+- ❌ **DO NOT** import from \`react\` or use React hooks
+
+**Example Component Pattern:**
+\`\`\`tsx
+import { splitProps, type ParentProps } from 'solid-js'
+
+type HeaderProps = ParentProps<{
+  /** Positioning strategy (default: 'default') */
+  variant?: 'default' | 'sticky' | 'fixed'
+  class?: string
+  'aria-label'?: string
+}>
+
+/**
+ * Header component for page navigation
+ */
+function Header(props: HeaderProps) {
+  const [local, others] = splitProps(props, ['variant', 'class', 'children'])
+
+  return (
+    <header
+      class={\`w-full border-b border-gray-300 px-4 py-4 \${local.class ?? ''}\`}
+      classList={{ 'sticky top-0 z-50 bg-white': local.variant === 'sticky' }}
+      role="banner"
+      {...others}
+    >
+      {local.children}
+    </header>
+  )
+}
+
+export { Header }
+export type { HeaderProps }
+\`\`\`
+
+**Component Structure Best Practices:**
+- ✅ **DO** use one \`.tsx\` file per component (\`components/Header.tsx\`)
+- ✅ **DO** compose the page in \`App.tsx\`
+- ❌ **DO NOT** duplicate components for different breakpoints
+- ❌ **DO NOT** mix demo content with component logic
+- ✅ **DO** only generate layout structure with component name + ID as content
+
+**Responsive Design Without Duplication:**
+\`\`\`tsx
+// ❌ DON'T: Duplicate components
+<div class="block md:hidden"><Header>Mobile</Header></div>
+<div class="hidden md:block"><Header>Desktop</Header></div>
+
+// ✅ DO: Single component with responsive behavior
+<div class="col-span-full">
+  <Header>
+    <nav class="hidden lg:flex gap-6">Desktop Nav</nav>
+    <button class="lg:hidden">Mobile Menu</button>
+  </Header>
+</div>
+\`\`\`
+
+${LAYOUT_ONLY_GUIDE}
+
+${TAG_STYLING_GUIDE}
+
+${STYLING_RULES_GUIDE}`,
+
+  componentSection: formatComponentSection,
+
+  layoutSection: formatLayoutSection,
+
+  instructionsSection: () =>
+    formatTailwindInstructions({
+      entryFile: "App.tsx",
+      codeLanguage: "tsx",
+      layoutExample:
+        `import { Header } from './components/Header'\n` +
+        `import { Sidebar } from './components/Sidebar'\n` +
+        `import { MainContent } from './components/MainContent'\n\n` +
+        `export default function App() {\n` +
+        `  return (\n` +
+        `    // Container: Grid with auto rows (Tailwind arbitrary values)\n` +
+        `    <div class="grid grid-cols-12 grid-rows-[repeat(8,auto)] gap-4">\n` +
+        `      {/* Wrapper: Grid positioning */}\n` +
+        `      <div class="col-span-full row-start-1 row-end-2">\n` +
+        `        <Header>Header (c1)</Header>\n` +
+        `      </div>\n\n` +
+        `      {/* Side-by-side: Use h-full for equal heights */}\n` +
+        `      <div class="col-start-1 col-end-4 row-start-2 row-end-8 h-full">\n` +
+        `        <Sidebar class="h-full">Sidebar (c2)</Sidebar>\n` +
+        `      </div>\n\n` +
+        `      <div class="col-start-4 col-end-13 row-start-2 row-end-8 h-full">\n` +
+        `        <MainContent class="h-full">Main (c3)</MainContent>\n` +
+        `      </div>\n` +
+        `    </div>\n` +
+        `  )\n` +
+        `}\n`,
+      sideBySideNote: "`class` prop",
+      contentOutlet: "`props.children`",
+      containerHint: "Wrap `{props.children}` in a container div with max-width and centering",
+      checklistTitle: "SolidJS & TypeScript",
+      checklist: [
+        "Props typed with `ParentProps<T>` and never destructured in the signature",
+        "`class` / `classList` used instead of `className`",
+        "Content rendered via `{props.children}`",
+        "Control flow uses `<Show>` / `<For>` instead of ternaries and `.map()`",
+        "`App.tsx` imports and composes all components",
+      ],
+    }),
+}
+
+/**
+ * React + CSS Modules Template for Schema
+ *
+ * Tailwind를 사용하지 않는 코드베이스용
+ * - component마다 `.module.css` 파일 (`styles.root`)
+ * - 반응형은 Breakpoint.minWidth 기반 `@media (min-width)` query
+ */
+export const reactCssModulesTemplate: PromptTemplate = {
+  framework: "react",
+  cssSolution: "css-modules",
+
+  systemPrompt: `**Note:** This is a specification-based task. Follow the schema exactly without creative deviations.
+
+You are a senior React developer with expertise in modern web development, CSS Modules, responsive design, and best practices.
+
+**Your Task:**
+Generate a production-quality, responsive layout component based on the provided Visual Layout Builder Schema specifications, styled exclusively with CSS Modules.
+
+**🚫 No Tailwind:** The target codebase does NOT use Tailwind CSS. Do not emit utility classes (\`flex\`, \`p-4\`, \`md:hidden\`, etc.). Every style must be a real CSS declaration in a \`.module.css\` file.
+
+**Schema Architecture (Component Independence):**
+
+The Visual Layout Builder Schema follows a **Component-First** approach where each component is independently defined with its own:
+- **Positioning Strategy**: How the component is positioned (fixed, sticky, static, absolute, relative)
+- **Layout System**: Internal layout structure (flexbox, CSS grid, container, or none)
+- **Styling**: Visual properties (width, height, background, border, shadow)
+- **Responsive Behavior**: Breakpoint-specific overrides (mobile, tablet, desktop)
+
+**Core Principles:**
+1. **Component Independence**: Each component owns its stylesheet (\`Header.tsx\` + \`Header.module.css\`)
+2. **Layout Strategy**:
+   - Use CSS Grid for page-level positioning (based on Canvas Grid coordinates)
+   - Use Flexbox for component internal layout (\`display: flex\`, \`flex-direction\`, \`gap\`)
+3. **Semantic HTML First**: Follow HTML5 semantic principles (header, nav, main, aside, footer, section, article)
+4. **Mobile First**: Base rules target the smallest breakpoint; larger breakpoints use \`@media (min-width: <minWidth>px)\` with the exact \`minWidth\` values listed in the Responsive Page Structure section
+5. **Breakpoint Inheritance**: Mobile → Tablet → Desktop cascade (unspecified breakpoints inherit from previous breakpoint)
+
+**Code Quality Standards (2025):**
+
+- ❌ **DO NOT** use \`React.FC\`; use standard function components with direct prop typing
+- ✅ **DO** import styles as \`import styles from './Header.module.css'\`
+- ✅ **DO** name the root class \`.root\` and sub-elements by role (\`.container\`, \`.inner\`)
+- ✅ **DO** use camelCase class names so they are valid \`styles.xxx\` properties
+- ✅ **DO** merge an optional \`className\` prop: \`[styles.root, className].filter(Boolean).join(' ')\`
+- ❌ **DO NOT** use \`:global\` selectors or inline \`style\` props for layout
+
+**Example Component Pattern:**
+\`\`\`tsx
+import type { PropsWithChildren } from 'react'
+import styles from './Header.module.css'
+
+type HeaderProps = PropsWithChildren<{
+  className?: string
+}>
+
+/**
+ * Header component for page navigation
+ */
+function Header({ children, className }: HeaderProps) {
+  return (
+    <header className={[styles.root, className].filter(Boolean).join(' ')}>
+      {children}
+    </header>
+  )
+}
+
+export { Header }
+export type { HeaderProps }
+\`\`\`
+
+\`\`\`css
+/* Header.module.css */
+.root {
+  position: sticky;
+  top: 0;
+  z-index: 50;
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 1rem 1.5rem;
+  border-bottom: 1px solid #d1d5db;
+  background: #fff;
+}
+
+@media (min-width: 1024px) {
+  .root {
+    padding: 1rem 2rem;
+  }
+}
+\`\`\`
+
+**🎨 Layout-Only Code Generation (Wireframe Philosophy):**
+- ✅ Generate: semantic tags, positioning, flex/grid layout, borders, minimal padding, responsive rules
+- ✅ **EVERY component MUST have a 1px solid \`#d1d5db\` border** (header: bottom, footer: top, sidebars: inner side, others: all sides)
+- ✅ **Content**: Display ONLY component name and ID (e.g., "Header (c1)")
+- ❌ No theme colors, gradients, shadows, custom fonts, icons, or placeholder text
+- ❌ No backgrounds except \`#fff\` for sticky/fixed headers
+
+**Approach:**
+1. Read and understand the complete Schema specification
+2. Plan the component structure and relationships
+3. Implement each component and its \`.module.css\` following its specifications exactly
+4. Apply responsive behavior with \`min-width\` media queries for each breakpoint
+5. Ensure accessibility and semantic HTML compliance
+
+Let's build a high-quality, production-ready layout.`,
+
+  componentSection: formatComponentSection,
+
+  layoutSection: (components, breakpoints, layouts, options) =>
+    formatLayoutSection(components, breakpoints, layouts, { ...options, includeTailwindClasses: false }),
+
+  instructionsSection: () => {
+    return `## Implementation Instructions\n\n` +
+      `### 🎯 Universal Layout Pattern (page.tsx + page.module.css)\n\n` +
+      `\`\`\`tsx\n` +
+      `import styles from './page.module.css'\n\n` +
+      `export default function Page() {\n` +
+      `  return (\n` +
+      `    <div className={styles.layout}>\n` +
+      `      <div className={styles.headerCell}>\n` +
+      `        <Header>Header (c1)</Header>\n` +
+      `      </div>\n` +
+      `      <div className={styles.sidebarCell}>\n` +
+      `        <Sidebar>Sidebar (c2)</Sidebar>\n` +
+      `      </div>\n` +
+      `      <div className={styles.mainCell}>\n` +
+      `        <Main>Main (c3)</Main>\n` +
+      `      </div>\n` +
+      `    </div>\n` +
+      `  )\n` +
+      `}\n` +
+      `\`\`\`\n\n` +
+      `\`\`\`css\n` +
+      `/* page.module.css - mobile first */\n` +
+      `.layout {\n` +
+      `  display: grid;\n` +
+      `  grid-template-columns: repeat(4, minmax(0, 1fr));\n` +
+      `  grid-template-rows: repeat(8, auto);\n` +
+      `  gap: 1rem;\n` +
+      `}\n\n` +
+      `.headerCell { grid-column: 1 / -1; grid-row: 1 / 2; }\n` +
+      `.sidebarCell { grid-column: 1 / -1; grid-row: 2 / 3; }\n` +
+      `.mainCell { grid-column: 1 / -1; grid-row: 3 / 8; }\n\n` +
+      `@media (min-width: 1024px) {\n` +
+      `  .layout { grid-template-columns: repeat(12, minmax(0, 1fr)); }\n` +
+      `  .sidebarCell { grid-column: 1 / 4; grid-row: 2 / 8; height: 100%; }\n` +
+      `  .mainCell { grid-column: 4 / 13; grid-row: 2 / 8; height: 100%; }\n` +
+      `}\n` +
+      `\`\`\`\n\n` +
+      `**🚨 CRITICAL RULES (Non-Negotiable):**\n\n` +
+      `1. **Grid rows MUST be** \`repeat(N, auto)\` so rows size to content\n` +
+      `2. **Wrapper cells** handle grid placement (\`grid-column\`, \`grid-row\`) using the CSS Grid Positioning of each breakpoint\n` +
+      `3. **Component root element** (\`.root\`) contains ALL styling (border, padding, layout)\n` +
+      `4. **Side-by-side components** MUST use \`height: 100%\` on both cell AND component root\n` +
+      `5. **Media queries** use the exact breakpoint \`minWidth\` values (\`@media (min-width: 768px)\`), smallest first\n` +
+      `6. **Content** is ONLY component name + ID (e.g., "Header (c1)")\n\n` +
+      `### Positioning Guidelines\n\n` +
+      `- **static**: Default flow (no declaration needed)\n` +
+      `- **fixed / sticky / absolute**: \`position\` + offsets (\`top: 0\`) + \`z-index\` from the schema\n` +
+      `- **relative**: \`position: relative\`\n\n` +
+      `### Layout Guidelines\n\n` +
+      `- **flex**: \`display: flex\` with \`flex-direction\`, \`justify-content\`, \`align-items\`, \`gap\`\n` +
+      `- **grid**: \`display: grid\` with \`grid-template-columns\` / \`grid-template-rows\`\n` +
+      `- **container**: Inner \`.container\` element with \`max-width\`, \`margin-inline: auto\`, \`padding-inline\`\n` +
+      `- **none**: No layout declarations\n\n` +
+      `### Responsive Design Guidelines\n\n` +
+      `- **hidden**: \`display: none\` inside the breakpoint's media query (restore with the original \`display\` value)\n` +
+      `- **width / order**: Override \`width\` / \`order\` inside the breakpoint's media query\n` +
+      `- **NO component duplication** across breakpoints\n\n` +
+      `### Code Quality Checklist\n\n` +
+      `- [ ] Every component has a paired \`.module.css\` file imported as \`styles\`\n` +
+      `- [ ] NO Tailwind utility classes anywhere\n` +
+      `- [ ] Class names are camelCase (\`styles.headerCell\`)\n` +
+      `- [ ] Media queries use schema breakpoint \`minWidth\` values, mobile first\n` +
+      `- [ ] **EVERY component has a border** (\`1px solid #d1d5db\`) on its root element\n` +
+      `- [ ] NO theme colors, shadows, or decorative styling\n` +
+      `- [ ] **Content: ONLY display component name + ID** (e.g., "Header (c1)")\n`
+  },
+}
+
+/**
+ * React + CSS-in-JS Template for Schema (styled-components, Emotion)
+ *
+ * 두 라이브러리 모두 `styled.tag` API를 사용하므로 import 경로와 이름만 다름
+ * - component 파일 안에 styled component 정의
+ * - 반응형은 Breakpoint.minWidth 기반 nested `@media (min-width)` query
+ */
+function createReactCssInJsTemplate(
+  cssSolution: "styled-components" | "emotion"
+): PromptTemplate {
+  const libraryName = cssSolution === "emotion" ? "Emotion" : "styled-components"
+  const importSource = cssSolution === "emotion" ? "@emotion/styled" : "styled-components"
+
+  return {
+    framework: "react",
+    cssSolution,
+
+    systemPrompt: `**Note:** This is a specification-based task. Follow the schema exactly without creative deviations.
+
+You are a senior React developer with expertise in modern web development, ${libraryName}, TypeScript, responsive design, and best practices.
+
+**Your Task:**
+Generate a production-quality, responsive layout component based on the provided Visual Layout Builder Schema specifications, styled exclusively with ${libraryName}.
+
+**🚫 No Tailwind:** The target codebase does NOT use Tailwind CSS or CSS files. Do not emit utility classes (\`flex\`, \`p-4\`, \`md:hidden\`, etc.). Every style must be a real CSS declaration inside a \`styled\` template literal.
+
+**Schema Architecture (Component Independence):**
+
+The Visual Layout Builder Schema follows a **Component-First** approach where each component is independently defined with its own:
+- **Positioning Strategy**: How the component is positioned (fixed, sticky, static, absolute, relative)
+- **Layout System**: Internal layout structure (flexbox, CSS grid, container, or none)
+- **Styling**: Visual properties (width, height, background, border, shadow)
+- **Responsive Behavior**: Breakpoint-specific overrides (mobile, tablet, desktop)
+
+**Core Principles:**
+1. **Component Independence**: Each component file defines its own styled elements (\`const Root = styled.header\`)
+2. **Layout Strategy**:
+   - Use CSS Grid for page-level positioning (based on Canvas Grid coordinates)
+   - Use Flexbox for component internal layout (\`display: flex\`, \`flex-direction\`, \`gap\`)
+3. **Semantic HTML First**: Follow HTML5 semantic principles (header, nav, main, aside, footer, section, article)
+4. **Mobile First**: Base declarations target the smallest breakpoint; larger breakpoints use nested \`@media (min-width: <minWidth>px)\` blocks with the exact \`minWidth\` values listed in the Responsive Page Structure section
+5. **Breakpoint Inheritance**: Mobile → Tablet → Desktop cascade (unspecified breakpoints inherit from previous breakpoint)
+
+**Code Quality Standards (2025):**
+
+- ❌ **DO NOT** use \`React.FC\`; use standard function components with direct prop typing
+- ✅ **DO** import \`styled\` from \`"${importSource}"\`
+- ✅ **DO** define styled elements at module scope, never inside a component body
+- ✅ **DO** type style props with generics and transient \`$\` props (\`styled.aside<{ $collapsed?: boolean }>\`)
+- ✅ **DO** add \`"use client"\` at the top of files that define styled components (Next.js App Router)
+- ❌ **DO NOT** use the \`css\` prop, inline \`style\` props, or global styles for layout
+
+**Example Component Pattern:**
+\`\`\`tsx
+"use client"
+
+import type { ReactNode } from 'react'
+import styled from '${importSource}'
+
+const Root = styled.header\`
+  position: sticky;
+  top: 0;
+  z-index: 50;
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 1rem 1.5rem;
+  border-bottom: 1px solid #d1d5db;
+  background: #fff;
+
+  @media (min-width: 1024px) {
+    padding: 1rem 2rem;
+  }
+\`
+
+interface HeaderProps {
+  children?: ReactNode
+  className?: string
+}
+
+/**
+ * Header component for page navigation
+ */
+function Header({ children, className }: HeaderProps) {
+  return <Root className={className}>{children}</Root>
+}
+
+export { Header }
+export type { HeaderProps }
+\`\`\`
+
+**🎨 Layout-Only Code Generation (Wireframe Philosophy):**
+- ✅ Generate: semantic tags, positioning, flex/grid layout, borders, minimal padding, responsive rules
+- ✅ **EVERY component MUST have a 1px solid \`#d1d5db\` border** (header: bottom, footer: top, sidebars: inner side, others: all sides)
+- ✅ **Content**: Display ONLY component name and ID (e.g., "Header (c1)")
+- ❌ No theme providers, theme colors, gradients, shadows, custom fonts, icons, or placeholder text
+- ❌ No backgrounds except \`#fff\` for sticky/fixed headers
+
+**Approach:**
+1. Read and understand the complete Schema specification
+2. Plan the component structure and relationships
+3. Implement each component and its styled elements following its specifications exactly
+4. Apply responsive behavior with nested \`min-width\` media queries for each breakpoint
+5. Ensure accessibility and semantic HTML compliance
+
+Let's build a high-quality, production-ready layout.`,
+
+    componentSection: formatComponentSection,
+
+    layoutSection: (components, breakpoints, layouts, options) =>
+      formatLayoutSection(components, breakpoints, layouts, { ...options, includeTailwindClasses: false }),
+
+    instructionsSection: () => {
+      return `## Implementation Instructions\n\n` +
+        `### 🎯 Universal Layout Pattern (page.tsx)\n\n` +
+        `\`\`\`tsx\n` +
+        `"use client"\n\n` +
+        `import styled from '${importSource}'\n\n` +
+        `const Layout = styled.div\`\n` +
+        `  display: grid;\n` +
+        `  grid-template-columns: repeat(4, minmax(0, 1fr));\n` +
+        `  grid-template-rows: repeat(8, auto);\n` +
+        `  gap: 1rem;\n\n` +
+        `  @media (min-width: 1024px) {\n` +
+        `    grid-template-columns: repeat(12, minmax(0, 1fr));\n` +
+        `  }\n` +
+        `\`\n\n` +
+        `const Cell = styled.div<{ $mobile: string; $desktop: string }>\`\n` +
+        `  grid-area: \${(p) => p.$mobile};\n\n` +
+        `  @media (min-width: 1024px) {\n` +
+        `    grid-area: \${(p) => p.$desktop};\n` +
+        `    height: 100%;\n` +
+        `  }\n` +
+        `\`\n\n` +
+        `export default function Page() {\n` +
+        `  return (\n` +
+        `    <Layout>\n` +
+        `      <Cell $mobile="1 / 1 / 2 / -1" $desktop="1 / 1 / 2 / -1">\n` +
+        `        <Header>Header (c1)</Header>\n` +
+        `      </Cell>\n` +
+        `      <Cell $mobile="2 / 1 / 3 / -1" $desktop="2 / 1 / 8 / 4">\n` +
+        `        <Sidebar>Sidebar (c2)</Sidebar>\n` +
+        `      </Cell>\n` +
+        `      <Cell $mobile="3 / 1 / 8 / -1" $desktop="2 / 4 / 8 / 13">\n` +
+        `        <Main>Main (c3)</Main>\n` +
+        `      </Cell>\n` +
+        `    </Layout>\n` +
+        `  )\n` +
+        `}\n` +
+        `\`\`\`\n\n` +
+        `**🚨 CRITICAL RULES (Non-Negotiable):**\n\n` +
+        `1. **Grid rows MUST be** \`repeat(N, auto)\` so rows size to content\n` +
+        `2. **Wrapper cells** handle grid placement (\`grid-area\` / \`grid-column\` + \`grid-row\`) using the CSS Grid Positioning of each breakpoint\n` +
+        `3. **Component root styled element** contains ALL styling (border, padding, layout)\n` +
+        `4. **Side-by-side components** MUST use \`height: 100%\` on both cell AND component root\n` +
+        `5. **Media queries** use the exact breakpoint \`minWidth\` values (\`@media (min-width: 768px)\`), smallest first\n` +
+        `6. **Transient props** (\`$name\`) for style-only props so they never reach the DOM\n` +
+        `7. **Content** is ONLY component name + ID (e.g., "Header (c1)")\n\n` +
+        `### Positioning Guidelines\n\n` +
+        `- **static**: Default flow (no declaration needed)\n` +
+        `- **fixed / sticky / absolute**: \`position\` + offsets (\`top: 0\`) + \`z-index\` from the schema\n` +
+        `- **relative**: \`position: relative\`\n\n` +
+        `### Layout Guidelines\n\n` +
+        `- **flex**: \`display: flex\` with \`flex-direction\`, \`justify-content\`, \`align-items\`, \`gap\`\n` +
+        `- **grid**: \`display: grid\` with \`grid-template-columns\` / \`grid-template-rows\`\n` +
+        `- **container**: Inner \`Container\` styled element with \`max-width\`, \`margin-inline: auto\`, \`padding-inline\`\n` +
+        `- **none**: No layout declarations\n\n` +
+        `### Responsive Design Guidelines\n\n` +
+        `- **hidden**: \`display: none\` inside the breakpoint's media query (restore with the original \`display\` value)\n` +
+        `- **width / order**: Override \`width\` / \`order\` inside the breakpoint's media query\n` +
+        `- **NO component duplication** across breakpoints\n\n` +
+        `### Code Quality Checklist\n\n` +
+        `- [ ] Every styled element is imported from \`${importSource}\` and defined at module scope\n` +
+        `- [ ] NO Tailwind utility classes or \`.css\` files\n` +
+        `- [ ] Style-only props are typed transient props (\`$name\`)\n` +
+        `- [ ] Media queries use schema breakpoint \`minWidth\` values, mobile first\n` +
+        `- [ ] **EVERY component has a border** (\`1px solid #d1d5db\`) on its root element\n` +
+        `- [ ] NO theme colors, shadows, or decorative styling\n` +
+        `- [ ] **Content: ONLY display component name + ID** (e.g., "Header (c1)")\n`
+    },
+  }
+}
+
+export const reactStyledComponentsTemplate = createReactCssInJsTemplate("styled-components")
+
+export const reactEmotionTemplate = createReactCssInJsTemplate("emotion")
+
+/**
+ * Helper function to format positioning specification for AI prompt
+ *
+ * Converts ComponentPositioning object to formatted markdown text
+ * describing the component's positioning strategy and CSS values.
+ *
+ * @param positioning - Component positioning configuration
+ * @returns Formatted markdown text describing positioning (strategy, top, right, bottom, left, zIndex)
+ */
+function formatPositioning(positioning: ComponentPositioning): string {
+  let text = `**Positioning:**\n`
+  text += `- Type: \`${positioning.type}\`\n`
+
+  if (positioning.position) {
+    const { top, right, bottom, left, zIndex } = positioning.position
+    const posValues: string[] = []
+
+    if (top !== undefined) posValues.push(`top: ${top}`)
+    if (right !== undefined) posValues.push(`right: ${right}`)
+    if (bottom !== undefined) posValues.push(`bottom: ${bottom}`)
+    if (left !== undefined) posValues.push(`left: ${left}`)
+    if (zIndex !== undefined) posValues.push(`zIndex: ${zIndex}`)
+
+    if (posValues.length > 0) {
+      text += `- Position values: ${posValues.join(", ")}\n`
+    }
+  }
+
+  text += "\n"
+  return text
+}
+
+/**
+ * Helper function to format layout specification for AI prompt
+ *
+ * Converts ComponentLayout object to formatted markdown text
+ * describing the component's internal layout system (flex, grid, container, or none).
+ *
+ * @param layout - Component layout configuration
+ * @returns Formatted markdown text describing layout type and configuration
+ */
+function formatLayout(layout: ComponentLayout): string {
+  let text = `**Layout:**\n`
+  text += `- Type: \`${layout.type}\`\n`
 
   switch (layout.type) {
     case "flex":
@@ -921,6 +1598,306 @@ function formatResponsive(responsive: ResponsiveBehavior): string {
   return text
 }
 
+/**
+ * Parent/children nesting lines (empty when the component is not nested and has no children)
+ */
+function formatNesting(comp: Component, components: Component[]): string {
+  let text = ""
+  const parent = comp.parentId ? components.find((c) => c.id === comp.parentId) : undefined
+  if (parent) {
+    text += `- **Parent:** \`${parent.name}\` (${parent.id}) - render inside the parent component, not in the page layout\n`
+  }
+  const children = getChildComponents(components, comp.id)
+  if (children.length > 0) {
+    text += `- **Children:** ${children.map((c) => `\`${c.name}\` (${c.id})`).join(", ")} - import and render in this order inside this component\n`
+  }
+  return text
+}
+
+/**
+ * Component specification section (shared by all templates)
+ */
+function formatComponentSection(components: Component[]): string {
+  let section = `## Components\n\n`
+  section += `You need to create ${components.length} components with the following specifications:\n\n`
+
+  components.forEach((comp, index) => {
+    section += `### ${index + 1}. ${comp.name} (${comp.id})\n`
+    section += `- **Semantic Tag:** \`<${comp.semanticTag}>\`\n`
+    section += `- **Component Name:** \`${comp.name}\`\n`
+    section += formatNesting(comp, components)
+    section += `\n`
+
+    // Positioning
+    section += formatPositioning(comp.positioning)
+
+    // Layout
+    section += formatLayout(comp.layout)
+
+    // Styling
+    if (comp.styling) {
+      section += formatStyling(comp.styling)
+    }
+
+    // Props (ARIA attributes, accessibility)
+    if (comp.props) {
+      section += formatProps(comp.props)
+    }
+
+    // Responsive
+    if (comp.responsive) {
+      section += formatResponsive(comp.responsive)
+    }
+
+    section += `---\n\n`
+  })
+
+  return section
+}
+
+/**
+ * Responsive page structure section (shared by all templates)
+ *
+ * Canvas Grid 기반 시각적 배치 + DOM 순서 + layout roles
+ */
+function formatLayoutSection(
+  components: Component[],
+  breakpoints: Breakpoint[],
+  layouts: LaydlerSchema["layouts"],
+  options: LayoutSectionOptions & { includeTailwindClasses?: boolean } = {}
+): string {
+  const inheritance = options.inheritance ?? "none"
+  let section = `## Responsive Page Structure\n\n`
+  section += `Implement the following page structures for each breakpoint:\n\n`
+  if (inheritance !== "none") {
+    section += `**Breakpoint Inheritance (${inheritance}):** Breakpoints marked "same as" need no breakpoint-specific layout styles. For the others, only the listed changes differ from the breakpoint they inherit from.\n\n`
+  }
+
+  breakpoints.forEach((breakpoint, index) => {
+    const layoutKey = breakpoint.name  // Dynamic breakpoint support
+    const layout = layouts[layoutKey]
+    if (!layout) return
+
+    section += `### ${index + 1}. ${breakpoint.name.charAt(0).toUpperCase() + breakpoint.name.slice(1)} (≥${breakpoint.minWidth}px)\n\n`
+
+    // Breakpoint 상속: 실제 차이만 설명
+    const changes =
+      inheritance !== "none"
+        ? getBreakpointChanges(
+            { schemaVersion: "2.0", components, breakpoints, layouts, breakpointInheritance: inheritance },
+            layoutKey
+          )
+        : null
+    if (changes && !hasBreakpointChanges(changes)) {
+      section += `Same as ${changes.baseBreakpoint} (inherited) - no ${layoutKey}-specific layout styles needed.\n\n`
+      return
+    }
+    if (changes) {
+      section += `**Changes from ${changes.baseBreakpoint}:**\n\n`
+      describeBreakpointChanges(changes, components).forEach((line) => {
+        section += `- ${line}\n`
+      })
+      section += "\n"
+    }
+
+    // Visual Layout Description (Canvas Grid information, top-level components only)
+    try {
+      const layoutDesc = describeVisualLayout(
+        getRootComponents(components),
+        layoutKey,
+        breakpoint.gridCols,
+        breakpoint.gridRows,
+        options.includeTailwindClasses !== false
+      )
+
+      section += `**Visual Layout (Canvas Grid):**\n\n`
+      section += `${layoutDesc.summary}\n\n`
+
+      // Row-by-row description
+      layoutDesc.rowByRow.forEach((row) => {
+        section += `- ${row}\n`
+      })
+      section += "\n"
+
+      // Spatial relationships
+      if (layoutDesc.spatialRelationships.length > 0) {
+        section += `**Spatial Relationships:**\n\n`
+        layoutDesc.spatialRelationships.forEach((rel) => {
+          section += `- ${rel}\n`
+        })
+        section += "\n"
+      }
+
+      // CSS Grid Positioning
+      const gridCSS = generateGridCSS(layoutDesc.visualLayout)
+
+      section += `**CSS Grid Positioning:**\n\n`
+      section += `For precise 2D positioning, use CSS Grid:\n\n`
+      section += `\`\`\`css\n`
+      section += gridCSS
+      section += `\`\`\`\n\n`
+
+      if (options.includeTailwindClasses !== false) {
+        const tailwindClasses = generateTailwindClasses(layoutDesc.visualLayout)
+
+        section += `Or with Tailwind CSS (Arbitrary Values):\n\n`
+        section += `Container: \`${tailwindClasses.container}\`\n\n`
+        section += `**Note:** \`grid-rows-[repeat(N,auto)]\` uses Tailwind arbitrary values (v3.0+) for auto-sizing rows.\n\n`
+        section += `Components:\n`
+        Object.entries(tailwindClasses.components).forEach(([id, classes]) => {
+          const comp = components.find(c => c.id === id)
+          section += `- **${comp?.name} (${id})**: \`${classes}\`\n`
+        })
+        section += "\n"
+      }
+
+      // Implementation Strategy
+      section += `**Implementation Strategy:**\n\n`
+      layoutDesc.implementationHints.forEach((hint) => {
+        section += `- ${hint}\n`
+      })
+      section += "\n"
+
+    } catch (error) {
+      // Fallback: When Canvas coordinate information is missing (backward compatibility)
+      // Only log in development environment (not production)
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(`Visual layout description failed for ${layoutKey}:`, error)
+      }
+    }
+
+    // Structure type with dynamic descriptions
+    const flowDescriptions: Record<string, string> = {
+      vertical: "vertical scrolling layout",
+      horizontal: "horizontal scrolling layout",
+      "sidebar-main": "sidebar layout with main content area",
+      "sidebar-main-sidebar": "three-column layout with left and right sidebars",
+      custom: "custom layout structure"
+    }
+    const flowDescription = flowDescriptions[layout.structure] || layout.structure
+    section += `**Page Flow:** \`${layout.structure}\` (${flowDescription})\n\n`
+
+    // IMPORTANT: Layout Priority (shown first)
+    section += `**🚨 IMPORTANT - Layout Priority:**\n\n`
+    section += `1. **PRIMARY**: Use the **Visual Layout (Canvas Grid)** positioning above as your main guide\n`
+    section += `2. **SECONDARY**: The DOM order below is for reference only (accessibility/SEO)\n`
+    section += `3. **RULE**: Components with the same Y-coordinate range MUST be placed side-by-side horizontally\n`
+    section += `4. **DO NOT** stack components vertically if they share the same row in the Canvas Grid\n\n`
+
+    // Component order (DOM order) - Sorted by Canvas coordinates
+    section += `**Component Order (DOM):**\n\n`
+    section += `For screen readers and SEO crawlers, the HTML source order is:\n\n`
+    section += `⚠️ **Note:** Visual positioning may differ from DOM order. Use Canvas Grid coordinates for layout.\n\n`
+
+    // Performance: Use shared utility function with Map-based O(n log n) sorting
+    // Previous implementation: O(n²) due to Array.find() in sort comparator
+    const sortedComponents = sortComponentsByCanvasCoordinates(
+      layout.components,
+      components,
+      layoutKey
+    )
+
+
+    sortedComponents.forEach((componentId: string, idx: number) => {
+      const comp = components.find(c => c.id === componentId)
+      if (!comp) return
+
+      const canvasLayout = getComponentCanvasLayout(comp, layoutKey)
+      section += `${idx + 1}. ${componentId}`
+      if (canvasLayout) {
+        section += ` (Canvas row ${canvasLayout.y})`
+      }
+      section += `\n`
+    })
+    section += `\n**⚠️ WARNING:** This DOM order differs from visual positioning. Always follow Canvas Grid coordinates for layout!\n\n`
+
+    // Roles (if structure is sidebar-main)
+    if (layout.roles && Object.keys(layout.roles).length > 0) {
+      section += `**Layout Roles:**\n`
+      if (layout.roles.header) section += `- **Header:** ${layout.roles.header}\n`
+      if (layout.roles.sidebar) section += `- **Sidebar:** ${layout.roles.sidebar}\n`
+      if (layout.roles.main) section += `- **Main:** ${layout.roles.main}\n`
+      if (layout.roles.footer) section += `- **Footer:** ${layout.roles.footer}\n`
+      section += "\n"
+    }
+  })
+
+  return section
+}
+
+/**
+ * Framework별 Tailwind 구현 지침 (Vue, Svelte, Solid)
+ */
+interface TailwindInstructionSpec {
+  /** Page composition 파일 (e.g., "App.vue") */
+  entryFile: string
+  /** 예시 코드 블록 언어 */
+  codeLanguage: string
+  layoutExample: string
+  /** Side-by-side 컴포넌트에 h-full을 전달하는 방법 */
+  sideBySideNote: string
+  /** 컴포넌트 content 출력 방식 (slot, snippet, children) */
+  contentOutlet: string
+  containerHint: string
+  reusabilitySection?: string
+  checklistTitle: string
+  checklist: string[]
+}
+
+/**
+ * Implementation instructions section (Vue, Svelte, Solid 공통 구조)
+ *
+ * Universal grid pattern 예시 + 공통 Tailwind guideline + framework checklist
+ */
+function formatTailwindInstructions(spec: TailwindInstructionSpec): string {
+  return `## Implementation Instructions\n\n` +
+    `### 🎯 Universal Layout Pattern (${spec.entryFile})\n\n` +
+    `**This pattern works for ALL Canvas layouts - vertical, horizontal, side-by-side, or mixed:**\n\n` +
+    `\`\`\`${spec.codeLanguage}\n` +
+    spec.layoutExample +
+    `\`\`\`\n\n` +
+    `**🚨 CRITICAL RULES (Non-Negotiable):**\n\n` +
+    `1. **Container MUST use arbitrary values** \`grid-rows-[repeat(N,auto)]\` for auto-sizing rows (Tailwind v3.0+)\n` +
+    `2. **Wrapper div** handles grid positioning (\`col-span-*\`, \`row-start-*\`, \`row-end-*\`)\n` +
+    `3. **Component root element** contains ALL styling (border, padding, layout) - NOT a nested div\n` +
+    `4. **Side-by-side components** MUST use \`h-full\` on both wrapper AND component (${spec.sideBySideNote})\n` +
+    `5. **Content** is ONLY component name + ID (e.g., "Header (c1)") passed through ${spec.contentOutlet}\n\n` +
+    `---\n\n` +
+    (spec.reusabilitySection ? spec.reusabilitySection + `---\n\n` : "") +
+    `### Positioning Guidelines\n\n` +
+    `- **static**: Default flow (no position class needed)\n` +
+    `- **fixed**: Use Tailwind \`fixed\` with position values (e.g., \`fixed top-0 left-0 right-0 z-50\`)\n` +
+    `- **sticky**: Use Tailwind \`sticky\` with position values (e.g., \`sticky top-0 z-40\`)\n` +
+    `- **absolute**: Use Tailwind \`absolute\` with position values\n` +
+    `- **relative**: Use Tailwind \`relative\`\n\n` +
+    `### Layout Guidelines\n\n` +
+    `- **flex**: Use Tailwind flex utilities (\`flex\`, \`flex-col\`, \`justify-center\`, \`items-center\`, \`gap-4\`, etc.)\n` +
+    `- **grid**: Use Tailwind grid utilities (\`grid\`, \`grid-cols-3\`, \`gap-4\`, etc.)\n` +
+    `- **container**: ${spec.containerHint}\n` +
+    `- **none**: No specific layout - let content flow naturally\n\n` +
+    `### Responsive Design Guidelines\n\n` +
+    `- **Mobile First**: Base styles apply to mobile, use \`md:\` and \`lg:\` prefixes for larger breakpoints\n` +
+    `- **Breakpoint Inheritance**: Styles cascade upward (Mobile → Tablet → Desktop)\n` +
+    `- **Override Strategy**: Use responsive prefixes to override inherited styles\n` +
+    `  - Example: \`hidden md:block\` = hidden on mobile, visible on tablet+\n\n` +
+    `### Code Quality Checklist\n\n` +
+    `**${spec.checklistTitle}:**\n` +
+    spec.checklist.map((item) => `- [ ] ${item}\n`).join("") +
+    `\n` +
+    `**Layout & Responsive:**\n` +
+    `- [ ] All components use specified semantic tags as the template root\n` +
+    `- [ ] Positioning and layout follow specifications exactly\n` +
+    `- [ ] Responsive behavior implemented for all breakpoints\n` +
+    `- [ ] NO component duplication across breakpoints (use responsive classes instead)\n` +
+    `- [ ] Follow the 3-tier pattern: Container (grid) → Wrapper (positioning) → Component (styling)\n\n` +
+    `**Styling & Content:**\n` +
+    `- [ ] **EVERY component has a border** (\`border-gray-300\`) on its root element\n` +
+    `- [ ] NO backgrounds except bg-white for sticky/fixed headers\n` +
+    `- [ ] NO theme colors, shadows, or decorative styling\n` +
+    `- [ ] **Content: ONLY display component name + ID** (e.g., "Header (c1)")\n` +
+    `- [ ] Tailwind class order: positioning → box-model → borders → backgrounds → typography\n`
+}
+
 /**
  * Template registry for - extensible for future frameworks
  */
@@ -930,9 +1907,20 @@ export const templateRegistry: Record<
 > = {
   react: {
     tailwind: reactTailwindTemplate,
-    // Future: css-modules, styled-components, etc.
+    "css-modules": reactCssModulesTemplate,
+    "styled-components": reactStyledComponentsTemplate,
+    emotion: reactEmotionTemplate,
+  },
+  vue: {
+    tailwind: vueTailwindTemplate,
+  },
+  svelte: {
+    tailwind: svelteTailwindTemplate,
+  },
+  solid: {
+    tailwind: solidTailwindTemplate,
   },
-  // Future: vue, svelte, angular, etc.
+  // Future: angular, etc.
 }
 
 /**
@@ -0,0 +1,127 @@
+/**
+ * Responsive Preview - 실제 viewport 너비 기준 미리보기
+ *
+ * Canvas는 고정 크기 셀(CELL_SIZE)로 그리므로 실제 너비(375px, 1440px 등)에서의 모습을 알 수 없음
+ * 미리보기는 선택한 너비가 속한 breakpoint(minWidth 기준)의 layout을 CSS Grid로 렌더링
+ *
+ * - Tailwind responsive prefix(md:, lg:)는 브라우저 viewport 기준이라 frame 안에서는 맞지 않음
+ *   → responsive[breakpoint] override를 여기서 직접 적용 (숨김, positioning)
+ * - Breakpoint 상속 모드면 상속을 해석한 layout/위치 사용
+ */
+
+import type { Breakpoint, Component, LaydlerSchema } from "@/types/schema"
+import { getCanvasLayoutForBreakpoint } from "./canvas-utils"
+import { resolveBreakpoint } from "./breakpoint-inheritance"
+
+/**
+ * 디바이스 프리셋 (CSS px 기준 viewport)
+ */
+export const DEVICE_PRESETS = [
+  { id: "iphone-se", label: "iPhone SE", width: 375, height: 667 },
+  { id: "iphone-15", label: "iPhone 15", width: 393, height: 852 },
+  { id: "ipad-mini", label: "iPad Mini", width: 768, height: 1024 },
+  { id: "ipad-pro", label: "iPad Pro", width: 1024, height: 1366 },
+  { id: "laptop", label: "Laptop", width: 1440, height: 900 },
+  { id: "desktop", label: "Desktop", width: 1920, height: 1080 },
+] as const
+
+export type DevicePreset = (typeof DEVICE_PRESETS)[number]
+
+/**
+ * 너비 슬라이더 범위 (px)
+ */
+export const PREVIEW_WIDTH_RANGE = { min: 320, max: 2560 }
+
+/**
+ * 미리보기 Grid 한 행의 최소 높이 (px, 내용이 많으면 늘어남)
+ */
+export const PREVIEW_ROW_HEIGHT = 64
+
+/**
+ * 너비에 해당하는 breakpoint (minWidth ≤ width 중 가장 큰 것, 없으면 가장 작은 breakpoint)
+ *
+ * @example
+ * getBreakpointForWidth(breakpoints, 375)  // mobile (0)
+ * getBreakpointForWidth(breakpoints, 800)  // tablet (768)
+ */
+export function getBreakpointForWidth(
+  breakpoints: Breakpoint[],
+  width: number
+): Breakpoint | undefined {
+  const sorted = [...breakpoints].sort((a, b) => a.minWidth - b.minWidth)
+  return sorted.filter((bp) => bp.minWidth <= width).pop() ?? sorted[0]
+}
+
+/**
+ * 미리보기 항목 (CSS Grid 배치 + 중첩 자식)
+ */
+export interface PreviewItem {
+  /** responsive[breakpoint] override를 적용한 컴포넌트 (responsive 제거) */
+  component: Component
+  /** grid-area (부모 grid 기준, canvas 위치가 없으면 undefined → 자동 배치) */
+  gridArea?: string
+  /** 자식 grid 크기 (부모 canvas 위치의 width/height) */
+  grid?: { cols: number; rows: number }
+  children: PreviewItem[]
+}
+
+/**
+ * breakpoint에서의 컴포넌트 (숨김이면 null)
+ */
+function applyResponsiveOverride(component: Component, breakpoint: string): Component | null {
+  const override = component.responsive?.[breakpoint]
+  if (override?.hidden) return null
+
+  const { responsive: _responsive, ...rest } = component
+  return override?.positioning ? { ...rest, positioning: override.positioning } : rest
+}
+
+/**
+ * breakpoint의 미리보기 트리
+ *
+ * 최상위는 breakpoint grid, 자식은 부모 영역을 grid로 삼아 상대 위치로 배치
+ */
+export function buildPreviewItems(schema: LaydlerSchema, breakpoint: string): PreviewItem[] {
+  const resolved = resolveBreakpoint(schema, breakpoint)
+  const layout = resolved.layouts[breakpoint]
+  const bp = resolved.breakpoints.find((b) => b.name === breakpoint)
+  if (!layout || !bp) return []
+
+  const build = (
+    ids: string[],
+    origin: { x: number; y: number },
+    grid: { cols: number; rows: number }
+  ): PreviewItem[] => {
+    const components = ids
+      .map((id) => resolved.components.find((c) => c.id === id))
+      .filter((c): c is Component => c !== undefined)
+
+    return components.flatMap((component) => {
+      const previewComponent = applyResponsiveOverride(component, breakpoint)
+      if (!previewComponent) return []
+
+      const canvasLayout = getCanvasLayoutForBreakpoint(component, breakpoint)
+      const childIds = resolved.components.filter((c) => c.parentId === component.id).map((c) => c.id)
+      const childGrid = canvasLayout ? { cols: canvasLayout.width, rows: canvasLayout.height } : grid
+
+      return [
+        {
+          component: previewComponent,
+          // CSS Grid는 1-based (canvas-to-grid와 같은 "row-start / col-start / row-end / col-end")
+          gridArea: canvasLayout
+            ? [
+                canvasLayout.y - origin.y + 1,
+                canvasLayout.x - origin.x + 1,
+                canvasLayout.y - origin.y + canvasLayout.height + 1,
+                canvasLayout.x - origin.x + canvasLayout.width + 1,
+              ].join(" / ")
+            : undefined,
+          grid: childIds.length > 0 ? childGrid : undefined,
+          children: build(childIds, canvasLayout ?? origin, childGrid),
+        },
+      ]
+    })
+  }
+
+  return build(layout.components, { x: 0, y: 0 }, { cols: bp.gridCols, rows: bp.gridRows })
+}
@@ -0,0 +1,176 @@
+/**
+ * Schema Migration Pipeline
+ *
+ * 이전 schemaVersion으로 저장된 payload를 현재 버전(2.0)으로 단계적으로 업그레이드
+ * - 각 migration은 한 버전 → 다음 버전으로만 변환 (from → to 체인)
+ * - schemaVersion이 없는 payload는 레거시(1.0)로 간주
+ * - 알 수 없는 버전은 버리지 않고 에러로 보고
+ */
+
+import type { LaydlerSchema } from "@/types/schema"
+import { DEFAULT_GRID_CONFIG, isValidSchema } from "./schema-utils"
+
+/**
+ * 현재 Schema 버전
+ */
+export const CURRENT_SCHEMA_VERSION: LaydlerSchema["schemaVersion"] = "2.0"
+
+/**
+ * 버전 정보가 없는 payload에 적용되는 기본 버전
+ */
+export const LEGACY_SCHEMA_VERSION = "1.0"
+
+/**
+ * 단일 버전 migration 정의
+ */
+export interface SchemaMigration {
+  /** 변환 전 버전 */
+  from: string
+  /** 변환 후 버전 */
+  to: string
+  /** 변경 내용 설명 */
+  description: string
+  /** 변환 함수 (입력을 변경하지 않고 새 객체 반환) */
+  migrate: (schema: Record<string, unknown>) => Record<string, unknown>
+}
+
+/**
+ * Migration 결과
+ */
+export interface MigrationResult {
+  success: boolean
+  schema?: LaydlerSchema
+  /** 원본 버전 */
+  fromVersion?: string
+  /** 적용된 migration 목록 ("1.0 → 2.0") */
+  appliedMigrations: string[]
+  errors: string[]
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null
+}
+
+/**
+ * 1.0 → 2.0
+ *
+ * 1.x payload는 Canvas Grid 크기 없이 breakpoint를 저장했고,
+ * 레이아웃이 없는 breakpoint와 positioning/layout이 빠진 컴포넌트를 허용함
+ */
+const migrateV1ToV2: SchemaMigration = {
+  from: "1.0",
+  to: "2.0",
+  description: "Add breakpoint grid size, missing layouts and component defaults",
+  migrate: (schema) => {
+    const breakpoints = (Array.isArray(schema.breakpoints) ? schema.breakpoints : [])
+      .map(asRecord)
+      .filter((bp): bp is Record<string, unknown> => bp !== null && typeof bp.name === "string")
+      .map((bp) => {
+        const name = bp.name as string
+        return {
+          ...bp,
+          name,
+          minWidth: typeof bp.minWidth === "number" ? bp.minWidth : 0,
+          gridCols:
+            typeof bp.gridCols === "number" ? bp.gridCols : DEFAULT_GRID_CONFIG[name]?.gridCols ?? 12,
+          gridRows:
+            typeof bp.gridRows === "number" ? bp.gridRows : DEFAULT_GRID_CONFIG[name]?.gridRows ?? 8,
+        }
+      })
+
+    const layouts: Record<string, unknown> = { ...(asRecord(schema.layouts) ?? {}) }
+    breakpoints.forEach((bp) => {
+      if (!asRecord(layouts[bp.name])) {
+        layouts[bp.name] = { structure: "vertical", components: [] }
+      }
+    })
+
+    const components = (Array.isArray(schema.components) ? schema.components : [])
+      .map(asRecord)
+      .filter((c): c is Record<string, unknown> => c !== null)
+      .map((component) => ({
+        ...component,
+        positioning: asRecord(component.positioning) ?? { type: "static" },
+        layout: asRecord(component.layout) ?? { type: "none" },
+      }))
+
+    return {
+      ...schema,
+      schemaVersion: "2.0",
+      components,
+      breakpoints,
+      layouts,
+    }
+  },
+}
+
+/**
+ * 등록된 migration 목록 (순서 무관, from 버전으로 체인 탐색)
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [migrateV1ToV2]
+
+/**
+ * Payload를 현재 Schema 버전으로 migration
+ *
+ * @param payload - 저장소/파일에서 읽은 schema (타입 미확인)
+ * @param migrations - 사용할 migration 목록 (테스트용 주입)
+ * @returns Migration 결과 (성공 시 현재 버전 schema)
+ *
+ * @example
+ * const result = migrateSchema(JSON.parse(raw))
+ * if (result.success) importSchema(result.schema!)
+ */
+export function migrateSchema(
+  payload: unknown,
+  migrations: SchemaMigration[] = SCHEMA_MIGRATIONS
+): MigrationResult {
+  const appliedMigrations: string[] = []
+  let current = asRecord(payload)
+
+  if (!current) {
+    return { success: false, appliedMigrations, errors: ["Schema payload must be an object"] }
+  }
+
+  const fromVersion =
+    typeof current.schemaVersion === "string" ? current.schemaVersion : LEGACY_SCHEMA_VERSION
+  let version = fromVersion
+
+  while (version !== CURRENT_SCHEMA_VERSION) {
+    const migration = migrations.find((m) => m.from === version)
+    if (!migration) {
+      return {
+        success: false,
+        fromVersion,
+        appliedMigrations,
+        errors: [`No migration path from schema version "${version}" to "${CURRENT_SCHEMA_VERSION}"`],
+      }
+    }
+
+    // 순환 migration 방지
+    if (appliedMigrations.includes(`${migration.from} → ${migration.to}`)) {
+      return {
+        success: false,
+        fromVersion,
+        appliedMigrations,
+        errors: [`Migration cycle detected at schema version "${version}"`],
+      }
+    }
+
+    current = { ...migration.migrate(current), schemaVersion: migration.to }
+    appliedMigrations.push(`${migration.from} → ${migration.to}`)
+    version = migration.to
+  }
+
+  if (!isValidSchema(current)) {
+    return {
+      success: false,
+      fromVersion,
+      appliedMigrations,
+      errors: ["Schema structure is invalid after migration"],
+    }
+  }
+
+  return { success: true, schema: current, fromVersion, appliedMigrations, errors: [] }
+}
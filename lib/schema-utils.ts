@@ -369,15 +369,17 @@ export function isValidSchema(schema: unknown): schema is LaydlerSchema {
 }
 
 /**
- * Normalize Schema with Breakpoint Inheritance
+ * Normalize Schema
  *
- * Mobile-first cascade: Mobile → Tablet → Desktop
- * - 명시되지 않은 breakpoint는 이전 breakpoint 설정 자동 상속
- * - 명시적 override 시 cascade 끊김
- * - ResponsiveCanvasLayout도 동일하게 상속 처리
+ * - breakpoints를 minWidth 순으로 정렬
+ * - layout이 없는 breakpoint에 빈 layout 생성
+ * - breakpoint 간 상속 없음 (기본: 완전 독립)
+ *
+ * schema.breakpointInheritance가 설정된 경우에도 비어 있는 값은 그대로 저장 (명시적 override만 유지)
+ * 상속된 값은 읽을 때 resolveBreakpoint/resolveInheritance로 해석 (lib/breakpoint-inheritance)
  *
  * @param schema - Original Schema
- * @returns Normalized Schema with inherited values
+ * @returns Normalized Schema
  */
 export function normalizeSchema(schema: LaydlerSchema): LaydlerSchema {
   const normalized = cloneSchema(schema)
@@ -12,6 +12,13 @@ import type {
   LayoutConfig,
   Breakpoint,
 } from "@/types/schema"
+import {
+  findNestingCycles,
+  getAncestorIds,
+  getForbiddenAncestorTag,
+  isLayoutInside,
+} from "./component-tree"
+import { BREAKPOINT_INHERITANCE_MODES } from "./breakpoint-inheritance"
 
 /**
  * Validation Constants
@@ -142,6 +149,23 @@ export function validateSchema(
   errors.push(...canvasLayoutResult.errors)
   warnings.push(...canvasLayoutResult.warnings)
 
+  // 6. Component hierarchy (parentId) 검증
+  const hierarchyResult = validateComponentHierarchy(schema)
+  errors.push(...hierarchyResult.errors)
+  warnings.push(...hierarchyResult.warnings)
+
+  // 7. Breakpoint 상속 모드 검증
+  if (
+    schema.breakpointInheritance !== undefined &&
+    !BREAKPOINT_INHERITANCE_MODES.includes(schema.breakpointInheritance)
+  ) {
+    errors.push({
+      code: "INVALID_BREAKPOINT_INHERITANCE",
+      message: `Breakpoint inheritance must be one of ${BREAKPOINT_INHERITANCE_MODES.join(", ")}, got "${schema.breakpointInheritance}"`,
+      field: "breakpointInheritance",
+    })
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -850,7 +874,12 @@ function validateCanvasLayoutBounds(
     // 5. Component has Canvas layout but not in any layout.components (WARNING)
     const hasCanvasLayout = component.canvasLayout || component.responsiveCanvasLayout
 
-    if (hasCanvasLayout) {
+    // 중첩 컴포넌트는 부모 안에서 렌더링되므로 layout.components에 없어도 정상
+    const isNested =
+      component.parentId !== undefined &&
+      schema.components.some((c) => c.id === component.parentId)
+
+    if (hasCanvasLayout && !isNested) {
       const inAnyLayout = Object.values(schema.layouts).some((layout) =>
         (layout as LayoutConfig).components.includes(component.id)
       )
@@ -869,6 +898,95 @@ function validateCanvasLayoutBounds(
   return warnings
 }
 
+/**
+ * Component hierarchy 검증 (parentId)
+ *
+ * - 존재하지 않는 부모 (에러)
+ * - 순환 중첩 (에러)
+ * - HTML 시맨틱 포함 규칙 위반, 예: header 안의 main (에러)
+ * - 중첩 컴포넌트가 layout.components에 포함됨 (경고)
+ * - 자식의 Canvas 영역이 부모 영역을 벗어남 (경고)
+ */
+function validateComponentHierarchy(schema: LaydlerSchema): ValidationResult {
+  const errors: ValidationError[] = []
+  const warnings: ValidationWarning[] = []
+  const components = schema.components ?? []
+  const byId = new Map(components.map((c) => [c.id, c]))
+  const cyclic = new Set(findNestingCycles(components))
+
+  components.forEach((component) => {
+    if (component.parentId === undefined) return
+
+    const parent = byId.get(component.parentId)
+    if (!parent) {
+      errors.push({
+        code: "PARENT_NOT_FOUND",
+        message: `Component "${component.name}" (${component.id}) references non-existent parent: ${component.parentId}`,
+        componentId: component.id,
+        field: "parentId",
+      })
+      return
+    }
+
+    if (cyclic.has(component.id)) {
+      errors.push({
+        code: "NESTING_CYCLE",
+        message: `Component "${component.name}" (${component.id}) is nested inside itself (parent chain forms a cycle)`,
+        componentId: component.id,
+        field: "parentId",
+      })
+      return
+    }
+
+    const ancestorTags = getAncestorIds(components, component.id).map(
+      (id) => byId.get(id)!.semanticTag
+    )
+    const forbiddenTag = getForbiddenAncestorTag(component.semanticTag, ancestorTags)
+    if (forbiddenTag) {
+      errors.push({
+        code: "INVALID_NESTING",
+        message: `Component "${component.name}" (${component.id}): <${component.semanticTag}> cannot be placed inside <${forbiddenTag}>`,
+        componentId: component.id,
+        field: "parentId",
+      })
+    }
+
+    Object.entries(schema.layouts).forEach(([breakpointName, layout]) => {
+      if (layout.components.includes(component.id)) {
+        warnings.push({
+          code: "NESTED_COMPONENT_IN_LAYOUT",
+          message: `Nested component "${component.name}" (${component.id}) is listed in "${breakpointName}" layout.components. Nested components are rendered by their parent (${parent.id}) and should not appear in the page layout.`,
+          componentId: component.id,
+          field: `layouts.${breakpointName}.components`,
+        })
+      }
+    })
+
+    schema.breakpoints.forEach((breakpoint) => {
+      const childLayout =
+        component.responsiveCanvasLayout?.[breakpoint.name] || component.canvasLayout
+      const parentLayout =
+        parent.responsiveCanvasLayout?.[breakpoint.name] || parent.canvasLayout
+      if (!childLayout || !parentLayout) return
+
+      if (!isLayoutInside(childLayout, parentLayout)) {
+        warnings.push({
+          code: "CHILD_OUTSIDE_PARENT",
+          message: `Component "${component.name}" (${component.id}) extends outside its parent "${parent.name}" (${parent.id}) in "${breakpoint.name}" breakpoint. Child: (${childLayout.x}, ${childLayout.y}) ${childLayout.width}×${childLayout.height}, Parent: (${parentLayout.x}, ${parentLayout.y}) ${parentLayout.width}×${parentLayout.height}.`,
+          componentId: component.id,
+          field: `responsiveCanvasLayout.${breakpoint.name}`,
+        })
+      }
+    })
+  })
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  }
+}
+
 /**
  * 검증 결과를 사람이 읽기 쉬운 형식으로 포맷
  */
@@ -125,6 +125,9 @@ export interface SnapGuide {
   position: number
   /** 가이드 활성화 여부 */
   active: boolean
+  /** 가이드 시작/끝 픽셀 좌표 (컴포넌트 smart guide, 없으면 캔버스 전체를 가로지르는 grid 가이드) */
+  start?: number
+  end?: number
 }
 
 /**
@@ -184,6 +187,243 @@ export function calculateSnapGuides(
   return guides
 }
 
+/**
+ * Smart guide 계산용 사각형 (픽셀)
+ */
+export interface GuideRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * 간격 표시 (matching gap indicator)
+ *
+ * - horizontal: 좌우 간격 (start~end는 x 좌표, position은 y 좌표)
+ * - vertical: 상하 간격 (start~end는 y 좌표, position은 x 좌표)
+ */
+export interface SpacingGuide {
+  type: "horizontal" | "vertical"
+  start: number
+  end: number
+  position: number
+  /** 간격 (픽셀) */
+  distance: number
+}
+
+/**
+ * Smart guide 결과
+ */
+export interface SmartGuideResult {
+  /** Snap이 적용된 픽셀 X 좌표 */
+  x: number
+  /** Snap이 적용된 픽셀 Y 좌표 */
+  y: number
+  /** 정렬 가이드 (컴포넌트 가장자리/중심, 없으면 grid) */
+  guides: SnapGuide[]
+  /** 이웃과 같은 간격일 때 표시할 간격 */
+  spacing: SpacingGuide[]
+}
+
+/**
+ * 축별 좌표 접근자 (x축: 수직 가이드 / 좌우 간격, y축: 수평 가이드 / 상하 간격)
+ */
+const AXES = {
+  x: { pos: "x", size: "width", cross: "y", crossSize: "height", guide: "vertical", spacing: "horizontal" },
+  y: { pos: "y", size: "height", cross: "x", crossSize: "width", guide: "horizontal", spacing: "vertical" },
+} as const
+
+type Axis = keyof typeof AXES
+
+/** 픽셀 오차 허용치 (같은 위치/간격 판정) */
+const EPSILON = 0.5
+
+const start = (rect: GuideRect, axis: Axis) => rect[AXES[axis].pos]
+const end = (rect: GuideRect, axis: Axis) => rect[AXES[axis].pos] + rect[AXES[axis].size]
+const anchors = (rect: GuideRect, axis: Axis) => [
+  start(rect, axis),
+  start(rect, axis) + rect[AXES[axis].size] / 2,
+  end(rect, axis),
+]
+
+/** 반대 축 범위가 겹치는지 (같은 행/열의 이웃) */
+const overlapsCross = (a: GuideRect, b: GuideRect, axis: Axis) => {
+  const cross = axis === "x" ? "y" : "x"
+  return start(a, cross) < end(b, cross) && start(b, cross) < end(a, cross)
+}
+
+/** rect 앞/뒤의 가장 가까운 이웃 (반대 축 범위가 겹치는 컴포넌트) */
+function findNeighbors(rect: GuideRect, targets: GuideRect[], axis: Axis) {
+  let before: GuideRect | undefined
+  let after: GuideRect | undefined
+
+  for (const target of targets) {
+    if (!overlapsCross(rect, target, axis)) continue
+    if (end(target, axis) <= start(rect, axis) + EPSILON) {
+      if (!before || end(target, axis) > end(before, axis)) before = target
+    } else if (start(target, axis) >= end(rect, axis) - EPSILON) {
+      if (!after || start(target, axis) < start(after, axis)) after = target
+    }
+  }
+
+  return { before, after }
+}
+
+/** 이미 존재하는 이웃 간 간격 (각 컴포넌트와 바로 뒤 이웃) */
+function findExistingGaps(targets: GuideRect[], axis: Axis) {
+  return targets.flatMap((target) => {
+    const { after } = findNeighbors(target, targets, axis)
+    const distance = after ? start(after, axis) - end(target, axis) : 0
+    return after && distance > 0 ? [{ before: target, after, distance }] : []
+  })
+}
+
+/** 두 rect 사이 간격 표시 (겹치는 반대 축 범위의 중앙) */
+function toSpacingGuide(before: GuideRect, after: GuideRect, axis: Axis): SpacingGuide {
+  const cross = axis === "x" ? "y" : "x"
+  const overlapStart = Math.max(start(before, cross), start(after, cross))
+  const overlapEnd = Math.min(end(before, cross), end(after, cross))
+
+  return {
+    type: AXES[axis].spacing,
+    start: end(before, axis),
+    end: start(after, axis),
+    position: (overlapStart + overlapEnd) / 2,
+    distance: start(after, axis) - end(before, axis),
+  }
+}
+
+/**
+ * 한 축의 snap offset 계산 (가장 가까운 후보, threshold 이내일 때만)
+ *
+ * 후보: 다른 컴포넌트의 가장자리/중심, 이웃과 같은 간격, 두 이웃 사이 중앙
+ */
+function findSnapOffset(
+  rect: GuideRect,
+  targets: GuideRect[],
+  axis: Axis,
+  threshold: number
+): number | null {
+  const candidates: number[] = []
+
+  for (const target of targets) {
+    for (const line of anchors(target, axis)) {
+      for (const anchor of anchors(rect, axis)) {
+        candidates.push(line - anchor)
+      }
+    }
+  }
+
+  const size = rect[AXES[axis].size]
+  const { before, after } = findNeighbors(rect, targets, axis)
+  for (const gap of findExistingGaps(targets, axis)) {
+    if (before) candidates.push(end(before, axis) + gap.distance - start(rect, axis))
+    if (after) candidates.push(start(after, axis) - gap.distance - end(rect, axis))
+  }
+  if (before && after) {
+    candidates.push((end(before, axis) + start(after, axis) - size) / 2 - start(rect, axis))
+  }
+
+  let best: number | null = null
+  for (const offset of candidates) {
+    if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+      best = offset
+    }
+  }
+  return best
+}
+
+/** rect와 가장자리/중심이 일치하는 컴포넌트 가이드 (같은 위치는 하나로 합침) */
+function findAlignmentGuides(rect: GuideRect, targets: GuideRect[], axis: Axis): SnapGuide[] {
+  const cross = axis === "x" ? "y" : "x"
+  const guides = new Map<number, SnapGuide>()
+
+  for (const target of targets) {
+    for (const line of anchors(target, axis)) {
+      if (!anchors(rect, axis).some((anchor) => Math.abs(anchor - line) < EPSILON)) continue
+
+      const existing = guides.get(line)
+      guides.set(line, {
+        type: AXES[axis].guide,
+        position: line,
+        active: true,
+        start: Math.min(existing?.start ?? Infinity, start(rect, cross), start(target, cross)),
+        end: Math.max(existing?.end ?? -Infinity, end(rect, cross), end(target, cross)),
+      })
+    }
+  }
+
+  return Array.from(guides.values())
+}
+
+/** rect의 앞/뒤 간격이 다른 간격과 같을 때 표시할 간격들 */
+function findMatchingSpacing(rect: GuideRect, targets: GuideRect[], axis: Axis): SpacingGuide[] {
+  const { before, after } = findNeighbors(rect, targets, axis)
+  const own = [
+    before && toSpacingGuide(before, rect, axis),
+    after && toSpacingGuide(rect, after, axis),
+  ].filter((guide): guide is SpacingGuide => !!guide && guide.distance > 0)
+  const others = findExistingGaps(targets, axis).map((gap) => toSpacingGuide(gap.before, gap.after, axis))
+
+  const result = new Map<string, SpacingGuide>()
+  for (const guide of own) {
+    const matches = [...own, ...others].filter(
+      (other) => other !== guide && Math.abs(other.distance - guide.distance) < EPSILON
+    )
+    for (const match of matches.length > 0 ? [guide, ...matches] : []) {
+      result.set(`${match.start}:${match.end}:${match.position}`, match)
+    }
+  }
+
+  return Array.from(result.values())
+}
+
+/**
+ * Smart guide 계산 (Figma 스타일)
+ *
+ * 드래그 중인 컴포넌트를 다른 컴포넌트의 가장자리/중심과 이웃 간격에 맞춰 snap하고,
+ * 정렬 가이드와 같은 간격 표시를 반환. 컴포넌트 정렬이 없는 축은 grid 가이드로 대체
+ *
+ * @param rect - 드래그 중인 컴포넌트 영역 (픽셀)
+ * @param targets - 현재 breakpoint의 다른 컴포넌트 영역 (픽셀)
+ * @param config - Snap 설정
+ *
+ * @example
+ * calculateSmartGuides({ x: 305, y: 0, width: 100, height: 100 }, [{ x: 0, y: 200, width: 300, height: 100 }], config)
+ * // x: 300 (위 컴포넌트의 오른쪽 가장자리에 snap)
+ * // guides: [{ type: "vertical", position: 300, active: true, start: 0, end: 300 }]
+ */
+export function calculateSmartGuides(
+  rect: GuideRect,
+  targets: GuideRect[],
+  config: SnapConfig
+): SmartGuideResult {
+  if (!config.enabled) {
+    return { x: rect.x, y: rect.y, guides: [], spacing: [] }
+  }
+
+  const offsetX = findSnapOffset(rect, targets, "x", config.threshold)
+  const offsetY = findSnapOffset(rect, targets, "y", config.threshold)
+  const snapped = { ...rect, x: rect.x + (offsetX ?? 0), y: rect.y + (offsetY ?? 0) }
+
+  const verticalGuides = findAlignmentGuides(snapped, targets, "x")
+  const horizontalGuides = findAlignmentGuides(snapped, targets, "y")
+  const gridGuides = calculateSnapGuides(snapped.x, snapped.y, config).filter((guide) =>
+    guide.type === "vertical" ? verticalGuides.length === 0 : horizontalGuides.length === 0
+  )
+
+  return {
+    x: snapped.x,
+    y: snapped.y,
+    guides: [...verticalGuides, ...horizontalGuides, ...gridGuides],
+    spacing: [
+      ...findMatchingSpacing(snapped, targets, "x"),
+      ...findMatchingSpacing(snapped, targets, "y"),
+    ],
+  }
+}
+
 /**
  * 기본 Snap 설정
  */
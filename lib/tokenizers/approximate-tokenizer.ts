@@ -0,0 +1,71 @@
+/**
+ * Approximate Tokenizers
+ *
+ * 공개 vocab이 없는 모델 계열용 근사 토크나이저
+ * - HeuristicTokenizer: 문자 수 기반 (vocab 로드 전 fallback)
+ * - ScaledTokenizer: 비슷한 BPE vocab의 토큰 수 × 계열별 비율
+ */
+
+import type { ITokenizer, TokenizerId } from "@/types/ai-models"
+
+const CJK_REGEX = /[\u3131-\uD79D\u4e00-\u9fff\u3040-\u309f\u30a0-\u30ff]/g
+
+/**
+ * 문자 수 기반 토큰 추정
+ *
+ * Rules:
+ * - 영어/숫자/기호: 1 token ≈ 4 characters
+ * - 한글/CJK: 1 token ≈ 2 characters (multibyte)
+ * - 코드 블록: 1 token ≈ 3.5 characters (더 압축적)
+ */
+export function estimateTokensByCharacters(text: string): number {
+  // 1. 코드 블록 추출 및 별도 처리
+  let codeTokens = 0
+  const textWithoutCode = text.replace(/```[\s\S]*?```/g, (block) => {
+    codeTokens += Math.ceil(block.length / 3.5)
+    return ""
+  })
+
+  // 2. 한글/CJK 문자 카운트
+  const cjkCount = (textWithoutCode.match(CJK_REGEX) || []).length
+
+  // 3. 영어/숫자/기호 카운트 (CJK 제외)
+  const latinCount = textWithoutCode.replace(CJK_REGEX, "").length
+
+  return Math.ceil(latinCount / 4) + Math.ceil(cjkCount / 2) + codeTokens
+}
+
+/**
+ * 문자 수 기반 토크나이저
+ */
+export class HeuristicTokenizer implements ITokenizer {
+  readonly id = "heuristic" as const
+  readonly name = "Character estimate"
+  readonly exact = false
+
+  countTokens(text: string): number {
+    return estimateTokensByCharacters(text)
+  }
+}
+
+/**
+ * 기반 토크나이저 × 비율 (근사)
+ *
+ * @example
+ * // Claude ≈ cl100k_base × 1.15
+ * new ScaledTokenizer("claude", "Claude (≈ cl100k_base × 1.15)", cl100k, 1.15)
+ */
+export class ScaledTokenizer implements ITokenizer {
+  readonly exact = false
+
+  constructor(
+    readonly id: TokenizerId,
+    readonly name: string,
+    private readonly base: ITokenizer,
+    private readonly ratio: number
+  ) {}
+
+  countTokens(text: string): number {
+    return Math.ceil(this.base.countTokens(text) * this.ratio)
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * BPE Tokenizer - OpenAI BPE vocab (gpt-tokenizer, 오프라인)
+ *
+ * vocab 데이터가 커서(o200k_base ≈ 2.4MB) 처음 필요할 때 dynamic import로 로드
+ * 로드 전에는 getLoadedBPEEncoding이 null → 호출하는 쪽에서 문자 수 추정으로 fallback
+ */
+
+import type { ITokenizer } from "@/types/ai-models"
+
+export type BPEEncodingName = "o200k_base" | "cl100k_base"
+
+type CountTokens = (text: string) => number
+
+// 프롬프트에 "<|endoftext|>" 같은 문자열이 있어도 일반 텍스트로 셈 (기본값은 예외)
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() }
+
+const BPE_ENCODING_LOADERS: Record<BPEEncodingName, () => Promise<CountTokens>> = {
+  o200k_base: () =>
+    import("gpt-tokenizer/encoding/o200k_base").then((m) => (text: string) => m.countTokens(text, PLAIN_TEXT)),
+  cl100k_base: () =>
+    import("gpt-tokenizer/encoding/cl100k_base").then((m) => (text: string) => m.countTokens(text, PLAIN_TEXT)),
+}
+
+const loadedEncodings = new Map<BPEEncodingName, CountTokens>()
+const pendingEncodings = new Map<BPEEncodingName, Promise<CountTokens | null>>()
+
+/**
+ * BPE vocab 로드 (한 번만)
+ *
+ * @returns 로드 실패 시 null (다음 호출에서 재시도)
+ */
+export function loadBPEEncoding(name: BPEEncodingName): Promise<CountTokens | null> {
+  const loaded = loadedEncodings.get(name)
+  if (loaded) return Promise.resolve(loaded)
+
+  let pending = pendingEncodings.get(name)
+  if (!pending) {
+    pending = BPE_ENCODING_LOADERS[name]().then(
+      (countTokens) => {
+        loadedEncodings.set(name, countTokens)
+        return countTokens
+      },
+      () => {
+        pendingEncodings.delete(name)
+        return null
+      }
+    )
+    pendingEncodings.set(name, pending)
+  }
+  return pending
+}
+
+/**
+ * 이미 로드된 BPE vocab (없으면 null)
+ */
+export function getLoadedBPEEncoding(name: BPEEncodingName): CountTokens | null {
+  return loadedEncodings.get(name) ?? null
+}
+
+/**
+ * OpenAI BPE 토크나이저 (정확한 토큰 수)
+ */
+export class BPETokenizer implements ITokenizer {
+  readonly exact = true
+
+  constructor(
+    readonly id: BPEEncodingName,
+    readonly name: string,
+    private readonly count: CountTokens
+  ) {}
+
+  countTokens(text: string): number {
+    return this.count(text)
+  }
+}
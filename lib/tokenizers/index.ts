@@ -0,0 +1,32 @@
+/**
+ * Tokenizers Module
+ *
+ * 모델 계열별 오프라인 토크나이저 - 프롬프트 토큰 수와 입력 비용 계산
+ *
+ * @example
+ * await loadModelTokenizer("gpt-4.1")
+ * const result = createPromptStrategy("gpt-4.1").generatePrompt(schema, "react", "tailwind")
+ * result.tokenUsage // { system: 412, user: 3120, total: 3532, tokenizer: "o200k_base", exact: true }
+ */
+
+// Tokenizers
+export { BPETokenizer, type BPEEncodingName } from "./bpe-tokenizer"
+export { HeuristicTokenizer, ScaledTokenizer, estimateTokensByCharacters } from "./approximate-tokenizer"
+
+// Registry
+export {
+  TOKENIZER_DEFINITIONS,
+  TOKENIZER_IDS,
+  getModelTokenizerId,
+  getTokenizer,
+  loadModelTokenizer,
+  loadTokenizer,
+  registerTokenizer,
+  unregisterTokenizer,
+} from "./tokenizer-registry"
+
+// Usage
+export { countPromptTokens, estimateInputCost } from "./token-usage"
+
+// Re-export types for convenience
+export type { ITokenizer, TokenizerId, TokenUsage } from "@/types/ai-models"
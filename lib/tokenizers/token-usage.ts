@@ -0,0 +1,33 @@
+/**
+ * Token Usage - 프롬프트 토큰 수 / 입력 비용 계산
+ */
+
+import type { AIModelMetadata, CostInfo, TokenUsage } from "@/types/ai-models"
+import { getModelTokenizerId, getTokenizer } from "./tokenizer-registry"
+
+/**
+ * System / User 프롬프트 토큰 수 (모델 계열 토크나이저)
+ *
+ * 정확한 수가 필요하면 먼저 loadModelTokenizer 호출
+ */
+export function countPromptTokens(
+  metadata: AIModelMetadata,
+  systemPrompt: string,
+  userPrompt: string
+): TokenUsage {
+  const tokenizer = getTokenizer(getModelTokenizerId(metadata))
+  const system = tokenizer.countTokens(systemPrompt)
+  const user = tokenizer.countTokens(userPrompt)
+
+  return { system, user, total: system + user, tokenizer: tokenizer.id, exact: tokenizer.exact }
+}
+
+/**
+ * 입력 비용 (USD)
+ *
+ * @returns inputCostPer1M이 없으면 null
+ */
+export function estimateInputCost(tokens: number, cost: CostInfo): number | null {
+  if (cost.inputCostPer1M === undefined) return null
+  return (tokens / 1_000_000) * cost.inputCostPer1M
+}
@@ -0,0 +1,134 @@
+/**
+ * Tokenizer Registry
+ *
+ * 모델 계열 → 토크나이저 매핑, 로드, 교체(registerTokenizer)
+ *
+ * 정확한 vocab을 오프라인으로 쓸 수 있는 건 OpenAI BPE(o200k_base, cl100k_base)뿐
+ * 나머지 계열은 vocab이 비공개이거나 너무 커서, 구조가 비슷한 BPE vocab의 토큰 수에 비율을 곱한 근사값
+ * 정확한 토크나이저가 있으면 registerTokenizer로 교체
+ */
+
+import type { AIModelId, AIModelMetadata, AIProvider, ITokenizer, TokenizerId } from "@/types/ai-models"
+import { getModelMetadata } from "@/lib/ai-model-registry"
+import { BPETokenizer, getLoadedBPEEncoding, loadBPEEncoding, type BPEEncodingName } from "./bpe-tokenizer"
+import { HeuristicTokenizer, ScaledTokenizer } from "./approximate-tokenizer"
+
+interface TokenizerDefinition {
+  /** 표시 이름 */
+  name: string
+  /** 기반 BPE vocab (없으면 문자 수 추정) */
+  encoding?: BPEEncodingName
+  /** 기반 vocab 대비 토큰 수 비율 (있으면 근사) */
+  ratio?: number
+}
+
+/**
+ * 토크나이저 정의
+ *
+ * 근사 비율은 영어 + 코드(프롬프트의 대부분) 기준
+ */
+export const TOKENIZER_DEFINITIONS: Record<TokenizerId, TokenizerDefinition> = {
+  o200k_base: { name: "o200k_base", encoding: "o200k_base" },
+  cl100k_base: { name: "cl100k_base", encoding: "cl100k_base" },
+  // Claude 3+ 토크나이저는 비공개 - count_tokens API 결과가 cl100k보다 10-20% 많음
+  claude: { name: "Claude (≈ cl100k_base × 1.15)", encoding: "cl100k_base", ratio: 1.15 },
+  // SentencePiece 256k vocab - 압축률이 o200k와 비슷
+  gemini: { name: "Gemini (≈ o200k_base)", encoding: "o200k_base", ratio: 1 },
+  // Llama 4: tiktoken 계열 202k vocab
+  llama: { name: "Llama (≈ o200k_base)", encoding: "o200k_base", ratio: 1 },
+  // Qwen 2.5: cl100k를 확장한 151k byte-level BPE
+  qwen: { name: "Qwen (≈ cl100k_base)", encoding: "cl100k_base", ratio: 1 },
+  // DeepSeek V3/R1: 128k byte-level BPE, 코드에서 cl100k보다 약간 많음
+  deepseek: { name: "DeepSeek (≈ cl100k_base × 1.05)", encoding: "cl100k_base", ratio: 1.05 },
+  // Grok 토크나이저는 비공개 (131k vocab)
+  grok: { name: "Grok (≈ o200k_base × 1.05)", encoding: "o200k_base", ratio: 1.05 },
+  heuristic: { name: "Character estimate" },
+}
+
+export const TOKENIZER_IDS = Object.keys(TOKENIZER_DEFINITIONS) as TokenizerId[]
+
+/**
+ * Provider → 기본 토크나이저
+ *
+ * 모델별로 다르면 AIModelMetadata.tokenizer로 지정
+ */
+const PROVIDER_TOKENIZER_MAP: Record<AIProvider, TokenizerId> = {
+  anthropic: "claude",
+  openai: "o200k_base", // GPT-4.1, GPT-5, o-series
+  google: "gemini",
+  deepseek: "deepseek",
+  xai: "grok",
+  meta: "llama",
+  alibaba: "qwen",
+  custom: "heuristic",
+}
+
+const heuristicTokenizer = new HeuristicTokenizer()
+const registeredTokenizers = new Map<TokenizerId, ITokenizer>()
+const tokenizerCache = new Map<TokenizerId, ITokenizer>()
+
+/**
+ * 모델의 토크나이저 ID
+ *
+ * 로컬 endpoint 모델은 promptStrategy(원래 모델 계열)를 따름
+ */
+export function getModelTokenizerId(metadata: AIModelMetadata): TokenizerId {
+  return metadata.tokenizer ?? PROVIDER_TOKENIZER_MAP[metadata.promptStrategy ?? metadata.provider]
+}
+
+/**
+ * 토크나이저 교체 (정확한 vocab, 외부 라이브러리 등)
+ */
+export function registerTokenizer(tokenizer: ITokenizer): void {
+  registeredTokenizers.set(tokenizer.id, tokenizer)
+}
+
+/**
+ * registerTokenizer로 교체한 토크나이저 제거 (기본 정의로 복원)
+ */
+export function unregisterTokenizer(id: TokenizerId): void {
+  registeredTokenizers.delete(id)
+}
+
+/**
+ * 토크나이저 (동기)
+ *
+ * BPE vocab이 아직 로드되지 않았으면 문자 수 추정 토크나이저 반환 (id: "heuristic")
+ */
+export function getTokenizer(id: TokenizerId): ITokenizer {
+  const registered = registeredTokenizers.get(id)
+  if (registered) return registered
+
+  const cached = tokenizerCache.get(id)
+  if (cached) return cached
+
+  const definition = TOKENIZER_DEFINITIONS[id]
+  const count = definition.encoding ? getLoadedBPEEncoding(definition.encoding) : null
+  if (!definition.encoding || !count) return heuristicTokenizer
+
+  const base = new BPETokenizer(definition.encoding, TOKENIZER_DEFINITIONS[definition.encoding].name, count)
+  const tokenizer = definition.ratio === undefined ? base : new ScaledTokenizer(id, definition.name, base, definition.ratio)
+  tokenizerCache.set(id, tokenizer)
+  return tokenizer
+}
+
+/**
+ * BPE vocab 로드 후 토크나이저 반환
+ *
+ * 로드에 실패하면 문자 수 추정 토크나이저 (예외 없음)
+ */
+export async function loadTokenizer(id: TokenizerId): Promise<ITokenizer> {
+  const encoding = TOKENIZER_DEFINITIONS[id].encoding
+  if (encoding && !registeredTokenizers.has(id)) {
+    await loadBPEEncoding(encoding)
+  }
+  return getTokenizer(id)
+}
+
+/**
+ * 모델의 토크나이저 로드 (프롬프트 생성 전에 호출하면 정확한 토큰 수)
+ */
+export function loadModelTokenizer(modelId: AIModelId): Promise<ITokenizer> {
+  const metadata = getModelMetadata(modelId)
+  return loadTokenizer(metadata ? getModelTokenizerId(metadata) : "heuristic")
+}
@@ -37,6 +37,7 @@ export interface LayoutDescription {
  * @param breakpoint - Target breakpoint
  * @param gridCols - Canvas grid columns
  * @param gridRows - Canvas grid rows
+ * @param utilityClasses - 구현 힌트에 Tailwind class 사용 여부 (false면 plain CSS 속성으로 설명)
  * @returns Comprehensive layout description
  *
  * @example
@@ -49,7 +50,8 @@ export function describeVisualLayout(
   components: Component[],
   breakpoint: string,
   gridCols: number,
-  gridRows: number
+  gridRows: number,
+  utilityClasses: boolean = true
 ): LayoutDescription {
   // Filter out components without Canvas layout for this breakpoint
   const componentsWithLayout = filterComponentsWithCanvasLayout(components, breakpoint)
@@ -72,7 +74,8 @@ export function describeVisualLayout(
     breakpoint,
     gridCols,
     gridRows,
-    complexity
+    complexity,
+    utilityClasses
   )
 
   return {
@@ -261,13 +264,16 @@ function generateImplementationHints(
   breakpoint: string,
   gridCols: number,
   gridRows: number,
-  complexity: ReturnType<typeof analyzeGridComplexity>
+  complexity: ReturnType<typeof analyzeGridComplexity>,
+  utilityClasses: boolean
 ): string[] {
   const hints: string[] = []
 
   // 🎯 0. UNIVERSAL RULE: Auto Rows Strategy (최우선 - "Magic Prompt" solution)
   hints.push(
-    `🎯 **UNIVERSAL RULE - Auto Rows**: Use Tailwind arbitrary values \`grid-rows-[repeat(${gridRows},auto)]\` on the grid container. This allows rows to auto-size based on content, solving height sync issues universally for ALL layout combinations (vertical, side-by-side, mixed). Do NOT use fixed row heights (\`grid-rows-${gridRows}\`).`
+    utilityClasses
+      ? `🎯 **UNIVERSAL RULE - Auto Rows**: Use Tailwind arbitrary values \`grid-rows-[repeat(${gridRows},auto)]\` on the grid container. This allows rows to auto-size based on content, solving height sync issues universally for ALL layout combinations (vertical, side-by-side, mixed). Do NOT use fixed row heights (\`grid-rows-${gridRows}\`).`
+      : `🎯 **UNIVERSAL RULE - Auto Rows**: Use \`grid-template-rows: repeat(${gridRows}, auto)\` on the grid container. This allows rows to auto-size based on content, solving height sync issues universally for ALL layout combinations (vertical, side-by-side, mixed). Do NOT use fixed row heights.`
   )
 
   // 🚨 1. CRITICAL: Side-by-side warning (if applicable)
@@ -307,7 +313,9 @@ function generateImplementationHints(
       `For side-by-side components: Use grid-column spans to place components horizontally. Example: Component A uses \`grid-column: 1 / 4\`, Component B uses \`grid-column: 4 / 9\`, both with the same \`grid-row\` value`
     )
     hints.push(
-      `🎯 **CRITICAL - Equal Heights**: Components positioned side-by-side MUST use \`h-full\` (or \`height: 100%\`) to fill their grid cell vertically. This ensures equal heights when components share the same row range. Add \`h-full\` to the component wrapper div.`
+      utilityClasses
+        ? `🎯 **CRITICAL - Equal Heights**: Components positioned side-by-side MUST use \`h-full\` (or \`height: 100%\`) to fill their grid cell vertically. This ensures equal heights when components share the same row range. Add \`h-full\` to the component wrapper div.`
+        : `🎯 **CRITICAL - Equal Heights**: Components positioned side-by-side MUST use \`height: 100%\` to fill their grid cell vertically. This ensures equal heights when components share the same row range. Add \`height: 100%\` to the component wrapper.`
     )
   }
 
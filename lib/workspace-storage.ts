@@ -0,0 +1,196 @@
+/**
+ * Workspace Storage
+ *
+ * 브라우저 저장소(localStorage)에 workspace를 자동 저장/복원하기 위한 유틸리티
+ * - 프로젝트별 저장 키 (`vlb-workspace:<projectId>`)
+ * - 복원 시 migrateSchema → isValidSchema → validateSchema 순서로 검사
+ * - validateSchema 에러는 경고로만 보고 (작업 중인 레이아웃은 export 기준을 아직 만족하지 않을 수 있음)
+ */
+
+import type { LaydlerSchema } from "@/types/schema"
+import type { ComponentLink } from "./graph-utils"
+import { migrateSchema } from "./schema-migration"
+import { validateSchema } from "./schema-validation"
+
+/**
+ * 저장 키 prefix
+ */
+export const WORKSPACE_STORAGE_PREFIX = "vlb-workspace"
+
+/**
+ * 기본 프로젝트 ID
+ */
+export const DEFAULT_PROJECT_ID = "default"
+
+/**
+ * 저장소 envelope 버전 (persist middleware version)
+ *
+ * Schema 자체의 버전은 schemaVersion + migrateSchema로 관리
+ */
+export const WORKSPACE_STORAGE_VERSION = 1
+
+/**
+ * 저장되는 workspace 데이터
+ */
+export interface PersistedWorkspace {
+  schema: LaydlerSchema
+  componentLinks: ComponentLink[]
+  currentBreakpoint: string
+}
+
+/**
+ * 복원 결과
+ */
+export interface WorkspaceRestoreResult {
+  workspace: PersistedWorkspace | null
+  /** 적용된 schema migration 목록 */
+  appliedMigrations: string[]
+  errors: string[]
+  warnings: string[]
+}
+
+/**
+ * 프로젝트별 저장 키 생성
+ *
+ * @example
+ * getWorkspaceStorageKey("default") // "vlb-workspace:default"
+ */
+export function getWorkspaceStorageKey(projectId: string): string {
+  return `${WORKSPACE_STORAGE_PREFIX}:${projectId}`
+}
+
+/**
+ * 손상된 payload 백업 키 (복원 실패 시 덮어쓰기 전에 보관)
+ */
+export function getWorkspaceBackupKey(projectId: string): string {
+  return `${getWorkspaceStorageKey(projectId)}:backup`
+}
+
+/**
+ * 저장소에서 읽은 payload를 검증하고 workspace로 복원
+ *
+ * @param payload - 저장소에서 읽은 데이터 (타입 미확인)
+ * @returns 복원 결과 (실패 시 workspace null)
+ */
+export function restoreWorkspace(payload: unknown): WorkspaceRestoreResult {
+  if (typeof payload !== "object" || payload === null) {
+    return {
+      workspace: null,
+      appliedMigrations: [],
+      errors: ["Stored workspace must be an object"],
+      warnings: [],
+    }
+  }
+
+  const data = payload as Partial<Record<keyof PersistedWorkspace, unknown>>
+  const migration = migrateSchema(data.schema)
+
+  if (!migration.success || !migration.schema) {
+    return {
+      workspace: null,
+      appliedMigrations: migration.appliedMigrations,
+      errors: migration.errors,
+      warnings: [],
+    }
+  }
+
+  const schema = migration.schema
+  const warnings: string[] = []
+
+  // 빈 workspace (브레이크포인트 선택 전)는 validateSchema 대상이 아님
+  if (schema.components.length > 0) {
+    const validation = validateSchema(schema)
+    validation.errors.forEach((error) => warnings.push(`[${error.code}] ${error.message}`))
+  }
+
+  // 존재하지 않는 컴포넌트를 가리키는 링크 제거
+  const componentIds = new Set(schema.components.map((c) => c.id))
+  const rawLinks = Array.isArray(data.componentLinks) ? data.componentLinks : []
+  const componentLinks = rawLinks.filter(
+    (link): link is ComponentLink =>
+      typeof link === "object" &&
+      link !== null &&
+      componentIds.has((link as ComponentLink).source) &&
+      componentIds.has((link as ComponentLink).target)
+  )
+  if (componentLinks.length !== rawLinks.length) {
+    warnings.push(`Dropped ${rawLinks.length - componentLinks.length} orphaned component link(s)`)
+  }
+
+  const currentBreakpoint =
+    typeof data.currentBreakpoint === "string" &&
+    schema.breakpoints.some((bp) => bp.name === data.currentBreakpoint)
+      ? data.currentBreakpoint
+      : schema.breakpoints[0]?.name ?? "mobile"
+
+  return {
+    workspace: { schema, componentLinks, currentBreakpoint },
+    appliedMigrations: migration.appliedMigrations,
+    errors: [],
+    warnings,
+  }
+}
+
+/**
+ * 저장소에 보관된 프로젝트 workspace 읽기
+ *
+ * persist middleware가 저장한 envelope(`{ state, version }`)에서 state를 꺼내 복원
+ *
+ * @param projectId - 프로젝트 ID
+ * @param storage - 저장소 (기본: localStorage)
+ * @returns 복원 결과, 저장된 데이터가 없으면 null
+ */
+export function readStoredWorkspace(
+  projectId: string,
+  storage: Storage = localStorage
+): WorkspaceRestoreResult | null {
+  const raw = storage.getItem(getWorkspaceStorageKey(projectId))
+  if (raw === null) return null
+
+  try {
+    const envelope = JSON.parse(raw) as { state?: unknown } | null
+    return restoreWorkspace(envelope?.state)
+  } catch {
+    return {
+      workspace: null,
+      appliedMigrations: [],
+      errors: ["Stored workspace is not valid JSON"],
+      warnings: [],
+    }
+  }
+}
+
+/**
+ * 복원할 수 없는 workspace 원본을 백업 키로 복사 (덮어쓰기 전 보존)
+ */
+export function backupStoredWorkspace(projectId: string, storage: Storage = localStorage): void {
+  const raw = storage.getItem(getWorkspaceStorageKey(projectId))
+  if (raw !== null) {
+    storage.setItem(getWorkspaceBackupKey(projectId), raw)
+  }
+}
+
+/**
+ * 프로젝트 workspace 복사 (프로젝트 복제용)
+ *
+ * @returns 원본 데이터가 있어 복사했으면 true
+ */
+export function copyStoredWorkspace(
+  fromProjectId: string,
+  toProjectId: string,
+  storage: Storage = localStorage
+): boolean {
+  const raw = storage.getItem(getWorkspaceStorageKey(fromProjectId))
+  if (raw === null) return false
+
+  storage.setItem(getWorkspaceStorageKey(toProjectId), raw)
+  return true
+}
+
+/**
+ * 프로젝트 workspace 및 백업 삭제
+ */
+export function removeStoredWorkspace(projectId: string, storage: Storage = localStorage): void {
+  storage.removeItem(getWorkspaceStorageKey(projectId))
+  storage.removeItem(getWorkspaceBackupKey(projectId))
+}
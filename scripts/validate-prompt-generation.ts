@@ -6,6 +6,7 @@
 
 import { generatePrompt, generateSchemaSummary, estimateTokenCount, getRecommendedModel } from "../lib/prompt-generator"
 import { sampleSchemas } from "../lib/sample-data"
+import { loadTokenizer } from "../lib/tokenizers"
 import type { LaydlerSchema } from "../types/schema"
 
 /**
@@ -295,7 +296,9 @@ function testSampleSchema(name: string, schema: LaydlerSchema) {
 /**
  * 메인 실행
  */
-function main() {
+async function main() {
+  await loadTokenizer("o200k_base")
+
   console.log(`
 ╔════════════════════════════════════════════════════════════════════════════╗
 ║                   Prompt Generation Validation Test                        ║
@@ -4,16 +4,8 @@
  */
 
 import { create } from "zustand"
-import { devtools } from "zustand/middleware"
+import { devtools, persist, createJSONStorage, type PersistStorage } from "zustand/middleware"
 import { useShallow } from "zustand/react/shallow"
-
-interface HistoryActions {
-  undo: () => void
-  redo: () => void
-  canUndo: () => boolean
-  canRedo: () => boolean
-  clearHistory: () => void
-}
 import type {
   LaydlerSchema,
   Component,
@@ -23,6 +15,7 @@ import type {
   ComponentStyling,
   ResponsiveBehavior,
   LayoutConfig,
+  BreakpointInheritanceMode,
 } from "@/types/schema"
 import {
   createEmptySchema,
@@ -34,8 +27,53 @@ import {
   DEFAULT_GRID_CONFIG,
 } from "@/lib/schema-utils"
 import { calculateMinimumGridSize } from "@/lib/grid-constraints"
+import {
+  canNestComponent,
+  getAncestorIds,
+  getComponentsWithDescendants,
+  getDescendantIds,
+} from "@/lib/component-tree"
 import { UnionFind, calculateConnectedGroups } from "@/lib/union-find"
+import type { AdaptedLayout } from "@/lib/auto-adapt"
+import {
+  getEffectiveLayout,
+  getInheritanceChain,
+  getInheritanceMode,
+  getLayoutSource,
+  resolveBreakpoint,
+  resolveInheritance,
+} from "@/lib/breakpoint-inheritance"
 import type { ResponsiveCanvasLayout } from "@/types/schema"
+import {
+  createEmptyHistory,
+  isSameSnapshot,
+  pushHistoryEntry,
+  undoHistory,
+  redoHistory,
+  type HistoryState,
+  type HistorySnapshot,
+} from "@/lib/history-utils"
+import {
+  DEFAULT_PROJECT_ID,
+  WORKSPACE_STORAGE_VERSION,
+  getWorkspaceStorageKey,
+  getWorkspaceBackupKey,
+  restoreWorkspace,
+  readStoredWorkspace,
+  backupStoredWorkspace,
+  type PersistedWorkspace,
+} from "@/lib/workspace-storage"
+
+/**
+ * Undo/Redo actions
+ */
+interface HistoryActions {
+  undo: () => void
+  redo: () => void
+  canUndo: () => boolean
+  canRedo: () => boolean
+  clearHistory: () => void
+}
 
 /**
  * Layout store state
@@ -46,17 +84,31 @@ interface LayoutState extends HistoryActions {
 
   // UI state
   currentBreakpoint: string // "mobile" | "tablet" | "desktop"
-  selectedComponentId: string | null
+  selectedComponentId: string | null // primary selection (PropertiesPanel 기준)
+  selectedComponentIds: string[] // 다중 선택 (primary 포함)
   showLinkingPanel: boolean // Whether to show the Component Linking panel
 
   // Component Links (for responsive component linking across breakpoints)
   componentLinks: Array<{ source: string; target: string }>
 
+  // Undo/Redo history (schema + componentLinks snapshots)
+  history: HistoryState
+
+  // autosave 대상 프로젝트 (null이면 열린 프로젝트 없음 - autosave 안 함)
+  projectId: string | null
+
   // Actions: Component management
   addComponent: (component: Omit<Component, "id">) => void
   updateComponent: (id: string, updates: Partial<Omit<Component, "id">>) => void
   deleteComponent: (id: string) => void
+  updateComponents: (updates: Record<string, Partial<Omit<Component, "id">>>) => void
+  deleteComponents: (ids: string[]) => void
   duplicateComponent: (id: string) => void
+  setComponentParent: (
+    id: string,
+    parentId: string | null,
+    updates?: Record<string, Partial<Omit<Component, "id">>>
+  ) => void
 
   // Actions: Component properties (V2 specific)
   updateComponentPositioning: (id: string, positioning: ComponentPositioning) => void
@@ -68,6 +120,12 @@ interface LayoutState extends HistoryActions {
   updateLayout: (breakpoint: string, layout: LayoutConfig) => void
   addComponentToLayout: (breakpoint: string, componentId: string) => void
   reorderComponentsInLayout: (breakpoint: string, newOrder: string[]) => void
+  applyAdaptedLayout: (proposal: AdaptedLayout) => void
+
+  // Actions: Breakpoint inheritance (opt-in)
+  setBreakpointInheritance: (mode: BreakpointInheritanceMode) => void
+  resetCanvasOverride: (id: string, breakpoint: string) => void
+  resetLayoutOverride: (breakpoint: string) => void
 
   // Actions: Breakpoint management
   setCurrentBreakpoint: (breakpoint: string) => void
@@ -83,6 +141,9 @@ interface LayoutState extends HistoryActions {
 
   // Actions: Selection
   setSelectedComponentId: (id: string | null) => void
+  setSelectedComponentIds: (ids: string[]) => void
+  toggleComponentSelection: (id: string) => void
+  clearSelection: () => void
 
   // Actions: Schema operations
   exportSchema: () => LaydlerSchema
@@ -100,8 +161,171 @@ interface LayoutState extends HistoryActions {
   setShowLinkingPanel: (show: boolean) => void
   openLinkingPanel: () => void
   closeLinkingPanel: () => void
+
+  // Actions: Project workspace
+  switchWorkspace: (projectId: string, workspace?: PersistedWorkspace) => void
+  closeWorkspace: () => void
 }
 
+/**
+ * 빈 workspace - 브레이크포인트 선택 전 상태 (InitialBreakpointModal 표시)
+ */
+export function createInitialWorkspace(): PersistedWorkspace {
+  return {
+    schema: {
+      schemaVersion: "2.0",
+      components: [],
+      breakpoints: [],
+      layouts: {
+        mobile: { structure: "vertical", components: [] },
+        tablet: { structure: "vertical", components: [] },
+        desktop: { structure: "vertical", components: [] },
+      },
+    },
+    componentLinks: [],
+    currentBreakpoint: "mobile",
+  }
+}
+
+/**
+ * 변경 사항에 이전 상태(schema + componentLinks)의 히스토리 항목을 붙여 반환
+ *
+ * set() 콜백에서 사용:
+ * `return withHistory(state, { schema }, "addComponent")`
+ * 변경 후 schema/componentLinks가 이전과 같으면(no-op 업데이트) 기록하지 않음
+ */
+function withHistory(
+  state: LayoutState,
+  changes: Partial<LayoutState>,
+  label: string,
+  coalesceKey?: string
+): Partial<LayoutState> {
+  const previous = { schema: state.schema, componentLinks: state.componentLinks }
+  const next = {
+    schema: changes.schema ?? state.schema,
+    componentLinks: changes.componentLinks ?? state.componentLinks,
+  }
+
+  // 값이 그대로면 기존 참조를 유지 (undo 단계/불필요한 persist 방지)
+  if (isSameSnapshot(previous, next)) {
+    return { ...changes, ...previous }
+  }
+
+  return {
+    ...changes,
+    history: pushHistoryEntry(state.history, previous, label, { coalesceKey }),
+  }
+}
+
+/**
+ * 히스토리 스냅샷 복원
+ *
+ * 복원된 스키마에 없는 컴포넌트 선택/브레이크포인트는 정리
+ */
+function restoreSnapshot(
+  state: LayoutState,
+  snapshot: HistorySnapshot
+): Pick<
+  LayoutState,
+  "schema" | "componentLinks" | "selectedComponentId" | "selectedComponentIds" | "currentBreakpoint"
+> {
+  const { schema, componentLinks } = snapshot
+
+  const selectedComponentIds = state.selectedComponentIds.filter((id) =>
+    schema.components.some((c) => c.id === id)
+  )
+  const selectedComponentId =
+    state.selectedComponentId && selectedComponentIds.includes(state.selectedComponentId)
+      ? state.selectedComponentId
+      : selectedComponentIds[0] ?? null
+
+  const currentBreakpoint = schema.breakpoints.some(
+    (bp) => bp.name === state.currentBreakpoint
+  )
+    ? state.currentBreakpoint
+    : schema.breakpoints[0]?.name ?? state.currentBreakpoint
+
+  return { schema, componentLinks, selectedComponentId, selectedComponentIds, currentBreakpoint }
+}
+
+/**
+ * 다중 선택 상태 계산
+ *
+ * primary(selectedComponentId)가 선택에서 빠지면 남은 마지막 항목으로 이동
+ */
+function toSelection(
+  ids: string[],
+  primary: string | null
+): Pick<LayoutState, "selectedComponentId" | "selectedComponentIds"> {
+  const selectedComponentIds = Array.from(new Set(ids))
+  const selectedComponentId =
+    primary && selectedComponentIds.includes(primary)
+      ? primary
+      : selectedComponentIds[selectedComponentIds.length - 1] ?? null
+
+  return { selectedComponentId, selectedComponentIds }
+}
+
+/**
+ * 컴포넌트 삭제 (자손 포함, components, 모든 layout/role, 관련 component link, 선택 상태 정리)
+ */
+function removeComponents(
+  state: LayoutState,
+  ids: string[]
+): Pick<LayoutState, "schema" | "componentLinks" | "selectedComponentId" | "selectedComponentIds"> {
+  const removed = new Set(
+    ids.flatMap((id) => [id, ...getDescendantIds(state.schema.components, id)])
+  )
+
+  // Remove component from components array
+  const components = state.schema.components.filter((c) => !removed.has(c.id))
+
+  // Remove component from all layout configs
+  const layouts = { ...state.schema.layouts }
+  for (const breakpoint in layouts) {
+    const layout = layouts[breakpoint]
+    layouts[breakpoint] = {
+      ...layout,
+      components: layout.components.filter((cid: string) => !removed.has(cid)),
+    }
+
+    // Remove from roles if present
+    if (layout.roles) {
+      const newRoles = { ...layout.roles }
+      // Use Object.keys with proper typing to avoid type assertions
+      ;(Object.keys(newRoles) as Array<keyof typeof newRoles>).forEach(
+        (role) => {
+          const roleId = newRoles[role]
+          if (roleId && removed.has(roleId)) {
+            delete newRoles[role]
+          }
+        }
+      )
+      layouts[breakpoint] = {
+        ...layouts[breakpoint],
+        roles: Object.keys(newRoles).length > 0 ? newRoles : undefined,
+      }
+    }
+  }
+
+  // Remove all component links related to this component (orphaned links cleanup)
+  const componentLinks = state.componentLinks.filter(
+    (link) => !removed.has(link.source) && !removed.has(link.target)
+  )
+
+  return {
+    schema: {
+      ...state.schema,
+      components,
+      layouts,
+    },
+    componentLinks,
+    ...toSelection(
+      state.selectedComponentIds.filter((id) => !removed.has(id)),
+      state.selectedComponentId
+    ),
+  }
+}
 
 /**
  * Theme state for V2
@@ -111,732 +335,1041 @@ interface ThemeState {
   setTheme: (themeId: string) => void
 }
 
+/**
+ * 열린 프로젝트가 없을 때의 저장소 - 삭제된 프로젝트 키에 autosave하지 않도록 쓰기를 버림
+ */
+const detachedStorage: PersistStorage<unknown> = {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+}
+
 /**
  * Create layout store V2
  */
 export const useLayoutStore = create<LayoutState>()(
   devtools(
-    (set, get) => ({
-      // Initial state - 빈 스키마로 시작 (사용자가 브레이크포인트 선택 후 초기화)
-      schema: {
-        schemaVersion: "2.0",
-        components: [],
-        breakpoints: [],
-        layouts: {
-          mobile: { structure: "vertical", components: [] },
-          tablet: { structure: "vertical", components: [] },
-          desktop: { structure: "vertical", components: [] },
-        },
-      },
-      currentBreakpoint: "mobile",
-      selectedComponentId: null,
-      showLinkingPanel: false,
-      componentLinks: [],
-
-      // Component management
-      addComponent: (componentData) => {
-        set((state) => {
-          const newId = generateComponentId(state.schema.components)
-          const newComponent: Component = {
-            ...componentData,
-            id: newId,  // Override with generated ID (must be last to ensure it's not overwritten)
-          }
+    persist(
+      (set, get, api) => ({
+        // Initial state - 빈 스키마로 시작 (사용자가 브레이크포인트 선택 후 초기화)
+        ...createInitialWorkspace(),
+        selectedComponentId: null,
+        selectedComponentIds: [],
+        showLinkingPanel: false,
+        history: createEmptyHistory(),
+        projectId: DEFAULT_PROJECT_ID,
+
+        // Component management
+        addComponent: (componentData) => {
+          set((state) => {
+            const newId = generateComponentId(state.schema.components)
+            const newComponent: Component = {
+              ...componentData,
+              id: newId,  // Override with generated ID (must be last to ensure it's not overwritten)
+            }
 
-          //: Components are independent, just add to array
-          // Layout is managed through LayoutConfig.components array
-          const currentLayout = state.schema.layouts[state.currentBreakpoint]
-
-          // 업데이트된 스키마 (현재 breakpoint에만 추가)
-          // ⚠️ CRITICAL: normalizeSchema()를 호출하지 않음
-          // 이유: 사용자가 breakpoint별로 독립적으로 컴포넌트를 추가할 수 있도록 함
-          // Component Links로 cross-breakpoint relationships를 명시적으로 관리
-          const updatedSchema: LaydlerSchema = {
-            ...state.schema,
-            components: [...state.schema.components, newComponent],
-            layouts: {
-              ...state.schema.layouts,
-              [state.currentBreakpoint]: {
-                ...currentLayout,
-                components: [...currentLayout.components, newId],
+            //: Components are independent, just add to array
+            // Layout is managed through LayoutConfig.components array
+            // 중첩 컴포넌트(parentId)는 부모 안에서 렌더링되므로 layout에 추가하지 않음
+            // 상속 모드: 상속된 layout에 추가하면 현재 breakpoint의 override가 됨
+            const currentLayout = getEffectiveLayout(state.schema, state.currentBreakpoint)
+
+            // 업데이트된 스키마 (현재 breakpoint에만 추가)
+            // ⚠️ CRITICAL: normalizeSchema()를 호출하지 않음
+            // 이유: 사용자가 breakpoint별로 독립적으로 컴포넌트를 추가할 수 있도록 함
+            // Component Links로 cross-breakpoint relationships를 명시적으로 관리
+            const updatedSchema: LaydlerSchema = {
+              ...state.schema,
+              components: [...state.schema.components, newComponent],
+              layouts: {
+                ...state.schema.layouts,
+                [state.currentBreakpoint]: {
+                  ...currentLayout,
+                  components: newComponent.parentId
+                    ? currentLayout.components
+                    : [...currentLayout.components, newId],
+                },
               },
-            },
-          }
+            }
 
-          return {
-            schema: updatedSchema,
-          }
-        }, false, "addComponent")
-      },
+            return withHistory(state, {
+              schema: updatedSchema,
+            }, "addComponent")
+          }, false, "addComponent")
+        },
 
-      updateComponent: (id, updates) => {
-        set((state) => {
-          const components = state.schema.components.map((component) =>
-            component.id === id ? { ...component, ...updates } : component
-          )
+        updateComponent: (id, updates) => {
+          set((state) => {
+            const components = state.schema.components.map((component) =>
+              component.id === id ? { ...component, ...updates } : component
+            )
 
-          return {
-            schema: {
-              ...state.schema,
-              components,
-            },
-          }
-        }, false, "updateComponent")
-      },
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components,
+              },
+            }, "updateComponent", `updateComponent:${id}`)
+          }, false, "updateComponent")
+        },
 
-      deleteComponent: (id) => {
-        set((state) => {
-          // Remove component from components array
-          const components = state.schema.components.filter((c) => c.id !== id)
-
-          // Remove component from all layout configs
-          const layouts = { ...state.schema.layouts }
-          for (const breakpoint in layouts) {
-            const layout = layouts[breakpoint]
-            layouts[breakpoint] = {
-              ...layout,
-              components: layout.components.filter((cid: string) => cid !== id),
-            }
+        deleteComponent: (id) => {
+          set((state) => withHistory(state, removeComponents(state, [id]), "deleteComponent"), false, "deleteComponent")
+        },
 
-            // Remove from roles if present
-            if (layout.roles) {
-              const newRoles = { ...layout.roles }
-              // Use Object.keys with proper typing to avoid type assertions
-              ;(Object.keys(newRoles) as Array<keyof typeof newRoles>).forEach(
-                (role) => {
-                  if (newRoles[role] === id) {
-                    delete newRoles[role]
-                  }
-                }
-              )
-              layouts[breakpoint] = {
-                ...layouts[breakpoint],
-                roles: Object.keys(newRoles).length > 0 ? newRoles : undefined,
-              }
-            }
-          }
+        // 다중 선택 batch 업데이트 (그룹 이동/리사이즈, PropertiesPanel) - 하나의 undo 단계
+        updateComponents: (updates) => {
+          set((state) => {
+            const ids = Object.keys(updates)
+            if (ids.length === 0) return state
 
-          // Remove all component links related to this component (orphaned links cleanup)
-          const componentLinks = state.componentLinks.filter(
-            (link) => link.source !== id && link.target !== id
-          )
+            const components = state.schema.components.map((component) =>
+              updates[component.id] ? { ...component, ...updates[component.id] } : component
+            )
 
-          return {
-            schema: {
-              ...state.schema,
-              components,
-              layouts,
-            },
-            componentLinks,
-            selectedComponentId:
-              state.selectedComponentId === id ? null : state.selectedComponentId,
-          }
-        }, false, "deleteComponent")
-      },
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components,
+              },
+            }, "updateComponents", `updateComponents:${[...ids].sort().join(",")}`)
+          }, false, "updateComponents")
+        },
 
-      duplicateComponent: (id) => {
-        set((state) => {
-          // Find component to duplicate
-          const originalComponent = state.schema.components.find((c) => c.id === id)
-          if (!originalComponent) return state
-
-          // Create duplicate with new ID
-          const newId = generateComponentId(state.schema.components)
-          const duplicateComponent: Component = {
-            ...originalComponent,
-            id: newId,
-            name: `${originalComponent.name} Copy`,
-          }
+        deleteComponents: (ids) => {
+          set((state) => {
+            if (ids.length === 0) return state
 
-          // Add duplicate to current breakpoint's layout
-          const currentLayout = state.schema.layouts[state.currentBreakpoint]
+            return withHistory(state, removeComponents(state, ids), "deleteComponents")
+          }, false, "deleteComponents")
+        },
 
-          return {
-            schema: {
-              ...state.schema,
-              components: [...state.schema.components, duplicateComponent],
-              layouts: {
-                ...state.schema.layouts,
-                [state.currentBreakpoint]: {
-                  ...currentLayout,
-                  components: [...currentLayout.components, newId],
+        duplicateComponent: (id) => {
+          set((state) => {
+            // Find component to duplicate
+            const originalComponent = state.schema.components.find((c) => c.id === id)
+            if (!originalComponent) return state
+
+            // Create duplicate with new ID
+            const newId = generateComponentId(state.schema.components)
+            const duplicateComponent: Component = {
+              ...originalComponent,
+              id: newId,
+              name: `${originalComponent.name} Copy`,
+            }
+
+            // Add duplicate to current breakpoint's layout (중첩 컴포넌트는 같은 부모 아래 유지)
+            const currentLayout = getEffectiveLayout(state.schema, state.currentBreakpoint)
+
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components: [...state.schema.components, duplicateComponent],
+                layouts: {
+                  ...state.schema.layouts,
+                  [state.currentBreakpoint]: {
+                    ...currentLayout,
+                    components: duplicateComponent.parentId
+                      ? currentLayout.components
+                      : [...currentLayout.components, newId],
+                  },
                 },
               },
-            },
-            selectedComponentId: newId, // Auto-select duplicated component
-          }
-        }, false, "duplicateComponent")
-      },
+              ...toSelection([newId], newId), // Auto-select duplicated component
+            }, "duplicateComponent")
+          }, false, "duplicateComponent")
+        },
 
-      // specific: Component properties updates
-      updateComponentPositioning: (id, positioning) => {
-        set((state) => {
-          const components = state.schema.components.map((component) =>
-            component.id === id ? { ...component, positioning } : component
-          )
+        // 부모 변경 (null: 최상위로 이동) + 위치 등 batch 업데이트(자손 포함)를 하나의 undo 단계로
+        setComponentParent: (id, parentId, updates = {}) => {
+          set((state) => {
+            const { components, layouts } = state.schema
+            const component = components.find((c) => c.id === id)
+            if (!component) return state
+            if (parentId && !canNestComponent(components, component, parentId)) return state
+
+            const previousRootId = [id, ...getAncestorIds(components, id)].pop()!
+            const updated: Component = { ...component, ...updates[id] }
+            if (parentId) {
+              updated.parentId = parentId
+            } else {
+              delete updated.parentId
+            }
 
-          return {
-            schema: {
-              ...state.schema,
-              components,
-            },
-          }
-        }, false, "updateComponentPositioning")
-      },
+            const nextLayouts = { ...layouts }
+            if (parentId && !component.parentId) {
+              // 최상위 → 중첩: 모든 layout/role에서 제거
+              for (const breakpoint in nextLayouts) {
+                const layout = nextLayouts[breakpoint]
+                const roles = layout.roles
+                  ? Object.fromEntries(
+                      Object.entries(layout.roles).filter(([, roleId]) => roleId !== id)
+                    )
+                  : undefined
+                nextLayouts[breakpoint] = {
+                  ...layout,
+                  components: layout.components.filter((cid) => cid !== id),
+                  roles: roles && Object.keys(roles).length > 0 ? roles : undefined,
+                }
+              }
+            } else if (!parentId && component.parentId) {
+              // 중첩 → 최상위: 이전 최상위 조상이 있던 layout에 추가
+              const targets = Object.keys(nextLayouts).filter((breakpoint) =>
+                nextLayouts[breakpoint].components.includes(previousRootId)
+              )
+              const breakpoints =
+                targets.length > 0 || !nextLayouts[state.currentBreakpoint]
+                  ? targets
+                  : [state.currentBreakpoint]
+              for (const breakpoint of breakpoints) {
+                const layout = nextLayouts[breakpoint]
+                nextLayouts[breakpoint] = {
+                  ...layout,
+                  components: [...layout.components, id],
+                }
+              }
+            }
 
-      updateComponentLayout: (id, layout) => {
-        set((state) => {
-          const components = state.schema.components.map((component) =>
-            component.id === id ? { ...component, layout } : component
-          )
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components: components.map((c) =>
+                  c.id === id ? updated : updates[c.id] ? { ...c, ...updates[c.id] } : c
+                ),
+                layouts: nextLayouts,
+              },
+            }, "setComponentParent")
+          }, false, "setComponentParent")
+        },
 
-          return {
-            schema: {
-              ...state.schema,
-              components,
-            },
-          }
-        }, false, "updateComponentLayout")
-      },
+        // specific: Component properties updates
+        updateComponentPositioning: (id, positioning) => {
+          set((state) => {
+            const components = state.schema.components.map((component) =>
+              component.id === id ? { ...component, positioning } : component
+            )
 
-      updateComponentStyling: (id, styling) => {
-        set((state) => {
-          const components = state.schema.components.map((component) =>
-            component.id === id ? { ...component, styling } : component
-          )
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components,
+              },
+            }, "updateComponentPositioning", `updateComponentPositioning:${id}`)
+          }, false, "updateComponentPositioning")
+        },
 
-          return {
-            schema: {
-              ...state.schema,
-              components,
-            },
-          }
-        }, false, "updateComponentStyling")
-      },
+        updateComponentLayout: (id, layout) => {
+          set((state) => {
+            const components = state.schema.components.map((component) =>
+              component.id === id ? { ...component, layout } : component
+            )
 
-      updateComponentResponsive: (id, responsive) => {
-        set((state) => {
-          const components = state.schema.components.map((component) =>
-            component.id === id ? { ...component, responsive } : component
-          )
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components,
+              },
+            }, "updateComponentLayout", `updateComponentLayout:${id}`)
+          }, false, "updateComponentLayout")
+        },
 
-          return {
-            schema: {
-              ...state.schema,
-              components,
-            },
-          }
-        }, false, "updateComponentResponsive")
-      },
+        updateComponentStyling: (id, styling) => {
+          set((state) => {
+            const components = state.schema.components.map((component) =>
+              component.id === id ? { ...component, styling } : component
+            )
 
-      // Layout management (V2 - simplified, no grid-template-areas)
-      updateLayout: (breakpoint, layout) => {
-        set((state) => {
-          return {
-            schema: {
-              ...state.schema,
-              layouts: {
-                ...state.schema.layouts,
-                [breakpoint]: layout,
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components,
               },
-            },
-          }
-        }, false, "updateLayout")
-      },
-
-      addComponentToLayout: (breakpoint, componentId) => {
-        set((state) => {
-          const currentLayout = state.schema.layouts[breakpoint]
+            }, "updateComponentStyling", `updateComponentStyling:${id}`)
+          }, false, "updateComponentStyling")
+        },
 
-          // Check if component already exists in layout
-          if (currentLayout.components.includes(componentId)) {
-            return state
-          }
+        updateComponentResponsive: (id, responsive) => {
+          set((state) => {
+            const components = state.schema.components.map((component) =>
+              component.id === id ? { ...component, responsive } : component
+            )
 
-          // 업데이트된 스키마 (특정 breakpoint에만 추가)
-          const updatedSchema: LaydlerSchema = {
-            ...state.schema,
-            layouts: {
-              ...state.schema.layouts,
-              [breakpoint]: {
-                ...currentLayout,
-                components: [...currentLayout.components, componentId],
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components,
               },
-            },
-          }
+            }, "updateComponentResponsive", `updateComponentResponsive:${id}`)
+          }, false, "updateComponentResponsive")
+        },
 
-          // Breakpoint Inheritance 적용: Mobile → Tablet → Desktop
-          const normalizedSchema = normalizeSchema(updatedSchema)
+        // Layout management (V2 - simplified, no grid-template-areas)
+        updateLayout: (breakpoint, layout) => {
+          set((state) => {
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                layouts: {
+                  ...state.schema.layouts,
+                  [breakpoint]: layout,
+                },
+              },
+            }, "updateLayout", `updateLayout:${breakpoint}`)
+          }, false, "updateLayout")
+        },
 
-          return {
-            schema: normalizedSchema,
-          }
-        }, false, "addComponentToLayout")
-      },
+        addComponentToLayout: (breakpoint, componentId) => {
+          set((state) => {
+            const currentLayout = getEffectiveLayout(state.schema, breakpoint)
 
-      reorderComponentsInLayout: (breakpoint, newOrder) => {
-        set((state) => {
-          const currentLayout = state.schema.layouts[breakpoint]
+            // Check if component already exists in layout
+            if (currentLayout.components.includes(componentId)) {
+              return state
+            }
 
-          return {
-            schema: {
+            // 업데이트된 스키마 (특정 breakpoint에만 추가)
+            const updatedSchema: LaydlerSchema = {
               ...state.schema,
               layouts: {
                 ...state.schema.layouts,
                 [breakpoint]: {
                   ...currentLayout,
-                  components: newOrder,
+                  components: [...currentLayout.components, componentId],
                 },
               },
-            },
-          }
-        }, false, "reorderComponentsInLayout")
-      },
+            }
 
-      // Breakpoint management
-      setCurrentBreakpoint: (breakpoint) => {
-        set({ currentBreakpoint: breakpoint }, false, "setCurrentBreakpoint")
-      },
+            // Breakpoint Inheritance 적용: Mobile → Tablet → Desktop
+            const normalizedSchema = normalizeSchema(updatedSchema)
 
-      addBreakpoint: (breakpoint) => {
-        set((state) => {
-          // Check if breakpoint already exists
-          const exists = state.schema.breakpoints.some(
-            (bp) => bp.name === breakpoint.name
-          )
-          if (exists) return state
+            return withHistory(state, {
+              schema: normalizedSchema,
+            }, "addComponentToLayout")
+          }, false, "addComponentToLayout")
+        },
 
-          // Apply default grid config if not provided
-          const breakpointWithDefaults = {
-            ...breakpoint,
-            gridCols: breakpoint.gridCols ?? DEFAULT_GRID_CONFIG[breakpoint.name]?.gridCols ?? 12,
-            gridRows: breakpoint.gridRows ?? DEFAULT_GRID_CONFIG[breakpoint.name]?.gridRows ?? 8,
-          }
+        reorderComponentsInLayout: (breakpoint, newOrder) => {
+          set((state) => {
+            const currentLayout = getEffectiveLayout(state.schema, breakpoint)
+
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                layouts: {
+                  ...state.schema.layouts,
+                  [breakpoint]: {
+                    ...currentLayout,
+                    components: newOrder,
+                  },
+                },
+              },
+            }, "reorderComponentsInLayout")
+          }, false, "reorderComponentsInLayout")
+        },
 
-          // Create empty layout for new breakpoint
-          const emptyLayout: LayoutConfig = {
-            structure: "vertical",
-            components: [],
-          }
+        // Auto-adapt 제안 적용: target breakpoint의 canvas 배치 + LayoutConfig + 필요한 grid rows (undo 한 단계)
+        applyAdaptedLayout: (proposal) => {
+          set((state) => {
+            const { targetBreakpoint, canvasLayouts } = proposal
+            if (!state.schema.breakpoints.some((bp) => bp.name === targetBreakpoint)) return state
+
+            const components = state.schema.components.map((component) =>
+              canvasLayouts[component.id]
+                ? {
+                    ...component,
+                    responsiveCanvasLayout: {
+                      ...component.responsiveCanvasLayout,
+                      [targetBreakpoint]: canvasLayouts[component.id],
+                    },
+                  }
+                : component
+            )
+            const breakpoints = state.schema.breakpoints.map((bp) =>
+              bp.name === targetBreakpoint
+                ? { ...bp, gridRows: Math.min(Math.max(bp.gridRows, proposal.gridRows), GRID_CONSTRAINTS.maxRows) }
+                : bp
+            )
 
-          // Create updated schema
-          const updatedSchema: LaydlerSchema = {
-            ...state.schema,
-            breakpoints: [...state.schema.breakpoints, breakpointWithDefaults].sort(
-              (a, b) => a.minWidth - b.minWidth
-            ),
-            layouts: {
-              ...state.schema.layouts,
-              [breakpoint.name]: emptyLayout,
-            },
-          }
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components,
+                breakpoints,
+                layouts: {
+                  ...state.schema.layouts,
+                  [targetBreakpoint]: proposal.layout,
+                },
+              },
+            }, "applyAdaptedLayout")
+          }, false, "applyAdaptedLayout")
+        },
 
-          // Apply normalization to handle component responsiveCanvasLayout inheritance
-          const normalizedSchema = normalizeSchema(updatedSchema)
+        // 상속 모드 변경 - 상속 해제 시 지금 보이는 배치를 각 breakpoint에 명시적으로 저장
+        setBreakpointInheritance: (mode) => {
+          set((state) => {
+            if (getInheritanceMode(state.schema) === mode) return state
 
-          return {
-            schema: normalizedSchema,
-          }
-        }, false, "addBreakpoint")
-      },
+            const schema = mode === "none" ? { ...resolveInheritance(state.schema) } : { ...state.schema }
+            if (mode === "none") {
+              delete schema.breakpointInheritance
+            } else {
+              schema.breakpointInheritance = mode
+            }
 
-      updateBreakpoint: (oldName, newBreakpoint) => {
-        set((state) => {
-          // Update breakpoint in array
-          const breakpoints = state.schema.breakpoints.map((bp) =>
-            bp.name === oldName ? newBreakpoint : bp
-          )
+            return withHistory(state, {
+              schema,
+            }, "setBreakpointInheritance")
+          }, false, "setBreakpointInheritance")
+        },
 
-          // If name changed, update layouts keys
-          let layouts = state.schema.layouts
-          if (oldName !== newBreakpoint.name) {
-            const oldLayout = layouts[oldName]
-            layouts = { ...layouts }
-            delete layouts[oldName]
-            layouts[newBreakpoint.name] = oldLayout
-          }
+        // 컴포넌트의 breakpoint 위치 override 제거 → 상속된 위치 사용
+        resetCanvasOverride: (id, breakpoint) => {
+          set((state) => {
+            const component = state.schema.components.find((c) => c.id === id)
+            const inheritsFrom = getInheritanceChain(state.schema, breakpoint).some(
+              (name) => component?.responsiveCanvasLayout?.[name]
+            )
+            if (!component?.responsiveCanvasLayout?.[breakpoint] || !inheritsFrom) return state
 
-          return {
-            schema: {
-              ...state.schema,
-              breakpoints: breakpoints.sort((a, b) => a.minWidth - b.minWidth),
-              layouts,
-            },
-            currentBreakpoint:
-              state.currentBreakpoint === oldName
-                ? newBreakpoint.name
-                : state.currentBreakpoint,
-          }
-        }, false, "updateBreakpoint")
-      },
+            const responsiveCanvasLayout = { ...component.responsiveCanvasLayout }
+            delete responsiveCanvasLayout[breakpoint]
 
-      deleteBreakpoint: (name) => {
-        set((state) => {
-          // Don't allow deleting if only one breakpoint left
-          if (state.schema.breakpoints.length <= 1) return state
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                components: state.schema.components.map((c) =>
+                  c.id === id ? { ...c, responsiveCanvasLayout } : c
+                ),
+              },
+            }, "resetCanvasOverride")
+          }, false, "resetCanvasOverride")
+        },
 
-          const breakpoints = state.schema.breakpoints.filter(
-            (bp) => bp.name !== name
-          )
-          const layouts = { ...state.schema.layouts }
-          delete layouts[name]
-
-          // Remove responsiveCanvasLayout for deleted breakpoint from all components
-          const components = state.schema.components.map((component) => {
-            if (component.responsiveCanvasLayout) {
-              const rcl = { ...component.responsiveCanvasLayout }
-              delete rcl[name]
-
-              // If no layouts left, remove responsiveCanvasLayout entirely
-              const hasLayouts = Object.keys(rcl).length > 0
-              return hasLayouts
-                ? { ...component, responsiveCanvasLayout: rcl }
-                : { ...component, responsiveCanvasLayout: undefined }
-            }
-            return component
-          })
+        // breakpoint의 LayoutConfig override 제거 (빈 layout = 상속)
+        resetLayoutOverride: (breakpoint) => {
+          set((state) => {
+            const inheritsFrom = getInheritanceChain(state.schema, breakpoint).some(
+              (name) => getLayoutSource(state.schema, name) !== null
+            )
+            if (getLayoutSource(state.schema, breakpoint) !== breakpoint || !inheritsFrom) return state
+
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                layouts: {
+                  ...state.schema.layouts,
+                  [breakpoint]: { structure: "vertical", components: [] },
+                },
+              },
+            }, "resetLayoutOverride")
+          }, false, "resetLayoutOverride")
+        },
 
-          // If deleted breakpoint was selected, switch to first available
-          let currentBreakpoint = state.currentBreakpoint
-          if (currentBreakpoint === name) {
-            currentBreakpoint = breakpoints[0].name
-          }
+        // Breakpoint management
+        setCurrentBreakpoint: (breakpoint) => {
+          set({ currentBreakpoint: breakpoint }, false, "setCurrentBreakpoint")
+        },
 
-          return {
-            schema: {
-              ...state.schema,
-              breakpoints,
-              layouts,
-              components,
-            },
-            currentBreakpoint,
-          }
-        }, false, "deleteBreakpoint")
-      },
+        addBreakpoint: (breakpoint) => {
+          set((state) => {
+            // Check if breakpoint already exists
+            const exists = state.schema.breakpoints.some(
+              (bp) => bp.name === breakpoint.name
+            )
+            if (exists) return state
 
-      // Grid management
-      addGridRow: (breakpointName) => {
-        set((state) => {
-          const breakpoints = state.schema.breakpoints.map((bp) => {
-            if (bp.name === breakpointName) {
-              const newGridRows = Math.min(bp.gridRows + 1, GRID_CONSTRAINTS.maxRows)
-              return { ...bp, gridRows: newGridRows }
+            // Apply default grid config if not provided
+            const breakpointWithDefaults = {
+              ...breakpoint,
+              gridCols: breakpoint.gridCols ?? DEFAULT_GRID_CONFIG[breakpoint.name]?.gridCols ?? 12,
+              gridRows: breakpoint.gridRows ?? DEFAULT_GRID_CONFIG[breakpoint.name]?.gridRows ?? 8,
             }
-            return bp
-          })
-
-          return {
-            schema: {
-              ...state.schema,
-              breakpoints,
-            },
-          }
-        }, false, "addGridRow")
-      },
 
-      addGridColumn: (breakpointName) => {
-        set((state) => {
-          const breakpoints = state.schema.breakpoints.map((bp) => {
-            if (bp.name === breakpointName) {
-              const newGridCols = Math.min(bp.gridCols + 1, GRID_CONSTRAINTS.maxCols)
-              return { ...bp, gridCols: newGridCols }
+            // Create empty layout for new breakpoint
+            const emptyLayout: LayoutConfig = {
+              structure: "vertical",
+              components: [],
             }
-            return bp
-          })
 
-          return {
-            schema: {
+            // Create updated schema
+            const updatedSchema: LaydlerSchema = {
               ...state.schema,
-              breakpoints,
-            },
-          }
-        }, false, "addGridColumn")
-      },
+              breakpoints: [...state.schema.breakpoints, breakpointWithDefaults].sort(
+                (a, b) => a.minWidth - b.minWidth
+              ),
+              layouts: {
+                ...state.schema.layouts,
+                [breakpoint.name]: emptyLayout,
+              },
+            }
+
+            // Apply normalization to handle component responsiveCanvasLayout inheritance
+            const normalizedSchema = normalizeSchema(updatedSchema)
 
-      removeGridRow: (breakpointName) => {
-        set((state) => {
-          // Get components in current breakpoint's layout
-          const currentLayout = state.schema.layouts[breakpointName]
-          const componentIds = new Set(currentLayout.components)
-          const components = state.schema.components.filter((c) => componentIds.has(c.id))
+            return withHistory(state, {
+              schema: normalizedSchema,
+            }, "addBreakpoint")
+          }, false, "addBreakpoint")
+        },
 
-          // Find current breakpoint config
-          const bp = state.schema.breakpoints.find((b) => b.name === breakpointName)
-          if (!bp) return state
+        updateBreakpoint: (oldName, newBreakpoint) => {
+          set((state) => {
+            // Update breakpoint in array
+            const breakpoints = state.schema.breakpoints.map((bp) =>
+              bp.name === oldName ? newBreakpoint : bp
+            )
 
-          const newGridRows = bp.gridRows - 1
+            // If name changed, update layouts keys
+            let layouts = state.schema.layouts
+            if (oldName !== newBreakpoint.name) {
+              const oldLayout = layouts[oldName]
+              layouts = { ...layouts }
+              delete layouts[oldName]
+              layouts[newBreakpoint.name] = oldLayout
+            }
 
-          // Calculate dynamic minimum based on component positions
-          const { minRows } = calculateMinimumGridSize(components, breakpointName)
-          const absoluteMin = Math.max(GRID_CONSTRAINTS.minRows, minRows)
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                breakpoints: breakpoints.sort((a, b) => a.minWidth - b.minWidth),
+                layouts,
+              },
+              currentBreakpoint:
+                state.currentBreakpoint === oldName
+                  ? newBreakpoint.name
+                  : state.currentBreakpoint,
+            }, "updateBreakpoint")
+          }, false, "updateBreakpoint")
+        },
+
+        deleteBreakpoint: (name) => {
+          set((state) => {
+            // Don't allow deleting if only one breakpoint left
+            if (state.schema.breakpoints.length <= 1) return state
 
-          // Validate: Don't allow reducing if it would clip components
-          if (newGridRows < absoluteMin) {
-            console.warn(
-              `❌ Cannot reduce rows to ${newGridRows}: Components occupy up to row ${minRows}. Minimum required: ${absoluteMin}`
+            const breakpoints = state.schema.breakpoints.filter(
+              (bp) => bp.name !== name
             )
-            return state // Reject the change
-          }
+            const layouts = { ...state.schema.layouts }
+            delete layouts[name]
+
+            // Remove responsiveCanvasLayout for deleted breakpoint from all components
+            const components = state.schema.components.map((component) => {
+              if (component.responsiveCanvasLayout) {
+                const rcl = { ...component.responsiveCanvasLayout }
+                delete rcl[name]
+
+                // If no layouts left, remove responsiveCanvasLayout entirely
+                const hasLayouts = Object.keys(rcl).length > 0
+                return hasLayouts
+                  ? { ...component, responsiveCanvasLayout: rcl }
+                  : { ...component, responsiveCanvasLayout: undefined }
+              }
+              return component
+            })
 
-          // Safe to reduce
-          const breakpoints = state.schema.breakpoints.map((b) => {
-            if (b.name === breakpointName) {
-              return { ...b, gridRows: newGridRows }
+            // If deleted breakpoint was selected, switch to first available
+            let currentBreakpoint = state.currentBreakpoint
+            if (currentBreakpoint === name) {
+              currentBreakpoint = breakpoints[0].name
             }
-            return b
-          })
 
-          return {
-            schema: {
-              ...state.schema,
-              breakpoints,
-            },
-          }
-        }, false, "removeGridRow")
-      },
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                breakpoints,
+                layouts,
+                components,
+              },
+              currentBreakpoint,
+            }, "deleteBreakpoint")
+          }, false, "deleteBreakpoint")
+        },
 
-      removeGridColumn: (breakpointName) => {
-        set((state) => {
-          // Get components in current breakpoint's layout
-          const currentLayout = state.schema.layouts[breakpointName]
-          const componentIds = new Set(currentLayout.components)
-          const components = state.schema.components.filter((c) => componentIds.has(c.id))
+        // Grid management
+        addGridRow: (breakpointName) => {
+          set((state) => {
+            const breakpoints = state.schema.breakpoints.map((bp) => {
+              if (bp.name === breakpointName) {
+                const newGridRows = Math.min(bp.gridRows + 1, GRID_CONSTRAINTS.maxRows)
+                return { ...bp, gridRows: newGridRows }
+              }
+              return bp
+            })
 
-          // Find current breakpoint config
-          const bp = state.schema.breakpoints.find((b) => b.name === breakpointName)
-          if (!bp) return state
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                breakpoints,
+              },
+            }, "addGridRow")
+          }, false, "addGridRow")
+        },
 
-          const newGridCols = bp.gridCols - 1
+        addGridColumn: (breakpointName) => {
+          set((state) => {
+            const breakpoints = state.schema.breakpoints.map((bp) => {
+              if (bp.name === breakpointName) {
+                const newGridCols = Math.min(bp.gridCols + 1, GRID_CONSTRAINTS.maxCols)
+                return { ...bp, gridCols: newGridCols }
+              }
+              return bp
+            })
 
-          // Calculate dynamic minimum based on component positions
-          const { minCols } = calculateMinimumGridSize(components, breakpointName)
-          const absoluteMin = Math.max(GRID_CONSTRAINTS.minCols, minCols)
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                breakpoints,
+              },
+            }, "addGridColumn")
+          }, false, "addGridColumn")
+        },
 
-          // Validate: Don't allow reducing if it would clip components
-          if (newGridCols < absoluteMin) {
-            console.warn(
-              `❌ Cannot reduce columns to ${newGridCols}: Components occupy up to column ${minCols}. Minimum required: ${absoluteMin}`
-            )
-            return state // Reject the change
-          }
+        removeGridRow: (breakpointName) => {
+          set((state) => {
+            // Get components in current breakpoint's layout (상속된 layout/위치 포함)
+            const resolved = resolveBreakpoint(state.schema, breakpointName)
+            const currentLayout = resolved.layouts[breakpointName]
+            const componentIds = new Set(currentLayout.components)
+            const components = resolved.components.filter((c) => componentIds.has(c.id))
 
-          // Safe to reduce
-          const breakpoints = state.schema.breakpoints.map((b) => {
-            if (b.name === breakpointName) {
-              return { ...b, gridCols: newGridCols }
-            }
-            return b
-          })
+            // Find current breakpoint config
+            const bp = state.schema.breakpoints.find((b) => b.name === breakpointName)
+            if (!bp) return state
 
-          return {
-            schema: {
-              ...state.schema,
-              breakpoints,
-            },
-          }
-        }, false, "removeGridColumn")
-      },
+            const newGridRows = bp.gridRows - 1
 
-      // Selection
-      setSelectedComponentId: (id) => {
-        set({ selectedComponentId: id }, false, "setSelectedComponentId")
-      },
+            // Calculate dynamic minimum based on component positions
+            const { minRows } = calculateMinimumGridSize(components, breakpointName)
+            const absoluteMin = Math.max(GRID_CONSTRAINTS.minRows, minRows)
 
-      // Schema operations
-      exportSchema: () => {
-        return cloneSchema(get().schema)
-      },
+            // Validate: Don't allow reducing if it would clip components
+            if (newGridRows < absoluteMin) {
+              console.warn(
+                `❌ Cannot reduce rows to ${newGridRows}: Components occupy up to row ${minRows}. Minimum required: ${absoluteMin}`
+              )
+              return state // Reject the change
+            }
 
-      importSchema: (schema) => {
-        set(
-          {
-            schema: cloneSchema(schema),
-            currentBreakpoint: schema.breakpoints[0]?.name || "mobile",
-            selectedComponentId: null,
-          },
-          false,
-          "importSchema"
-        )
-      },
+            // Safe to reduce
+            const breakpoints = state.schema.breakpoints.map((b) => {
+              if (b.name === breakpointName) {
+                return { ...b, gridRows: newGridRows }
+              }
+              return b
+            })
 
-      initializeSchema: (breakpointType) => {
-        set(
-          {
-            schema: createSchemaWithBreakpoint(breakpointType),
-            currentBreakpoint: breakpointType,
-            selectedComponentId: null,
-          },
-          false,
-          "initializeSchema"
-        )
-      },
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                breakpoints,
+              },
+            }, "removeGridRow")
+          }, false, "removeGridRow")
+        },
 
-      resetSchema: () => {
-        set(
-          {
-            schema: createEmptySchema(),
-            currentBreakpoint: "mobile",
-            selectedComponentId: null,
-            componentLinks: [],
-          },
-          false,
-          "resetSchema"
-        )
-      },
+        removeGridColumn: (breakpointName) => {
+          set((state) => {
+            // Get components in current breakpoint's layout (상속된 layout/위치 포함)
+            const resolved = resolveBreakpoint(state.schema, breakpointName)
+            const currentLayout = resolved.layouts[breakpointName]
+            const componentIds = new Set(currentLayout.components)
+            const components = resolved.components.filter((c) => componentIds.has(c.id))
 
-      // Component Linking actions
-      addComponentLink: (sourceId, targetId) => {
-        const state = get()
+            // Find current breakpoint config
+            const bp = state.schema.breakpoints.find((b) => b.name === breakpointName)
+            if (!bp) return state
 
-        // Validation: Check if both components exist
-        const sourceExists = state.schema.components.some((c) => c.id === sourceId)
-        const targetExists = state.schema.components.some((c) => c.id === targetId)
+            const newGridCols = bp.gridCols - 1
 
-        if (!sourceExists) {
-          if (process.env.NODE_ENV === "development") {
-            console.warn(`Cannot link: source component "${sourceId}" does not exist`)
-          }
-          return
-        }
+            // Calculate dynamic minimum based on component positions
+            const { minCols } = calculateMinimumGridSize(components, breakpointName)
+            const absoluteMin = Math.max(GRID_CONSTRAINTS.minCols, minCols)
 
-        if (!targetExists) {
-          if (process.env.NODE_ENV === "development") {
-            console.warn(`Cannot link: target component "${targetId}" does not exist`)
-          }
-          return
-        }
+            // Validate: Don't allow reducing if it would clip components
+            if (newGridCols < absoluteMin) {
+              console.warn(
+                `❌ Cannot reduce columns to ${newGridCols}: Components occupy up to column ${minCols}. Minimum required: ${absoluteMin}`
+              )
+              return state // Reject the change
+            }
 
-        // Validation: Cannot link component to itself
-        if (sourceId === targetId) {
-          if (process.env.NODE_ENV === "development") {
-            console.warn(`Cannot link component "${sourceId}" to itself`)
-          }
-          return
-        }
+            // Safe to reduce
+            const breakpoints = state.schema.breakpoints.map((b) => {
+              if (b.name === breakpointName) {
+                return { ...b, gridCols: newGridCols }
+              }
+              return b
+            })
 
-        set((state) => {
-          // 중복 체크 (exact same link already exists)
-          const exists = state.componentLinks.some(
-            (link) =>
-              (link.source === sourceId && link.target === targetId) ||
-              (link.source === targetId && link.target === sourceId)
+            return withHistory(state, {
+              schema: {
+                ...state.schema,
+                breakpoints,
+              },
+            }, "removeGridColumn")
+          }, false, "removeGridColumn")
+        },
+
+        // Selection
+        setSelectedComponentId: (id) => {
+          set(
+            { selectedComponentId: id, selectedComponentIds: id ? [id] : [] },
+            false,
+            "setSelectedComponentId"
           )
+        },
 
-          if (exists) return state
+        setSelectedComponentIds: (ids) => {
+          set(
+            (state) => toSelection(ids, state.selectedComponentId),
+            false,
+            "setSelectedComponentIds"
+          )
+        },
+
+        // Shift+click: 선택에 추가(primary로 지정) 또는 제거
+        toggleComponentSelection: (id) => {
+          set((state) => {
+            if (state.selectedComponentIds.includes(id)) {
+              return toSelection(
+                state.selectedComponentIds.filter((selectedId) => selectedId !== id),
+                state.selectedComponentId
+              )
+            }
+            return toSelection([...state.selectedComponentIds, id], id)
+          }, false, "toggleComponentSelection")
+        },
+
+        clearSelection: () => {
+          set({ selectedComponentId: null, selectedComponentIds: [] }, false, "clearSelection")
+        },
 
-          // 1-to-1 Constraint: Remove any existing links for source component
-          const sourceExistingLink = state.componentLinks.find(
-            (link) => link.source === sourceId || link.target === sourceId
+        // Schema operations
+        exportSchema: () => {
+          return cloneSchema(get().schema)
+        },
+
+        importSchema: (schema) => {
+          set(
+            (state) => withHistory(state, {
+              schema: cloneSchema(schema),
+              currentBreakpoint: schema.breakpoints[0]?.name || "mobile",
+              selectedComponentId: null,
+              selectedComponentIds: [],
+            }, "importSchema"),
+            false,
+            "importSchema"
           )
+        },
 
-          // 1-to-1 Constraint: Remove any existing links for target component
-          const targetExistingLink = state.componentLinks.find(
-            (link) => link.source === targetId || link.target === targetId
+        initializeSchema: (breakpointType) => {
+          set(
+            {
+              schema: createSchemaWithBreakpoint(breakpointType),
+              currentBreakpoint: breakpointType,
+              selectedComponentId: null,
+              selectedComponentIds: [],
+              history: createEmptyHistory(), // 새 작업 시작 → 히스토리 초기화
+            },
+            false,
+            "initializeSchema"
           )
+        },
 
-          // Filter out existing links for both source and target
-          let updatedLinks = state.componentLinks
+        resetSchema: () => {
+          set(
+            {
+              schema: createEmptySchema(),
+              currentBreakpoint: "mobile",
+              selectedComponentId: null,
+              selectedComponentIds: [],
+              componentLinks: [],
+              history: createEmptyHistory(),
+            },
+            false,
+            "resetSchema"
+          )
+        },
+
+        // Component Linking actions
+        addComponentLink: (sourceId, targetId) => {
+          const state = get()
+
+          // Validation: Check if both components exist
+          const sourceExists = state.schema.components.some((c) => c.id === sourceId)
+          const targetExists = state.schema.components.some((c) => c.id === targetId)
 
-          if (sourceExistingLink) {
+          if (!sourceExists) {
             if (process.env.NODE_ENV === "development") {
-              console.log(`[Store] Removing source's existing link: ${sourceExistingLink.source} ↔ ${sourceExistingLink.target}`)
+              console.warn(`Cannot link: source component "${sourceId}" does not exist`)
             }
-            updatedLinks = updatedLinks.filter(
-              (link) =>
-                !(
-                  (link.source === sourceExistingLink.source && link.target === sourceExistingLink.target) ||
-                  (link.source === sourceExistingLink.target && link.target === sourceExistingLink.source)
-                )
-            )
+            return
           }
 
-          if (targetExistingLink && targetExistingLink !== sourceExistingLink) {
+          if (!targetExists) {
             if (process.env.NODE_ENV === "development") {
-              console.log(`[Store] Removing target's existing link: ${targetExistingLink.source} ↔ ${targetExistingLink.target}`)
+              console.warn(`Cannot link: target component "${targetId}" does not exist`)
             }
-            updatedLinks = updatedLinks.filter(
-              (link) =>
-                !(
-                  (link.source === targetExistingLink.source && link.target === targetExistingLink.target) ||
-                  (link.source === targetExistingLink.target && link.target === targetExistingLink.source)
-                )
-            )
+            return
           }
 
-          // Add new link
-          return {
-            componentLinks: [
-              ...updatedLinks,
-              { source: sourceId, target: targetId },
-            ],
+          // Validation: Cannot link component to itself
+          if (sourceId === targetId) {
+            if (process.env.NODE_ENV === "development") {
+              console.warn(`Cannot link component "${sourceId}" to itself`)
+            }
+            return
           }
-        }, false, "addComponentLink")
-      },
 
-      removeComponentLink: (sourceId, targetId) => {
-        set((state) => ({
-          componentLinks: state.componentLinks.filter(
-            (link) =>
-              !(
+          set((state) => {
+            // 중복 체크 (exact same link already exists)
+            const exists = state.componentLinks.some(
+              (link) =>
                 (link.source === sourceId && link.target === targetId) ||
                 (link.source === targetId && link.target === sourceId)
+            )
+
+            if (exists) return state
+
+            // 1-to-1 Constraint: Remove any existing links for source component
+            const sourceExistingLink = state.componentLinks.find(
+              (link) => link.source === sourceId || link.target === sourceId
+            )
+
+            // 1-to-1 Constraint: Remove any existing links for target component
+            const targetExistingLink = state.componentLinks.find(
+              (link) => link.source === targetId || link.target === targetId
+            )
+
+            // Filter out existing links for both source and target
+            let updatedLinks = state.componentLinks
+
+            if (sourceExistingLink) {
+              if (process.env.NODE_ENV === "development") {
+                console.log(`[Store] Removing source's existing link: ${sourceExistingLink.source} ↔ ${sourceExistingLink.target}`)
+              }
+              updatedLinks = updatedLinks.filter(
+                (link) =>
+                  !(
+                    (link.source === sourceExistingLink.source && link.target === sourceExistingLink.target) ||
+                    (link.source === sourceExistingLink.target && link.target === sourceExistingLink.source)
+                  )
               )
-          ),
-        }), false, "removeComponentLink")
-      },
+            }
 
-      clearAllLinks: () => {
-        set(
-          { componentLinks: [] },
-          false,
-          "clearAllLinks"
-        )
-      },
+            if (targetExistingLink && targetExistingLink !== sourceExistingLink) {
+              if (process.env.NODE_ENV === "development") {
+                console.log(`[Store] Removing target's existing link: ${targetExistingLink.source} ↔ ${targetExistingLink.target}`)
+              }
+              updatedLinks = updatedLinks.filter(
+                (link) =>
+                  !(
+                    (link.source === targetExistingLink.source && link.target === targetExistingLink.target) ||
+                    (link.source === targetExistingLink.target && link.target === targetExistingLink.source)
+                  )
+              )
+            }
+
+            // Add new link
+            return withHistory(state, {
+              componentLinks: [
+                ...updatedLinks,
+                { source: sourceId, target: targetId },
+              ],
+            }, "addComponentLink")
+          }, false, "addComponentLink")
+        },
 
-      getLinkedComponentGroup: (componentId) => {
-        const state = get()
-        const componentIds = state.schema.components.map((c) => c.id)
+        removeComponentLink: (sourceId, targetId) => {
+          set((state) => withHistory(state, {
+            componentLinks: state.componentLinks.filter(
+              (link) =>
+                !(
+                  (link.source === sourceId && link.target === targetId) ||
+                  (link.source === targetId && link.target === sourceId)
+                )
+            ),
+          }, "removeComponentLink"), false, "removeComponentLink")
+        },
 
-        // Union-Find로 그룹 계산
-        const groups = calculateConnectedGroups(componentIds, state.componentLinks)
+        clearAllLinks: () => {
+          set(
+            (state) => withHistory(state, {
+              componentLinks: [],
+            }, "clearAllLinks"),
+            false,
+            "clearAllLinks"
+          )
+        },
 
-        // componentId가 속한 그룹 찾기
-        for (const [, members] of groups.entries()) {
-          if (members.has(componentId)) {
-            return Array.from(members)
+        getLinkedComponentGroup: (componentId) => {
+          const state = get()
+          const componentIds = state.schema.components.map((c) => c.id)
+
+          // Union-Find로 그룹 계산
+          const groups = calculateConnectedGroups(componentIds, state.componentLinks)
+
+          // componentId가 속한 그룹 찾기
+          for (const [, members] of groups.entries()) {
+            if (members.has(componentId)) {
+              return Array.from(members)
+            }
           }
-        }
 
-        return [componentId] // 연결 없으면 자기 자신만
-      },
+          return [componentId] // 연결 없으면 자기 자신만
+        },
 
-      // UI state management
-      setShowLinkingPanel: (show) => {
-        set({ showLinkingPanel: show }, false, "setShowLinkingPanel")
-      },
+        // UI state management
+        setShowLinkingPanel: (show) => {
+          set({ showLinkingPanel: show }, false, "setShowLinkingPanel")
+        },
 
-      openLinkingPanel: () => {
-        set({ showLinkingPanel: true }, false, "openLinkingPanel")
-      },
+        openLinkingPanel: () => {
+          set({ showLinkingPanel: true }, false, "openLinkingPanel")
+        },
 
-      closeLinkingPanel: () => {
-        set({ showLinkingPanel: false }, false, "closeLinkingPanel")
-      },
+        closeLinkingPanel: () => {
+          set({ showLinkingPanel: false }, false, "closeLinkingPanel")
+        },
 
-      // History actions (간단 구현)
-      undo: () => {
-        // TODO: Implement history tracking
-        console.log("Undo not yet implemented")
-      },
-      redo: () => {
-        // TODO: Implement history tracking
-        console.log("Redo not yet implemented")
-      },
-      canUndo: () => false,
-      canRedo: () => false,
-      clearHistory: () => {
-        console.log("Clear history not yet implemented")
-      },
-    }),
+        // Project workspace
+        // workspace를 전달하면 저장된 데이터 대신 사용 (새 프로젝트, 삭제 후 초기화)
+        switchWorkspace: (projectId, workspace) => {
+          // autosave 대상을 새 프로젝트 키로 전환
+          api.persist.setOptions({
+            name: getWorkspaceStorageKey(projectId),
+            storage: createJSONStorage(() => localStorage),
+          })
+
+          const stored = workspace ? null : readStoredWorkspace(projectId)
+          if (stored && !stored.workspace) {
+            console.warn(`[Store] Failed to restore project "${projectId}":`, stored.errors.join(", "))
+            backupStoredWorkspace(projectId)
+          }
+
+          set(
+            {
+              ...(workspace ?? stored?.workspace ?? createInitialWorkspace()),
+              selectedComponentId: null,
+              selectedComponentIds: [],
+              showLinkingPanel: false,
+              history: createEmptyHistory(),
+              projectId,
+            },
+            false,
+            "switchWorkspace"
+          )
+        },
+
+        // 열린 프로젝트 닫기 (삭제 등): 빈 workspace로 되돌리고 autosave 중지
+        closeWorkspace: () => {
+          api.persist.setOptions({ storage: detachedStorage })
+
+          set(
+            {
+              ...createInitialWorkspace(),
+              selectedComponentId: null,
+              selectedComponentIds: [],
+              showLinkingPanel: false,
+              history: createEmptyHistory(),
+              projectId: null,
+            },
+            false,
+            "closeWorkspace"
+          )
+        },
+
+        // History actions (Undo/Redo)
+        undo: () => {
+          set((state) => {
+            const result = undoHistory(state.history, {
+              schema: state.schema,
+              componentLinks: state.componentLinks,
+            })
+            if (!result) return state
+
+            return {
+              ...restoreSnapshot(state, result.snapshot),
+              history: result.history,
+            }
+          }, false, "undo")
+        },
+
+        redo: () => {
+          set((state) => {
+            const result = redoHistory(state.history, {
+              schema: state.schema,
+              componentLinks: state.componentLinks,
+            })
+            if (!result) return state
+
+            return {
+              ...restoreSnapshot(state, result.snapshot),
+              history: result.history,
+            }
+          }, false, "redo")
+        },
+
+        canUndo: () => get().history.past.length > 0,
+
+        canRedo: () => get().history.future.length > 0,
+
+        clearHistory: () => {
+          set({ history: createEmptyHistory() }, false, "clearHistory")
+        },
+      }),
+      {
+        name: getWorkspaceStorageKey(DEFAULT_PROJECT_ID),
+        version: WORKSPACE_STORAGE_VERSION,
+        storage: createJSONStorage(() => localStorage),
+        // SSR hydration mismatch 방지: 클라이언트 마운트 후 persist.rehydrate() 호출
+        skipHydration: true,
+        partialize: (state): PersistedWorkspace => ({
+          schema: state.schema,
+          componentLinks: state.componentLinks,
+          currentBreakpoint: state.currentBreakpoint,
+        }),
+        merge: (persistedState, currentState) => {
+          // 저장된 workspace 없음 (첫 방문)
+          if (persistedState === undefined || persistedState === null) {
+            return currentState
+          }
+
+          const { workspace, appliedMigrations, errors, warnings } =
+            restoreWorkspace(persistedState)
+
+          if (!workspace) {
+            // 복원 실패: 다음 autosave가 덮어쓰기 전에 원본 payload 백업
+            console.warn("[Store] Failed to restore workspace:", errors.join(", "))
+            try {
+              localStorage.setItem(
+                getWorkspaceBackupKey(currentState.projectId ?? DEFAULT_PROJECT_ID),
+                JSON.stringify(persistedState)
+              )
+            } catch {
+              // 저장소 접근 불가 (quota, private mode) - 무시
+            }
+            return currentState
+          }
+
+          if (process.env.NODE_ENV === "development") {
+            if (appliedMigrations.length > 0) {
+              console.log(`[Store] Migrated workspace schema: ${appliedMigrations.join(", ")}`)
+            }
+            warnings.forEach((warning) => console.warn(`[Store] ${warning}`))
+          }
+
+          return {
+            ...currentState,
+            ...workspace,
+            selectedComponentId: null,
+            selectedComponentIds: [],
+            history: createEmptyHistory(),
+          }
+        },
+      }
+    ),
     {
       name: "vlb-layout-store",
       enabled: process.env.NODE_ENV === "development",
@@ -844,13 +1377,44 @@ export const useLayoutStore = create<LayoutState>()(
   )
 )
 
+// breakpoint별 상속 해석 결과 (같은 schema/breakpoint → 같은 객체, selector 결과 안정성)
+const resolvedSchemaCache = new WeakMap<LaydlerSchema, Map<string, LaydlerSchema>>()
+
+/**
+ * 현재 breakpoint의 상속을 해석한 schema (상속 모드가 아니면 schema 그대로)
+ *
+ * Canvas/LayersTree처럼 현재 breakpoint를 표시/편집하는 곳에서 사용
+ * 해석된 컴포넌트로 만든 canvas 업데이트는 현재 breakpoint에만 override로 저장됨
+ */
+export function selectResolvedSchema(state: {
+  schema: LaydlerSchema
+  currentBreakpoint: string
+}): LaydlerSchema {
+  let cache = resolvedSchemaCache.get(state.schema)
+  if (!cache) {
+    cache = new Map()
+    resolvedSchemaCache.set(state.schema, cache)
+  }
+
+  let resolved = cache.get(state.currentBreakpoint)
+  if (!resolved) {
+    resolved = resolveBreakpoint(state.schema, state.currentBreakpoint)
+    cache.set(state.currentBreakpoint, resolved)
+  }
+  return resolved
+}
+
 /**
  * Selectors for derived state
  */
+export const useResolvedSchema = () => {
+  return useLayoutStore(selectResolvedSchema)
+}
+
 export const useCurrentLayout = () => {
   return useLayoutStore((state) => {
     const breakpoint = state.currentBreakpoint
-    return state.schema.layouts[breakpoint]
+    return selectResolvedSchema(state).layouts[breakpoint]
   })
 }
 
@@ -868,15 +1432,30 @@ export const useSelectedComponent = () => {
   })
 }
 
+/**
+ * 선택된 컴포넌트 전체 (selectedComponentIds 순서)
+ */
+export const useSelectedComponents = () => {
+  return useLayoutStore(
+    useShallow((state) =>
+      state.selectedComponentIds
+        .map((id) => state.schema.components.find((c) => c.id === id))
+        .filter((c): c is Component => c !== undefined)
+    )
+  )
+}
+
+/**
+ * 현재 breakpoint에 렌더링되는 컴포넌트 (layout의 최상위 컴포넌트 + 자손, 부모가 항상 먼저, 상속 해석 포함)
+ */
 export const useComponentsInCurrentLayout = () => {
   return useLayoutStore(
     useShallow((state) => {
-      const breakpoint = state.currentBreakpoint
-      const layout = state.schema.layouts[breakpoint]
+      const schema = selectResolvedSchema(state)
+      const layout = schema.layouts[state.currentBreakpoint]
       if (!layout) return []
 
-      const componentIds = new Set(layout.components)
-      return state.schema.components.filter((c) => componentIds.has(c.id))
+      return getComponentsWithDescendants(schema.components, layout.components)
     })
   )
 }
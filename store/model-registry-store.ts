@@ -0,0 +1,70 @@
+/**
+ * Model Registry Store (Zustand)
+ *
+ * UI에서 입력한 모델 설정(JSON)을 저장하고 runtime registry에 적용
+ * 새로고침 후에도 유지되도록 localStorage에 설정 텍스트만 저장 (rehydrate 시 다시 검증/적용)
+ */
+
+import { create } from "zustand"
+import { devtools, persist, createJSONStorage } from "zustand/middleware"
+import {
+  applyModelRegistryConfig,
+  type ModelRegistryConfigResult,
+} from "@/lib/model-registry-config"
+import { getActiveModels } from "@/lib/ai-model-registry"
+import type { AIModelMetadata } from "@/types/ai-models"
+
+interface ModelRegistryState {
+  /** 적용된 설정 (JSON 텍스트, 비어 있으면 내장 모델만) */
+  configText: string
+  /** 설정 적용 후 활성 모델 목록 (모델 선택/추천 UI 갱신용) */
+  activeModels: AIModelMetadata[]
+
+  /**
+   * 설정 적용 (유효하지 않으면 기존 설정 유지)
+   */
+  applyConfig: (text: string) => ModelRegistryConfigResult
+  /**
+   * 내장 모델만 사용
+   */
+  resetConfig: () => void
+}
+
+export const useModelRegistryStore = create<ModelRegistryState>()(
+  devtools(
+    persist(
+      (set) => ({
+        configText: "",
+        activeModels: getActiveModels(),
+
+        applyConfig: (text) => {
+          const result = applyModelRegistryConfig(text)
+          if (result.valid) {
+            set({ configText: text, activeModels: getActiveModels() }, false, "applyConfig")
+          }
+          return result
+        },
+
+        resetConfig: () => {
+          applyModelRegistryConfig("")
+          set({ configText: "", activeModels: getActiveModels() }, false, "resetConfig")
+        },
+      }),
+      {
+        name: "vlb-model-registry",
+        storage: createJSONStorage(() => localStorage),
+        // SSR hydration mismatch 방지: 클라이언트 마운트 후 persist.rehydrate() 호출
+        skipHydration: true,
+        partialize: (state) => ({ configText: state.configText }),
+        onRehydrateStorage: () => (state) => {
+          // 저장된 설정이 이후 버전에서 유효하지 않게 되면 내장 모델만 사용
+          if (state?.configText) state.applyConfig(state.configText)
+        },
+      }
+    ),
+    {
+      name: "vlb-model-registry-store",
+      enabled: process.env.NODE_ENV === "development",
+    }
+  )
+)
@@ -0,0 +1,230 @@
+/**
+ * Project Store (Zustand)
+ *
+ * 이름이 있는 레이아웃(프로젝트) 목록 관리
+ * - 프로젝트 메타데이터(이름, 생성/수정 시각)만 이 store에 저장
+ * - 각 프로젝트의 schema/links/breakpoint는 `vlb-workspace:<projectId>` 키에 저장 (layout-store autosave)
+ * - 프로젝트 전환 = layout-store의 autosave 대상 키 전환 + 저장된 workspace 로드
+ */
+
+import { create } from "zustand"
+import { devtools, persist, createJSONStorage } from "zustand/middleware"
+import { useLayoutStore } from "./layout-store"
+import { createSchemaWithBreakpoint } from "@/lib/schema-utils"
+import {
+  DEFAULT_PROJECT_ID,
+  copyStoredWorkspace,
+  readStoredWorkspace,
+  removeStoredWorkspace,
+} from "@/lib/workspace-storage"
+
+/**
+ * 프로젝트 메타데이터
+ */
+export interface ProjectMeta {
+  id: string
+  name: string
+  /** 생성 시각 (ms) */
+  createdAt: number
+  /** 마지막 수정/열람 시각 (ms) */
+  updatedAt: number
+}
+
+/**
+ * 기본 프로젝트 이름
+ */
+export const DEFAULT_PROJECT_NAME = "Untitled Project"
+
+interface ProjectState {
+  projects: ProjectMeta[]
+  /** 현재 열린 프로젝트 (null이면 프로젝트 선택 필요) */
+  activeProjectId: string | null
+
+  createProject: (breakpointType: "mobile" | "tablet" | "desktop", name?: string) => string
+  renameProject: (id: string, name: string) => void
+  duplicateProject: (id: string) => string | null
+  deleteProject: (id: string) => void
+  openProject: (id: string) => void
+  restoreSession: () => void
+}
+
+/**
+ * 프로젝트 ID 생성 (저장 키에 사용되므로 영숫자 + hyphen만 사용)
+ */
+function generateProjectId(): string {
+  return `p-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`
+}
+
+/**
+ * 중복되지 않는 프로젝트 이름 생성
+ *
+ * @example
+ * getUniqueProjectName("Untitled Project", ["Untitled Project"]) // "Untitled Project 2"
+ */
+export function getUniqueProjectName(baseName: string, existingNames: string[]): string {
+  if (!existingNames.includes(baseName)) return baseName
+
+  let index = 2
+  while (existingNames.includes(`${baseName} ${index}`)) {
+    index++
+  }
+  return `${baseName} ${index}`
+}
+
+export const useProjectStore = create<ProjectState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        projects: [],
+        activeProjectId: null,
+
+        createProject: (breakpointType, name = DEFAULT_PROJECT_NAME) => {
+          const id = generateProjectId()
+          const now = Date.now()
+          const projectName = getUniqueProjectName(
+            name.trim() || DEFAULT_PROJECT_NAME,
+            get().projects.map((p) => p.name)
+          )
+
+          useLayoutStore.getState().switchWorkspace(id, {
+            schema: createSchemaWithBreakpoint(breakpointType),
+            componentLinks: [],
+            currentBreakpoint: breakpointType,
+          })
+
+          set(
+            (state) => ({
+              projects: [...state.projects, { id, name: projectName, createdAt: now, updatedAt: now }],
+              activeProjectId: id,
+            }),
+            false,
+            "createProject"
+          )
+
+          return id
+        },
+
+        renameProject: (id, name) => {
+          const trimmed = name.trim()
+          if (!trimmed) return
+
+          set(
+            (state) => ({
+              projects: state.projects.map((p) =>
+                p.id === id ? { ...p, name: trimmed, updatedAt: Date.now() } : p
+              ),
+            }),
+            false,
+            "renameProject"
+          )
+        },
+
+        duplicateProject: (id) => {
+          const original = get().projects.find((p) => p.id === id)
+          if (!original) return null
+
+          const newId = generateProjectId()
+          if (!copyStoredWorkspace(id, newId)) return null
+
+          const now = Date.now()
+          set(
+            (state) => ({
+              projects: [
+                ...state.projects,
+                {
+                  id: newId,
+                  name: getUniqueProjectName(
+                    `${original.name} Copy`,
+                    state.projects.map((p) => p.name)
+                  ),
+                  createdAt: now,
+                  updatedAt: now,
+                },
+              ],
+            }),
+            false,
+            "duplicateProject"
+          )
+
+          return newId
+        },
+
+        deleteProject: (id) => {
+          if (get().activeProjectId === id) {
+            // 열린 프로젝트 삭제: 빈 workspace로 되돌리고 autosave를 끊은 뒤 저장 데이터 제거
+            useLayoutStore.getState().closeWorkspace()
+          }
+          removeStoredWorkspace(id)
+
+          set(
+            (state) => ({
+              projects: state.projects.filter((p) => p.id !== id),
+              activeProjectId: state.activeProjectId === id ? null : state.activeProjectId,
+            }),
+            false,
+            "deleteProject"
+          )
+        },
+
+        openProject: (id) => {
+          if (!get().projects.some((p) => p.id === id)) return
+
+          useLayoutStore.getState().switchWorkspace(id)
+
+          set(
+            (state) => ({
+              projects: state.projects.map((p) =>
+                p.id === id ? { ...p, updatedAt: Date.now() } : p
+              ),
+              activeProjectId: id,
+            }),
+            false,
+            "openProject"
+          )
+        },
+
+        restoreSession: () => {
+          const { activeProjectId, projects } = get()
+
+          if (activeProjectId && projects.some((p) => p.id === activeProjectId)) {
+            get().openProject(activeProjectId)
+            return
+          }
+
+          // 프로젝트 도입 이전의 단일 workspace (vlb-workspace:default)를 프로젝트로 등록
+          const legacy = projects.length === 0 ? readStoredWorkspace(DEFAULT_PROJECT_ID) : null
+          if (legacy?.workspace && legacy.workspace.schema.breakpoints.length > 0) {
+            const now = Date.now()
+            set(
+              {
+                projects: [
+                  { id: DEFAULT_PROJECT_ID, name: DEFAULT_PROJECT_NAME, createdAt: now, updatedAt: now },
+                ],
+              },
+              false,
+              "restoreSession"
+            )
+            get().openProject(DEFAULT_PROJECT_ID)
+            return
+          }
+
+          set({ activeProjectId: null }, false, "restoreSession")
+        },
+      }),
+      {
+        name: "vlb-projects",
+        storage: createJSONStorage(() => localStorage),
+        // SSR hydration mismatch 방지: 클라이언트 마운트 후 persist.rehydrate() 호출
+        skipHydration: true,
+        partialize: (state) => ({
+          projects: state.projects,
+          activeProjectId: state.activeProjectId,
+        }),
+      }
+    ),
+    {
+      name: "vlb-project-store",
+      enabled: process.env.NODE_ENV === "development",
+    }
+  )
+)
@@ -17,15 +17,17 @@
  * - Qwen 2.5 Coder, Llama 4 오픈소스 모델 추가
  */
 
+import type { BreakpointInheritanceMode, GenerationPackage } from "./schema"
+
 /**
  * AI 모델 프로바이더
  */
 export type AIProvider = "anthropic" | "openai" | "google" | "deepseek" | "xai" | "meta" | "alibaba" | "custom"
 
 /**
- * AI 모델 ID (고유 식별자)
+ * 내장 AI 모델 ID (AI_MODEL_REGISTRY에 정의된 모델)
  */
-export type AIModelId =
+export type BuiltInModelId =
   // Anthropic Claude (2025)
   | "claude-sonnet-4"
   | "claude-sonnet-4.5"
@@ -65,9 +67,19 @@ export type AIModelId =
   // Alibaba Qwen (Open Source)
   | "qwen-2.5-coder"
   | "qwen-2.5-coder-32b"
+  // Local Endpoint (OpenAI 호환 - Ollama, llama.cpp)
+  | "local-llama-4"
+  | "local-qwen-2.5-coder"
   // Generic/Custom
   | "custom"
 
+/**
+ * AI 모델 ID (고유 식별자)
+ *
+ * 내장 모델 + runtime registry에 등록한 사용자 정의 모델 (lib/model-registry-config.ts)
+ */
+export type AIModelId = BuiltInModelId | (string & {})
+
 /**
  * AI 모델 능력 (Capabilities)
  *
@@ -132,6 +144,8 @@ export interface AIModelMetadata {
   name: string
   /** 프로바이더 */
   provider: AIProvider
+  /** 프롬프트 전략 (기본: provider) - 로컬 endpoint의 open-weight 모델은 원래 모델 계열의 전략 사용 */
+  promptStrategy?: AIProvider
   /** 모델 설명 */
   description: string
   /** 주요 강점 (Best for) */
@@ -148,6 +162,10 @@ export interface AIModelMetadata {
   active: boolean
   /** 릴리스 날짜 */
   releaseDate?: string
+  /** 토크나이저 (기본: 프롬프트 전략/provider 계열) */
+  tokenizer?: TokenizerId
+  /** Provider API에 보낼 모델 이름 (기본: 모델 ID) - 예: Ollama 태그 "qwen2.5-coder:14b" */
+  providerModel?: string
 }
 
 /**
@@ -170,6 +188,12 @@ export interface PromptGenerationOptions {
   costSensitive?: boolean
   /** 커스텀 시스템 프롬프트 */
   customSystemPrompt?: string
+  /** 입력 토큰 예산 (기본: 모델 contextWindow - 출력 토큰) */
+  tokenBudget?: number
+  /** 대상 프레임워크 (generatePrompt가 섹션 생성 시 채움, 예시/지침 선택용) */
+  framework?: GenerationPackage["options"]["framework"]
+  /** 대상 CSS solution (generatePrompt가 섹션 생성 시 채움, 스타일 지침 선택용) */
+  cssSolution?: GenerationPackage["options"]["cssSolution"]
 }
 
 /**
@@ -184,6 +208,31 @@ export interface PromptSection {
   priority: number
   /** 필수 여부 */
   required: boolean
+  /** 적용된 상세 수준 (예산에 맞추려고 낮췄을 수 있음) */
+  verbosity?: PromptVerbosity
+}
+
+/**
+ * 프롬프트 상세 수준
+ */
+export type PromptVerbosity = NonNullable<PromptGenerationOptions["verbosity"]>
+
+/**
+ * 컨텍스트 예산에 맞춘 프롬프트 압축 결과
+ */
+export interface PromptCompaction {
+  /** 입력 토큰 예산 */
+  budget: number
+  /** 압축 전 토큰 수 */
+  originalTokens: number
+  /** 압축 후 토큰 수 */
+  tokens: number
+  /** 예산 안에 들어왔는지 (필수 섹션을 최소 수준으로 줄여도 넘으면 false) */
+  fits: boolean
+  /** 상세 수준을 낮춘 섹션 (from이 없으면 전략의 기본 수준에서 낮춤) */
+  degraded: Array<{ title: string; from?: PromptVerbosity; to: PromptVerbosity }>
+  /** 제외한 선택 섹션 */
+  dropped: string[]
 }
 
 /**
@@ -196,8 +245,12 @@ export interface PromptStrategyResult {
   prompt?: string
   /** 프롬프트 섹션들 (디버깅용) */
   sections?: PromptSection[]
-  /** 예상 토큰 수 */
+  /** 예상 토큰 수 (tokenUsage.total) */
   estimatedTokens?: number
+  /** System / User 프롬프트별 토큰 수 */
+  tokenUsage?: TokenUsage
+  /** 예산에 맞추려고 섹션을 줄였거나 예산을 넘은 경우 */
+  compaction?: PromptCompaction
   /** 사용된 모델 ID */
   modelId: AIModelId
   /** 최적화 설정 */
@@ -276,13 +329,15 @@ export interface IPromptStrategy {
    * @param breakpoints - 브레이크포인트 배열
    * @param layouts - 레이아웃 설정
    * @param options - 생성 옵션
+   * @param inheritance - Breakpoint 상속 모드 (설정 시 상속 대상과의 차이만 설명)
    * @returns 레이아웃 섹션
    */
   generateLayoutSection(
     components: unknown[],
     breakpoints: unknown[],
     layouts: unknown,
-    options?: PromptGenerationOptions
+    options?: PromptGenerationOptions,
+    inheritance?: BreakpointInheritanceMode
   ): string
 
   /**
@@ -332,3 +387,91 @@ export interface IPromptStrategyFactory {
    */
   recommendModels(criteria: ModelRecommendationCriteria): ModelRecommendation[]
 }
+
+/**
+ * Provider API 호출 요청 (서버 전용)
+ */
+export interface ProviderCompletionRequest {
+  /** Provider API의 모델 이름 (예: "claude-sonnet-4-5") */
+  model: string
+  /** 전략이 생성한 프롬프트 */
+  prompt: string
+  /** Temperature (0-1) */
+  temperature?: number
+  /** 최대 출력 토큰 */
+  maxOutputTokens?: number
+  /** 요청 취소 (클라이언트 연결 종료 등) */
+  signal?: AbortSignal
+}
+
+/**
+ * Provider Adapter 인터페이스 (Adapter Pattern)
+ *
+ * AIProvider마다 API 형식(인증, 요청 body, 스트리밍 이벤트)이 달라서 adapter로 감쌈
+ * API 키는 서버 환경 변수에서만 읽으므로 adapter는 route handler에서만 생성
+ */
+export interface IProviderAdapter {
+  /** 프로바이더 */
+  readonly provider: AIProvider
+
+  /**
+   * 생성 결과를 토큰(텍스트 조각) 단위로 스트리밍
+   * @param request - 호출 요청
+   * @returns 텍스트 조각 스트림
+   */
+  streamCompletion(request: ProviderCompletionRequest): AsyncIterable<string>
+}
+
+/**
+ * 토크나이저 ID
+ *
+ * - o200k_base / cl100k_base: OpenAI BPE vocab (정확한 토큰 수)
+ * - claude, gemini, llama, qwen, deepseek, grok: BPE vocab 기반 근사 (lib/tokenizers/tokenizer-registry.ts 참고)
+ * - heuristic: 문자 수 기반 추정 (vocab 로드 전 fallback)
+ */
+export type TokenizerId =
+  | "o200k_base"
+  | "cl100k_base"
+  | "claude"
+  | "gemini"
+  | "llama"
+  | "qwen"
+  | "deepseek"
+  | "grok"
+  | "heuristic"
+
+/**
+ * Tokenizer 인터페이스
+ *
+ * 정확한 vocab이 있는 모델 계열만 exact, 나머지는 근사값
+ */
+export interface ITokenizer {
+  /** 토크나이저 ID */
+  readonly id: TokenizerId
+  /** 표시 이름 */
+  readonly name: string
+  /** 모델의 실제 토크나이저와 같은 결과인지 */
+  readonly exact: boolean
+
+  /**
+   * 토큰 수 계산
+   * @param text - 텍스트
+   */
+  countTokens(text: string): number
+}
+
+/**
+ * 프롬프트 토큰 수 (System / User 분리)
+ */
+export interface TokenUsage {
+  /** System 프롬프트 토큰 수 */
+  system: number
+  /** User 프롬프트 토큰 수 (컴포넌트, 레이아웃, 지시사항, Schema) */
+  user: number
+  /** 전체 입력 토큰 수 */
+  total: number
+  /** 사용한 토크나이저 (vocab 로드 전이면 heuristic) */
+  tokenizer: TokenizerId
+  /** 정확한 토큰 수인지 */
+  exact: boolean
+}
@@ -209,6 +209,14 @@ export interface Component {
   canvasLayout?: CanvasLayout
   /** Responsive Canvas Layout: Breakpoint별 Canvas 배치 정보 (optional, 권장) */
   responsiveCanvasLayout?: ResponsiveCanvasLayout
+  /**
+   * Parent ID: 부모 컴포넌트 ID (optional, 없으면 최상위)
+   *
+   * 자식 목록은 저장하지 않고 parentId에서 파생 (schema.components 순서 유지)
+   * 중첩된 컴포넌트는 layouts[].components에 포함되지 않으며 부모 안에서 렌더링됨
+   * canvas 좌표는 페이지 기준 (부모 영역 안에 위치해야 함)
+   */
+  parentId?: string
 }
 
 /**
@@ -278,6 +286,17 @@ export interface Breakpoint {
   gridRows: number
 }
 
+/**
+ * Breakpoint 상속 모드
+ *
+ * - none: breakpoint별 완전 독립 (기본)
+ * - mobile-first: 비어 있는 breakpoint는 가장 가까운 작은 breakpoint를 상속
+ * - desktop-first: 비어 있는 breakpoint는 가장 가까운 큰 breakpoint를 상속
+ *
+ * 상속 대상: LayoutConfig (components가 빈 breakpoint), 컴포넌트별 canvas 위치 (responsiveCanvasLayout에 없는 breakpoint)
+ */
+export type BreakpointInheritanceMode = "none" | "mobile-first" | "desktop-first"
+
 /**
  * Visual Layout Builder Schema
  *
@@ -292,6 +311,8 @@ export interface LaydlerSchema {
   breakpoints: Breakpoint[]
   /** Layouts: breakpoint별 레이아웃 설정 (동적 키 지원) */
   layouts: Record<string, LayoutConfig>
+  /** Breakpoint Inheritance: 상속 모드 (optional, 없으면 "none") */
+  breakpointInheritance?: BreakpointInheritanceMode
 }
 
 /**
@@ -314,5 +335,11 @@ export interface GenerationPackage {
     framework: "react" | "vue" | "svelte" | "solid"
     cssSolution: "tailwind" | "css-modules" | "styled-components" | "emotion"
     typescript?: boolean
+    /**
+     * Layout 파일 구성 방식 (기본: "structure")
+     * - structure: layouts[].structure 기반 flex 조합
+     * - canvas-grid: breakpoint별 Canvas 배치를 CSS Grid로 그대로 재현
+     */
+    layoutMode?: "structure" | "canvas-grid"
   }
 }